@@ -19,6 +19,9 @@ const envSchema = Joi.object({
   JWT_EXPIRES_IN: Joi.string().default('7d'),
   JWT_REFRESH_SECRET: Joi.string().optional(),
   JWT_REFRESH_EXPIRES_IN: Joi.string().default('30d'),
+
+  // OpenID Connect single sign-on; required in production, development defaults to the local callback route
+  OIDC_REDIRECT_URI: Joi.string().uri().optional(),
   
   // CORS
   FRONTEND_URL: Joi.string().default('http://localhost:3000'),
@@ -40,6 +43,14 @@ const envSchema = Joi.object({
   REDIS_URL: Joi.string().optional(),
   REDIS_TTL: Joi.number().default(3600),
   
+  // Policy scheduler
+  POLICY_SCHEDULER_ENABLED: Joi.boolean().default(true),
+  POLICY_SCHEDULER_INTERVAL_MS: Joi.number().default(60000), // 1 minute
+
+  // System environment whose policies govern CRAFT's own management API
+  CRAFT_ADMIN_WORKSPACE: Joi.string().default('craft-system'),
+  CRAFT_ADMIN_ENVIRONMENT: Joi.string().default('craft-admin'),
+
   // Email (optional)
   SMTP_HOST: Joi.string().optional(),
   SMTP_PORT: Joi.number().default(587),
@@ -69,6 +80,11 @@ export const config = {
     refreshSecret: envVars.JWT_REFRESH_SECRET,
     refreshExpiresIn: envVars.JWT_REFRESH_EXPIRES_IN,
   },
+
+  oidc: {
+    redirectUri: envVars.OIDC_REDIRECT_URI as string | undefined
+      ?? (envVars.NODE_ENV === 'production' ? undefined : `http://localhost:${envVars.PORT}${envVars.API_PREFIX}/auth/oidc/callback`),
+  },
   
   cors: {
     frontendUrl: envVars.FRONTEND_URL,
@@ -95,6 +111,16 @@ export const config = {
     ttl: envVars.REDIS_TTL,
   },
   
+  policyScheduler: {
+    enabled: envVars.POLICY_SCHEDULER_ENABLED,
+    intervalMs: envVars.POLICY_SCHEDULER_INTERVAL_MS,
+  },
+
+  adminPolicies: {
+    workspace: envVars.CRAFT_ADMIN_WORKSPACE,
+    environment: envVars.CRAFT_ADMIN_ENVIRONMENT,
+  },
+
   email: {
     host: envVars.SMTP_HOST,
     port: envVars.SMTP_PORT,
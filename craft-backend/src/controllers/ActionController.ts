@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { AuthRequest } from '@/middleware/auth';
+import { AuthRequest, bulkWorkspaceFilter } from '@/middleware/auth';
 import { ValidationError, NotFoundError } from '@/exceptions/AppError';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { PaginationHelper } from '@/utils/pagination';
@@ -18,6 +18,7 @@ export class ActionController {
       category,
       riskLevel,
       active,
+      environmentId,
     } = req.query;
 
     const user = req.user;
@@ -40,6 +41,7 @@ export class ActionController {
     if (category) filter.category = category;
     if (riskLevel) filter.riskLevel = riskLevel;
     if (active !== undefined) filter.active = active === 'true';
+    if (environmentId) filter.environmentId = environmentId;
 
     // Add search filter
     if (search) {
@@ -547,7 +549,7 @@ export class ActionController {
     }
 
     const result = await Action.updateMany(
-      { id: { $in: actionIds } },
+      { id: { $in: actionIds }, ...await bulkWorkspaceFilter(req.user!, 'admin') },
       {
         ...updates,
         'metadata.lastModifiedBy': req.user!._id
@@ -574,7 +576,7 @@ export class ActionController {
     }
 
     // Get actions to be deleted
-    const actionsToDelete = await Action.find({ id: { $in: actionIds } });
+    const actionsToDelete = await Action.find({ id: { $in: actionIds }, ...await bulkWorkspaceFilter(req.user!, 'admin') });
 
     // Separate system actions (cannot delete)
     const systemActions = actionsToDelete.filter(action => action.metadata.isSystem);
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { Types } from 'mongoose';
-import { AuthRequest } from '@/middleware/auth';
+import { AuthRequest, bulkWorkspaceFilter } from '@/middleware/auth';
 import { ValidationError, NotFoundError, ConflictError } from '@/exceptions/AppError';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { PaginationHelper } from '@/utils/pagination';
@@ -526,7 +526,6 @@ export class AdditionalResourceController {
   static bulkDeleteAdditionalResources = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
     const { ids } = req.body;
     const user = req.user;
-    const userRole = user?.role;
 
     logger.info(`POST /additional-resources/bulk-delete called by user: ${user?._id} with ids:`, ids);
 
@@ -555,15 +554,8 @@ export class AdditionalResourceController {
       throw new ValidationError('No valid IDs provided');
     }
 
-    // Apply workspace-based filtering for basic and admin users
-    if (userRole === 'basic' || userRole === 'admin') {
-      const assignedWorkspaces = user?.assignedWorkspaces || [];
-      if (assignedWorkspaces.length > 0) {
-        filter.workspaceId = { $in: assignedWorkspaces };
-      } else {
-        filter.workspaceId = null;
-      }
-    }
+    // Only the workspaces the caller administers
+    Object.assign(filter, await bulkWorkspaceFilter(user!, 'admin'));
 
     // Check which resources exist and user has access to
     const existingResources = await AdditionalResource.find(filter);
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { AuthRequest } from '@/middleware/auth';
+import { AuthRequest, bulkWorkspaceFilter } from '@/middleware/auth';
 import { ValidationError, NotFoundError } from '@/exceptions/AppError';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { PaginationHelper } from '@/utils/pagination';
@@ -560,7 +560,7 @@ export class AttributeController {
     }
 
     const result = await Attribute.updateMany(
-      { id: { $in: attributeIds } },
+      { id: { $in: attributeIds }, ...await bulkWorkspaceFilter(req.user!, 'admin') },
       {
         ...updates,
         'metadata.lastModifiedBy': req.user!._id
@@ -587,7 +587,7 @@ export class AttributeController {
     }
 
     // Get attributes to be deleted
-    const attributesToDelete = await Attribute.find({ id: { $in: attributeIds } });
+    const attributesToDelete = await Attribute.find({ id: { $in: attributeIds }, ...await bulkWorkspaceFilter(req.user!, 'admin') });
 
     // Separate system attributes (cannot delete)
     const systemAttributes = attributesToDelete.filter(attr => attr.metadata.isSystem);
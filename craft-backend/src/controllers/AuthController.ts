@@ -1,10 +1,16 @@
 import { Request, Response } from 'express';
 import { AuthService } from '@/services/AuthService';
+import sessionService, { SessionContext } from '@/services/SessionService';
 import { AuthRequest } from '@/middleware/auth';
 import { ValidationError } from '@/exceptions/AppError';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
 
+const sessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 export class AuthController {
   private authService: AuthService;
 
@@ -19,7 +25,7 @@ export class AuthController {
       throw new ValidationError('Email and password are required');
     }
 
-    const result = await this.authService.login({ email, password });
+    const result = await this.authService.login({ email, password }, sessionContext(req));
 
     if (!result.success) {
       res.status(result.statusCode || 500).json({
@@ -74,7 +80,7 @@ export class AuthController {
       throw new ValidationError('Refresh token is required');
     }
 
-    const result = await this.authService.refreshToken(refreshToken);
+    const result = await this.authService.refreshToken(refreshToken, sessionContext(req));
 
     if (!result.success) {
       res.status(result.statusCode || 500).json({
@@ -159,8 +165,10 @@ export class AuthController {
   });
 
   logout = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
-    // In a real application, you might want to blacklist the token
-    // For now, we'll just return a success message
+    // Revoke the presented access token and end its session
+    if (req.token) {
+      await sessionService.logout(req.token);
+    }
     logger.info(`User logged out: ${req.user?.email}`);
     
     res.status(200).json({
@@ -168,4 +176,44 @@ export class AuthController {
       message: 'Logged out successfully',
     });
   });
-}
\ No newline at end of file
+
+  getSessions = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    if (!req.user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    const sessions = await sessionService.listForUser(String(req.user._id), req.token?.sid);
+
+    res.status(200).json({
+      success: true,
+      data: sessions,
+    });
+  });
+
+  revokeSession = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    if (!req.user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    await sessionService.revoke(req.params.id!, String(req.user._id));
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  });
+
+  revokeOtherSessions = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    if (!req.user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    const revoked = await sessionService.revokeAll(String(req.user._id), 'signed_out_everywhere', req.token?.sid);
+
+    res.status(200).json({
+      success: true,
+      message: `Signed out of ${revoked} other session(s)`,
+      data: { revoked },
+    });
+  });
+}
@@ -0,0 +1,186 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { ValidationError, NotFoundError, AuthorizationError } from '@/exceptions/AppError';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { PaginationHelper } from '@/utils/pagination';
+import { BreakGlassGrant, IBreakGlassActor } from '@/models/BreakGlassGrant';
+import BreakGlassService from '@/services/BreakGlassService';
+import { hasWorkspaceRole, resolveWorkspaceRole } from '@/utils/workspaceRoles';
+
+const STATUSES = ['active', 'expired', 'revoked'];
+const OUTCOMES = ['justified', 'unjustified'];
+
+const isWorkspaceScoped = (req: AuthRequest): boolean =>
+  req.user?.role === 'basic' || req.user?.role === 'admin';
+
+const findGrant = async (req: AuthRequest) => {
+  const filter: any = { id: req.params.id as string };
+
+  // Basic and admin users only see grants of their assigned workspaces
+  if (isWorkspaceScoped(req)) {
+    filter.workspaceId = { $in: req.user!.assignedWorkspaces || [] };
+  }
+
+  const grant = await BreakGlassGrant.findOne(filter);
+  if (!grant) {
+    throw new NotFoundError('Break-glass grant not found');
+  }
+  return grant;
+};
+
+const actorOf = (req: AuthRequest): IBreakGlassActor => ({
+  id: String(req.user?._id),
+  email: req.user?.email || 'system',
+});
+
+export class BreakGlassController {
+  // Get break-glass grants, optionally only the ended ones awaiting review
+  static getGrants = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const paginationOptions = PaginationHelper.validatePaginationParams(req.query);
+    const { workspaceId, applicationId, environmentId, status, needsReview } = req.query;
+
+    if (status && !STATUSES.includes(status as string)) {
+      throw new ValidationError(`Status must be one of: ${STATUSES.join(', ')}`);
+    }
+
+    const filter: any = {};
+    if (workspaceId) filter.workspaceId = workspaceId;
+    // A requested workspace narrows the assigned ones rather than replacing them
+    if (isWorkspaceScoped(req)) {
+      const assignedWorkspaces = (req.user!.assignedWorkspaces || []).map(String);
+      filter.workspaceId = {
+        $in: workspaceId ? assignedWorkspaces.filter(id => id === String(workspaceId)) : assignedWorkspaces,
+      };
+    }
+    if (applicationId) filter.applicationId = applicationId;
+    if (environmentId) filter.environmentId = environmentId;
+    if (status) filter.status = status;
+
+    if (needsReview === 'true') {
+      filter.status = { $in: ['expired', 'revoked'] };
+      filter.review = { $exists: false };
+    }
+
+    const skip = (paginationOptions.page - 1) * paginationOptions.limit;
+    const sortObject = PaginationHelper.buildSortObject(paginationOptions.sortBy!, paginationOptions.sortOrder!);
+
+    const [grants, total] = await Promise.all([
+      BreakGlassGrant.find(filter)
+        .sort(sortObject)
+        .skip(skip)
+        .limit(paginationOptions.limit)
+        .lean(),
+      BreakGlassGrant.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      ...PaginationHelper.buildPaginationResult(grants, total, paginationOptions),
+    });
+  });
+
+  // Get break-glass grant by ID
+  static getGrantById = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const grant = await findGrant(req);
+
+    res.status(200).json({
+      success: true,
+      data: grant,
+    });
+  });
+
+  // Grant emergency access; a justification is required
+  static createGrant = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const {
+      workspaceId,
+      applicationId,
+      environmentId,
+      subjectId,
+      actionId,
+      resourceId,
+      justification,
+      ticketId,
+      durationMinutes,
+    } = req.body;
+
+    if (!workspaceId || !applicationId || !environmentId) {
+      throw new ValidationError('Workspace ID, application ID, and environment ID are required');
+    }
+    if (!subjectId || !actionId || !resourceId) {
+      throw new ValidationError('Subject ID, action ID, and resource ID are required');
+    }
+    if (typeof justification !== 'string') {
+      throw new ValidationError('A justification is required');
+    }
+    if (ticketId !== undefined && ticketId !== null && typeof ticketId !== 'string') {
+      throw new ValidationError('Ticket ID must be a string');
+    }
+    if (durationMinutes !== undefined && typeof durationMinutes !== 'number') {
+      throw new ValidationError('Duration must be a number of minutes');
+    }
+
+    if (isWorkspaceScoped(req) && !(req.user!.assignedWorkspaces || []).map(String).includes(String(workspaceId))) {
+      throw new AuthorizationError('Break-glass access can only be requested in assigned workspaces');
+    }
+
+    const grant = await BreakGlassService.grant({
+      workspaceId,
+      applicationId,
+      environmentId,
+      subjectId,
+      actionId,
+      resourceId,
+      justification,
+      ...(ticketId && { ticketId }),
+      ...(durationMinutes !== undefined && { durationMinutes }),
+    }, actorOf(req));
+
+    res.status(201).json({
+      success: true,
+      data: grant,
+      message: `Break-glass access granted until ${grant.expiresAt.toISOString()}; ${grant.notifiedAdmins.length} workspace admin(s) notified`,
+    });
+  });
+
+  // Revoke an active grant; its requester or an admin of its workspace
+  static revokeGrant = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const grant = await findGrant(req);
+
+    const isAdmin = hasWorkspaceRole(resolveWorkspaceRole(req.user!, grant.workspaceId), 'admin');
+    if (!isAdmin && grant.requestedBy.id !== String(req.user?._id)) {
+      throw new AuthorizationError('Only the requester or a workspace admin can revoke a break-glass grant');
+    }
+
+    const revoked = await BreakGlassService.revoke(grant, actorOf(req));
+
+    res.status(200).json({
+      success: true,
+      data: revoked,
+      message: 'Break-glass access revoked',
+    });
+  });
+
+  // Review an ended grant as justified or not
+  static reviewGrant = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { outcome, comment } = req.body || {};
+
+    if (!OUTCOMES.includes(outcome)) {
+      throw new ValidationError(`Outcome must be one of: ${OUTCOMES.join(', ')}`);
+    }
+    if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+      throw new ValidationError('Comment must be a string');
+    }
+    if (outcome === 'unjustified' && !comment?.trim()) {
+      throw new ValidationError('A comment is required when a grant was not justified');
+    }
+
+    const grant = await findGrant(req);
+    const reviewed = await BreakGlassService.review(grant, actorOf(req), outcome, comment?.trim() || undefined);
+
+    res.status(200).json({
+      success: true,
+      data: reviewed,
+      message: `Break-glass grant reviewed as ${outcome}`,
+    });
+  });
+}
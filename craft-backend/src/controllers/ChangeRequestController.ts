@@ -0,0 +1,142 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { ValidationError, NotFoundError } from '@/exceptions/AppError';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { PaginationHelper } from '@/utils/pagination';
+import { ChangeRequest } from '@/models/ChangeRequest';
+import ChangeRequestService, { ChangeActor } from '@/services/ChangeRequestService';
+
+const STATUSES = ['pending', 'applied', 'rejected', 'cancelled', 'failed'];
+
+const findChangeRequest = async (req: AuthRequest) => {
+  const filter: any = { id: req.params.id as string };
+
+  // Basic and admin users only see change requests of their assigned workspaces
+  if (req.user?.role === 'basic' || req.user?.role === 'admin') {
+    filter.workspaceId = { $in: req.user.assignedWorkspaces || [] };
+  }
+
+  const request = await ChangeRequest.findOne(filter);
+  if (!request) {
+    throw new NotFoundError('Change request not found');
+  }
+  return request;
+};
+
+const actorOf = (req: AuthRequest): ChangeActor => ({
+  id: String(req.user?._id),
+  email: req.user?.email || 'system',
+});
+
+const parseComment = (comment: unknown): string | undefined => {
+  if (comment === undefined || comment === null || comment === '') return undefined;
+  if (typeof comment !== 'string') {
+    throw new ValidationError('Comment must be a string');
+  }
+  return comment.trim() || undefined;
+};
+
+export class ChangeRequestController {
+  // Get change requests, optionally only those the current user can review
+  static getChangeRequests = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const paginationOptions = PaginationHelper.validatePaginationParams(req.query);
+    const { workspaceId, applicationId, environmentId, policyId, status, reviewable } = req.query;
+
+    if (status && !STATUSES.includes(status as string)) {
+      throw new ValidationError(`Status must be one of: ${STATUSES.join(', ')}`);
+    }
+
+    const filter: any = {};
+    if (workspaceId) filter.workspaceId = workspaceId;
+    // A requested workspace narrows the assigned ones rather than replacing them
+    if (req.user?.role === 'basic' || req.user?.role === 'admin') {
+      const assignedWorkspaces = (req.user.assignedWorkspaces || []).map(String);
+      filter.workspaceId = {
+        $in: workspaceId ? assignedWorkspaces.filter(id => id === String(workspaceId)) : assignedWorkspaces,
+      };
+    }
+    if (applicationId) filter.applicationId = applicationId;
+    if (environmentId) filter.environmentId = environmentId;
+    if (policyId) filter.policyId = policyId;
+    if (status) filter.status = status;
+
+    if (reviewable === 'true') {
+      const approverOf = await ChangeRequestService.approverEnvironmentIds(String(req.user?._id));
+      filter.environmentId = { $in: environmentId ? approverOf.filter(id => id === environmentId) : approverOf };
+      filter['requestedBy.id'] = { $ne: String(req.user?._id) };
+    }
+
+    const skip = (paginationOptions.page - 1) * paginationOptions.limit;
+    const sortObject = PaginationHelper.buildSortObject(paginationOptions.sortBy!, paginationOptions.sortOrder!);
+
+    const [requests, total] = await Promise.all([
+      ChangeRequest.find(filter)
+        .sort(sortObject)
+        .skip(skip)
+        .limit(paginationOptions.limit)
+        .lean(),
+      ChangeRequest.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      ...PaginationHelper.buildPaginationResult(requests, total, paginationOptions),
+    });
+  });
+
+  // Get change request by ID
+  static getChangeRequestById = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const request = await findChangeRequest(req);
+
+    res.status(200).json({
+      success: true,
+      data: request,
+    });
+  });
+
+  // Approve a change request; the last required approval applies it
+  static approveChangeRequest = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const request = await findChangeRequest(req);
+    const reviewed = await ChangeRequestService.review(request, actorOf(req), 'approve', parseComment(req.body?.comment));
+
+    const messages: Record<string, string> = {
+      applied: 'Change request approved and applied',
+      failed: `Change request approved but could not be applied: ${reviewed.error}`,
+    };
+
+    res.status(200).json({
+      success: true,
+      data: reviewed,
+      message: messages[reviewed.status] || 'Change request approved',
+    });
+  });
+
+  // Reject a change request; a reason is required
+  static rejectChangeRequest = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const comment = parseComment(req.body?.comment);
+    if (!comment) {
+      throw new ValidationError('A comment explaining the rejection is required');
+    }
+
+    const request = await findChangeRequest(req);
+    const reviewed = await ChangeRequestService.review(request, actorOf(req), 'reject', comment);
+
+    res.status(200).json({
+      success: true,
+      data: reviewed,
+      message: 'Change request rejected',
+    });
+  });
+
+  // Cancel a pending change request
+  static cancelChangeRequest = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const request = await findChangeRequest(req);
+    const cancelled = await ChangeRequestService.cancel(request, actorOf(req), req.user?.role === 'super_admin');
+
+    res.status(200).json({
+      success: true,
+      data: cancelled,
+      message: 'Change request cancelled',
+    });
+  });
+}
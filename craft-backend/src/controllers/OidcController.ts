@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { config } from '@/config/environment';
+import { ValidationError } from '@/exceptions/AppError';
+import { asyncHandler } from '@/middleware/errorHandler';
+import OidcService, { LOGIN_TTL_MS } from '@/services/OidcService';
+import { logger } from '@/utils/logger';
+
+// Frontend page that receives the outcome of a single sign-on login
+const frontendCallback = (fragment: Record<string, string>): string =>
+  `${config.cors.frontendUrl}/auth/callback#${new URLSearchParams(fragment).toString()}`;
+
+// Ties a login to the browser that started it; only sent back to the callback route
+const BINDING_COOKIE = 'craft_oidc_binding';
+
+const bindingCookieOptions = (redirectUri: string) => ({
+  httpOnly: true,
+  secure: config.isProduction,
+  sameSite: 'lax' as const, // Still sent on the provider's top-level redirect to the callback
+  path: new URL(redirectUri).pathname,
+});
+
+const cookieOf = (req: Request, name: string): string | undefined =>
+  req.headers.cookie
+    ?.split(';')
+    .map(cookie => cookie.trim())
+    .find(cookie => cookie.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+
+// Only paths of the frontend itself, never another origin
+const safeReturnTo = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value : undefined;
+
+export class OidcController {
+  // Find the workspace that signs in users of an email domain
+  static discover = asyncHandler(async (req: Request, res: Response): Promise<any> => {
+    const { email } = req.query;
+    if (typeof email !== 'string' || !email.includes('@')) {
+      throw new ValidationError('A valid email address is required');
+    }
+
+    const result = await OidcService.findWorkspaceForEmail(email);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  });
+
+  // Redirect the browser to the workspace's identity provider
+  static login = asyncHandler(async (req: Request, res: Response): Promise<any> => {
+    try {
+      // Never taken from the Host header, which the client controls
+      const redirectUri = config.oidc.redirectUri;
+      if (!redirectUri) {
+        throw new Error('Single sign-on is not configured on this server');
+      }
+
+      const { authorizationUrl, binding } = await OidcService.beginLogin(req.params.workspace as string, {
+        redirectUri,
+        returnTo: safeReturnTo(req.query.returnTo),
+      });
+
+      res.cookie(BINDING_COOKIE, binding, { ...bindingCookieOptions(redirectUri), maxAge: LOGIN_TTL_MS });
+      res.redirect(302, authorizationUrl);
+    } catch (loginError) {
+      logger.warn('Single sign-on could not start:', loginError);
+      res.redirect(302, frontendCallback({
+        error: loginError instanceof Error ? loginError.message : 'Single sign-on is not available',
+      }));
+    }
+  });
+
+  // Complete the login and hand the session tokens to the frontend in the URL fragment
+  static callback = asyncHandler(async (req: Request, res: Response): Promise<any> => {
+    const { code, state, error, error_description: errorDescription } = req.query;
+    const binding = cookieOf(req, BINDING_COOKIE);
+
+    if (config.oidc.redirectUri) {
+      res.clearCookie(BINDING_COOKIE, bindingCookieOptions(config.oidc.redirectUri));
+    }
+
+    if (typeof error === 'string') {
+      return res.redirect(302, frontendCallback({ error: typeof errorDescription === 'string' ? errorDescription : error }));
+    }
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      return res.redirect(302, frontendCallback({ error: 'The identity provider response is missing the code or state' }));
+    }
+
+    try {
+      const result = await OidcService.completeLogin({ code, state, binding }, {
+        userAgent: req.get('user-agent'),
+        ipAddress: req.ip,
+      });
+
+      res.redirect(302, frontendCallback({
+        token: result.token,
+        refreshToken: result.refreshToken,
+        ...(result.returnTo && { returnTo: result.returnTo }),
+      }));
+    } catch (loginError) {
+      logger.warn('Single sign-on failed:', loginError);
+      res.redirect(302, frontendCallback({
+        error: loginError instanceof Error ? loginError.message : 'Single sign-on failed',
+      }));
+    }
+  });
+}
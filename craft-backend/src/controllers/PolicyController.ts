@@ -1,10 +1,276 @@
 import { Request, Response } from 'express';
-import { AuthRequest } from '@/middleware/auth';
-import { ValidationError, NotFoundError } from '@/exceptions/AppError';
+import { Types } from 'mongoose';
+import { AuthRequest, bulkWorkspaceFilter } from '@/middleware/auth';
+import { ValidationError, NotFoundError, ConflictError } from '@/exceptions/AppError';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { PaginationHelper } from '@/utils/pagination';
 import { logger } from '@/utils/logger';
 import { Policy, IPolicy } from '@/models/Policy';
+import { Environment } from '@/models/Environment';
+import PolicyEvaluationService from '@/services/PolicyEvaluationService';
+import PolicyIndexService from '@/services/PolicyIndexService';
+import AccessReviewService, { AccessEntry, AccessReviewResult } from '@/services/AccessReviewService';
+import TestSuiteService, { ChangedPolicy, RegressionCheck } from '@/services/TestSuiteService';
+import PolicyRevisionService from '@/services/PolicyRevisionService';
+import PolicyChangeService from '@/services/PolicyChangeService';
+import ChangeRequestService, { ChangeActor } from '@/services/ChangeRequestService';
+import PromotionService from '@/services/PromotionService';
+import PolicyAnalysisService from '@/services/PolicyAnalysisService';
+import ImpactSimulationService from '@/services/ImpactSimulationService';
+import PolicySchedulerService from '@/services/PolicySchedulerService';
+import PolicyBundleService, { BundleFormat } from '@/services/PolicyBundleService';
+import PolicyConversionService, { CONVERSION_FORMATS, ConversionFormat } from '@/services/PolicyConversionService';
+import { BREAK_GLASS_TAG } from '@/services/BreakGlassService';
+import { PolicyRevision } from '@/models/PolicyRevision';
+import { IChangeRequest } from '@/models/ChangeRequest';
+
+const MAX_BATCH_SIZE = 500;
+
+const ACCESS_SORT_FIELDS = ['subject', 'action', 'resource', 'decision'];
+
+// Runs the stored test cases against the policies as they would be after the update. When cases
+// flip, the change is rejected if the caller asked to block, otherwise saved and flagged.
+const checkRegressions = async (
+  policies: IPolicy[],
+  updates: Record<string, any>,
+  blockOnRegression: boolean
+): Promise<RegressionCheck> => {
+  const check = await TestSuiteService.checkPolicyChanges(policies.map(policy => {
+    const before = policy.toObject() as ChangedPolicy;
+    return { before, after: { ...before, ...updates } };
+  }));
+
+  if (check.changes.length > 0 && blockOnRegression) {
+    throw new ConflictError(
+      `Policy change blocked: ${check.changes.length} test case(s) would change decision`,
+      check
+    );
+  }
+  return check;
+};
+
+// Schedule dates are optional; null or an empty string clears them
+const parseScheduleDate = (value: any, field: string): Date | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be a valid date`);
+  }
+  return date;
+};
+
+const validateSchedule = (activateAt?: Date | null, expireAt?: Date | null): void => {
+  if (activateAt && expireAt && expireAt.getTime() <= activateAt.getTime()) {
+    throw new ValidationError('expireAt must be later than activateAt');
+  }
+};
+
+// Checks the fields of a policy update and drops the ones clients may not set. Schedule
+// dates are parsed; whether they form a valid window depends on the stored policy.
+const sanitizeUpdates = (input: unknown): Record<string, any> => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError('Updates must be an object');
+  }
+
+  const updates: Record<string, any> = { ...input };
+  // Approval and permissions were checked for the policy's own environment, so it cannot be moved
+  ['id', '_id', '__v', 'createdAt', 'workspaceId', 'applicationId', 'environmentId'].forEach(field => delete updates[field]);
+
+  // Ensure array fields are properly formatted
+  if (updates.subjects && !Array.isArray(updates.subjects)) {
+    throw new ValidationError('Subjects must be an array');
+  }
+  if (updates.resources && !Array.isArray(updates.resources)) {
+    throw new ValidationError('Resources must be an array');
+  }
+  if (updates.actions && !Array.isArray(updates.actions)) {
+    throw new ValidationError('Actions must be an array');
+  }
+  if (updates.additionalResources && !Array.isArray(updates.additionalResources)) {
+    throw new ValidationError('Additional resources must be an array');
+  }
+  if (updates.priority !== undefined && (typeof updates.priority !== 'number' || !Number.isInteger(updates.priority))) {
+    throw new ValidationError('Priority must be an integer');
+  }
+
+  for (const field of ['activateAt', 'expireAt'] as const) {
+    if (field in updates) {
+      updates[field] = parseScheduleDate(updates[field], field);
+    }
+  }
+
+  // Validate additionalResources structure
+  if (updates.additionalResources) {
+    for (const resource of updates.additionalResources) {
+      if (!resource.id || typeof resource.id !== 'string') {
+        logger.error(`[PolicyController] Invalid additional resource structure:`, resource);
+        throw new ValidationError('Each additional resource must have a valid string ID');
+      }
+      if (resource.attributes && !Array.isArray(resource.attributes)) {
+        throw new ValidationError('Additional resource attributes must be an array');
+      }
+    }
+  }
+
+  // The version is bumped from the revision history, never set by the client
+  if (updates.metadata) {
+    if (typeof updates.metadata !== 'object' || Array.isArray(updates.metadata)) {
+      throw new ValidationError('Metadata must be an object');
+    }
+    updates.metadata = { ...updates.metadata };
+    delete updates.metadata.version;
+  }
+
+  return updates;
+};
+
+// The schedule a policy would have after an update
+const validateUpdatedSchedule = (policy: IPolicy, updates: Record<string, any>): void =>
+  validateSchedule(
+    'activateAt' in updates ? updates.activateAt : policy.activateAt,
+    'expireAt' in updates ? updates.expireAt : policy.expireAt
+  );
+
+const describeRegressions = (check: RegressionCheck): string =>
+  check.changes.length > 0 ? `, but ${check.changes.length} test case(s) changed decision` : '';
+
+const describePendingApprovals = (changeRequests: IChangeRequest[]): string =>
+  changeRequests.length > 0 ? `, ${changeRequests.length} submitted for approval` : '';
+
+const requesterOf = (req: AuthRequest): ChangeActor => ({
+  id: String(req.user?._id),
+  email: req.user?.email || 'system',
+});
+
+// Changes in protected environments are held as change requests until approved
+const sendPendingApproval = (res: Response, changeRequest: IChangeRequest, extra: Record<string, any> = {}) =>
+  res.status(202).json({
+    success: true,
+    data: changeRequest,
+    pendingApproval: true,
+    ...extra,
+    message: `Change submitted for approval (${changeRequest.requiredApprovals} approval(s) required)`,
+  });
+
+const findPolicy = async (req: AuthRequest): Promise<IPolicy> => {
+  const filter: any = { id: req.params.id as string };
+
+  // Basic and admin users only see policies of their assigned workspaces
+  if (req.user?.role === 'basic' || req.user?.role === 'admin') {
+    filter.workspaceId = { $in: req.user.assignedWorkspaces || [] };
+  }
+
+  const policy = await Policy.findOne(filter);
+  if (!policy) {
+    throw new NotFoundError('Policy not found');
+  }
+  return policy;
+};
+
+// Break-glass policies follow their grant, which is ended by revoking it
+const assertNotBreakGlass = (policy: IPolicy): void => {
+  if (policy.metadata?.tags?.includes(BREAK_GLASS_TAG)) {
+    throw new ConflictError('Break-glass policies can only be changed through their grant; revoke the grant to end the access');
+  }
+};
+
+const findRevision = async (policyId: string, version: string) => {
+  const revision = await PolicyRevision.findOne({ policyId, version }).lean();
+  if (!revision) {
+    throw new NotFoundError(`Revision ${version} not found`);
+  }
+  return revision;
+};
+
+const getAccessReviewQuery = (req: Request) => {
+  const { workspaceId, applicationId, environmentId, action, decision } = req.query as Record<string, string>;
+
+  if (!workspaceId || !applicationId || !environmentId) {
+    throw new ValidationError('Workspace ID, application ID, and environment ID are required');
+  }
+
+  if (decision && !['Allow', 'Deny'].includes(decision)) {
+    throw new ValidationError('Decision must be Allow or Deny');
+  }
+
+  return {
+    scope: { workspaceId, applicationId, environmentId },
+    filters: { action, decision },
+  };
+};
+
+const sortAccessEntries = (entries: AccessEntry[], sortBy: string, sortOrder: 'asc' | 'desc'): AccessEntry[] => {
+  if (!ACCESS_SORT_FIELDS.includes(sortBy)) return entries;
+
+  const valueOf = (entry: AccessEntry): string =>
+    sortBy === 'decision' ? entry.decision : (entry as any)[sortBy].displayName || (entry as any)[sortBy].name || '';
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  return [...entries].sort((a, b) => valueOf(a).localeCompare(valueOf(b)) * direction);
+};
+
+const sendAccessReview = (req: Request, res: Response, result: AccessReviewResult) => {
+  const paginationOptions = PaginationHelper.validatePaginationParams(req.query);
+  const entries = sortAccessEntries(result.entries, paginationOptions.sortBy, paginationOptions.sortOrder);
+  const skip = (paginationOptions.page - 1) * paginationOptions.limit;
+
+  const paginated = PaginationHelper.buildPaginationResult(
+    entries.slice(skip, skip + paginationOptions.limit),
+    entries.length,
+    paginationOptions
+  );
+
+  res.status(200).json({
+    success: true,
+    ...paginated,
+    summary: {
+      entity: result.entity,
+      allowed: result.entries.filter(entry => entry.decision === 'Allow').length,
+      denied: result.entries.filter(entry => entry.decision === 'Deny').length,
+      evaluatedPolicies: result.evaluatedPolicies,
+      evaluatedCombinations: result.evaluatedCombinations,
+      combiningAlgorithm: result.combiningAlgorithm,
+      snapshotAt: result.snapshotAt,
+    },
+  });
+};
+
+const exportAccessReview = (req: Request, res: Response, result: AccessReviewResult, kind: 'subject' | 'resource') => {
+  const format = req.query.format === 'json' ? 'json' : 'csv';
+  const filename = `${kind}_access_${result.entity.id}_${Date.now()}`;
+
+  if (format === 'csv') {
+    const quote = (value: any) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const csvHeader = 'Subject ID,Subject,Action,Resource ID,Resource,Decision,Matched Policies,Reason\n';
+    const csvRows = result.entries.map(entry => [
+      quote(entry.subject.id),
+      quote(entry.subject.displayName || entry.subject.name),
+      quote(entry.action.name),
+      quote(entry.resource.id),
+      quote(entry.resource.displayName || entry.resource.name),
+      entry.decision,
+      quote(entry.matchedPolicies.join(';')),
+      quote(entry.reason),
+    ].join(',')).join('\n');
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(csvHeader + csvRows);
+    return;
+  }
+
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+  res.json({
+    success: true,
+    data: result.entries,
+    entity: result.entity,
+    exportedAt: new Date(),
+    count: result.entries.length,
+  });
+};
 
 export class PolicyController {
   // Get all policies with pagination and filtering
@@ -123,23 +389,35 @@ export class PolicyController {
       description,
       effect,
       status,
+      priority,
       rules,
       subjects,
       resources,
       actions,
       additionalResources,
       conditions,
+      complexRules,
+      policyType,
       tags,
       workspaceId,
       applicationId,
-      environmentId
+      environmentId,
+      changeComment
     } = req.body;
+    const activateAt = parseScheduleDate(req.body.activateAt, 'activateAt');
+    const expireAt = parseScheduleDate(req.body.expireAt, 'expireAt');
 
     // Validate required fields
     if (!name || !effect) {
       throw new ValidationError('Name and effect are required');
     }
 
+    if (priority !== undefined && (typeof priority !== 'number' || !Number.isInteger(priority))) {
+      throw new ValidationError('Priority must be an integer');
+    }
+
+    validateSchedule(activateAt, expireAt);
+
     // Validate workspace hierarchy fields (required by Policy model)
     if (!workspaceId) {
       throw new ValidationError('Workspace ID is required');
@@ -151,6 +429,17 @@ export class PolicyController {
       throw new ValidationError('Environment ID is required');
     }
 
+    // Permission was checked in the environment's workspace, so the policy must be stored there too
+    const environment = typeof environmentId === 'string' && Types.ObjectId.isValid(environmentId)
+      ? await Environment.findById(environmentId).select('workspaceId applicationId').lean()
+      : null;
+    if (!environment) {
+      throw new NotFoundError('Environment');
+    }
+    if (String(environment.workspaceId) !== String(workspaceId) || String(environment.applicationId) !== String(applicationId)) {
+      throw new ValidationError('The environment does not belong to the given workspace and application');
+    }
+
     logger.info(`Creating policy: ${name} with status: ${status || 'Draft'} by ${req.user?.email || 'system'}`);
 
     // Check if policy already exists (if id provided)
@@ -168,15 +457,20 @@ export class PolicyController {
       description: description?.trim(),
       effect,
       status: status || 'Draft',
+      priority: priority ?? 0,
       rules: rules || [],
       subjects: subjects || [],
       resources: resources || [],
       actions: actions || [],
       additionalResources: additionalResources || [],
       conditions: conditions || [],
+      ...(complexRules && { complexRules }),
+      ...(policyType && { policyType }),
+      ...(activateAt && { activateAt }),
+      ...(expireAt && { expireAt }),
       // Required workspace hierarchy fields
-      workspaceId,
-      applicationId,
+      workspaceId: String(environment.workspaceId),
+      applicationId: String(environment.applicationId),
       environmentId,
       metadata: {
         createdBy: req.user?.email || 'system',
@@ -188,7 +482,21 @@ export class PolicyController {
       },
     };
 
-    const policy = await Policy.create(policyData);
+    const approvalEnvironment = await ChangeRequestService.approvalEnvironment(environmentId);
+    if (approvalEnvironment) {
+      const changeRequest = await ChangeRequestService.submit({
+        operation: 'create',
+        environment: approvalEnvironment,
+        ...(id && { policyId: id }),
+        policyName: policyData.name,
+        payload: policyData,
+        comment: changeComment,
+        requestedBy: requesterOf(req),
+      });
+      return sendPendingApproval(res, changeRequest);
+    }
+
+    const policy = await PolicyChangeService.create(policyData, req.user?.email || 'system');
 
     logger.info(`Policy created: ${policy.id} by ${req.user?.email || 'system'}`);
 
@@ -202,89 +510,75 @@ export class PolicyController {
   // Update policy
   static updatePolicy = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
     const { id } = req.params;
-    const updates = req.body;
+    const { blockOnRegression, changeComment, ...body } = req.body || {};
 
     logger.info(`[PolicyController.updatePolicy] Request params:`, { id });
-    logger.info(`[PolicyController.updatePolicy] Update data keys:`, Object.keys(updates));
+    logger.info(`[PolicyController.updatePolicy] Update data keys:`, Object.keys(body));
 
     // Validate ID format (string, not empty)
     if (!id || typeof id !== 'string' || id.trim().length === 0) {
       throw new ValidationError('Invalid policy ID format');
     }
 
-    // Remove non-updatable fields
-    delete updates.id;
-    delete updates._id;
-    delete updates.__v;
-    delete updates.createdAt;
+    const updates = sanitizeUpdates(body);
 
-    const existingPolicy = await Policy.findOne({ id });
-    if (!existingPolicy) {
-      throw new NotFoundError('Policy not found');
-    }
+    const existingPolicy = await findPolicy(req);
+    assertNotBreakGlass(existingPolicy);
 
-    // Ensure array fields are properly formatted
-    if (updates.subjects && !Array.isArray(updates.subjects)) {
-      throw new ValidationError('Subjects must be an array');
-    }
-    if (updates.resources && !Array.isArray(updates.resources)) {
-      throw new ValidationError('Resources must be an array');
-    }
-    if (updates.actions && !Array.isArray(updates.actions)) {
-      throw new ValidationError('Actions must be an array');
-    }
-    if (updates.additionalResources && !Array.isArray(updates.additionalResources)) {
-      throw new ValidationError('Additional resources must be an array');
-    }
+    validateUpdatedSchedule(existingPolicy, updates);
 
-    // Validate additionalResources structure
-    if (updates.additionalResources) {
-      for (const resource of updates.additionalResources) {
-        if (!resource.id || typeof resource.id !== 'string') {
-          logger.error(`[PolicyController.updatePolicy] Invalid additional resource structure:`, resource);
-          throw new ValidationError('Each additional resource must have a valid string ID');
-        }
-        if (resource.attributes && !Array.isArray(resource.attributes)) {
-          throw new ValidationError('Additional resource attributes must be an array');
-        }
-      }
-    }
+    logger.info(`[PolicyController.updatePolicy] Validated updates for policy: ${id}`);
 
-    // Update metadata
-    if (updates.metadata) {
-      updates.metadata = { ...existingPolicy.metadata, ...updates.metadata };
-    } else {
-      updates.metadata = existingPolicy.metadata;
+    const regressionCheck = await checkRegressions([existingPolicy], updates, blockOnRegression === true);
+
+    const approvalEnvironment = await ChangeRequestService.approvalEnvironment(existingPolicy.environmentId);
+    if (approvalEnvironment) {
+      const changeRequest = await ChangeRequestService.submit({
+        operation: 'update',
+        environment: approvalEnvironment,
+        policyId: existingPolicy.id,
+        policyName: existingPolicy.name,
+        payload: updates,
+        baseVersion: existingPolicy.metadata.version,
+        regressionCheck,
+        comment: changeComment,
+        requestedBy: requesterOf(req),
+      });
+      return sendPendingApproval(res, changeRequest, { regressionCheck });
     }
-    updates.metadata.lastModifiedBy = req.user?.email || 'system';
-
-    logger.info(`[PolicyController.updatePolicy] Validated updates for policy: ${id}`);
 
-    const policy = await Policy.findByIdAndUpdate(
-      existingPolicy._id,
-      updates,
-      { new: true, runValidators: true }
-    );
+    const policy = await PolicyChangeService.update(existingPolicy, updates, req.user?.email || 'system');
 
     logger.info(`Policy updated: ${policy?.id} by ${req.user?.email || 'system'}`);
 
     res.status(200).json({
       success: true,
       data: policy,
-      message: 'Policy updated successfully',
+      regressionCheck,
+      message: `Policy updated successfully${describeRegressions(regressionCheck)}`,
     });
   });
 
   // Delete policy
   static deletePolicy = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
-    const { id } = req.params;
-
-    const policy = await Policy.findOne({ id });
-    if (!policy) {
-      throw new NotFoundError('Policy not found');
+    const policy = await findPolicy(req);
+    assertNotBreakGlass(policy);
+
+    const approvalEnvironment = await ChangeRequestService.approvalEnvironment(policy.environmentId);
+    if (approvalEnvironment) {
+      const changeRequest = await ChangeRequestService.submit({
+        operation: 'delete',
+        environment: approvalEnvironment,
+        policyId: policy.id,
+        policyName: policy.name,
+        baseVersion: policy.metadata.version,
+        comment: req.body?.changeComment,
+        requestedBy: requesterOf(req),
+      });
+      return sendPendingApproval(res, changeRequest);
     }
 
-    await Policy.findByIdAndDelete(policy._id);
+    await PolicyChangeService.remove(policy);
 
     logger.info(`Policy deleted: ${policy.id} by ${req.user?.email || 'system'}`);
 
@@ -294,35 +588,235 @@ export class PolicyController {
     });
   });
 
-  // Evaluate policy
-  static evaluatePolicy = asyncHandler(async (req: Request, res: Response): Promise<any> => {
-    const { policyId, subject, resource, action, environment } = req.body;
+  // Evaluate an access request against the environment's Active policies
+  static evaluatePolicy = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const {
+      policyId,
+      subject,
+      resource,
+      action,
+      environment,
+      workspaceId,
+      applicationId,
+      environmentId,
+    } = req.body;
+    const explain = req.body.explain === true || req.query.explain === 'true';
 
-    if (!policyId || !subject || !resource || !action) {
-      throw new ValidationError('Policy ID, subject, resource, and action are required');
+    if (!subject || !resource || !action) {
+      throw new ValidationError('Subject, resource, and action are required');
     }
 
-    const policy = await Policy.findOne({ id: policyId });
-    if (!policy) {
-      throw new NotFoundError('Policy not found');
+    if (typeof action !== 'string') {
+      throw new ValidationError('Action must be an action ID or name');
     }
 
-    // Policy evaluation logic would go here
-    // For now, return a mock result
-    const evaluationResult = {
-      decision: 'Allow', // This would be calculated based on policy rules
-      policy: policy.id,
+    if (environment !== undefined && (typeof environment !== 'object' || Array.isArray(environment))) {
+      throw new ValidationError('Environment must be an object of attribute values');
+    }
+
+    let scope = { workspaceId, applicationId, environmentId };
+
+    // A single policy can be evaluated on its own (in any status), scoped to its own environment
+    if (policyId) {
+      const policy = await Policy.findOne({ id: policyId }).select('workspaceId applicationId environmentId').lean();
+      if (!policy) {
+        throw new NotFoundError('Policy not found');
+      }
+      scope = {
+        workspaceId: policy.workspaceId,
+        applicationId: policy.applicationId,
+        environmentId: policy.environmentId,
+      };
+    } else if (!workspaceId || !applicationId || !environmentId) {
+      throw new ValidationError('Workspace ID, application ID, and environment ID are required');
+    }
+
+    const result = await PolicyEvaluationService.evaluate({
+      ...scope,
       subject,
-      resource,
       action,
+      resource,
       environment,
-      timestamp: new Date(),
-      reason: 'Policy conditions satisfied',
-    };
+      explain,
+      ...(policyId && { policyIds: [policyId] }),
+    });
+
+    logger.info(`Policy evaluation: ${result.decision} for ${result.subject} -> ${result.action} on ${result.resource} by ${req.user?.email || 'system'}`);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  });
+
+  // Evaluate many access requests against one snapshot of the environment's Active policies
+  static evaluatePolicyBatch = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { workspaceId, applicationId, environmentId, requests } = req.body;
+    const explain = req.body.explain === true || req.query.explain === 'true';
+
+    if (!workspaceId || !applicationId || !environmentId) {
+      throw new ValidationError('Workspace ID, application ID, and environment ID are required');
+    }
+
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw new ValidationError('Requests array is required');
+    }
+
+    if (requests.length > MAX_BATCH_SIZE) {
+      throw new ValidationError(`A batch may contain at most ${MAX_BATCH_SIZE} requests`);
+    }
+
+    const errors: Array<{ index: number; message: string }> = [];
+    requests.forEach((request: any, index: number) => {
+      const context = request?.context ?? request?.environment;
+
+      if (!request || !request.subject || !request.resource || !request.action) {
+        errors.push({ index, message: 'Subject, resource, and action are required' });
+      } else if (typeof request.action !== 'string') {
+        errors.push({ index, message: 'Action must be an action ID or name' });
+      } else if (context !== undefined && (typeof context !== 'object' || Array.isArray(context))) {
+        errors.push({ index, message: 'Context must be an object of attribute values' });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new ValidationError(`${errors.length} of ${requests.length} requests are invalid`, errors);
+    }
+
+    const startTime = Date.now();
+    const result = await PolicyEvaluationService.evaluateBatch(
+      { workspaceId, applicationId, environmentId },
+      requests.map((request: any) => ({
+        subject: request.subject,
+        action: request.action,
+        resource: request.resource,
+        environment: request.context ?? request.environment,
+      })),
+      { explain }
+    );
+
+    const allowed = result.decisions.filter(decision => decision.decision === 'Allow').length;
+    logger.info(`Batch policy evaluation: ${allowed} of ${requests.length} allowed in environment ${environmentId} by ${req.user?.email || 'system'}`);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        decisions: result.decisions,
+        total: result.decisions.length,
+        evaluatedPolicies: result.evaluatedPolicies,
+        combiningAlgorithm: result.combiningAlgorithm,
+        snapshotAt: result.snapshotAt,
+        evaluationTime: Date.now() - startTime,
+      },
+    });
+  });
+
+  // What can this subject do? Allow/Deny outcomes over every action and resource in the environment
+  static getSubjectAccess = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { scope, filters } = getAccessReviewQuery(req);
+    const result = await AccessReviewService.getSubjectAccess(scope, req.params.subjectId as string, filters);
+    sendAccessReview(req, res, result);
+  });
+
+  static exportSubjectAccess = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { scope, filters } = getAccessReviewQuery(req);
+    const result = await AccessReviewService.getSubjectAccess(scope, req.params.subjectId as string, filters);
+
+    logger.info(`Exported ${result.entries.length} access entries for subject ${req.params.subjectId} by ${req.user?.email || 'system'}`);
+    exportAccessReview(req, res, result, 'subject');
+  });
+
+  // Who can access this resource? Allow/Deny outcomes over every subject and action in the environment
+  static getResourceAccess = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { scope, filters } = getAccessReviewQuery(req);
+    const result = await AccessReviewService.getResourceAccess(scope, req.params.resourceId as string, filters);
+    sendAccessReview(req, res, result);
+  });
+
+  static exportResourceAccess = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { scope, filters } = getAccessReviewQuery(req);
+    const result = await AccessReviewService.getResourceAccess(scope, req.params.resourceId as string, filters);
+
+    logger.info(`Exported ${result.entries.length} access entries for resource ${req.params.resourceId} by ${req.user?.email || 'system'}`);
+    exportAccessReview(req, res, result, 'resource');
+  });
+
+  // Access grants an edit would add or remove, evaluated before the edit is saved
+  static simulatePolicyImpact = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { updates, sampleSize } = req.body;
+
+    if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+      throw new ValidationError('Updates must be an object');
+    }
+    if (sampleSize !== undefined && (typeof sampleSize !== 'number' || !Number.isInteger(sampleSize) || sampleSize < 1)) {
+      throw new ValidationError('Sample size must be a positive integer');
+    }
+
+    const policy = await findPolicy(req);
+    const before = policy.toObject() as ChangedPolicy;
+    // The edit cannot move the policy or change its identity
+    const editable = { ...updates };
+    ['id', '_id', 'workspaceId', 'applicationId', 'environmentId'].forEach(field => delete editable[field]);
+    const simulation = await ImpactSimulationService.simulate(before, { ...before, ...editable }, sampleSize);
+
+    res.status(200).json({
+      success: true,
+      data: simulation,
+      message: `${simulation.added.length} grant(s) added and ${simulation.removed.length} removed across ${simulation.evaluatedCombinations} evaluated combination(s)${
+        simulation.sampled ? ` sampled from ${simulation.targetedCombinations}` : ''
+      }`,
+    });
+  });
+
+  // Contradicting, redundant and unreachable rules among the environment's policies
+  static analyzePolicies = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { workspaceId, applicationId, environmentId, includeDrafts } = req.query as Record<string, string>;
+
+    if (!workspaceId || !applicationId || !environmentId) {
+      throw new ValidationError('Workspace ID, application ID, and environment ID are required');
+    }
+
+    const result = await PolicyAnalysisService.analyze(
+      { workspaceId, applicationId, environmentId },
+      { includeDrafts: includeDrafts === 'true' }
+    );
+    const { contradiction, redundancy, unreachable } = result.summary;
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: `Analyzed ${result.analyzedRules} rule(s) in ${result.analyzedPolicies} policies: ${contradiction} contradiction(s), ${redundancy} redundancy(ies), ${unreachable} unreachable reference finding(s)`,
+    });
+  });
+
+  // Scheduled activations and expiries due within the coming days, soonest first
+  static getScheduledTransitions = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { workspaceId, environmentId } = req.query as Record<string, string>;
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 100);
+
+    const user = req.user;
+    let workspaceIds: string[] | undefined = workspaceId ? [workspaceId] : undefined;
+
+    // Basic and admin users only see their assigned workspaces
+    if (user?.role === 'basic' || user?.role === 'admin') {
+      const assignedWorkspaces = (user.assignedWorkspaces || []).map(String);
+      workspaceIds = workspaceIds
+        ? workspaceIds.filter(id => assignedWorkspaces.includes(id))
+        : assignedWorkspaces;
+    }
+
+    const transitions = await PolicySchedulerService.upcoming({
+      workspaceIds,
+      environmentId,
+      until: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+      limit,
+    });
 
     res.status(200).json({
       success: true,
-      data: evaluationResult,
+      data: transitions,
+      message: `${transitions.length} scheduled transition(s) in the next ${days} day(s)`,
     });
   });
 
@@ -367,38 +861,332 @@ export class PolicyController {
     });
   });
 
+  // Get the revision history of a policy, newest first
+  static getPolicyRevisions = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const policy = await findPolicy(req);
+    const paginationOptions = PaginationHelper.validatePaginationParams(req.query);
+    const skip = (paginationOptions.page - 1) * paginationOptions.limit;
+
+    const [revisions, total] = await Promise.all([
+      PolicyRevision.find({ policyId: policy.id })
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(paginationOptions.limit)
+        .select('-content')
+        .lean(),
+      PolicyRevision.countDocuments({ policyId: policy.id }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      ...PaginationHelper.buildPaginationResult(revisions, total, paginationOptions),
+    });
+  });
+
+  // Get one revision with its full content
+  static getPolicyRevision = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const policy = await findPolicy(req);
+    const revision = await findRevision(policy.id, req.params.version as string);
+
+    res.status(200).json({
+      success: true,
+      data: revision,
+    });
+  });
+
+  // Rule-level diff between two revisions; "to" defaults to the current version
+  static diffPolicyRevisions = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const policy = await findPolicy(req);
+    const { from, to } = req.query as Record<string, string>;
+
+    if (!from) {
+      throw new ValidationError('The "from" version is required');
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      findRevision(policy.id, from),
+      to ? findRevision(policy.id, to) : null,
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: PolicyRevisionService.diff(
+        fromRevision.content,
+        toRevision ? toRevision.content : PolicyRevisionService.contentOf(policy),
+        { from, to: toRevision ? toRevision.version : policy.metadata.version }
+      ),
+    });
+  });
+
+  // Restore the content of a prior revision as a new version
+  static rollbackPolicy = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const policy = await findPolicy(req);
+    assertNotBreakGlass(policy);
+    const revision = await findRevision(policy.id, req.params.version as string);
+    const author = req.user?.email || 'system';
+
+    const before = PolicyRevisionService.contentOf(policy);
+    const beforeVersion = policy.metadata.version;
+    const diff = PolicyRevisionService.diff(before, revision.content, { from: beforeVersion, to: revision.version });
+    if (!PolicyRevisionService.determineBump(diff)) {
+      throw new ValidationError(`Policy already matches revision ${revision.version}`);
+    }
+
+    const regressionCheck = await checkRegressions(
+      [policy],
+      { ...revision.content, metadata: policy.metadata },
+      req.body?.blockOnRegression === true
+    );
+
+    const approvalEnvironment = await ChangeRequestService.approvalEnvironment(policy.environmentId);
+    if (approvalEnvironment) {
+      const { tags, ...fields } = revision.content;
+      const changeRequest = await ChangeRequestService.submit({
+        operation: 'update',
+        environment: approvalEnvironment,
+        policyId: policy.id,
+        policyName: policy.name,
+        payload: { ...fields, metadata: { tags } },
+        baseVersion: beforeVersion,
+        regressionCheck,
+        comment: req.body?.changeComment || `Roll back to ${revision.version}`,
+        requestedBy: requesterOf(req),
+      });
+      return sendPendingApproval(res, changeRequest, { regressionCheck });
+    }
+
+    PolicyRevisionService.applyContent(policy, revision.content);
+    policy.metadata.lastModifiedBy = author;
+    await policy.save();
+    PolicyIndexService.invalidate(policy.environmentId);
+
+    const newRevision = await PolicyRevisionService.recordUpdate(before, beforeVersion, policy, author, {
+      rolledBackFrom: revision.version,
+    });
+
+    logger.info(`Policy ${policy.id} rolled back to ${revision.version} as ${policy.metadata.version} by ${author}`);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        policy,
+        revision: newRevision,
+      },
+      regressionCheck,
+      message: `Policy rolled back to ${revision.version} as version ${policy.metadata.version}${describeRegressions(regressionCheck)}`,
+    });
+  });
+
+  // Copy policies and the entities they reference to another environment, as a dry run by default
+  static promotePolicies = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { sourceEnvironmentId, targetEnvironmentId, policyIds, dryRun, overwrite } = req.body;
+
+    if (!targetEnvironmentId) {
+      throw new ValidationError('Target environment ID is required');
+    }
+
+    const plan = await PromotionService.promote({
+      sourceEnvironmentId,
+      targetEnvironmentId,
+      policyIds,
+      dryRun: dryRun !== false,
+      overwrite: overwrite === true,
+      // Admins only promote within their assigned workspaces
+      ...(req.user?.role !== 'super_admin' && { workspaceIds: (req.user?.assignedWorkspaces || []).map(String) }),
+    }, requesterOf(req));
+
+    const { create, update, conflict } = plan.summary;
+    const pending = plan.policies.filter(policy => policy.changeRequestId).length;
+
+    res.status(200).json({
+      success: true,
+      data: plan,
+      message: plan.dryRun
+        ? `Dry run: ${create} to create, ${update} to update, ${conflict} conflicting`
+        : `Promoted to ${plan.target.name}: ${create} created, ${update} updated, ${conflict} skipped as conflicting${
+          pending > 0 ? `, ${pending} policy change(s) submitted for approval` : ''
+        }`,
+    });
+  });
+
+  // Download an environment's policies and the entities they reference as a JSON or YAML bundle
+  static exportPolicyBundle = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { environmentId, policyIds } = req.query;
+    const format: BundleFormat = req.query.format === 'yaml' ? 'yaml' : 'json';
+
+    if (!environmentId) {
+      throw new ValidationError('Environment ID is required');
+    }
+
+    const bundle = await PolicyBundleService.export(environmentId as string, {
+      ...(policyIds && { policyIds: String(policyIds).split(',').filter(Boolean) }),
+      // Basic and admin users only export from their assigned workspaces
+      ...(req.user?.role !== 'super_admin' && { workspaceIds: (req.user?.assignedWorkspaces || []).map(String) }),
+    }, requesterOf(req));
+
+    const filename = `policies_${bundle.source.application}_${bundle.source.environment}_${Date.now()}`;
+    res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format === 'yaml' ? 'yaml' : 'json'}"`);
+    res.send(PolicyBundleService.serialize(bundle, format));
+  });
+
+  // Import a JSON or YAML bundle into an environment, as a dry run by default
+  static importPolicyBundle = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { environmentId, content, bundle, mode, dryRun } = req.body;
+
+    if (!environmentId) {
+      throw new ValidationError('Environment ID is required');
+    }
+    if (typeof content !== 'string' && (!bundle || typeof bundle !== 'object')) {
+      throw new ValidationError('Bundle content is required');
+    }
+
+    const plan = await PolicyBundleService.import(
+      typeof content === 'string' ? PolicyBundleService.parse(content) : bundle,
+      {
+        targetEnvironmentId: environmentId,
+        mode,
+        dryRun: dryRun !== false,
+        // Admins only import within their assigned workspaces
+        ...(req.user?.role !== 'super_admin' && { workspaceIds: (req.user?.assignedWorkspaces || []).map(String) }),
+      },
+      requesterOf(req)
+    );
+
+    const { create, update, conflict } = plan.summary;
+    const deleted = plan.summary.delete;
+    const pending = plan.policies.filter(policy => policy.changeRequestId).length;
+
+    res.status(200).json({
+      success: true,
+      data: plan,
+      message: plan.dryRun
+        ? `Dry run: ${create} to create, ${update} to update, ${deleted} to delete, ${conflict} conflicting`
+        : `Imported into ${plan.target.name}: ${create} created, ${update} updated, ${deleted} deleted, ${conflict} skipped as conflicting${
+          pending > 0 ? `, ${pending} policy change(s) submitted for approval` : ''
+        }`,
+    });
+  });
+
+  // Convert an environment's policies to a XACML 3.0 policy set or IAM-style policy documents
+  static exportConvertedPolicies = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { environmentId, policyIds, format } = req.query;
+
+    if (!environmentId) {
+      throw new ValidationError('Environment ID is required');
+    }
+    if (!CONVERSION_FORMATS.includes(format as ConversionFormat)) {
+      throw new ValidationError(`Format must be one of: ${CONVERSION_FORMATS.join(', ')}`);
+    }
+
+    const { bundle, ...conversion } = await PolicyConversionService.export(environmentId as string, format as ConversionFormat, {
+      ...(policyIds && { policyIds: String(policyIds).split(',').filter(Boolean) }),
+      // Basic and admin users only export from their assigned workspaces
+      ...(req.user?.role !== 'super_admin' && { workspaceIds: (req.user?.assignedWorkspaces || []).map(String) }),
+    }, requesterOf(req));
+
+    res.status(200).json({
+      success: true,
+      data: conversion,
+      message: `Converted ${bundle.policies.length} policies${conversion.warnings.length > 0 ? ` with ${conversion.warnings.length} warning(s)` : ''}`,
+    });
+  });
+
+  // Import a XACML 3.0 or IAM-style document into an environment as draft policies, as a dry run by default
+  static importConvertedPolicies = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { environmentId, content, format, dryRun } = req.body;
+
+    if (!environmentId) {
+      throw new ValidationError('Environment ID is required');
+    }
+    if (!CONVERSION_FORMATS.includes(format)) {
+      throw new ValidationError(`Format must be one of: ${CONVERSION_FORMATS.join(', ')}`);
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new ValidationError('Content is required');
+    }
+
+    const plan = await PolicyConversionService.import(content, format, {
+      targetEnvironmentId: environmentId,
+      dryRun: dryRun !== false,
+      // Admins only import within their assigned workspaces
+      ...(req.user?.role !== 'super_admin' && { workspaceIds: (req.user?.assignedWorkspaces || []).map(String) }),
+    }, requesterOf(req));
+
+    const { create, update, conflict } = plan.summary;
+    const pending = plan.policies.filter(policy => policy.changeRequestId).length;
+
+    res.status(200).json({
+      success: true,
+      data: plan,
+      message: plan.dryRun
+        ? `Dry run: ${create} to create, ${update} to update, ${conflict} conflicting`
+        : `Imported into ${plan.target.name}: ${create} created, ${update} updated, ${conflict} skipped as conflicting${
+          pending > 0 ? `, ${pending} policy change(s) submitted for approval` : ''
+        }`,
+    });
+  });
+
   // Bulk operations
   static bulkUpdatePolicies = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
-    const { policyIds, updates } = req.body;
+    const { policyIds, blockOnRegression } = req.body;
 
     if (!Array.isArray(policyIds) || policyIds.length === 0) {
       throw new ValidationError('Policy IDs array is required');
     }
 
-    // Remove non-updatable fields
-    delete updates.id;
-    delete updates._id;
-    delete updates.__v;
-    delete updates.createdAt;
+    const updates = sanitizeUpdates(req.body.updates);
+    const author = req.user?.email || 'system';
 
-    const result = await Policy.updateMany(
-      { id: { $in: policyIds } },
-      { 
-        ...updates,
-        'metadata.lastModifiedBy': req.user?._id || 'system'
-      },
-      { runValidators: true }
+    // Break-glass policies are left to their grants
+    const allPolicies = await Policy.find({
+      id: { $in: policyIds },
+      'metadata.tags': { $ne: BREAK_GLASS_TAG },
+      ...await bulkWorkspaceFilter(req.user!, 'admin'),
+    });
+    allPolicies.forEach(policy => validateUpdatedSchedule(policy, updates));
+
+    const regressionCheck = await checkRegressions(allPolicies, updates, blockOnRegression === true);
+
+    // Policies in protected environments get a change request each instead of being updated
+    const protectedEnvironments = await ChangeRequestService.protectedEnvironments(
+      allPolicies.map(policy => policy.environmentId)
     );
+    const changeRequests: IChangeRequest[] = [];
+    for (const policy of allPolicies.filter(candidate => protectedEnvironments.has(candidate.environmentId))) {
+      changeRequests.push(await ChangeRequestService.submit({
+        operation: 'update',
+        environment: protectedEnvironments.get(policy.environmentId)!,
+        policyId: policy.id,
+        policyName: policy.name,
+        payload: updates,
+        baseVersion: policy.metadata.version,
+        // Approvers see the cases this policy's change flips on its own
+        regressionCheck: await checkRegressions([policy], updates, false),
+        requestedBy: requesterOf(req),
+      }));
+    }
 
-    logger.info(`Bulk update performed on ${result.modifiedCount} policies by ${req.user?.email || 'system'}`);
+    // Updated one by one so each keeps its metadata and gets a revision, as single updates do
+    const policies = allPolicies.filter(policy => !protectedEnvironments.has(policy.environmentId));
+    let modifiedCount = 0;
+    for (const policy of policies) {
+      if (await PolicyChangeService.update(policy, updates, author)) {
+        modifiedCount += 1;
+      }
+    }
+
+    logger.info(`Bulk update performed on ${modifiedCount} policies by ${author}`);
 
     res.status(200).json({
       success: true,
       data: {
-        matchedCount: result.matchedCount,
-        modifiedCount: result.modifiedCount,
+        matchedCount: policies.length,
+        modifiedCount,
+        changeRequests,
       },
-      message: `${result.modifiedCount} policies updated successfully`,
+      regressionCheck,
+      message: `${modifiedCount} policies updated successfully${describePendingApprovals(changeRequests)}${describeRegressions(regressionCheck)}`,
     });
   });
 
@@ -409,7 +1197,33 @@ export class PolicyController {
       throw new ValidationError('Policy IDs array is required');
     }
 
-    const result = await Policy.deleteMany({ id: { $in: policyIds } });
+    // Break-glass policies are left to their grants
+    const allPolicies = await Policy.find({
+      id: { $in: policyIds },
+      'metadata.tags': { $ne: BREAK_GLASS_TAG },
+      ...await bulkWorkspaceFilter(req.user!, 'admin'),
+    });
+
+    // Policies in protected environments get a change request each instead of being deleted
+    const protectedEnvironments = await ChangeRequestService.protectedEnvironments(
+      allPolicies.map(policy => policy.environmentId)
+    );
+    const changeRequests: IChangeRequest[] = [];
+    for (const policy of allPolicies.filter(candidate => protectedEnvironments.has(candidate.environmentId))) {
+      changeRequests.push(await ChangeRequestService.submit({
+        operation: 'delete',
+        environment: protectedEnvironments.get(policy.environmentId)!,
+        policyId: policy.id,
+        policyName: policy.name,
+        baseVersion: policy.metadata.version,
+        requestedBy: requesterOf(req),
+      }));
+    }
+
+    const policies = allPolicies.filter(policy => !protectedEnvironments.has(policy.environmentId));
+    const environmentIds = [...new Set(policies.map(policy => policy.environmentId))];
+    const result = await Policy.deleteMany({ id: { $in: policies.map(policy => policy.id) } });
+    PolicyIndexService.invalidateMany(environmentIds);
 
     logger.info(`Bulk delete performed on ${result.deletedCount} policies by ${req.user?.email || 'system'}`);
 
@@ -417,8 +1231,9 @@ export class PolicyController {
       success: true,
       data: {
         deletedCount: result.deletedCount,
+        changeRequests,
       },
-      message: `${result.deletedCount} policies deleted successfully`,
+      message: `${result.deletedCount} policies deleted successfully${describePendingApprovals(changeRequests)}`,
     });
   });
 
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { AuthRequest } from '@/middleware/auth';
+import { AuthRequest, bulkWorkspaceFilter } from '@/middleware/auth';
 import { ValidationError, NotFoundError } from '@/exceptions/AppError';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { PaginationHelper } from '@/utils/pagination';
@@ -22,6 +22,7 @@ export class ResourceController {
       parentId,
       owner,
       tags,
+      environmentId,
     } = req.query;
 
     const user = req.user;
@@ -46,6 +47,7 @@ export class ResourceController {
     if (active !== undefined) filter.active = active === 'true';
     if (parentId) filter.parentId = parentId;
     if (owner) filter['metadata.owner'] = owner;
+    if (environmentId) filter.environmentId = environmentId;
 
     if (tags) {
       const tagArray = Array.isArray(tags) ? tags : [tags];
@@ -571,7 +573,7 @@ export class ResourceController {
     }
 
     const result = await Resource.updateMany(
-      { id: { $in: resourceIds } },
+      { id: { $in: resourceIds }, ...await bulkWorkspaceFilter(req.user!, 'admin') },
       {
         ...updates,
         'metadata.lastModifiedBy': req.user?.name || null
@@ -598,7 +600,7 @@ export class ResourceController {
     }
 
     // Get resources to be deleted
-    const resourcesToDelete = await Resource.find({ id: { $in: resourceIds } });
+    const resourcesToDelete = await Resource.find({ id: { $in: resourceIds }, ...await bulkWorkspaceFilter(req.user!, 'admin') });
 
     // Separate system resources (cannot delete)
     const systemResources = resourcesToDelete.filter(resource => resource.metadata.isSystem);
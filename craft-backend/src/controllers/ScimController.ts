@@ -0,0 +1,170 @@
+import { ErrorRequestHandler, Request, Response } from 'express';
+import { ScimRequest } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { AppError, BadRequestError, NotFoundError } from '@/exceptions/AppError';
+import ScimService, { SCIM_MAX_RESULTS, SCIM_SCHEMAS, ScimContext, ScimListOptions } from '@/services/ScimService';
+import { logger } from '@/utils/logger';
+
+const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+const send = (res: Response, status: number, body: unknown): void => {
+  res.status(status).type(SCIM_CONTENT_TYPE).json(body);
+};
+
+// Set by requireScimToken
+const contextOf = (req: ScimRequest): ScimContext => req.scim!;
+
+const csv = (value: unknown): string[] | undefined =>
+  typeof value === 'string' && value.trim() ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+const listOptions = (req: Request): ScimListOptions => ({
+  filter: typeof req.query.filter === 'string' ? req.query.filter : undefined,
+  startIndex: req.query.startIndex !== undefined ? Number(req.query.startIndex) : undefined,
+  count: req.query.count !== undefined ? Number(req.query.count) : undefined,
+  attributes: csv(req.query.attributes),
+  excludedAttributes: csv(req.query.excludedAttributes),
+});
+
+const operationsOf = (req: Request) => {
+  const { Operations: operations } = req.body || {};
+  if (!Array.isArray(operations)) {
+    throw new BadRequestError('A PatchOp request with Operations is required', { scimType: 'invalidSyntax' });
+  }
+  return operations;
+};
+
+export class ScimController {
+  // SCIM features this server supports (RFC 7643, section 5)
+  static getServiceProviderConfig = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, {
+      schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [{
+        type: 'oauthbearertoken',
+        name: 'Bearer Token',
+        description: 'A workspace SCIM token, created in the workspace settings',
+        primary: true,
+      }],
+      meta: { resourceType: 'ServiceProviderConfig', location: `${contextOf(req).baseUrl}/ServiceProviderConfig` },
+    });
+  });
+
+  static getResourceTypes = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    const { baseUrl } = contextOf(req);
+    const resourceTypes = [
+      {
+        schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'],
+        id: 'User',
+        name: 'User',
+        endpoint: '/Users',
+        schema: SCIM_SCHEMAS.user,
+        schemaExtensions: [{ schema: SCIM_SCHEMAS.enterpriseUser, required: false }],
+        meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/User` },
+      },
+      {
+        schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'],
+        id: 'Group',
+        name: 'Group',
+        endpoint: '/Groups',
+        schema: SCIM_SCHEMAS.group,
+        meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/Group` },
+      },
+    ];
+
+    send(res, 200, {
+      schemas: [SCIM_SCHEMAS.listResponse],
+      totalResults: resourceTypes.length,
+      startIndex: 1,
+      itemsPerPage: resourceTypes.length,
+      Resources: resourceTypes,
+    });
+  });
+
+  static listUsers = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, await ScimService.listUsers(contextOf(req), listOptions(req)));
+  });
+
+  static getUser = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, await ScimService.getUser(contextOf(req), req.params.id as string, listOptions(req)));
+  });
+
+  static createUser = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    const user = await ScimService.createUser(contextOf(req), req.body);
+    res.location(user.meta.location);
+    send(res, 201, user);
+  });
+
+  static replaceUser = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, await ScimService.replaceUser(contextOf(req), req.params.id as string, req.body));
+  });
+
+  static patchUser = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, await ScimService.patchUser(contextOf(req), req.params.id as string, operationsOf(req)));
+  });
+
+  static deleteUser = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    await ScimService.deleteUser(contextOf(req), req.params.id as string);
+    res.status(204).end();
+  });
+
+  static listGroups = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, await ScimService.listGroups(contextOf(req), listOptions(req)));
+  });
+
+  static getGroup = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, await ScimService.getGroup(contextOf(req), req.params.id as string, listOptions(req)));
+  });
+
+  static createGroup = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    const group = await ScimService.createGroup(contextOf(req), req.body);
+    res.location(group.meta.location);
+    send(res, 201, group);
+  });
+
+  static replaceGroup = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, await ScimService.replaceGroup(contextOf(req), req.params.id as string, req.body));
+  });
+
+  static patchGroup = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    send(res, 200, await ScimService.patchGroup(contextOf(req), req.params.id as string, operationsOf(req)));
+  });
+
+  static deleteGroup = asyncHandler(async (req: ScimRequest, res: Response): Promise<any> => {
+    await ScimService.deleteGroup(contextOf(req), req.params.id as string);
+    res.status(204).end();
+  });
+
+  static notFound = (req: Request, res: Response): void => {
+    const error = new NotFoundError(`SCIM endpoint ${req.method} ${req.path}`);
+    send(res, 404, { schemas: [SCIM_SCHEMAS.error], status: '404', detail: error.message });
+  };
+
+  // Identity providers expect SCIM error responses (RFC 7644, section 3.12), not the API's own format
+  static errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+    if (res.headersSent) {
+      return next(error);
+    }
+
+    const isAppError = error instanceof AppError;
+    // Malformed JSON bodies and values the models reject are the client's mistake
+    const isInvalid = error?.type === 'entity.parse.failed' || error?.name === 'ValidationError';
+    const status = isAppError ? error.statusCode : isInvalid ? 400 : 500;
+
+    if (status >= 500) {
+      logger.error('SCIM request failed:', error);
+    }
+
+    send(res, status, {
+      schemas: [SCIM_SCHEMAS.error],
+      status: String(status),
+      ...(isAppError && error.details?.scimType && { scimType: error.details.scimType }),
+      ...(isInvalid && { scimType: error.name === 'ValidationError' ? 'invalidValue' : 'invalidSyntax' }),
+      detail: status >= 500 ? 'Internal server error' : error.message,
+    });
+  };
+}
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { AuthRequest } from '@/middleware/auth';
+import { AuthRequest, bulkWorkspaceFilter } from '@/middleware/auth';
 import { ValidationError, NotFoundError } from '@/exceptions/AppError';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { PaginationHelper } from '@/utils/pagination';
@@ -18,6 +18,7 @@ export class SubjectController {
       department,
       role,
       active,
+      environmentId,
     } = req.query;
 
     const user = req.user;
@@ -42,6 +43,7 @@ export class SubjectController {
     if (department) filter.department = department;
     if (role) filter.role = role;
     if (active !== undefined) filter.active = active === 'true';
+    if (environmentId) filter.environmentId = environmentId;
 
     // Add search filter
     if (search) {
@@ -464,7 +466,7 @@ export class SubjectController {
     }
 
     const result = await Subject.updateMany(
-      { id: { $in: subjectIds } },
+      { id: { $in: subjectIds }, ...await bulkWorkspaceFilter(req.user!, 'admin') },
       {
         ...updates,
         'metadata.lastModifiedBy': req.user?.name || null
@@ -491,7 +493,7 @@ export class SubjectController {
     }
 
     // Get subjects to be deleted
-    const subjectsToDelete = await Subject.find({ id: { $in: subjectIds } });
+    const subjectsToDelete = await Subject.find({ id: { $in: subjectIds }, ...await bulkWorkspaceFilter(req.user!, 'admin') });
 
     // Separate system subjects (cannot delete)
     const systemSubjects = subjectsToDelete.filter(subject => subject.metadata.isSystem);
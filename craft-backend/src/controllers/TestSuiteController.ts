@@ -0,0 +1,245 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { ValidationError, NotFoundError } from '@/exceptions/AppError';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { PaginationHelper } from '@/utils/pagination';
+import { logger } from '@/utils/logger';
+import { TestSuite, ITestCase } from '@/models/TestSuite';
+import TestSuiteService from '@/services/TestSuiteService';
+
+const EXPECTED_DECISIONS = ['Allow', 'Deny', 'NotApplicable'];
+
+const generateCaseId = (): string => `case-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Validates a test case from a request body and returns it with an ID
+const parseTestCase = (input: any, label = 'Test case'): ITestCase => {
+  if (!input || typeof input !== 'object') {
+    throw new ValidationError(`${label} must be an object`);
+  }
+
+  const { id, name, subject, action, resource, environment, expectedDecision } = input;
+
+  if (!name || !subject || !action || !resource) {
+    throw new ValidationError(`${label}: name, subject, action and resource are required`);
+  }
+  if (!EXPECTED_DECISIONS.includes(expectedDecision)) {
+    throw new ValidationError(`${label}: expectedDecision must be one of: ${EXPECTED_DECISIONS.join(', ')}`);
+  }
+  if (environment !== undefined && (typeof environment !== 'object' || Array.isArray(environment))) {
+    throw new ValidationError(`${label}: environment must be an object`);
+  }
+
+  return {
+    id: id || generateCaseId(),
+    name: String(name).trim(),
+    subject: String(subject).trim(),
+    action: String(action).trim(),
+    resource: String(resource).trim(),
+    environment: environment || {},
+    expectedDecision,
+  };
+};
+
+const findSuite = async (req: AuthRequest) => {
+  const id = req.params.id as string;
+  const filter: any = { id };
+
+  // Basic and admin users only see suites of their assigned workspaces
+  if (req.user?.role === 'basic' || req.user?.role === 'admin') {
+    filter.workspaceId = { $in: req.user.assignedWorkspaces || [] };
+  }
+
+  const suite = await TestSuite.findOne(filter);
+  if (!suite) {
+    throw new NotFoundError('Test suite not found');
+  }
+  return suite;
+};
+
+export class TestSuiteController {
+  // Get test suites of an environment
+  static getTestSuites = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const paginationOptions = PaginationHelper.validatePaginationParams(req.query);
+    const { search, workspaceId, applicationId, environmentId } = req.query;
+
+    const filter: any = {};
+    if (workspaceId) filter.workspaceId = workspaceId;
+    // A requested workspace narrows the assigned ones rather than replacing them
+    if (req.user?.role === 'basic' || req.user?.role === 'admin') {
+      const assignedWorkspaces = (req.user.assignedWorkspaces || []).map(String);
+      filter.workspaceId = {
+        $in: workspaceId ? assignedWorkspaces.filter(id => id === String(workspaceId)) : assignedWorkspaces,
+      };
+    }
+    if (applicationId) filter.applicationId = applicationId;
+    if (environmentId) filter.environmentId = environmentId;
+
+    if (search) {
+      Object.assign(filter, PaginationHelper.buildSearchFilter(search as string, ['name', 'description']));
+    }
+
+    const skip = (paginationOptions.page - 1) * paginationOptions.limit;
+    const sortObject = PaginationHelper.buildSortObject(paginationOptions.sortBy!, paginationOptions.sortOrder!);
+
+    const [suites, total] = await Promise.all([
+      TestSuite.find(filter)
+        .sort(sortObject)
+        .skip(skip)
+        .limit(paginationOptions.limit)
+        .lean(),
+      TestSuite.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      ...PaginationHelper.buildPaginationResult(suites, total, paginationOptions),
+    });
+  });
+
+  // Get test suite by ID
+  static getTestSuiteById = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const suite = await findSuite(req);
+
+    res.status(200).json({
+      success: true,
+      data: suite,
+    });
+  });
+
+  // Create test suite
+  static createTestSuite = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { name, description, cases, tags, workspaceId, applicationId, environmentId } = req.body;
+
+    if (!name) {
+      throw new ValidationError('Name is required');
+    }
+    if (!workspaceId || !applicationId || !environmentId) {
+      throw new ValidationError('Workspace ID, application ID and environment ID are required');
+    }
+    if (cases !== undefined && !Array.isArray(cases)) {
+      throw new ValidationError('Cases must be an array');
+    }
+
+    const suite = await TestSuite.create({
+      name: name.trim(),
+      description: description?.trim(),
+      workspaceId,
+      applicationId,
+      environmentId,
+      cases: (cases || []).map((testCase: any, index: number) => parseTestCase(testCase, `Test case ${index + 1}`)),
+      metadata: {
+        createdBy: req.user?.email || 'system',
+        lastModifiedBy: req.user?.email || 'system',
+        tags: tags || [],
+      },
+    });
+
+    logger.info(`Test suite created: ${suite.id} by ${req.user?.email || 'system'}`);
+
+    res.status(201).json({
+      success: true,
+      data: suite,
+      message: 'Test suite created successfully',
+    });
+  });
+
+  // Update test suite name, description or cases
+  static updateTestSuite = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const suite = await findSuite(req);
+    const { name, description, cases, tags } = req.body;
+
+    if (cases !== undefined && !Array.isArray(cases)) {
+      throw new ValidationError('Cases must be an array');
+    }
+
+    if (name !== undefined) suite.name = String(name).trim();
+    if (description !== undefined) suite.description = String(description).trim();
+    if (tags !== undefined) suite.metadata.tags = tags;
+    if (cases !== undefined) {
+      suite.cases = cases.map((testCase: any, index: number) => parseTestCase(testCase, `Test case ${index + 1}`));
+    }
+    suite.metadata.lastModifiedBy = req.user?.email || 'system';
+
+    await suite.save();
+
+    logger.info(`Test suite updated: ${suite.id} by ${req.user?.email || 'system'}`);
+
+    res.status(200).json({
+      success: true,
+      data: suite,
+      message: 'Test suite updated successfully',
+    });
+  });
+
+  // Delete test suite
+  static deleteTestSuite = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const suite = await findSuite(req);
+    await TestSuite.findByIdAndDelete(suite._id);
+
+    logger.info(`Test suite deleted: ${suite.id} by ${req.user?.email || 'system'}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Test suite deleted successfully',
+    });
+  });
+
+  // Add a test case to a suite
+  static addTestCase = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const suite = await findSuite(req);
+    const testCase = parseTestCase(req.body);
+
+    if (suite.cases.some(existing => existing.id === testCase.id)) {
+      throw new ValidationError('Test case with this ID already exists');
+    }
+
+    suite.cases.push(testCase);
+    suite.metadata.lastModifiedBy = req.user?.email || 'system';
+    await suite.save();
+
+    res.status(201).json({
+      success: true,
+      data: suite,
+      message: 'Test case added successfully',
+    });
+  });
+
+  // Remove a test case from a suite
+  static removeTestCase = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const suite = await findSuite(req);
+    const caseId = req.params.caseId as string;
+
+    if (!suite.cases.some(testCase => testCase.id === caseId)) {
+      throw new NotFoundError('Test case not found');
+    }
+
+    suite.cases = suite.cases.filter(testCase => testCase.id !== caseId);
+    suite.metadata.lastModifiedBy = req.user?.email || 'system';
+    await suite.save();
+
+    res.status(200).json({
+      success: true,
+      data: suite,
+      message: 'Test case removed successfully',
+    });
+  });
+
+  // Run every case of a suite and return the pass/fail report
+  static runTestSuite = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const suite = await findSuite(req);
+    const startTime = Date.now();
+
+    const run = await TestSuiteService.runSuite(suite, req.user?.email || 'system');
+
+    logger.info(`Test suite ${suite.id} run by ${req.user?.email || 'system'}: ${run.passed}/${run.total} passed`);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...run,
+        evaluationTime: Date.now() - startTime,
+      },
+      message: run.failed === 0 ? 'All test cases passed' : `${run.failed} of ${run.total} test cases failed`,
+    });
+  });
+}
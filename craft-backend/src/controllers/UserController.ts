@@ -1,12 +1,16 @@
 import { Request, Response } from 'express';
 import { User } from '@/models/User';
 import { AuthRequest } from '@/middleware/auth';
-import { ValidationError, NotFoundError } from '@/exceptions/AppError';
+import { ValidationError, NotFoundError, AuthorizationError } from '@/exceptions/AppError';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { PaginationHelper, FilterOptions } from '@/utils/pagination';
 import { logger } from '@/utils/logger';
+import sessionService from '@/services/SessionService';
 import mongoose from 'mongoose';
 
+// Global roles by privilege, to keep callers from acting on accounts that outrank them
+const GLOBAL_ROLE_RANK: Record<string, number> = { basic: 0, admin: 1, super_admin: 2 };
+
 export class UserController {
   // Get all users with pagination and filtering
   static getUsers = asyncHandler(async (req: Request, res: Response): Promise<any> => {
@@ -321,6 +325,37 @@ export class UserController {
     });
   });
 
+  // Revoke every session and access token of a user
+  static signOutEverywhere = asyncHandler(async (req: AuthRequest, res: Response): Promise<any> => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new ValidationError('ID parameter is required');
+    }
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw new ValidationError('Invalid user ID');
+    }
+
+    const user = await User.findById(id).select('-password');
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    if ((GLOBAL_ROLE_RANK[user.role] ?? 0) > (GLOBAL_ROLE_RANK[req.user?.role ?? ''] ?? 0)) {
+      throw new AuthorizationError('Access denied. Only super admins can sign out super admins');
+    }
+
+    const revoked = await sessionService.revokeAll(id, 'signed_out_everywhere');
+
+    logger.info(`User signed out everywhere: ${user.email} (${revoked} session(s)) by ${req.user?.email}`);
+
+    res.status(200).json({
+      success: true,
+      data: { revoked },
+      message: `${user.name} has been signed out of ${revoked} session(s)`,
+    });
+  });
+
   // Get user statistics
   static getUserStats = asyncHandler(async (req: Request, res: Response): Promise<any> => {
     const stats = await User.aggregate([
@@ -0,0 +1,94 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { Environment } from '@/models/Environment';
+import PolicyChangeService from '@/services/PolicyChangeService';
+import { IPolicy, Policy } from '@/models/Policy';
+import { PolicyController } from '../PolicyController';
+
+jest.mock('@/models/Environment', () => ({ Environment: { findById: jest.fn() } }));
+jest.mock('@/models/Policy', () => ({ Policy: { findOne: jest.fn() } }));
+jest.mock('@/services/ChangeRequestService');
+jest.mock('@/services/PolicyChangeService');
+
+const ENVIRONMENT_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const environment = { workspaceId: 'workspace-1', applicationId: 'application-1' };
+
+const response = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+// Runs the handler and resolves with the error it passed on, if any
+const run = (
+  handler: typeof PolicyController.createPolicy,
+  body: Record<string, unknown>,
+  params: Record<string, string> = {},
+  res = response()
+): Promise<unknown> =>
+  new Promise(resolve => {
+    res.json.mockImplementation(() => resolve(undefined));
+    const user = { email: 'alice@example.com', role: 'basic', assignedWorkspaces: ['workspace-1'] };
+    handler({ params, query: {}, body, user } as unknown as AuthRequest, res as unknown as Response, resolve);
+  });
+
+describe('PolicyController.createPolicy', () => {
+  const body = {
+    name: 'Reports',
+    effect: 'Allow',
+    workspaceId: 'workspace-1',
+    applicationId: 'application-1',
+    environmentId: ENVIRONMENT_ID,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(Environment.findById).mockReturnValue({ select: () => ({ lean: async () => environment }) } as never);
+    jest.mocked(PolicyChangeService.create).mockResolvedValue({ id: 'policy-1' } as IPolicy);
+  });
+
+  it('stores the policy in the workspace and application of its environment', async () => {
+    expect(await run(PolicyController.createPolicy, body)).toBeUndefined();
+    expect(PolicyChangeService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ workspaceId: 'workspace-1', applicationId: 'application-1', environmentId: ENVIRONMENT_ID }),
+      'alice@example.com'
+    );
+  });
+
+  it.each([
+    ['workspace', { workspaceId: 'workspace-2' }],
+    ['application', { applicationId: 'application-2' }],
+  ])('rejects a %s that the environment does not belong to', async (_, overrides) => {
+    const error = await run(PolicyController.createPolicy, { ...body, ...overrides });
+
+    expect(error).toMatchObject({ statusCode: 400, message: 'The environment does not belong to the given workspace and application' });
+    expect(PolicyChangeService.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown environment', async () => {
+    jest.mocked(Environment.findById).mockReturnValue({ select: () => ({ lean: async () => null }) } as never);
+
+    expect(await run(PolicyController.createPolicy, body)).toMatchObject({ statusCode: 404, message: 'Environment not found' });
+  });
+});
+
+describe('break-glass policies', () => {
+  const breakGlassPolicy = { id: 'policy-1', workspaceId: 'workspace-1', environmentId: ENVIRONMENT_ID, metadata: { tags: ['break-glass'] } };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(Policy.findOne).mockResolvedValue(breakGlassPolicy);
+  });
+
+  it.each([
+    ['updated', PolicyController.updatePolicy, { status: 'Active', expireAt: null }],
+    ['deleted', PolicyController.deletePolicy, {}],
+  ])('cannot be %s outside their grant', async (_, handler, body) => {
+    const error = await run(handler, body, { id: 'policy-1' });
+
+    expect(error).toMatchObject({ statusCode: 409 });
+    expect(PolicyChangeService.update).not.toHaveBeenCalled();
+    expect(PolicyChangeService.remove).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,46 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { User } from '@/models/User';
+import sessionService from '@/services/SessionService';
+import { UserController } from '../UserController';
+
+jest.mock('@/models/User', () => ({ User: { findById: jest.fn() } }));
+
+const TARGET_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+// Runs the handler and resolves with the error it passed on, if any
+const run = (callerRole: string): Promise<unknown> =>
+  new Promise(resolve => {
+    const res = { status: jest.fn(), json: jest.fn(() => resolve(undefined)) };
+    res.status.mockReturnValue(res);
+    const req = { params: { id: TARGET_ID }, user: { email: 'alice@example.com', role: callerRole } };
+    UserController.signOutEverywhere(req as unknown as AuthRequest, res as unknown as Response, resolve);
+  });
+
+describe('UserController.signOutEverywhere', () => {
+  const target = (role: string) =>
+    jest.mocked(User.findById).mockReturnValue({ select: jest.fn().mockResolvedValue({ name: 'Bob', email: 'bob@example.com', role }) } as never);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(sessionService, 'revokeAll').mockResolvedValue(2);
+  });
+
+  it.each([
+    ['admin', 'basic'],
+    ['admin', 'admin'],
+    ['super_admin', 'super_admin'],
+  ])('lets %s callers sign out %s users', async (callerRole, targetRole) => {
+    target(targetRole);
+
+    expect(await run(callerRole)).toBeUndefined();
+    expect(sessionService.revokeAll).toHaveBeenCalledWith(TARGET_ID, 'signed_out_everywhere');
+  });
+
+  it('keeps admins from signing out super admins', async () => {
+    target('super_admin');
+
+    expect(await run('admin')).toMatchObject({ statusCode: 403 });
+    expect(sessionService.revokeAll).not.toHaveBeenCalled();
+  });
+});
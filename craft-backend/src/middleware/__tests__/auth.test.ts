@@ -0,0 +1,130 @@
+import { Response } from 'express';
+import adminPolicyService from '@/services/AdminPolicyService';
+import { DecisionResult } from '@/services/PolicyEvaluationService';
+import { IUser, WorkspaceRole } from '@/types';
+import { AuthRequest, bulkWorkspaceFilter, requireAdminPermission } from '../auth';
+
+jest.mock('@/services/AdminPolicyService');
+
+const SYSTEM_WORKSPACE = 'workspace-system';
+
+const user = (role: IUser['role'], workspaceRoles: Record<string, WorkspaceRole> = {}) => ({
+  _id: 'user-1',
+  email: 'alice@example.com',
+  role,
+  assignedWorkspaces: Object.keys(workspaceRoles),
+  workspaceRoles: Object.fromEntries(Object.entries(workspaceRoles).map(([workspaceId, workspaceRole]) =>
+    [workspaceId, { role: workspaceRole, permissions: [], joinedAt: new Date() }])),
+}) as unknown as Omit<IUser, 'password'>;
+
+const decision = (effect: 'Allow' | 'Deny'): DecisionResult => ({ decision: effect, reason: `${effect} by test policy` } as DecisionResult);
+
+// Runs the middleware and resolves with what it passed to next()
+const run = (middleware: ReturnType<typeof requireAdminPermission>, req: Partial<AuthRequest>): Promise<unknown> =>
+  new Promise(resolve => middleware({ params: {}, query: {}, body: {}, ...req } as AuthRequest, {} as Response, resolve));
+
+describe('requireAdminPermission', () => {
+  const updatePolicy = requireAdminPermission('update', 'policy', 'member');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(adminPolicyService.isSystemWorkspace).mockImplementation(async workspaceId => workspaceId === SYSTEM_WORKSPACE);
+    jest.mocked(adminPolicyService.authorize).mockResolvedValue(null);
+  });
+
+  it('requires an authenticated user', async () => {
+    expect(await run(updatePolicy, {})).toMatchObject({ statusCode: 401 });
+  });
+
+  it('lets super admins through without evaluating the admin policies', async () => {
+    expect(await run(updatePolicy, { user: user('super_admin'), body: { workspaceId: SYSTEM_WORKSPACE } })).toBeUndefined();
+    expect(adminPolicyService.authorize).not.toHaveBeenCalled();
+  });
+
+  it('keeps everyone else out of the system workspace', async () => {
+    const error = await run(updatePolicy, { user: user('admin', { [SYSTEM_WORKSPACE]: 'owner' }), body: { workspaceId: SYSTEM_WORKSPACE } });
+
+    expect(error).toMatchObject({ statusCode: 403 });
+    expect(adminPolicyService.authorize).not.toHaveBeenCalled();
+  });
+
+  it('passes the action, resource type, workspace and target to the admin policies', async () => {
+    await run(updatePolicy, { user: user('basic', { 'workspace-1': 'member' }), body: { workspaceId: 'workspace-1', name: 'reports', effect: 'Allow' } });
+
+    expect(adminPolicyService.authorize).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'update',
+      resourceType: 'policy',
+      workspaceId: 'workspace-1',
+      target: { name: 'reports', effect: 'Allow', tags: [] },
+    }));
+  });
+
+  it.each([
+    ['global admins', user('admin', { 'workspace-2': 'admin' })],
+    ['members of other workspaces', user('basic', { 'workspace-2': 'owner' })],
+  ])('keeps %s out of workspaces not assigned to them, whatever the admin policies say', async (_, caller) => {
+    jest.mocked(adminPolicyService.authorize).mockResolvedValue(decision('Allow'));
+
+    const error = await run(updatePolicy, { user: caller, body: { workspaceId: 'workspace-1' } });
+
+    expect(error).toMatchObject({ statusCode: 403, message: 'Access denied. The workspace is not assigned to you' });
+  });
+
+  it('lets an admin policy Deny override the workspace role', async () => {
+    jest.mocked(adminPolicyService.authorize).mockResolvedValue(decision('Deny'));
+
+    const error = await run(updatePolicy, { user: user('basic', { 'workspace-1': 'owner' }), body: { workspaceId: 'workspace-1' } });
+
+    expect(error).toMatchObject({ statusCode: 403, message: 'Access denied by CRAFT admin policy: Deny by test policy' });
+  });
+
+  it('lets an admin policy Allow grant more than the workspace role', async () => {
+    jest.mocked(adminPolicyService.authorize).mockResolvedValue(decision('Allow'));
+
+    expect(await run(updatePolicy, { user: user('basic', { 'workspace-1': 'viewer' }), body: { workspaceId: 'workspace-1' } })).toBeUndefined();
+  });
+
+  describe('without an applicable admin policy', () => {
+    it('allows callers holding the minimum workspace role', async () => {
+      expect(await run(updatePolicy, { user: user('basic', { 'workspace-1': 'member' }), body: { workspaceId: 'workspace-1' } })).toBeUndefined();
+    });
+
+    it('denies callers below the minimum workspace role', async () => {
+      const error = await run(updatePolicy, { user: user('basic', { 'workspace-1': 'viewer' }), body: { workspaceId: 'workspace-1' } });
+
+      expect(error).toMatchObject({ statusCode: 403, message: 'Access denied. Required workspace role: member (current: viewer)' });
+    });
+
+    it('falls back to the global role when the request names no workspace', async () => {
+      const deletePolicies = requireAdminPermission('delete', 'policy', 'admin');
+
+      expect(await run(deletePolicies, { user: user('admin') })).toBeUndefined();
+      expect(await run(deletePolicies, { user: user('basic', { 'workspace-1': 'owner' }) })).toMatchObject({ statusCode: 403 });
+    });
+  });
+});
+
+describe('bulkWorkspaceFilter', () => {
+  beforeEach(() => {
+    jest.mocked(adminPolicyService.getScope).mockResolvedValue({
+      workspaceId: SYSTEM_WORKSPACE,
+      applicationId: 'application-system',
+      environmentId: 'environment-admin',
+    });
+  });
+
+  it('does not limit super admins', async () => {
+    expect(await bulkWorkspaceFilter(user('super_admin'), 'admin')).toEqual({});
+  });
+
+  it('limits bulk operations to the assigned workspaces with the minimum role, never the system workspace', async () => {
+    const caller = user('basic', { 'workspace-1': 'admin', 'workspace-2': 'member', [SYSTEM_WORKSPACE]: 'owner' });
+
+    expect(await bulkWorkspaceFilter(caller, 'admin')).toEqual({ workspaceId: { $in: ['workspace-1'] } });
+    expect(await bulkWorkspaceFilter(caller, 'member')).toEqual({ workspaceId: { $in: ['workspace-1', 'workspace-2'] } });
+  });
+
+  it('matches nothing for callers without assigned workspaces', async () => {
+    expect(await bulkWorkspaceFilter(user('admin'), 'admin')).toEqual({ workspaceId: { $in: [] } });
+  });
+});
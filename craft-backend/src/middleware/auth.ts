@@ -1,16 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { Types } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { config } from '@/config/environment';
 import { AuthenticationError, AuthorizationError } from '@/exceptions/AppError';
-import { IJWTPayload, IUser } from '@/types';
+import { IJWTPayload, IUser, WorkspaceRole } from '@/types';
 import { AuthenticatedRequest, OptionalAuthRequest } from '@/types/express';
 import { UserRepository } from '@/repositories/UserRepository';
+import sessionService from '@/services/SessionService';
+import adminPolicyService from '@/services/AdminPolicyService';
+import scimService, { ScimContext } from '@/services/ScimService';
+import { Environment } from '@/models/Environment';
+import { hasWorkspaceRole, resolveWorkspaceRole } from '@/utils/workspaceRoles';
 import { asyncHandler } from './errorHandler';
 
 // Keep the old interface for backward compatibility
 export interface AuthRequest extends Request {
   user?: Omit<IUser, 'password'>;
+  token?: IJWTPayload; // Verified payload of the presented access token
 }
 
 const userRepository = new UserRepository();
@@ -33,6 +39,11 @@ export const requireAuth = asyncHandler(
 
     try {
       const decoded = jwt.verify(token, config.jwt.secret) as IJWTPayload;
+
+      // Logout, session revocation and "sign out everywhere" invalidate tokens before they expire
+      if (await sessionService.isRevoked(decoded)) {
+        throw new AuthenticationError('Token has been revoked');
+      }
       
       const user = await userRepository.findById(decoded.userId);
       
@@ -47,6 +58,7 @@ export const requireAuth = asyncHandler(
       // Remove password from user object
       const { password, ...userWithoutPassword } = user;
       req.user = userWithoutPassword;
+      req.token = decoded;
       
       next();
     } catch (jwtError) {
@@ -74,11 +86,12 @@ export const optionalAuth = asyncHandler(
 
     try {
       const decoded = jwt.verify(token, config.jwt.secret) as IJWTPayload;
-      const user = await userRepository.findById(decoded.userId);
+      const user = await sessionService.isRevoked(decoded) ? null : await userRepository.findById(decoded.userId);
       
       if (user && user.active) {
         const { password, ...userWithoutPassword } = user;
         req.user = userWithoutPassword;
+        req.token = decoded;
       }
     } catch (jwtError) {
       // Silent fail for optional auth
@@ -110,7 +123,203 @@ export const requireAdmin = requireRole('admin');
 
 export const requireAdminOrSuperAdmin = requireRole(['admin', 'super_admin']);
 
-export const requireManagerOrAbove = requireRole(['manager', 'senior_manager', 'admin']);
+export type WorkspaceIdResolver = (req: AuthRequest) => Promise<string | undefined>;
+
+// Workspace a request targets: its route, the environment it writes to, or the workspace it names
+export const workspaceFromRequest: WorkspaceIdResolver = async (req) => {
+  if (req.params.workspaceId) {
+    return req.params.workspaceId;
+  }
+
+  const source = { ...req.query, ...req.body } as Record<string, unknown>;
+
+  // The environment is looked up rather than trusting a workspaceId sent alongside it
+  const environmentId = source.environmentId ?? source.targetEnvironmentId;
+  if (typeof environmentId === 'string' && Types.ObjectId.isValid(environmentId)) {
+    const environment = await Environment.findById(environmentId).select('workspaceId').lean();
+    if (environment?.workspaceId) return String(environment.workspaceId);
+  }
+
+  return typeof source.workspaceId === 'string' && source.workspaceId ? source.workspaceId : undefined;
+};
+
+export interface AdminTarget {
+  workspaceId?: string;
+  attributes: Record<string, any>; // Attributes of the entity acted on, as seen by the admin policies
+}
+
+export type AdminTargetResolver = (req: AuthRequest) => Promise<AdminTarget>;
+
+const targetAttributes = (entity: Record<string, any>): Record<string, any> => {
+  const attributes: Record<string, any> = {
+    id: entity.id,
+    name: entity.name,
+    displayName: entity.displayName,
+    status: entity.status,
+    effect: entity.effect,
+    category: entity.category,
+    applicationId: entity.applicationId,
+    environmentId: entity.environmentId,
+    tags: entity.metadata?.tags ?? entity.tags ?? [],
+  };
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined && value !== null));
+};
+
+// Entity described by the request body, in the workspace the request targets
+export const targetFromRequest: AdminTargetResolver = async (req) => ({
+  workspaceId: await workspaceFromRequest(req),
+  attributes: targetAttributes(req.body || {}),
+});
+
+// Stored entity a route addresses, looked up by its id or _id
+export const entityTarget = (model: Model<any>, param: string = 'id'): AdminTargetResolver => async (req) => {
+  const key = req.params[param];
+  if (!key) return { attributes: {} };
+
+  const filter = Types.ObjectId.isValid(key) ? { $or: [{ id: key }, { _id: key }] } : { id: key };
+  const entity = await model.findOne(filter).lean<Record<string, any>>();
+  if (!entity) return { attributes: {} };
+
+  return {
+    workspaceId: entity.workspaceId ? String(entity.workspaceId) : undefined,
+    attributes: targetAttributes(entity),
+  };
+};
+
+// Workspace of the entity a route addresses
+export const workspaceOfEntity = (model: Model<any>, param: string = 'id'): WorkspaceIdResolver => async (req) =>
+  (await entityTarget(model, param)(req)).workspaceId;
+
+/**
+ * Requires a minimum role in the workspace a request targets. When no workspace can be
+ * resolved (e.g. bulk operations), the caller's global role decides.
+ */
+export const requireWorkspaceRole = (
+  minimumRole: WorkspaceRole,
+  resolveWorkspaceId: WorkspaceIdResolver = workspaceFromRequest
+) => asyncHandler(
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
+    if (!req.user) {
+      throw new AuthenticationError('Authentication required');
+    }
+
+    const workspaceId = await resolveWorkspaceId(req);
+    const role = resolveWorkspaceRole(req.user, workspaceId);
+
+    if (!hasWorkspaceRole(role, minimumRole)) {
+      throw new AuthorizationError(
+        `Access denied. Required workspace role: ${minimumRole} (current: ${role})`
+      );
+    }
+
+    next();
+  }
+);
+
+/**
+ * Requires the workspace a request targets to be one of the caller's assigned workspaces,
+ * as reading its policies does. Super admins see every workspace; requests that name no
+ * workspace are left to the handler's own validation.
+ */
+export const requireWorkspaceAccess = (
+  resolveWorkspaceId: WorkspaceIdResolver = workspaceFromRequest
+) => asyncHandler(
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
+    if (!req.user) {
+      throw new AuthenticationError('Authentication required');
+    }
+
+    if (req.user.role === 'super_admin') {
+      return next();
+    }
+
+    const workspaceId = await resolveWorkspaceId(req);
+    if (workspaceId && !(req.user.assignedWorkspaces || []).map(String).includes(String(workspaceId))) {
+      throw new AuthorizationError('Access denied. The workspace is not assigned to you');
+    }
+
+    next();
+  }
+);
+
+/**
+ * Lets the policies of the craft-admin system environment decide an administrative action.
+ * Their Allow or Deny is final; when none applies, or the environment has not been
+ * provisioned, the minimum workspace role decides as requireWorkspaceRole does. Either way
+ * the target workspace must be assigned to the caller. Super admins are not evaluated so a
+ * faulty policy cannot lock everyone out, and only they may change the system workspace that
+ * holds the admin policies.
+ */
+export const requireAdminPermission = (
+  action: string,
+  resourceType: string,
+  minimumRole: WorkspaceRole,
+  resolveTarget: AdminTargetResolver = targetFromRequest
+) => asyncHandler(
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
+    if (!req.user) {
+      throw new AuthenticationError('Authentication required');
+    }
+
+    if (req.user.role === 'super_admin') {
+      return next();
+    }
+
+    const { workspaceId, attributes } = await resolveTarget(req);
+
+    if (await adminPolicyService.isSystemWorkspace(workspaceId)) {
+      throw new AuthorizationError('Access denied. The CRAFT admin policies can only be changed by super admins');
+    }
+
+    if (workspaceId && !(req.user.assignedWorkspaces || []).map(String).includes(String(workspaceId))) {
+      throw new AuthorizationError('Access denied. The workspace is not assigned to you');
+    }
+
+    const result = await adminPolicyService.authorize({
+      user: req.user,
+      action,
+      resourceType,
+      workspaceId,
+      target: attributes,
+    });
+
+    if (result?.decision === 'Deny') {
+      throw new AuthorizationError(`Access denied by CRAFT admin policy: ${result.reason}`);
+    }
+
+    if (result?.decision !== 'Allow') {
+      const role = resolveWorkspaceRole(req.user, workspaceId);
+      if (!hasWorkspaceRole(role, minimumRole)) {
+        throw new AuthorizationError(
+          `Access denied. Required workspace role: ${minimumRole} (current: ${role})`
+        );
+      }
+    }
+
+    next();
+  }
+);
+
+/**
+ * Filter limiting a bulk operation, which names no single workspace, to the caller's assigned
+ * workspaces where they hold the minimum role. The system workspace is left out; super admins
+ * are not limited.
+ */
+export const bulkWorkspaceFilter = async (
+  user: Omit<IUser, 'password'>,
+  minimumRole: WorkspaceRole
+): Promise<Record<string, any>> => {
+  if (user.role === 'super_admin') {
+    return {};
+  }
+
+  const systemWorkspaceId = (await adminPolicyService.getScope())?.workspaceId;
+  const workspaceIds = (user.assignedWorkspaces || []).map(String).filter(workspaceId =>
+    workspaceId !== systemWorkspaceId && hasWorkspaceRole(resolveWorkspaceRole(user, workspaceId), minimumRole)
+  );
+
+  return { workspaceId: { $in: workspaceIds } };
+};
 
 export const requireSelfOrAdmin = (userIdParam: string = 'id') => {
   return (req: AuthRequest, res: Response, next: NextFunction): void => {
@@ -130,5 +339,25 @@ export const requireSelfOrAdmin = (userIdParam: string = 'id') => {
   };
 };
 
+export interface ScimRequest extends Request {
+  scim?: ScimContext; // Workspace and environment the presented SCIM token provisions into
+}
+
+// Authenticates an identity provider by its workspace-scoped SCIM token rather than a user session
+export const requireScimToken = asyncHandler(
+  async (req: ScimRequest, res: Response, next: NextFunction): Promise<any> => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new AuthenticationError('Access denied. No SCIM token provided.');
+    }
+
+    const context = await scimService.authenticate(authHeader.substring(7));
+    req.scim = { ...context, baseUrl: `${req.protocol}://${req.get('host')}${req.baseUrl}` };
+
+    next();
+  }
+);
+
 // Default auth export for convenience
 export const auth = requireAuth;
\ No newline at end of file
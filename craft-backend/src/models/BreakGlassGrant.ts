@@ -0,0 +1,140 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type BreakGlassStatus = 'active' | 'expired' | 'revoked';
+export type BreakGlassReviewOutcome = 'justified' | 'unjustified';
+
+export interface IBreakGlassActor {
+  id: string;
+  email: string;
+}
+
+export interface IBreakGlassEntityRef {
+  id: string;
+  name: string;
+}
+
+export interface IBreakGlassReview {
+  reviewedBy: IBreakGlassActor;
+  outcome: BreakGlassReviewOutcome;
+  comment?: string;
+  reviewedAt: Date;
+}
+
+export interface IBreakGlassGrant extends Document {
+  _id: string;
+  id: string;
+
+  // Hierarchy Context
+  workspaceId: string; // Reference to Workspace
+  applicationId: string; // Reference to Application
+  environmentId: string; // Reference to Environment
+
+  subject: IBreakGlassEntityRef;
+  action: IBreakGlassEntityRef;
+  resource: IBreakGlassEntityRef;
+  policyId: string; // The Allow policy created for the grant
+  justification: string;
+  ticket?: IBreakGlassEntityRef; // Additional resource of type ticket
+  status: BreakGlassStatus;
+  expiresAt: Date;
+  requestedBy: IBreakGlassActor;
+  notifiedAdmins: string[]; // Emails of the workspace admins notified of the grant
+  revokedBy?: IBreakGlassActor;
+  revokedAt?: Date;
+  endedAt?: Date; // When the grant expired or was revoked
+  review?: IBreakGlassReview; // Set once an admin reviewed the ended grant
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ActorSchema = new Schema<IBreakGlassActor>({
+  id: { type: String, required: true },
+  email: { type: String, required: true },
+}, { _id: false });
+
+const EntityRefSchema = new Schema<IBreakGlassEntityRef>({
+  id: { type: String, required: true },
+  name: { type: String, required: true },
+}, { _id: false });
+
+const ReviewSchema = new Schema<IBreakGlassReview>({
+  reviewedBy: { type: ActorSchema, required: true },
+  outcome: { type: String, enum: ['justified', 'unjustified'], required: true },
+  comment: { type: String, trim: true, maxlength: 1000 },
+  reviewedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+const BreakGlassGrantSchema = new Schema<IBreakGlassGrant>({
+  // Hierarchy Context Fields
+  workspaceId: {
+    type: String,
+    required: [true, 'Workspace ID is required'],
+    index: true,
+    ref: 'Workspace'
+  },
+  applicationId: {
+    type: String,
+    required: [true, 'Application ID is required'],
+    ref: 'Application'
+  },
+  environmentId: {
+    type: String,
+    required: [true, 'Environment ID is required'],
+    index: true,
+    ref: 'Environment'
+  },
+
+  id: {
+    type: String,
+    required: false, // Generated on save
+    unique: true,
+    sparse: true,
+  },
+  subject: { type: EntityRefSchema, required: true },
+  action: { type: EntityRefSchema, required: true },
+  resource: { type: EntityRefSchema, required: true },
+  policyId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  justification: {
+    type: String,
+    required: [true, 'A justification is required'],
+    trim: true,
+    minlength: [10, 'The justification must be at least 10 characters'],
+    maxlength: [2000, 'The justification cannot exceed 2000 characters'],
+  },
+  ticket: { type: EntityRefSchema },
+  status: {
+    type: String,
+    enum: ['active', 'expired', 'revoked'],
+    default: 'active',
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  requestedBy: { type: ActorSchema, required: true },
+  notifiedAdmins: [{ type: String }],
+  revokedBy: { type: ActorSchema },
+  revokedAt: { type: Date },
+  endedAt: { type: Date },
+  review: { type: ReviewSchema },
+}, {
+  timestamps: true,
+});
+
+BreakGlassGrantSchema.index({ status: 1, expiresAt: 1 }); // Expiry sweep
+BreakGlassGrantSchema.index({ workspaceId: 1, status: 1, createdAt: -1 });
+
+// Pre-save middleware to generate id if not provided
+BreakGlassGrantSchema.pre('save', function(next) {
+  if (this.isNew && !this.id) {
+    this.id = `bg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+  next();
+});
+
+export const BreakGlassGrant = model<IBreakGlassGrant>('BreakGlassGrant', BreakGlassGrantSchema);
+export default BreakGlassGrant;
@@ -0,0 +1,146 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type ChangeOperation = 'create' | 'update' | 'delete';
+export type ChangeRequestStatus = 'pending' | 'applied' | 'rejected' | 'cancelled' | 'failed';
+
+export interface IChangeReview {
+  reviewerId: string;
+  reviewerEmail: string;
+  decision: 'approve' | 'reject';
+  comment?: string;
+  reviewedAt: Date;
+}
+
+export interface IChangeRequest extends Document {
+  _id: string;
+  id: string;
+
+  // Hierarchy Context
+  workspaceId: string; // Reference to Workspace
+  applicationId: string; // Reference to Application
+  environmentId: string; // Reference to Environment
+
+  operation: ChangeOperation;
+  policyId?: string; // Absent for creates until they are applied
+  policyName: string;
+  payload: Record<string, any>; // Policy data for creates, field updates for updates
+  baseVersion?: string; // Policy version the change was made against, for updates and deletes
+  regressionCheck?: Record<string, any>; // Stored test cases the change would flip, when it was requested
+  status: ChangeRequestStatus;
+  requiredApprovals: number;
+  reviews: IChangeReview[];
+  requestedBy: {
+    id: string;
+    email: string;
+  };
+  comment?: string; // Why the change is requested
+  resolvedAt?: Date;
+  error?: string; // Why applying an approved change failed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChangeReviewSchema = new Schema<IChangeReview>({
+  reviewerId: { type: String, required: true },
+  reviewerEmail: { type: String, required: true },
+  decision: { type: String, enum: ['approve', 'reject'], required: true },
+  comment: { type: String, trim: true, maxlength: 1000 },
+  reviewedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+const ChangeRequestSchema = new Schema<IChangeRequest>({
+  // Hierarchy Context Fields
+  workspaceId: {
+    type: String,
+    required: [true, 'Workspace ID is required'],
+    index: true,
+    ref: 'Workspace'
+  },
+  applicationId: {
+    type: String,
+    required: [true, 'Application ID is required'],
+    ref: 'Application'
+  },
+  environmentId: {
+    type: String,
+    required: [true, 'Environment ID is required'],
+    index: true,
+    ref: 'Environment'
+  },
+
+  id: {
+    type: String,
+    required: false, // Generated on save
+    unique: true,
+    sparse: true,
+  },
+  operation: {
+    type: String,
+    enum: {
+      values: ['create', 'update', 'delete'],
+      message: 'Operation must be one of: create, update, delete',
+    },
+    required: true,
+  },
+  policyId: {
+    type: String,
+    index: true,
+  },
+  policyName: {
+    type: String,
+    required: true,
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  baseVersion: {
+    type: String,
+  },
+  regressionCheck: {
+    type: Schema.Types.Mixed,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'applied', 'rejected', 'cancelled', 'failed'],
+    default: 'pending',
+  },
+  requiredApprovals: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  reviews: [ChangeReviewSchema],
+  requestedBy: {
+    id: { type: String, required: true },
+    email: { type: String, required: true },
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+  },
+  resolvedAt: {
+    type: Date,
+  },
+  error: {
+    type: String,
+  },
+}, {
+  timestamps: true,
+  minimize: false,
+});
+
+ChangeRequestSchema.index({ workspaceId: 1, status: 1, createdAt: -1 }); // Reviewer inbox
+ChangeRequestSchema.index({ environmentId: 1, status: 1 });
+
+// Pre-save middleware to generate id if not provided
+ChangeRequestSchema.pre('save', function(next) {
+  if (this.isNew && !this.id) {
+    this.id = `cr-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+  next();
+});
+
+export const ChangeRequest = model<IChangeRequest>('ChangeRequest', ChangeRequestSchema);
+export default ChangeRequest;
@@ -1,5 +1,9 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// How the effects of several applicable policies are combined into one decision
+export const COMBINING_ALGORITHMS = ['deny-overrides', 'permit-overrides', 'first-applicable', 'deny-unless-permit'] as const;
+export type CombiningAlgorithm = typeof COMBINING_ALGORITHMS[number];
+
 export interface IEnvironmentConfiguration {
   variables: Record<string, string>;
   endpoints: Record<string, string>;
@@ -47,6 +51,7 @@ export interface IEnvironmentMetadata {
     autoPromoteFrom?: string; // Environment ID
     requireApproval: boolean;
     approvers: string[] | any[]; // User IDs/objects
+    requiredApprovals?: number; // Approvals a policy change needs before it applies
   };
   backup?: {
     enabled: boolean;
@@ -65,11 +70,17 @@ export interface IEnvironment extends Document {
   description?: string;
   type: 'development' | 'testing' | 'staging' | 'production' | 'preview' | 'hotfix';
   status: 'active' | 'inactive' | 'maintenance' | 'provisioning' | 'terminating';
+  combiningAlgorithm: CombiningAlgorithm;
   configuration: IEnvironmentConfiguration;
   metadata: IEnvironmentMetadata;
   active: boolean;
   createdAt: Date;
   updatedAt: Date;
+
+  canPromoteFrom(sourceEnvironmentId: string): boolean;
+  requiresApproval(): boolean;
+  requiresPolicyApproval(): boolean;
+  isApprover(userId: string): boolean;
 }
 
 const EnvironmentConfigurationSchema = new Schema<IEnvironmentConfiguration>({
@@ -128,7 +139,8 @@ const EnvironmentMetadataSchema = new Schema<IEnvironmentMetadata>({
   promotionRules: {
     autoPromoteFrom: { type: String, ref: 'Environment' },
     requireApproval: { type: Boolean, default: true },
-    approvers: [{ type: Schema.Types.ObjectId, ref: 'User' }]
+    approvers: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    requiredApprovals: { type: Number, default: 1, min: 1 }
   },
   backup: {
     enabled: { type: Boolean, default: false },
@@ -185,6 +197,11 @@ const EnvironmentSchema = new Schema<IEnvironment>({
     default: 'provisioning',
     index: true 
   },
+  combiningAlgorithm: {
+    type: String,
+    enum: COMBINING_ALGORITHMS,
+    default: 'deny-overrides'
+  },
   configuration: { 
     type: EnvironmentConfigurationSchema, 
     default: () => ({})
@@ -297,16 +314,26 @@ EnvironmentSchema.methods.isOwner = function(userId: string): boolean {
   return this.metadata.owner === userId;
 };
 
+// Environments without a configured source accept promotions from any environment
 EnvironmentSchema.methods.canPromoteFrom = function(sourceEnvironmentId: string): boolean {
-  return this.metadata.promotionRules?.autoPromoteFrom === sourceEnvironmentId;
+  const autoPromoteFrom = this.metadata.promotionRules?.autoPromoteFrom;
+  return !autoPromoteFrom || String(autoPromoteFrom) === String(sourceEnvironmentId);
 };
 
 EnvironmentSchema.methods.requiresApproval = function(): boolean {
   return this.metadata.promotionRules?.requireApproval ?? true;
 };
 
+// Policy changes wait for approval only when the environment also names who approves them
+EnvironmentSchema.methods.requiresPolicyApproval = function(): boolean {
+  return this.requiresApproval() && (this.metadata.promotionRules?.approvers?.length ?? 0) > 0;
+};
+
 EnvironmentSchema.methods.isApprover = function(userId: string): boolean {
-  return this.metadata.promotionRules?.approvers?.includes(userId) ?? false;
+  // Approvers are stored as ObjectIds, or populated users
+  return this.metadata.promotionRules?.approvers?.some(
+    (approver: any) => String(approver?._id ?? approver) === String(userId)
+  ) ?? false;
 };
 
 EnvironmentSchema.methods.setVariable = function(key: string, value: string): void {
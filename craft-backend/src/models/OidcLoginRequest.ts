@@ -0,0 +1,59 @@
+import { Schema, model, Document } from 'mongoose';
+
+// A single sign-on login between the redirect to the identity provider and its callback
+export interface IOidcLoginRequest extends Document {
+  _id: string;
+  state: string; // Returned by the provider with the authorization code
+  bindingHash: string; // SHA-256 of the cookie that ties the login to the browser that started it
+  workspaceId: string;
+  nonce: string; // Must come back in the ID token
+  codeVerifier: string; // PKCE secret whose S256 challenge was sent to the provider
+  redirectUri: string; // Must be sent again when exchanging the code
+  returnTo?: string; // Frontend path to open after signing in
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OidcLoginRequestSchema = new Schema<IOidcLoginRequest>({
+  state: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  bindingHash: {
+    type: String,
+    required: true,
+  },
+  workspaceId: {
+    type: String,
+    required: true,
+    ref: 'Workspace',
+  },
+  nonce: {
+    type: String,
+    required: true,
+  },
+  codeVerifier: {
+    type: String,
+    required: true,
+  },
+  redirectUri: {
+    type: String,
+    required: true,
+  },
+  returnTo: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+OidcLoginRequestSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OidcLoginRequest = model<IOidcLoginRequest>('OidcLoginRequest', OidcLoginRequestSchema);
+export default OidcLoginRequest;
@@ -115,6 +115,9 @@ export interface IPolicy extends Document {
   description: string;
   effect: 'Allow' | 'Deny';
   status: 'Active' | 'Inactive' | 'Draft';
+  priority: number; // Evaluation order for first-applicable (lower = evaluated first)
+  activateAt?: Date | null; // Set to Active by the policy scheduler at this time
+  expireAt?: Date | null; // Set to Inactive by the policy scheduler at this time
   rules: IPolicyRule[];
 
   // Complex Policy Support
@@ -133,6 +136,12 @@ export interface IPolicy extends Document {
     version: string;
     isSystem: boolean;
     isCustom: boolean;
+    promotedFrom?: { // Set when the policy was promoted from another environment
+      environmentId: string;
+      policyId: string;
+      version: string;
+      promotedAt: Date;
+    };
   };
   
   // Inheritance rules
@@ -496,6 +505,16 @@ const PolicySchema = new Schema<IPolicy>({
     },
     default: 'Draft',
   },
+  priority: {
+    type: Number,
+    default: 0,
+  },
+  activateAt: {
+    type: Date,
+  },
+  expireAt: {
+    type: Date,
+  },
   rules: [PolicyRuleSchema],
 
   // Complex Policy Support
@@ -547,6 +566,12 @@ const PolicySchema = new Schema<IPolicy>({
       type: Boolean,
       default: true,
     },
+    promotedFrom: {
+      environmentId: String,
+      policyId: String,
+      version: String,
+      promotedAt: Date,
+    },
   },
   
   // Inheritance rules
@@ -579,9 +604,12 @@ PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, actions
 PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, resources: 1 });
 PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, 'metadata.tags': 1 });
 PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, createdAt: -1 });
+PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, status: 1, priority: 1 });
 
 // Complex Policy Support Indexes
 PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, policyType: 1 });
+PolicySchema.index({ activateAt: 1 }, { sparse: true }); // Due scheduled activations
+PolicySchema.index({ expireAt: 1 }, { sparse: true }); // Due scheduled expiries
 PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, 'complexRules.dependencyRules.triggerResource': 1 }, { sparse: true });
 PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, 'complexRules.resourceConditions.additional.resourceId': 1 }, { sparse: true });
 PolicySchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1, 'complexRules.timeConstraints.enabled': 1 }, { sparse: true });
@@ -0,0 +1,112 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type VersionBump = 'initial' | 'major' | 'minor' | 'patch';
+
+// The versioned content of a policy; hierarchy, IDs and audit fields are not part of it
+export interface IPolicyContent {
+  name: string;
+  description?: string;
+  effect: 'Allow' | 'Deny';
+  status: 'Active' | 'Inactive' | 'Draft';
+  priority: number;
+  policyType: 'simple' | 'complex';
+  rules: any[];
+  complexRules: any[];
+  subjects: string[];
+  resources: string[];
+  actions: string[];
+  additionalResources: any[];
+  conditions: any[];
+  tags: string[];
+}
+
+export interface IPolicyRevision extends Document {
+  _id: string;
+  policyId: string;
+
+  // Hierarchy Context
+  workspaceId: string; // Reference to Workspace
+  applicationId: string; // Reference to Application
+  environmentId: string; // Reference to Environment
+
+  version: string; // Semantic version the policy had after this save
+  bump: VersionBump;
+  content: IPolicyContent;
+  author: string;
+  summary: string; // e.g. "2 rules modified, effect changed"
+  rolledBackFrom?: string; // Version whose content this revision restored
+  createdAt: Date;
+}
+
+const PolicyRevisionSchema = new Schema<IPolicyRevision>({
+  policyId: {
+    type: String,
+    required: true,
+  },
+
+  // Hierarchy Context Fields
+  workspaceId: {
+    type: String,
+    required: [true, 'Workspace ID is required'],
+    index: true,
+    ref: 'Workspace'
+  },
+  applicationId: {
+    type: String,
+    required: [true, 'Application ID is required'],
+    ref: 'Application'
+  },
+  environmentId: {
+    type: String,
+    required: [true, 'Environment ID is required'],
+    index: true,
+    ref: 'Environment'
+  },
+
+  version: {
+    type: String,
+    required: true,
+    match: [/^\d+\.\d+\.\d+$/, 'Version must be a semantic version (major.minor.patch)'],
+  },
+  bump: {
+    type: String,
+    enum: ['initial', 'major', 'minor', 'patch'],
+    required: true,
+  },
+  content: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  author: {
+    type: String,
+    required: true,
+  },
+  summary: {
+    type: String,
+    default: '',
+  },
+  rolledBackFrom: {
+    type: String,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  minimize: false,
+});
+
+PolicyRevisionSchema.index({ policyId: 1, version: 1 }, { unique: true });
+PolicyRevisionSchema.index({ policyId: 1, createdAt: -1 });
+
+// Revisions are immutable: they can be created, never changed
+PolicyRevisionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Policy revisions are immutable'));
+  }
+  next();
+});
+
+PolicyRevisionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], function(next) {
+  next(new Error('Policy revisions are immutable'));
+});
+
+export const PolicyRevision = model<IPolicyRevision>('PolicyRevision', PolicyRevisionSchema);
+export default PolicyRevision;
@@ -0,0 +1,42 @@
+import { Schema, model, Document } from 'mongoose';
+
+// A single access token, every access token of a session, or every access token of a user
+export type RevocationScope = 'token' | 'session' | 'user';
+
+export interface IRevokedToken extends Document {
+  _id: string;
+  scope: RevocationScope;
+  key: string; // Token ID (jti), session ID (sid) or user ID
+  revokedAt: Date; // For the user scope, tokens issued before this time are revoked
+  expiresAt: Date; // When every access token the entry covers has expired
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RevokedTokenSchema = new Schema<IRevokedToken>({
+  scope: {
+    type: String,
+    enum: ['token', 'session', 'user'],
+    required: true,
+  },
+  key: {
+    type: String,
+    required: true,
+  },
+  revokedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+RevokedTokenSchema.index({ scope: 1, key: 1 }); // Checked on every authenticated request
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RevokedToken = model<IRevokedToken>('RevokedToken', RevokedTokenSchema);
+export default RevokedToken;
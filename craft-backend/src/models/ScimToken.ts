@@ -0,0 +1,73 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Bearer token an identity provider uses to provision users and groups into a workspace over SCIM
+export interface IScimToken extends Document {
+  _id: string;
+  name: string; // e.g. the identity provider it was issued to
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string; // Environment whose subjects the provider manages
+  tokenHash: string; // SHA-256 of the token; the token itself is only shown once
+  tokenPrefix: string; // First characters, to tell tokens apart
+  createdBy: string;
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScimTokenSchema = new Schema<IScimToken>({
+  name: {
+    type: String,
+    required: [true, 'Token name is required'],
+    trim: true,
+    maxlength: [100, 'Token name cannot exceed 100 characters'],
+  },
+  workspaceId: {
+    type: String,
+    required: true,
+    ref: 'Workspace',
+  },
+  applicationId: {
+    type: String,
+    required: true,
+    ref: 'Application',
+  },
+  environmentId: {
+    type: String,
+    required: true,
+    ref: 'Environment',
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  tokenPrefix: {
+    type: String,
+    required: true,
+  },
+  createdBy: {
+    type: String,
+    required: true,
+    ref: 'User',
+  },
+  lastUsedAt: { type: Date },
+  expiresAt: { type: Date },
+  revokedAt: { type: Date },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: any) {
+      delete ret.tokenHash;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+ScimTokenSchema.index({ workspaceId: 1, revokedAt: 1 });
+
+export const ScimToken = model<IScimToken>('ScimToken', ScimTokenSchema);
+export default ScimToken;
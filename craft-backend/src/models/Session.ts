@@ -0,0 +1,66 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type SessionRevocationReason = 'logout' | 'revoked' | 'reuse_detected' | 'signed_out_everywhere' | 'deprovisioned';
+
+export interface ISession extends Document {
+  _id: string;
+  id: string; // Refresh-token family ID, carried by every token of the session as "sid"
+  userId: string;
+  tokenHash?: string; // SHA-256 of the family's current refresh token; presenting an older one is reuse
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date; // When the current refresh token (or, without one, the access token) expires
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>({
+  id: {
+    type: String,
+    required: true, // Assigned by SessionService, since the first refresh token must carry it
+    unique: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+    ref: 'User'
+  },
+  tokenHash: {
+    type: String, // Absent when refresh tokens are not configured
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+  },
+  ipAddress: {
+    type: String,
+    trim: true,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: { type: Date },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'revoked', 'reuse_detected', 'signed_out_everywhere', 'deprovisioned'],
+  },
+}, {
+  timestamps: true,
+});
+
+// Sessions are removed once their refresh token can no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+SessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 });
+
+export const Session = model<ISession>('Session', SessionSchema);
+export default Session;
@@ -12,6 +12,7 @@ export interface ISubject extends Document {
   status: 'active' | 'inactive';
   permissions: string[];
   children?: string[];
+  attributes?: Record<string, any>; // Further subject attributes for policies, e.g. manager or costCenter
   
   // Hierarchy Context
   workspaceId: string; // Reference to Workspace
@@ -127,6 +128,10 @@ const SubjectSchema = new Schema<ISubject>({
     type: String,
     trim: true,
   }],
+  attributes: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
   metadata: {
     createdBy: {
       type: String,
@@ -193,6 +198,7 @@ SubjectSchema.index({ environmentId: 1, role: 1 });
 SubjectSchema.index({ environmentId: 1, 'metadata.tags': 1 });
 SubjectSchema.index({ globalUserId: 1 }, { sparse: true }); // Cross-environment user lookup
 SubjectSchema.index({ environmentId: 1, createdAt: -1 });
+SubjectSchema.index({ environmentId: 1, 'metadata.externalId': 1 }, { sparse: true });
 SubjectSchema.index({ environmentId: 1, displayName: 'text', email: 'text', description: 'text' });
 
 // Pre-save middleware
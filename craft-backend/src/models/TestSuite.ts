@@ -0,0 +1,183 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type ExpectedDecision = 'Allow' | 'Deny' | 'NotApplicable';
+
+export interface ITestCase {
+  id: string;
+  name: string;
+  subject: string; // Subject ID, email or name
+  action: string; // Action ID or name
+  resource: string; // Resource ID, URI or name
+  environment?: Record<string, any>; // Environment attributes sent with the request
+  expectedDecision: ExpectedDecision;
+}
+
+export interface ITestCaseResult {
+  caseId: string;
+  name: string;
+  expectedDecision: ExpectedDecision;
+  actualDecision: ExpectedDecision;
+  passed: boolean;
+  reason: string;
+  matchedPolicies: string[];
+}
+
+export interface ITestSuiteRun {
+  runAt: Date;
+  runBy: string;
+  total: number;
+  passed: number;
+  failed: number;
+  results: ITestCaseResult[];
+}
+
+export interface ITestSuite extends Document {
+  _id: string;
+  id: string;
+  name: string;
+  description?: string;
+
+  // Hierarchy Context
+  workspaceId: string; // Reference to Workspace
+  applicationId: string; // Reference to Application
+  environmentId: string; // Reference to Environment
+
+  cases: ITestCase[];
+  lastRun?: ITestSuiteRun;
+  metadata: {
+    createdBy: string;
+    lastModifiedBy: string;
+    tags: string[];
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DECISIONS = ['Allow', 'Deny', 'NotApplicable'];
+
+const TestCaseSchema = new Schema<ITestCase>({
+  id: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  subject: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  action: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  resource: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  environment: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  expectedDecision: {
+    type: String,
+    enum: {
+      values: DECISIONS,
+      message: 'Expected decision must be one of: Allow, Deny, NotApplicable',
+    },
+    required: true,
+  },
+}, { _id: false });
+
+const TestCaseResultSchema = new Schema<ITestCaseResult>({
+  caseId: { type: String, required: true },
+  name: { type: String, required: true },
+  expectedDecision: { type: String, enum: DECISIONS, required: true },
+  actualDecision: { type: String, enum: DECISIONS, required: true },
+  passed: { type: Boolean, required: true },
+  reason: { type: String },
+  matchedPolicies: [{ type: String }],
+}, { _id: false });
+
+const TestSuiteSchema = new Schema<ITestSuite>({
+  // Hierarchy Context Fields
+  workspaceId: {
+    type: String,
+    required: [true, 'Workspace ID is required'],
+    index: true,
+    ref: 'Workspace'
+  },
+  applicationId: {
+    type: String,
+    required: [true, 'Application ID is required'],
+    index: true,
+    ref: 'Application'
+  },
+  environmentId: {
+    type: String,
+    required: [true, 'Environment ID is required'],
+    index: true,
+    ref: 'Environment'
+  },
+
+  id: {
+    type: String,
+    required: false, // Generated on save
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100,
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+  },
+  cases: [TestCaseSchema],
+  lastRun: {
+    runAt: { type: Date },
+    runBy: { type: String },
+    total: { type: Number },
+    passed: { type: Number },
+    failed: { type: Number },
+    results: [TestCaseResultSchema],
+  },
+  metadata: {
+    createdBy: {
+      type: String,
+      required: true,
+    },
+    lastModifiedBy: {
+      type: String,
+      required: true,
+    },
+    tags: [{
+      type: String,
+      trim: true,
+    }],
+  },
+}, {
+  timestamps: true,
+});
+
+TestSuiteSchema.index({ environmentId: 1, id: 1 }, { unique: true }); // Unique within environment
+TestSuiteSchema.index({ workspaceId: 1, applicationId: 1, environmentId: 1 }); // Hierarchy navigation
+TestSuiteSchema.index({ environmentId: 1, name: 1 });
+
+// Pre-save middleware to generate id if not provided
+TestSuiteSchema.pre('save', function(next) {
+  if (this.isNew && !this.id) {
+    this.id = `suite-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+  next();
+});
+
+export const TestSuite = model<ITestSuite>('TestSuite', TestSuiteSchema);
+export default TestSuite;
@@ -1,8 +1,9 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcrypt';
-import { IUser } from '@/types';
+import { IUser, IWorkspaceMembership } from '@/types';
 
-export interface UserDocument extends Omit<IUser, '_id'>, Document {
+export interface UserDocument extends Omit<IUser, '_id' | 'workspaceRoles'>, Document {
+  workspaceRoles: Map<string, IWorkspaceMembership>;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
@@ -56,7 +57,7 @@ const UserSchema = new Schema<UserDocument>({
   authProvider: {
     type: String,
     enum: {
-      values: ['local', 'azuread'],
+      values: ['local', 'azuread', 'oidc', 'scim'],
       message: '{VALUE} is not a valid auth provider'
     },
     default: 'local'
@@ -66,6 +67,9 @@ const UserSchema = new Schema<UserDocument>({
     sparse: true,
     unique: true
   },
+  oidcSubject: {
+    type: String
+  },
   lastLoginAt: {
     type: Date
   },
@@ -117,6 +121,7 @@ const UserSchema = new Schema<UserDocument>({
 UserSchema.index({ role: 1, active: 1 });
 UserSchema.index({ department: 1 });
 UserSchema.index({ azureAdId: 1 }, { sparse: true });
+UserSchema.index({ oidcSubject: 1 }, { sparse: true });
 UserSchema.index({ authProvider: 1 });
 
 // Instance methods
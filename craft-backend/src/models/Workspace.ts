@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { WorkspaceRole } from '@/types';
 
 export interface IWorkspaceBranding {
   logo?: string;
@@ -6,10 +7,21 @@ export interface IWorkspaceBranding {
   theme?: 'light' | 'dark' | 'auto';
 }
 
+// OpenID Connect single sign-on through the authorization code flow with PKCE
+export interface IWorkspaceSsoConfiguration {
+  enabled: boolean;
+  issuer: string; // Discovery document is read from {issuer}/.well-known/openid-configuration
+  clientId: string;
+  clientSecret?: string; // Confidential clients only; public clients rely on PKCE alone
+  scopes?: string[]; // Defaults to openid, email and profile
+  claimMappings?: Record<string, string>; // User attribute -> ID token or userinfo claim, dot paths allowed
+  defaultRole?: WorkspaceRole; // Workspace role of users provisioned on their first login
+}
+
 export interface IWorkspaceSettings {
   defaultEnvironment?: string;
-  allowedDomains?: string[];
-  ssoConfiguration?: Record<string, any>;
+  allowedDomains?: string[]; // Email domains allowed to sign in with SSO; SSO is refused when empty
+  ssoConfiguration?: IWorkspaceSsoConfiguration;
   branding?: IWorkspaceBranding;
   notifications?: {
     email: boolean;
@@ -109,6 +121,15 @@ const WorkspaceMetadataSchema = new Schema<IWorkspaceMetadata>({
   }
 }, { _id: false });
 
+// The SSO client secret is write-only: serialized workspaces only say whether one is set.
+// OidcService reads it from the document itself.
+const hideClientSecret = (doc: unknown, ret: any) => {
+  if (ret.settings?.ssoConfiguration?.clientSecret) {
+    ret.settings.ssoConfiguration = { ...ret.settings.ssoConfiguration, clientSecret: undefined, hasClientSecret: true };
+  }
+  return ret;
+};
+
 const WorkspaceSchema = new Schema<IWorkspace>({
   name: { 
     type: String, 
@@ -157,12 +178,13 @@ const WorkspaceSchema = new Schema<IWorkspace>({
   }
 }, {
   timestamps: true,
-  toJSON: { virtuals: true },
-  toObject: { virtuals: true }
+  toJSON: { virtuals: true, transform: hideClientSecret },
+  toObject: { virtuals: true, transform: hideClientSecret }
 });
 
 // Indexes for performance
 WorkspaceSchema.index({ 'metadata.owner': 1, status: 1 });
+WorkspaceSchema.index({ 'settings.allowedDomains': 1 });
 WorkspaceSchema.index({ 'metadata.admins': 1, status: 1 });
 WorkspaceSchema.index({ 'metadata.plan': 1, status: 1 });
 WorkspaceSchema.index({ 'metadata.tags': 1 });
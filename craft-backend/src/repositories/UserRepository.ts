@@ -27,7 +27,7 @@ export class UserRepository implements IRepository<IUser> {
       const users = await query.exec();
       logger.debug(`Found ${users.length} users`);
       
-      return users.map(user => user.toObject()) as IUser[];
+      return users.map(user => user.toObject<IUser>({ flattenMaps: true })) as IUser[];
     } catch (error) {
       logger.error('Error finding users:', error);
       throw error;
@@ -40,7 +40,7 @@ export class UserRepository implements IRepository<IUser> {
       
       if (user) {
         logger.debug(`Found user: ${user.email}`);
-        return user.toObject() as IUser;
+        return user.toObject<IUser>({ flattenMaps: true }) as IUser;
       }
       
       return null;
@@ -57,7 +57,7 @@ export class UserRepository implements IRepository<IUser> {
       
       if (user) {
         logger.debug(`Found user by email: ${email}`);
-        return user.toObject() as IUser;
+        return user.toObject<IUser>({ flattenMaps: true }) as IUser;
       }
       
       return null;
@@ -75,7 +75,7 @@ export class UserRepository implements IRepository<IUser> {
       logger.info(`Created new user: ${savedUser.email}`);
       
       // Return the full user object as per IUser interface
-      return savedUser.toObject() as IUser;
+      return savedUser.toObject<IUser>({ flattenMaps: true }) as IUser;
     } catch (error) {
       logger.error('Error creating user:', error);
       throw error;
@@ -92,7 +92,7 @@ export class UserRepository implements IRepository<IUser> {
 
       if (user) {
         logger.info(`Updated user: ${user.email}`);
-        return user.toObject() as IUser;
+        return user.toObject<IUser>({ flattenMaps: true }) as IUser;
       }
       
       return null;
@@ -126,7 +126,7 @@ export class UserRepository implements IRepository<IUser> {
         .exec();
       
       logger.debug(`Found ${users.length} users with role: ${role}`);
-      return users.map(user => user.toObject()) as IUser[];
+      return users.map(user => user.toObject<IUser>({ flattenMaps: true })) as IUser[];
     } catch (error) {
       logger.error(`Error finding users by role ${role}:`, error);
       throw error;
@@ -141,7 +141,7 @@ export class UserRepository implements IRepository<IUser> {
         .exec();
       
       logger.debug(`Found ${users.length} users in department: ${department}`);
-      return users.map(user => user.toObject()) as IUser[];
+      return users.map(user => user.toObject<IUser>({ flattenMaps: true })) as IUser[];
     } catch (error) {
       logger.error(`Error finding users by department ${department}:`, error);
       throw error;
@@ -178,7 +178,7 @@ export class UserRepository implements IRepository<IUser> {
 
       if (user) {
         logger.info(`${active ? 'Activated' : 'Deactivated'} user: ${user.email}`);
-        return user.toObject() as IUser;
+        return user.toObject<IUser>({ flattenMaps: true }) as IUser;
       }
       
       return null;
@@ -0,0 +1,71 @@
+import express from 'express';
+import request from 'supertest';
+import { Workspace } from '../../models/Workspace';
+import { Application } from '../../models/Application';
+import workspaceRoutes from '../workspaces';
+
+jest.mock('../../middleware/auth', () => ({
+  requireAuth: (req: any, _res: unknown, next: () => void) => {
+    req.user = { _id: '64b7f0c2a1b2c3d4e5f60718', role: 'super_admin', assignedWorkspaces: [] };
+    next();
+  },
+  requireAdminOrSuperAdmin: (_req: unknown, _res: unknown, next: () => void) => next(),
+  requireWorkspaceRole: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+const app = express().use(express.json()).use('/workspaces', workspaceRoutes);
+
+const workspace = new Workspace({
+  name: 'acme',
+  displayName: 'Acme',
+  settings: {
+    allowedDomains: ['example.com'],
+    ssoConfiguration: { enabled: true, issuer: 'https://idp.example.com', clientId: 'craft', clientSecret: 'top-secret' },
+  },
+});
+
+// Stands in for a query: chainable and awaitable
+const query = (result: unknown) => {
+  const chain: any = {
+    populate: () => chain,
+    select: () => chain,
+    sort: () => chain,
+    skip: () => chain,
+    limit: () => chain,
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+};
+
+describe('workspace routes', () => {
+  beforeEach(() => {
+    jest.spyOn(Workspace, 'findOne').mockReturnValue(query(workspace));
+    jest.spyOn(Workspace, 'find').mockReturnValue(query([workspace]));
+    jest.spyOn(Workspace, 'countDocuments').mockResolvedValue(1 as never);
+    jest.spyOn(Application, 'countDocuments').mockResolvedValue(0 as never);
+    jest.spyOn(Application, 'find').mockReturnValue({ lean: async () => [] } as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('never returns the SSO client secret of a workspace', async () => {
+    const response = await request(app).get(`/workspaces/${workspace._id}`).expect(200);
+
+    expect(response.body.data.settings.ssoConfiguration).toMatchObject({ clientId: 'craft', hasClientSecret: true });
+    expect(response.body.data.settings.ssoConfiguration).not.toHaveProperty('clientSecret');
+    expect(JSON.stringify(response.body)).not.toContain('top-secret');
+  });
+
+  it('never returns the SSO client secrets of listed workspaces', async () => {
+    const response = await request(app).get('/workspaces').expect(200);
+
+    expect(response.body.data[0].settings.ssoConfiguration).toMatchObject({ hasClientSecret: true });
+    expect(JSON.stringify(response.body)).not.toContain('top-secret');
+  });
+
+  it('keeps the secret on the document for the OIDC client', () => {
+    expect(workspace.settings?.ssoConfiguration?.clientSecret).toBe('top-secret');
+  });
+});
@@ -1,19 +1,21 @@
 import express from 'express';
 import { ActionController } from '@/controllers/ActionController';
-import { auth, requireAdminOrSuperAdmin } from '@/middleware/auth';
+import { auth, requireAdminPermission, entityTarget } from '@/middleware/auth';
+import { Action } from '@/models/Action';
 
 const router = express.Router();
+const actionTarget = entityTarget(Action);
 
-// Action management routes - view access for all, edit/delete for admins only
+// Action management routes - view access for all, edits decided by the craft-admin policies, then the workspace role of the caller
 router.get('/', auth, ActionController.getActions);
 router.get('/:id', auth, ActionController.getActionById);
-router.post('/', auth, requireAdminOrSuperAdmin, ActionController.createAction);
-router.put('/:id', auth, requireAdminOrSuperAdmin, ActionController.updateAction);
-router.delete('/:id', auth, requireAdminOrSuperAdmin, ActionController.deleteAction);
+router.post('/', auth, requireAdminPermission('create', 'action', 'member'), ActionController.createAction);
+router.put('/:id', auth, requireAdminPermission('update', 'action', 'member', actionTarget), ActionController.updateAction);
+router.delete('/:id', auth, requireAdminPermission('delete', 'action', 'admin', actionTarget), ActionController.deleteAction);
 
-// Bulk operations - admins only
-router.put('/bulk/update', auth, requireAdminOrSuperAdmin, ActionController.bulkUpdateActions);
-router.delete('/bulk/delete', auth, requireAdminOrSuperAdmin, ActionController.bulkDeleteActions);
+// Bulk operations - admins only, limited to the workspaces they administer
+router.put('/bulk/update', auth, requireAdminPermission('update', 'action', 'admin'), ActionController.bulkUpdateActions);
+router.delete('/bulk/delete', auth, requireAdminPermission('delete', 'action', 'admin'), ActionController.bulkDeleteActions);
 
 // Apply authentication middleware to remaining routes
 router.use(auth);
@@ -1,11 +1,13 @@
 import express from 'express';
 import { AdditionalResourceController } from '@/controllers/AdditionalResourceController';
-import { auth, requireAdminOrSuperAdmin } from '@/middleware/auth';
+import { auth, requireAdminPermission, entityTarget } from '@/middleware/auth';
+import AdditionalResource from '@/models/AdditionalResource';
 import { asyncHandler } from '@/middleware/errorHandler';
 
 const router = express.Router();
+const additionalResourceTarget = entityTarget(AdditionalResource);
 
-// Additional Resource management routes - view access for all, edit/delete for admins only
+// Additional Resource management routes - view access for all, edits decided by the craft-admin policies, then the workspace role of the caller
 router.get('/', auth, AdditionalResourceController.getAdditionalResources);
 
 // Specific routes must come before parameterized routes
@@ -13,15 +15,15 @@ router.get('/stats', auth, AdditionalResourceController.getAdditionalResourceSta
 router.post('/:id/evaluate', auth, AdditionalResourceController.evaluateAdditionalResource);
 
 // Attribute management for additional resources
-router.patch('/:id/attributes', auth, requireAdminOrSuperAdmin, AdditionalResourceController.updateAdditionalResourceAttributes);
+router.patch('/:id/attributes', auth, requireAdminPermission('update', 'additional-resource', 'member', additionalResourceTarget), AdditionalResourceController.updateAdditionalResourceAttributes);
 
 router.get('/:id', auth, AdditionalResourceController.getAdditionalResourceById);
-router.post('/', auth, requireAdminOrSuperAdmin, AdditionalResourceController.createAdditionalResource);
-router.put('/:id', auth, requireAdminOrSuperAdmin, AdditionalResourceController.updateAdditionalResource);
-router.delete('/:id', auth, requireAdminOrSuperAdmin, AdditionalResourceController.deleteAdditionalResource);
+router.post('/', auth, requireAdminPermission('create', 'additional-resource', 'member'), AdditionalResourceController.createAdditionalResource);
+router.put('/:id', auth, requireAdminPermission('update', 'additional-resource', 'member', additionalResourceTarget), AdditionalResourceController.updateAdditionalResource);
+router.delete('/:id', auth, requireAdminPermission('delete', 'additional-resource', 'admin', additionalResourceTarget), AdditionalResourceController.deleteAdditionalResource);
 
-// Bulk operations - admins only
-router.delete('/bulk/delete', auth, requireAdminOrSuperAdmin, AdditionalResourceController.bulkDeleteAdditionalResources);
+// Bulk operations - admins only, limited to the workspaces they administer
+router.delete('/bulk/delete', auth, requireAdminPermission('delete', 'additional-resource', 'admin'), AdditionalResourceController.bulkDeleteAdditionalResources);
 
 // Filter routes
 router.get('/type/:type', auth, AdditionalResourceController.getAdditionalResourcesByType);
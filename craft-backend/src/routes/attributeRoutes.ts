@@ -1,16 +1,18 @@
 import express from 'express';
 import { AttributeController } from '@/controllers/AttributeController';
-import { auth, requireAdminOrSuperAdmin } from '@/middleware/auth';
+import { auth, requireAdminPermission, entityTarget } from '@/middleware/auth';
+import { Attribute } from '@/models/Attribute';
 import { asyncHandler } from '@/middleware/errorHandler';
 
 const router = express.Router();
+const attributeTarget = entityTarget(Attribute);
 
-// Attribute management routes - view access for all, edit/delete for admins only
+// Attribute management routes - view access for all, edits decided by the craft-admin policies, then the workspace role of the caller
 router.get('/', auth, AttributeController.getAttributes);
 router.get('/:id', auth, AttributeController.getAttributeById);
-router.post('/', auth, requireAdminOrSuperAdmin, AttributeController.createAttribute);
-router.put('/:id', auth, requireAdminOrSuperAdmin, AttributeController.updateAttribute);
-router.delete('/:id', auth, requireAdminOrSuperAdmin, AttributeController.deleteAttribute);
+router.post('/', auth, requireAdminPermission('create', 'attribute', 'member'), AttributeController.createAttribute);
+router.put('/:id', auth, requireAdminPermission('update', 'attribute', 'member', attributeTarget), AttributeController.updateAttribute);
+router.delete('/:id', auth, requireAdminPermission('delete', 'attribute', 'admin', attributeTarget), AttributeController.deleteAttribute);
 
 // Apply authentication middleware to remaining routes
 router.use(auth);
@@ -23,8 +25,8 @@ router.post('/:id/validate', AttributeController.validateAttributeValue);
 router.get('/category/:category', AttributeController.getAttributesByCategory);
 router.get('/schema/:category', AttributeController.getAttributeSchema);
 
-// Bulk operations - admins only
-router.put('/bulk/update', auth, requireAdminOrSuperAdmin, AttributeController.bulkUpdateAttributes);
-router.delete('/bulk/delete', auth, requireAdminOrSuperAdmin, AttributeController.bulkDeleteAttributes);
+// Bulk operations - admins only, limited to the workspaces they administer
+router.put('/bulk/update', auth, requireAdminPermission('update', 'attribute', 'admin'), AttributeController.bulkUpdateAttributes);
+router.delete('/bulk/delete', auth, requireAdminPermission('delete', 'attribute', 'admin'), AttributeController.bulkDeleteAttributes);
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import { AuthController } from '@/controllers/AuthController';
+import { OidcController } from '@/controllers/OidcController';
 import { requireAuth } from '@/middleware/auth';
 import { validateRequest } from '@/middleware/validation';
 
@@ -69,5 +70,13 @@ router.post('/change-password', requireAuth, changePasswordValidation, validateR
 router.post('/validate-token', authController.validateToken);
 router.get('/profile', requireAuth, authController.getProfile);
 router.post('/logout', requireAuth, authController.logout);
+router.get('/sessions', requireAuth, authController.getSessions);
+router.delete('/sessions', requireAuth, authController.revokeOtherSessions);
+router.delete('/sessions/:id', requireAuth, authController.revokeSession);
+
+// OpenID Connect single sign-on, configured per workspace
+router.get('/oidc/discover', OidcController.discover);
+router.get('/oidc/callback', OidcController.callback);
+router.get('/oidc/:workspace/login', OidcController.login);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,15 @@
+import express from 'express';
+import { BreakGlassController } from '@/controllers/BreakGlassController';
+import { auth, requireAdminPermission, requireWorkspaceRole, workspaceOfEntity } from '@/middleware/auth';
+import { BreakGlassGrant } from '@/models/BreakGlassGrant';
+
+const router = express.Router();
+
+// Workspace members can grant emergency access, subject to the craft-admin policies; workspace admins review it once it has ended
+router.get('/', auth, BreakGlassController.getGrants);
+router.post('/', auth, requireAdminPermission('create', 'break-glass', 'member'), BreakGlassController.createGrant);
+router.get('/:id', auth, BreakGlassController.getGrantById);
+router.post('/:id/revoke', auth, BreakGlassController.revokeGrant);
+router.post('/:id/review', auth, requireWorkspaceRole('admin', workspaceOfEntity(BreakGlassGrant)), BreakGlassController.reviewGrant);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { ChangeRequestController } from '@/controllers/ChangeRequestController';
+import { auth } from '@/middleware/auth';
+
+const router = express.Router();
+
+// Change requests are reviewed by the approvers listed on their environment, whatever their role
+router.get('/', auth, ChangeRequestController.getChangeRequests);
+router.get('/:id', auth, ChangeRequestController.getChangeRequestById);
+router.post('/:id/approve', auth, ChangeRequestController.approveChangeRequest);
+router.post('/:id/reject', auth, ChangeRequestController.rejectChangeRequest);
+router.post('/:id/cancel', auth, ChangeRequestController.cancelChangeRequest);
+
+export default router;
@@ -1,10 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { body, param, validationResult } from 'express-validator';
 import mongoose from 'mongoose';
-import { Environment, IEnvironment } from '../models/Environment';
+import { Environment, IEnvironment, COMBINING_ALGORITHMS } from '../models/Environment';
 import { Workspace } from '../models/Workspace';
 import { Application } from '../models/Application';
 import { requireAuth } from '../middleware/auth';
+import PolicyIndexService from '../services/PolicyIndexService';
 import { ApiResponse, PaginatedResponse } from '../types';
 
 const router = Router({ mergeParams: true });
@@ -48,6 +49,29 @@ const validateEnvironment = [
   body('type')
     .isIn(['development', 'testing', 'staging', 'production', 'preview', 'hotfix'])
     .withMessage('Invalid environment type'),
+  body('combiningAlgorithm')
+    .optional()
+    .isIn(COMBINING_ALGORITHMS)
+    .withMessage('Invalid combining algorithm'),
+  body('promotionRules.requireApproval')
+    .optional()
+    .isBoolean()
+    .withMessage('requireApproval must be a boolean'),
+  body('promotionRules.approvers')
+    .optional()
+    .isArray()
+    .withMessage('Approvers must be an array of user IDs'),
+  body('promotionRules.approvers.*')
+    .isMongoId()
+    .withMessage('Invalid approver ID'),
+  body('promotionRules.autoPromoteFrom')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid source environment ID'),
+  body('promotionRules.requiredApprovals')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('requiredApprovals must be a positive integer'),
   // We don't validate 'name' directly anymore since it's auto-generated from displayName
 ];
 
@@ -217,7 +241,7 @@ router.post('/', requireAuth, validateIds, validateEnvironment, async (req: Requ
 
     const { workspaceId, applicationId } = req.params;
     const userId = (req as any).user._id;
-    const { name, displayName, description, type, configuration, isDefault = false } = req.body;
+    const { name, displayName, description, type, combiningAlgorithm, configuration, isDefault = false } = req.body;
     
     // Generate a valid environment name from display name
     const validEnvName = generateValidEnvName(displayName, name);
@@ -268,6 +292,7 @@ router.post('/', requireAuth, validateIds, validateEnvironment, async (req: Requ
       displayName,
       description,
       type,
+      ...(combiningAlgorithm && { combiningAlgorithm }),
       configuration: configuration || {
         variables: new Map(),
         endpoints: new Map(),
@@ -413,7 +438,7 @@ router.put('/:environmentId', requireAuth, validateIds, validateEnvironment, asy
 
     const { workspaceId, applicationId, environmentId } = req.params;
     const userId = (req as any).user._id;
-    const { name, displayName, description, type, configuration, isDefault = false } = req.body;
+    const { name, displayName, description, type, combiningAlgorithm, configuration, promotionRules, isDefault = false } = req.body;
 
     // Verify access
     const workspace = await Workspace.findOne({
@@ -445,6 +470,21 @@ router.put('/:environmentId', requireAuth, validateIds, validateEnvironment, asy
       });
     }
 
+    // Approval settings for policy changes in this environment
+    const promotionRuleUpdates: Record<string, any> = {};
+    if (promotionRules?.requireApproval !== undefined) {
+      promotionRuleUpdates['metadata.promotionRules.requireApproval'] = promotionRules.requireApproval;
+    }
+    if (promotionRules?.approvers !== undefined) {
+      promotionRuleUpdates['metadata.promotionRules.approvers'] = promotionRules.approvers;
+    }
+    if (promotionRules?.autoPromoteFrom !== undefined) {
+      promotionRuleUpdates['metadata.promotionRules.autoPromoteFrom'] = promotionRules.autoPromoteFrom || null;
+    }
+    if (promotionRules?.requiredApprovals !== undefined) {
+      promotionRuleUpdates['metadata.promotionRules.requiredApprovals'] = promotionRules.requiredApprovals;
+    }
+
     // Check if environment name exists in application (exclude current env)
     const existingEnv = await Environment.findOne({ 
       workspaceId, 
@@ -468,7 +508,9 @@ router.put('/:environmentId', requireAuth, validateIds, validateEnvironment, asy
         displayName,
         description,
         type,
+        ...(combiningAlgorithm && { combiningAlgorithm }),
         configuration,
+        ...promotionRuleUpdates,
         'metadata.lastModifiedBy': userId,
         'metadata.isDefault': isDefault,
         updatedAt: new Date()
@@ -483,6 +525,9 @@ router.put('/:environmentId', requireAuth, validateIds, validateEnvironment, asy
       });
     }
 
+    // The compiled policy index carries the combining algorithm
+    PolicyIndexService.invalidate(environment._id.toString());
+
     const response: ApiResponse<IEnvironment> = {
       success: true,
       data: environment,
@@ -9,6 +9,10 @@ import actionRoutes from './actionRoutes';
 import attributeRoutes from './attributeRoutes';
 import policyRoutes from './policyRoutes';
 import activityRoutes from './activityRoutes';
+import testSuiteRoutes from './testSuiteRoutes';
+import changeRequestRoutes from './changeRequestRoutes';
+import breakGlassRoutes from './breakGlassRoutes';
+import scimRoutes from './scimRoutes';
 
 // New hierarchical routes
 import workspaceRoutes from './workspaces';
@@ -53,6 +57,10 @@ router.get('/info', (req: Request, res: Response) => {
       attributes: `${config.apiPrefix}/attributes`,
       policies: `${config.apiPrefix}/policies`,
       activities: `${config.apiPrefix}/activities`,
+      testSuites: `${config.apiPrefix}/test-suites`,
+      changeRequests: `${config.apiPrefix}/change-requests`,
+      breakGlass: `${config.apiPrefix}/break-glass`,
+      scim: `${config.apiPrefix}/scim/v2`,
     },
   });
 });
@@ -75,5 +83,11 @@ router.use('/actions', actionRoutes);
 router.use('/attributes', attributeRoutes);
 router.use('/policies', policyRoutes);
 router.use('/activities', activityRoutes);
+router.use('/test-suites', testSuiteRoutes);
+router.use('/change-requests', changeRequestRoutes);
+router.use('/break-glass', breakGlassRoutes);
+
+// SCIM 2.0 provisioning by identity providers
+router.use('/scim/v2', scimRoutes);
 
 export default router;
\ No newline at end of file
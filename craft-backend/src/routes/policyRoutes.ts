@@ -1,11 +1,31 @@
 import express from 'express';
 import { PolicyController } from '@/controllers/PolicyController';
-import { auth, requireAdminOrSuperAdmin } from '@/middleware/auth';
+import {
+  auth,
+  requireAdminPermission,
+  requireWorkspaceAccess,
+  entityTarget,
+  workspaceFromRequest,
+  WorkspaceIdResolver,
+} from '@/middleware/auth';
+import { Policy } from '@/models/Policy';
 import { asyncHandler } from '@/middleware/errorHandler';
 
 const router = express.Router();
+const policyTarget = entityTarget(Policy);
 
-// Policy management routes - view access for all, edit/delete for admins only
+// A single policy is evaluated in its own workspace
+const evaluationWorkspace: WorkspaceIdResolver = async (req) => {
+  if (typeof req.body?.policyId === 'string') {
+    const policy = await Policy.findOne({ id: req.body.policyId }).select('workspaceId').lean();
+    return policy?.workspaceId ? String(policy.workspaceId) : undefined;
+  }
+  return workspaceFromRequest(req);
+};
+const evaluationAccess = requireWorkspaceAccess(evaluationWorkspace);
+const workspaceAccess = requireWorkspaceAccess();
+
+// Policy management routes - view access for all, edits decided by the craft-admin policies, then the workspace role of the caller
 // IMPORTANT: Specific routes MUST come before /:id to avoid route matching issues
 router.get('/', auth, PolicyController.getPolicies);
 router.get('/stats', auth, PolicyController.getPolicyStats);
@@ -14,17 +34,50 @@ router.get('/stats', auth, PolicyController.getPolicyStats);
 router.get('/effect/:effect', auth, PolicyController.getPoliciesByEffect);
 router.get('/status/:status', auth, PolicyController.getPoliciesByStatus);
 
-// Policy evaluation - allow all authenticated users
-router.post('/evaluate', auth, PolicyController.evaluatePolicy);
+// Policy evaluation - users assigned to the environment's workspace
+router.post('/evaluate', auth, evaluationAccess, PolicyController.evaluatePolicy);
+router.post('/evaluate/batch', auth, workspaceAccess, PolicyController.evaluatePolicyBatch);
+
+// Access review (reverse queries) - must come before /:id
+router.get('/access/subjects/:subjectId', auth, workspaceAccess, PolicyController.getSubjectAccess);
+router.get('/access/subjects/:subjectId/export', auth, workspaceAccess, PolicyController.exportSubjectAccess);
+router.get('/access/resources/:resourceId', auth, workspaceAccess, PolicyController.getResourceAccess);
+router.get('/access/resources/:resourceId/export', auth, workspaceAccess, PolicyController.exportResourceAccess);
+
+// Static analysis of the environment's rules - must come before /:id
+router.get('/analysis', auth, workspaceAccess, PolicyController.analyzePolicies);
+
+// Upcoming scheduled activations and expiries - must come before /:id
+router.get('/schedule', auth, PolicyController.getScheduledTransitions);
+
+// Bulk operations - admins only, limited to the workspaces they administer - must come before /:id
+router.put('/bulk/update', auth, requireAdminPermission('update', 'policy', 'admin'), PolicyController.bulkUpdatePolicies);
+router.delete('/bulk/delete', auth, requireAdminPermission('delete', 'policy', 'admin'), PolicyController.bulkDeletePolicies);
+
+// Environment promotion - admins of the target workspace only - must come before /:id
+router.post('/promote', auth, requireAdminPermission('promote', 'policy', 'admin'), PolicyController.promotePolicies);
+
+// JSON/YAML bundles - must come before /:id
+router.get('/bundle/export', auth, PolicyController.exportPolicyBundle);
+router.post('/bundle/import', auth, requireAdminPermission('import', 'policy', 'admin'), PolicyController.importPolicyBundle);
+
+// XACML 3.0 and IAM-style conversion - must come before /:id
+router.get('/convert/export', auth, PolicyController.exportConvertedPolicies);
+router.post('/convert/import', auth, requireAdminPermission('import', 'policy', 'admin'), PolicyController.importConvertedPolicies);
+
+// Change impact of an unsaved edit
+router.post('/:id/impact', auth, PolicyController.simulatePolicyImpact);
 
-// Bulk operations - admins only - must come before /:id
-router.put('/bulk/update', auth, requireAdminOrSuperAdmin, PolicyController.bulkUpdatePolicies);
-router.delete('/bulk/delete', auth, requireAdminOrSuperAdmin, PolicyController.bulkDeletePolicies);
+// Revision history - diff must come before /:version
+router.get('/:id/revisions', auth, PolicyController.getPolicyRevisions);
+router.get('/:id/revisions/diff', auth, PolicyController.diffPolicyRevisions);
+router.get('/:id/revisions/:version', auth, PolicyController.getPolicyRevision);
+router.post('/:id/revisions/:version/rollback', auth, requireAdminPermission('rollback', 'policy', 'admin', policyTarget), PolicyController.rollbackPolicy);
 
 // Generic ID routes - MUST come last to avoid catching specific routes
 router.get('/:id', auth, PolicyController.getPolicyById);
-router.post('/', auth, requireAdminOrSuperAdmin, PolicyController.createPolicy);
-router.put('/:id', auth, requireAdminOrSuperAdmin, PolicyController.updatePolicy);
-router.delete('/:id', auth, requireAdminOrSuperAdmin, PolicyController.deletePolicy);
+router.post('/', auth, requireAdminPermission('create', 'policy', 'member'), PolicyController.createPolicy);
+router.put('/:id', auth, requireAdminPermission('update', 'policy', 'member', policyTarget), PolicyController.updatePolicy);
+router.delete('/:id', auth, requireAdminPermission('delete', 'policy', 'admin', policyTarget), PolicyController.deletePolicy);
 
 export default router;
\ No newline at end of file
@@ -1,24 +1,26 @@
 import express from 'express';
 import { ResourceController } from '@/controllers/ResourceController';
-import { auth, requireAdminOrSuperAdmin } from '@/middleware/auth';
+import { auth, requireAdminPermission, entityTarget } from '@/middleware/auth';
+import { Resource } from '@/models/Resource';
 import { asyncHandler } from '@/middleware/errorHandler';
 
 const router = express.Router();
+const resourceTarget = entityTarget(Resource);
 
-// Resource management routes - view access for all, edit/delete for admins only
+// Resource management routes - view access for all, edits decided by the craft-admin policies, then the workspace role of the caller
 router.get('/', auth, ResourceController.getResources);
 
 // Specific routes must come before parameterized routes
 router.get('/dependency-graph', auth, ResourceController.getResourceDependencyGraph);
 
 router.get('/:id', auth, ResourceController.getResourceById);
-router.post('/', auth, requireAdminOrSuperAdmin, ResourceController.createResource);
-router.put('/:id', auth, requireAdminOrSuperAdmin, ResourceController.updateResource);
-router.delete('/:id', auth, requireAdminOrSuperAdmin, ResourceController.deleteResource);
+router.post('/', auth, requireAdminPermission('create', 'resource', 'member'), ResourceController.createResource);
+router.put('/:id', auth, requireAdminPermission('update', 'resource', 'member', resourceTarget), ResourceController.updateResource);
+router.delete('/:id', auth, requireAdminPermission('delete', 'resource', 'admin', resourceTarget), ResourceController.deleteResource);
 
-// Bulk operations - admins only
-router.put('/bulk/update', auth, requireAdminOrSuperAdmin, ResourceController.bulkUpdateResources);
-router.delete('/bulk/delete', auth, requireAdminOrSuperAdmin, ResourceController.bulkDeleteResources);
+// Bulk operations - admins only, limited to the workspaces they administer
+router.put('/bulk/update', auth, requireAdminPermission('update', 'resource', 'admin'), ResourceController.bulkUpdateResources);
+router.delete('/bulk/delete', auth, requireAdminPermission('delete', 'resource', 'admin'), ResourceController.bulkDeleteResources);
 
 // Apply authentication middleware to remaining routes
 router.use(auth);
@@ -34,7 +36,7 @@ router.get('/classification/:classification', ResourceController.getResourcesByC
 // Resource Dependency Management routes
 router.post('/:resourceId/evaluate-access', auth, ResourceController.evaluateResourceAccess);
 router.get('/accessible-resources', auth, ResourceController.getAccessibleResources);
-router.put('/:resourceId/dependencies', auth, requireAdminOrSuperAdmin, ResourceController.updateResourceDependencies);
+router.put('/:resourceId/dependencies', auth, requireAdminPermission('update', 'resource', 'member', entityTarget(Resource, 'resourceId')), ResourceController.updateResourceDependencies);
 router.post('/validate-dependencies', auth, ResourceController.validateResourceDependencies);
 router.get('/:resourceId/dependencies', auth, ResourceController.getResourceDependencies);
 
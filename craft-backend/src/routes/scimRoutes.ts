@@ -0,0 +1,33 @@
+import express from 'express';
+import { ScimController } from '@/controllers/ScimController';
+import { requireScimToken } from '@/middleware/auth';
+
+const router = express.Router();
+
+// Identity providers send SCIM bodies as application/scim+json
+router.use(express.json({ type: ['application/json', 'application/scim+json'], limit: '1mb' }));
+
+// Every endpoint is authenticated with a workspace SCIM token and provisions into its environment
+router.use(requireScimToken);
+
+router.get('/ServiceProviderConfig', ScimController.getServiceProviderConfig);
+router.get('/ResourceTypes', ScimController.getResourceTypes);
+
+router.get('/Users', ScimController.listUsers);
+router.post('/Users', ScimController.createUser);
+router.get('/Users/:id', ScimController.getUser);
+router.put('/Users/:id', ScimController.replaceUser);
+router.patch('/Users/:id', ScimController.patchUser);
+router.delete('/Users/:id', ScimController.deleteUser);
+
+router.get('/Groups', ScimController.listGroups);
+router.post('/Groups', ScimController.createGroup);
+router.get('/Groups/:id', ScimController.getGroup);
+router.put('/Groups/:id', ScimController.replaceGroup);
+router.patch('/Groups/:id', ScimController.patchGroup);
+router.delete('/Groups/:id', ScimController.deleteGroup);
+
+router.use(ScimController.notFound);
+router.use(ScimController.errorHandler);
+
+export default router;
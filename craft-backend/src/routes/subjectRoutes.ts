@@ -1,20 +1,22 @@
 import express from 'express';
 import { SubjectController } from '@/controllers/SubjectController';
-import { auth, requireAdminOrSuperAdmin } from '@/middleware/auth';
+import { auth, requireAdminPermission, entityTarget } from '@/middleware/auth';
+import { Subject } from '@/models/Subject';
 import { asyncHandler } from '@/middleware/errorHandler';
 
 const router = express.Router();
+const subjectTarget = entityTarget(Subject);
 
-// Subject management routes - view access for all, edit/delete for admins only
+// Subject management routes - view access for all, edits decided by the craft-admin policies, then the workspace role of the caller
 router.get('/', auth, SubjectController.getSubjects);
 router.get('/:id', auth, SubjectController.getSubjectById);
-router.post('/', auth, requireAdminOrSuperAdmin, SubjectController.createSubject);
-router.put('/:id', auth, requireAdminOrSuperAdmin, SubjectController.updateSubject);
-router.delete('/:id', auth, requireAdminOrSuperAdmin, SubjectController.deleteSubject);
+router.post('/', auth, requireAdminPermission('create', 'subject', 'member'), SubjectController.createSubject);
+router.put('/:id', auth, requireAdminPermission('update', 'subject', 'member', subjectTarget), SubjectController.updateSubject);
+router.delete('/:id', auth, requireAdminPermission('delete', 'subject', 'admin', subjectTarget), SubjectController.deleteSubject);
 
-// Bulk operations - admins only
-router.put('/bulk/update', auth, requireAdminOrSuperAdmin, SubjectController.bulkUpdateSubjects);
-router.delete('/bulk/delete', auth, requireAdminOrSuperAdmin, SubjectController.bulkDeleteSubjects);
+// Bulk operations - admins only, limited to the workspaces they administer
+router.put('/bulk/update', auth, requireAdminPermission('update', 'subject', 'admin'), SubjectController.bulkUpdateSubjects);
+router.delete('/bulk/delete', auth, requireAdminPermission('delete', 'subject', 'admin'), SubjectController.bulkDeleteSubjects);
 
 // Apply authentication middleware to remaining routes
 router.use(auth);
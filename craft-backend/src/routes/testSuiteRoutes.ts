@@ -0,0 +1,21 @@
+import express from 'express';
+import { TestSuiteController } from '@/controllers/TestSuiteController';
+import { auth, requireWorkspaceRole, workspaceOfEntity } from '@/middleware/auth';
+import { TestSuite } from '@/models/TestSuite';
+
+const router = express.Router();
+const suiteWorkspace = workspaceOfEntity(TestSuite);
+
+// Test suites back the Policy Tester, which is limited to workspace members and above
+router.get('/', auth, requireWorkspaceRole('member'), TestSuiteController.getTestSuites);
+router.get('/:id', auth, requireWorkspaceRole('member', suiteWorkspace), TestSuiteController.getTestSuiteById);
+router.post('/', auth, requireWorkspaceRole('member'), TestSuiteController.createTestSuite);
+router.put('/:id', auth, requireWorkspaceRole('member', suiteWorkspace), TestSuiteController.updateTestSuite);
+router.delete('/:id', auth, requireWorkspaceRole('admin', suiteWorkspace), TestSuiteController.deleteTestSuite);
+
+// Test cases and runs
+router.post('/:id/cases', auth, requireWorkspaceRole('member', suiteWorkspace), TestSuiteController.addTestCase);
+router.delete('/:id/cases/:caseId', auth, requireWorkspaceRole('member', suiteWorkspace), TestSuiteController.removeTestCase);
+router.post('/:id/run', auth, requireWorkspaceRole('member', suiteWorkspace), TestSuiteController.runTestSuite);
+
+export default router;
@@ -18,6 +18,9 @@ router.put('/:id/change-password', auth, requireAdminOrSuperAdmin, UserControlle
 router.put('/:id/toggle-status', auth, requireAdminOrSuperAdmin, UserController.toggleUserStatus);
 router.put('/:id/change-role', auth, requireAdminOrSuperAdmin, UserController.changeUserRole);
 
+// Session management - admins only
+router.post('/:id/sign-out-everywhere', auth, requireAdminOrSuperAdmin, UserController.signOutEverywhere);
+
 // Bulk operations - admins only
 router.put('/bulk/update', auth, requireAdminOrSuperAdmin, UserController.bulkUpdateUsers);
 router.delete('/bulk/delete', auth, requireAdminOrSuperAdmin, UserController.bulkDeleteUsers);
@@ -4,8 +4,11 @@ import { Workspace, IWorkspace } from '../models/Workspace';
 import { Application } from '../models/Application';
 import { Environment } from '../models/Environment';
 import { User } from '../models/User';
-import { requireAuth, requireAdminOrSuperAdmin } from '../middleware/auth';
-import { ApiResponse, PaginatedResponse } from '../types';
+import { requireAuth, requireAdminOrSuperAdmin, requireWorkspaceRole } from '../middleware/auth';
+import { ApiResponse, PaginatedResponse, WorkspaceRole } from '../types';
+import { WORKSPACE_ROLES, hasWorkspaceRole, resolveWorkspaceRole } from '../utils/workspaceRoles';
+import { AppError } from '../exceptions/AppError';
+import scimService from '../services/ScimService';
 
 // Helper function to generate a valid application name from display name
 function generateValidAppName(displayName: string, originalName?: string): string {
@@ -90,6 +93,13 @@ const validateWorkspaceId = [
     .withMessage('Invalid workspace ID format')
 ];
 
+const validateMemberId = [
+  ...validateWorkspaceId,
+  param('userId')
+    .isMongoId()
+    .withMessage('Invalid user ID format')
+];
+
 // GET /api/workspaces/check-exists - Check what workspaces exist in system
 router.get('/check-exists', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -925,9 +935,8 @@ router.put('/:workspaceId', requireAuth, validateWorkspaceId, validateWorkspace,
 
     // Check if user has permission to update
     // Note: Access control is already enforced by the query above (assignedWorkspaces)
-    // Admin users can edit any workspace they can access (assigned workspaces)
-    const hasPermission = userRole === 'super_admin' ||
-                         userRole === 'admin' ||
+    // Workspace admins and owners can edit the workspace
+    const hasPermission = hasWorkspaceRole(resolveWorkspaceRole((req as any).user, workspaceId), 'admin') ||
                          workspace.isOwner(userId) ||
                          workspace.isAdmin(userId);
     
@@ -938,6 +947,23 @@ router.put('/:workspaceId', requireAuth, validateWorkspaceId, validateWorkspace,
       });
     }
 
+    if (settings?.ssoConfiguration) {
+      const { hasClientSecret, ...sso } = settings.ssoConfiguration;
+
+      if (sso.enabled && (!/^https?:\/\/.+/.test(sso.issuer || '') || !sso.clientId)) {
+        return void res.status(400).json({
+          success: false,
+          error: 'Single sign-on requires an issuer URL and a client ID'
+        });
+      }
+
+      // The client secret is never sent to the browser, so one that was not sent again is kept
+      settings.ssoConfiguration = {
+        ...sso,
+        clientSecret: sso.clientSecret || (hasClientSecret ? workspace.settings?.ssoConfiguration?.clientSecret : undefined)
+      };
+    }
+
     // Update fields
     if (displayName) workspace.displayName = displayName;
     if (description !== undefined) workspace.description = description;
@@ -966,7 +992,7 @@ router.put('/:workspaceId', requireAuth, validateWorkspaceId, validateWorkspace,
 });
 
 // DELETE /api/workspaces/:workspaceId - Delete workspace (hard delete)
-router.delete('/:workspaceId', requireAuth, validateWorkspaceId, async (req: Request, res: Response): Promise<void> => {
+router.delete('/:workspaceId', requireAuth, validateWorkspaceId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -1235,7 +1261,7 @@ router.post('/:workspaceId/admins', requireAuth, validateWorkspaceId, async (req
 });
 
 // POST /api/workspaces/:workspaceId/assign-users - Assign users to workspace
-router.post('/:workspaceId/assign-users', requireAuth, requireAdminOrSuperAdmin, validateWorkspaceId, async (req: Request, res: Response): Promise<void> => {
+router.post('/:workspaceId/assign-users', requireAuth, validateWorkspaceId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -1317,7 +1343,7 @@ router.post('/:workspaceId/assign-users', requireAuth, requireAdminOrSuperAdmin,
 });
 
 // POST /api/workspaces/:workspaceId/unassign-users - Remove users from workspace
-router.post('/:workspaceId/unassign-users', requireAuth, requireAdminOrSuperAdmin, validateWorkspaceId, async (req: Request, res: Response): Promise<void> => {
+router.post('/:workspaceId/unassign-users', requireAuth, validateWorkspaceId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -1390,7 +1416,7 @@ router.post('/:workspaceId/unassign-users', requireAuth, requireAdminOrSuperAdmi
 });
 
 // GET /api/workspaces/:workspaceId/users - Get users assigned to workspace
-router.get('/:workspaceId/users', requireAuth, requireAdminOrSuperAdmin, validateWorkspaceId, async (req: Request, res: Response): Promise<void> => {
+router.get('/:workspaceId/users', requireAuth, validateWorkspaceId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -1459,6 +1485,285 @@ router.get('/:workspaceId/users', requireAuth, requireAdminOrSuperAdmin, validat
   }
 });
 
+// Member summary with the role held in the workspace
+const toMember = (user: any, workspaceId: string) => {
+  const membership = user.workspaceRoles instanceof Map
+    ? user.workspaceRoles.get(workspaceId)
+    : user.workspaceRoles?.[workspaceId];
+
+  return {
+    _id: user._id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    department: user.department,
+    workspaceRole: membership?.role,
+    permissions: membership?.permissions || [],
+    joinedAt: membership?.joinedAt,
+  };
+};
+
+// GET /api/workspaces/:workspaceId/members - Get users with a role in the workspace
+router.get('/:workspaceId/members', requireAuth, validateWorkspaceId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({
+        success: false,
+        error: 'Invalid workspace ID',
+        details: errors.array()
+      });
+    }
+
+    const workspaceId = req.params.workspaceId as string;
+
+    const workspace = await Workspace.findOne({ _id: workspaceId, active: true });
+    if (!workspace) {
+      return void res.status(404).json({
+        success: false,
+        error: 'Workspace not found'
+      });
+    }
+
+    const users = await User.find({ [`workspaceRoles.${workspaceId}`]: { $exists: true } })
+      .select('_id name email role department active workspaceRoles')
+      .sort({ name: 1 })
+      .lean();
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: users.map(user => toMember(user, workspaceId)),
+      message: `Found ${users.length} workspace members`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching workspace members:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch workspace members'
+    });
+  }
+});
+
+// PUT /api/workspaces/:workspaceId/members/:userId - Add a member or change their workspace role
+router.put('/:workspaceId/members/:userId', requireAuth, validateMemberId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({
+        success: false,
+        error: 'Invalid workspace or user ID',
+        details: errors.array()
+      });
+    }
+
+    const workspaceId = req.params.workspaceId as string;
+    const { userId } = req.params;
+    const { role, permissions } = req.body;
+
+    if (!WORKSPACE_ROLES.includes(role)) {
+      return void res.status(400).json({
+        success: false,
+        error: `Role must be one of: ${WORKSPACE_ROLES.join(', ')}`
+      });
+    }
+    if (permissions !== undefined && (!Array.isArray(permissions) || permissions.some((p: unknown) => typeof p !== 'string'))) {
+      return void res.status(400).json({
+        success: false,
+        error: 'Permissions must be an array of strings'
+      });
+    }
+
+    const workspace = await Workspace.findOne({ _id: workspaceId, active: true });
+    const user = await User.findById(userId);
+    if (!workspace || !user) {
+      return void res.status(404).json({
+        success: false,
+        error: workspace ? 'User not found' : 'Workspace not found'
+      });
+    }
+
+    // Only owners can grant ownership or change another owner's role
+    const existing = user.workspaceRoles?.get(workspaceId);
+    const callerRole = resolveWorkspaceRole((req as any).user, workspaceId);
+    if ((role === 'owner' || existing?.role === 'owner') && callerRole !== 'owner') {
+      return void res.status(403).json({
+        success: false,
+        error: 'Only workspace owners can manage owners'
+      });
+    }
+
+    user.workspaceRoles.set(workspaceId, {
+      role: role as WorkspaceRole,
+      permissions: permissions ?? existing?.permissions ?? [],
+      joinedAt: existing?.joinedAt ?? new Date(),
+    });
+    // Members need the workspace assignment to see it
+    if (!user.assignedWorkspaces?.includes(workspaceId)) {
+      user.assignedWorkspaces = [...(user.assignedWorkspaces || []), workspaceId];
+    }
+    await user.save();
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: toMember(user, workspaceId),
+      message: `${user.name} is now ${role} of ${workspace.displayName}`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating workspace member:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update workspace member'
+    });
+  }
+});
+
+// DELETE /api/workspaces/:workspaceId/members/:userId - Remove a member from the workspace
+router.delete('/:workspaceId/members/:userId', requireAuth, validateMemberId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({
+        success: false,
+        error: 'Invalid workspace or user ID',
+        details: errors.array()
+      });
+    }
+
+    const workspaceId = req.params.workspaceId as string;
+    const { userId } = req.params;
+
+    const user = await User.findById(userId);
+    const existing = user?.workspaceRoles?.get(workspaceId);
+    if (!user || !existing) {
+      return void res.status(404).json({
+        success: false,
+        error: 'Workspace member not found'
+      });
+    }
+
+    if (existing.role === 'owner' && resolveWorkspaceRole((req as any).user, workspaceId) !== 'owner') {
+      return void res.status(403).json({
+        success: false,
+        error: 'Only workspace owners can manage owners'
+      });
+    }
+
+    user.workspaceRoles.delete(workspaceId);
+    user.assignedWorkspaces = (user.assignedWorkspaces || []).filter(id => id !== workspaceId);
+    await user.save();
+
+    const response: ApiResponse = {
+      success: true,
+      message: `${user.name} has been removed from the workspace`
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error removing workspace member:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove workspace member'
+    });
+  }
+});
+
+const validateScimTokenId = [
+  ...validateWorkspaceId,
+  param('tokenId')
+    .isMongoId()
+    .withMessage('Invalid token ID format')
+];
+
+// Service errors keep their status; anything else is a server error
+const sendScimTokenError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof AppError) {
+    return void res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+// GET /api/workspaces/:workspaceId/scim-tokens - List the tokens identity providers provision with
+router.get('/:workspaceId/scim-tokens', requireAuth, validateWorkspaceId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({
+        success: false,
+        error: 'Invalid workspace ID',
+        details: errors.array()
+      });
+    }
+
+    const tokens = await scimService.listTokens(req.params.workspaceId as string);
+
+    res.json({
+      success: true,
+      data: tokens,
+      message: `Found ${tokens.length} SCIM tokens`
+    });
+  } catch (error) {
+    sendScimTokenError(res, error, 'Failed to fetch SCIM tokens');
+  }
+});
+
+// POST /api/workspaces/:workspaceId/scim-tokens - Create a SCIM token for one environment; the token is only returned here
+router.post('/:workspaceId/scim-tokens', requireAuth, validateWorkspaceId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({
+        success: false,
+        error: 'Invalid workspace ID',
+        details: errors.array()
+      });
+    }
+
+    const { name, environmentId, expiresInDays } = req.body;
+    const userId = (req as any).user._id?.toString() || (req as any).user.id;
+    const { token, scimToken } = await scimService.createToken(
+      req.params.workspaceId as string,
+      { name, environmentId, expiresInDays },
+      userId
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { ...scimToken.toJSON(), token },
+      message: 'SCIM token created. Copy it now; it will not be shown again.'
+    });
+  } catch (error) {
+    sendScimTokenError(res, error, 'Failed to create SCIM token');
+  }
+});
+
+// DELETE /api/workspaces/:workspaceId/scim-tokens/:tokenId - Revoke a SCIM token
+router.delete('/:workspaceId/scim-tokens/:tokenId', requireAuth, validateScimTokenId, requireWorkspaceRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return void res.status(400).json({
+        success: false,
+        error: 'Invalid workspace or token ID',
+        details: errors.array()
+      });
+    }
+
+    await scimService.revokeToken(req.params.workspaceId as string, req.params.tokenId as string);
+
+    res.json({
+      success: true,
+      message: 'SCIM token revoked'
+    });
+  } catch (error) {
+    sendScimTokenError(res, error, 'Failed to revoke SCIM token');
+  }
+});
+
 // GET /api/workspaces/:workspaceId/applications - Get applications for a workspace
 router.get('/:workspaceId/applications', requireAuth, validateWorkspaceId, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+export interface MockOidcIssuerOptions {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // When set, the token endpoint requires it
+  email: string; // Identity every login signs in as, unless the login_hint names another
+  claims?: Record<string, any>; // Extra claims, e.g. department or groups
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+}
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('base64url');
+
+/**
+ * A minimal OpenID Provider for trying out single sign-on locally: discovery, JWKS, an
+ * authorization endpoint that signs in without a prompt, a token endpoint that checks PKCE,
+ * and userinfo. Not for production use.
+ */
+export function createMockOidcIssuer(options: MockOidcIssuerOptions) {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const keyId = `mock-${crypto.randomUUID()}`;
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, Record<string, any>>();
+
+  const claimsFor = (email: string): Record<string, any> => ({
+    sub: sha256(email).slice(0, 24),
+    email,
+    email_verified: true,
+    name: email.split('@')[0]!.split(/[._-]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' '),
+    ...(options.claims || {}),
+  });
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+    res.json({
+      issuer: options.issuer,
+      authorization_endpoint: `${options.issuer}/authorize`,
+      token_endpoint: `${options.issuer}/token`,
+      userinfo_endpoint: `${options.issuer}/userinfo`,
+      jwks_uri: `${options.issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    });
+  });
+
+  app.get('/jwks', (req: Request, res: Response) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }] });
+  });
+
+  app.get('/authorize', (req: Request, res: Response) => {
+    const query = req.query as Record<string, string | undefined>;
+
+    if (query.response_type !== 'code' || query.client_id !== options.clientId || !query.redirect_uri) {
+      return void res.status(400).send('Invalid authorization request');
+    }
+    if (!query.code_challenge || query.code_challenge_method !== 'S256') {
+      return void res.status(400).send('PKCE with S256 is required');
+    }
+
+    const code = crypto.randomBytes(24).toString('base64url');
+    codes.set(code, {
+      clientId: query.client_id,
+      redirectUri: query.redirect_uri,
+      codeChallenge: query.code_challenge,
+      nonce: query.nonce,
+      email: query.login_hint || options.email,
+    });
+
+    const redirect = new URL(query.redirect_uri);
+    redirect.searchParams.set('code', code);
+    if (query.state) redirect.searchParams.set('state', query.state);
+    res.redirect(302, redirect.toString());
+  });
+
+  app.post('/token', (req: Request, res: Response) => {
+    const { grant_type: grantType, code, redirect_uri: redirectUri, code_verifier: codeVerifier } = req.body;
+    const [basicId, basicSecret] = req.headers.authorization?.startsWith('Basic ')
+      ? Buffer.from(req.headers.authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+      : [];
+    const clientId = basicId || req.body.client_id;
+    const clientSecret = basicSecret || req.body.client_secret;
+
+    const pending = codes.get(code);
+    codes.delete(code);
+
+    if (grantType !== 'authorization_code' || !pending) {
+      return void res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown or used authorization code' });
+    }
+    if (clientId !== pending.clientId || (options.clientSecret && clientSecret !== options.clientSecret)) {
+      return void res.status(401).json({ error: 'invalid_client' });
+    }
+    if (redirectUri !== pending.redirectUri) {
+      return void res.status(400).json({ error: 'invalid_grant', error_description: 'redirect_uri does not match' });
+    }
+    if (!codeVerifier || sha256(codeVerifier) !== pending.codeChallenge) {
+      return void res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const claims = claimsFor(pending.email);
+    const accessToken = crypto.randomBytes(24).toString('base64url');
+    accessTokens.set(accessToken, claims);
+
+    const idToken = jwt.sign({ ...claims, ...(pending.nonce && { nonce: pending.nonce }) }, privateKey, {
+      algorithm: 'RS256',
+      keyid: keyId,
+      issuer: options.issuer,
+      audience: pending.clientId,
+      expiresIn: '5m',
+    });
+
+    res.json({ token_type: 'Bearer', access_token: accessToken, id_token: idToken, expires_in: 300 });
+  });
+
+  app.get('/userinfo', (req: Request, res: Response) => {
+    const claims = accessTokens.get(req.headers.authorization?.replace(/^Bearer /, '') || '');
+    if (!claims) {
+      return void res.status(401).json({ error: 'invalid_token' });
+    }
+    res.json(claims);
+  });
+
+  return app;
+}
+
+// Run the issuer if this file is executed directly
+if (require.main === module) {
+  const port = Number(process.env.MOCK_OIDC_PORT || 4010);
+  const issuer = `http://localhost:${port}`;
+  const options: MockOidcIssuerOptions = {
+    issuer,
+    clientId: process.env.MOCK_OIDC_CLIENT_ID || 'craft',
+    ...(process.env.MOCK_OIDC_CLIENT_SECRET && { clientSecret: process.env.MOCK_OIDC_CLIENT_SECRET }),
+    email: process.env.MOCK_OIDC_EMAIL || 'jane.doe@example.com',
+    claims: process.env.MOCK_OIDC_CLAIMS ? JSON.parse(process.env.MOCK_OIDC_CLAIMS) : { department: 'Engineering' },
+  };
+
+  createMockOidcIssuer(options).listen(port, () => {
+    console.log(`Mock OpenID Provider listening on ${issuer}, signing in as ${options.email}`);
+    console.log(`Workspace settings.ssoConfiguration: ${JSON.stringify({ enabled: true, issuer, clientId: options.clientId })}`);
+  });
+}
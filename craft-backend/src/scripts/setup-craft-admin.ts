@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+import { User } from '../models/User';
+import { Workspace } from '../models/Workspace';
+import { Application } from '../models/Application';
+import { Environment } from '../models/Environment';
+import { Policy } from '../models/Policy';
+import PolicyChangeService from '../services/PolicyChangeService';
+
+const APPLICATION_NAME = 'craft';
+const EXAMPLE_POLICY_ID = 'craft-admin-finance-policies';
+
+/**
+ * Provisions the system workspace and craft-admin environment whose policies govern CRAFT's
+ * own management API, owned by the first super admin. Safe to run again. The example policy
+ * is created as a Draft, so access is unchanged until an admin policy is activated.
+ */
+async function setupCraftAdmin() {
+  try {
+    await mongoose.connect(config.mongodb.uri);
+    logger.info('Connected to MongoDB for craft-admin setup');
+
+    const owner = await User.findOne({ role: 'super_admin', active: true }).sort({ createdAt: 1 });
+    if (!owner) {
+      throw new Error('A super admin is required to own the craft-admin environment');
+    }
+
+    const ownership = { owner: owner._id, createdBy: owner._id, lastModifiedBy: owner._id };
+    const { workspace: workspaceName, environment: environmentName } = config.adminPolicies;
+
+    const workspace = await Workspace.findOne({ name: workspaceName }) ?? await Workspace.create({
+      name: workspaceName,
+      displayName: 'CRAFT System',
+      description: 'Policies that govern administration of CRAFT itself',
+      status: 'active',
+      metadata: { ...ownership, admins: [owner._id], tags: ['system'], isSystem: true },
+    });
+    const workspaceId = String(workspace._id);
+
+    const application = await Application.findOne({ workspaceId, name: APPLICATION_NAME }) ?? await Application.create({
+      workspaceId,
+      name: APPLICATION_NAME,
+      displayName: 'CRAFT',
+      description: 'The CRAFT management API',
+      type: 'api',
+      status: 'active',
+      metadata: { ...ownership, maintainers: [owner._id], tags: ['system'] },
+    });
+    const applicationId = String(application._id);
+
+    const environment = await Environment.findOne({ workspaceId, applicationId, name: environmentName }) ?? await Environment.create({
+      workspaceId,
+      applicationId,
+      name: environmentName,
+      displayName: 'CRAFT Admin',
+      description: 'Decides who may create, update and delete policies and entities in every workspace',
+      type: 'production',
+      status: 'active',
+      combiningAlgorithm: 'deny-overrides',
+      metadata: { ...ownership, tags: ['system'], isDefault: true },
+    });
+    const environmentId = String(environment._id);
+    logger.info(`craft-admin environment: ${workspaceName}/${APPLICATION_NAME}/${environmentName} (${environmentId})`);
+
+    if (!await Policy.exists({ id: EXAMPLE_POLICY_ID })) {
+      // Subject attributes are the caller's user attributes; resource attributes describe the entity acted on
+      await PolicyChangeService.create({
+        id: EXAMPLE_POLICY_ID,
+        name: 'Finance admins may only edit Finance-tagged policies',
+        description: 'Example admin policy. Activate it to restrict the Finance department to policies tagged Finance.',
+        effect: 'Deny',
+        status: 'Draft',
+        priority: 0,
+        rules: ['create', 'update', 'delete'].map((action, index) => ({
+          id: `rule-${Date.now()}-${index}`,
+          subject: { type: '*', attributes: [{ name: 'department', operator: 'equals', value: 'Finance' }] },
+          action: { name: action, displayName: action },
+          object: { type: 'policy', attributes: [{ name: 'tags', operator: 'not_includes', value: ['Finance'] }] },
+          conditions: [],
+        })),
+        subjects: [],
+        actions: ['create', 'update', 'delete'],
+        resources: ['policy'],
+        additionalResources: [],
+        conditions: [],
+        workspaceId,
+        applicationId,
+        environmentId,
+        metadata: {
+          createdBy: owner.email,
+          lastModifiedBy: owner.email,
+          tags: ['craft-admin', 'example'],
+          version: '1.0.0',
+          isSystem: true,
+          isCustom: false,
+        },
+      }, owner.email);
+      logger.info('Created example admin policy (Draft)');
+    }
+
+    logger.info('craft-admin setup completed successfully');
+  } catch (error) {
+    logger.error('Error setting up craft-admin:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+    logger.info('Database connection closed');
+  }
+}
+
+// Run the setup if this file is executed directly
+if (require.main === module) {
+  setupCraftAdmin();
+}
+
+export default setupCraftAdmin;
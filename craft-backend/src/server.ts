@@ -18,6 +18,9 @@ import { errorHandler, notFoundHandler } from '@/middleware/errorHandler';
 // Import routes
 import routes from '@/routes';
 
+// Import background services
+import PolicySchedulerService from '@/services/PolicySchedulerService';
+
 class Server {
   private app: express.Application;
   private readonly port: number;
@@ -106,6 +109,11 @@ class Server {
     try {
       // Connect to database
       await databaseConnection.connect();
+
+      // Apply scheduled policy activations and expiries in the background
+      if (config.policyScheduler.enabled) {
+        PolicySchedulerService.start(config.policyScheduler.intervalMs);
+      }
       
       // Create HTTP server with increased header size limits to prevent 431 errors
       const server = http.createServer(this.app);
@@ -153,6 +161,8 @@ class Server {
       logger.info(`Received ${signal}. Starting graceful shutdown...`);
       
       try {
+        PolicySchedulerService.stop();
+
         // Close database connection
         await databaseConnection.disconnect();
         logger.info('Database connection closed');
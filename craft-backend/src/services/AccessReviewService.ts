@@ -0,0 +1,152 @@
+import PolicyEvaluationService, { CombiningAlgorithm, Decision, EvaluationScope, EvaluationSnapshot } from './PolicyEvaluationService';
+import { NotFoundError, ValidationError } from '../exceptions/AppError';
+
+// Most combinations one review evaluates; larger environments must narrow it with the action filter
+export const MAX_REVIEW_COMBINATIONS = 100000;
+
+export interface AccessEntityRef {
+  id: string;
+  name: string;
+  displayName?: string;
+}
+
+export interface AccessEntry {
+  subject: AccessEntityRef;
+  action: AccessEntityRef;
+  resource: AccessEntityRef;
+  decision: Exclude<Decision, 'NotApplicable'>;
+  reason: string;
+  matchedPolicies: string[];
+}
+
+export interface AccessReviewFilters {
+  action?: string;
+  decision?: string;
+}
+
+export interface AccessReviewResult {
+  entity: AccessEntityRef;
+  entries: AccessEntry[];
+  evaluatedPolicies: number;
+  evaluatedCombinations: number;
+  combiningAlgorithm: CombiningAlgorithm;
+  snapshotAt: Date;
+}
+
+const toRef = (document: any): AccessEntityRef => ({
+  id: document.id,
+  name: document.name,
+  displayName: document.displayName,
+});
+
+// Snapshot maps index each entity under several keys
+const entitiesOf = (index: Map<string, any>): any[] => [...new Set(index.values())];
+
+const findEntity = (index: Map<string, any>, id: string): any =>
+  entitiesOf(index).find(entity => entity.id === id);
+
+/**
+ * Answers reverse access queries by evaluating every combination of the environment's
+ * subjects, actions and resources that involves the queried entity
+ */
+export class AccessReviewService {
+  /**
+   * Which actions on which resources is a subject allowed or denied?
+   */
+  async getSubjectAccess(scope: EvaluationScope, subjectId: string, filters: AccessReviewFilters = {}): Promise<AccessReviewResult> {
+    const snapshot = await PolicyEvaluationService.createEnvironmentSnapshot(scope);
+    const subject = findEntity(snapshot.subjects, subjectId);
+
+    if (!subject) {
+      throw new NotFoundError('Subject not found');
+    }
+
+    const resources = [...entitiesOf(snapshot.resources), ...entitiesOf(snapshot.additionalResources)];
+    const actions = this.actionsFor(snapshot, filters);
+    this.assertReviewSize(actions.length * resources.length);
+    const combinations = actions.flatMap(action =>
+      resources.map(resource => ({ subject, action, resource }))
+    );
+
+    return this.review(snapshot, toRef(subject), combinations, filters);
+  }
+
+  /**
+   * Which subjects can perform which actions on a resource?
+   */
+  async getResourceAccess(scope: EvaluationScope, resourceId: string, filters: AccessReviewFilters = {}): Promise<AccessReviewResult> {
+    const snapshot = await PolicyEvaluationService.createEnvironmentSnapshot(scope);
+    const resource = findEntity(snapshot.resources, resourceId) || findEntity(snapshot.additionalResources, resourceId);
+
+    if (!resource) {
+      throw new NotFoundError('Resource not found');
+    }
+
+    const subjects = entitiesOf(snapshot.subjects);
+    const actions = this.actionsFor(snapshot, filters);
+    this.assertReviewSize(actions.length * subjects.length);
+    const combinations = actions.flatMap(action =>
+      subjects.map(subject => ({ subject, action, resource }))
+    );
+
+    return this.review(snapshot, toRef(resource), combinations, filters);
+  }
+
+  private actionsFor(snapshot: EvaluationSnapshot, filters: AccessReviewFilters): any[] {
+    const actions = entitiesOf(snapshot.actions);
+    return filters.action
+      ? actions.filter(action => action.id === filters.action || action.name === filters.action)
+      : actions;
+  }
+
+  // Checked before any combination is built or evaluated
+  private assertReviewSize(combinations: number): void {
+    if (combinations > MAX_REVIEW_COMBINATIONS) {
+      throw new ValidationError(
+        `Access review would evaluate ${combinations} combinations, more than the limit of ${MAX_REVIEW_COMBINATIONS}; filter by action to narrow it`
+      );
+    }
+  }
+
+  private review(
+    snapshot: EvaluationSnapshot,
+    entity: AccessEntityRef,
+    combinations: Array<{ subject: any; action: any; resource: any }>,
+    filters: AccessReviewFilters
+  ): AccessReviewResult {
+    const entries: AccessEntry[] = [];
+
+    combinations.forEach(({ subject, action, resource }) => {
+      const result = PolicyEvaluationService.evaluateWithSnapshot(snapshot, {
+        subject: subject.id,
+        action: action.id,
+        resource: resource.id,
+      });
+
+      // Combinations no policy speaks to are not access, granted or denied, even where the
+      // combining algorithm turns them into a default Deny
+      if (result.decision === 'NotApplicable' || result.matchedPolicies.length === 0) return;
+      if (filters.decision && result.decision !== filters.decision) return;
+
+      entries.push({
+        subject: toRef(subject),
+        action: toRef(action),
+        resource: toRef(resource),
+        decision: result.decision,
+        reason: result.reason,
+        matchedPolicies: result.matchedPolicies,
+      });
+    });
+
+    return {
+      entity,
+      entries,
+      evaluatedPolicies: snapshot.policies.length,
+      evaluatedCombinations: combinations.length,
+      combiningAlgorithm: snapshot.combiningAlgorithm,
+      snapshotAt: snapshot.createdAt,
+    };
+  }
+}
+
+export default new AccessReviewService();
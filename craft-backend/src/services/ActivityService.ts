@@ -0,0 +1,37 @@
+import { Activity, IActivity } from '../models/Activity';
+import { Workspace } from '../models/Workspace';
+import { Application } from '../models/Application';
+import { Environment } from '../models/Environment';
+
+export type ActivityEntry = Pick<IActivity,
+  'type' | 'category' | 'action' | 'resource' | 'actor' | 'description' | 'severity'
+  | 'workspaceId' | 'applicationId' | 'environmentId' | 'target' | 'metadata' | 'tags'
+>;
+
+/**
+ * Records activities raised by the backend itself, resolving the hierarchy names shown in the
+ * activity log from the entry's workspace, application and environment
+ */
+export class ActivityService {
+  async record(entry: ActivityEntry): Promise<void> {
+    const [workspace, application, environment] = await Promise.all([
+      Workspace.findById(entry.workspaceId).select('name displayName').lean(),
+      Application.findById(entry.applicationId).select('name displayName').lean(),
+      Environment.findById(entry.environmentId).select('name displayName').lean(),
+    ]);
+
+    await Activity.create({
+      ...entry,
+      timestamp: new Date(),
+      hierarchyContext: {
+        workspaceName: workspace?.displayName || workspace?.name || entry.workspaceId,
+        applicationName: application?.displayName || application?.name || entry.applicationId,
+        environmentName: environment?.displayName || environment?.name || entry.environmentId,
+        crossEnvironmentActivity: false,
+      },
+      metadata: { status: 'success', ...entry.metadata },
+    });
+  }
+}
+
+export default new ActivityService();
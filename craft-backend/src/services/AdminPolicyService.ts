@@ -0,0 +1,112 @@
+import { Types } from 'mongoose';
+import { Workspace } from '../models/Workspace';
+import { Environment } from '../models/Environment';
+import { config } from '../config/environment';
+import { IUser } from '../types';
+import { resolveWorkspaceRole } from '../utils/workspaceRoles';
+import PolicyEvaluationService, { DecisionResult, EvaluationScope } from './PolicyEvaluationService';
+
+// How long the location of the system environment is remembered
+const SCOPE_TTL_MS = 60 * 1000;
+
+export interface AdminAccessRequest {
+  user: Omit<IUser, 'password'>;
+  action: string; // e.g. create, update, delete, promote, import
+  resourceType: string; // e.g. policy, subject, resource
+  workspaceId?: string; // Workspace the action targets
+  target?: Record<string, any>; // Attributes of the entity acted on, e.g. its name and tags
+}
+
+/**
+ * CRAFT evaluating its own management API: administrative actions are access requests
+ * against the policies of a system "craft-admin" environment. The caller is the subject,
+ * described by their user attributes and their role in the target workspace; the resource
+ * is the kind of entity acted on, described by the entity's attributes and its workspace.
+ */
+export class AdminPolicyService {
+  private cache?: { scope: EvaluationScope | null; expiresAt: number };
+
+  /**
+   * Workspace, application and environment of the system environment, or null when it
+   * has not been provisioned
+   */
+  async getScope(): Promise<EvaluationScope | null> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.scope;
+    }
+
+    const { workspace: workspaceName, environment: environmentName } = config.adminPolicies;
+    const workspace = await Workspace.findOne({ name: workspaceName, active: true }).select('_id').lean();
+    const environment = workspace
+      ? await Environment.findOne({ workspaceId: String(workspace._id), name: environmentName, active: true })
+        .select('_id workspaceId applicationId')
+        .lean()
+      : null;
+
+    const scope = environment
+      ? {
+        workspaceId: String(environment.workspaceId),
+        applicationId: String(environment.applicationId),
+        environmentId: String(environment._id),
+      }
+      : null;
+
+    this.cache = { scope, expiresAt: Date.now() + SCOPE_TTL_MS };
+    return scope;
+  }
+
+  invalidate(): void {
+    this.cache = undefined;
+  }
+
+  async isSystemWorkspace(workspaceId?: string): Promise<boolean> {
+    if (!workspaceId) return false;
+    const scope = await this.getScope();
+    return scope?.workspaceId === workspaceId;
+  }
+
+  /**
+   * Evaluates an administrative action against the Active policies of the system
+   * environment. Returns null when the environment has not been provisioned.
+   */
+  async authorize(request: AdminAccessRequest): Promise<DecisionResult | null> {
+    const scope = await this.getScope();
+    if (!scope) return null;
+
+    const { user, action, resourceType, workspaceId, target = {} } = request;
+    const workspace = workspaceId && Types.ObjectId.isValid(workspaceId)
+      ? await Workspace.findById(workspaceId).select('name metadata.tags').lean()
+      : null;
+
+    return PolicyEvaluationService.evaluate({
+      ...scope,
+      // Users are identified by email, so subjects stored in the system environment (and their groups) apply
+      subject: {
+        id: user.email,
+        attributes: {
+          ...(user.attributes || {}),
+          userId: user._id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          department: user.department,
+          workspaceRole: resolveWorkspaceRole(user, workspaceId),
+        },
+      },
+      action,
+      resource: {
+        id: resourceType,
+        attributes: {
+          ...target,
+          type: resourceType,
+          workspaceId,
+          workspace: workspace?.name,
+          workspaceTags: workspace?.metadata?.tags || [],
+        },
+      },
+      environment: { workspaceId },
+    });
+  }
+}
+
+export default new AdminPolicyService();
@@ -5,6 +5,7 @@ import { UserRepository } from '@/repositories/UserRepository';
 import { IUser, ILoginRequest, ILoginResponse, IServiceResult, IJWTPayload } from '@/types';
 import { AuthenticationError, ValidationError, ConflictError } from '@/exceptions/AppError';
 import { logger } from '@/utils/logger';
+import sessionService, { SessionContext } from '@/services/SessionService';
 
 export class AuthService {
   private userRepository: UserRepository;
@@ -13,7 +14,7 @@ export class AuthService {
     this.userRepository = new UserRepository();
   }
 
-  async login(loginData: ILoginRequest): Promise<IServiceResult<ILoginResponse>> {
+  async login(loginData: ILoginRequest, context: SessionContext = {}): Promise<IServiceResult<ILoginResponse>> {
     try {
       const { email, password } = loginData;
 
@@ -28,6 +29,11 @@ export class AuthService {
         throw new AuthenticationError('Account is inactive');
       }
 
+      // Users provisioned through single sign-on have no password
+      if (!user.password) {
+        throw new AuthenticationError('This account signs in with single sign-on');
+      }
+
       // Verify password
       const isValidPassword = await bcrypt.compare(password, user.password);
       
@@ -35,9 +41,8 @@ export class AuthService {
         throw new AuthenticationError('Invalid email or password');
       }
 
-      // Generate tokens
-      const token = this.generateToken(user);
-      const refreshToken = this.generateRefreshToken(user);
+      // Start a session and issue its first tokens
+      const { token, refreshToken } = await sessionService.issue(user, context);
 
       // Remove password from response
       const { password: _, ...userWithoutPassword } = user;
@@ -108,22 +113,12 @@ export class AuthService {
     }
   }
 
-  async refreshToken(refreshToken: string): Promise<IServiceResult<{ token: string; refreshToken: string }>> {
+  async refreshToken(
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<IServiceResult<{ token: string; refreshToken: string }>> {
     try {
-      if (!config.jwt.refreshSecret) {
-        throw new AuthenticationError('Refresh token functionality not configured');
-      }
-
-      const decoded = jwt.verify(refreshToken, config.jwt.refreshSecret) as IJWTPayload;
-      
-      const user = await this.userRepository.findById(decoded.userId);
-      
-      if (!user || !user.active) {
-        throw new AuthenticationError('User not found or inactive');
-      }
-
-      const newToken = this.generateToken(user);
-      const newRefreshToken = this.generateRefreshToken(user);
+      const { token: newToken, refreshToken: newRefreshToken } = await sessionService.rotate(refreshToken, context);
 
       return {
         success: true,
@@ -186,6 +181,10 @@ export class AuthService {
   async validateToken(token: string): Promise<IServiceResult<Omit<IUser, 'password'>>> {
     try {
       const decoded = jwt.verify(token, config.jwt.secret) as IJWTPayload;
+
+      if (await sessionService.isRevoked(decoded)) {
+        throw new AuthenticationError('Token has been revoked');
+      }
       
       const user = await this.userRepository.findById(decoded.userId);
       
@@ -206,46 +205,7 @@ export class AuthService {
     }
   }
 
-  private generateToken(user: IUser): string {
-    const payload: IJWTPayload = {
-      userId: user._id!,
-      email: user.email,
-      role: user.role,
-    };
-
-    return jwt.sign(payload, config.jwt.secret, {
-      expiresIn: config.jwt.expiresIn,
-    });
-  }
-
-  private generateRefreshToken(user: IUser): string {
-    if (!config.jwt.refreshSecret) {
-      return '';
-    }
-
-    const payload: IJWTPayload = {
-      userId: user._id!,
-      email: user.email,
-      role: user.role,
-    };
-
-    return jwt.sign(payload, config.jwt.refreshSecret, {
-      expiresIn: config.jwt.refreshExpiresIn,
-    });
-  }
-
   private async hashPassword(password: string): Promise<string> {
     return bcrypt.hash(password, config.security.bcryptRounds);
   }
-
-  public generateTokens(userId: string): { accessToken: string; refreshToken: string | undefined } {
-    const user = { _id: userId } as IUser; // Minimal user object for token generation
-    
-    const refreshToken = this.generateRefreshToken(user);
-    
-    return {
-      accessToken: this.generateToken(user),
-      refreshToken: refreshToken || undefined,
-    };
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,293 @@
+import { Policy } from '../models/Policy';
+import { Subject } from '../models/Subject';
+import { Action } from '../models/Action';
+import { Resource } from '../models/Resource';
+import AdditionalResource from '../models/AdditionalResource';
+import { Environment } from '../models/Environment';
+import {
+  BreakGlassGrant,
+  BreakGlassReviewOutcome,
+  IBreakGlassActor,
+  IBreakGlassEntityRef,
+  IBreakGlassGrant,
+} from '../models/BreakGlassGrant';
+import { ConflictError, NotFoundError, ValidationError } from '../exceptions/AppError';
+import { logger } from '../utils/logger';
+import ActivityService from './ActivityService';
+import NotificationService from './NotificationService';
+import PolicyChangeService from './PolicyChangeService';
+
+export const DEFAULT_DURATION_MINUTES = 60;
+export const MAX_DURATION_MINUTES = 8 * 60;
+
+// Tag of the Allow policies created for grants
+export const BREAK_GLASS_TAG = 'break-glass';
+
+export interface BreakGlassRequest {
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+  subjectId: string;
+  actionId: string;
+  resourceId: string;
+  justification: string;
+  ticketId?: string;
+  durationMinutes?: number;
+}
+
+const refOf = (entity: { id: string; displayName?: string; name?: string }): IBreakGlassEntityRef => ({
+  id: entity.id,
+  name: entity.displayName || entity.name || entity.id,
+});
+
+const describeGrant = (grant: IBreakGlassGrant): string =>
+  `${grant.subject.name} → ${grant.action.name} → ${grant.resource.name}`;
+
+/**
+ * Emergency access: a short-lived Allow policy for one subject, action and resource, created
+ * outside change approval and expired by the policy scheduler. Every grant is logged as a
+ * critical activity, notified to the workspace admins and reviewed once it has ended.
+ */
+export class BreakGlassService {
+  async grant(request: BreakGlassRequest, requester: IBreakGlassActor): Promise<IBreakGlassGrant> {
+    const justification = request.justification?.trim();
+    if (!justification || justification.length < 10) {
+      throw new ValidationError('A justification of at least 10 characters is required');
+    }
+
+    const durationMinutes = request.durationMinutes ?? DEFAULT_DURATION_MINUTES;
+    if (!Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > MAX_DURATION_MINUTES) {
+      throw new ValidationError(`Duration must be a whole number of minutes between 1 and ${MAX_DURATION_MINUTES}`);
+    }
+
+    const { workspaceId, applicationId, environmentId } = request;
+    const environment = await Environment.findOne({ _id: environmentId, workspaceId, applicationId }).select('_id').lean();
+    if (!environment) {
+      throw new NotFoundError('Environment not found');
+    }
+
+    const inEnvironment = { environmentId, active: true };
+    const [subject, action, resource, ticket] = await Promise.all([
+      Subject.findOne({ ...inEnvironment, id: request.subjectId }).lean(),
+      Action.findOne({ ...inEnvironment, id: request.actionId }).lean(),
+      Resource.findOne({ ...inEnvironment, id: request.resourceId }).lean(),
+      request.ticketId ? AdditionalResource.findOne({ ...inEnvironment, id: request.ticketId }).lean() : null,
+    ]);
+
+    if (!subject) throw new NotFoundError(`Subject ${request.subjectId} not found in this environment`);
+    if (!action) throw new NotFoundError(`Action ${request.actionId} not found in this environment`);
+    if (!resource) throw new NotFoundError(`Resource ${request.resourceId} not found in this environment`);
+    if (request.ticketId && ticket?.type !== 'ticket') {
+      throw new ValidationError(`Ticket ${request.ticketId} is not a ticket of this environment`);
+    }
+
+    const expiresAt = new Date(Date.now() + durationMinutes * 60 * 1000);
+    const policy = await PolicyChangeService.create({
+      name: `Break-glass: ${refOf(subject).name} ${refOf(action).name} ${refOf(resource).name}`,
+      description: `Emergency access requested by ${requester.email}: ${justification}`,
+      effect: 'Allow',
+      status: 'Active',
+      // Evaluated before every other policy under first-applicable
+      priority: await this.highestPriority(environmentId) - 1,
+      expireAt: expiresAt,
+      rules: [{
+        id: `rule-${Date.now()}-0`,
+        subject: { type: subject.id, attributes: [] },
+        action: { name: action.id, displayName: action.displayName || action.id },
+        object: { type: resource.id, attributes: [] },
+        conditions: [],
+      }],
+      subjects: [subject.id],
+      actions: [action.id],
+      resources: [resource.id],
+      additionalResources: [],
+      conditions: [],
+      workspaceId,
+      applicationId,
+      environmentId,
+      metadata: {
+        createdBy: requester.email,
+        lastModifiedBy: requester.email,
+        tags: [BREAK_GLASS_TAG],
+        version: '1.0.0',
+        isSystem: true,
+        isCustom: false,
+      },
+    }, requester.email);
+
+    const grant = await BreakGlassGrant.create({
+      workspaceId,
+      applicationId,
+      environmentId,
+      subject: refOf(subject),
+      action: refOf(action),
+      resource: refOf(resource),
+      policyId: policy.id,
+      justification,
+      ...(ticket && { ticket: refOf(ticket) }),
+      expiresAt,
+      requestedBy: requester,
+    });
+
+    await this.recordActivity(grant, 'break_glass_granted', requester, 'critical',
+      `Break-glass access granted to ${describeGrant(grant)} until ${expiresAt.toISOString()}`);
+
+    grant.notifiedAdmins = await NotificationService.notifyWorkspaceAdmins(workspaceId, {
+      event: 'break_glass.granted',
+      subject: `Break-glass access granted: ${describeGrant(grant)}`,
+      message: `${requester.email} granted emergency access to ${describeGrant(grant)} for ${durationMinutes} minute(s). Justification: ${justification}`
+        + (grant.ticket ? ` Ticket: ${grant.ticket.name}.` : ''),
+      severity: 'critical',
+      data: this.notificationData(grant),
+    });
+    await grant.save();
+
+    logger.warn(`Break-glass grant ${grant.id} created by ${requester.email}: ${describeGrant(grant)} until ${expiresAt.toISOString()}`);
+    return grant;
+  }
+
+  /**
+   * Ends an active grant before it expires by deactivating its policy
+   */
+  async revoke(grant: IBreakGlassGrant, actor: IBreakGlassActor): Promise<IBreakGlassGrant> {
+    if (grant.status !== 'active') {
+      throw new ConflictError(`Break-glass grant is already ${grant.status}`);
+    }
+
+    await this.deactivatePolicy(grant, actor.email);
+
+    grant.status = 'revoked';
+    grant.revokedBy = actor;
+    grant.revokedAt = new Date();
+    grant.endedAt = grant.revokedAt;
+    await grant.save();
+
+    await this.recordActivity(grant, 'break_glass_revoked', actor, 'high', `Break-glass access to ${describeGrant(grant)} revoked`);
+    await this.notifyReviewDue(grant, `revoked by ${actor.email}`);
+
+    logger.info(`Break-glass grant ${grant.id} revoked by ${actor.email}`);
+    return grant;
+  }
+
+  /**
+   * Marks the active grants that reached their expiry as expired and deactivates their
+   * policies. The policy scheduler calls this on every run.
+   */
+  async expireDue(now: Date = new Date()): Promise<number> {
+    const due = await BreakGlassGrant.find({ status: 'active', expiresAt: { $lte: now } }).select('_id').lean();
+    let expired = 0;
+
+    for (const { _id } of due) {
+      // Claimed by the status change, so that concurrent schedulers expire a grant once
+      const grant = await BreakGlassGrant.findOneAndUpdate(
+        { _id, status: 'active' },
+        { status: 'expired', endedAt: now },
+        { new: true }
+      );
+      if (!grant) continue;
+
+      // The policy's own expiry may have been cleared or moved, so it is not relied on
+      await this.deactivatePolicy(grant, 'system');
+      await this.recordActivity(grant, 'break_glass_expired', null, 'high', `Break-glass access to ${describeGrant(grant)} expired`);
+      await this.notifyReviewDue(grant, 'expired');
+      expired++;
+    }
+
+    return expired;
+  }
+
+  async review(
+    grant: IBreakGlassGrant,
+    reviewer: IBreakGlassActor,
+    outcome: BreakGlassReviewOutcome,
+    comment?: string
+  ): Promise<IBreakGlassGrant> {
+    if (grant.status === 'active') {
+      throw new ConflictError('Break-glass grants are reviewed once they have expired or been revoked');
+    }
+    if (grant.review) {
+      throw new ConflictError(`Break-glass grant was already reviewed by ${grant.review.reviewedBy.email}`);
+    }
+    if (grant.requestedBy.id === reviewer.id) {
+      throw new ValidationError('Break-glass grants cannot be reviewed by their requester');
+    }
+
+    grant.review = { reviewedBy: reviewer, outcome, ...(comment && { comment }), reviewedAt: new Date() };
+    await grant.save();
+
+    await this.recordActivity(grant, 'break_glass_reviewed', reviewer, outcome === 'unjustified' ? 'high' : 'medium',
+      `Break-glass access to ${describeGrant(grant)} reviewed as ${outcome}`);
+
+    logger.info(`Break-glass grant ${grant.id} reviewed as ${outcome} by ${reviewer.email}`);
+    return grant;
+  }
+
+  private async deactivatePolicy(grant: IBreakGlassGrant, author: string): Promise<void> {
+    const policy = await Policy.findOne({ id: grant.policyId });
+    if (policy && policy.status !== 'Inactive') {
+      await PolicyChangeService.update(policy, { status: 'Inactive', expireAt: null }, author);
+    }
+  }
+
+  private async highestPriority(environmentId: string): Promise<number> {
+    const first = await Policy.findOne({ environmentId }).sort({ priority: 1 }).select('priority').lean();
+    return Math.min(first?.priority ?? 0, 0);
+  }
+
+  private async notifyReviewDue(grant: IBreakGlassGrant, ending: string): Promise<void> {
+    await NotificationService.notifyWorkspaceAdmins(grant.workspaceId, {
+      event: 'break_glass.review_due',
+      subject: `Break-glass access ended, review required: ${describeGrant(grant)}`,
+      message: `Emergency access of ${grant.requestedBy.email} to ${describeGrant(grant)} was ${ending}. Review whether it was justified.`,
+      severity: 'high',
+      data: this.notificationData(grant),
+    });
+  }
+
+  private notificationData(grant: IBreakGlassGrant): Record<string, any> {
+    return {
+      grantId: grant.id,
+      policyId: grant.policyId,
+      environmentId: grant.environmentId,
+      requestedBy: grant.requestedBy.email,
+      expiresAt: grant.expiresAt,
+      ...(grant.ticket && { ticket: grant.ticket }),
+    };
+  }
+
+  private async recordActivity(
+    grant: IBreakGlassGrant,
+    action: string,
+    actor: IBreakGlassActor | null,
+    severity: 'medium' | 'high' | 'critical',
+    description: string
+  ): Promise<void> {
+    await ActivityService.record({
+      type: 'security_event',
+      category: 'security',
+      action,
+      resource: { type: 'break_glass_grant', id: grant.id, name: describeGrant(grant) },
+      target: { type: 'policy', id: grant.policyId, name: describeGrant(grant) },
+      actor: actor
+        ? { id: actor.id, name: actor.email, email: actor.email, type: 'user' }
+        : { id: 'policy-scheduler', name: 'Policy Scheduler', email: 'system', type: 'system' },
+      description,
+      severity,
+      workspaceId: grant.workspaceId,
+      applicationId: grant.applicationId,
+      environmentId: grant.environmentId,
+      metadata: {
+        additionalData: {
+          justification: grant.justification,
+          requestedBy: grant.requestedBy.email,
+          expiresAt: grant.expiresAt,
+          ...(grant.ticket && { ticket: grant.ticket }),
+          ...(grant.review && { review: grant.review }),
+        },
+      },
+      tags: [BREAK_GLASS_TAG],
+    });
+  }
+}
+
+export default new BreakGlassService();
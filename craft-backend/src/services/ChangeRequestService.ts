@@ -0,0 +1,202 @@
+import mongoose from 'mongoose';
+import { AuthorizationError, ValidationError } from '../exceptions/AppError';
+import { ChangeOperation, ChangeRequest, IChangeRequest } from '../models/ChangeRequest';
+import { Environment, IEnvironment } from '../models/Environment';
+import { Policy } from '../models/Policy';
+import { logger } from '../utils/logger';
+import PolicyChangeService from './PolicyChangeService';
+
+export interface ChangeActor {
+  id: string;
+  email: string;
+}
+
+export interface ChangeSubmission {
+  operation: ChangeOperation;
+  environment: IEnvironment;
+  policyId?: string;
+  policyName: string;
+  payload?: Record<string, any>;
+  baseVersion?: string;
+  regressionCheck?: Record<string, any>;
+  comment?: string;
+  requestedBy: ChangeActor;
+}
+
+/**
+ * Holds policy changes in protected environments until their approvers sign off. An environment
+ * is protected when its promotion rules require approval and name at least one approver.
+ */
+export class ChangeRequestService {
+  /**
+   * The protected environments among the given ones, by ID
+   */
+  async protectedEnvironments(environmentIds: string[]): Promise<Map<string, IEnvironment>> {
+    const ids = [...new Set(environmentIds)].filter(id => mongoose.isValidObjectId(id));
+    const environments = ids.length > 0 ? await Environment.find({ _id: { $in: ids } }) : [];
+
+    return new Map(
+      environments
+        .filter(environment => environment.requiresPolicyApproval())
+        .map(environment => [String(environment._id), environment])
+    );
+  }
+
+  /**
+   * The environment when policy changes in it need approval, otherwise null
+   */
+  async approvalEnvironment(environmentId: string): Promise<IEnvironment | null> {
+    return (await this.protectedEnvironments([environmentId])).get(environmentId) || null;
+  }
+
+  /**
+   * Approvals a change needs: the configured count, capped by the number of approvers
+   */
+  requiredApprovals(environment: IEnvironment): number {
+    const rules = environment.metadata.promotionRules;
+    return Math.max(1, Math.min(rules?.requiredApprovals || 1, rules?.approvers?.length || 1));
+  }
+
+  async submit(submission: ChangeSubmission): Promise<IChangeRequest> {
+    const { environment, ...change } = submission;
+
+    const request = await ChangeRequest.create({
+      ...change,
+      workspaceId: String(environment.workspaceId),
+      applicationId: String(environment.applicationId),
+      environmentId: String(environment._id),
+      payload: change.payload || {},
+      requiredApprovals: this.requiredApprovals(environment),
+    });
+
+    logger.info(`Change request ${request.id} (${request.operation} ${request.policyName}) submitted by ${request.requestedBy.email}`);
+    return request;
+  }
+
+  /**
+   * Records an approver's decision. A rejection resolves the request; the approval that reaches
+   * the required count applies the change.
+   */
+  async review(
+    request: IChangeRequest,
+    reviewer: ChangeActor,
+    decision: 'approve' | 'reject',
+    comment?: string
+  ): Promise<IChangeRequest> {
+    if (request.status !== 'pending') {
+      throw new ValidationError(`Change request is already ${request.status}`);
+    }
+    if (request.requestedBy.id === reviewer.id) {
+      throw new AuthorizationError('You cannot review your own change request');
+    }
+
+    const environment = mongoose.isValidObjectId(request.environmentId)
+      ? await Environment.findById(request.environmentId)
+      : null;
+    if (!environment?.isApprover(reviewer.id)) {
+      throw new AuthorizationError('Only approvers of this environment can review its change requests');
+    }
+    if (request.reviews.some(review => review.reviewerId === reviewer.id)) {
+      throw new ValidationError('You have already reviewed this change request');
+    }
+
+    request.reviews.push({
+      reviewerId: reviewer.id,
+      reviewerEmail: reviewer.email,
+      decision,
+      ...(comment && { comment }),
+      reviewedAt: new Date(),
+    });
+
+    if (decision === 'reject') {
+      request.status = 'rejected';
+      request.resolvedAt = new Date();
+      await request.save();
+      logger.info(`Change request ${request.id} rejected by ${reviewer.email}`);
+      return request;
+    }
+
+    const approvals = request.reviews.filter(review => review.decision === 'approve').length;
+    if (approvals < request.requiredApprovals) {
+      await request.save();
+      logger.info(`Change request ${request.id} approved by ${reviewer.email} (${approvals}/${request.requiredApprovals})`);
+      return request;
+    }
+
+    return this.apply(request);
+  }
+
+  /**
+   * Applies an approved change as its requester. Updates and deletes fail when the policy was
+   * changed after the request was made, so approvers never sign off on a stale diff.
+   */
+  async apply(request: IChangeRequest): Promise<IChangeRequest> {
+    const author = request.requestedBy.email;
+
+    try {
+      if (request.operation === 'create') {
+        if (request.payload.id && await Policy.exists({ id: request.payload.id })) {
+          throw new Error(`Policy ${request.payload.id} already exists`);
+        }
+        const policy = await PolicyChangeService.create(request.payload, author);
+        request.policyId = policy.id;
+      } else {
+        const policy = await Policy.findOne({ id: request.policyId });
+        if (!policy) {
+          throw new Error('Policy no longer exists');
+        }
+        if (request.baseVersion && policy.metadata.version !== request.baseVersion) {
+          throw new Error(`Policy changed since the request was made (${request.baseVersion} → ${policy.metadata.version})`);
+        }
+
+        if (request.operation === 'update') {
+          await PolicyChangeService.update(policy, request.payload, author);
+        } else {
+          await PolicyChangeService.remove(policy);
+        }
+      }
+
+      request.status = 'applied';
+      logger.info(`Change request ${request.id} applied: ${request.operation} ${request.policyId}`);
+    } catch (error: any) {
+      request.status = 'failed';
+      request.error = error?.message || 'Failed to apply change';
+      logger.warn(`Change request ${request.id} failed to apply: ${request.error}`);
+    }
+
+    request.resolvedAt = new Date();
+    await request.save();
+    return request;
+  }
+
+  /**
+   * Withdraws a pending request; only its requester or a super admin may
+   */
+  async cancel(request: IChangeRequest, actor: ChangeActor, isSuperAdmin: boolean): Promise<IChangeRequest> {
+    if (request.status !== 'pending') {
+      throw new ValidationError(`Change request is already ${request.status}`);
+    }
+    if (request.requestedBy.id !== actor.id && !isSuperAdmin) {
+      throw new AuthorizationError('Only the requester can cancel a change request');
+    }
+
+    request.status = 'cancelled';
+    request.resolvedAt = new Date();
+    await request.save();
+
+    logger.info(`Change request ${request.id} cancelled by ${actor.email}`);
+    return request;
+  }
+
+  /**
+   * IDs of the environments a user approves changes for
+   */
+  async approverEnvironmentIds(userId: string): Promise<string[]> {
+    if (!mongoose.isValidObjectId(userId)) return [];
+
+    const environments = await Environment.find({ 'metadata.promotionRules.approvers': userId }).select('_id').lean();
+    return environments.map(environment => String(environment._id));
+  }
+}
+
+export default new ChangeRequestService();
@@ -0,0 +1,173 @@
+import PolicyEvaluationService, {
+  CombiningAlgorithm,
+  Decision,
+  EvaluationSnapshot,
+  PolicySnapshot,
+  ResolvedEntity,
+  ResolvedRequest,
+} from './PolicyEvaluationService';
+import { AccessEntityRef } from './AccessReviewService';
+import { ChangedPolicy } from './TestSuiteService';
+
+const WILDCARD = '*';
+
+// Combinations evaluated when no sample size is requested, and the most a caller may request
+export const DEFAULT_SAMPLE_SIZE = 20000;
+export const MAX_SAMPLE_SIZE = 100000;
+
+const normalize = (value: any): string => String(value).trim().toLowerCase();
+
+export interface ImpactEntry {
+  subject: AccessEntityRef;
+  action: AccessEntityRef;
+  resource: AccessEntityRef;
+  previousDecision: Decision;
+  proposedDecision: Decision;
+  reason: string; // Why the granting policy set allows: the proposed one for added grants, the current one for removed
+}
+
+export interface ImpactSimulation {
+  policyId: string;
+  combiningAlgorithm: CombiningAlgorithm;
+  totalCombinations: number; // Every subject, action and resource of the environment
+  targetedCombinations: number; // Those either version of the policy targets
+  evaluatedCombinations: number;
+  sampled: boolean; // Whether the targeted combinations exceeded the sample size
+  added: ImpactEntry[]; // Combinations the change would allow
+  removed: ImpactEntry[]; // Combinations allowed today that the change would no longer allow
+  snapshotAt: Date;
+}
+
+const toRef = (entity: ResolvedEntity): AccessEntityRef => ({
+  id: entity.id,
+  name: entity.attributes.name || entity.id,
+  displayName: entity.attributes.displayName,
+});
+
+// Snapshot maps index each entity under several keys
+const entitiesOf = (index: Map<string, any>): any[] => [...new Set(index.values())];
+
+const rulesOf = (policy: PolicySnapshot) => [...(policy.rules || []), ...(policy.complexRules || [])];
+
+const targets = (target: string | undefined, entity: ResolvedEntity): boolean =>
+  !target || target === WILDCARD || entity.identifiers.has(normalize(target));
+
+// Indices of a random sample without replacement, in ascending order
+const sampleIndices = (total: number, size: number): number[] => {
+  const picked = new Set<number>();
+  while (picked.size < size) {
+    picked.add(Math.floor(Math.random() * total));
+  }
+  return [...picked].sort((a, b) => a - b);
+};
+
+/**
+ * Evaluates the stored and the edited version of a policy against the environment's
+ * subjects, actions and resources, and lists the access grants the edit would add or remove
+ */
+export class ImpactSimulationService {
+  async simulate(before: ChangedPolicy, after: ChangedPolicy, sampleSize: number = DEFAULT_SAMPLE_SIZE): Promise<ImpactSimulation> {
+    const snapshot = await PolicyEvaluationService.createEnvironmentSnapshot({
+      workspaceId: before.workspaceId,
+      applicationId: before.applicationId,
+      environmentId: before.environmentId,
+    });
+
+    const currentPolicies = snapshot.policies;
+    const proposedPolicies = this.proposedPolicies(currentPolicies, after);
+    // Only Active versions take part in evaluation
+    const versions = [before, after].filter(policy => policy.status === 'Active');
+
+    const subjects = entitiesOf(snapshot.subjects).map(subject => PolicyEvaluationService.resolveSubject(snapshot, subject.id));
+    const actions = entitiesOf(snapshot.actions).map(action => PolicyEvaluationService.resolveAction(snapshot, action.id));
+    const resources = [...entitiesOf(snapshot.resources), ...entitiesOf(snapshot.additionalResources)]
+      .map(resource => PolicyEvaluationService.resolveResource(snapshot, resource.id));
+
+    // A request no version of the policy targets gets the same decision before and after
+    const targeted = {
+      subjects: subjects.filter(subject => versions.some(policy => rulesOf(policy).some(rule =>
+        targets(rule.subject?.type, subject)
+        || (policy.subjects || []).some(id => subject.identifiers.has(normalize(id)))
+      ))),
+      actions: actions.filter(action => versions.some(policy => rulesOf(policy).some(rule => targets(rule.action?.name, action)))),
+      resources: resources.filter(resource => versions.some(policy => rulesOf(policy).some(rule => targets(rule.object?.type, resource)))),
+    };
+
+    const targetedCombinations = targeted.subjects.length * targeted.actions.length * targeted.resources.length;
+    const size = Math.min(Math.max(1, Math.floor(sampleSize)), MAX_SAMPLE_SIZE);
+    const sampled = targetedCombinations > size;
+    const indices = sampled
+      ? sampleIndices(targetedCombinations, size)
+      : Array.from({ length: targetedCombinations }, (_, index) => index);
+
+    const added: ImpactEntry[] = [];
+    const removed: ImpactEntry[] = [];
+
+    indices.forEach(index => {
+      const resource = targeted.resources[index % targeted.resources.length]!;
+      const rest = Math.floor(index / targeted.resources.length);
+      const action = targeted.actions[rest % targeted.actions.length]!;
+      const subject = targeted.subjects[Math.floor(rest / targeted.actions.length)]!;
+
+      const request = this.requestFor(snapshot, subject, action, resource);
+      const previous = PolicyEvaluationService.decide(currentPolicies, request, snapshot.combiningAlgorithm);
+      const proposed = PolicyEvaluationService.decide(proposedPolicies, request, snapshot.combiningAlgorithm);
+
+      const wasAllowed = previous.decision === 'Allow';
+      const isAllowed = proposed.decision === 'Allow';
+      if (wasAllowed === isAllowed) return;
+
+      (isAllowed ? added : removed).push({
+        subject: toRef(subject),
+        action: toRef(action),
+        resource: toRef(resource),
+        previousDecision: previous.decision,
+        proposedDecision: proposed.decision,
+        reason: isAllowed ? proposed.reason : previous.reason,
+      });
+    });
+
+    return {
+      policyId: before.id,
+      combiningAlgorithm: snapshot.combiningAlgorithm,
+      totalCombinations: subjects.length * actions.length * resources.length,
+      targetedCombinations,
+      evaluatedCombinations: indices.length,
+      sampled,
+      added,
+      removed,
+      snapshotAt: snapshot.createdAt,
+    };
+  }
+
+  /**
+   * The environment's Active policies with the edited version in place of the stored one,
+   * in priority order. The sort is stable, so the policy keeps its place among equal priorities.
+   */
+  private proposedPolicies(policies: PolicySnapshot[], after: ChangedPolicy): PolicySnapshot[] {
+    const replaced = policies.some(policy => policy.id === after.id)
+      ? policies.map(policy => policy.id === after.id ? after : policy)
+      : [...policies, after];
+
+    return replaced
+      .filter(policy => policy.id !== after.id || after.status === 'Active')
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+  }
+
+  private requestFor(
+    snapshot: EvaluationSnapshot,
+    subject: ResolvedEntity,
+    action: ResolvedEntity,
+    resource: ResolvedEntity
+  ): ResolvedRequest {
+    return {
+      subject,
+      action,
+      resource,
+      environment: { currentTime: new Date().toISOString() },
+      related: resourceId => PolicyEvaluationService.resolveResource(snapshot, resourceId),
+    };
+  }
+}
+
+export default new ImpactSimulationService();
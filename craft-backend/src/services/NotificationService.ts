@@ -0,0 +1,70 @@
+import axios from 'axios';
+import { Workspace } from '../models/Workspace';
+import { User } from '../models/User';
+import { logger } from '../utils/logger';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export interface Notification {
+  event: string; // e.g. break_glass.granted
+  subject: string;
+  message: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  data?: Record<string, any>;
+}
+
+/**
+ * Notifies the people responsible for a workspace. Notifications are logged and posted as JSON
+ * to the workspace's notification webhook when one is configured.
+ */
+export class NotificationService {
+  /**
+   * Emails of the workspace's active owner and admins: those listed on the workspace and the
+   * admin users assigned to it
+   */
+  async workspaceAdmins(workspaceId: string): Promise<string[]> {
+    const workspace = await Workspace.findById(workspaceId).select('metadata.owner metadata.admins').lean();
+    const listed = workspace ? [workspace.metadata.owner, ...(workspace.metadata.admins || [])].filter(Boolean) : [];
+
+    const admins = await User.find({
+      active: true,
+      $or: [
+        { _id: { $in: listed } },
+        { role: 'admin', assignedWorkspaces: workspaceId },
+      ],
+    }).select('email').lean();
+
+    return admins.map(admin => admin.email);
+  }
+
+  /**
+   * Sends the notification to the workspace admins and returns their emails. Delivery failures
+   * are logged and never fail the operation being notified.
+   */
+  async notifyWorkspaceAdmins(workspaceId: string, notification: Notification): Promise<string[]> {
+    const [recipients, workspace] = await Promise.all([
+      this.workspaceAdmins(workspaceId),
+      Workspace.findById(workspaceId).select('name settings.notifications').lean(),
+    ]);
+
+    logger.warn(`[${notification.event}] ${notification.subject} - notifying ${recipients.length} admin(s) of workspace ${workspace?.name || workspaceId}`);
+
+    const webhook = workspace?.settings?.notifications?.webhook;
+    if (webhook) {
+      try {
+        await axios.post(webhook, {
+          ...notification,
+          workspaceId,
+          recipients,
+          sentAt: new Date().toISOString(),
+        }, { timeout: WEBHOOK_TIMEOUT_MS });
+      } catch (error: any) {
+        logger.error(`Failed to deliver ${notification.event} notification to the webhook of workspace ${workspaceId}: ${error?.message || error}`);
+      }
+    }
+
+    return recipients;
+  }
+}
+
+export default new NotificationService();
@@ -0,0 +1,467 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { Workspace, IWorkspace, IWorkspaceSsoConfiguration } from '../models/Workspace';
+import { OidcLoginRequest } from '../models/OidcLoginRequest';
+import { User } from '../models/User';
+import { IUser } from '../types';
+import { AuthenticationError, AuthorizationError, NotFoundError, ValidationError } from '../exceptions/AppError';
+import { logger } from '../utils/logger';
+import sessionService, { SessionContext, SessionTokens } from './SessionService';
+
+export const LOGIN_TTL_MS = 10 * 60 * 1000;
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+
+// Asymmetric algorithms only, so a provider's public key can never be used as an HMAC secret
+const SIGNING_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcClaims extends JwtPayload {
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  nonce?: string;
+  azp?: string;
+  [claim: string]: any;
+}
+
+export interface OidcTokenResponse {
+  id_token: string;
+  access_token?: string;
+}
+
+export interface OidcLoginResult extends SessionTokens {
+  user: Omit<IUser, 'password'>;
+  returnTo?: string;
+}
+
+export interface OidcLoginStart {
+  authorizationUrl: string;
+  binding: string; // Kept by the browser in a cookie and required by the callback
+}
+
+interface SsoWorkspace {
+  workspace: IWorkspace;
+  sso: IWorkspaceSsoConfiguration;
+}
+
+const randomToken = (): string => crypto.randomBytes(32).toString('base64url');
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+// Reads a claim by name or by dot path, e.g. "address.country"
+const claimValue = (claims: Record<string, any>, path: string): any =>
+  path in claims
+    ? claims[path]
+    : path.split('.').reduce<any>((value, key) => (value && typeof value === 'object' ? value[key] : undefined), claims);
+
+const describeHttpError = (error: any): string =>
+  error?.response?.data?.error_description || error?.response?.data?.error || error?.message || 'request failed';
+
+/**
+ * OpenID Connect single sign-on with the authorization code flow and PKCE, configured per
+ * workspace through settings.ssoConfiguration. Users are provisioned on their first login,
+ * with claims mapped into their attributes, and signed in with a regular CRAFT session.
+ */
+export class OidcService {
+  private metadata = new Map<string, { metadata: OidcProviderMetadata; expiresAt: number }>();
+  private signingKeys = new Map<string, Map<string, crypto.KeyObject>>(); // Keyed by JWKS URI, then key ID
+
+  /**
+   * Workspace with single sign-on enabled, by ID or name
+   */
+  async getWorkspace(reference: string): Promise<SsoWorkspace> {
+    const workspace = await Workspace.findOne({
+      ...(Types.ObjectId.isValid(reference) ? { _id: reference } : { name: reference }),
+      active: true,
+    });
+    const sso = workspace?.settings?.ssoConfiguration;
+
+    if (!workspace || !sso?.enabled || !sso.issuer || !sso.clientId) {
+      throw new NotFoundError('Single sign-on configuration');
+    }
+
+    // Without allowed domains any provider account could sign in and claim an existing email
+    if (!(workspace.settings?.allowedDomains || []).some(domain => domain.trim())) {
+      throw new AuthorizationError('Single sign-on requires the workspace to list its allowed email domains');
+    }
+
+    return { workspace, sso };
+  }
+
+  /**
+   * Workspace whose allowed domains include the domain of an email address and which has
+   * single sign-on enabled
+   */
+  async findWorkspaceForEmail(email: string): Promise<{ workspace: string; displayName: string }> {
+    const domain = email.split('@')[1]?.trim().toLowerCase();
+    if (!domain) {
+      throw new ValidationError('A valid email address is required');
+    }
+
+    const workspace = await Workspace.findOne({
+      'settings.allowedDomains': { $in: [domain, `@${domain}`] },
+      'settings.ssoConfiguration.enabled': true,
+      active: true,
+    }).select('name displayName').lean();
+
+    if (!workspace) {
+      throw new NotFoundError(`Single sign-on for ${domain}`);
+    }
+
+    return { workspace: workspace.name, displayName: workspace.displayName };
+  }
+
+  /**
+   * Starts a login and returns the provider URL to redirect the browser to, with the value
+   * the browser must present again on the callback
+   */
+  async beginLogin(reference: string, options: { redirectUri: string; returnTo?: string }): Promise<OidcLoginStart> {
+    const { workspace, sso } = await this.getWorkspace(reference);
+    const provider = await this.discover(sso.issuer);
+
+    const state = randomToken();
+    const binding = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken();
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    await OidcLoginRequest.create({
+      state,
+      bindingHash: sha256(binding),
+      workspaceId: String(workspace._id),
+      nonce,
+      codeVerifier,
+      redirectUri: options.redirectUri,
+      returnTo: options.returnTo,
+      expiresAt: new Date(Date.now() + LOGIN_TTL_MS),
+    });
+
+    const url = new URL(provider.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: sso.clientId,
+      redirect_uri: options.redirectUri,
+      scope: (sso.scopes && sso.scopes.length > 0 ? sso.scopes : DEFAULT_SCOPES).join(' '),
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return { authorizationUrl: url.toString(), binding };
+  }
+
+  /**
+   * Finishes a login from the provider's callback: exchanges the code, verifies the ID token,
+   * checks the email domain, provisions the user and starts their session
+   */
+  async completeLogin(params: { code: string; state: string; binding?: string }, context: SessionContext = {}): Promise<OidcLoginResult> {
+    // Each login can be completed once
+    const login = await OidcLoginRequest.findOneAndDelete({ state: params.state, expiresAt: { $gt: new Date() } });
+    if (!login) {
+      throw new AuthenticationError('Sign-in request has expired or was already used, please try again');
+    }
+
+    // A callback carrying someone else's state must not sign this browser into their account
+    if (!params.binding || sha256(params.binding) !== login.bindingHash) {
+      throw new AuthenticationError('Sign-in was started in another browser, please try again');
+    }
+
+    const { workspace, sso } = await this.getWorkspace(login.workspaceId);
+    const provider = await this.discover(sso.issuer);
+
+    const tokens = await this.exchangeCode(provider, sso, {
+      code: params.code,
+      redirectUri: login.redirectUri,
+      codeVerifier: login.codeVerifier,
+    });
+    const idTokenClaims = await this.verifyIdToken(provider, sso, tokens.id_token, login.nonce);
+    const claims = tokens.access_token
+      ? { ...await this.fetchUserInfo(provider, tokens.access_token, idTokenClaims.sub as string), ...idTokenClaims }
+      : idTokenClaims;
+
+    const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+    if (!email) {
+      throw new AuthenticationError('The identity provider did not return an email address');
+    }
+    // Providers that do not assert verification could hand out any address of an allowed domain
+    if (claims.email_verified !== true && claims.email_verified !== 'true') {
+      throw new AuthenticationError('The email address is not verified by the identity provider');
+    }
+
+    const allowedDomains = (workspace.settings?.allowedDomains || []).map(domain => domain.trim().toLowerCase().replace(/^@/, ''));
+    const domain = email.split('@')[1] || '';
+    if (!allowedDomains.includes(domain)) {
+      throw new AuthorizationError(`Email domain ${domain} is not allowed to sign in to this workspace`);
+    }
+
+    const user = await this.provisionUser(claims, email, workspace, sso, provider.issuer);
+    const session = await sessionService.issue(user, context);
+
+    logger.info(`User signed in with SSO: ${email} (workspace ${workspace.name})`);
+
+    return { ...session, user, ...(login.returnTo && { returnTo: login.returnTo }) };
+  }
+
+  /**
+   * Provider metadata from the issuer's discovery document, cached for an hour
+   */
+  async discover(issuer: string): Promise<OidcProviderMetadata> {
+    const key = trimSlash(issuer);
+    const cached = this.metadata.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.metadata;
+    }
+
+    let metadata: OidcProviderMetadata;
+    try {
+      ({ data: metadata } = await axios.get<OidcProviderMetadata>(`${key}/.well-known/openid-configuration`, { timeout: HTTP_TIMEOUT_MS }));
+    } catch (error) {
+      throw new AuthenticationError(`Could not read the identity provider configuration: ${describeHttpError(error)}`);
+    }
+
+    if (!metadata?.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+      throw new AuthenticationError('The identity provider configuration is incomplete');
+    }
+    if (trimSlash(metadata.issuer || '') !== key) {
+      throw new AuthenticationError(`The identity provider reports issuer ${metadata.issuer}, expected ${issuer}`);
+    }
+
+    this.metadata.set(key, { metadata, expiresAt: Date.now() + METADATA_TTL_MS });
+    return metadata;
+  }
+
+  async exchangeCode(
+    provider: OidcProviderMetadata,
+    sso: IWorkspaceSsoConfiguration,
+    params: { code: string; redirectUri: string; codeVerifier: string }
+  ): Promise<OidcTokenResponse> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: sso.clientId,
+      code_verifier: params.codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (sso.clientSecret) {
+      const methods = provider.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+      if (methods.includes('client_secret_basic')) {
+        const credentials = `${encodeURIComponent(sso.clientId)}:${encodeURIComponent(sso.clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      } else {
+        body.set('client_secret', sso.clientSecret);
+      }
+    }
+
+    let tokens: OidcTokenResponse;
+    try {
+      ({ data: tokens } = await axios.post<OidcTokenResponse>(provider.token_endpoint, body.toString(), { headers, timeout: HTTP_TIMEOUT_MS }));
+    } catch (error) {
+      throw new AuthenticationError(`The identity provider rejected the sign-in: ${describeHttpError(error)}`);
+    }
+
+    if (!tokens?.id_token) {
+      throw new AuthenticationError('The identity provider did not return an ID token');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Verifies the signature, issuer, audience, expiry and nonce of an ID token
+   */
+  async verifyIdToken(
+    provider: OidcProviderMetadata,
+    sso: IWorkspaceSsoConfiguration,
+    idToken: string,
+    nonce: string
+  ): Promise<OidcClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new AuthenticationError('The ID token is malformed');
+    }
+
+    const key = await this.signingKey(provider.jwks_uri, decoded.header.kid);
+
+    let claims: OidcClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: SIGNING_ALGORITHMS,
+        issuer: provider.issuer,
+        audience: sso.clientId,
+      }) as OidcClaims;
+    } catch (error) {
+      throw new AuthenticationError(`The ID token is invalid: ${error instanceof Error ? error.message : 'verification failed'}`);
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new AuthenticationError('The ID token was not issued for this sign-in');
+    }
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== sso.clientId) {
+      throw new AuthenticationError('The ID token was issued to another client');
+    }
+    if (!claims.sub) {
+      throw new AuthenticationError('The ID token has no subject');
+    }
+
+    return claims;
+  }
+
+  /**
+   * User attributes from the configured claim mappings; unmapped and missing claims are skipped
+   */
+  mapAttributes(claims: Record<string, any>, mappings: Record<string, string> = {}): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(mappings)
+        .map(([attribute, claim]) => [attribute, claimValue(claims, claim)])
+        .filter(([, value]) => value !== undefined && value !== null)
+    );
+  }
+
+  /**
+   * Public key a token was signed with. Keys are refetched when the provider rotates them.
+   */
+  private async signingKey(jwksUri: string, keyId?: string): Promise<crypto.KeyObject> {
+    const pick = (keys?: Map<string, crypto.KeyObject>) =>
+      keys && (keyId ? keys.get(keyId) : keys.size === 1 ? [...keys.values()][0] : undefined);
+
+    let key = pick(this.signingKeys.get(jwksUri));
+    if (!key) {
+      const keys = await this.fetchSigningKeys(jwksUri);
+      this.signingKeys.set(jwksUri, keys);
+      key = pick(keys);
+    }
+
+    if (!key) {
+      throw new AuthenticationError('The ID token was signed with an unknown key');
+    }
+
+    return key;
+  }
+
+  private async fetchSigningKeys(jwksUri: string): Promise<Map<string, crypto.KeyObject>> {
+    let jwks: { keys?: Array<crypto.JsonWebKey & { kid?: string; use?: string }> };
+    try {
+      ({ data: jwks } = await axios.get(jwksUri, { timeout: HTTP_TIMEOUT_MS }));
+    } catch (error) {
+      throw new AuthenticationError(`Could not read the identity provider keys: ${describeHttpError(error)}`);
+    }
+
+    const keys = new Map<string, crypto.KeyObject>();
+    (jwks?.keys || [])
+      .filter(jwk => (!jwk.use || jwk.use === 'sig') && (jwk.kty === 'RSA' || jwk.kty === 'EC'))
+      .forEach((jwk, index) => {
+        try {
+          keys.set(jwk.kid || `key-${index}`, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch {
+          logger.warn(`Skipping unusable signing key ${jwk.kid || index} from ${jwksUri}`);
+        }
+      });
+
+    return keys;
+  }
+
+  /**
+   * Claims from the userinfo endpoint, ignored when it is unavailable or describes someone else
+   */
+  private async fetchUserInfo(provider: OidcProviderMetadata, accessToken: string, subject: string): Promise<OidcClaims> {
+    if (!provider.userinfo_endpoint) return {};
+
+    try {
+      const { data } = await axios.get<OidcClaims>(provider.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        timeout: HTTP_TIMEOUT_MS,
+      });
+      return data?.sub === subject ? data : {};
+    } catch (error) {
+      logger.warn(`Userinfo request failed: ${describeHttpError(error)}`);
+      return {};
+    }
+  }
+
+  /**
+   * Creates the user on their first login, or refreshes their mapped attributes. New users join
+   * the workspace with its default role; existing users keep the roles they already have. An
+   * existing account is only signed in when it is bound to this provider identity, or when it
+   * belongs to this workspace alone and is not a global admin; it is then bound on first use.
+   */
+  private async provisionUser(
+    claims: OidcClaims,
+    email: string,
+    workspace: IWorkspace,
+    sso: IWorkspaceSsoConfiguration,
+    issuer: string
+  ): Promise<IUser> {
+    const workspaceId = String(workspace._id);
+    const attributes = this.mapAttributes(claims, sso.claimMappings);
+    const subject = `${issuer}|${claims.sub}`;
+    const existing = await User.findOne({ email });
+
+    if (existing && !existing.active) {
+      throw new AuthenticationError('Account is inactive');
+    }
+    if (existing?.oidcSubject && existing.oidcSubject !== subject) {
+      throw new AuthenticationError('This account is linked to a different single sign-on identity');
+    }
+    if (existing && !existing.oidcSubject && !this.linkable(existing, workspaceId)) {
+      throw new AuthorizationError('An account with this email already exists and cannot be signed in with single sign-on');
+    }
+
+    const name = String(
+      claims.name
+      || [claims.given_name, claims.family_name].filter(Boolean).join(' ')
+      || claims.preferred_username
+      || email.split('@')[0]
+    ).slice(0, 50);
+
+    const user = existing ?? new User({ email, name, role: 'basic', authProvider: 'oidc', attributes: {} });
+
+    user.attributes = { ...(user.attributes || {}), ...attributes };
+    user.markModified('attributes');
+    if (typeof attributes.department === 'string') {
+      user.department = attributes.department.slice(0, 50);
+    }
+    user.oidcSubject = subject;
+    user.lastLoginAt = new Date();
+
+    if (!existing) {
+      user.assignedWorkspaces = [workspaceId];
+      user.currentWorkspace = workspaceId;
+      user.workspaceRoles.set(workspaceId, { role: sso.defaultRole || 'viewer', permissions: [], joinedAt: new Date() });
+      logger.info(`Provisioned SSO user ${email} in workspace ${workspace.name}`);
+    } else if (!(user.assignedWorkspaces || []).includes(workspaceId)) {
+      user.assignedWorkspaces = [...(user.assignedWorkspaces || []), workspaceId];
+    }
+
+    await user.save();
+    // toJSON leaves out the password
+    return user.toJSON<IUser>({ flattenMaps: true });
+  }
+
+  // Unbound accounts the workspace may take over: no global privileges and a member of this workspace alone
+  private linkable(user: Pick<IUser, 'role' | 'assignedWorkspaces'>, workspaceId: string): boolean {
+    const workspaces = user.assignedWorkspaces || [];
+    return user.role === 'basic' && workspaces.length > 0 && workspaces.every(id => id === workspaceId);
+  }
+}
+
+export default new OidcService();
@@ -0,0 +1,562 @@
+import { Policy, IPolicyRule } from '../models/Policy';
+import { Subject } from '../models/Subject';
+import { Action } from '../models/Action';
+import { Resource } from '../models/Resource';
+import AdditionalResource from '../models/AdditionalResource';
+import PolicyIndexService, { POLICY_SNAPSHOT_FIELDS } from './PolicyIndexService';
+import { CombiningAlgorithm, EvaluationScope, PolicySnapshot } from './PolicyEvaluationService';
+
+const WILDCARD = '*';
+
+const normalize = (value: any): string => String(value).trim().toLowerCase();
+
+export type AnalysisFindingType = 'contradiction' | 'redundancy' | 'unreachable';
+export type AnalysisSeverity = 'error' | 'warning' | 'info';
+export type AnalysisRelation = 'overlap' | 'shadowed' | 'duplicate' | 'subsumed';
+export type ReferenceKind = 'subject' | 'action' | 'resource' | 'additionalResource';
+
+export interface AnalyzedRule {
+  policyId: string;
+  policyName: string;
+  effect: 'Allow' | 'Deny';
+  status: string;
+  priority: number;
+  ruleId: string;
+}
+
+export interface DanglingReference {
+  kind: ReferenceKind;
+  ref: string;
+  reason: 'missing' | 'inactive';
+  ruleId?: string; // Unset when referenced by the policy rather than one of its rules
+}
+
+export interface AnalysisFinding {
+  type: AnalysisFindingType;
+  severity: AnalysisSeverity;
+  relation?: AnalysisRelation;
+  message: string;
+  policyIds: string[];
+  rules: AnalyzedRule[];
+  winner?: 'Allow' | 'Deny'; // Effect the combining algorithm gives requests both contradicting rules match
+  references?: DanglingReference[];
+}
+
+export interface PolicyAnalysisOptions {
+  includeDrafts?: boolean;
+}
+
+export interface PolicyAnalysisResult {
+  environmentId: string;
+  combiningAlgorithm: CombiningAlgorithm;
+  analyzedPolicies: number;
+  analyzedRules: number;
+  findings: AnalysisFinding[];
+  summary: Record<AnalysisFindingType, number>;
+  analyzedAt: Date;
+}
+
+// Entity ids a rule target covers, or every entity of the dimension
+type Coverage = Set<string> | typeof WILDCARD;
+
+interface Constraint {
+  field: string;
+  operator: string;
+  value: any;
+  dateConfig?: { includeTime: boolean; isRange: boolean };
+}
+
+interface Interval {
+  kind: 'number' | 'date';
+  min: number;
+  minOpen: boolean;
+  max: number;
+  maxOpen: boolean;
+}
+
+interface RuleScope {
+  rule: AnalyzedRule;
+  rank: number; // Position in evaluation order, for first-applicable
+  subjects: Coverage;
+  actions: Coverage;
+  resources: Coverage;
+  constraints: Constraint[];
+}
+
+interface EntityCatalog {
+  entities: Array<{ id: string; identifiers: Set<string>; active: boolean }>;
+}
+
+const SEVERITY_ORDER: AnalysisSeverity[] = ['error', 'warning', 'info'];
+
+const toArray = (value: any): any[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value.includes(',')) {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return [value];
+};
+
+const canonical = (value: any): string =>
+  Array.isArray(value) ? JSON.stringify(value.map(normalize).sort()) : typeof value === 'object' ? JSON.stringify(value) : normalize(value);
+
+// Condition fields use the prefixes of PolicyEvaluationService.resolveField
+const normalizeField = (field: string): string => {
+  const [prefix, ...rest] = field.split('.');
+  if (rest.length === 0) return field;
+  if (prefix === 'object') return `resource.${rest.join('.')}`;
+  if (prefix === 'env') return `environment.${rest.join('.')}`;
+  return field;
+};
+
+// Values an equals or in constraint accepts. Equality on dates is left to intervals.
+const acceptedValues = (constraint: Constraint): Set<string> | null => {
+  if (constraint.operator === 'equals' && !constraint.dateConfig) return new Set([canonical(constraint.value)]);
+  if (constraint.operator === 'in') return new Set(toArray(constraint.value).map(canonical));
+  return null;
+};
+
+const rejectedValues = (constraint: Constraint): Set<string> | null => {
+  if (constraint.operator === 'not_equals' && !constraint.dateConfig) return new Set([canonical(constraint.value)]);
+  if (constraint.operator === 'not_in') return new Set(toArray(constraint.value).map(canonical));
+  return null;
+};
+
+const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const toTime = (value: any): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const bounded = (kind: Interval['kind'], bound: number, side: 'min' | 'max', open: boolean): Interval => ({
+  kind,
+  min: side === 'min' ? bound : -Infinity,
+  minOpen: side === 'min' && open,
+  max: side === 'max' ? bound : Infinity,
+  maxOpen: side === 'max' && open,
+});
+
+// The range of values a comparison constraint accepts, or null when it is not a comparison
+const intervalOf = (constraint: Constraint): Interval | null => {
+  const { operator, value } = constraint;
+  const number = toNumber(value);
+  const time = toTime(value);
+
+  switch (operator) {
+    case 'greater_than': return number === null ? null : bounded('number', number, 'min', true);
+    case 'greater_than_or_equal': return number === null ? null : bounded('number', number, 'min', false);
+    case 'less_than': return number === null ? null : bounded('number', number, 'max', true);
+    case 'less_than_or_equal': return number === null ? null : bounded('number', number, 'max', false);
+    case 'after': return time === null ? null : bounded('date', time, 'min', true);
+    case 'on_or_after': return time === null ? null : bounded('date', time, 'min', false);
+    case 'before': return time === null ? null : bounded('date', time, 'max', true);
+    case 'on_or_before': return time === null ? null : bounded('date', time, 'max', false);
+    case 'equals':
+      if (constraint.dateConfig && time !== null) return { kind: 'date', min: time, minOpen: false, max: time, maxOpen: false };
+      return null;
+    case 'between': {
+      const range = Array.isArray(value) && value.length === 2
+        ? { start: value[0], end: value[1] }
+        : value && typeof value === 'object' ? value : null;
+      if (!range) return null;
+      const [start, end] = [toNumber(range.start), toNumber(range.end)];
+      if (start !== null && end !== null) return { kind: 'number', min: start, minOpen: false, max: end, maxOpen: false };
+      const [startTime, endTime] = [toTime(range.start), toTime(range.end)];
+      if (startTime !== null && endTime !== null) return { kind: 'date', min: startTime, minOpen: false, max: endTime, maxOpen: false };
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+const intervalsDisjoint = (a: Interval, b: Interval): boolean => {
+  if (a.kind !== b.kind) return false;
+  const lowerOf = (x: Interval, y: Interval) => x.min > y.min || (x.min === y.min && x.minOpen) ? x : y;
+  const upperOf = (x: Interval, y: Interval) => x.max < y.max || (x.max === y.max && x.maxOpen) ? x : y;
+  const lower = lowerOf(a, b);
+  const upper = upperOf(a, b);
+  return lower.min > upper.max || (lower.min === upper.max && (lower.minOpen || upper.maxOpen));
+};
+
+const intervalContains = (outer: Interval, inner: Interval): boolean =>
+  outer.kind === inner.kind
+  && (outer.min < inner.min || (outer.min === inner.min && (!outer.minOpen || inner.minOpen)))
+  && (outer.max > inner.max || (outer.max === inner.max && (!outer.maxOpen || inner.maxOpen)));
+
+const isSubset = (inner: Set<string>, outer: Set<string>): boolean => [...inner].every(value => outer.has(value));
+
+const intersects = (a: Set<string>, b: Set<string>): boolean => [...a].some(value => b.has(value));
+
+/**
+ * Whether no value can satisfy both constraints on the same field.
+ * Attributes are assumed to be single-valued, as equals on two different values is otherwise satisfiable.
+ */
+const disjoint = (a: Constraint, b: Constraint): boolean => {
+  const [acceptedA, acceptedB] = [acceptedValues(a), acceptedValues(b)];
+  if (acceptedA && acceptedB) return !intersects(acceptedA, acceptedB);
+
+  const [rejectedA, rejectedB] = [rejectedValues(a), rejectedValues(b)];
+  if (acceptedA && rejectedB) return isSubset(acceptedA, rejectedB);
+  if (acceptedB && rejectedA) return isSubset(acceptedB, rejectedA);
+
+  const [intervalA, intervalB] = [intervalOf(a), intervalOf(b)];
+  if (intervalA && intervalB) return intervalsDisjoint(intervalA, intervalB);
+
+  return false;
+};
+
+// Whether every value satisfying the given constraints also satisfies the implied one
+const implies = (constraints: Constraint[], implied: Constraint): boolean =>
+  constraints.some(constraint => {
+    if (constraint.operator === implied.operator && canonical(constraint.value) === canonical(implied.value)) return true;
+
+    const accepted = acceptedValues(constraint);
+    const impliedAccepted = acceptedValues(implied);
+    if (accepted && impliedAccepted) return isSubset(accepted, impliedAccepted);
+
+    const impliedRejected = rejectedValues(implied);
+    if (accepted && impliedRejected) return !intersects(accepted, impliedRejected);
+
+    const rejected = rejectedValues(constraint);
+    if (rejected && impliedRejected) return isSubset(impliedRejected, rejected);
+
+    if (constraint.operator === 'includes' && implied.operator === 'includes') {
+      return isSubset(new Set(toArray(implied.value).map(canonical)), new Set(toArray(constraint.value).map(canonical)));
+    }
+
+    const [interval, impliedInterval] = [intervalOf(constraint), intervalOf(implied)];
+    return !!interval && !!impliedInterval && intervalContains(impliedInterval, interval);
+  });
+
+const byField = (constraints: Constraint[]): Map<string, Constraint[]> => {
+  const fields = new Map<string, Constraint[]>();
+  constraints.forEach(constraint => fields.set(constraint.field, [...(fields.get(constraint.field) || []), constraint]));
+  return fields;
+};
+
+const coverageIntersects = (a: Coverage, b: Coverage): boolean => {
+  if (a === WILDCARD) return b === WILDCARD || b.size > 0;
+  if (b === WILDCARD) return a.size > 0;
+  return intersects(a, b);
+};
+
+const coverageContains = (outer: Coverage, inner: Coverage): boolean =>
+  outer === WILDCARD || (inner !== WILDCARD && isSubset(inner, outer));
+
+// Requests matching both rules exist unless a dimension or a pair of constraints excludes them
+const overlaps = (a: RuleScope, b: RuleScope): boolean => {
+  if (!coverageIntersects(a.subjects, b.subjects)
+    || !coverageIntersects(a.actions, b.actions)
+    || !coverageIntersects(a.resources, b.resources)) {
+    return false;
+  }
+
+  const fieldsOfB = byField(b.constraints);
+  return !a.constraints.some(constraint =>
+    (fieldsOfB.get(constraint.field) || []).some(other => disjoint(constraint, other))
+  );
+};
+
+// Whether every request the inner rule matches is also matched by the outer rule
+const subsumes = (outer: RuleScope, inner: RuleScope): boolean => {
+  if (!coverageContains(outer.subjects, inner.subjects)
+    || !coverageContains(outer.actions, inner.actions)
+    || !coverageContains(outer.resources, inner.resources)) {
+    return false;
+  }
+
+  const fieldsOfInner = byField(inner.constraints);
+  return outer.constraints.every(constraint => implies(fieldsOfInner.get(constraint.field) || [], constraint));
+};
+
+const label = (rule: AnalyzedRule): string => `'${rule.policyName}' (${rule.effect}, rule ${rule.ruleId})`;
+
+/**
+ * Statically compares the rules of an environment's policies for contradicting effects,
+ * redundant rules and references to deleted or inactive entities
+ */
+export class PolicyAnalysisService {
+  async analyze(scope: EvaluationScope, options: PolicyAnalysisOptions = {}): Promise<PolicyAnalysisResult> {
+    const { environmentId } = scope;
+    const statuses = options.includeDrafts ? ['Active', 'Draft'] : ['Active'];
+
+    const [policies, combiningAlgorithm, subjects, groups, actions, resources, additionalResources] = await Promise.all([
+      Policy.find({ ...scope, status: { $in: statuses } })
+        .sort({ priority: 1, createdAt: 1 })
+        .select(`${POLICY_SNAPSHOT_FIELDS} status`)
+        .lean() as unknown as Promise<Array<PolicySnapshot & { status: string }>>,
+      PolicyIndexService.loadCombiningAlgorithm(environmentId),
+      Subject.find({ environmentId }).select('id name email type active status').lean(),
+      Subject.find({ environmentId, type: 'group' }).select('id children').lean(),
+      Action.find({ environmentId }).select('id name active').lean(),
+      Resource.find({ environmentId }).select('id name uri type active').lean(),
+      AdditionalResource.find({ environmentId }).select('id name type active').lean(),
+    ]);
+
+    // A subject is also targeted through the groups it belongs to, as in evaluation
+    const groupsByMember = new Map<string, string[]>();
+    groups.forEach(group => (group.children || []).forEach((memberId: string) =>
+      groupsByMember.set(memberId, [...(groupsByMember.get(memberId) || []), group.id])
+    ));
+    const subjectNames = new Map(subjects.map(subject => [subject.id, subject.name]));
+
+    const catalogs: Record<ReferenceKind, EntityCatalog> = {
+      subject: this.catalog(subjects, subject => [
+        subject.id, subject.name, subject.email, subject.type,
+        ...(groupsByMember.get(subject.id) || []).flatMap(groupId => [groupId, subjectNames.get(groupId)]),
+      ], subject => subject.active !== false && subject.status !== 'inactive'),
+      action: this.catalog(actions, action => [action.id, action.name], action => action.active !== false),
+      resource: this.catalog(
+        [...resources, ...additionalResources],
+        resource => [resource.id, resource.name, resource.uri, resource.type],
+        resource => resource.active !== false
+      ),
+      additionalResource: this.catalog(
+        additionalResources,
+        resource => [resource.id, resource.name],
+        resource => resource.active !== false
+      ),
+    };
+
+    const scopes: RuleScope[] = [];
+    const findings: AnalysisFinding[] = [];
+
+    policies.forEach((policy, rank) => {
+      const policyConditions = (policy.conditions || []).map(condition => ({ ...condition, field: normalizeField(condition.field) }));
+      (policy.rules || []).forEach(rule => scopes.push(this.scopeOf(policy, rule, rank, policyConditions, catalogs)));
+
+      const unreachable = this.checkReferences(policy, catalogs);
+      if (unreachable) findings.push(unreachable);
+    });
+
+    scopes.forEach((a, position) => scopes.slice(position + 1).forEach(b => {
+      const finding = a.rule.effect === b.rule.effect
+        ? this.compareRedundancy(a, b, combiningAlgorithm)
+        : this.compareContradiction(a, b, combiningAlgorithm);
+      if (finding) findings.push(finding);
+    }));
+
+    findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+    return {
+      environmentId,
+      combiningAlgorithm,
+      analyzedPolicies: policies.length,
+      analyzedRules: scopes.length,
+      findings,
+      summary: {
+        contradiction: findings.filter(finding => finding.type === 'contradiction').length,
+        redundancy: findings.filter(finding => finding.type === 'redundancy').length,
+        unreachable: findings.filter(finding => finding.type === 'unreachable').length,
+      },
+      analyzedAt: new Date(),
+    };
+  }
+
+  private catalog(
+    documents: any[],
+    identifiers: (document: any) => any[],
+    isActive: (document: any) => boolean
+  ): EntityCatalog {
+    return {
+      entities: documents.map(document => ({
+        id: document.id,
+        identifiers: new Set(identifiers(document).filter(Boolean).map(normalize)),
+        active: isActive(document),
+      })),
+    };
+  }
+
+  /**
+   * Entity ids a target reference covers. References that match no entity still cover
+   * themselves, so that two rules naming the same unknown entity are compared.
+   */
+  private cover(catalog: EntityCatalog, ref: string | undefined): Coverage {
+    if (!ref || ref === WILDCARD) return WILDCARD;
+    const key = normalize(ref);
+    const matches = catalog.entities.filter(entity => entity.identifiers.has(key)).map(entity => entity.id);
+    return new Set(matches.length > 0 ? matches : [`?${key}`]);
+  }
+
+  private scopeOf(
+    policy: PolicySnapshot & { status: string },
+    rule: IPolicyRule,
+    rank: number,
+    policyConditions: Constraint[],
+    catalogs: Record<ReferenceKind, EntityCatalog>
+  ): RuleScope {
+    // The policy-level subject list also targets each rule, as in evaluation
+    let subjects = this.cover(catalogs.subject, rule.subject?.type);
+    if (subjects !== WILDCARD) {
+      (policy.subjects || []).forEach(ref => {
+        const covered = this.cover(catalogs.subject, ref);
+        subjects = subjects === WILDCARD || covered === WILDCARD ? WILDCARD : new Set([...subjects, ...covered]);
+      });
+    }
+
+    return {
+      rule: {
+        policyId: policy.id,
+        policyName: policy.name,
+        effect: policy.effect,
+        status: policy.status,
+        priority: policy.priority,
+        ruleId: rule.id,
+      },
+      rank,
+      subjects,
+      actions: this.cover(catalogs.action, rule.action?.name),
+      resources: this.cover(catalogs.resource, rule.object?.type),
+      constraints: [
+        ...(rule.subject?.attributes || []).map(attribute => ({ ...attribute, field: `subject.${attribute.name}` })),
+        ...(rule.object?.attributes || []).map(attribute => ({ ...attribute, field: `resource.${attribute.name}` })),
+        ...(rule.conditions || []).map(condition => ({ ...condition, field: normalizeField(condition.field) })),
+        ...policyConditions,
+      ],
+    };
+  }
+
+  /**
+   * Which effect applies where both rules match. Returns undefined when evaluation order decides
+   * and the two rules tie.
+   */
+  private winnerOf(a: RuleScope, b: RuleScope, algorithm: CombiningAlgorithm): RuleScope | undefined {
+    const [allow, deny] = a.rule.effect === 'Allow' ? [a, b] : [b, a];
+    switch (algorithm) {
+      case 'permit-overrides':
+      case 'deny-unless-permit':
+        return allow;
+      case 'first-applicable':
+        return a.rank === b.rank ? undefined : a.rank < b.rank ? a : b;
+      case 'deny-overrides':
+      default:
+        return deny;
+    }
+  }
+
+  private compareContradiction(a: RuleScope, b: RuleScope, algorithm: CombiningAlgorithm): AnalysisFinding | null {
+    if (!overlaps(a, b)) return null;
+
+    const winner = this.winnerOf(a, b, algorithm);
+    const loser = winner === a ? b : a;
+    const shadowed = !!winner && subsumes(winner, loser);
+
+    return {
+      type: 'contradiction',
+      severity: shadowed ? 'error' : 'warning',
+      relation: shadowed ? 'shadowed' : 'overlap',
+      message: shadowed
+        ? `${label(loser.rule)} never takes effect: ${label(winner!.rule)} covers every request it matches and wins under ${algorithm}`
+        : `${label(a.rule)} and ${label(b.rule)} match overlapping requests with opposite effects${
+          winner ? `; ${winner.rule.effect} wins under ${algorithm}` : ''
+        }`,
+      policyIds: [...new Set([a.rule.policyId, b.rule.policyId])],
+      rules: [a.rule, b.rule],
+      ...(winner && { winner: winner.rule.effect }),
+    };
+  }
+
+  private compareRedundancy(a: RuleScope, b: RuleScope, algorithm: CombiningAlgorithm): AnalysisFinding | null {
+    const aCoversB = subsumes(a, b);
+    const bCoversA = subsumes(b, a);
+    if (!aCoversB && !bCoversA) return null;
+
+    const policyIds = [...new Set([a.rule.policyId, b.rule.policyId])];
+
+    if (aCoversB && bCoversA) {
+      return {
+        type: 'redundancy',
+        severity: 'warning',
+        relation: 'duplicate',
+        message: `${label(a.rule)} and ${label(b.rule)} match exactly the same requests`,
+        policyIds,
+        rules: [a.rule, b.rule],
+      };
+    }
+
+    const [outer, inner] = aCoversB ? [a, b] : [b, a];
+    // Under first-applicable a narrower rule evaluated first can still decide ahead of a policy in between
+    if (algorithm === 'first-applicable' && outer.rank > inner.rank) return null;
+
+    return {
+      type: 'redundancy',
+      severity: 'info',
+      relation: 'subsumed',
+      message: `${label(inner.rule)} is redundant: ${label(outer.rule)} already matches every request it matches`,
+      policyIds,
+      rules: [inner.rule, outer.rule],
+    };
+  }
+
+  /**
+   * Reports references to missing or inactive entities. The policy is unreachable when each of
+   * its rules targets a dimension that no active entity falls in.
+   */
+  private checkReferences(
+    policy: PolicySnapshot & { status: string },
+    catalogs: Record<ReferenceKind, EntityCatalog>
+  ): AnalysisFinding | null {
+    const references: DanglingReference[] = [];
+
+    const check = (kind: ReferenceKind, ref: string | undefined, ruleId?: string): boolean => {
+      if (!ref || ref === WILDCARD) return true;
+      const key = normalize(ref);
+      const matches = catalogs[kind].entities.filter(entity => entity.identifiers.has(key));
+      const active = matches.some(entity => entity.active);
+      if (!active && !references.some(reference => reference.kind === kind && normalize(reference.ref) === key && reference.ruleId === ruleId)) {
+        references.push({ kind, ref, reason: matches.length > 0 ? 'inactive' : 'missing', ...(ruleId && { ruleId }) });
+      }
+      return active;
+    };
+
+    const policySubjects = (policy.subjects || []).map(ref => check('subject', ref));
+    (policy.actions || []).forEach(ref => check('action', ref));
+    (policy.resources || []).forEach(ref => check('resource', ref));
+    (policy.additionalResources || []).forEach(additional => check('additionalResource', additional.id));
+
+    const rules = [...(policy.rules || []), ...(policy.complexRules || [])];
+    const deadRules = rules.filter(rule => {
+      const subjectReachable = check('subject', rule.subject?.type, rule.id) || policySubjects.some(Boolean);
+      const actionReachable = check('action', rule.action?.name, rule.id);
+      const resourceReachable = check('resource', rule.object?.type, rule.id);
+      return !subjectReachable || !actionReachable || !resourceReachable;
+    });
+
+    if (references.length === 0) return null;
+
+    const unreachable = rules.length > 0 && deadRules.length === rules.length;
+    const toRule = (ruleId: string): AnalyzedRule => ({
+      policyId: policy.id,
+      policyName: policy.name,
+      effect: policy.effect,
+      status: policy.status,
+      priority: policy.priority,
+      ruleId,
+    });
+
+    return {
+      type: 'unreachable',
+      severity: unreachable ? 'error' : 'warning',
+      message: unreachable
+        ? `'${policy.name}' can never apply: every rule targets only deleted or inactive entities`
+        : `'${policy.name}' references ${references.length} deleted or inactive entit${references.length === 1 ? 'y' : 'ies'}${
+          deadRules.length > 0 ? `; ${deadRules.length} of its ${rules.length} rules can never match` : ''
+        }`,
+      policyIds: [policy.id],
+      rules: deadRules.map(rule => toRule(rule.id)),
+      references,
+    };
+  }
+}
+
+export default new PolicyAnalysisService();
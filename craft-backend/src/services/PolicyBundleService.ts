@@ -0,0 +1,441 @@
+import mongoose from 'mongoose';
+import yaml from 'js-yaml';
+import { AuthorizationError, NotFoundError, ValidationError } from '../exceptions/AppError';
+import { Application } from '../models/Application';
+import { Environment, IEnvironment } from '../models/Environment';
+import { IPolicy, Policy } from '../models/Policy';
+import { Workspace } from '../models/Workspace';
+import { logger } from '../utils/logger';
+import ChangeRequestService, { ChangeActor } from './ChangeRequestService';
+import PolicyChangeService from './PolicyChangeService';
+import PolicyRevisionService, { plain } from './PolicyRevisionService';
+import PromotionService, {
+  ENTITY_SPECS,
+  EntityPromotion,
+  EntitySet,
+  PLACEMENT_FIELDS,
+  PromotionAction,
+  PromotionKind,
+  omit,
+  referencesOf,
+  remapPolicy,
+} from './PromotionService';
+
+export const BUNDLE_KIND = 'craft-policy-bundle';
+export const BUNDLE_SCHEMA_VERSION = 1;
+
+export type BundleFormat = 'json' | 'yaml';
+export type BundleImportMode = 'merge' | 'replace';
+export type BundlePolicyAction = PromotionAction | 'delete';
+
+// Entity collections of a bundle, by promotion kind
+const COLLECTIONS: Record<PromotionKind, string> = {
+  subject: 'subjects',
+  action: 'actions',
+  resource: 'resources',
+  additionalResource: 'additionalResources',
+  attribute: 'attributes',
+};
+
+export interface PolicyBundle {
+  schemaVersion: number;
+  kind: typeof BUNDLE_KIND;
+  exportedAt: string;
+  exportedBy: string;
+  source: {
+    workspace: string;
+    application: string;
+    environment: string;
+    combiningAlgorithm?: string;
+  };
+  policies: Array<Record<string, any>>;
+  subjects: Array<Record<string, any>>;
+  actions: Array<Record<string, any>>;
+  resources: Array<Record<string, any>>;
+  additionalResources: Array<Record<string, any>>;
+  attributes: Array<Record<string, any>>;
+}
+
+export interface BundleValidationIssue {
+  path: string; // e.g. "policies[2].effect"
+  message: string;
+}
+
+export interface BundlePolicyImport {
+  name: string;
+  action: BundlePolicyAction;
+  targetId?: string;
+  fields: string[];
+  rules: number;
+  summary: string;
+  reason?: string;
+  changeRequestId?: string;
+}
+
+export interface BundleImportPlan {
+  target: { id: string; name: string };
+  mode: BundleImportMode;
+  dryRun: boolean;
+  entities: EntityPromotion[];
+  policies: BundlePolicyImport[];
+  unresolved: Array<{ kind: PromotionKind; ref: string }>;
+  summary: Record<BundlePolicyAction, number>;
+}
+
+export interface BundleImportOptions {
+  targetEnvironmentId: string;
+  mode?: BundleImportMode;
+  dryRun?: boolean;
+  workspaceIds?: string[]; // Workspaces the caller may access, unrestricted when absent
+}
+
+const byName = (a: Record<string, any>, b: Record<string, any>): number =>
+  String(a.name).localeCompare(String(b.name)) || String(a.id).localeCompare(String(b.id));
+
+const isRecord = (value: any): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Exports an environment's policies with the entities they reference as a self-contained,
+ * versioned bundle, and imports such bundles into an environment. Everything is sorted so that
+ * bundles kept in git diff cleanly. Imports reuse the promotion planner: entities are matched by
+ * name, policies by the name they are unique by within an environment.
+ */
+export class PolicyBundleService {
+  async export(
+    environmentId: string,
+    options: { policyIds?: string[]; workspaceIds?: string[] },
+    actor: ChangeActor
+  ): Promise<PolicyBundle> {
+    const environment = await this.findEnvironment(environmentId, options.workspaceIds);
+
+    // System policies such as break-glass grants belong to the environment, not its configuration
+    const filter: Record<string, any> = { environmentId: String(environment._id), 'metadata.isSystem': { $ne: true } };
+    if (options.policyIds && options.policyIds.length > 0) {
+      filter.id = { $in: options.policyIds };
+    }
+    const policies = await Policy.find(filter).lean();
+    const entities = await PromotionService.collectEntities(String(environment._id), policies);
+
+    const [workspace, application] = await Promise.all([
+      Workspace.findById(environment.workspaceId).select('name').lean(),
+      Application.findById(environment.applicationId).select('name').lean(),
+    ]);
+
+    return {
+      schemaVersion: BUNDLE_SCHEMA_VERSION,
+      kind: BUNDLE_KIND,
+      exportedAt: new Date().toISOString(),
+      exportedBy: actor.email,
+      source: {
+        workspace: workspace?.name || String(environment.workspaceId),
+        application: application?.name || String(environment.applicationId),
+        environment: environment.name,
+        combiningAlgorithm: environment.combiningAlgorithm,
+      },
+      policies: policies.map(policy => plain({
+        id: policy.id,
+        ...PolicyRevisionService.contentOf(policy),
+        ...(policy.activateAt && { activateAt: policy.activateAt }),
+        ...(policy.expireAt && { expireAt: policy.expireAt }),
+      })).sort(byName),
+      ...ENTITY_SPECS.reduce((collections, spec) => ({
+        ...collections,
+        [COLLECTIONS[spec.kind]]: entities[spec.kind]
+          .map(entity => plain({ id: entity.id, ...omit(entity, PLACEMENT_FIELDS) }))
+          .sort(byName),
+      }), {} as Record<string, any[]>),
+    } as PolicyBundle;
+  }
+
+  serialize(bundle: PolicyBundle, format: BundleFormat): string {
+    return format === 'yaml'
+      ? yaml.dump(bundle, { noRefs: true, lineWidth: 120 })
+      : `${JSON.stringify(bundle, null, 2)}\n`;
+  }
+
+  /**
+   * Reads a JSON or YAML bundle. JSON is a subset of YAML, so both go through the YAML parser.
+   */
+  parse(content: string): PolicyBundle {
+    let parsed: unknown;
+    try {
+      parsed = yaml.load(content, { schema: yaml.JSON_SCHEMA });
+    } catch (error: any) {
+      throw new ValidationError(`Bundle is neither valid JSON nor YAML: ${error.reason || error.message}`);
+    }
+    if (!isRecord(parsed)) {
+      throw new ValidationError('Bundle must be a JSON or YAML object');
+    }
+    return parsed as PolicyBundle;
+  }
+
+  /**
+   * Plans an import and, unless it is a dry run, applies it. In merge mode policies whose name is
+   * taken in the target conflict; in replace mode they are updated, and policies of the target
+   * that are not in the bundle are deleted. Policy changes in a protected target become change
+   * requests.
+   */
+  async import(bundle: PolicyBundle, options: BundleImportOptions, actor: ChangeActor): Promise<BundleImportPlan> {
+    const mode: BundleImportMode = options.mode || 'merge';
+    if (mode !== 'merge' && mode !== 'replace') {
+      throw new ValidationError('Mode must be one of: merge, replace');
+    }
+    const dryRun = options.dryRun !== false;
+
+    const target = await this.findEnvironment(options.targetEnvironmentId, options.workspaceIds);
+    const targetId = String(target._id);
+    this.validate(bundle, target, actor);
+
+    const bundleEntities = ENTITY_SPECS.reduce(
+      (set, spec) => ({ ...set, [spec.kind]: bundle[COLLECTIONS[spec.kind] as keyof PolicyBundle] || [] }),
+      {} as EntitySet
+    );
+    const { entities, documents, idMap, conflicted } = await PromotionService.planEntities(bundleEntities, targetId, mode === 'replace');
+    const references = bundle.policies.map(referencesOf);
+    const unresolved = PromotionService.unresolvedReferences(references, idMap);
+
+    const targetPolicies = await Policy.find({ environmentId: targetId });
+    const policyPlans = bundle.policies.map((bundlePolicy, index) => {
+      const content = remapPolicy(bundlePolicy, idMap);
+      const existing = targetPolicies.find(candidate => candidate.name === bundlePolicy.name);
+      const blockedBy = ENTITY_SPECS.flatMap(spec => [...references[index]![spec.kind]]
+        .filter(ref => conflicted.has(`${spec.kind}:${ref}`) || (spec.kind === 'resource' && conflicted.has(`additionalResource:${ref}`)))
+        .map(ref => `${spec.label} ${ref}`));
+      const diff = existing
+        ? PolicyRevisionService.diff(PolicyRevisionService.contentOf(existing), PolicyRevisionService.contentOf(content), {
+          from: existing.metadata.version,
+          to: existing.metadata.version,
+        })
+        : null;
+
+      let action: BundlePolicyAction = 'create';
+      let reason: string | undefined;
+      if (blockedBy.length > 0) {
+        action = 'conflict';
+        reason = `References conflicting ${blockedBy.join(', ')}`;
+      } else if (existing?.metadata.isSystem) {
+        action = 'conflict';
+        reason = 'A system policy with the same name exists in the target environment';
+      } else if (existing && mode === 'merge') {
+        action = 'conflict';
+        reason = 'A policy with the same name exists in the target environment';
+      } else if (diff) {
+        action = PolicyRevisionService.determineBump(diff) || this.scheduleChanged(existing!, content) ? 'update' : 'unchanged';
+      }
+
+      const policyImport: BundlePolicyImport = {
+        name: bundlePolicy.name,
+        action,
+        ...(existing && { targetId: existing.id }),
+        fields: diff ? diff.fields.map(change => change.field) : [],
+        rules: diff ? diff.rules.length : 0,
+        summary: diff ? PolicyRevisionService.summarize(diff) : 'New policy',
+        ...(reason && { reason }),
+      };
+      return { policyImport, content, existing };
+    });
+
+    const removed = mode === 'replace'
+      ? targetPolicies.filter(policy => !policy.metadata.isSystem && !bundle.policies.some(bundlePolicy => bundlePolicy.name === policy.name))
+      : [];
+    const deletions = removed.map(existing => ({
+      policyImport: {
+        name: existing.name,
+        action: 'delete',
+        targetId: existing.id,
+        fields: [],
+        rules: 0,
+        summary: 'Not in the bundle',
+      } as BundlePolicyImport,
+      existing,
+    }));
+
+    const plan: BundleImportPlan = {
+      target: { id: targetId, name: target.displayName },
+      mode,
+      dryRun,
+      entities,
+      policies: [...policyPlans, ...deletions].map(({ policyImport }) => policyImport),
+      unresolved,
+      summary: [...entities, ...policyPlans.map(({ policyImport }) => policyImport), ...deletions.map(({ policyImport }) => policyImport)].reduce(
+        (summary, item) => ({ ...summary, [item.action]: summary[item.action] + 1 }),
+        { create: 0, update: 0, unchanged: 0, conflict: 0, delete: 0 } as Record<BundlePolicyAction, number>
+      ),
+    };
+
+    if (!dryRun) {
+      await PromotionService.applyEntities(entities, documents, target);
+      await this.applyPolicies([...policyPlans, ...deletions], target, actor);
+      logger.info(`Imported policy bundle into ${target.name} (${mode}) by ${actor.email}`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Checks a bundle's envelope and every policy and entity against the models' constraints,
+   * reporting all problems at once
+   */
+  private validate(bundle: PolicyBundle, target: IEnvironment, actor: ChangeActor): void {
+    if (!isRecord(bundle) || bundle.kind !== BUNDLE_KIND) {
+      throw new ValidationError(`Not a policy bundle: kind must be ${BUNDLE_KIND}`);
+    }
+    if (bundle.schemaVersion !== BUNDLE_SCHEMA_VERSION) {
+      throw new ValidationError(`Unsupported bundle schema version ${bundle.schemaVersion}; expected ${BUNDLE_SCHEMA_VERSION}`);
+    }
+
+    const issues: BundleValidationIssue[] = [];
+    const placement = {
+      workspaceId: String(target.workspaceId),
+      applicationId: String(target.applicationId),
+      environmentId: String(target._id),
+    };
+    const collect = (path: string, error: mongoose.Error.ValidationError | undefined | null) => {
+      Object.values(error?.errors || {})
+        .filter(fieldError => !issues.some(issue => issue.path === `${path}.${fieldError.path}`))
+        .forEach(fieldError => issues.push({ path: `${path}.${fieldError.path}`, message: fieldError.message }));
+    };
+    const checkList = (collection: string, items: unknown, onItem: (item: Record<string, any>, path: string) => void) => {
+      if (!Array.isArray(items)) {
+        issues.push({ path: collection, message: `${collection} must be an array` });
+        return;
+      }
+      const names = new Set<string>();
+      items.forEach((item, index) => {
+        const path = `${collection}[${index}]`;
+        if (!isRecord(item) || typeof item.name !== 'string' || !item.name) {
+          issues.push({ path, message: 'Each entry must be an object with a name' });
+          return;
+        }
+        if (names.has(item.name)) {
+          issues.push({ path: `${path}.name`, message: `Duplicate name ${item.name}` });
+        }
+        names.add(item.name);
+        onItem(item, path);
+      });
+    };
+
+    checkList('policies', bundle.policies, (policy, path) => {
+      collect(path, new Policy(this.policyData(policy, placement, actor)).validateSync());
+    });
+    ENTITY_SPECS.forEach(spec => {
+      const collection = COLLECTIONS[spec.kind];
+      checkList(collection, bundle[collection as keyof PolicyBundle], (entity, path) => {
+        if (typeof entity.id !== 'string' || !entity.id) {
+          issues.push({ path: `${path}.id`, message: 'An ID is required' });
+        }
+        collect(path, new spec.model({ ...omit(entity, PLACEMENT_FIELDS), id: entity.id, ...placement }).validateSync());
+      });
+    });
+
+    if (issues.length > 0) {
+      throw new ValidationError(`Bundle is invalid: ${issues.length} problem(s) found`, { errors: issues });
+    }
+  }
+
+  private policyData(content: Record<string, any>, placement: Record<string, string>, actor: ChangeActor): Record<string, any> {
+    const { tags, ...fields } = PolicyRevisionService.contentOf(content);
+    return {
+      ...fields,
+      activateAt: content.activateAt ?? null,
+      expireAt: content.expireAt ?? null,
+      ...placement,
+      metadata: {
+        createdBy: actor.email,
+        lastModifiedBy: actor.email,
+        tags,
+        version: '1.0.0',
+        isSystem: false,
+        isCustom: true,
+      },
+    };
+  }
+
+  // The schedule is not part of a policy's revisioned content, so it is compared separately
+  private scheduleChanged(existing: IPolicy, content: Record<string, any>): boolean {
+    const time = (value: any) => (value ? new Date(value).getTime() : null);
+    return time(existing.activateAt) !== time(content.activateAt) || time(existing.expireAt) !== time(content.expireAt);
+  }
+
+  private async applyPolicies(
+    plans: Array<{ policyImport: BundlePolicyImport; content?: Record<string, any>; existing?: IPolicy }>,
+    target: IEnvironment,
+    actor: ChangeActor
+  ) {
+    const approvalEnvironment = await ChangeRequestService.approvalEnvironment(String(target._id));
+    const placement = {
+      workspaceId: String(target.workspaceId),
+      applicationId: String(target.applicationId),
+      environmentId: String(target._id),
+    };
+    const comment = 'Imported from a policy bundle';
+
+    for (const { policyImport, content, existing } of plans) {
+      if (policyImport.action === 'create') {
+        const policyData = this.policyData(content!, placement, actor);
+
+        if (approvalEnvironment) {
+          const request = await ChangeRequestService.submit({
+            operation: 'create',
+            environment: approvalEnvironment,
+            policyName: policyImport.name,
+            payload: policyData,
+            comment,
+            requestedBy: actor,
+          });
+          policyImport.changeRequestId = request.id;
+        } else {
+          policyImport.targetId = (await PolicyChangeService.create(policyData, actor.email)).id;
+        }
+      } else if (policyImport.action === 'update') {
+        const { metadata, ...fields } = this.policyData(content!, placement, actor);
+        const updates = { ...omit(fields, Object.keys(placement)), metadata: { tags: metadata.tags } };
+
+        if (approvalEnvironment) {
+          const request = await ChangeRequestService.submit({
+            operation: 'update',
+            environment: approvalEnvironment,
+            policyId: existing!.id,
+            policyName: existing!.name,
+            payload: updates,
+            baseVersion: existing!.metadata.version,
+            comment,
+            requestedBy: actor,
+          });
+          policyImport.changeRequestId = request.id;
+        } else {
+          await PolicyChangeService.update(existing!, updates, actor.email);
+        }
+      } else if (policyImport.action === 'delete') {
+        if (approvalEnvironment) {
+          const request = await ChangeRequestService.submit({
+            operation: 'delete',
+            environment: approvalEnvironment,
+            policyId: existing!.id,
+            policyName: existing!.name,
+            baseVersion: existing!.metadata.version,
+            comment,
+            requestedBy: actor,
+          });
+          policyImport.changeRequestId = request.id;
+        } else {
+          await PolicyChangeService.remove(existing!);
+        }
+      }
+    }
+  }
+
+  private async findEnvironment(id: string, workspaceIds?: string[]): Promise<IEnvironment> {
+    const environment = id && mongoose.isValidObjectId(id) ? await Environment.findOne({ _id: id, active: true }) : null;
+    if (!environment) {
+      throw new NotFoundError('Environment');
+    }
+    if (workspaceIds && !workspaceIds.includes(String(environment.workspaceId))) {
+      throw new AuthorizationError('Access denied to this environment');
+    }
+    return environment;
+  }
+}
+
+export default new PolicyBundleService();
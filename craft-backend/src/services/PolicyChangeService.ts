@@ -0,0 +1,48 @@
+import { IPolicy, Policy } from '../models/Policy';
+import PolicyIndexService from './PolicyIndexService';
+import PolicyRevisionService from './PolicyRevisionService';
+
+/**
+ * Persists policy creates, updates and deletes with their side effects: the evaluation index is
+ * invalidated and the revision history recorded. Used for direct changes and for changes applied
+ * from an approved change request.
+ */
+export class PolicyChangeService {
+  async create(policyData: Record<string, any>, author: string): Promise<IPolicy> {
+    const policy = await Policy.create(policyData);
+    PolicyIndexService.invalidate(policy.environmentId);
+    await PolicyRevisionService.recordInitial(policy, author);
+    return policy;
+  }
+
+  /**
+   * Applies validated field updates to a policy. Metadata is merged into the stored metadata and
+   * the version is kept, so it is only ever bumped from the revision history.
+   */
+  async update(existing: IPolicy, updates: Record<string, any>, author: string): Promise<IPolicy | null> {
+    const changes = {
+      ...updates,
+      metadata: {
+        ...existing.toObject().metadata,
+        ...(updates.metadata || {}),
+        lastModifiedBy: author,
+        version: existing.metadata.version,
+      },
+    };
+
+    const before = PolicyRevisionService.contentOf(existing);
+    const policy = await Policy.findByIdAndUpdate(existing._id, changes, { new: true, runValidators: true });
+    PolicyIndexService.invalidateMany([existing.environmentId, policy?.environmentId as string]);
+    if (policy) {
+      await PolicyRevisionService.recordUpdate(before, existing.metadata.version, policy, author);
+    }
+    return policy;
+  }
+
+  async remove(policy: IPolicy): Promise<void> {
+    await Policy.findByIdAndDelete(policy._id);
+    PolicyIndexService.invalidate(policy.environmentId);
+  }
+}
+
+export default new PolicyChangeService();
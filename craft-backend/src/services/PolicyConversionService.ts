@@ -0,0 +1,1043 @@
+import { XMLBuilder, XMLParser, XMLValidator } from 'fast-xml-parser';
+import { ValidationError } from '../exceptions/AppError';
+import { CombiningAlgorithm, Environment } from '../models/Environment';
+import { IPolicyAttribute, IPolicyCondition } from '../models/Policy';
+import { ChangeActor } from './ChangeRequestService';
+import PolicyBundleService, {
+  BUNDLE_KIND,
+  BUNDLE_SCHEMA_VERSION,
+  BundleImportOptions,
+  BundleImportPlan,
+  PolicyBundle,
+} from './PolicyBundleService';
+import { ENTITY_SPECS, PromotionKind } from './PromotionService';
+
+export type ConversionFormat = 'xacml' | 'iam';
+
+export const CONVERSION_FORMATS: ConversionFormat[] = ['xacml', 'iam'];
+
+export interface ConversionExport {
+  format: ConversionFormat;
+  content: string;
+  warnings: string[];
+}
+
+export interface ConversionImportPlan extends BundleImportPlan {
+  format: ConversionFormat;
+  warnings: string[];
+}
+
+type Operator = IPolicyAttribute['operator'];
+type RefKind = 'subject' | 'action' | 'resource';
+type Category = RefKind | 'environment';
+
+// An attribute filter of a rule's subject or resource, or a condition on a field such as "environment.time"
+interface Filter {
+  scope: 'subject' | 'resource' | 'condition';
+  name: string;
+  operator: Operator;
+  value: IPolicyAttribute['value'];
+}
+
+interface Target {
+  refs: Record<RefKind, string[]>;
+  filters: Filter[];
+}
+
+interface ConvertedRule {
+  effect: 'Allow' | 'Deny';
+  target: Target;
+}
+
+interface ConvertedPolicies {
+  policies: Array<Record<string, any>>;
+  warnings: string[];
+  combiningAlgorithm?: CombiningAlgorithm;
+}
+
+// A parsed XML element; the parser's ordered output keeps the order of mixed children, which
+// decides the meaning of XACML function arguments
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const WILDCARD = '*';
+const REF_KINDS: RefKind[] = ['subject', 'action', 'resource'];
+
+const XACML_NS = 'urn:oasis:names:tc:xacml:3.0:core:schema:wd-17';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+const FN1 = 'urn:oasis:names:tc:xacml:1.0:function:';
+const FN3 = 'urn:oasis:names:tc:xacml:3.0:function:';
+const POLICY_ID_PREFIX = 'urn:craft:policy:';
+const RULE_COMBINING_ALGORITHM = 'urn:oasis:names:tc:xacml:3.0:rule-combining-algorithm:deny-overrides';
+
+const CATEGORIES: Record<Category, string> = {
+  subject: 'urn:oasis:names:tc:xacml:1.0:subject-category:access-subject',
+  action: 'urn:oasis:names:tc:xacml:3.0:attribute-category:action',
+  resource: 'urn:oasis:names:tc:xacml:3.0:attribute-category:resource',
+  environment: 'urn:oasis:names:tc:xacml:3.0:attribute-category:environment',
+};
+
+const ID_ATTRIBUTES: Record<RefKind, string> = {
+  subject: 'urn:oasis:names:tc:xacml:1.0:subject:subject-id',
+  action: 'urn:oasis:names:tc:xacml:1.0:action:action-id',
+  resource: 'urn:oasis:names:tc:xacml:1.0:resource:resource-id',
+};
+
+const POLICY_COMBINING_ALGORITHMS: Record<CombiningAlgorithm, string> = {
+  'deny-overrides': 'urn:oasis:names:tc:xacml:3.0:policy-combining-algorithm:deny-overrides',
+  'permit-overrides': 'urn:oasis:names:tc:xacml:3.0:policy-combining-algorithm:permit-overrides',
+  'first-applicable': 'urn:oasis:names:tc:xacml:1.0:policy-combining-algorithm:first-applicable',
+  'deny-unless-permit': 'urn:oasis:names:tc:xacml:3.0:policy-combining-algorithm:deny-unless-permit',
+};
+
+const DATE_OPERATORS: Operator[] = ['before', 'after', 'between', 'on_or_before', 'on_or_after'];
+
+const NEGATIONS: Partial<Record<Operator, Operator>> = {
+  equals: 'not_equals',
+  in: 'not_in',
+  contains: 'not_contains',
+  includes: 'not_includes',
+};
+
+// XACML comparison functions by the operator they express with the attribute as first argument
+const COMPARISONS: Record<string, { numeric: Operator; date: Operator; flipped: string }> = {
+  'greater-than': { numeric: 'greater_than', date: 'after', flipped: 'less-than' },
+  'less-than': { numeric: 'less_than', date: 'before', flipped: 'greater-than' },
+  'greater-than-or-equal': { numeric: 'greater_than_or_equal', date: 'on_or_after', flipped: 'less-than-or-equal' },
+  'less-than-or-equal': { numeric: 'less_than_or_equal', date: 'on_or_before', flipped: 'greater-than-or-equal' },
+};
+
+const COMPARISON_FUNCTIONS: Partial<Record<Operator, string>> = {
+  greater_than: 'greater-than',
+  after: 'greater-than',
+  less_than: 'less-than',
+  before: 'less-than',
+  greater_than_or_equal: 'greater-than-or-equal',
+  on_or_after: 'greater-than-or-equal',
+  less_than_or_equal: 'less-than-or-equal',
+  on_or_before: 'less-than-or-equal',
+};
+
+// IAM condition operators by the CRAFT operator they express; numbers use the Numeric variants
+const IAM_OPERATORS: Partial<Record<Operator, string>> = {
+  equals: 'StringEquals',
+  not_equals: 'StringNotEquals',
+  in: 'StringEquals',
+  not_in: 'StringNotEquals',
+  contains: 'StringLike',
+  not_contains: 'StringNotLike',
+  includes: 'ForAnyValue:StringEquals',
+  not_includes: 'ForAllValues:StringNotEquals',
+  greater_than: 'NumericGreaterThan',
+  less_than: 'NumericLessThan',
+  greater_than_or_equal: 'NumericGreaterThanEquals',
+  less_than_or_equal: 'NumericLessThanEquals',
+  before: 'DateLessThan',
+  after: 'DateGreaterThan',
+  on_or_before: 'DateLessThanEquals',
+  on_or_after: 'DateGreaterThanEquals',
+};
+
+const NUMERIC_IAM_OPERATORS: Partial<Record<Operator, string>> = {
+  equals: 'NumericEquals',
+  not_equals: 'NumericNotEquals',
+};
+
+const FROM_IAM_OPERATORS: Record<string, Operator> = {
+  StringEquals: 'equals',
+  StringEqualsIgnoreCase: 'equals',
+  StringNotEquals: 'not_equals',
+  StringNotEqualsIgnoreCase: 'not_equals',
+  StringLike: 'contains',
+  StringNotLike: 'not_contains',
+  'ForAnyValue:StringEquals': 'includes',
+  'ForAllValues:StringNotEquals': 'not_includes',
+  NumericEquals: 'equals',
+  NumericNotEquals: 'not_equals',
+  NumericGreaterThan: 'greater_than',
+  NumericLessThan: 'less_than',
+  NumericGreaterThanEquals: 'greater_than_or_equal',
+  NumericLessThanEquals: 'less_than_or_equal',
+  DateEquals: 'equals',
+  DateNotEquals: 'not_equals',
+  DateLessThan: 'before',
+  DateGreaterThan: 'after',
+  DateLessThanEquals: 'on_or_before',
+  DateGreaterThanEquals: 'on_or_after',
+  Bool: 'equals',
+};
+
+const IAM_VERSION = '2012-10-17';
+
+const isRecord = (value: any): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const localName = (id: string): string => id.split(/[:#/]/).pop() || id;
+
+// string-equal, integer-equal, ... but not the ordering functions such as integer-greater-than-or-equal
+const isEquality = (fn: string): boolean => fn.endsWith('-equal') && !fn.includes('-than-');
+
+const isRange = (value: any): value is { start: string; end: string } =>
+  isRecord(value) && 'start' in value && 'end' in value;
+
+const dateConfigOf = (operator: Operator, value: any) => (
+  DATE_OPERATORS.includes(operator)
+    ? { dateConfig: { includeTime: /T\d|\d:\d/.test(JSON.stringify(value)), isRange: operator === 'between' } }
+    : {}
+);
+
+// Fields of rule conditions name their category, e.g. "subject.department" or "environment.time"
+const categoryOfField = (field: string): Category => {
+  const prefix = field.split('.')[0] as Category;
+  return prefix in CATEGORIES ? prefix : 'environment';
+};
+
+const ruleFilters = (rule: any, policyConditions: IPolicyCondition[]): Filter[] => [
+  ...(rule.subject?.attributes || []).map((attribute: IPolicyAttribute) => ({ scope: 'subject', ...attribute })),
+  ...(rule.object?.attributes || []).map((attribute: IPolicyAttribute) => ({ scope: 'resource', ...attribute })),
+  ...[...(rule.conditions || []), ...policyConditions].map((condition: IPolicyCondition) => ({
+    scope: 'condition',
+    name: condition.field,
+    operator: condition.operator,
+    value: condition.value,
+  })),
+];
+
+/**
+ * Converts CRAFT policies to and from XACML 3.0 policy sets and AWS-IAM-style policy documents.
+ * Imports go through the bundle importer, so they get the same dry run, validation and conflict
+ * handling; constructs that have no equivalent on the other side are reported as warnings
+ * instead of failing the conversion.
+ */
+export class PolicyConversionService {
+  private ruleCount = 0;
+
+  async export(
+    environmentId: string,
+    format: ConversionFormat,
+    options: { policyIds?: string[]; workspaceIds?: string[] },
+    actor: ChangeActor
+  ): Promise<ConversionExport & { bundle: PolicyBundle }> {
+    const bundle = await PolicyBundleService.export(environmentId, options, actor);
+    const { content, warnings } = format === 'xacml' ? this.toXacml(bundle) : this.toIam(bundle);
+    return { format, content, warnings, bundle };
+  }
+
+  /**
+   * Converts the content and plans its import into an environment. Converted policies are
+   * imported as drafts in merge mode so that they can be reviewed before they take effect;
+   * references are matched to the environment's subjects, actions and resources by ID or name.
+   */
+  async import(
+    content: string,
+    format: ConversionFormat,
+    options: BundleImportOptions,
+    actor: ChangeActor
+  ): Promise<ConversionImportPlan> {
+    const converted = format === 'xacml' ? this.fromXacml(content) : this.fromIam(content);
+    const warnings = [...converted.warnings];
+    if (converted.policies.length === 0) {
+      throw new ValidationError(`No policies found in the ${format === 'xacml' ? 'XACML' : 'IAM'} document`, { warnings });
+    }
+
+    const { policies, unresolved } = await this.resolveReferences(converted.policies, options.targetEnvironmentId);
+    const bundle: PolicyBundle = {
+      schemaVersion: BUNDLE_SCHEMA_VERSION,
+      kind: BUNDLE_KIND,
+      exportedAt: new Date().toISOString(),
+      exportedBy: actor.email,
+      source: { workspace: '', application: '', environment: '' },
+      policies,
+      subjects: [],
+      actions: [],
+      resources: [],
+      additionalResources: [],
+      attributes: [],
+    };
+
+    const plan = await PolicyBundleService.import(bundle, { ...options, mode: 'merge' }, actor);
+
+    const environment = await Environment.findById(plan.target.id).select('combiningAlgorithm').lean();
+    if (environment && converted.combiningAlgorithm && converted.combiningAlgorithm !== environment.combiningAlgorithm) {
+      warnings.push(`The policies combine with ${converted.combiningAlgorithm}, but the environment uses ${environment.combiningAlgorithm}`);
+    }
+    return { ...plan, unresolved, format, warnings };
+  }
+
+  toXacml(bundle: PolicyBundle): { content: string; warnings: string[] } {
+    const warnings: string[] = [];
+    const algorithm = (bundle.source.combiningAlgorithm || 'deny-overrides') as CombiningAlgorithm;
+    // Lower priorities are evaluated first, which is what the order of a first-applicable policy set expresses
+    const policies = [...bundle.policies].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+    const policySet = {
+      '@_xmlns': XACML_NS,
+      '@_PolicySetId': `urn:craft:environment:${encodeURIComponent(bundle.source.environment)}`,
+      '@_Version': '1.0',
+      '@_PolicyCombiningAlgId': POLICY_COMBINING_ALGORITHMS[algorithm] || POLICY_COMBINING_ALGORITHMS['deny-overrides'],
+      Description: `Policies of ${[bundle.source.workspace, bundle.source.application, bundle.source.environment].join(' / ')}`,
+      Target: '',
+      Policy: policies.map(policy => {
+        this.exportWarnings(policy, 'XACML').forEach(warning => warnings.push(warning));
+        return {
+          '@_PolicyId': `${POLICY_ID_PREFIX}${encodeURIComponent(policy.name)}`,
+          '@_Version': '1.0',
+          '@_RuleCombiningAlgId': RULE_COMBINING_ALGORITHM,
+          ...(policy.description && { Description: policy.description }),
+          Target: '',
+          Rule: (policy.rules || []).map((rule: any, index: number) => {
+            const expressions = ruleFilters(rule, policy.conditions || []).map(filter => this.xacmlExpression(filter));
+            const matches = REF_KINDS
+              .map(kind => ({ kind, ref: kind === 'subject' ? rule.subject?.type : kind === 'action' ? rule.action?.name : rule.object?.type }))
+              .filter(({ ref }) => ref && ref !== WILDCARD)
+              .map(({ kind, ref }) => ({
+                AllOf: {
+                  Match: {
+                    '@_MatchId': `${FN1}string-equal`,
+                    AttributeValue: this.xacmlValue(ref, 'string'),
+                    AttributeDesignator: this.xacmlDesignator(kind, ID_ATTRIBUTES[kind], 'string'),
+                  },
+                },
+              }));
+
+            return {
+              '@_RuleId': `urn:craft:rule:${encodeURIComponent(rule.id || String(index + 1))}`,
+              '@_Effect': policy.effect === 'Deny' ? 'Deny' : 'Permit',
+              Target: matches.length > 0 ? { AnyOf: matches } : '',
+              ...(expressions.length > 0 && {
+                Condition: {
+                  Apply: expressions.length === 1
+                    ? expressions[0]
+                    : { '@_FunctionId': `${FN1}and`, Apply: expressions },
+                },
+              }),
+            };
+          }),
+        };
+      }),
+    };
+
+    const builder = new XMLBuilder({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      format: true,
+      indentBy: '  ',
+      suppressEmptyNode: true,
+    });
+    return {
+      content: `<?xml version="1.0" encoding="UTF-8"?>\n${builder.build({ PolicySet: policySet })}`,
+      warnings,
+    };
+  }
+
+  fromXacml(content: string): ConvertedPolicies {
+    const validation = XMLValidator.validate(content);
+    if (validation !== true) {
+      throw new ValidationError(`Invalid XML at line ${validation.err.line}: ${validation.err.msg}`);
+    }
+
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+      removeNSPrefix: true,
+      parseTagValue: false,
+      parseAttributeValue: false,
+      preserveOrder: true,
+    });
+    const root = this.xmlNodes(parser.parse(content))[0];
+    if (!root || (root.name !== 'PolicySet' && root.name !== 'Policy')) {
+      throw new ValidationError('Not a XACML 3.0 document: the root element must be a PolicySet or a Policy');
+    }
+
+    const warnings: string[] = [];
+    const policies: Array<Record<string, any>> = [];
+    const combiningAlgorithm = root.name === 'PolicySet'
+      ? this.combiningAlgorithmOf(root.attributes.PolicyCombiningAlgId, warnings)
+      : undefined;
+
+    const walk = (node: XmlNode, inherited: Target[]) => {
+      if (node.name === 'Policy') {
+        this.fromXacmlPolicy(node, inherited, warnings).forEach(policy => policies.push(policy));
+        return;
+      }
+
+      const label = `Policy set ${node.attributes.PolicySetId || ''}`.trim();
+      const targets = [...inherited, this.xacmlTarget(this.child(node, 'Target'), label, warnings)];
+      this.unsupportedElements(node, label, warnings);
+      node.children.forEach(child => {
+        if (child.name === 'Policy') {
+          walk(child, targets);
+        } else if (child.name === 'PolicySet') {
+          warnings.push(`${label}: the nested policy set ${child.attributes.PolicySetId || ''} was flattened into its policies`);
+          walk(child, targets);
+        } else if (child.name === 'PolicyIdReference' || child.name === 'PolicySetIdReference') {
+          warnings.push(`${label}: the reference to ${child.text} cannot be resolved and was skipped`);
+        }
+      });
+    };
+    walk(root, []);
+
+    return {
+      policies: this.uniqueNames(policies, warnings).map((policy, index) => ({
+        ...policy,
+        // The order of a first-applicable policy set is the evaluation order
+        priority: combiningAlgorithm === 'first-applicable' ? index : 0,
+      })),
+      warnings,
+      ...(combiningAlgorithm && { combiningAlgorithm }),
+    };
+  }
+
+  toIam(bundle: PolicyBundle): { content: string; warnings: string[] } {
+    const warnings: string[] = [];
+    const algorithm = bundle.source.combiningAlgorithm || 'deny-overrides';
+    if (algorithm !== 'deny-overrides') {
+      warnings.push(`IAM always lets an explicit Deny win; the environment's ${algorithm} combining algorithm was not carried over`);
+    }
+
+    const documents = bundle.policies.map(policy => {
+      this.exportWarnings(policy, 'IAM').forEach(warning => warnings.push(warning));
+      return {
+        Version: IAM_VERSION,
+        Id: policy.name,
+        Statement: (policy.rules || []).map((rule: any, index: number) => {
+          const label = `Policy "${policy.name}", rule ${index + 1}`;
+          const condition: Record<string, Record<string, any>> = {};
+          const add = (operator: string, key: string, value: any) => {
+            const block = condition[operator] || (condition[operator] = {});
+            if (key in block) {
+              warnings.push(`${label}: IAM allows only one ${operator} test of ${key}; the second one was left out`);
+              return;
+            }
+            block[key] = value;
+          };
+
+          ruleFilters(rule, policy.conditions || []).forEach(filter => {
+            const key = filter.scope === 'condition' ? filter.name : `${filter.scope}:${filter.name}`;
+            const { operator, value } = filter;
+            if (operator === 'between' && isRange(value)) {
+              add('DateGreaterThanEquals', key, value.start);
+              add('DateLessThanEquals', key, value.end);
+            } else if (typeof value === 'number' && NUMERIC_IAM_OPERATORS[operator]) {
+              add(NUMERIC_IAM_OPERATORS[operator]!, key, String(value));
+            } else if (operator === 'contains' || operator === 'not_contains') {
+              add(IAM_OPERATORS[operator]!, key, `*${value}*`);
+            } else {
+              add(IAM_OPERATORS[operator]!, key, Array.isArray(value) ? value : String(value));
+            }
+          });
+
+          const subject = rule.subject?.type;
+          return {
+            Sid: `Rule${index + 1}`,
+            Effect: policy.effect === 'Deny' ? 'Deny' : 'Allow',
+            ...(subject && subject !== WILDCARD && { Principal: { CRAFT: subject } }),
+            Action: rule.action?.name || WILDCARD,
+            Resource: rule.object?.type || WILDCARD,
+            ...(Object.keys(condition).length > 0 && { Condition: condition }),
+          };
+        }),
+      };
+    });
+
+    return { content: `${JSON.stringify(documents, null, 2)}\n`, warnings };
+  }
+
+  /**
+   * Reads a single IAM policy document or an array of them. Each statement becomes one rule per
+   * combination of its principals, actions and resources.
+   */
+  fromIam(content: string): ConvertedPolicies {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error: any) {
+      throw new ValidationError(`IAM policy is not valid JSON: ${error.message}`);
+    }
+
+    const documents = asArray(parsed as any);
+    if (documents.length === 0 || !documents.every(document => isRecord(document) && 'Statement' in document)) {
+      throw new ValidationError('Not an IAM policy: expected a policy document with a Statement, or an array of them');
+    }
+
+    const warnings: string[] = [];
+    const policies = documents.flatMap((document: Record<string, any>, documentIndex) => {
+      const name = typeof document.Id === 'string' && document.Id.trim() ? document.Id.trim() : `Imported IAM policy ${documentIndex + 1}`;
+      const rules = asArray(document.Statement).flatMap((statement: any, index): ConvertedRule[] => {
+        const label = `Policy "${name}", statement ${statement?.Sid || index + 1}`;
+        if (!isRecord(statement) || (statement.Effect !== 'Allow' && statement.Effect !== 'Deny')) {
+          warnings.push(`${label}: Effect must be Allow or Deny; the statement was skipped`);
+          return [];
+        }
+        const unsupported = ['NotPrincipal', 'NotAction', 'NotResource'].filter(element => element in statement);
+        if (unsupported.length > 0) {
+          warnings.push(`${label}: ${unsupported.join(', ')} cannot be expressed in CRAFT; the statement was skipped`);
+          return [];
+        }
+
+        const principals = statement.Principal === undefined || statement.Principal === WILDCARD
+          ? [WILDCARD]
+          : isRecord(statement.Principal)
+            ? Object.values(statement.Principal).flatMap(value => asArray(value)).map(String)
+            : asArray(statement.Principal).map(String);
+
+        return [{
+          effect: statement.Effect,
+          target: {
+            refs: {
+              subject: principals,
+              action: asArray(statement.Action).map(String),
+              resource: asArray(statement.Resource).map(String),
+            },
+            filters: this.iamFilters(statement.Condition, label, warnings),
+          },
+        }];
+      });
+
+      return this.toPolicies(name, 'Imported from an IAM policy document', rules, 'iam', warnings);
+    });
+
+    return { policies: this.uniqueNames(policies, warnings), warnings };
+  }
+
+  private iamFilters(condition: unknown, label: string, warnings: string[]): Filter[] {
+    if (condition === undefined) return [];
+    if (!isRecord(condition)) {
+      warnings.push(`${label}: Condition must be an object and was skipped`);
+      return [];
+    }
+
+    const filters = Object.entries(condition).flatMap(([iamOperator, tests]) => {
+      const ifExists = iamOperator.endsWith('IfExists');
+      const baseOperator = ifExists ? iamOperator.slice(0, -'IfExists'.length) : iamOperator;
+      const operator = FROM_IAM_OPERATORS[baseOperator];
+      if (!operator || !isRecord(tests)) {
+        warnings.push(`${label}: the ${iamOperator} condition operator is not supported and was skipped`);
+        return [];
+      }
+      if (ifExists) {
+        warnings.push(`${label}: ${iamOperator} was imported as ${baseOperator}; requests without the key no longer match`);
+      }
+
+      return Object.entries(tests).flatMap(([key, rawValue]): Filter[] => {
+        const values = asArray(rawValue).map(String);
+        const numeric = baseOperator.startsWith('Numeric');
+        let filterOperator = operator;
+        let value: Filter['value'] = values[0] ?? '';
+
+        if (operator === 'contains' || operator === 'not_contains') {
+          const match = /^\*([^*?]*)\*$/.exec(values[0] || '');
+          if (values.length !== 1 || !match) {
+            if (values.length !== 1 || /[*?]/.test(values[0] || '')) {
+              warnings.push(`${label}: the ${iamOperator} pattern on ${key} is not supported and was skipped`);
+              return [];
+            }
+            filterOperator = operator === 'contains' ? 'equals' : 'not_equals';
+          } else {
+            value = match[1]!;
+          }
+        } else if (values.length > 1) {
+          if (operator !== 'equals' && operator !== 'not_equals') {
+            warnings.push(`${label}: ${iamOperator} with several values of ${key} is not supported and was skipped`);
+            return [];
+          }
+          filterOperator = operator === 'equals' ? 'in' : 'not_in';
+          value = values;
+        } else if (numeric && !Number.isNaN(Number(value))) {
+          value = Number(value);
+        }
+
+        const [prefix, ...rest] = key.split(':');
+        const scope = (prefix === 'subject' || prefix === 'resource') && rest.length > 0 ? prefix : 'condition';
+        return [{ scope, name: scope === 'condition' ? key : rest.join(':'), operator: filterOperator, value }];
+      });
+    });
+
+    return this.mergeRanges(filters);
+  }
+
+  /**
+   * Builds CRAFT policies from converted rules. A CRAFT policy has a single effect, so rules of
+   * both effects are split into an Allow and a Deny policy.
+   */
+  private toPolicies(
+    name: string,
+    description: string,
+    rules: ConvertedRule[],
+    format: ConversionFormat,
+    warnings: string[]
+  ): Array<Record<string, any>> {
+    if (rules.length === 0) {
+      warnings.push(`Policy "${name}" has no convertible rules and was skipped`);
+      return [];
+    }
+
+    const effects = [...new Set(rules.map(rule => rule.effect))];
+    if (effects.length > 1) {
+      warnings.push(`Policy "${name}" mixes Allow and Deny rules; it was split into "${name} (Allow)" and "${name} (Deny)"`);
+    }
+
+    return effects.map(effect => {
+      const policyRules = rules.filter(rule => rule.effect === effect).flatMap(rule => {
+        const refs = REF_KINDS.map(kind => (rule.target.refs[kind].length > 0 ? rule.target.refs[kind] : [WILDCARD]));
+        return refs[0]!.flatMap(subject => refs[1]!.flatMap(action => refs[2]!.map(resource => ({
+          id: `rule-${Date.now()}-${++this.ruleCount}`,
+          subject: { type: subject, attributes: this.attributesOf(rule.target.filters, 'subject') },
+          action: { name: action, displayName: action },
+          object: { type: resource, attributes: this.attributesOf(rule.target.filters, 'resource') },
+          conditions: this.conditionsOf(rule.target.filters, name, warnings),
+        }))));
+      });
+
+      return {
+        name: effects.length > 1 ? `${name} (${effect})` : name,
+        description,
+        effect,
+        status: 'Draft',
+        priority: 0,
+        policyType: 'simple',
+        rules: policyRules,
+        complexRules: [],
+        subjects: [],
+        resources: [],
+        actions: [],
+        additionalResources: [],
+        conditions: [],
+        tags: [`imported-${format}`],
+      };
+    });
+  }
+
+  private attributesOf(filters: Filter[], scope: 'subject' | 'resource'): IPolicyAttribute[] {
+    return filters
+      .filter(filter => filter.scope === scope)
+      .map(({ name, operator, value }) => ({ name, operator, value, ...dateConfigOf(operator, value) }));
+  }
+
+  // Conditions have no negated equality or substring operators
+  private conditionsOf(filters: Filter[], policyName: string, warnings: string[]): IPolicyCondition[] {
+    return filters.filter(filter => filter.scope === 'condition').flatMap(({ name, operator, value }): IPolicyCondition[] => {
+      if (operator === 'not_equals') {
+        return [{ field: name, operator: 'not_in', value: asArray(value as string) }];
+      }
+      if (operator === 'not_contains') {
+        warnings.push(`Policy "${policyName}": conditions cannot test that ${name} does not contain a value; the test was skipped`);
+        return [];
+      }
+      return [{ field: name, operator, value, ...dateConfigOf(operator, value) } as IPolicyCondition];
+    });
+  }
+
+  // An on-or-after and on-or-before test of the same field form a date range
+  private mergeRanges(filters: Filter[]): Filter[] {
+    const merged: Filter[] = [];
+    filters.forEach(filter => {
+      const opposite = filter.operator === 'on_or_after' ? 'on_or_before' : filter.operator === 'on_or_before' ? 'on_or_after' : null;
+      const partner = opposite && merged.find(candidate =>
+        candidate.scope === filter.scope && candidate.name === filter.name && candidate.operator === opposite);
+      if (!partner) {
+        merged.push({ ...filter });
+        return;
+      }
+      const [start, end] = filter.operator === 'on_or_after' ? [filter.value, partner.value] : [partner.value, filter.value];
+      partner.operator = 'between';
+      partner.value = { start: String(start), end: String(end) };
+    });
+    return merged;
+  }
+
+  // Policy names are unique within an environment
+  private uniqueNames(policies: Array<Record<string, any>>, warnings: string[]): Array<Record<string, any>> {
+    const names = new Set<string>();
+    return policies.map(policy => {
+      let name = policy.name;
+      for (let suffix = 2; names.has(name); suffix++) {
+        name = `${policy.name} (${suffix})`;
+      }
+      if (name !== policy.name) {
+        warnings.push(`A second policy named "${policy.name}" was renamed to "${name}"`);
+      }
+      names.add(name);
+      return { ...policy, name };
+    });
+  }
+
+  private exportWarnings(policy: Record<string, any>, format: string): string[] {
+    const label = `Policy "${policy.name}"`;
+    return [
+      (policy.additionalResources || []).length > 0 && `${label}: additional resources cannot be expressed in ${format} and were left out`,
+      (policy.complexRules || []).length > 0 && `${label}: complex rules cannot be expressed in ${format} and were left out`,
+      (policy.activateAt || policy.expireAt) && `${label}: its activation schedule cannot be expressed in ${format} and was left out`,
+      policy.status !== 'Active' && `${label} is ${policy.status}; ${format} has no policy status, so it takes effect wherever the file is loaded`,
+    ].filter((warning): warning is string => !!warning);
+  }
+
+  /**
+   * Matches the converted references to the environment's subjects, actions and resources by
+   * any of their identifying fields and rewrites them to IDs
+   */
+  private async resolveReferences(
+    policies: Array<Record<string, any>>,
+    environmentId: string
+  ): Promise<{ policies: Array<Record<string, any>>; unresolved: Array<{ kind: PromotionKind; ref: string }> }> {
+    const refsOf = (kind: RefKind) => [...new Set(policies.flatMap(policy => policy.rules.map((rule: any) =>
+      (kind === 'subject' ? rule.subject.type : kind === 'action' ? rule.action.name : rule.object.type))))]
+      .filter(ref => ref !== WILDCARD) as string[];
+
+    const matches = {} as Record<RefKind, Map<string, any>>;
+    await Promise.all(REF_KINDS.map(async kind => {
+      const spec = ENTITY_SPECS.find(candidate => candidate.kind === kind)!;
+      const refs = refsOf(kind);
+      const entities: any[] = refs.length > 0
+        ? await spec.model.find({ environmentId, $or: spec.lookupFields.map(field => ({ [field]: { $in: refs } })) }).lean()
+        : [];
+      matches[kind] = new Map(refs.flatMap(ref => {
+        const entity = entities.find(candidate => spec.lookupFields.some(field => candidate[field] === ref));
+        return entity ? [[ref, entity] as [string, any]] : [];
+      }));
+    }));
+
+    const resolve = (kind: RefKind, ref: string): string => matches[kind].get(ref)?.id || ref;
+    const unresolved = REF_KINDS.flatMap(kind => refsOf(kind)
+      .filter(ref => !matches[kind].has(ref))
+      .map(ref => ({ kind: kind as PromotionKind, ref })));
+
+    return {
+      policies: policies.map(policy => {
+        const rules = policy.rules.map((rule: any) => ({
+          ...rule,
+          subject: { ...rule.subject, type: resolve('subject', rule.subject.type) },
+          action: {
+            name: resolve('action', rule.action.name),
+            displayName: matches.action.get(rule.action.name)?.displayName || rule.action.displayName,
+          },
+          object: { ...rule.object, type: resolve('resource', rule.object.type) },
+        }));
+        const idsOf = (pick: (rule: any) => string) => [...new Set(rules.map(pick))].filter(id => id !== WILDCARD);
+
+        return {
+          ...policy,
+          rules,
+          subjects: idsOf(rule => rule.subject.type),
+          actions: idsOf(rule => rule.action.name),
+          resources: idsOf(rule => rule.object.type),
+        };
+      }),
+      unresolved,
+    };
+  }
+
+  private fromXacmlPolicy(node: XmlNode, inherited: Target[], warnings: string[]): Array<Record<string, any>> {
+    const policyId = node.attributes.PolicyId || 'Imported XACML policy';
+    const name = policyId.startsWith(POLICY_ID_PREFIX)
+      ? decodeURIComponent(policyId.slice(POLICY_ID_PREFIX.length))
+      : policyId;
+    const label = `Policy "${name}"`;
+    this.unsupportedElements(node, label, warnings);
+
+    const targets = [...inherited, this.xacmlTarget(this.child(node, 'Target'), label, warnings)];
+    const rules = this.children(node, 'Rule').map((rule, index): ConvertedRule => {
+      const ruleLabel = `${label}, rule ${rule.attributes.RuleId || index + 1}`;
+      this.unsupportedElements(rule, ruleLabel, warnings);
+      const target = this.mergeTargets([...targets, this.xacmlTarget(this.child(rule, 'Target'), ruleLabel, warnings)], ruleLabel, warnings);
+      const condition = this.child(rule, 'Condition')?.children[0];
+      const filters = condition ? this.xacmlFilters(condition, ruleLabel, warnings) : [];
+
+      return {
+        effect: rule.attributes.Effect === 'Deny' ? 'Deny' : 'Allow',
+        target: { refs: target.refs, filters: this.mergeRanges([...target.filters, ...filters]) },
+      };
+    });
+
+    return this.toPolicies(name, this.child(node, 'Description')?.text || 'Imported from a XACML policy', rules, 'xacml', warnings);
+  }
+
+  // The innermost target that names a kind of reference decides it; filters of all targets apply
+  private mergeTargets(targets: Target[], label: string, warnings: string[]): Target {
+    const refs = REF_KINDS.reduce((result, kind) => {
+      const naming = targets.filter(target => target.refs[kind].length > 0);
+      if (naming.length > 1) {
+        warnings.push(`${label}: the ${kind}s of the enclosing targets were replaced by the rule's own`);
+      }
+      return { ...result, [kind]: naming[naming.length - 1]?.refs[kind] || [] };
+    }, {} as Record<RefKind, string[]>);
+    return { refs, filters: targets.flatMap(target => target.filters) };
+  }
+
+  /**
+   * Reads a Target: each AnyOf must hold, as must every Match of an AllOf. AnyOf alternatives are
+   * supported when they name alternative subjects, actions or resources.
+   */
+  private xacmlTarget(target: XmlNode | undefined, label: string, warnings: string[]): Target {
+    const result: Target = { refs: { subject: [], action: [], resource: [] }, filters: [] };
+    this.children(target, 'AnyOf').forEach(anyOf => {
+      const alternatives = this.children(anyOf, 'AllOf').map(allOf => this.children(allOf, 'Match').map(match => this.xacmlMatch(match)));
+
+      if (alternatives.length === 1) {
+        alternatives[0]!.forEach(match => {
+          if (!match) {
+            warnings.push(`${label}: a target match is not supported and was skipped`);
+          } else if ('kind' in match) {
+            if (result.refs[match.kind].length > 0) {
+              warnings.push(`${label}: only one ${match.kind} can be required at a time; ${match.ref} was skipped`);
+            } else {
+              result.refs[match.kind] = [match.ref];
+            }
+          } else {
+            result.filters.push(match);
+          }
+        });
+        return;
+      }
+
+      const refs = alternatives.map(matches => (matches.length === 1 && matches[0] && 'kind' in matches[0] ? matches[0] : null));
+      const kind = refs[0]?.kind;
+      if (kind && refs.every(ref => ref?.kind === kind)) {
+        result.refs[kind] = refs.map(ref => ref!.ref);
+      } else {
+        warnings.push(`${label}: target alternatives other than a choice of subjects, actions or resources are not supported and were skipped`);
+      }
+    });
+    return result;
+  }
+
+  private xacmlMatch(match: XmlNode): { kind: RefKind; ref: string } | Filter | null {
+    const value = this.child(match, 'AttributeValue');
+    const designator = this.child(match, 'AttributeDesignator');
+    if (!value || !designator) return null;
+
+    const fn = localName(match.attributes.MatchId || '');
+    const category = this.categoryOf(designator.attributes.Category || '');
+    const attributeId = designator.attributes.AttributeId || '';
+    const idKind = REF_KINDS.find(kind => kind === category && (attributeId === ID_ATTRIBUTES[kind] || localName(attributeId) === `${kind}-id`));
+    if (idKind && isEquality(fn)) {
+      return { kind: idKind, ref: value.text };
+    }
+
+    // Match functions take the value first and the attribute second
+    const operator = isEquality(fn)
+      ? 'equals'
+      : fn === 'string-contains'
+        ? 'contains'
+        : this.comparisonOperator(fn, value.attributes.DataType, true);
+    return operator && category ? this.xacmlFilter(category, attributeId, operator, this.xacmlValueOf(value)) : null;
+  }
+
+  /**
+   * Reads a condition expression into filters. Only the shapes CRAFT exports and their common
+   * variants are understood; anything else is skipped with a warning.
+   */
+  private xacmlFilters(node: XmlNode, label: string, warnings: string[]): Filter[] {
+    const unsupported = (): Filter[] => {
+      warnings.push(`${label}: the condition function ${node.attributes.FunctionId || node.name} is not supported and was skipped, which widens the rule`);
+      return [];
+    };
+    if (node.name !== 'Apply') return unsupported();
+
+    const fn = localName(node.attributes.FunctionId || '');
+    const args = node.children.filter(child => child.name !== 'Description');
+
+    if (fn === 'and') {
+      return args.flatMap(arg => this.xacmlFilters(arg, label, warnings));
+    }
+    if (fn === 'not') {
+      const inner = args.length === 1 ? this.xacmlFilter1(args[0]!) : null;
+      const negated = inner && NEGATIONS[inner.operator];
+      return negated ? [{ ...inner, operator: negated }] : unsupported();
+    }
+
+    const filter = this.xacmlFilter1(node);
+    return filter ? [filter] : unsupported();
+  }
+
+  private xacmlFilter1(node: XmlNode): Filter | null {
+    if (node.name !== 'Apply') return null;
+    const fn = localName(node.attributes.FunctionId || '');
+    const args = node.children.filter(child => child.name !== 'Description');
+    const operandIndex = args.findIndex(arg => this.operandOf(arg));
+    const operand = operandIndex >= 0 ? this.operandOf(args[operandIndex]!) : null;
+    if (!operand) return null;
+
+    const category = this.categoryOf(operand.attributes.Category || '');
+    const attributeId = operand.attributes.AttributeId || '';
+    if (!category) return null;
+
+    if ((fn === 'any-of' || fn === 'any-of-any') && args.length === 3) {
+      const compare = localName(args[0]?.attributes.FunctionId || '');
+      const valueNode = args[1]!;
+      if (fn === 'any-of-any' && isEquality(compare) && valueNode.name === 'Apply') {
+        return this.xacmlFilter(category, attributeId, 'in', this.children(valueNode, 'AttributeValue').map(value => value.text));
+      }
+      if (fn === 'any-of' && valueNode.name === 'AttributeValue') {
+        const operator = isEquality(compare) ? 'equals' : compare === 'string-contains' ? 'contains' : null;
+        return operator && this.xacmlFilter(category, attributeId, operator, this.xacmlValueOf(valueNode));
+      }
+      return null;
+    }
+
+    const valueNode = args.find(arg => arg.name === 'AttributeValue');
+    if (!valueNode || args.length !== 2) return null;
+    if (fn.endsWith('-is-in')) {
+      return this.xacmlFilter(category, attributeId, 'includes', valueNode.text);
+    }
+    const operator = isEquality(fn)
+      ? 'equals'
+      : this.comparisonOperator(fn, valueNode.attributes.DataType, operandIndex === 1);
+    return operator && this.xacmlFilter(category, attributeId, operator, this.xacmlValueOf(valueNode));
+  }
+
+  // The attribute an argument reads: a designator, possibly wrapped in a one-and-only function
+  private operandOf(node: XmlNode): XmlNode | null {
+    if (node.name === 'AttributeDesignator') return node;
+    if (node.name === 'Apply' && (node.attributes.FunctionId || '').endsWith('-one-and-only')) {
+      return this.child(node, 'AttributeDesignator') || null;
+    }
+    return null;
+  }
+
+  private comparisonOperator(fn: string, dataType: string | undefined, valueFirst: boolean): Operator | null {
+    const name = Object.keys(COMPARISONS).find(candidate => fn.endsWith(`-${candidate}`));
+    if (!name) return null;
+    const comparison = COMPARISONS[valueFirst ? COMPARISONS[name]!.flipped : name]!;
+    return /#(date|dateTime|time)$/.test(dataType || '') ? comparison.date : comparison.numeric;
+  }
+
+  private xacmlFilter(category: Category, attributeId: string, operator: Operator, value: Filter['value']): Filter {
+    const urn = attributeId.includes(':');
+    if ((category === 'subject' || category === 'resource') && !attributeId.startsWith(`${category}.`)) {
+      return { scope: category, name: urn ? localName(attributeId) : attributeId, operator, value };
+    }
+    const field = urn ? `${category}.${localName(attributeId)}` : attributeId;
+    return { scope: 'condition', name: field, operator, value };
+  }
+
+  private xacmlValueOf(node: XmlNode): string | number {
+    return /#(integer|double)$/.test(node.attributes.DataType || '') && !Number.isNaN(Number(node.text))
+      ? Number(node.text)
+      : node.text;
+  }
+
+  private xacmlExpression(filter: Filter): Record<string, any> {
+    const category = filter.scope === 'condition' ? categoryOfField(filter.name) : filter.scope;
+    const { operator, value } = filter;
+    const dataType = this.xacmlDataType(operator, value);
+    const designator = this.xacmlDesignator(category, filter.name, dataType);
+    const oneAndOnly = { '@_FunctionId': `${FN1}${dataType}-one-and-only`, AttributeDesignator: designator };
+    const negate = (expression: Record<string, any>) => ({ '@_FunctionId': `${FN1}not`, Apply: expression });
+
+    if (operator === 'between' && isRange(value)) {
+      return {
+        '@_FunctionId': `${FN1}and`,
+        Apply: [
+          { '@_FunctionId': `${FN1}${dataType}-greater-than-or-equal`, Apply: oneAndOnly, AttributeValue: this.xacmlValue(value.start, dataType) },
+          { '@_FunctionId': `${FN1}${dataType}-less-than-or-equal`, Apply: oneAndOnly, AttributeValue: this.xacmlValue(value.end, dataType) },
+        ],
+      };
+    }
+    if (COMPARISON_FUNCTIONS[operator]) {
+      return {
+        '@_FunctionId': `${FN1}${dataType}-${COMPARISON_FUNCTIONS[operator]}`,
+        Apply: oneAndOnly,
+        AttributeValue: this.xacmlValue(value, dataType),
+      };
+    }
+
+    let expression: Record<string, any>;
+    if (operator === 'in' || operator === 'not_in') {
+      expression = {
+        '@_FunctionId': `${FN3}any-of-any`,
+        Function: { '@_FunctionId': `${FN1}${dataType}-equal` },
+        Apply: { '@_FunctionId': `${FN1}${dataType}-bag`, AttributeValue: asArray(value as string[]).map(item => this.xacmlValue(item, dataType)) },
+        AttributeDesignator: designator,
+      };
+    } else if (operator === 'includes' || operator === 'not_includes') {
+      expression = { '@_FunctionId': `${FN1}${dataType}-is-in`, AttributeValue: this.xacmlValue(value, dataType), AttributeDesignator: designator };
+    } else {
+      const compare = operator === 'contains' || operator === 'not_contains' ? `${FN3}string-contains` : `${FN1}${dataType}-equal`;
+      expression = {
+        '@_FunctionId': `${FN3}any-of`,
+        Function: { '@_FunctionId': compare },
+        AttributeValue: this.xacmlValue(value, dataType),
+        AttributeDesignator: designator,
+      };
+    }
+    return operator.startsWith('not_') ? negate(expression) : expression;
+  }
+
+  private xacmlDataType(operator: Operator, value: any): string {
+    if (DATE_OPERATORS.includes(operator)) {
+      const sample = String(isRange(value) ? value.start : value);
+      return /^\d{1,2}:\d{2}/.test(sample) ? 'time' : /T\d/.test(sample) ? 'dateTime' : 'date';
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? 'integer' : 'double';
+    }
+    return 'string';
+  }
+
+  private xacmlDesignator(category: Category, attributeId: string, dataType: string): Record<string, string> {
+    return {
+      '@_AttributeId': attributeId,
+      '@_Category': CATEGORIES[category],
+      '@_DataType': `${XSD}${dataType}`,
+      '@_MustBePresent': 'false',
+    };
+  }
+
+  private xacmlValue(value: any, dataType: string): Record<string, string> {
+    return { '@_DataType': `${XSD}${dataType}`, '#text': String(value) };
+  }
+
+  private categoryOf(category: string): Category | null {
+    if (category.includes('subject')) return 'subject';
+    return (['action', 'resource', 'environment'] as Category[]).find(candidate => category.endsWith(candidate)) || null;
+  }
+
+  private combiningAlgorithmOf(id: string | undefined, warnings: string[]): CombiningAlgorithm | undefined {
+    const name = localName(id || '').replace(/^ordered-/, '');
+    const algorithm = (Object.keys(POLICY_COMBINING_ALGORITHMS) as CombiningAlgorithm[]).find(candidate => candidate === name);
+    if (id && !algorithm) {
+      warnings.push(`The policy combining algorithm ${id} has no CRAFT equivalent`);
+    }
+    return algorithm;
+  }
+
+  private unsupportedElements(node: XmlNode, label: string, warnings: string[]) {
+    ['ObligationExpressions', 'AdviceExpressions', 'VariableDefinition'].forEach(name => {
+      if (this.child(node, name)) {
+        warnings.push(`${label}: ${name} cannot be expressed in CRAFT and was skipped`);
+      }
+    });
+  }
+
+  private xmlNodes(items: any[]): XmlNode[] {
+    return asArray(items).flatMap((item: Record<string, any>) => {
+      const name = Object.keys(item).find(key => key !== ':@');
+      if (!name || name.startsWith('?') || name.startsWith('#')) return [];
+      const content = asArray(item[name]);
+      return [{
+        name,
+        attributes: item[':@'] || {},
+        children: this.xmlNodes(content),
+        text: content.filter(child => '#text' in child).map(child => String(child['#text'])).join('').trim(),
+      }];
+    });
+  }
+
+  private child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+    return node?.children.find(child => child.name === name);
+  }
+
+  private children(node: XmlNode | undefined, name: string): XmlNode[] {
+    return (node?.children || []).filter(child => child.name === name);
+  }
+}
+
+export default new PolicyConversionService();
@@ -0,0 +1,1074 @@
+import {
+  Policy,
+  IPolicy,
+  IPolicyRule,
+  IPolicyAttribute,
+  IPolicyCondition,
+  IComplexPolicyRule,
+  IConditionalResource,
+  ITimeConstraint,
+} from '../models/Policy';
+import { Subject } from '../models/Subject';
+import { Resource } from '../models/Resource';
+import { Action } from '../models/Action';
+import AdditionalResource from '../models/AdditionalResource';
+import { matchAttribute, AttributeOperator } from '../utils/attributeMatcher';
+import { evaluateTimeConstraint } from '../utils/timeWindow';
+import { CombiningAlgorithm } from '../models/Environment';
+import PolicyIndexService, { CompiledPolicyIndex, POLICY_SNAPSHOT_FIELDS } from './PolicyIndexService';
+
+export type { CombiningAlgorithm };
+
+export type Decision = 'Allow' | 'Deny' | 'NotApplicable';
+
+export type AccessLevel = IConditionalResource['accessLevel'];
+
+export interface EvaluationScope {
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+}
+
+export interface EvaluationEntityInput {
+  id?: string;
+  attributes?: Record<string, any>;
+}
+
+export interface AccessRequest {
+  subject: string | EvaluationEntityInput;
+  action: string;
+  resource: string | EvaluationEntityInput;
+  environment?: Record<string, any>;
+}
+
+export interface EvaluationRequest extends EvaluationScope, AccessRequest {
+  policyIds?: string[]; // Restrict evaluation to these policies (any status)
+  explain?: boolean; // Include the per-policy, per-rule, per-attribute trace
+}
+
+export interface ResolvedEntity {
+  id: string;
+  identifiers: Set<string>; // Lower-cased IDs, names and types a rule target may refer to
+  attributes: Record<string, any>;
+  found: boolean;
+}
+
+export interface ResolvedRequest {
+  subject: ResolvedEntity;
+  action: ResolvedEntity;
+  resource: ResolvedEntity;
+  environment: Record<string, any>;
+  related: (resourceId: string) => ResolvedEntity; // Other resources that dependency rules refer to
+}
+
+export interface AttributeTrace {
+  source: 'subject' | 'resource' | 'additionalResource' | 'condition' | 'dependency';
+  attribute: string;
+  operator: AttributeOperator | IPolicyCondition['operator'];
+  expected: any;
+  actual: any;
+  passed: boolean;
+  message: string;
+}
+
+export interface TargetTrace {
+  expected: string;
+  actual: string;
+  matched: boolean;
+}
+
+export interface TimeConstraintTrace {
+  window: string;
+  timezone: string;
+  localTime: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface DependencyTrace {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  triggerResource: string;
+  triggered: boolean;
+  conditions: AttributeTrace[];
+  enabledResources: string[]; // Resources this rule enabled, not already decided by a higher-priority rule
+  disabledResources: string[];
+}
+
+export interface ResourceAccessTrace {
+  resourceId: string;
+  available: boolean;
+  accessLevel?: AccessLevel; // Granted by a conditional resource
+  message: string; // What blocked the resource, or what made it available
+  reasons: string[];
+}
+
+export interface RuleTrace {
+  ruleId: string;
+  matched: boolean;
+  targets: {
+    subject: TargetTrace;
+    action: TargetTrace;
+    resource: TargetTrace;
+  };
+  attributes: AttributeTrace[];
+  timeConstraints?: TimeConstraintTrace[]; // Complex rules only; the rule matches inside any enabled window
+  dependencies?: DependencyTrace[]; // Complex rules only, in priority order
+  resourceAccess?: ResourceAccessTrace; // Complex rules that govern the requested resource
+}
+
+export interface PolicyOutcome {
+  policyId: string;
+  policyName: string;
+  effect: 'Allow' | 'Deny';
+  applicable: boolean;
+  matchedRules: string[];
+  rules: RuleTrace[];
+  conditions: AttributeTrace[];
+  outsideSchedule?: boolean; // Before its activateAt or past its expireAt, so never applicable
+}
+
+export interface CombiningStep {
+  step: number;
+  description: string;
+  effect: Decision;
+  policyIds: string[];
+  final: boolean; // The step that produced the returned decision
+}
+
+export interface DecisionTrace {
+  policies: PolicyOutcome[];
+  combining: CombiningStep[];
+}
+
+export interface DecisionResult {
+  decision: Decision;
+  reason: string;
+  matchedPolicies: string[];
+  evaluatedPolicies: number;
+  combiningAlgorithm: CombiningAlgorithm;
+  accessLevel?: AccessLevel; // Highest level granted by the conditional resources of the deciding Allow policies
+  subject: string;
+  action: string;
+  resource: string;
+  environment: Record<string, any>;
+  timestamp: Date;
+  evaluationTime: number;
+  trace?: DecisionTrace;
+}
+
+// Lean policy documents as returned by Policy.find().lean()
+export type PolicySnapshot = Pick<IPolicy,
+  'id' | 'name' | 'effect' | 'status' | 'priority' | 'rules' | 'subjects' | 'resources' | 'actions' | 'additionalResources' | 'conditions' | 'complexRules'
+  | 'activateAt' | 'expireAt'>;
+
+/**
+ * Policies and referenced entities of one environment, loaded once and shared by every
+ * request evaluated against it. Entity maps are keyed by lower-cased ID, name, email or URI.
+ */
+export interface EvaluationSnapshot {
+  scope: EvaluationScope;
+  policies: PolicySnapshot[];
+  combiningAlgorithm: CombiningAlgorithm;
+  index?: CompiledPolicyIndex; // Absent when specific policies were requested
+  subjects: Map<string, any>;
+  groupsByMember: Map<string, Array<{ id: string; name: string }>>;
+  actions: Map<string, any>;
+  resources: Map<string, any>;
+  additionalResources: Map<string, any>;
+  createdAt: Date;
+}
+
+const WILDCARD = '*';
+
+const normalize = (value: any): string => String(value).trim().toLowerCase();
+
+const entityId = (input: string | EvaluationEntityInput): string =>
+  typeof input === 'string' ? input : input.id || '';
+
+const suppliedAttributes = (input: string | EvaluationEntityInput): Record<string, any> =>
+  typeof input === 'string' ? {} : input.attributes || {};
+
+// Supplied attributes only fill in what a stored entity does not define, so they cannot replace or hide stored values
+const withSupplied = (stored: Record<string, any>, input: string | EvaluationEntityInput): Record<string, any> => ({
+  ...suppliedAttributes(input),
+  ...Object.fromEntries(Object.entries(stored).filter(([, value]) => value !== undefined)),
+});
+
+const buildIdentifiers = (...values: any[]): Set<string> =>
+  new Set(values.filter(value => value !== undefined && value !== null && value !== '').map(normalize));
+
+// Action categories each access level of a conditional resource permits; null permits every action
+const ACCESS_LEVEL_CATEGORIES: Record<AccessLevel, string[] | null> = {
+  read: ['read'],
+  write: ['read', 'write'],
+  execute: ['read', 'execute'],
+  admin: null,
+  custom: null,
+};
+
+// Lowest to highest
+const ACCESS_LEVEL_RANK: AccessLevel[] = ['custom', 'read', 'execute', 'write', 'admin'];
+
+const lowerFirst = (text: string): string => `${text.charAt(0).toLowerCase()}${text.slice(1)}`;
+
+const isTargeted = (rule: RuleTrace): boolean =>
+  rule.targets.subject.matched && rule.targets.action.matched && rule.targets.resource.matched;
+
+// A rule whose targets and attributes all match but whose time windows are all closed
+const outsideWindow = (rule: RuleTrace): boolean =>
+  !rule.matched
+  && isTargeted(rule)
+  && rule.attributes.every(attribute => attribute.passed)
+  && (rule.timeConstraints || []).length > 0
+  && rule.timeConstraints!.every(constraint => !constraint.passed);
+
+// Scheduled policies only apply from activateAt until expireAt, however far the scheduler has got
+const outsideSchedule = (policy: PolicySnapshot, at: Date): boolean =>
+  (!!policy.activateAt && new Date(policy.activateAt).getTime() > at.getTime())
+  || (!!policy.expireAt && new Date(policy.expireAt).getTime() <= at.getTime());
+
+// A rule whose targets match but whose dependency rules or conditional resource withhold the requested resource
+const resourceBlocked = (rule: RuleTrace): boolean =>
+  !rule.matched && isTargeted(rule) && rule.resourceAccess?.available === false;
+
+const indexBy = (documents: any[], ...keys: string[]): Map<string, any> => {
+  const index = new Map<string, any>();
+  documents.forEach(document => {
+    keys.forEach(key => {
+      const value = document[key];
+      if (value !== undefined && value !== null && value !== '' && !index.has(normalize(value))) {
+        index.set(normalize(value), document);
+      }
+    });
+  });
+  return index;
+};
+
+export class PolicyEvaluationService {
+  /**
+   * Evaluates an access request against the Active policies of its environment
+   */
+  async evaluate(request: EvaluationRequest): Promise<DecisionResult> {
+    const snapshot = await this.createSnapshot(request, [request], request.policyIds);
+    return this.evaluateWithSnapshot(snapshot, request, request.explain);
+  }
+
+  /**
+   * Evaluates many access requests against a single snapshot of the environment, in order.
+   * Proposed policies replace the stored Active set, e.g. to check unsaved changes.
+   */
+  async evaluateBatch(
+    scope: EvaluationScope,
+    requests: AccessRequest[],
+    options: { explain?: boolean; proposedPolicies?: PolicySnapshot[] } = {}
+  ): Promise<{ decisions: DecisionResult[]; evaluatedPolicies: number; combiningAlgorithm: CombiningAlgorithm; snapshotAt: Date }> {
+    const snapshot = await this.createSnapshot(scope, requests, undefined, options.proposedPolicies);
+
+    return {
+      decisions: requests.map(request => this.evaluateWithSnapshot(snapshot, request, options.explain)),
+      evaluatedPolicies: snapshot.policies.length,
+      combiningAlgorithm: snapshot.combiningAlgorithm,
+      snapshotAt: snapshot.createdAt,
+    };
+  }
+
+  /**
+   * Loads the policies and every subject, action and resource referenced by the requests
+   * with one query per collection
+   */
+  async createSnapshot(
+    scope: EvaluationScope,
+    requests: AccessRequest[],
+    policyIds?: string[],
+    proposedPolicies?: PolicySnapshot[]
+  ): Promise<EvaluationSnapshot> {
+    const { environmentId } = scope;
+    const subjectRefs = [...new Set(requests.map(request => entityId(request.subject)).filter(Boolean))];
+    const resourceRefs = [...new Set(requests.map(request => entityId(request.resource)).filter(Boolean))];
+    const actionRefs = [...new Set(requests.map(request => request.action).filter(Boolean))];
+
+    const [policySet, subjects, actions, resources, additionalResources] = await Promise.all([
+      proposedPolicies ? this.proposedPolicySet(scope, proposedPolicies) : this.loadPolicies(scope, policyIds),
+      subjectRefs.length > 0
+        ? Subject.find({
+          environmentId,
+          $or: [
+            { id: { $in: subjectRefs } },
+            { email: { $in: subjectRefs.map(ref => ref.toLowerCase()) } },
+            { name: { $in: subjectRefs } },
+          ],
+        }).lean()
+        : [],
+      actionRefs.length > 0
+        ? Action.find({ environmentId, $or: [{ id: { $in: actionRefs } }, { name: { $in: actionRefs } }] }).lean()
+        : [],
+      resourceRefs.length > 0
+        ? Resource.find({
+          environmentId,
+          $or: [{ id: { $in: resourceRefs } }, { uri: { $in: resourceRefs } }, { name: { $in: resourceRefs } }],
+        }).lean()
+        : [],
+      resourceRefs.length > 0
+        ? AdditionalResource.find({
+          environmentId,
+          $or: [{ id: { $in: resourceRefs.map(ref => ref.toLowerCase()) } }, { name: { $in: resourceRefs } }],
+        }).lean()
+        : [],
+    ]);
+
+    const loaded = new Set(resources.map(resource => resource.id));
+    const relatedRefs = this.relatedResourceIds(policySet.policies).filter(resourceId => !loaded.has(resourceId));
+    const related = relatedRefs.length > 0
+      ? await Resource.find({ environmentId, id: { $in: relatedRefs } }).lean()
+      : [];
+
+    return this.buildSnapshot(scope, policySet, subjects, actions, [...resources, ...related], additionalResources);
+  }
+
+  /**
+   * Resources that dependency rules and conditional resources read the state of
+   */
+  private relatedResourceIds(policies: PolicySnapshot[]): string[] {
+    const resourceIds = new Set<string>();
+    policies.forEach(policy => (policy.complexRules || []).forEach(rule => {
+      (rule.dependencyRules || []).forEach(dependency => resourceIds.add(dependency.triggerResource));
+      (rule.resourceConditions?.additional || []).forEach(resource => {
+        (resource.conditions?.dependsOn || []).forEach(resourceId => resourceIds.add(resourceId));
+        (resource.conditions?.requiredStates || []).forEach(state => resourceIds.add(state.resourceId));
+      });
+    }));
+    return [...resourceIds].filter(Boolean);
+  }
+
+  /**
+   * Loads the Active policies and all subjects, actions and resources of an environment,
+   * for queries that enumerate every combination
+   */
+  async createEnvironmentSnapshot(scope: EvaluationScope): Promise<EvaluationSnapshot> {
+    const { environmentId } = scope;
+
+    const [policySet, subjects, actions, resources, additionalResources] = await Promise.all([
+      this.loadPolicies(scope),
+      Subject.find({ environmentId }).lean(),
+      Action.find({ environmentId }).lean(),
+      Resource.find({ environmentId }).lean(),
+      AdditionalResource.find({ environmentId }).lean(),
+    ]);
+
+    return this.buildSnapshot(scope, policySet, subjects, actions, resources, additionalResources);
+  }
+
+  private async buildSnapshot(
+    scope: EvaluationScope,
+    policySet: Pick<EvaluationSnapshot, 'policies' | 'combiningAlgorithm' | 'index'>,
+    subjects: any[],
+    actions: any[],
+    resources: any[],
+    additionalResources: any[]
+  ): Promise<EvaluationSnapshot> {
+    // Membership in a group lets rules that target the group apply to its members
+    const groups = subjects.length > 0
+      ? await Subject.find({
+        environmentId: scope.environmentId,
+        type: 'group',
+        children: { $in: subjects.map(subject => subject.id) },
+      })
+        .select('id name children')
+        .lean()
+      : [];
+
+    const groupsByMember = new Map<string, Array<{ id: string; name: string }>>();
+    groups.forEach(group => {
+      (group.children || []).forEach(memberId => {
+        groupsByMember.set(memberId, [...(groupsByMember.get(memberId) || []), { id: group.id, name: group.name }]);
+      });
+    });
+
+    return {
+      scope,
+      ...policySet,
+      subjects: indexBy(subjects, 'id', 'email', 'name'),
+      groupsByMember,
+      actions: indexBy(actions, 'id', 'name'),
+      resources: indexBy(resources, 'id', 'uri', 'name'),
+      additionalResources: indexBy(additionalResources, 'id', 'name'),
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Evaluates one access request against an already loaded snapshot
+   */
+  evaluateWithSnapshot(snapshot: EvaluationSnapshot, request: AccessRequest, explain?: boolean): DecisionResult {
+    const startTime = Date.now();
+    const resolved = this.resolveRequest(snapshot, request);
+    const policies = snapshot.index
+      ? PolicyIndexService.candidates(snapshot.index, {
+        subject: resolved.subject.identifiers,
+        action: resolved.action.identifiers,
+        resource: resolved.resource.identifiers,
+      })
+      : snapshot.policies;
+    const { trace, ...outcome } = this.decide(policies, resolved, snapshot.combiningAlgorithm);
+
+    return {
+      ...outcome,
+      subject: resolved.subject.id,
+      action: resolved.action.id,
+      resource: resolved.resource.id,
+      environment: resolved.environment,
+      timestamp: new Date(),
+      evaluationTime: Date.now() - startTime,
+      ...(explain && { trace }),
+    };
+  }
+
+  /**
+   * Loads the given policies regardless of status, or the environment's Active policies
+   * through its compiled index, in priority order
+   */
+  async loadPolicies(
+    scope: EvaluationScope,
+    policyIds?: string[]
+  ): Promise<Pick<EvaluationSnapshot, 'policies' | 'combiningAlgorithm' | 'index'>> {
+    if (policyIds && policyIds.length > 0) {
+      const [policies, combiningAlgorithm] = await Promise.all([
+        Policy.find({
+          workspaceId: scope.workspaceId,
+          applicationId: scope.applicationId,
+          environmentId: scope.environmentId,
+          id: { $in: policyIds },
+        })
+          .sort({ priority: 1, createdAt: 1 })
+          .select(POLICY_SNAPSHOT_FIELDS)
+          .lean(),
+        PolicyIndexService.loadCombiningAlgorithm(scope.environmentId),
+      ]);
+
+      return { policies: policies as unknown as PolicySnapshot[], combiningAlgorithm };
+    }
+
+    const index = await PolicyIndexService.refreshVolatile(await PolicyIndexService.getIndex(scope));
+
+    return {
+      policies: index.policies.filter((policy): policy is PolicySnapshot => policy !== null),
+      combiningAlgorithm: index.combiningAlgorithm,
+      index,
+    };
+  }
+
+  /**
+   * Orders a proposed policy set the way the compiled index does. The sort is stable, so
+   * policies of equal priority keep the order they were given in.
+   */
+  private async proposedPolicySet(
+    scope: EvaluationScope,
+    policies: PolicySnapshot[]
+  ): Promise<Pick<EvaluationSnapshot, 'policies' | 'combiningAlgorithm'>> {
+    const combiningAlgorithm = await PolicyIndexService.loadCombiningAlgorithm(scope.environmentId);
+    const ordered = [...policies].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+    return { policies: ordered, combiningAlgorithm };
+  }
+
+  /**
+   * Resolves subject, action and resource references into their stored attributes.
+   * Entities that are not stored in the environment are evaluated with the supplied attributes only.
+   */
+  resolveRequest(snapshot: EvaluationSnapshot, request: AccessRequest): ResolvedRequest {
+    return {
+      subject: this.resolveSubject(snapshot, request.subject),
+      action: this.resolveAction(snapshot, request.action),
+      resource: this.resolveResource(snapshot, request.resource),
+      // Time windows and time conditions always read the server clock, never a caller's value
+      environment: {
+        ...(request.environment || {}),
+        currentTime: new Date().toISOString(),
+      },
+      related: resourceId => this.resolveResource(snapshot, resourceId),
+    };
+  }
+
+  /**
+   * Combines the applicable policies with the environment's combining algorithm.
+   * Policies are expected in priority order.
+   */
+  decide(
+    policies: PolicySnapshot[],
+    request: ResolvedRequest,
+    algorithm: CombiningAlgorithm = 'deny-overrides'
+  ): Pick<DecisionResult, 'decision' | 'reason' | 'matchedPolicies' | 'evaluatedPolicies' | 'combiningAlgorithm' | 'accessLevel'> & { trace: DecisionTrace } {
+    const outcomes = policies.map(policy => this.evaluatePolicy(policy, request));
+    const applicable = outcomes.filter(outcome => outcome.applicable);
+    const denying = applicable.filter(outcome => outcome.effect === 'Deny');
+    const allowing = applicable.filter(outcome => outcome.effect === 'Allow');
+
+    const combining: CombiningStep[] = [{
+      step: 1,
+      description: `${applicable.length} of ${outcomes.length} policies applicable (${denying.length} Deny, ${allowing.length} Allow)`,
+      effect: 'NotApplicable',
+      policyIds: applicable.map(outcome => outcome.policyId),
+      final: false,
+    }];
+
+    const { effect, deciding, description } = this.combine(algorithm, applicable, denying, allowing);
+    combining.push({
+      step: 2,
+      description,
+      effect,
+      policyIds: deciding.map(outcome => outcome.policyId),
+      final: true,
+    });
+
+    const names = deciding.map(outcome => `'${outcome.policyName}'`).join(', ');
+    let reason = 'No active policy matched the request';
+    if (effect === 'Allow') {
+      reason = `Allowed by policy ${names}`;
+    } else if (effect === 'Deny') {
+      reason = deciding.length > 0 ? `Denied by policy ${names}` : 'Denied: no policy permits the request';
+    }
+
+    if (deciding.length === 0) {
+      const notes = outcomes
+        .filter(outcome => !outcome.applicable)
+        .flatMap(outcome => [
+          ...(outcome.outsideSchedule ? [`policy '${outcome.policyName}' is outside its schedule`] : []),
+          ...(outcome.rules.some(outsideWindow) ? [`outside allowed window of policy '${outcome.policyName}'`] : []),
+          ...outcome.rules
+            .filter(resourceBlocked)
+            .map(rule => `${lowerFirst(rule.resourceAccess!.message)} in policy '${outcome.policyName}'`),
+        ]);
+      if (notes.length > 0) {
+        reason += ` (${[...new Set(notes)].join('; ')})`;
+      }
+    }
+
+    // Conditional resources of the deciding Allow policies cap what the permit grants
+    const accessLevel = effect === 'Allow'
+      ? deciding
+        .flatMap(outcome => outcome.rules)
+        .filter(rule => rule.matched && rule.resourceAccess?.accessLevel)
+        .map(rule => rule.resourceAccess!.accessLevel!)
+        .sort((a, b) => ACCESS_LEVEL_RANK.indexOf(b) - ACCESS_LEVEL_RANK.indexOf(a))[0]
+      : undefined;
+
+    return {
+      decision: effect,
+      reason,
+      matchedPolicies: applicable.map(outcome => outcome.policyId),
+      evaluatedPolicies: policies.length,
+      combiningAlgorithm: algorithm,
+      ...(accessLevel && { accessLevel }),
+      trace: { policies: outcomes, combining },
+    };
+  }
+
+  private combine(
+    algorithm: CombiningAlgorithm,
+    applicable: PolicyOutcome[],
+    denying: PolicyOutcome[],
+    allowing: PolicyOutcome[]
+  ): { effect: Decision; deciding: PolicyOutcome[]; description: string } {
+    switch (algorithm) {
+      case 'permit-overrides':
+        if (allowing.length > 0) {
+          return { effect: 'Allow', deciding: allowing, description: 'Permit-overrides: an applicable Allow policy overrides every Deny' };
+        }
+        if (denying.length > 0) {
+          return { effect: 'Deny', deciding: denying, description: 'Permit-overrides: no applicable Allow policy, so the applicable Deny policies deny' };
+        }
+        return { effect: 'NotApplicable', deciding: [], description: 'Permit-overrides: no applicable policy, so the request is not applicable' };
+
+      case 'first-applicable': {
+        const first = applicable[0];
+        if (first) {
+          return { effect: first.effect, deciding: [first], description: `First-applicable: '${first.policyName}' is the highest-priority applicable policy` };
+        }
+        return { effect: 'NotApplicable', deciding: [], description: 'First-applicable: no applicable policy, so the request is not applicable' };
+      }
+
+      case 'deny-unless-permit':
+        if (allowing.length > 0) {
+          return { effect: 'Allow', deciding: allowing, description: 'Deny-unless-permit: an applicable Allow policy permits' };
+        }
+        return { effect: 'Deny', deciding: denying, description: 'Deny-unless-permit: no applicable Allow policy, so the request is denied' };
+
+      case 'deny-overrides':
+      default:
+        if (denying.length > 0) {
+          return { effect: 'Deny', deciding: denying, description: 'Deny-overrides: an applicable Deny policy overrides every Allow' };
+        }
+        if (allowing.length > 0) {
+          return { effect: 'Allow', deciding: allowing, description: 'Deny-overrides: no applicable Deny policy, so the applicable Allow policies permit' };
+        }
+        return { effect: 'NotApplicable', deciding: [], description: 'Deny-overrides: no applicable policy, so the request is not applicable' };
+    }
+  }
+
+  /**
+   * A policy applies when it is within its schedule, any of its rules or complex rules matches
+   * and all of its global conditions hold
+   */
+  evaluatePolicy(policy: PolicySnapshot, request: ResolvedRequest): PolicyOutcome {
+    const unscheduled = outsideSchedule(policy, new Date(request.environment.currentTime));
+    const rules = [
+      ...(policy.rules || []).map(rule => this.evaluateRule(policy, rule, request)),
+      ...(policy.complexRules || []).map(rule => this.evaluateComplexRule(policy, rule, request)),
+    ];
+    const conditions = (policy.conditions || []).map(condition => this.traceCondition(policy, condition, request));
+    const matchedRules = rules.filter(rule => rule.matched).map(rule => rule.ruleId);
+
+    return {
+      policyId: policy.id,
+      policyName: policy.name,
+      effect: policy.effect,
+      applicable: !unscheduled && matchedRules.length > 0 && conditions.every(condition => condition.passed),
+      matchedRules,
+      rules,
+      conditions,
+      ...(unscheduled && { outsideSchedule: true }),
+    };
+  }
+
+  private evaluateRule(policy: PolicySnapshot, rule: IPolicyRule, request: ResolvedRequest): RuleTrace {
+    // Rules only store the first selected subject, so the policy-level subject list also targets the rule
+    const subjectTarget = this.traceTarget(rule.subject?.type, request.subject);
+    if (!subjectTarget.matched && (policy.subjects || []).some(id => request.subject.identifiers.has(normalize(id)))) {
+      subjectTarget.matched = true;
+    }
+
+    const targets = {
+      subject: subjectTarget,
+      action: this.traceTarget(rule.action?.name, request.action),
+      resource: this.traceTarget(rule.object?.type, request.resource),
+    };
+
+    const targeted = targets.subject.matched && targets.action.matched && targets.resource.matched;
+    if (!targeted) {
+      return { ruleId: rule.id, matched: false, targets, attributes: [] };
+    }
+
+    const additionalResource = (policy.additionalResources || [])
+      .find(additional => request.resource.identifiers.has(normalize(additional.id)));
+
+    const attributes = [
+      ...this.traceAttributes(policy, 'subject', rule.subject?.attributes, request.subject.attributes),
+      ...this.traceAttributes(policy, 'resource', rule.object?.attributes, request.resource.attributes),
+      ...this.traceAttributes(policy, 'additionalResource', additionalResource?.attributes, request.resource.attributes),
+      ...(rule.conditions || []).map(condition => this.traceCondition(policy, condition, request)),
+    ];
+
+    return {
+      ruleId: rule.id,
+      matched: attributes.every(attribute => attribute.passed),
+      targets,
+      attributes,
+    };
+  }
+
+  /**
+   * Complex rules additionally need an open time window and the requested resource to be
+   * available after their dependency rules and conditional resources
+   */
+  private evaluateComplexRule(policy: PolicySnapshot, rule: IComplexPolicyRule, request: ResolvedRequest): RuleTrace {
+    const trace = this.evaluateRule(policy, rule, request);
+    if (!isTargeted(trace)) return trace;
+
+    const timeConstraints = this.traceTimeConstraints(rule.timeConstraints, request);
+    const dependencies = this.traceDependencies(rule, request);
+    const resourceAccess = this.traceResourceAccess(policy, rule, dependencies, request);
+
+    return {
+      ...trace,
+      matched: trace.matched
+        && (timeConstraints.length === 0 || timeConstraints.some(constraint => constraint.passed))
+        && resourceAccess?.available !== false,
+      ...(timeConstraints.length > 0 && { timeConstraints }),
+      ...(dependencies.length > 0 && { dependencies }),
+      ...(resourceAccess && { resourceAccess }),
+    };
+  }
+
+  /**
+   * Runs the enabled dependency rules in priority order. A triggered rule enables or disables
+   * its resources unless a higher-priority triggered rule already did.
+   */
+  private traceDependencies(rule: IComplexPolicyRule, request: ResolvedRequest): DependencyTrace[] {
+    const decided = new Set<string>();
+    const claim = (resourceIds: string[] = []) => resourceIds.filter(resourceId => {
+      const key = normalize(resourceId);
+      if (decided.has(key)) return false;
+      decided.add(key);
+      return true;
+    });
+
+    return [...(rule.dependencyRules || [])]
+      .filter(dependency => dependency.enabled !== false)
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
+      .map(dependency => {
+        const trigger = request.related(dependency.triggerResource);
+        const conditions = (dependency.triggerConditions || [])
+          .map(condition => this.traceTriggerCondition(condition, trigger, request));
+        const passed = dependency.logicalOperator === 'OR'
+          ? conditions.length === 0 || conditions.some(condition => condition.passed)
+          : conditions.every(condition => condition.passed);
+        const triggered = trigger.found && passed;
+
+        return {
+          ruleId: dependency.id,
+          ruleName: dependency.name,
+          priority: dependency.priority ?? 0,
+          triggerResource: dependency.triggerResource,
+          triggered,
+          conditions,
+          enabledResources: triggered ? claim(dependency.enabledResources) : [],
+          disabledResources: triggered ? claim(dependency.disabledResources) : [],
+        };
+      });
+  }
+
+  /**
+   * Trigger conditions read the trigger resource's attributes unless the field names the
+   * subject, action or environment
+   */
+  private traceTriggerCondition(condition: IPolicyCondition, trigger: ResolvedEntity, request: ResolvedRequest): AttributeTrace {
+    const [prefix = '', ...rest] = condition.field.split('.');
+    let actual: any;
+    if (['subject', 'action', 'environment', 'env'].includes(prefix)) {
+      actual = this.resolveField(condition.field, request);
+    } else {
+      actual = trigger.attributes[['resource', 'object'].includes(prefix) ? rest.join('.') : condition.field];
+    }
+
+    const result = matchAttribute(actual, condition.operator, condition.value, condition.dateConfig);
+    return {
+      source: 'dependency',
+      attribute: `${trigger.id}.${condition.field}`,
+      operator: condition.operator,
+      expected: condition.value,
+      actual,
+      passed: result.passed,
+      message: result.message,
+    };
+  }
+
+  /**
+   * Decides whether the rule makes the requested resource available and at which access level.
+   * Returns nothing when the rule's resource conditions and dependency rules do not mention it.
+   */
+  private traceResourceAccess(
+    policy: PolicySnapshot,
+    rule: IComplexPolicyRule,
+    dependencies: DependencyTrace[],
+    request: ResolvedRequest
+  ): ResourceAccessTrace | undefined {
+    const isRequested = (resourceId: string) => request.resource.identifiers.has(normalize(resourceId));
+    const primary = (rule.resourceConditions?.primary || []).some(isRequested);
+    // Primary resources are always available, so their conditional entries do not apply
+    const conditional = primary
+      ? undefined
+      : (rule.resourceConditions?.additional || []).find(resource => resource.enabled !== false && isRequested(resource.resourceId));
+    const disabledBy = dependencies.find(dependency => dependency.disabledResources.some(isRequested));
+    const enabledBy = dependencies.find(dependency => dependency.enabledResources.some(isRequested));
+    const requiredBy = (rule.dependencyRules || [])
+      .filter(dependency => dependency.enabled !== false && (dependency.enabledResources || []).some(isRequested));
+
+    if (!primary && !conditional && !disabledBy && requiredBy.length === 0) return undefined;
+
+    const reasons: string[] = [];
+    let blocked: string | undefined;
+    const block = (reason: string) => {
+      blocked = blocked || reason;
+      reasons.push(reason);
+    };
+
+    if (disabledBy) {
+      block(`Blocked by dependency rule '${disabledBy.ruleName}'`);
+    } else if (enabledBy) {
+      reasons.push(`Enabled by dependency rule '${enabledBy.ruleName}'`);
+    } else if (primary) {
+      reasons.push('Primary resource of the rule');
+    } else if (requiredBy.length > 0) {
+      block(`Not enabled: dependency rule ${requiredBy.map(dependency => `'${dependency.name}'`).join(', ')} not triggered`);
+    }
+
+    if (conditional) {
+      const failures = this.checkConditionalResource(conditional, request);
+      if (failures.length > 0) {
+        failures.forEach(block);
+      } else {
+        reasons.push('Conditional resource requirements met');
+      }
+    }
+
+    // Access levels limit what an Allow grants; a Deny covers every action on the resource
+    const accessLevel = conditional?.accessLevel;
+    const permitted = accessLevel ? ACCESS_LEVEL_CATEGORIES[accessLevel] : null;
+    if (!blocked && permitted && policy.effect === 'Allow') {
+      const category = normalize(request.action.attributes.category || request.action.id);
+      if (permitted.includes(category)) {
+        reasons.push(`Access level '${accessLevel}' permits '${category}' actions`);
+      } else {
+        block(`Access level '${accessLevel}' does not permit '${category}' actions`);
+      }
+    }
+
+    return {
+      resourceId: request.resource.id,
+      available: !blocked,
+      ...(accessLevel && { accessLevel }),
+      message: blocked || reasons[0] || 'Available',
+      reasons,
+    };
+  }
+
+  /**
+   * Returns why a conditional resource's dependencies, required states or time windows are not met
+   */
+  private checkConditionalResource(resource: IConditionalResource, request: ResolvedRequest): string[] {
+    const failures: string[] = [];
+    const dependency = resource.conditions;
+
+    if (dependency && dependency.enabled !== false) {
+      const missing = (dependency.dependsOn || []).filter(resourceId => !request.related(resourceId).found);
+      if (missing.length > 0) {
+        failures.push(`Depends on missing resource ${missing.map(resourceId => `'${resourceId}'`).join(', ')}`);
+      }
+
+      const states = (dependency.requiredStates || []).map(state => {
+        const result = matchAttribute(request.related(state.resourceId).attributes[state.attributeName], state.operator, state.expectedValue);
+        return { ...result, message: `${state.resourceId}.${state.attributeName}: ${result.message}` };
+      });
+      const statesPassed = dependency.logicalOperator === 'OR'
+        ? states.length === 0 || states.some(state => state.passed)
+        : states.every(state => state.passed);
+      if (!statesPassed) {
+        failures.push(...states.filter(state => !state.passed).map(state => `Required state not met: ${state.message}`));
+      }
+    }
+
+    const windows = this.traceTimeConstraints(resource.timeConstraints, request);
+    if (windows.length > 0 && !windows.some(window => window.passed)) {
+      failures.push(windows[0]!.message);
+    }
+
+    return failures;
+  }
+
+  /**
+   * Checks the enabled time windows of a rule at the time the request was resolved
+   */
+  private traceTimeConstraints(constraints: ITimeConstraint[] | undefined, request: ResolvedRequest): TimeConstraintTrace[] {
+    const at = new Date(request.environment.currentTime);
+
+    return (constraints || [])
+      .filter(constraint => constraint.enabled !== false)
+      .map(constraint => {
+        const result = evaluateTimeConstraint(constraint, at);
+        return {
+          window: result.window,
+          timezone: constraint.timezone,
+          localTime: result.localTime,
+          passed: result.passed,
+          message: result.message,
+        };
+      });
+  }
+
+  private traceTarget(target: string | undefined, entity: ResolvedEntity): TargetTrace {
+    return {
+      expected: target || WILDCARD,
+      actual: entity.id,
+      matched: this.targets(target, entity),
+    };
+  }
+
+  private traceAttributes(
+    policy: PolicySnapshot,
+    source: AttributeTrace['source'],
+    constraints: IPolicyAttribute[] | undefined,
+    attributes: Record<string, any>
+  ): AttributeTrace[] {
+    return (constraints || []).map(constraint => {
+      const actual = attributes[constraint.name];
+      const result = matchAttribute(actual, constraint.operator, constraint.value, constraint.dateConfig, policy.effect === 'Deny');
+      return {
+        source,
+        attribute: constraint.name,
+        operator: constraint.operator,
+        expected: constraint.value,
+        actual,
+        passed: result.passed,
+        message: result.message,
+      };
+    });
+  }
+
+  private traceCondition(policy: PolicySnapshot, condition: IPolicyCondition, request: ResolvedRequest): AttributeTrace {
+    const actual = this.resolveField(condition.field, request);
+    const result = matchAttribute(actual, condition.operator, condition.value, condition.dateConfig, policy.effect === 'Deny');
+    return {
+      source: 'condition',
+      attribute: condition.field,
+      operator: condition.operator,
+      expected: condition.value,
+      actual,
+      passed: result.passed,
+      message: result.message,
+    };
+  }
+
+  private targets(target: string | undefined, entity: ResolvedEntity): boolean {
+    if (!target || target === WILDCARD) return true;
+    return entity.identifiers.has(normalize(target));
+  }
+
+  /**
+   * Resolves a condition field such as "subject.department" or "environment.ip".
+   * Unqualified fields are looked up in the environment, then the subject, then the resource.
+   */
+  resolveField(field: string, request: ResolvedRequest): any {
+    const [prefix, ...rest] = field.split('.');
+    const path = rest.join('.');
+
+    switch (prefix) {
+      case 'subject':
+        return request.subject.attributes[path];
+      case 'resource':
+      case 'object':
+        return request.resource.attributes[path];
+      case 'action':
+        return request.action.attributes[path];
+      case 'environment':
+      case 'env':
+        return request.environment[path];
+      default:
+        return request.environment[field]
+          ?? request.subject.attributes[field]
+          ?? request.resource.attributes[field];
+    }
+  }
+
+  resolveSubject(snapshot: EvaluationSnapshot, input: string | EvaluationEntityInput): ResolvedEntity {
+    const id = entityId(input);
+    const subject = id ? snapshot.subjects.get(normalize(id)) : undefined;
+
+    if (!subject) {
+      return {
+        id,
+        identifiers: buildIdentifiers(id),
+        attributes: { id, ...suppliedAttributes(input) },
+        found: false,
+      };
+    }
+
+    const groups = snapshot.groupsByMember.get(subject.id) || [];
+
+    return {
+      id: subject.id,
+      identifiers: buildIdentifiers(
+        subject.id,
+        subject.name,
+        subject.email,
+        subject.type,
+        ...groups.flatMap(group => [group.id, group.name])
+      ),
+      attributes: withSupplied({
+        id: subject.id,
+        name: subject.name,
+        displayName: subject.displayName,
+        email: subject.email,
+        type: subject.type,
+        role: subject.role,
+        department: subject.department,
+        status: subject.status,
+        permissions: subject.permissions,
+        groups: groups.map(group => group.id),
+        tags: subject.metadata?.tags || [],
+        ...(subject.attributes || {}),
+      }, input),
+      found: true,
+    };
+  }
+
+  resolveAction(snapshot: EvaluationSnapshot, actionRef: string): ResolvedEntity {
+    const action = snapshot.actions.get(normalize(actionRef));
+
+    if (!action) {
+      return {
+        id: actionRef,
+        identifiers: buildIdentifiers(actionRef),
+        attributes: { id: actionRef, name: actionRef },
+        found: false,
+      };
+    }
+
+    return {
+      id: action.id,
+      identifiers: buildIdentifiers(action.id, action.name),
+      attributes: {
+        id: action.id,
+        name: action.name,
+        displayName: action.displayName,
+        category: action.category,
+        riskLevel: action.riskLevel,
+        httpMethod: action.httpMethod,
+      },
+      found: true,
+    };
+  }
+
+  resolveResource(snapshot: EvaluationSnapshot, input: string | EvaluationEntityInput): ResolvedEntity {
+    const id = entityId(input);
+    const resource = id ? snapshot.resources.get(normalize(id)) : undefined;
+
+    if (resource) {
+      return {
+        id: resource.id,
+        identifiers: buildIdentifiers(resource.id, resource.name, resource.uri, resource.type),
+        attributes: withSupplied({
+          id: resource.id,
+          name: resource.name,
+          displayName: resource.displayName,
+          type: resource.type,
+          uri: resource.uri,
+          parentId: resource.parentId,
+          classification: resource.metadata?.classification,
+          owner: resource.metadata?.owner,
+          tags: resource.metadata?.tags || [],
+          ...(resource.attributes || {}),
+        }, input),
+        found: true,
+      };
+    }
+
+    const additionalResource = id ? snapshot.additionalResources.get(normalize(id)) : undefined;
+
+    if (additionalResource) {
+      return {
+        id: additionalResource.id,
+        identifiers: buildIdentifiers(additionalResource.id, additionalResource.name, additionalResource.type),
+        attributes: withSupplied({
+          id: additionalResource.id,
+          name: additionalResource.name,
+          displayName: additionalResource.displayName,
+          type: additionalResource.type,
+          tags: additionalResource.metadata?.tags || [],
+          ...(additionalResource.attributes || {}),
+        }, input),
+        found: true,
+      };
+    }
+
+    return {
+      id,
+      identifiers: buildIdentifiers(id),
+      attributes: { id, ...suppliedAttributes(input) },
+      found: false,
+    };
+  }
+}
+
+export default new PolicyEvaluationService();
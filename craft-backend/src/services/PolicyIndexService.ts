@@ -0,0 +1,257 @@
+import { Types } from 'mongoose';
+import { Policy } from '../models/Policy';
+import { Environment, CombiningAlgorithm } from '../models/Environment';
+import { NotFoundError, ValidationError } from '../exceptions/AppError';
+import { logger } from '../utils/logger';
+import type { EvaluationScope, PolicySnapshot } from './PolicyEvaluationService';
+
+const WILDCARD = '*';
+
+// Environments without complex rules keep their index for 5 minutes between invalidations
+const DEFAULT_TTL_SECONDS = 300;
+
+export const POLICY_SNAPSHOT_FIELDS = 'id name effect status priority rules subjects resources actions additionalResources conditions complexRules activateAt expireAt';
+
+const normalize = (value: any): string => String(value).trim().toLowerCase();
+
+/**
+ * Active policies of one environment with postings lists by action, subject and resource target.
+ * A policy is listed under the wildcard key when any of its rules targets every value of that dimension.
+ */
+export interface CompiledPolicyIndex {
+  environmentId: string;
+  combiningAlgorithm: CombiningAlgorithm;
+  policies: Array<PolicySnapshot | null>; // null marks a non-cacheable policy that is no longer Active
+  byAction: Map<string, number[]>;
+  bySubject: Map<string, number[]>;
+  byResource: Map<string, number[]>;
+  volatilePolicyIds: string[]; // Policies with non-cacheable complex rules, reloaded on every evaluation
+  builtAt: Date;
+  expiresAt: Date;
+}
+
+export interface IndexLookup {
+  subject: Set<string>;
+  action: Set<string>;
+  resource: Set<string>;
+}
+
+interface IndexEntry {
+  generation: number;
+  index?: CompiledPolicyIndex;
+  pending?: Promise<CompiledPolicyIndex>;
+}
+
+const addPosting = (postings: Map<string, number[]>, key: string | undefined, position: number) => {
+  const normalized = !key || key === WILDCARD ? WILDCARD : normalize(key);
+  const list = postings.get(normalized);
+  if (!list) {
+    postings.set(normalized, [position]);
+  } else if (list[list.length - 1] !== position) {
+    list.push(position);
+  }
+};
+
+const collect = (postings: Map<string, number[]>, keys: Set<string>, into: Set<number>) => {
+  [WILDCARD, ...keys].forEach(key => (postings.get(key) || []).forEach(position => into.add(position)));
+};
+
+/**
+ * In-memory compiled policy index per environment, built from Active policies and dropped
+ * whenever a policy of the environment changes
+ */
+export class PolicyIndexService {
+  private entries: Map<string, IndexEntry> = new Map();
+  private environmentScopes: Map<string, EvaluationScope> = new Map(); // Environments never change owner
+
+  /**
+   * Returns the environment's index, compiling it when missing or expired. The index is
+   * shared by every caller of the environment, so it is only built for the environment's
+   * own workspace and application.
+   */
+  async getIndex(scope: EvaluationScope): Promise<CompiledPolicyIndex> {
+    const verified = await this.verifyScope(scope);
+    const entry = this.entryFor(verified.environmentId);
+
+    if (entry.index && entry.index.expiresAt > new Date()) {
+      return entry.index;
+    }
+
+    if (!entry.pending) {
+      const generation = entry.generation;
+      entry.pending = this.build(verified)
+        .then(index => {
+          // An invalidation while compiling means the result may already be stale
+          if (entry.generation === generation) {
+            entry.index = index;
+          }
+          return index;
+        })
+        .finally(() => {
+          entry.pending = undefined;
+        });
+    }
+
+    return entry.pending;
+  }
+
+  /**
+   * Returns the index with its non-cacheable policies read fresh from the database
+   */
+  async refreshVolatile(index: CompiledPolicyIndex): Promise<CompiledPolicyIndex> {
+    if (index.volatilePolicyIds.length === 0) return index;
+
+    const fresh = await Policy.find({ id: { $in: index.volatilePolicyIds }, status: 'Active' })
+      .select(POLICY_SNAPSHOT_FIELDS)
+      .lean() as unknown as PolicySnapshot[];
+    const freshById = new Map(fresh.map(policy => [policy.id, policy]));
+
+    return {
+      ...index,
+      policies: index.policies.map(policy =>
+        policy && index.volatilePolicyIds.includes(policy.id) ? freshById.get(policy.id) || null : policy
+      ),
+    };
+  }
+
+  /**
+   * Returns the candidate policies for a request, in index order.
+   * Candidates are a superset of the applicable policies and still need full evaluation.
+   */
+  candidates(index: CompiledPolicyIndex, lookup: IndexLookup): PolicySnapshot[] {
+    const byAction = new Set<number>();
+    collect(index.byAction, lookup.action, byAction);
+    if (byAction.size === 0) return [];
+
+    const bySubject = new Set<number>();
+    collect(index.bySubject, lookup.subject, bySubject);
+
+    const byResource = new Set<number>();
+    collect(index.byResource, lookup.resource, byResource);
+
+    return [...byAction]
+      .filter(position => bySubject.has(position) && byResource.has(position))
+      .sort((a, b) => a - b)
+      .map(position => index.policies[position])
+      .filter((policy): policy is PolicySnapshot => policy !== null);
+  }
+
+  /**
+   * Drops the compiled index of an environment
+   */
+  invalidate(environmentId: string): void {
+    const entry = this.entryFor(environmentId);
+    entry.generation += 1;
+    entry.index = undefined;
+    logger.debug(`Policy index invalidated for environment ${environmentId}`);
+  }
+
+  invalidateMany(environmentIds: string[]): void {
+    [...new Set(environmentIds.filter(Boolean))].forEach(environmentId => this.invalidate(environmentId));
+  }
+
+  /**
+   * Reads the combining algorithm configured on an environment
+   */
+  async loadCombiningAlgorithm(environmentId: string): Promise<CombiningAlgorithm> {
+    const environment = await Environment.findById(environmentId).select('combiningAlgorithm').lean().catch(() => null);
+    return environment?.combiningAlgorithm || 'deny-overrides';
+  }
+
+  /**
+   * Scope of the stored environment. A workspace or application that does not own the
+   * environment is rejected rather than compiled into an empty index.
+   */
+  async verifyScope(scope: EvaluationScope): Promise<EvaluationScope> {
+    let verified = this.environmentScopes.get(String(scope.environmentId));
+    if (!verified) {
+      const environment = Types.ObjectId.isValid(scope.environmentId)
+        ? await Environment.findById(scope.environmentId).select('workspaceId applicationId').lean()
+        : null;
+      if (!environment) {
+        throw new NotFoundError('Environment');
+      }
+
+      verified = {
+        workspaceId: String(environment.workspaceId),
+        applicationId: String(environment.applicationId),
+        environmentId: String(environment._id),
+      };
+      this.environmentScopes.set(verified.environmentId, verified);
+    }
+
+    if (String(scope.workspaceId) !== verified.workspaceId || String(scope.applicationId) !== verified.applicationId) {
+      throw new ValidationError('The environment does not belong to the given workspace and application');
+    }
+    return verified;
+  }
+
+  private entryFor(environmentId: string): IndexEntry {
+    let entry = this.entries.get(environmentId);
+    if (!entry) {
+      entry = { generation: 0 };
+      this.entries.set(environmentId, entry);
+    }
+    return entry;
+  }
+
+  private async build(scope: EvaluationScope): Promise<CompiledPolicyIndex> {
+    const startTime = Date.now();
+    const [policies, combiningAlgorithm] = await Promise.all([
+      Policy.find({
+        workspaceId: scope.workspaceId,
+        applicationId: scope.applicationId,
+        environmentId: scope.environmentId,
+        status: 'Active',
+      })
+        // Positions follow priority so candidates come out in first-applicable order
+        .sort({ priority: 1, createdAt: 1 })
+        .select(POLICY_SNAPSHOT_FIELDS)
+        .lean() as unknown as Promise<PolicySnapshot[]>,
+      this.loadCombiningAlgorithm(scope.environmentId),
+    ]);
+
+    const byAction = new Map<string, number[]>();
+    const bySubject = new Map<string, number[]>();
+    const byResource = new Map<string, number[]>();
+    const volatilePolicyIds: string[] = [];
+    let ttlSeconds = DEFAULT_TTL_SECONDS;
+
+    policies.forEach((policy, position) => {
+      [...(policy.rules || []), ...(policy.complexRules || [])].forEach(rule => {
+        addPosting(byAction, rule.action?.name, position);
+        addPosting(bySubject, rule.subject?.type, position);
+        addPosting(byResource, rule.object?.type, position);
+      });
+      // The policy-level subject list also targets every rule
+      (policy.subjects || []).forEach(subjectId => addPosting(bySubject, subjectId, position));
+
+      (policy.complexRules || []).forEach(rule => {
+        const metadata = rule.evaluationMetadata;
+        if (!metadata) return;
+        if (metadata.cacheable === false) {
+          volatilePolicyIds.push(policy.id);
+        } else if (metadata.cacheExpirationTime && metadata.cacheExpirationTime > 0) {
+          ttlSeconds = Math.min(ttlSeconds, metadata.cacheExpirationTime);
+        }
+      });
+    });
+
+    const builtAt = new Date();
+    logger.debug(`Policy index compiled for environment ${scope.environmentId}: ${policies.length} policies in ${Date.now() - startTime}ms`);
+
+    return {
+      environmentId: scope.environmentId,
+      combiningAlgorithm,
+      policies,
+      byAction,
+      bySubject,
+      byResource,
+      volatilePolicyIds: [...new Set(volatilePolicyIds)],
+      builtAt,
+      expiresAt: new Date(builtAt.getTime() + ttlSeconds * 1000),
+    };
+  }
+}
+
+export default new PolicyIndexService();
@@ -0,0 +1,288 @@
+import { IPolicy } from '../models/Policy';
+import { IPolicyContent, IPolicyRevision, PolicyRevision, VersionBump } from '../models/PolicyRevision';
+import { logger } from '../utils/logger';
+
+export const INITIAL_VERSION = '1.0.0';
+
+export interface FieldChange {
+  field: keyof IPolicyContent;
+  from: any;
+  to: any;
+}
+
+export interface RuleChange {
+  key: string; // Rule target, e.g. "admin → delete → documents"
+  kind: 'rule' | 'complexRule';
+  change: 'added' | 'removed' | 'modified';
+  fields: string[]; // Rule fields that differ, for modified rules
+  before?: any;
+  after?: any;
+}
+
+export interface PolicyDiff {
+  from: string;
+  to: string;
+  fields: FieldChange[];
+  rules: RuleChange[];
+}
+
+// Content changes that alter who is governed or how: a major version
+const MAJOR_FIELDS: Array<keyof IPolicyContent> = ['effect', 'subjects', 'resources', 'actions'];
+// Changes to when and under which conditions the policy applies: a minor version
+const MINOR_FIELDS: Array<keyof IPolicyContent> = ['status', 'priority', 'policyType', 'conditions', 'additionalResources'];
+// Descriptive changes: a patch version
+const PATCH_FIELDS: Array<keyof IPolicyContent> = ['name', 'description', 'tags'];
+
+const UNORDERED_FIELDS: Array<keyof IPolicyContent> = ['subjects', 'resources', 'actions', 'tags'];
+
+// Drops database IDs and mongoose internals so content compares by value
+export const plain = (value: any): any => {
+  if (Array.isArray(value)) return value.map(plain);
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === 'object') {
+    if (typeof value.toHexString === 'function') return value.toHexString();
+    return Object.keys(value)
+      .filter(key => key !== '_id' && key !== '__v')
+      .reduce<Record<string, any>>((result, key) => {
+        if (value[key] !== undefined) result[key] = plain(value[key]);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+// JSON with sorted keys, so equal content always serializes the same way
+export const canonical = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const sameField = (field: keyof IPolicyContent, a: any, b: any): boolean => {
+  if (UNORDERED_FIELDS.includes(field)) {
+    return canonical([...(a || [])].sort()) === canonical([...(b || [])].sort());
+  }
+  return canonical(a) === canonical(b);
+};
+
+const ruleTarget = (rule: any): string =>
+  [rule?.subject?.type, rule?.action?.name, rule?.object?.type].map(part => part || '*').join(' → ');
+
+// Rule IDs are regenerated whenever a policy is edited, so rules are matched by their target.
+// Rules with the same target are told apart by position.
+const keyRules = (rules: any[]): Map<string, any> => {
+  const keyed = new Map<string, any>();
+  rules.forEach(rule => {
+    const target = ruleTarget(rule);
+    let key = target;
+    for (let occurrence = 2; keyed.has(key); occurrence++) {
+      key = `${target} #${occurrence}`;
+    }
+    keyed.set(key, rule);
+  });
+  return keyed;
+};
+
+const diffRules = (kind: RuleChange['kind'], before: any[], after: any[]): RuleChange[] => {
+  const previous = keyRules(before || []);
+  const next = keyRules(after || []);
+  const changes: RuleChange[] = [];
+
+  previous.forEach((rule, key) => {
+    const updated = next.get(key);
+    if (!updated) {
+      changes.push({ key, kind, change: 'removed', fields: [], before: rule });
+      return;
+    }
+
+    const fields = [...new Set([...Object.keys(rule), ...Object.keys(updated)])]
+      .filter(field => field !== 'id' && canonical(rule[field]) !== canonical(updated[field]));
+    if (fields.length > 0) {
+      changes.push({ key, kind, change: 'modified', fields, before: rule, after: updated });
+    }
+  });
+  next.forEach((rule, key) => {
+    if (!previous.has(key)) {
+      changes.push({ key, kind, change: 'added', fields: [], after: rule });
+    }
+  });
+
+  return changes;
+};
+
+const pluralize = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Immutable revision history of policies: every save that changes a policy's content stores a
+ * snapshot under the next semantic version
+ */
+export class PolicyRevisionService {
+  /**
+   * The versioned content of a policy document or plain object
+   */
+  contentOf(policy: IPolicy | Record<string, any>): IPolicyContent {
+    const source: any = typeof (policy as IPolicy).toObject === 'function' ? (policy as IPolicy).toObject() : policy;
+
+    return plain({
+      name: source.name,
+      description: source.description || '',
+      effect: source.effect,
+      status: source.status,
+      priority: source.priority ?? 0,
+      policyType: source.policyType || 'simple',
+      rules: source.rules || [],
+      complexRules: source.complexRules || [],
+      subjects: source.subjects || [],
+      resources: source.resources || [],
+      actions: source.actions || [],
+      additionalResources: source.additionalResources || [],
+      conditions: source.conditions || [],
+      tags: source.metadata?.tags || [],
+    });
+  }
+
+  /**
+   * Field- and rule-level differences between two versions of a policy's content
+   */
+  diff(from: IPolicyContent, to: IPolicyContent, versions: { from: string; to: string }): PolicyDiff {
+    const fields = [...MAJOR_FIELDS, ...MINOR_FIELDS, ...PATCH_FIELDS]
+      .filter(field => !sameField(field, from[field], to[field]))
+      .map(field => ({ field, from: from[field], to: to[field] }));
+
+    return {
+      ...versions,
+      fields,
+      rules: [
+        ...diffRules('rule', from.rules, to.rules),
+        ...diffRules('complexRule', from.complexRules, to.complexRules),
+      ],
+    };
+  }
+
+  /**
+   * Version bump for a change: adding or removing rules, or changing the effect or targets, is
+   * major; editing rule attributes, conditions, status or priority is minor; renaming, describing
+   * or tagging is a patch. Null when the content did not change.
+   */
+  determineBump(diff: PolicyDiff): Exclude<VersionBump, 'initial'> | null {
+    const changed = new Set(diff.fields.map(change => change.field));
+
+    if (MAJOR_FIELDS.some(field => changed.has(field)) || diff.rules.some(rule => rule.change !== 'modified')) {
+      return 'major';
+    }
+    if (MINOR_FIELDS.some(field => changed.has(field)) || diff.rules.length > 0) {
+      return 'minor';
+    }
+    if (PATCH_FIELDS.some(field => changed.has(field))) {
+      return 'patch';
+    }
+    return null;
+  }
+
+  bumpVersion(version: string | undefined, bump: Exclude<VersionBump, 'initial'>): string {
+    const [major = 1, minor = 0, patch = 0] = (version || INITIAL_VERSION).split('.').map(part => parseInt(part, 10) || 0);
+
+    if (bump === 'major') return `${major + 1}.0.0`;
+    if (bump === 'minor') return `${major}.${minor + 1}.0`;
+    return `${major}.${minor}.${patch + 1}`;
+  }
+
+  /**
+   * Short human-readable description of a diff, e.g. "1 rule added, effect changed"
+   */
+  summarize(diff: PolicyDiff): string {
+    const parts: string[] = [];
+    (['added', 'removed', 'modified'] as const).forEach(change => {
+      const count = diff.rules.filter(rule => rule.change === change).length;
+      if (count > 0) parts.push(`${pluralize(count, 'rule')} ${change}`);
+    });
+    diff.fields.forEach(change => parts.push(`${change.field} changed`));
+
+    return parts.join(', ') || 'No changes';
+  }
+
+  /**
+   * Overwrites a policy's versioned fields with stored content, without saving it
+   */
+  applyContent(policy: IPolicy, content: IPolicyContent): void {
+    const { tags, ...fields } = content;
+    policy.set(fields);
+    policy.metadata.tags = tags;
+  }
+
+  /**
+   * Stores the first revision of a newly created policy
+   */
+  async recordInitial(policy: IPolicy, author: string): Promise<IPolicyRevision> {
+    return PolicyRevision.create({
+      policyId: policy.id,
+      workspaceId: policy.workspaceId,
+      applicationId: policy.applicationId,
+      environmentId: policy.environmentId,
+      version: policy.metadata.version || INITIAL_VERSION,
+      bump: 'initial',
+      content: this.contentOf(policy),
+      author,
+      summary: 'Created',
+    });
+  }
+
+  /**
+   * Compares a saved policy with its content before the save and, when it changed, stores a
+   * revision under the bumped version and sets that version on the policy. Policies saved
+   * before revisions existed get their previous content recorded as the base revision first.
+   */
+  async recordUpdate(
+    before: IPolicyContent,
+    beforeVersion: string,
+    policy: IPolicy,
+    author: string,
+    options: { rolledBackFrom?: string; minimumBump?: Exclude<VersionBump, 'initial'> } = {}
+  ): Promise<IPolicyRevision | null> {
+    const after = this.contentOf(policy);
+    const diff = this.diff(before, after, { from: beforeVersion, to: '' });
+    const bump = this.determineBump(diff) || options.minimumBump;
+    if (!bump) return null;
+
+    const hasHistory = await PolicyRevision.exists({ policyId: policy.id });
+    if (!hasHistory) {
+      await PolicyRevision.create({
+        policyId: policy.id,
+        workspaceId: policy.workspaceId,
+        applicationId: policy.applicationId,
+        environmentId: policy.environmentId,
+        version: beforeVersion,
+        bump: 'initial',
+        content: before,
+        author: policy.metadata.createdBy || 'system',
+        summary: 'Recorded from the policy before its first tracked change',
+      });
+    }
+
+    const version = this.bumpVersion(beforeVersion, bump);
+    policy.metadata.version = version;
+    await policy.save();
+
+    const revision = await PolicyRevision.create({
+      policyId: policy.id,
+      workspaceId: policy.workspaceId,
+      applicationId: policy.applicationId,
+      environmentId: policy.environmentId,
+      version,
+      bump,
+      content: after,
+      author,
+      summary: options.rolledBackFrom
+        ? `Rolled back to ${options.rolledBackFrom}: ${this.summarize(diff)}`
+        : this.summarize(diff),
+      ...(options.rolledBackFrom && { rolledBackFrom: options.rolledBackFrom }),
+    });
+
+    logger.info(`Policy ${policy.id} revised to ${version} (${bump}) by ${author}`);
+    return revision;
+  }
+}
+
+export default new PolicyRevisionService();
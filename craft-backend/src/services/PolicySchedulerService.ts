@@ -0,0 +1,186 @@
+import { IPolicy, Policy } from '../models/Policy';
+import { logger } from '../utils/logger';
+import ActivityService from './ActivityService';
+import BreakGlassService from './BreakGlassService';
+import PolicyChangeService from './PolicyChangeService';
+
+export type ScheduledTransitionKind = 'activate' | 'expire';
+
+// Author of the policy changes and actor of the activities the scheduler records
+const SCHEDULER_ACTOR = {
+  id: 'policy-scheduler',
+  name: 'Policy Scheduler',
+  email: 'system',
+  type: 'system' as const,
+};
+
+const TRANSITIONS: Record<ScheduledTransitionKind, { field: 'activateAt' | 'expireAt'; status: IPolicy['status']; action: string }> = {
+  activate: { field: 'activateAt', status: 'Active', action: 'policy_activated' },
+  expire: { field: 'expireAt', status: 'Inactive', action: 'policy_expired' },
+};
+
+export interface ScheduledTransition {
+  policyId: string;
+  policyName: string;
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+  kind: ScheduledTransitionKind;
+  at: Date;
+  status: IPolicy['status']; // Status when listed, or before the transition when applied
+}
+
+export interface UpcomingTransitionFilter {
+  workspaceIds?: string[]; // Unset for every workspace
+  environmentId?: string;
+  until: Date;
+  limit: number;
+}
+
+const toTransition = (policy: any, kind: ScheduledTransitionKind): ScheduledTransition => ({
+  policyId: policy.id,
+  policyName: policy.name,
+  workspaceId: policy.workspaceId,
+  applicationId: policy.applicationId,
+  environmentId: policy.environmentId,
+  kind,
+  at: policy[TRANSITIONS[kind].field],
+  status: policy.status,
+});
+
+/**
+ * Background scheduler that activates policies at their activateAt time and deactivates them at
+ * their expireAt time, recording an activity for each transition
+ */
+export class PolicySchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    // The scheduler alone should not keep the process alive
+    this.timer.unref();
+    this.tick();
+    logger.info(`Policy scheduler started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Applies every transition due at the given time. Activations run first, so a policy whose
+   * whole window passed while the scheduler was down ends up Inactive.
+   */
+  async processDue(now: Date = new Date()): Promise<ScheduledTransition[]> {
+    const applied: ScheduledTransition[] = [];
+
+    for (const kind of ['activate', 'expire'] as ScheduledTransitionKind[]) {
+      const { field } = TRANSITIONS[kind];
+      const due = await Policy.find({ [field]: { $lte: now } }).select(`_id ${field}`).lean();
+
+      for (const { _id, [field]: at } of due) {
+        const transition = await this.apply(String(_id), kind, at as Date);
+        if (transition) applied.push(transition);
+      }
+    }
+
+    // Break-glass grants are expired with their policies and marked for review
+    await BreakGlassService.expireDue(now);
+
+    return applied;
+  }
+
+  /**
+   * Scheduled transitions up to the given time, soonest first
+   */
+  async upcoming(filter: UpcomingTransitionFilter): Promise<ScheduledTransition[]> {
+    const scope: Record<string, any> = {
+      ...(filter.workspaceIds && { workspaceId: { $in: filter.workspaceIds } }),
+      ...(filter.environmentId && { environmentId: filter.environmentId }),
+    };
+
+    const perKind = await Promise.all((['activate', 'expire'] as ScheduledTransitionKind[]).map(async kind => {
+      const { field } = TRANSITIONS[kind];
+      const policies = await Policy.find({ ...scope, [field]: { $ne: null, $lte: filter.until } })
+        .sort({ [field]: 1 })
+        .limit(filter.limit)
+        .select(`id name workspaceId applicationId environmentId status ${field}`)
+        .lean();
+      return policies.map(policy => toTransition(policy, kind));
+    }));
+
+    return perKind
+      .flat()
+      .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+      .slice(0, filter.limit);
+  }
+
+  private async tick(): Promise<void> {
+    // A slow run is not overlapped by the next interval
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      const applied = await this.processDue();
+      if (applied.length > 0) {
+        logger.info(`Policy scheduler applied ${applied.length} transition(s)`);
+      }
+    } catch (error) {
+      logger.error('Policy scheduler run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Claims the due schedule by clearing it, so that concurrent schedulers apply it once, then sets
+   * the policy's status. A policy already in the target status only has its schedule cleared.
+   */
+  private async apply(policyObjectId: string, kind: ScheduledTransitionKind, at: Date): Promise<ScheduledTransition | null> {
+    const { field, status, action } = TRANSITIONS[kind];
+
+    const claimed = await Policy.findOneAndUpdate(
+      { _id: policyObjectId, [field]: at },
+      { $unset: { [field]: 1 } }
+    );
+    if (!claimed) return null;
+
+    const transition = toTransition(claimed, kind);
+    if (claimed.status === status) return null;
+
+    const policy = await PolicyChangeService.update(claimed, { status }, SCHEDULER_ACTOR.email);
+    if (!policy) return null;
+
+    await this.recordActivity(policy, transition, action);
+    logger.info(`Policy ${policy.id} ${kind === 'activate' ? 'activated' : 'expired'} as scheduled for ${at.toISOString()}`);
+
+    return transition;
+  }
+
+  private async recordActivity(policy: IPolicy, transition: ScheduledTransition, action: string): Promise<void> {
+    await ActivityService.record({
+      type: 'policy_management',
+      category: 'administration',
+      action,
+      resource: { type: 'policy', id: policy.id, name: policy.name },
+      actor: SCHEDULER_ACTOR,
+      description: `Policy '${policy.name}' ${transition.kind === 'activate' ? 'activated' : 'expired'} as scheduled`,
+      severity: 'medium',
+      workspaceId: policy.workspaceId,
+      applicationId: policy.applicationId,
+      environmentId: policy.environmentId,
+      metadata: {
+        changes: { status: { from: transition.status, to: policy.status } },
+        additionalData: { scheduledAt: transition.at, version: policy.metadata.version },
+      },
+    });
+  }
+}
+
+export default new PolicySchedulerService();
@@ -0,0 +1,579 @@
+import mongoose, { Model } from 'mongoose';
+import { AuthorizationError, NotFoundError, ValidationError } from '../exceptions/AppError';
+import { Action } from '../models/Action';
+import AdditionalResource from '../models/AdditionalResource';
+import { Attribute } from '../models/Attribute';
+import { Environment, IEnvironment } from '../models/Environment';
+import { IPolicy, Policy } from '../models/Policy';
+import { Resource } from '../models/Resource';
+import { Subject } from '../models/Subject';
+import { logger } from '../utils/logger';
+import ChangeRequestService, { ChangeActor } from './ChangeRequestService';
+import PolicyChangeService from './PolicyChangeService';
+import PolicyRevisionService, { canonical, plain } from './PolicyRevisionService';
+
+export type PromotionKind = 'subject' | 'action' | 'resource' | 'additionalResource' | 'attribute';
+export type PromotionAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+export interface EntityPromotion {
+  kind: PromotionKind;
+  sourceId: string;
+  name: string;
+  action: PromotionAction;
+  targetId: string; // ID in the target environment, new or existing
+  fields: string[]; // Fields that differ from the target's entity
+  reason?: string; // Why the entity conflicts
+}
+
+export interface PolicyPromotion {
+  sourceId: string;
+  name: string;
+  action: PromotionAction;
+  targetId?: string; // Absent for creates until they are applied
+  fields: string[];
+  rules: number; // Rules added, removed or modified
+  summary: string;
+  reason?: string;
+  changeRequestId?: string; // When the target environment holds the change for approval
+}
+
+export interface PromotionPlan {
+  source: { id: string; name: string };
+  target: { id: string; name: string };
+  dryRun: boolean;
+  overwrite: boolean;
+  entities: EntityPromotion[];
+  policies: PolicyPromotion[];
+  idMap: Record<PromotionKind, Record<string, string>>; // Source reference → target ID
+  unresolved: Array<{ kind: PromotionKind; ref: string }>; // References with no entity in the source
+  summary: Record<PromotionAction, number>;
+}
+
+export interface PromotionOptions {
+  sourceEnvironmentId?: string; // Defaults to the target's promotionRules.autoPromoteFrom
+  targetEnvironmentId: string;
+  policyIds: string[];
+  dryRun?: boolean;
+  overwrite?: boolean; // Also update conflicting entities and same-named policies
+  workspaceIds?: string[]; // Workspaces the caller may access, unrestricted when absent
+}
+
+// Entities by kind, as stored
+export type EntitySet = Record<PromotionKind, any[]>;
+
+export interface EntityPlan {
+  entities: EntityPromotion[];
+  documents: Map<EntityPromotion, any>; // Entity to create or update from, per promotion
+  idMap: Record<PromotionKind, Record<string, string>>;
+  conflicted: Set<string>; // "kind:ref" of references to conflicting entities
+}
+
+interface EntitySpec {
+  kind: PromotionKind;
+  label: string;
+  model: Model<any>;
+  lookupFields: string[]; // Fields a policy may reference the entity by
+  typeField?: string; // Entities of a different type with the same name conflict
+  idPrefix?: string; // Prefix of generated IDs; absent for globally unique IDs
+}
+
+export const ENTITY_SPECS: EntitySpec[] = [
+  { kind: 'subject', label: 'subject', model: Subject, lookupFields: ['id', 'name', 'email'], typeField: 'type', idPrefix: 'subject' },
+  { kind: 'action', label: 'action', model: Action, lookupFields: ['id', 'name'], idPrefix: 'action' },
+  { kind: 'resource', label: 'resource', model: Resource, lookupFields: ['id', 'name', 'uri'], typeField: 'type', idPrefix: 'resource' },
+  { kind: 'additionalResource', label: 'additional resource', model: AdditionalResource, lookupFields: ['id', 'name'], typeField: 'type' },
+  { kind: 'attribute', label: 'attribute', model: Attribute, lookupFields: ['name'], typeField: 'dataType', idPrefix: 'attr' },
+];
+
+// Fields that belong to an entity's place in an environment rather than its content
+export const PLACEMENT_FIELDS = ['_id', '__v', 'id', 'workspaceId', 'applicationId', 'environmentId', 'createdAt', 'updatedAt', 'lastLogin', 'evaluationCount', 'lastEvaluated'];
+const OWNERSHIP_METADATA = ['owner', 'createdBy', 'lastModifiedBy', 'version'];
+
+export const omit = (value: Record<string, any>, keys: string[]): Record<string, any> =>
+  Object.keys(value || {})
+    .filter(key => !keys.includes(key))
+    .reduce<Record<string, any>>((result, key) => ({ ...result, [key]: value[key] }), {});
+
+const entityContent = (entity: any): Record<string, any> => plain({
+  ...omit(entity, PLACEMENT_FIELDS),
+  metadata: omit(entity.metadata, OWNERSHIP_METADATA),
+});
+
+const differingFields = (a: Record<string, any>, b: Record<string, any>): string[] =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(field => canonical(a[field]) !== canonical(b[field]));
+
+const generateId = (prefix: string): string => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const emptyIdMap = (): Record<PromotionKind, Record<string, string>> =>
+  ENTITY_SPECS.reduce((map, spec) => ({ ...map, [spec.kind]: {} }), {} as Record<PromotionKind, Record<string, string>>);
+
+// Rules and complex rules hold references to entities as well as the policy's own lists
+const allRules = (policy: any): any[] => [...(policy.rules || []), ...(policy.complexRules || [])];
+
+/**
+ * References of a policy to entities, by kind. Resource references may point to resources or
+ * additional resources, so both are looked up.
+ */
+export const referencesOf = (policy: any): Record<PromotionKind, Set<string>> => {
+  const refs = ENTITY_SPECS.reduce(
+    (result, spec) => ({ ...result, [spec.kind]: new Set<string>() }),
+    {} as Record<PromotionKind, Set<string>>
+  );
+  const add = (kind: PromotionKind, values: any[]) =>
+    values.filter(value => typeof value === 'string' && value).forEach(value => refs[kind].add(value));
+  const addAttributes = (attributes: any[] = []) => add('attribute', attributes.map(attribute => attribute?.name));
+
+  add('subject', policy.subjects || []);
+  add('action', policy.actions || []);
+  add('resource', policy.resources || []);
+  (policy.additionalResources || []).forEach((resource: any) => {
+    add('additionalResource', [resource.id]);
+    addAttributes(resource.attributes);
+  });
+  // Condition fields look like "subject.department"; the attribute is the last segment
+  add('attribute', (policy.conditions || []).map((condition: any) => condition.field?.split('.').pop()));
+
+  allRules(policy).forEach(rule => {
+    add('subject', [rule.subject?.type]);
+    add('action', [rule.action?.name]);
+    add('resource', [rule.object?.type]);
+    addAttributes(rule.subject?.attributes);
+    addAttributes(rule.object?.attributes);
+    add('attribute', (rule.conditions || []).map((condition: any) => condition.field?.split('.').pop()));
+
+    const resourceConditions = rule.resourceConditions;
+    if (resourceConditions) {
+      add('resource', resourceConditions.primary || []);
+      (resourceConditions.additional || []).forEach((conditional: any) => {
+        add('resource', [conditional.resourceId, ...(conditional.conditions?.dependsOn || [])]);
+        add('resource', (conditional.conditions?.requiredStates || []).map((state: any) => state.resourceId));
+      });
+    }
+    (rule.dependencyRules || []).forEach((dependency: any) => {
+      add('resource', [dependency.triggerResource, ...(dependency.enabledResources || []), ...(dependency.disabledResources || [])]);
+    });
+  });
+
+  return refs;
+};
+
+/**
+ * A copy of a policy's content with its entity references rewritten to target IDs. Resource
+ * references fall back to additional resources, as in evaluation.
+ */
+export const remapPolicy = (policy: any, idMap: Record<PromotionKind, Record<string, string>>): any => {
+  const map = (kind: PromotionKind) => (ref: any) => (typeof ref === 'string' && idMap[kind][ref]) || ref;
+  const subject = map('subject');
+  const action = map('action');
+  const resource = (ref: any) => (typeof ref === 'string' && (idMap.resource[ref] || idMap.additionalResource[ref])) || ref;
+
+  const remapRule = (rule: any) => ({
+    ...rule,
+    subject: rule.subject && { ...rule.subject, type: subject(rule.subject.type) },
+    action: rule.action && { ...rule.action, name: action(rule.action.name) },
+    object: rule.object && { ...rule.object, type: resource(rule.object.type) },
+    ...(rule.resourceConditions && {
+      resourceConditions: {
+        ...rule.resourceConditions,
+        primary: (rule.resourceConditions.primary || []).map(resource),
+        additional: (rule.resourceConditions.additional || []).map((conditional: any) => ({
+          ...conditional,
+          resourceId: resource(conditional.resourceId),
+          ...(conditional.conditions && {
+            conditions: {
+              ...conditional.conditions,
+              dependsOn: (conditional.conditions.dependsOn || []).map(resource),
+              requiredStates: (conditional.conditions.requiredStates || []).map((state: any) => ({
+                ...state,
+                resourceId: resource(state.resourceId),
+              })),
+            },
+          }),
+        })),
+      },
+    }),
+    ...(rule.dependencyRules && {
+      dependencyRules: rule.dependencyRules.map((dependency: any) => ({
+        ...dependency,
+        triggerResource: resource(dependency.triggerResource),
+        enabledResources: (dependency.enabledResources || []).map(resource),
+        ...(dependency.disabledResources && { disabledResources: dependency.disabledResources.map(resource) }),
+      })),
+    }),
+  });
+
+  return {
+    ...policy,
+    subjects: (policy.subjects || []).map(subject),
+    actions: (policy.actions || []).map(action),
+    resources: (policy.resources || []).map(resource),
+    additionalResources: (policy.additionalResources || []).map((additional: any) => ({
+      ...additional,
+      id: map('additionalResource')(additional.id),
+    })),
+    rules: (policy.rules || []).map(remapRule),
+    ...(policy.complexRules && { complexRules: policy.complexRules.map(remapRule) }),
+  };
+};
+
+/**
+ * Copies policies between environments of an application together with the subjects, actions,
+ * resources, additional resources and attributes they reference. Entities are matched to the
+ * target by name; unmatched ones are created, keeping their ID when it is free there. Promoted
+ * policies remember their source, so promoting again updates them.
+ */
+export class PromotionService {
+  /**
+   * Source and target of a promotion. A target with promotionRules.autoPromoteFrom only accepts
+   * promotions from that environment, which is also the default source.
+   */
+  async resolveEnvironments(options: PromotionOptions): Promise<{ source: IEnvironment; target: IEnvironment }> {
+    const findEnvironment = async (id: string | undefined, label: string) => {
+      const environment = id && mongoose.isValidObjectId(id) ? await Environment.findOne({ _id: id, active: true }) : null;
+      if (!environment) {
+        throw new NotFoundError(`${label} environment not found`);
+      }
+      if (options.workspaceIds && !options.workspaceIds.includes(String(environment.workspaceId))) {
+        throw new AuthorizationError(`Access denied to the ${label.toLowerCase()} environment`);
+      }
+      return environment;
+    };
+
+    const target = await findEnvironment(options.targetEnvironmentId, 'Target');
+    const autoPromoteFrom = target.metadata.promotionRules?.autoPromoteFrom
+      ? String(target.metadata.promotionRules.autoPromoteFrom)
+      : undefined;
+    const sourceId = options.sourceEnvironmentId || autoPromoteFrom;
+    if (!sourceId) {
+      throw new ValidationError('Source environment ID is required');
+    }
+    const source = await findEnvironment(sourceId, 'Source');
+
+    if (String(source._id) === String(target._id)) {
+      throw new ValidationError('Source and target environments must differ');
+    }
+    if (String(source.applicationId) !== String(target.applicationId)) {
+      throw new ValidationError('Policies can only be promoted between environments of the same application');
+    }
+    if (!target.canPromoteFrom(String(source._id))) {
+      throw new ValidationError(`${target.displayName} only accepts promotions from its configured source environment`);
+    }
+
+    return { source, target };
+  }
+
+  /**
+   * Plans a promotion and, unless it is a dry run, applies it. Conflicts are skipped unless
+   * overwrite is set. Policy changes in a protected target become change requests.
+   */
+  async promote(options: PromotionOptions, actor: ChangeActor): Promise<PromotionPlan> {
+    if (!Array.isArray(options.policyIds) || options.policyIds.length === 0) {
+      throw new ValidationError('Policy IDs array is required');
+    }
+
+    const { source, target } = await this.resolveEnvironments(options);
+    const sourceId = String(source._id);
+    const targetId = String(target._id);
+    const overwrite = options.overwrite === true;
+    const dryRun = options.dryRun !== false;
+
+    const policies = await Policy.find({ id: { $in: options.policyIds }, environmentId: sourceId });
+    const missingPolicies = options.policyIds.filter(id => !policies.some(policy => policy.id === id));
+    if (missingPolicies.length > 0) {
+      throw new ValidationError(`Policies not found in the source environment: ${missingPolicies.join(', ')}`);
+    }
+
+    const references = policies.map(policy => ({ policy, refs: referencesOf(policy.toObject()) }));
+    const sourceEntities = await this.collectEntities(sourceId, policies.map(policy => policy.toObject()));
+    const { entities, documents, idMap, conflicted } = await this.planEntities(sourceEntities, targetId, overwrite);
+    const unresolved = this.unresolvedReferences(references.map(({ refs }) => refs), idMap);
+
+    const policyPlans = await this.planPolicies(references, idMap, conflicted, sourceId, targetId, overwrite);
+    const plan: PromotionPlan = {
+      source: { id: sourceId, name: source.displayName },
+      target: { id: targetId, name: target.displayName },
+      dryRun,
+      overwrite,
+      entities,
+      policies: policyPlans.map(({ promotion }) => promotion),
+      idMap,
+      unresolved,
+      summary: [...entities, ...policyPlans.map(({ promotion }) => promotion)].reduce(
+        (summary, item) => ({ ...summary, [item.action]: summary[item.action] + 1 }),
+        { create: 0, update: 0, unchanged: 0, conflict: 0 } as Record<PromotionAction, number>
+      ),
+    };
+
+    if (!dryRun) {
+      await this.applyEntities(entities, documents, target);
+      await this.applyPolicies(policyPlans, source, target, actor);
+      logger.info(`Promoted ${policies.length} policies from ${source.name} to ${target.name} by ${actor.email}`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Entities of an environment the policies reference, by kind. Resource references may point
+   * to additional resources, so both are looked up.
+   */
+  async collectEntities(environmentId: string, policies: any[]): Promise<EntitySet> {
+    const references = policies.map(referencesOf);
+    const requested = (kind: PromotionKind): string[] => [...new Set(references.flatMap(refs => [...refs[kind]]))];
+    const collected = {} as EntitySet;
+
+    for (const spec of ENTITY_SPECS) {
+      const refs = spec.kind === 'additionalResource'
+        ? [...new Set([...requested('additionalResource'), ...requested('resource')])]
+        : requested(spec.kind);
+
+      const entities: any[] = refs.length === 0 ? [] : await spec.model.find({
+        environmentId,
+        $or: spec.lookupFields.map(field => ({ [field]: { $in: refs } })),
+      }).lean();
+      collected[spec.kind] = [...new Map(entities.map(entity => [entity.id, entity])).values()];
+    }
+
+    return collected;
+  }
+
+  /**
+   * Matches entities to the target environment by name. Unmatched ones are created, keeping
+   * their ID when it is free there; matched ones are updated when their content differs, and
+   * conflict when their type differs unless overwrite is set.
+   */
+  async planEntities(sourceEntities: EntitySet, targetId: string, overwrite: boolean): Promise<EntityPlan> {
+    const plan: EntityPlan = { entities: [], documents: new Map(), idMap: emptyIdMap(), conflicted: new Set() };
+
+    for (const spec of ENTITY_SPECS) {
+      const uniqueEntities = sourceEntities[spec.kind] || [];
+      if (uniqueEntities.length === 0) continue;
+
+      const targetEntities: any[] = await spec.model.find({
+        environmentId: targetId,
+        name: { $in: uniqueEntities.map(entity => entity.name) },
+      }).lean();
+      const takenIds = new Set<string>(
+        (await spec.model.find(
+          spec.idPrefix ? { environmentId: targetId, id: { $in: uniqueEntities.map(entity => entity.id) } } : { id: { $in: uniqueEntities.map(entity => entity.id) } }
+        ).select('id').lean()).map((entity: any) => entity.id)
+      );
+
+      for (const entity of uniqueEntities) {
+        const existing = targetEntities.find(candidate => candidate.name === entity.name);
+        let promotion: EntityPromotion;
+
+        if (!existing) {
+          const id = !takenIds.has(entity.id)
+            ? entity.id
+            : spec.idPrefix
+              ? generateId(spec.idPrefix)
+              : `${entity.id}_${Math.random().toString(36).substr(2, 6)}`;
+          promotion = { kind: spec.kind, sourceId: entity.id, name: entity.name, action: 'create', targetId: id, fields: [] };
+        } else {
+          const fields = differingFields(entityContent(entity), entityContent(existing));
+          const typeChanged = spec.typeField && existing[spec.typeField] !== entity[spec.typeField];
+          promotion = {
+            kind: spec.kind,
+            sourceId: entity.id,
+            name: entity.name,
+            action: typeChanged && !overwrite ? 'conflict' : fields.length > 0 ? 'update' : 'unchanged',
+            targetId: existing.id,
+            fields,
+            ...(typeChanged && {
+              reason: `The target's ${spec.label} is of ${spec.typeField} ${existing[spec.typeField!]}, not ${entity[spec.typeField!]}`,
+            }),
+          };
+        }
+
+        plan.entities.push(promotion);
+        plan.documents.set(promotion, entity);
+        spec.lookupFields.forEach(field => {
+          if (!entity[field]) return;
+          plan.idMap[spec.kind][entity[field]] = promotion.targetId;
+          if (promotion.action === 'conflict') plan.conflicted.add(`${spec.kind}:${entity[field]}`);
+        });
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * References no planned entity resolves. Attribute names in conditions may be plain request
+   * fields, so only entities are reported.
+   */
+  unresolvedReferences(
+    references: Array<Record<PromotionKind, Set<string>>>,
+    idMap: Record<PromotionKind, Record<string, string>>
+  ): Array<{ kind: PromotionKind; ref: string }> {
+    return (['subject', 'action', 'resource', 'additionalResource'] as PromotionKind[]).flatMap(kind =>
+      [...new Set(references.flatMap(refs => [...refs[kind]]))]
+        .filter(ref => !idMap[kind][ref] && !(kind === 'resource' && idMap.additionalResource[ref]))
+        .map(ref => ({ kind, ref }))
+    );
+  }
+
+  private async planPolicies(
+    references: Array<{ policy: IPolicy; refs: Record<PromotionKind, Set<string>> }>,
+    idMap: Record<PromotionKind, Record<string, string>>,
+    conflicted: Set<string>,
+    sourceId: string,
+    targetId: string,
+    overwrite: boolean
+  ) {
+    const targetPolicies = await Policy.find({
+      environmentId: targetId,
+      $or: [
+        { 'metadata.promotedFrom.policyId': { $in: references.map(({ policy }) => policy.id) } },
+        { name: { $in: references.map(({ policy }) => policy.name) } },
+      ],
+    });
+
+    return references.map(({ policy, refs }) => {
+      const content = remapPolicy(policy.toObject(), idMap);
+      const promoted = targetPolicies.find(candidate =>
+        candidate.metadata.promotedFrom?.policyId === policy.id && candidate.metadata.promotedFrom?.environmentId === sourceId
+      );
+      const existing = promoted || targetPolicies.find(candidate => candidate.name === policy.name);
+
+      const blockedBy = ENTITY_SPECS.flatMap(spec => [...refs[spec.kind]]
+        .filter(ref => conflicted.has(`${spec.kind}:${ref}`) || (spec.kind === 'resource' && conflicted.has(`additionalResource:${ref}`)))
+        .map(ref => `${spec.label} ${ref}`));
+      const diff = existing
+        ? PolicyRevisionService.diff(PolicyRevisionService.contentOf(existing), PolicyRevisionService.contentOf(content), {
+          from: existing.metadata.version,
+          to: policy.metadata.version,
+        })
+        : null;
+
+      let action: PromotionAction = 'create';
+      let reason: string | undefined;
+      if (blockedBy.length > 0) {
+        action = 'conflict';
+        reason = `References conflicting ${blockedBy.join(', ')}`;
+      } else if (existing && !promoted && !overwrite) {
+        action = 'conflict';
+        reason = 'A policy with the same name exists in the target and was not promoted from this policy';
+      } else if (diff) {
+        action = PolicyRevisionService.determineBump(diff) ? 'update' : 'unchanged';
+      }
+
+      const promotion: PolicyPromotion = {
+        sourceId: policy.id,
+        name: policy.name,
+        action,
+        ...(existing && { targetId: existing.id }),
+        fields: diff ? diff.fields.map(change => change.field) : [],
+        rules: diff ? diff.rules.length : 0,
+        summary: diff ? PolicyRevisionService.summarize(diff) : 'New policy',
+        ...(reason && { reason }),
+      };
+      return { promotion, policy, content, existing };
+    });
+  }
+
+  async applyEntities(entities: EntityPromotion[], documents: Map<EntityPromotion, any>, target: IEnvironment) {
+    for (const promotion of entities) {
+      const spec = ENTITY_SPECS.find(candidate => candidate.kind === promotion.kind)!;
+      const entity = documents.get(promotion);
+
+      if (promotion.action === 'create') {
+        await spec.model.create({
+          ...omit(entity, PLACEMENT_FIELDS),
+          id: promotion.targetId,
+          workspaceId: String(target.workspaceId),
+          applicationId: String(target.applicationId),
+          environmentId: String(target._id),
+        });
+      } else if (promotion.action === 'update') {
+        const metadata = omit(entity.metadata, OWNERSHIP_METADATA);
+        await spec.model.updateOne(
+          { environmentId: String(target._id), id: promotion.targetId },
+          {
+            ...omit(entity, [...PLACEMENT_FIELDS, 'metadata']),
+            ...Object.keys(metadata).reduce<Record<string, any>>(
+              (updates, key) => ({ ...updates, [`metadata.${key}`]: metadata[key] }),
+              {}
+            ),
+          },
+          { runValidators: true }
+        );
+      }
+    }
+  }
+
+  private async applyPolicies(
+    plans: Awaited<ReturnType<PromotionService['planPolicies']>>,
+    source: IEnvironment,
+    target: IEnvironment,
+    actor: ChangeActor
+  ) {
+    const approvalEnvironment = await ChangeRequestService.approvalEnvironment(String(target._id));
+
+    for (const { promotion, policy, content, existing } of plans) {
+      if (promotion.action !== 'create' && promotion.action !== 'update') continue;
+
+      const { tags, ...fields } = PolicyRevisionService.contentOf(content);
+      const promotedFrom = {
+        environmentId: String(source._id),
+        policyId: policy.id,
+        version: policy.metadata.version,
+        promotedAt: new Date(),
+      };
+      const comment = `Promoted from ${source.displayName} (${policy.id} ${policy.metadata.version})`;
+
+      if (promotion.action === 'create') {
+        const policyData = {
+          ...fields,
+          workspaceId: String(target.workspaceId),
+          applicationId: String(target.applicationId),
+          environmentId: String(target._id),
+          metadata: {
+            createdBy: actor.email,
+            lastModifiedBy: actor.email,
+            tags,
+            version: '1.0.0',
+            isSystem: false,
+            isCustom: true,
+            promotedFrom,
+          },
+        };
+
+        if (approvalEnvironment) {
+          const request = await ChangeRequestService.submit({
+            operation: 'create',
+            environment: approvalEnvironment,
+            policyName: policy.name,
+            payload: policyData,
+            comment,
+            requestedBy: actor,
+          });
+          promotion.changeRequestId = request.id;
+        } else {
+          promotion.targetId = (await PolicyChangeService.create(policyData, actor.email)).id;
+        }
+      } else {
+        const updates = { ...fields, metadata: { tags, promotedFrom } };
+
+        if (approvalEnvironment) {
+          const request = await ChangeRequestService.submit({
+            operation: 'update',
+            environment: approvalEnvironment,
+            policyId: existing!.id,
+            policyName: existing!.name,
+            payload: updates,
+            baseVersion: existing!.metadata.version,
+            comment,
+            requestedBy: actor,
+          });
+          promotion.changeRequestId = request.id;
+        } else {
+          await PolicyChangeService.update(existing!, updates, actor.email);
+        }
+      }
+    }
+  }
+}
+
+export default new PromotionService();
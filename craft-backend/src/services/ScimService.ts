@@ -0,0 +1,979 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { ScimToken, IScimToken } from '../models/ScimToken';
+import { Subject, ISubject } from '../models/Subject';
+import { User, UserDocument } from '../models/User';
+import { Workspace } from '../models/Workspace';
+import { Environment } from '../models/Environment';
+import { IUser } from '../types';
+import { AuthenticationError, BadRequestError, ConflictError, NotFoundError, ValidationError } from '../exceptions/AppError';
+import { logger } from '../utils/logger';
+import {
+  ScimFieldMapping,
+  matchesScimFilter,
+  parseScimFilter,
+  scimFilterToQuery,
+} from '../utils/scimFilter';
+import sessionService from './SessionService';
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  enterpriseUser: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+} as const;
+
+export const SCIM_MAX_RESULTS = 200;
+const DEFAULT_PAGE_SIZE = 100;
+const TOKEN_PREFIX = 'scim_';
+// Marks the subjects a provider manages, so hand-made subjects stay out of its view until it claims them
+const SCIM_TAG = 'scim';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Subject attributes set from the core and enterprise user schemas; a full update replaces all of them
+const USER_ATTRIBUTES = [
+  'userName',
+  'givenName',
+  'familyName',
+  'title',
+  'userType',
+  'employeeNumber',
+  'costCenter',
+  'organization',
+  'division',
+  'manager',
+  'managerId',
+];
+
+export interface ScimContext {
+  tokenId: string;
+  tokenName: string;
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+  baseUrl: string; // Where the SCIM endpoints are served, for meta.location
+}
+
+export interface ScimListOptions {
+  filter?: string;
+  startIndex?: number; // 1-based
+  count?: number;
+  attributes?: string[];
+  excludedAttributes?: string[];
+}
+
+export interface ScimListResponse {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: Record<string, any>[];
+}
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: any;
+}
+
+interface ScimUserInput {
+  userName: string;
+  email: string;
+  displayName: string;
+  externalId?: string;
+  active: boolean;
+  department?: string;
+  attributes: Record<string, string>;
+  managerRef?: string; // SCIM ID, external ID or email of the manager
+  managerName?: string;
+}
+
+interface ScimGroupInput {
+  displayName: string;
+  externalId?: string;
+  memberIds: string[];
+}
+
+type ScimResource = Record<string, any>;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Drops undefined values, so absent SCIM attributes are left out of responses
+const defined = <T extends Record<string, any>>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+
+// Attribute of a SCIM object; attribute names are case-insensitive
+const attribute = (container: unknown, name: string): any => {
+  if (!isObject(container)) return undefined;
+  const key = Object.keys(container).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : container[key];
+};
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+
+// Some providers send booleans as "True" and "False"
+const toBoolean = (value: unknown, fallback: boolean): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) return value.toLowerCase() === 'true';
+  return fallback;
+};
+
+const invalidValue = (message: string): BadRequestError => new BadRequestError(message, { scimType: 'invalidValue' });
+
+// Subject names are short identifiers derived from the display name
+const subjectName = (displayName: string, fallback: string): string => {
+  const name = displayName.toLowerCase().replace(/\s+/g, '').slice(0, 50);
+  return name.length >= 2 ? name : fallback.toLowerCase().replace(/\s+/g, '').slice(0, 50);
+};
+
+const newSubjectId = (): string => `subject-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * SCIM 2.0 provisioning (RFC 7643/7644) into one environment of a workspace. SCIM users
+ * are CRAFT users with a `user` subject in the environment; enterprise extension fields
+ * become subject attributes. SCIM groups are `group` subjects whose children are members.
+ */
+export class ScimService {
+  // ---- Tokens ----
+
+  async createToken(
+    workspaceId: string,
+    input: { name?: string; environmentId?: string; expiresInDays?: number },
+    createdBy: string
+  ): Promise<{ token: string; scimToken: IScimToken }> {
+    if (!input.name?.trim()) {
+      throw new ValidationError('Token name is required');
+    }
+    if (!input.environmentId || !Types.ObjectId.isValid(input.environmentId)) {
+      throw new ValidationError('A valid environment ID is required');
+    }
+    if (input.expiresInDays !== undefined && !(Number(input.expiresInDays) > 0)) {
+      throw new ValidationError('expiresInDays must be a positive number');
+    }
+
+    const environment = await Environment.findOne({ _id: input.environmentId, workspaceId, active: true })
+      .select('_id applicationId')
+      .lean();
+    if (!environment) {
+      throw new NotFoundError('Environment');
+    }
+
+    const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const scimToken = await ScimToken.create({
+      name: input.name.trim(),
+      workspaceId,
+      applicationId: String(environment.applicationId),
+      environmentId: String(environment._id),
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      createdBy,
+      ...(input.expiresInDays && { expiresAt: new Date(Date.now() + Number(input.expiresInDays) * 24 * 60 * 60 * 1000) }),
+    });
+
+    logger.info(`Created SCIM token ${scimToken.tokenPrefix}… for workspace ${workspaceId}`);
+    return { token, scimToken };
+  }
+
+  async listTokens(workspaceId: string): Promise<IScimToken[]> {
+    return ScimToken.find({ workspaceId, revokedAt: null }).sort({ createdAt: -1 });
+  }
+
+  async revokeToken(workspaceId: string, tokenId: string): Promise<void> {
+    const scimToken = Types.ObjectId.isValid(tokenId)
+      ? await ScimToken.findOneAndUpdate({ _id: tokenId, workspaceId, revokedAt: null }, { revokedAt: new Date() })
+      : null;
+    if (!scimToken) {
+      throw new NotFoundError('SCIM token');
+    }
+    logger.info(`Revoked SCIM token ${scimToken.tokenPrefix}… of workspace ${workspaceId}`);
+  }
+
+  async authenticate(token: string): Promise<Omit<ScimContext, 'baseUrl'>> {
+    const scimToken = token.startsWith(TOKEN_PREFIX)
+      ? await ScimToken.findOne({ tokenHash: hashToken(token), revokedAt: null })
+      : null;
+
+    if (!scimToken || (scimToken.expiresAt && scimToken.expiresAt <= new Date())) {
+      throw new AuthenticationError('Invalid or expired SCIM token');
+    }
+    if (!await Workspace.exists({ _id: scimToken.workspaceId, active: true })) {
+      throw new AuthenticationError('The workspace of this SCIM token is not active');
+    }
+
+    await ScimToken.updateOne({ _id: scimToken._id }, { lastUsedAt: new Date() });
+
+    return {
+      tokenId: String(scimToken._id),
+      tokenName: scimToken.name,
+      workspaceId: scimToken.workspaceId,
+      applicationId: scimToken.applicationId,
+      environmentId: scimToken.environmentId,
+    };
+  }
+
+  // ---- Users ----
+
+  async listUsers(context: ScimContext, options: ScimListOptions): Promise<ScimListResponse> {
+    const base = { environmentId: context.environmentId, type: 'user', 'metadata.tags': SCIM_TAG };
+
+    return this.list(context, options, base, field => this.userField(field), async subjects => {
+      const groups = await this.groupsOf(context, subjects);
+      return subjects.map(subject => this.toScimUser(context, subject, groups.get(subject.id) || []));
+    });
+  }
+
+  async getUser(context: ScimContext, id: string, options: ScimListOptions = {}): Promise<ScimResource> {
+    const subject = await this.findSubject(context, 'user', id);
+    const groups = await this.groupsOf(context, [subject]);
+    return this.project(this.toScimUser(context, subject, groups.get(subject.id) || []), options);
+  }
+
+  async createUser(context: ScimContext, resource: ScimResource): Promise<ScimResource> {
+    const input = this.readUser(resource);
+
+    // A subject made by hand for the same person is taken over rather than duplicated
+    const existing = await Subject.findOne({ environmentId: context.environmentId, type: 'user', email: input.email });
+    if (existing?.metadata?.tags?.includes(SCIM_TAG)) {
+      throw new ConflictError(`User ${input.userName} already exists`, { scimType: 'uniqueness' });
+    }
+
+    const subject = existing ?? new Subject({
+      id: newSubjectId(),
+      type: 'user',
+      workspaceId: context.workspaceId,
+      applicationId: context.applicationId,
+      environmentId: context.environmentId,
+      permissions: [],
+      metadata: { createdBy: `SCIM (${context.tokenName})`, tags: [], isCustom: false },
+    });
+
+    await this.saveUser(context, subject, input);
+    logger.info(`SCIM provisioned user ${input.email} in environment ${context.environmentId}`);
+    return this.toScimUser(context, subject, []);
+  }
+
+  async replaceUser(context: ScimContext, id: string, resource: ScimResource): Promise<ScimResource> {
+    const subject = await this.findSubject(context, 'user', id);
+    await this.saveUser(context, subject, this.readUser(resource));
+    return this.getUser(context, id);
+  }
+
+  async patchUser(context: ScimContext, id: string, operations: ScimPatchOperation[]): Promise<ScimResource> {
+    const subject = await this.findSubject(context, 'user', id);
+    const groups = await this.groupsOf(context, [subject]);
+    const patched = this.applyPatch(this.toScimUser(context, subject, groups.get(subject.id) || []), operations);
+
+    await this.saveUser(context, subject, this.readUser(patched));
+    return this.getUser(context, id);
+  }
+
+  /**
+   * Removes the user's subject and group memberships from the environment. The CRAFT user
+   * leaves the workspace once no environment of it has their subject, and is deactivated
+   * when that was their only workspace.
+   */
+  async deleteUser(context: ScimContext, id: string): Promise<void> {
+    const subject = await this.findSubject(context, 'user', id);
+
+    await Subject.updateMany(
+      { environmentId: context.environmentId, type: 'group', children: subject.id },
+      { $pull: { children: subject.id } }
+    );
+    await subject.deleteOne();
+
+    const user = subject.globalUserId && Types.ObjectId.isValid(subject.globalUserId)
+      ? await User.findById(subject.globalUserId)
+      : null;
+    const elsewhere = user && await Subject.exists({ workspaceId: context.workspaceId, globalUserId: String(user._id) });
+
+    if (user && !elsewhere) {
+      const deactivate = this.ownedByWorkspace(user, context.workspaceId) && user.active;
+
+      user.workspaceRoles.delete(context.workspaceId);
+      user.assignedWorkspaces = (user.assignedWorkspaces || []).filter(workspaceId => workspaceId !== context.workspaceId);
+      if (user.currentWorkspace === context.workspaceId) user.currentWorkspace = undefined;
+      if (deactivate) user.active = false;
+      await user.save();
+
+      if (deactivate) await sessionService.revokeAll(String(user._id), 'deprovisioned');
+    }
+
+    logger.info(`SCIM deprovisioned user ${subject.email} from environment ${context.environmentId}`);
+  }
+
+  // ---- Groups ----
+
+  async listGroups(context: ScimContext, options: ScimListOptions): Promise<ScimListResponse> {
+    const base = { environmentId: context.environmentId, type: 'group', 'metadata.tags': SCIM_TAG };
+    const withMembers = this.isReturned('members', options);
+
+    return this.list(context, options, base, field => this.groupField(field), async subjects => {
+      const members = withMembers ? await this.membersOf(context, subjects) : null;
+      return subjects.map(subject => this.toScimGroup(context, subject, members));
+    });
+  }
+
+  async getGroup(context: ScimContext, id: string, options: ScimListOptions = {}): Promise<ScimResource> {
+    const subject = await this.findSubject(context, 'group', id);
+    const members = this.isReturned('members', options) ? await this.membersOf(context, [subject]) : null;
+    return this.project(this.toScimGroup(context, subject, members), options);
+  }
+
+  async createGroup(context: ScimContext, resource: ScimResource): Promise<ScimResource> {
+    const input = this.readGroup(resource);
+
+    const existing = await Subject.findOne({
+      environmentId: context.environmentId,
+      type: 'group',
+      displayName: input.displayName,
+    });
+    if (existing?.metadata?.tags?.includes(SCIM_TAG)) {
+      throw new ConflictError(`Group ${input.displayName} already exists`, { scimType: 'uniqueness' });
+    }
+
+    const subject = existing ?? new Subject({
+      id: newSubjectId(),
+      type: 'group',
+      workspaceId: context.workspaceId,
+      applicationId: context.applicationId,
+      environmentId: context.environmentId,
+      permissions: [],
+      metadata: { createdBy: `SCIM (${context.tokenName})`, tags: [], isCustom: false },
+    });
+
+    await this.saveGroup(context, subject, input);
+    logger.info(`SCIM provisioned group ${input.displayName} in environment ${context.environmentId}`);
+    return this.getGroup(context, String(subject._id));
+  }
+
+  async replaceGroup(context: ScimContext, id: string, resource: ScimResource): Promise<ScimResource> {
+    const subject = await this.findSubject(context, 'group', id);
+    await this.saveGroup(context, subject, this.readGroup(resource));
+    return this.getGroup(context, id);
+  }
+
+  async patchGroup(context: ScimContext, id: string, operations: ScimPatchOperation[]): Promise<ScimResource> {
+    const subject = await this.findSubject(context, 'group', id);
+    const members = await this.membersOf(context, [subject]);
+    const patched = this.applyPatch(this.toScimGroup(context, subject, members), operations);
+
+    await this.saveGroup(context, subject, this.readGroup(patched));
+    return this.getGroup(context, id);
+  }
+
+  async deleteGroup(context: ScimContext, id: string): Promise<void> {
+    const subject = await this.findSubject(context, 'group', id);
+
+    await Subject.updateMany(
+      { environmentId: context.environmentId, type: 'group', children: subject.id },
+      { $pull: { children: subject.id } }
+    );
+    await subject.deleteOne();
+    logger.info(`SCIM deleted group ${subject.displayName} from environment ${context.environmentId}`);
+  }
+
+  // ---- PATCH ----
+
+  /**
+   * Applies PATCH operations (RFC 7644, section 3.5.2) to the SCIM representation of a
+   * resource. Paths may carry a schema URN prefix, a sub-attribute and a value filter,
+   * e.g. `members[value eq "123"]` or `emails[type eq "work"].value`.
+   */
+  applyPatch(resource: ScimResource, operations: ScimPatchOperation[]): ScimResource {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw invalidValue('Operations must be a non-empty array');
+    }
+
+    operations.forEach(operation => {
+      const op = String(operation?.op || '').toLowerCase();
+      if (!['add', 'replace', 'remove'].includes(op)) {
+        throw new BadRequestError(`Unknown PATCH operation: ${operation?.op}`, { scimType: 'invalidSyntax' });
+      }
+
+      if (operation.path) {
+        this.applyOperation(resource, op, operation.path, operation.value);
+        return;
+      }
+
+      if (op === 'remove') {
+        throw new BadRequestError('A remove operation requires a path', { scimType: 'noTarget' });
+      }
+      if (!isObject(operation.value)) {
+        throw invalidValue(`A ${op} operation without a path requires an object value`);
+      }
+      Object.entries(operation.value).forEach(([path, value]) => this.applyOperation(resource, op, path, value));
+    });
+
+    return resource;
+  }
+
+  private applyOperation(resource: ScimResource, op: string, path: string, value: any): void {
+    let container: Record<string, any> = resource;
+    let rest = path;
+
+    // Strip the schema URN; enterprise extension attributes live in their own object
+    for (const schema of Object.values(SCIM_SCHEMAS)) {
+      if (path.toLowerCase() === schema.toLowerCase()) {
+        this.setValue(resource, schema, op, value);
+        return;
+      }
+      if (path.toLowerCase().startsWith(`${schema.toLowerCase()}:`)) {
+        rest = path.slice(schema.length + 1);
+        if (schema === SCIM_SCHEMAS.enterpriseUser) {
+          container = attribute(resource, schema) ?? (resource[schema] = {});
+        }
+        break;
+      }
+    }
+
+    const match = /^([A-Za-z$][\w$-]*)(?:\[(.+)\])?(?:\.([A-Za-z$][\w$-]*))?$/.exec(rest);
+    if (!match) {
+      throw new BadRequestError(`Invalid PATCH path: ${path}`, { scimType: 'invalidPath' });
+    }
+    const name = match[1]!;
+    const filterExpression = match[2];
+    const subAttribute = match[3];
+
+    if (!filterExpression) {
+      if (subAttribute) {
+        const key = this.keyOf(container, name);
+        if (!isObject(container[key])) {
+          if (op === 'remove') return;
+          container[key] = {};
+        }
+        this.setValue(container[key], subAttribute, op, value);
+      } else {
+        this.setValue(container, name, op, value);
+      }
+      return;
+    }
+
+    const key = this.keyOf(container, name);
+    const filter = parseScimFilter(filterExpression);
+    const items: any[] = Array.isArray(container[key]) ? container[key] : [];
+    const matching = items.filter(item => matchesScimFilter(item, filter));
+
+    if (op === 'remove') {
+      if (subAttribute) {
+        matching.forEach(item => delete item[this.keyOf(item, subAttribute)]);
+      } else {
+        container[key] = items.filter(item => !matching.includes(item));
+      }
+      return;
+    }
+
+    if (matching.length === 0) {
+      // Adding to an element that does not exist yet, e.g. emails[type eq "work"].value
+      if (filter.op !== 'eq') {
+        throw new BadRequestError(`No value matches ${path}`, { scimType: 'noTarget' });
+      }
+      const item = { [filter.path]: filter.value };
+      container[key] = [...items, item];
+      matching.push(item);
+    }
+
+    matching.forEach(item => {
+      if (subAttribute) {
+        item[this.keyOf(item, subAttribute)] = value;
+      } else if (isObject(value)) {
+        Object.assign(item, value);
+      }
+    });
+  }
+
+  private setValue(target: Record<string, any>, name: string, op: string, value: any): void {
+    const key = this.keyOf(target, name);
+    const current = target[key];
+    const identity = (item: any): string => String(isObject(item) ? item.value : item).toLowerCase();
+
+    if (op === 'remove') {
+      // Removing listed values of a multi-valued attribute, e.g. { path: "members", value: [{ value: "123" }] }
+      if (value !== undefined && Array.isArray(current)) {
+        const removed = new Set((Array.isArray(value) ? value : [value]).map(identity));
+        target[key] = current.filter(item => !removed.has(identity(item)));
+      } else {
+        delete target[key];
+      }
+      return;
+    }
+
+    if (op === 'add' && Array.isArray(current)) {
+      const present = new Set(current.map(identity));
+      target[key] = [...current, ...(Array.isArray(value) ? value : [value]).filter(item => !present.has(identity(item)))];
+      return;
+    }
+
+    // Complex attributes are merged, so only the sub-attributes given change
+    if (isObject(current) && isObject(value)) {
+      Object.assign(current, value);
+      return;
+    }
+
+    target[key] = value;
+  }
+
+  // Existing key matching a SCIM attribute name, which is case-insensitive
+  private keyOf(container: Record<string, any>, name: string): string {
+    return Object.keys(container).find(candidate => candidate.toLowerCase() === name.toLowerCase()) ?? name;
+  }
+
+  // ---- Mapping ----
+
+  private readUser(resource: ScimResource): ScimUserInput {
+    if (!isObject(resource)) {
+      throw invalidValue('The request body must be a SCIM User');
+    }
+
+    const userName = text(attribute(resource, 'userName'));
+    if (!userName) {
+      throw invalidValue('userName is required');
+    }
+
+    const emails: any[] = Array.isArray(attribute(resource, 'emails')) ? attribute(resource, 'emails') : [];
+    const primaryEmail = emails.find(email => toBoolean(attribute(email, 'primary'), false)) ?? emails[0];
+    const email = (EMAIL_PATTERN.test(userName) ? userName : text(attribute(primaryEmail, 'value')) || '').toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      throw invalidValue('userName or the primary email must be an email address');
+    }
+
+    const name = attribute(resource, 'name');
+    const givenName = text(attribute(name, 'givenName'));
+    const familyName = text(attribute(name, 'familyName'));
+    const displayName = text(attribute(resource, 'displayName'))
+      || text(attribute(name, 'formatted'))
+      || [givenName, familyName].filter(Boolean).join(' ')
+      || userName;
+
+    const enterprise = attribute(resource, SCIM_SCHEMAS.enterpriseUser);
+    const manager = attribute(enterprise, 'manager');
+
+    return {
+      userName,
+      email,
+      displayName: (displayName.length >= 2 ? displayName : userName).slice(0, 100),
+      externalId: text(attribute(resource, 'externalId')),
+      active: toBoolean(attribute(resource, 'active'), true),
+      department: text(attribute(enterprise, 'department')),
+      attributes: defined({
+        userName,
+        givenName,
+        familyName,
+        title: text(attribute(resource, 'title')),
+        userType: text(attribute(resource, 'userType')),
+        employeeNumber: text(attribute(enterprise, 'employeeNumber')),
+        costCenter: text(attribute(enterprise, 'costCenter')),
+        organization: text(attribute(enterprise, 'organization')),
+        division: text(attribute(enterprise, 'division')),
+      }) as Record<string, string>,
+      managerRef: isObject(manager) ? text(attribute(manager, 'value')) : text(manager),
+      managerName: isObject(manager) ? text(attribute(manager, 'displayName')) : undefined,
+    };
+  }
+
+  private readGroup(resource: ScimResource): ScimGroupInput {
+    if (!isObject(resource)) {
+      throw invalidValue('The request body must be a SCIM Group');
+    }
+
+    const displayName = text(attribute(resource, 'displayName'));
+    if (!displayName || displayName.length < 2) {
+      throw invalidValue('displayName is required');
+    }
+
+    const members: any[] = Array.isArray(attribute(resource, 'members')) ? attribute(resource, 'members') : [];
+
+    return {
+      displayName: displayName.slice(0, 100),
+      externalId: text(attribute(resource, 'externalId')),
+      memberIds: [...new Set(members.map(member => text(attribute(member, 'value'))).filter((id): id is string => !!id))],
+    };
+  }
+
+  private async saveUser(context: ScimContext, subject: ISubject, input: ScimUserInput): Promise<void> {
+    const taken = await Subject.exists({
+      _id: { $ne: subject._id },
+      environmentId: context.environmentId,
+      type: 'user',
+      email: input.email,
+      'metadata.tags': SCIM_TAG,
+    });
+    if (taken) {
+      throw new ConflictError(`User ${input.userName} already exists`, { scimType: 'uniqueness' });
+    }
+
+    const manager = input.managerRef ? await this.findManager(context, input.managerRef) : null;
+    const user = await this.provisionUser(context, subject, input, manager);
+
+    const attributes = { ...(subject.attributes || {}) };
+    USER_ATTRIBUTES.forEach(name => delete attributes[name]);
+    Object.assign(attributes, input.attributes);
+    if (input.managerRef) {
+      attributes.managerId = input.managerRef;
+      // The manager's email, so policies can compare it with subject identifiers
+      attributes.manager = manager?.email || input.managerName || input.managerRef;
+    }
+
+    subject.email = input.email;
+    subject.displayName = input.displayName;
+    subject.name = subjectName(input.displayName, input.userName);
+    subject.department = input.department as string;
+    subject.status = input.active ? 'active' : 'inactive';
+    subject.globalUserId = String(user._id);
+    subject.attributes = attributes;
+    subject.markModified('attributes');
+    this.stampMetadata(context, subject, input.externalId);
+
+    await subject.save();
+  }
+
+  /**
+   * Creates or updates the CRAFT user behind a SCIM user and gives them a membership of the
+   * workspace. Only accounts that belong to no other workspace are updated, and they follow the
+   * SCIM `active` flag; an unrelated account with the same email is a uniqueness conflict.
+   */
+  private async provisionUser(
+    context: ScimContext,
+    subject: ISubject,
+    input: ScimUserInput,
+    manager: ISubject | null
+  ): Promise<UserDocument> {
+    const linked = subject.globalUserId && Types.ObjectId.isValid(subject.globalUserId)
+      ? await User.findById(subject.globalUserId)
+      : null;
+    const user = linked ?? await User.findOne({ email: input.email }) ?? new User({
+      email: input.email,
+      name: input.displayName.slice(0, 50),
+      role: 'basic',
+      authProvider: 'scim',
+      attributes: {},
+      active: input.active,
+    });
+
+    if (!user.isNew && !this.ownedByWorkspace(user, context.workspaceId)) {
+      if (!linked) {
+        throw new ConflictError(`Another account already uses ${input.email}`, { scimType: 'uniqueness' });
+      }
+      // Accounts that joined other workspaces since are left to CRAFT; only the subject follows SCIM
+      return user;
+    }
+
+    if (user.email !== input.email) {
+      if (await User.exists({ email: input.email, _id: { $ne: user._id } })) {
+        throw new ConflictError(`Another account already uses ${input.email}`, { scimType: 'uniqueness' });
+      }
+      user.email = input.email;
+    }
+
+    user.name = input.displayName.slice(0, 50);
+    if (input.department) user.department = input.department.slice(0, 50);
+    user.managerId = manager?.globalUserId;
+    user.attributes = {
+      ...(user.attributes || {}),
+      ...input.attributes,
+      ...(input.department && { department: input.department }),
+      ...(input.managerRef && { manager: manager?.email || input.managerName || input.managerRef }),
+    };
+    user.markModified('attributes');
+
+    if (!user.workspaceRoles.get(context.workspaceId)) {
+      const workspace = await Workspace.findById(context.workspaceId).select('settings.ssoConfiguration.defaultRole').lean();
+      user.workspaceRoles.set(context.workspaceId, {
+        role: workspace?.settings?.ssoConfiguration?.defaultRole || 'viewer',
+        permissions: [],
+        joinedAt: new Date(),
+      });
+    }
+    if (!(user.assignedWorkspaces || []).includes(context.workspaceId)) {
+      user.assignedWorkspaces = [...(user.assignedWorkspaces || []), context.workspaceId];
+    }
+
+    const deactivated = !user.isNew && user.active && !input.active;
+    user.active = input.active;
+
+    await user.save();
+
+    if (deactivated) {
+      await sessionService.revokeAll(String(user._id), 'deprovisioned');
+      logger.info(`SCIM deactivated user ${user.email}`);
+    }
+
+    return user;
+  }
+
+  private async saveGroup(context: ScimContext, subject: ISubject, input: ScimGroupInput): Promise<void> {
+    const taken = await Subject.exists({
+      _id: { $ne: subject._id },
+      environmentId: context.environmentId,
+      type: 'group',
+      displayName: input.displayName,
+      'metadata.tags': SCIM_TAG,
+    });
+    if (taken) {
+      throw new ConflictError(`Group ${input.displayName} already exists`, { scimType: 'uniqueness' });
+    }
+
+    const validIds = input.memberIds.filter(id => Types.ObjectId.isValid(id));
+    const members = validIds.length > 0
+      ? await Subject.find({ _id: { $in: validIds }, environmentId: context.environmentId }).select('_id id').lean()
+      : [];
+    const unknown = input.memberIds.filter(id => !members.some(member => String(member._id) === id));
+    if (unknown.length > 0) {
+      throw invalidValue(`Unknown members: ${unknown.join(', ')}`);
+    }
+    if (members.some(member => member.id === subject.id)) {
+      throw invalidValue('A group cannot be a member of itself');
+    }
+
+    const subjectIds = new Map(members.map(member => [String(member._id), member.id]));
+
+    subject.displayName = input.displayName;
+    subject.name = subjectName(input.displayName, input.displayName);
+    subject.status = 'active';
+    subject.children = input.memberIds.map(id => subjectIds.get(id)!);
+    this.stampMetadata(context, subject, input.externalId);
+
+    await subject.save();
+  }
+
+  private stampMetadata(context: ScimContext, subject: ISubject, externalId?: string): void {
+    subject.metadata.externalId = externalId;
+    subject.metadata.lastModifiedBy = `SCIM (${context.tokenName})`;
+    if (!subject.metadata.tags.includes(SCIM_TAG)) {
+      subject.metadata.tags = [...subject.metadata.tags, SCIM_TAG];
+    }
+  }
+
+  private toScimUser(context: ScimContext, subject: ISubject, groups: ISubject[]): ScimResource {
+    const attributes = subject.attributes || {};
+    const enterprise = defined({
+      department: subject.department || undefined,
+      employeeNumber: attributes.employeeNumber,
+      costCenter: attributes.costCenter,
+      organization: attributes.organization,
+      division: attributes.division,
+      manager: attributes.managerId
+        ? defined({ value: attributes.managerId, displayName: attributes.manager })
+        : undefined,
+    });
+    const hasEnterprise = Object.keys(enterprise).length > 0;
+
+    return defined({
+      schemas: hasEnterprise ? [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterpriseUser] : [SCIM_SCHEMAS.user],
+      id: String(subject._id),
+      externalId: subject.metadata?.externalId,
+      userName: attributes.userName || subject.email,
+      name: defined({
+        formatted: subject.displayName,
+        givenName: attributes.givenName,
+        familyName: attributes.familyName,
+      }),
+      displayName: subject.displayName,
+      title: attributes.title,
+      userType: attributes.userType,
+      active: subject.status === 'active',
+      emails: subject.email ? [{ value: subject.email, type: 'work', primary: true }] : [],
+      groups: groups.map(group => ({
+        value: String(group._id),
+        display: group.displayName,
+        $ref: `${context.baseUrl}/Groups/${group._id}`,
+        type: 'direct',
+      })),
+      ...(hasEnterprise && { [SCIM_SCHEMAS.enterpriseUser]: enterprise }),
+      meta: this.meta(context, 'User', subject),
+    });
+  }
+
+  // Without the member subjects, members are left out, e.g. for excludedAttributes=members
+  private toScimGroup(context: ScimContext, subject: ISubject, members: Map<string, ISubject> | null): ScimResource {
+    return defined({
+      schemas: [SCIM_SCHEMAS.group],
+      id: String(subject._id),
+      externalId: subject.metadata?.externalId,
+      displayName: subject.displayName,
+      members: members
+        ? (subject.children || [])
+          .map(memberId => members.get(memberId))
+          .filter((member): member is ISubject => !!member)
+          .map(member => {
+            const resourceType = member.type === 'group' ? 'Group' : 'User';
+            return {
+              value: String(member._id),
+              display: member.displayName,
+              type: resourceType,
+              $ref: `${context.baseUrl}/${resourceType}s/${member._id}`,
+            };
+          })
+        : undefined,
+      meta: this.meta(context, 'Group', subject),
+    });
+  }
+
+  private meta(context: ScimContext, resourceType: 'User' | 'Group', subject: ISubject): ScimResource {
+    return {
+      resourceType,
+      created: subject.createdAt,
+      lastModified: subject.updatedAt,
+      location: `${context.baseUrl}/${resourceType}s/${subject._id}`,
+    };
+  }
+
+  // ---- Queries ----
+
+  private userField(path: string): ScimFieldMapping | undefined {
+    const fields: Record<string, ScimFieldMapping> = {
+      id: { field: '_id', transform: value => (Types.ObjectId.isValid(String(value)) ? new Types.ObjectId(String(value)) : null) },
+      externalid: { field: 'metadata.externalId', text: true },
+      username: { field: 'attributes.userName', text: true },
+      displayname: { field: 'displayName', text: true },
+      'name.formatted': { field: 'displayName', text: true },
+      'name.givenname': { field: 'attributes.givenName', text: true },
+      'name.familyname': { field: 'attributes.familyName', text: true },
+      emails: { field: 'email', text: true },
+      'emails.value': { field: 'email', text: true },
+      title: { field: 'attributes.title', text: true },
+      active: { field: 'status', transform: value => (value === true || value === 'true' ? 'active' : 'inactive') },
+      department: { field: 'department', text: true },
+      employeenumber: { field: 'attributes.employeeNumber', text: true },
+      costcenter: { field: 'attributes.costCenter', text: true },
+      organization: { field: 'attributes.organization', text: true },
+      division: { field: 'attributes.division', text: true },
+      'manager.value': { field: 'attributes.managerId', text: true },
+      'meta.created': { field: 'createdAt', transform: value => new Date(String(value)) },
+      'meta.lastmodified': { field: 'updatedAt', transform: value => new Date(String(value)) },
+    };
+    return fields[this.stripSchema(path)];
+  }
+
+  private groupField(path: string): ScimFieldMapping | undefined {
+    const fields: Record<string, ScimFieldMapping> = {
+      id: { field: '_id', transform: value => (Types.ObjectId.isValid(String(value)) ? new Types.ObjectId(String(value)) : null) },
+      externalid: { field: 'metadata.externalId', text: true },
+      displayname: { field: 'displayName', text: true },
+      'meta.created': { field: 'createdAt', transform: value => new Date(String(value)) },
+      'meta.lastmodified': { field: 'updatedAt', transform: value => new Date(String(value)) },
+    };
+    return fields[this.stripSchema(path)];
+  }
+
+  // Lower-case attribute path without its schema URN
+  private stripSchema(path: string): string {
+    const lower = path.toLowerCase();
+    const schema = Object.values(SCIM_SCHEMAS).find(urn => lower.startsWith(`${urn.toLowerCase()}:`));
+    return schema ? lower.slice(schema.length + 1) : lower;
+  }
+
+  private async list(
+    context: ScimContext,
+    options: ScimListOptions,
+    base: Record<string, any>,
+    resolveField: (path: string) => ScimFieldMapping | undefined,
+    toResources: (subjects: ISubject[]) => Promise<ScimResource[]>
+  ): Promise<ScimListResponse> {
+    const query = options.filter
+      ? { $and: [base, scimFilterToQuery(parseScimFilter(options.filter), resolveField)] }
+      : base;
+    const startIndex = Math.max(1, Math.floor(Number(options.startIndex) || 1));
+    const count = Math.min(Math.max(0, Math.floor(options.count ?? DEFAULT_PAGE_SIZE)), SCIM_MAX_RESULTS);
+
+    const [totalResults, subjects] = await Promise.all([
+      Subject.countDocuments(query),
+      // A limit of 0 means no limit to MongoDB, but a count of 0 asks for no resources
+      count > 0 ? Subject.find(query).sort({ createdAt: 1, _id: 1 }).skip(startIndex - 1).limit(count) : [],
+    ]);
+    const resources = await toResources(subjects);
+
+    return {
+      schemas: [SCIM_SCHEMAS.listResponse],
+      totalResults,
+      startIndex,
+      itemsPerPage: resources.length,
+      Resources: resources.map(resource => this.project(resource, options)),
+    };
+  }
+
+  private async findSubject(context: ScimContext, type: 'user' | 'group', id: string): Promise<ISubject> {
+    const subject = Types.ObjectId.isValid(id)
+      ? await Subject.findOne({ _id: id, environmentId: context.environmentId, type, 'metadata.tags': SCIM_TAG })
+      : null;
+    if (!subject) {
+      throw new NotFoundError(type === 'user' ? 'User' : 'Group');
+    }
+    return subject;
+  }
+
+  private async findManager(context: ScimContext, reference: string): Promise<ISubject | null> {
+    return Subject.findOne({
+      environmentId: context.environmentId,
+      type: 'user',
+      $or: [
+        ...(Types.ObjectId.isValid(reference) ? [{ _id: reference }] : []),
+        { 'metadata.externalId': reference },
+        { email: reference.toLowerCase() },
+      ],
+    });
+  }
+
+  // Groups each subject is a direct member of, keyed by subject ID
+  private async groupsOf(context: ScimContext, subjects: ISubject[]): Promise<Map<string, ISubject[]>> {
+    const groups = subjects.length > 0
+      ? await Subject.find({
+        environmentId: context.environmentId,
+        type: 'group',
+        children: { $in: subjects.map(subject => subject.id) },
+      }).select('_id id displayName children')
+      : [];
+
+    const bySubject = new Map<string, ISubject[]>();
+    groups.forEach(group => (group.children || []).forEach(memberId => {
+      bySubject.set(memberId, [...(bySubject.get(memberId) || []), group]);
+    }));
+    return bySubject;
+  }
+
+  // Member subjects of groups, keyed by subject ID
+  private async membersOf(context: ScimContext, groups: ISubject[]): Promise<Map<string, ISubject>> {
+    const memberIds = [...new Set(groups.flatMap(group => group.children || []))];
+    const members = memberIds.length > 0
+      ? await Subject.find({ environmentId: context.environmentId, id: { $in: memberIds } }).select('_id id displayName type')
+      : [];
+    return new Map(members.map(member => [member.id, member]));
+  }
+
+  // Whether the attributes and excludedAttributes parameters let an attribute be returned
+  private isReturned(name: string, options: ScimListOptions): boolean {
+    const wanted = (paths?: string[]) => (paths || []).map(path => this.stripSchema(path).split('.')[0]);
+    if (wanted(options.excludedAttributes).includes(name.toLowerCase())) return false;
+    const attributes = wanted(options.attributes);
+    return attributes.length === 0 || attributes.includes(name.toLowerCase());
+  }
+
+  private project(resource: ScimResource, options: ScimListOptions): ScimResource {
+    if (!options.attributes?.length && !options.excludedAttributes?.length) return resource;
+
+    const enterprise = SCIM_SCHEMAS.enterpriseUser.toLowerCase();
+    return Object.fromEntries(Object.entries(resource).filter(([key]) => {
+      // id, schemas and meta are always returned
+      if (['id', 'schemas', 'meta'].includes(key)) return true;
+      if (key.toLowerCase() === enterprise) {
+        const mentions = (paths?: string[]) => (paths || []).some(path => path.toLowerCase().startsWith(enterprise));
+        return !options.excludedAttributes?.some(path => path.toLowerCase() === enterprise)
+          && (!options.attributes?.length || mentions(options.attributes));
+      }
+      return this.isReturned(key, options);
+    }));
+  }
+
+  // Accounts that only exist for this workspace follow its provisioning; global admins and accounts without a workspace never do
+  private ownedByWorkspace(user: Pick<IUser, 'role' | 'assignedWorkspaces'>, workspaceId: string): boolean {
+    const workspaces = user.assignedWorkspaces || [];
+    return user.role === 'basic' && workspaces.length > 0 && workspaces.every(id => id === workspaceId);
+  }
+}
+
+export default new ScimService();
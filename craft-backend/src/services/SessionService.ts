@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/environment';
+import { Session, ISession, SessionRevocationReason } from '../models/Session';
+import { RevokedToken } from '../models/RevokedToken';
+import { UserRepository } from '../repositories/UserRepository';
+import { IJWTPayload, IUser } from '../types';
+import { AuthenticationError, NotFoundError } from '../exceptions/AppError';
+import { logger } from '../utils/logger';
+
+export interface SessionContext {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * Server-side sessions. Each login starts a refresh-token family whose ID (sid) is carried by
+ * every access and refresh token it issues. Refresh tokens are single-use: presenting one that
+ * has already been rotated revokes the whole family. Revoked sessions, tokens and users are
+ * recorded in a revocation list checked on every authenticated request.
+ */
+export class SessionService {
+  private userRepository = new UserRepository();
+
+  async issue(user: IUser, context: SessionContext = {}): Promise<SessionTokens> {
+    const sessionId = `session-${crypto.randomUUID()}`;
+    const token = this.signAccessToken(user, sessionId);
+    const refreshToken = this.signRefreshToken(user, sessionId);
+
+    await Session.create({
+      id: sessionId,
+      userId: String(user._id),
+      tokenHash: refreshToken ? this.hash(refreshToken) : undefined,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      lastUsedAt: new Date(),
+      expiresAt: this.expiryOf(refreshToken || token),
+    });
+
+    return { token, refreshToken };
+  }
+
+  async rotate(refreshToken: string, context: SessionContext = {}): Promise<SessionTokens> {
+    if (!config.jwt.refreshSecret) {
+      throw new AuthenticationError('Refresh token functionality not configured');
+    }
+
+    let decoded: IJWTPayload;
+    try {
+      decoded = jwt.verify(refreshToken, config.jwt.refreshSecret) as IJWTPayload;
+    } catch {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    if (!decoded.sid) {
+      throw new AuthenticationError('Refresh token is not bound to a session, please sign in again');
+    }
+
+    const user = await this.userRepository.findById(decoded.userId);
+    if (!user || !user.active) {
+      throw new AuthenticationError('User not found or inactive');
+    }
+
+    const token = this.signAccessToken(user, decoded.sid);
+    const nextRefreshToken = this.signRefreshToken(user, decoded.sid);
+
+    // Only the family's current token may be exchanged, and only once
+    const session = await Session.findOneAndUpdate(
+      { id: decoded.sid, userId: decoded.userId, tokenHash: this.hash(refreshToken), revokedAt: null },
+      {
+        $set: {
+          tokenHash: this.hash(nextRefreshToken),
+          lastUsedAt: new Date(),
+          expiresAt: this.expiryOf(nextRefreshToken),
+          ...(context.userAgent && { userAgent: context.userAgent }),
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+        },
+      },
+      { new: true }
+    );
+
+    if (!session) {
+      const existing = await Session.findOne({ id: decoded.sid, userId: decoded.userId });
+      if (existing && !existing.revokedAt) {
+        await this.revokeSession(existing, 'reuse_detected');
+        logger.warn(`Refresh token reuse detected for user ${decoded.userId}, session ${decoded.sid} revoked`);
+        throw new AuthenticationError('Refresh token has already been used; the session has been revoked');
+      }
+      throw new AuthenticationError('Session has been revoked or has expired');
+    }
+
+    return { token, refreshToken: nextRefreshToken };
+  }
+
+  async isRevoked(payload: IJWTPayload): Promise<boolean> {
+    const conditions: Record<string, unknown>[] = [
+      // iat has whole seconds, so tokens issued in the second of the revocation are revoked too
+      { scope: 'user', key: payload.userId, revokedAt: { $gte: new Date((payload.iat ?? 0) * 1000) } },
+    ];
+    if (payload.jti) conditions.push({ scope: 'token', key: payload.jti });
+    if (payload.sid) conditions.push({ scope: 'session', key: payload.sid });
+
+    return !!(await RevokedToken.exists({ $or: conditions }));
+  }
+
+  async listForUser(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    return sessions.map(session => ({
+      id: session.id,
+      ...(session.userAgent && { userAgent: session.userAgent }),
+      ...(session.ipAddress && { ipAddress: session.ipAddress }),
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revoke(sessionId: string, userId: string, reason: SessionRevocationReason = 'revoked'): Promise<void> {
+    const session = await Session.findOne({ id: sessionId, userId, revokedAt: null });
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+    await this.revokeSession(session, reason);
+  }
+
+  /**
+   * Revokes every session of a user. Without an exception, access tokens issued outside any
+   * session (before sessions existed) are revoked too.
+   */
+  async revokeAll(
+    userId: string,
+    reason: SessionRevocationReason = 'signed_out_everywhere',
+    exceptSessionId?: string
+  ): Promise<number> {
+    const sessions = await Session.find({
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { $ne: exceptSessionId } }),
+    });
+
+    for (const session of sessions) {
+      await this.revokeSession(session, reason);
+    }
+
+    if (!exceptSessionId) {
+      await RevokedToken.findOneAndUpdate(
+        { scope: 'user', key: userId },
+        // Whole seconds like iat; a login in the same second as the revocation has to sign in again
+        { $set: { revokedAt: new Date(Math.floor(Date.now() / 1000) * 1000), expiresAt: this.accessTokenHorizon() } },
+        { upsert: true }
+      );
+    }
+
+    logger.info(`Revoked ${sessions.length} session(s) of user ${userId} (${reason})`);
+    return sessions.length;
+  }
+
+  async logout(payload: IJWTPayload): Promise<void> {
+    if (payload.jti) {
+      await RevokedToken.create({
+        scope: 'token',
+        key: payload.jti,
+        expiresAt: payload.exp ? new Date(payload.exp * 1000) : this.accessTokenHorizon(),
+      });
+    }
+
+    if (payload.sid) {
+      const session = await Session.findOne({ id: payload.sid, userId: payload.userId, revokedAt: null });
+      if (session) {
+        await this.revokeSession(session, 'logout');
+      }
+    }
+  }
+
+  private async revokeSession(session: ISession, reason: SessionRevocationReason): Promise<void> {
+    session.revokedAt = new Date();
+    session.revokedReason = reason;
+    await session.save();
+
+    // Access tokens of the session stay valid until they expire unless listed
+    await RevokedToken.create({ scope: 'session', key: session.id, expiresAt: this.accessTokenHorizon() });
+  }
+
+  private signAccessToken(user: IUser, sessionId: string): string {
+    const payload: IJWTPayload = {
+      userId: String(user._id),
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+      jti: crypto.randomUUID(),
+    };
+
+    return jwt.sign(payload, config.jwt.secret, {
+      expiresIn: config.jwt.expiresIn,
+    });
+  }
+
+  private signRefreshToken(user: IUser, sessionId: string): string {
+    if (!config.jwt.refreshSecret) {
+      return '';
+    }
+
+    const payload: IJWTPayload = {
+      userId: String(user._id),
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+      jti: crypto.randomUUID(),
+    };
+
+    return jwt.sign(payload, config.jwt.refreshSecret, {
+      expiresIn: config.jwt.refreshExpiresIn,
+    });
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private expiryOf(token: string): Date {
+    const { exp } = jwt.decode(token) as IJWTPayload;
+    return new Date((exp ?? 0) * 1000);
+  }
+
+  // Latest expiry of an access token issued now; revocation entries are not needed past it
+  private accessTokenHorizon(): Date {
+    return this.expiryOf(jwt.sign({}, config.jwt.secret, { expiresIn: config.jwt.expiresIn }));
+  }
+}
+
+export default new SessionService();
@@ -0,0 +1,166 @@
+import PolicyEvaluationService, { AccessRequest, EvaluationScope, PolicySnapshot } from './PolicyEvaluationService';
+import { IPolicy } from '../models/Policy';
+import { ExpectedDecision, ITestCase, ITestCaseResult, ITestSuite, ITestSuiteRun, TestSuite } from '../models/TestSuite';
+
+export type ChangedPolicy = PolicySnapshot & Pick<IPolicy, 'workspaceId' | 'applicationId' | 'environmentId'>;
+
+export interface PolicyChange {
+  before: ChangedPolicy; // As stored
+  after: ChangedPolicy; // As it would be saved
+}
+
+export interface DecisionChange {
+  suiteId: string;
+  suiteName: string;
+  caseId: string;
+  name: string;
+  expectedDecision: ExpectedDecision;
+  previousDecision: ExpectedDecision;
+  proposedDecision: ExpectedDecision;
+  reason: string; // Why the proposed policy set decides as it does
+}
+
+export interface RegressionCheck {
+  checkedSuites: number;
+  checkedCases: number;
+  changes: DecisionChange[]; // Cases whose decision the change would flip
+  regressions: number; // Changes that make a passing case fail
+}
+
+const toRequest = (testCase: ITestCase): AccessRequest => ({
+  subject: testCase.subject,
+  action: testCase.action,
+  resource: testCase.resource,
+  environment: testCase.environment || {},
+});
+
+/**
+ * Runs saved policy test cases against the current Active policies of their environment,
+ * or against a proposed policy set before a change is saved
+ */
+export class TestSuiteService {
+  /**
+   * Evaluates the cases against one snapshot of the environment and compares each decision
+   * with the expected one
+   */
+  async runCases(scope: EvaluationScope, cases: ITestCase[], runBy: string): Promise<ITestSuiteRun> {
+    const { decisions } = await PolicyEvaluationService.evaluateBatch(scope, cases.map(toRequest));
+
+    const results: ITestCaseResult[] = cases.map((testCase, index) => {
+      const decision = decisions[index]!;
+      return {
+        caseId: testCase.id,
+        name: testCase.name,
+        expectedDecision: testCase.expectedDecision,
+        actualDecision: decision.decision,
+        passed: decision.decision === testCase.expectedDecision,
+        reason: decision.reason,
+        matchedPolicies: decision.matchedPolicies,
+      };
+    });
+    const passed = results.filter(result => result.passed).length;
+
+    return {
+      runAt: new Date(),
+      runBy,
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      results,
+    };
+  }
+
+  /**
+   * Runs every case of a suite and stores the report as the suite's last run
+   */
+  async runSuite(suite: ITestSuite, runBy: string): Promise<ITestSuiteRun> {
+    const run = await this.runCases(
+      { workspaceId: suite.workspaceId, applicationId: suite.applicationId, environmentId: suite.environmentId },
+      suite.cases,
+      runBy
+    );
+
+    suite.lastRun = run;
+    await suite.save();
+
+    return run;
+  }
+
+  /**
+   * Runs the stored cases of every environment a policy change touches against the current
+   * Active policies and against the policy set as it would be after the change, and lists
+   * the cases whose decision differs
+   */
+  async checkPolicyChanges(changes: PolicyChange[]): Promise<RegressionCheck> {
+    const scopes = new Map<string, EvaluationScope>();
+    changes.forEach(({ before, after }) => [before, after].forEach(policy => {
+      scopes.set(policy.environmentId, {
+        workspaceId: policy.workspaceId,
+        applicationId: policy.applicationId,
+        environmentId: policy.environmentId,
+      });
+    }));
+
+    const suites = await TestSuite.find({
+      environmentId: { $in: [...scopes.keys()] },
+      'cases.0': { $exists: true },
+    })
+      .select('id name environmentId cases')
+      .lean();
+
+    const changedIds = new Set(changes.map(({ before }) => before.id));
+    const perEnvironment = await Promise.all([...scopes.values()].map(async scope => {
+      const cases = suites
+        .filter(suite => suite.environmentId === scope.environmentId)
+        .flatMap(suite => suite.cases.map(testCase => ({ suite, testCase })));
+      if (cases.length === 0) return { checked: 0, changes: [] as DecisionChange[] };
+
+      const { policies } = await PolicyEvaluationService.loadPolicies(scope);
+      const proposedPolicies = [
+        ...policies.filter(policy => !changedIds.has(policy.id)),
+        ...changes
+          .map(({ after }) => after)
+          .filter(policy => policy.environmentId === scope.environmentId && policy.status === 'Active'),
+      ];
+
+      const requests = cases.map(({ testCase }) => toRequest(testCase));
+      const [current, proposed] = await Promise.all([
+        PolicyEvaluationService.evaluateBatch(scope, requests),
+        PolicyEvaluationService.evaluateBatch(scope, requests, { proposedPolicies }),
+      ]);
+
+      const decisionChanges: DecisionChange[] = [];
+      cases.forEach(({ suite, testCase }, index) => {
+        const previous = current.decisions[index]!;
+        const next = proposed.decisions[index]!;
+        if (previous.decision === next.decision) return;
+
+        decisionChanges.push({
+          suiteId: suite.id,
+          suiteName: suite.name,
+          caseId: testCase.id,
+          name: testCase.name,
+          expectedDecision: testCase.expectedDecision,
+          previousDecision: previous.decision,
+          proposedDecision: next.decision,
+          reason: next.reason,
+        });
+      });
+
+      return { checked: cases.length, changes: decisionChanges };
+    }));
+
+    const allChanges = perEnvironment.flatMap(result => result.changes);
+
+    return {
+      checkedSuites: suites.length,
+      checkedCases: perEnvironment.reduce((sum, result) => sum + result.checked, 0),
+      changes: allChanges,
+      regressions: allChanges.filter(change =>
+        change.previousDecision === change.expectedDecision && change.proposedDecision !== change.expectedDecision
+      ).length,
+    };
+  }
+}
+
+export default new TestSuiteService();
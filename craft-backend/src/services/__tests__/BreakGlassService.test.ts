@@ -0,0 +1,72 @@
+import { BreakGlassGrant } from '../../models/BreakGlassGrant';
+import { Policy } from '../../models/Policy';
+import breakGlassService from '../BreakGlassService';
+import PolicyChangeService from '../PolicyChangeService';
+
+jest.mock('../../models/BreakGlassGrant', () => ({ BreakGlassGrant: { find: jest.fn(), findOneAndUpdate: jest.fn() } }));
+jest.mock('../../models/Policy', () => ({ Policy: { findOne: jest.fn() } }));
+jest.mock('../ActivityService');
+jest.mock('../NotificationService');
+jest.mock('../PolicyChangeService');
+
+const grant = (overrides: Record<string, unknown> = {}) => ({
+  id: 'grant-1',
+  status: 'active',
+  policyId: 'policy-1',
+  workspaceId: 'workspace-1',
+  applicationId: 'application-1',
+  environmentId: 'environment-1',
+  subject: { id: 'alice', name: 'Alice' },
+  action: { id: 'read', name: 'Read' },
+  resource: { id: 'ledger', name: 'Ledger' },
+  requestedBy: { id: 'user-1', email: 'alice@example.com' },
+  justification: 'Production incident 42',
+  expiresAt: new Date('2026-01-05T10:00:00Z'),
+  save: jest.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
+
+const policy = (status: string) => ({ id: 'policy-1', status, expireAt: null, metadata: { tags: ['break-glass'] } });
+
+describe('BreakGlassService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('expireDue', () => {
+    beforeEach(() => {
+      jest.mocked(BreakGlassGrant.find).mockReturnValue({ select: () => ({ lean: async () => [{ _id: 'grant-1' }] }) } as never);
+      jest.mocked(BreakGlassGrant.findOneAndUpdate).mockResolvedValue(grant({ status: 'expired' }));
+    });
+
+    it('deactivates the policy of an expired grant even when its own expiry was cleared', async () => {
+      const active = policy('Active');
+      jest.mocked(Policy.findOne).mockResolvedValue(active);
+
+      expect(await breakGlassService.expireDue(new Date('2026-01-05T10:00:00Z'))).toBe(1);
+      expect(PolicyChangeService.update).toHaveBeenCalledWith(active, { status: 'Inactive', expireAt: null }, 'system');
+    });
+
+    it('leaves a policy the scheduler already deactivated alone', async () => {
+      jest.mocked(Policy.findOne).mockResolvedValue(policy('Inactive'));
+
+      await breakGlassService.expireDue(new Date('2026-01-05T10:00:00Z'));
+
+      expect(PolicyChangeService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('deactivates the policy and ends the grant', async () => {
+      const active = policy('Active');
+      const revoked = grant();
+      jest.mocked(Policy.findOne).mockResolvedValue(active);
+
+      await breakGlassService.revoke(revoked as never, { id: 'user-2', email: 'bob@example.com' });
+
+      expect(PolicyChangeService.update).toHaveBeenCalledWith(active, { status: 'Inactive', expireAt: null }, 'bob@example.com');
+      expect(revoked).toMatchObject({ status: 'revoked', revokedBy: { email: 'bob@example.com' } });
+      expect(revoked.save).toHaveBeenCalled();
+    });
+  });
+});
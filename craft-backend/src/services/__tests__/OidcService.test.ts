@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { OidcLoginRequest } from '../../models/OidcLoginRequest';
+import { User } from '../../models/User';
+import { Workspace, IWorkspace, IWorkspaceSsoConfiguration } from '../../models/Workspace';
+import oidcService, { OidcProviderMetadata } from '../OidcService';
+import sessionService from '../SessionService';
+
+jest.mock('../../models/OidcLoginRequest', () => ({ OidcLoginRequest: { create: jest.fn(), findOneAndDelete: jest.fn() } }));
+jest.mock('../../models/User', () => ({ User: { findOne: jest.fn() } }));
+jest.mock('../../models/Workspace', () => ({ Workspace: { findOne: jest.fn() } }));
+
+const ISSUER = 'https://idp.example.com';
+const WORKSPACE_ID = 'workspace-1';
+
+const sso = { enabled: true, issuer: ISSUER, clientId: 'craft', defaultRole: 'member' } as IWorkspaceSsoConfiguration;
+const workspace = { _id: WORKSPACE_ID, name: 'acme', settings: { allowedDomains: ['example.com'], ssoConfiguration: sso } } as unknown as IWorkspace;
+
+const account = (overrides: Record<string, unknown> = {}) => ({
+  _id: 'user-1',
+  email: 'alice@example.com',
+  role: 'basic',
+  active: true,
+  attributes: {},
+  assignedWorkspaces: [WORKSPACE_ID],
+  workspaceRoles: new Map(),
+  markModified: jest.fn(),
+  save: jest.fn().mockResolvedValue(undefined),
+  toJSON: jest.fn(function (this: unknown) { return this; }),
+  ...overrides,
+});
+
+const signIn = (sub: string = 'alice-sub') =>
+  oidcService['provisionUser']({ sub, email: 'alice@example.com', name: 'Alice' }, 'alice@example.com', workspace, sso, ISSUER);
+
+describe('OidcService account linking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('signs in the account bound to the provider identity', async () => {
+    const bound = account({ role: 'admin', assignedWorkspaces: [WORKSPACE_ID, 'workspace-2'], oidcSubject: `${ISSUER}|alice-sub` });
+    jest.mocked(User.findOne).mockResolvedValue(bound);
+
+    await signIn();
+
+    expect(bound.save).toHaveBeenCalled();
+  });
+
+  it('binds an unbound account that belongs to this workspace alone', async () => {
+    const unbound = account();
+    jest.mocked(User.findOne).mockResolvedValue(unbound);
+
+    await signIn();
+
+    expect(unbound).toMatchObject({ oidcSubject: `${ISSUER}|alice-sub` });
+    expect(unbound.save).toHaveBeenCalled();
+  });
+
+  it('rejects an account bound to a different identity', async () => {
+    const bound = account({ oidcSubject: `${ISSUER}|someone-else` });
+    jest.mocked(User.findOne).mockResolvedValue(bound);
+
+    await expect(signIn()).rejects.toMatchObject({ statusCode: 401 });
+    expect(bound.save).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['super admins', { role: 'super_admin', assignedWorkspaces: [] }],
+    ['global admins', { role: 'admin' }],
+    ['members of other workspaces', { assignedWorkspaces: [WORKSPACE_ID, 'workspace-2'] }],
+    ['accounts without a workspace', { assignedWorkspaces: [] }],
+  ])('refuses to link %s', async (_, overrides) => {
+    const existing = account(overrides);
+    jest.mocked(User.findOne).mockResolvedValue(existing);
+
+    await expect(signIn()).rejects.toMatchObject({ statusCode: 403 });
+    expect(existing.save).not.toHaveBeenCalled();
+    expect(existing).not.toHaveProperty('oidcSubject');
+  });
+
+  it('rejects inactive accounts', async () => {
+    jest.mocked(User.findOne).mockResolvedValue(account({ active: false }));
+
+    await expect(signIn()).rejects.toMatchObject({ statusCode: 401, message: 'Account is inactive' });
+  });
+});
+
+describe('OidcService.getWorkspace', () => {
+  it('requires the workspace to list its allowed email domains', async () => {
+    jest.mocked(Workspace.findOne).mockResolvedValue({ ...workspace, settings: { allowedDomains: [' '], ssoConfiguration: sso } });
+
+    await expect(oidcService.getWorkspace('acme')).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('returns a workspace with single sign-on and allowed domains', async () => {
+    jest.mocked(Workspace.findOne).mockResolvedValue(workspace);
+
+    await expect(oidcService.getWorkspace('acme')).resolves.toEqual({ workspace, sso });
+  });
+});
+
+describe('OidcService login flow', () => {
+  const provider = {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+  } as OidcProviderMetadata;
+  const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+  const pendingLogin = {
+    state: 'state-1',
+    bindingHash: sha256('browser-binding'),
+    workspaceId: WORKSPACE_ID,
+    nonce: 'nonce-1',
+    codeVerifier: 'verifier-1',
+    redirectUri: 'https://craft.example.com/api/v1/auth/oidc/callback',
+  };
+  const callback = (binding?: string) => oidcService.completeLogin({ code: 'code-1', state: 'state-1', binding });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(Workspace.findOne).mockResolvedValue(workspace);
+    jest.mocked(OidcLoginRequest.findOneAndDelete).mockResolvedValue(pendingLogin);
+    jest.spyOn(oidcService, 'discover').mockResolvedValue(provider);
+    jest.spyOn(oidcService, 'exchangeCode').mockResolvedValue({ id_token: 'id-token' });
+    jest.spyOn(oidcService, 'verifyIdToken').mockResolvedValue({ sub: 'alice-sub', email: 'alice@example.com', email_verified: true });
+    jest.spyOn(sessionService, 'issue').mockResolvedValue({ token: 'token', refreshToken: 'refresh-token' });
+    jest.mocked(User.findOne).mockResolvedValue(account({ oidcSubject: `${ISSUER}|alice-sub` }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores only the hash of the browser binding it returns', async () => {
+    const { authorizationUrl, binding } = await oidcService.beginLogin('acme', { redirectUri: pendingLogin.redirectUri });
+    const stored = jest.mocked(OidcLoginRequest.create).mock.calls[0]![0] as Record<string, unknown>;
+
+    expect(stored.bindingHash).toBe(sha256(binding));
+    expect(new URL(authorizationUrl).searchParams.get('state')).toBe(stored.state);
+    expect(authorizationUrl).not.toContain(binding);
+  });
+
+  it('signs in the browser that started the login', async () => {
+    await expect(callback('browser-binding')).resolves.toMatchObject({ token: 'token', refreshToken: 'refresh-token' });
+  });
+
+  it.each([
+    ['without the binding cookie', undefined],
+    ['with the binding of another browser', 'attacker-binding'],
+  ])('rejects a callback %s before exchanging the code', async (_, binding) => {
+    await expect(callback(binding)).rejects.toMatchObject({ statusCode: 401, message: 'Sign-in was started in another browser, please try again' });
+    expect(oidcService.exchangeCode).not.toHaveBeenCalled();
+    expect(sessionService.issue).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['absent', undefined],
+    ['false', false],
+    ['"false"', 'false'],
+  ])('rejects an email whose verification is %s', async (_, emailVerified) => {
+    jest.spyOn(oidcService, 'verifyIdToken').mockResolvedValue({ sub: 'alice-sub', email: 'alice@example.com', email_verified: emailVerified });
+
+    await expect(callback('browser-binding')).rejects.toMatchObject({ statusCode: 401, message: 'The email address is not verified by the identity provider' });
+    expect(sessionService.issue).not.toHaveBeenCalled();
+  });
+});
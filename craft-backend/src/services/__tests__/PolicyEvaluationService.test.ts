@@ -0,0 +1,249 @@
+import policyEvaluationService, {
+  CombiningAlgorithm,
+  EvaluationSnapshot,
+  PolicySnapshot,
+  ResolvedEntity,
+  ResolvedRequest,
+} from '../PolicyEvaluationService';
+
+const entity = (id: string): ResolvedEntity => ({ id, identifiers: new Set([id]), attributes: {}, found: true });
+
+const request = (at: Date = new Date()): ResolvedRequest => ({
+  subject: entity('alice'),
+  action: entity('read'),
+  resource: entity('report'),
+  environment: { currentTime: at.toISOString() },
+  related: resourceId => entity(resourceId),
+});
+
+// A policy with one rule targeting alice reading the report, or another subject
+const policy = (id: string, effect: 'Allow' | 'Deny', overrides: Partial<PolicySnapshot> & { subject?: string } = {}): PolicySnapshot => {
+  const { subject = 'alice', ...fields } = overrides;
+  return {
+    id,
+    name: id,
+    effect,
+    status: 'Active',
+    priority: 100,
+    rules: [{
+      id: `${id}-rule`,
+      subject: { type: subject, attributes: [] },
+      action: { name: 'read', displayName: 'Read' },
+      object: { type: 'report', attributes: [] },
+      conditions: [],
+    }],
+    subjects: [],
+    resources: [],
+    actions: [],
+    additionalResources: [],
+    conditions: [],
+    ...fields,
+  } as PolicySnapshot;
+};
+
+const decide = (policies: PolicySnapshot[], algorithm: CombiningAlgorithm, at?: Date) =>
+  policyEvaluationService.decide(policies, request(at), algorithm);
+
+describe('PolicyEvaluationService.decide', () => {
+  const allow = policy('allow-reports', 'Allow');
+  const deny = policy('deny-reports', 'Deny');
+  const other = policy('allow-bob', 'Allow', { subject: 'bob' });
+
+  describe('deny-overrides', () => {
+    it('lets an applicable Deny override every Allow', () => {
+      const result = decide([allow, deny], 'deny-overrides');
+
+      expect(result.decision).toBe('Deny');
+      expect(result.reason).toBe("Denied by policy 'deny-reports'");
+      expect(result.matchedPolicies).toEqual(['allow-reports', 'deny-reports']);
+    });
+
+    it('allows when only Allow policies apply', () => {
+      expect(decide([allow, other], 'deny-overrides').decision).toBe('Allow');
+    });
+
+    it('is not applicable when no policy applies', () => {
+      const result = decide([other], 'deny-overrides');
+
+      expect(result.decision).toBe('NotApplicable');
+      expect(result.matchedPolicies).toEqual([]);
+      expect(result.evaluatedPolicies).toBe(1);
+    });
+  });
+
+  describe('permit-overrides', () => {
+    it('lets an applicable Allow override every Deny', () => {
+      const result = decide([deny, allow], 'permit-overrides');
+
+      expect(result.decision).toBe('Allow');
+      expect(result.reason).toBe("Allowed by policy 'allow-reports'");
+    });
+
+    it('denies when only Deny policies apply', () => {
+      expect(decide([deny, other], 'permit-overrides').decision).toBe('Deny');
+    });
+  });
+
+  describe('first-applicable', () => {
+    it('takes the effect of the first applicable policy in priority order', () => {
+      expect(decide([other, allow, deny], 'first-applicable').decision).toBe('Allow');
+      expect(decide([other, deny, allow], 'first-applicable').decision).toBe('Deny');
+    });
+
+    it('is not applicable when no policy applies', () => {
+      expect(decide([other], 'first-applicable').decision).toBe('NotApplicable');
+    });
+  });
+
+  describe('deny-unless-permit', () => {
+    it('allows when an Allow policy applies', () => {
+      expect(decide([deny, allow], 'deny-unless-permit').decision).toBe('Allow');
+    });
+
+    it('denies when no policy applies', () => {
+      const result = decide([other], 'deny-unless-permit');
+
+      expect(result.decision).toBe('Deny');
+      expect(result.reason).toBe('Denied: no policy permits the request');
+    });
+  });
+
+  it('records the combining steps in the trace', () => {
+    const { trace } = decide([allow, deny], 'deny-overrides');
+
+    expect(trace.combining).toHaveLength(2);
+    expect(trace.combining[1]).toMatchObject({ effect: 'Deny', policyIds: ['deny-reports'], final: true });
+  });
+
+  describe('schedules', () => {
+    const at = new Date('2026-03-02T12:00:00Z');
+
+    it('skips policies that have not been activated yet', () => {
+      const scheduled = policy('scheduled-deny', 'Deny', { activateAt: new Date('2026-03-02T13:00:00Z') });
+      const result = decide([allow, scheduled], 'deny-overrides', at);
+
+      expect(result.decision).toBe('Allow');
+      expect(result.trace.policies[1]).toMatchObject({ applicable: false, outsideSchedule: true });
+    });
+
+    it('skips policies that have expired, even while still Active', () => {
+      const expired = policy('expired-allow', 'Allow', { expireAt: new Date('2026-03-02T12:00:00Z') });
+      const result = decide([expired], 'deny-overrides', at);
+
+      expect(result.decision).toBe('NotApplicable');
+      expect(result.reason).toBe("No active policy matched the request (policy 'expired-allow' is outside its schedule)");
+    });
+
+    it('applies policies inside their schedule', () => {
+      const current = policy('current-deny', 'Deny', {
+        activateAt: new Date('2026-03-01T00:00:00Z'),
+        expireAt: new Date('2026-03-03T00:00:00Z'),
+      });
+
+      expect(decide([allow, current], 'deny-overrides', at).decision).toBe('Deny');
+    });
+  });
+
+  describe('time windows', () => {
+    const windowed = policy('business-hours', 'Allow', {
+      rules: [],
+      complexRules: [{
+        id: 'business-hours-rule',
+        subject: { type: 'alice', attributes: [] },
+        action: { name: 'read', displayName: 'Read' },
+        object: { type: 'report', attributes: [] },
+        conditions: [],
+        resourceConditions: { primary: [], additional: [], logicalOperator: 'AND' },
+        dependencyRules: [],
+        evaluationMetadata: { cacheable: false },
+        timeConstraints: [{
+          startTime: new Date('2026-01-05T09:00:00Z'),
+          endTime: new Date('2026-01-05T17:00:00Z'),
+          timezone: 'UTC',
+          recurrence: { type: 'daily' },
+          enabled: true,
+        }],
+      }],
+    });
+
+    it('applies inside the window', () => {
+      expect(decide([windowed], 'deny-overrides', new Date('2026-03-02T10:00:00Z')).decision).toBe('Allow');
+    });
+
+    it('explains a closed window', () => {
+      const result = decide([windowed], 'deny-unless-permit', new Date('2026-03-02T18:00:00Z'));
+
+      expect(result.decision).toBe('Deny');
+      expect(result.reason).toContain("outside allowed window of policy 'business-hours'");
+    });
+  });
+});
+
+describe('missing attributes', () => {
+  // Policies constraining the subject's department; the request carries no department
+  const onDepartment = (id: string, effect: 'Allow' | 'Deny', operator: 'equals' | 'not_equals') => {
+    const base = policy(id, effect);
+    return {
+      ...base,
+      rules: [{ ...base.rules[0]!, subject: { type: 'alice', attributes: [{ name: 'department', operator, value: 'finance' }] } }],
+    } as PolicySnapshot;
+  };
+
+  it('never satisfy an Allow condition', () => {
+    const result = decide([onDepartment('allow-finance', 'Allow', 'equals'), onDepartment('allow-others', 'Allow', 'not_equals')], 'deny-overrides');
+
+    expect(result.decision).toBe('NotApplicable');
+  });
+
+  it('never bypass a Deny condition, including negated ones', () => {
+    const allow = policy('allow-reports', 'Allow');
+
+    expect(decide([allow, onDepartment('deny-outside-finance', 'Deny', 'not_equals')], 'deny-overrides').decision).toBe('Deny');
+    expect(decide([allow, onDepartment('deny-finance', 'Deny', 'equals')], 'deny-overrides').decision).toBe('Deny');
+  });
+
+  it('do not change a Deny whose condition fails on a present value', () => {
+    const present = { ...request(), subject: { ...entity('alice'), attributes: { department: 'finance' } } };
+    const result = policyEvaluationService.decide(
+      [policy('allow-reports', 'Allow'), onDepartment('deny-outside-finance', 'Deny', 'not_equals')],
+      present,
+      'deny-overrides'
+    );
+
+    expect(result.decision).toBe('Allow');
+  });
+});
+
+describe('supplied attributes', () => {
+  const snapshot = {
+    subjects: new Map([['alice', { id: 'alice', name: 'Alice', department: 'sales', attributes: { clearance: 1 } }]]),
+    groupsByMember: new Map(),
+    resources: new Map([['report', { id: 'report', name: 'Report', attributes: { classification: 'secret' } }]]),
+    additionalResources: new Map(),
+  } as unknown as EvaluationSnapshot;
+
+  it('cannot replace the stored attributes of a subject or resource', () => {
+    const subject = policyEvaluationService.resolveSubject(snapshot, { id: 'alice', attributes: { department: 'finance', clearance: 5 } });
+    const resource = policyEvaluationService.resolveResource(snapshot, { id: 'report', attributes: { classification: 'public' } });
+
+    expect(subject.attributes).toMatchObject({ department: 'sales', clearance: 1 });
+    expect(resource.attributes).toMatchObject({ classification: 'secret' });
+  });
+
+  it('cannot hide stored attributes by sending them empty', () => {
+    const subject = policyEvaluationService.resolveSubject(snapshot, { id: 'alice', attributes: { department: null, clearance: undefined } });
+
+    expect(subject.attributes).toMatchObject({ department: 'sales', clearance: 1 });
+  });
+
+  it('fill in attributes the stored entity does not define', () => {
+    const subject = policyEvaluationService.resolveSubject(snapshot, { id: 'alice', attributes: { location: 'office' } });
+
+    expect(subject.attributes).toMatchObject({ department: 'sales', location: 'office' });
+  });
+
+  it('describe subjects that are not stored', () => {
+    expect(policyEvaluationService.resolveSubject(snapshot, { id: 'bob', attributes: { department: 'finance' } }).attributes)
+      .toEqual({ id: 'bob', department: 'finance' });
+  });
+});
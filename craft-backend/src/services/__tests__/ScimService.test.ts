@@ -0,0 +1,135 @@
+import { Subject } from '../../models/Subject';
+import { User } from '../../models/User';
+import scimService, { SCIM_SCHEMAS, ScimContext } from '../ScimService';
+
+jest.mock('../../models/Subject', () => ({
+  Subject: Object.assign(
+    jest.fn((fields: Record<string, unknown>) => ({ ...fields, markModified: jest.fn(), save: jest.fn().mockResolvedValue(undefined) })),
+    { findOne: jest.fn(), exists: jest.fn() }
+  ),
+}));
+jest.mock('../../models/User', () => ({
+  User: Object.assign(
+    jest.fn((fields: Record<string, unknown>) => ({
+      _id: 'user-new',
+      ...fields,
+      isNew: true,
+      workspaceRoles: new Map(),
+      markModified: jest.fn(),
+      save: jest.fn().mockResolvedValue(undefined),
+    })),
+    { findOne: jest.fn(), findById: jest.fn(), exists: jest.fn() }
+  ),
+}));
+jest.mock('../../models/Workspace', () => ({
+  Workspace: { findById: jest.fn(() => ({ select: () => ({ lean: async () => null }) })) },
+}));
+
+const WORKSPACE_ID = 'workspace-1';
+const LINKED_USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const context: ScimContext = {
+  tokenId: 'token-1',
+  tokenName: 'Okta',
+  workspaceId: WORKSPACE_ID,
+  applicationId: 'application-1',
+  environmentId: 'environment-1',
+  baseUrl: 'https://craft.example.com/api/v1/scim/v2',
+};
+
+const resource = {
+  schemas: [SCIM_SCHEMAS.user],
+  userName: 'alice@example.com',
+  name: { givenName: 'Alice', familyName: 'Smith' },
+  active: true,
+};
+
+const account = (overrides: Record<string, unknown> = {}) => ({
+  _id: LINKED_USER_ID,
+  email: 'alice@example.com',
+  name: 'Alice',
+  role: 'basic',
+  active: true,
+  isNew: false,
+  attributes: {},
+  assignedWorkspaces: [WORKSPACE_ID],
+  workspaceRoles: new Map([[WORKSPACE_ID, { role: 'viewer' }]]),
+  markModified: jest.fn(),
+  save: jest.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
+
+const handMadeSubject = (globalUserId?: string) => ({
+  _id: 'subject-1',
+  id: 'subject-1',
+  type: 'user',
+  email: 'alice@example.com',
+  globalUserId,
+  attributes: {},
+  metadata: { tags: [] as string[] },
+  markModified: jest.fn(),
+  save: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('ScimService user provisioning', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(Subject.findOne).mockResolvedValue(null);
+    jest.mocked(Subject.exists).mockResolvedValue(null);
+    jest.mocked(User.findOne).mockResolvedValue(null);
+    jest.mocked(User.findById).mockResolvedValue(null);
+  });
+
+  it('creates a basic user with a membership of the workspace for a new email', async () => {
+    const created = await scimService.createUser(context, resource);
+    const user = jest.mocked(User).mock.results[0]!.value;
+
+    expect(user).toMatchObject({ email: 'alice@example.com', role: 'basic', authProvider: 'scim', assignedWorkspaces: [WORKSPACE_ID] });
+    expect(user.workspaceRoles.get(WORKSPACE_ID)).toMatchObject({ role: 'viewer' });
+    expect(user.save).toHaveBeenCalled();
+    expect(created).toMatchObject({ userName: 'alice@example.com', active: true });
+  });
+
+  it('updates an account that belongs to this workspace alone', async () => {
+    const owned = account();
+    jest.mocked(User.findOne).mockResolvedValue(owned);
+
+    await scimService.createUser(context, { ...resource, displayName: 'Alice Smith' });
+
+    expect(owned).toMatchObject({ name: 'Alice Smith', active: true });
+    expect(owned.save).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['an account of another workspace', { assignedWorkspaces: ['workspace-2'] }],
+    ['an account shared with another workspace', { assignedWorkspaces: [WORKSPACE_ID, 'workspace-2'] }],
+    ['an account without a workspace', { assignedWorkspaces: [] }],
+    ['a global admin', { role: 'admin' }],
+    ['a super admin', { role: 'super_admin', assignedWorkspaces: [] }],
+  ])('reports a uniqueness conflict for the email of %s', async (_, overrides) => {
+    const existing = account(overrides);
+    jest.mocked(User.findOne).mockResolvedValue(existing);
+
+    await expect(scimService.createUser(context, resource)).rejects.toMatchObject({
+      statusCode: 409,
+      details: { scimType: 'uniqueness' },
+    });
+    expect(existing.save).not.toHaveBeenCalled();
+    expect(jest.mocked(Subject).mock.results[0]!.value.save).not.toHaveBeenCalled();
+  });
+
+  it('leaves a linked account that joined other workspaces unchanged and only provisions the subject', async () => {
+    const subject = handMadeSubject(LINKED_USER_ID);
+    const linked = account({ role: 'admin', assignedWorkspaces: [WORKSPACE_ID, 'workspace-2'] });
+    jest.mocked(Subject.findOne).mockResolvedValue(subject);
+    jest.mocked(User.findById).mockResolvedValue(linked);
+
+    await scimService.createUser(context, { ...resource, displayName: 'Alice Smith', active: false });
+
+    expect(linked).toMatchObject({ name: 'Alice', active: true, assignedWorkspaces: [WORKSPACE_ID, 'workspace-2'] });
+    expect(linked.save).not.toHaveBeenCalled();
+    expect(subject).toMatchObject({ displayName: 'Alice Smith', status: 'inactive', globalUserId: LINKED_USER_ID });
+    expect(subject.metadata.tags).toContain('scim');
+    expect(subject.save).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import jwt from 'jsonwebtoken';
+import { Session } from '../../models/Session';
+import { RevokedToken } from '../../models/RevokedToken';
+import { UserRepository } from '../../repositories/UserRepository';
+import { IJWTPayload, IUser } from '../../types';
+import sessionService from '../SessionService';
+
+jest.mock('../../models/Session');
+jest.mock('../../models/RevokedToken');
+
+const user = { _id: 'user-1', email: 'alice@example.com', role: 'basic', active: true } as unknown as IUser;
+
+const sessionDocument = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  userId: 'user-1',
+  revokedAt: null as Date | null,
+  revokedReason: undefined as string | undefined,
+  save: jest.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
+
+describe('SessionService refresh token rotation', () => {
+  let refreshToken: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(UserRepository.prototype, 'findById').mockResolvedValue(user);
+    ({ refreshToken } = await sessionService.issue(user));
+  });
+
+  it('starts a session family carried by both tokens', async () => {
+    const { token } = await sessionService.issue(user);
+    const created = jest.mocked(Session.create).mock.calls[1]![0] as Record<string, unknown>;
+
+    expect((jwt.decode(token) as IJWTPayload).sid).toBe(created.id);
+    expect(created.tokenHash).toEqual(expect.any(String));
+    expect(created.tokenHash).not.toBe(refreshToken);
+  });
+
+  it('exchanges the current refresh token for a new pair', async () => {
+    jest.mocked(Session.findOneAndUpdate).mockResolvedValue(sessionDocument());
+
+    const rotated = await sessionService.rotate(refreshToken);
+    const filter = jest.mocked(Session.findOneAndUpdate).mock.calls[0]![0] as Record<string, unknown>;
+
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect((jwt.decode(rotated.refreshToken) as IJWTPayload).sid).toBe((jwt.decode(refreshToken) as IJWTPayload).sid);
+    expect(filter).toMatchObject({ revokedAt: null, tokenHash: expect.any(String) });
+    expect(RevokedToken.create).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole session when an already rotated token is presented again', async () => {
+    const session = sessionDocument();
+    jest.mocked(Session.findOneAndUpdate).mockResolvedValue(null);
+    jest.mocked(Session.findOne).mockResolvedValue(session);
+
+    const attempt = sessionService.rotate(refreshToken);
+
+    await expect(attempt).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Refresh token has already been used; the session has been revoked',
+    });
+    expect(session.revokedAt).toBeInstanceOf(Date);
+    expect(session.revokedReason).toBe('reuse_detected');
+    expect(session.save).toHaveBeenCalled();
+    expect(RevokedToken.create).toHaveBeenCalledWith(expect.objectContaining({ scope: 'session', key: 'session-1' }));
+  });
+
+  it('rejects tokens of a session that is already revoked without revoking it again', async () => {
+    jest.mocked(Session.findOneAndUpdate).mockResolvedValue(null);
+    jest.mocked(Session.findOne).mockResolvedValue(sessionDocument({ revokedAt: new Date() }));
+
+    await expect(sessionService.rotate(refreshToken)).rejects.toThrow('Session has been revoked or has expired');
+    expect(RevokedToken.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects refresh tokens that are not bound to a session', async () => {
+    const unbound = jwt.sign({ userId: 'user-1', email: user.email, role: 'basic' }, process.env.JWT_REFRESH_SECRET!);
+
+    await expect(sessionService.rotate(unbound)).rejects.toThrow('Refresh token is not bound to a session, please sign in again');
+    expect(Session.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const forged = jwt.sign({ userId: 'user-1', sid: 'session-1' }, 'another-secret');
+
+    await expect(sessionService.rotate(forged)).rejects.toThrow('Invalid refresh token');
+  });
+});
+
+describe('SessionService.isRevoked', () => {
+  it('revokes tokens issued in the same second as a user-wide revocation', async () => {
+    const iat = Math.floor(Date.UTC(2026, 0, 5, 9) / 1000);
+    jest.mocked(RevokedToken.exists).mockResolvedValue(null);
+
+    await sessionService.isRevoked({ userId: 'user-1', email: user.email, role: 'basic', iat });
+
+    expect(RevokedToken.exists).toHaveBeenCalledWith({
+      $or: [{ scope: 'user', key: 'user-1', revokedAt: { $gte: new Date(iat * 1000) } }],
+    });
+  });
+});
@@ -114,21 +114,26 @@ export interface IUser {
   active: boolean;
   managerId?: string;
   department?: string;
-  authProvider?: 'local' | 'azuread';
+  authProvider?: 'local' | 'azuread' | 'oidc' | 'scim';
   azureAdId?: string;
+  oidcSubject?: string; // "{issuer}|{sub}" of the OpenID Connect identity the user last signed in with
   lastLoginAt?: Date;
   assignedWorkspaces?: string[];
   assignedApplications?: string[];
   currentWorkspace?: string;
-  workspaceRoles?: Map<string, {
-    role: 'owner' | 'admin' | 'member' | 'viewer';
-    permissions: string[];
-    joinedAt: Date;
-  }>;
+  workspaceRoles?: Record<string, IWorkspaceMembership>; // Keyed by workspace ID
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export interface IWorkspaceMembership {
+  role: WorkspaceRole;
+  permissions: string[];
+  joinedAt: Date;
+}
+
 export interface IPolicyEvaluationContext {
   subject: ISubject;
   object: IResourceObject;
@@ -191,6 +196,8 @@ export interface IJWTPayload {
   userId: string;
   email: string;
   role: string;
+  sid?: string; // Session (refresh-token family) the token belongs to
+  jti?: string; // Unique token ID, used to revoke a single token
   iat?: number;
   exp?: number;
 }
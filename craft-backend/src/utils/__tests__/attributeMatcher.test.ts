@@ -0,0 +1,31 @@
+import { matchAttribute } from '../attributeMatcher';
+
+const passes = (actual: unknown, operator: string, expected: unknown, missingPasses?: boolean): boolean =>
+  matchAttribute(actual, operator, expected, undefined, missingPasses).passed;
+
+describe('matchAttribute', () => {
+  it('compares scalars by their string form, case-insensitively', () => {
+    expect(passes('10', 'equals', 10)).toBe(true);
+    expect(passes('Finance', 'equals', 'finance')).toBe(true);
+    expect(passes(['sales', 'finance'], 'equals', 'finance')).toBe(true);
+  });
+
+  it('negates the positive operators for present values', () => {
+    expect(passes('sales', 'not_equals', 'finance')).toBe(true);
+    expect(passes('sales', 'not_in', ['finance', 'legal'])).toBe(true);
+    expect(passes('finance team', 'not_contains', 'finance')).toBe(false);
+  });
+
+  it.each([undefined, null, ''])('fails every operator on a missing value (%p), including the negated ones', missing => {
+    for (const operator of ['equals', 'not_equals', 'in', 'not_in', 'contains', 'not_contains', 'greater_than']) {
+      expect(passes(missing, operator, 'finance')).toBe(false);
+    }
+  });
+
+  it('passes every operator on a missing value when asked to, as Deny policies do', () => {
+    for (const operator of ['equals', 'not_equals', 'not_in', 'not_contains']) {
+      expect(passes(undefined, operator, 'finance', true)).toBe(true);
+    }
+    expect(passes('sales', 'equals', 'finance', true)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { ITimeConstraint } from '../../models/Policy';
+import { evaluateTimeConstraint, parseCronPattern } from '../timeWindow';
+
+const constraint = (overrides: Partial<ITimeConstraint>): ITimeConstraint => ({
+  startTime: new Date('2026-01-05T09:00:00Z'), // A Monday
+  endTime: new Date('2026-01-05T17:00:00Z'),
+  timezone: 'UTC',
+  enabled: true,
+  ...overrides,
+});
+
+const passes = (timeConstraint: ITimeConstraint, at: string): boolean =>
+  evaluateTimeConstraint(timeConstraint, new Date(at)).passed;
+
+describe('evaluateTimeConstraint', () => {
+  it('treats a window without recurrence as [startTime, endTime)', () => {
+    const once = constraint({});
+
+    expect(passes(once, '2026-01-05T09:00:00Z')).toBe(true);
+    expect(passes(once, '2026-01-05T16:59:00Z')).toBe(true);
+    expect(passes(once, '2026-01-05T17:00:00Z')).toBe(false);
+    expect(passes(once, '2026-01-06T10:00:00Z')).toBe(false);
+  });
+
+  it('opens daily windows every day at the start time of day', () => {
+    const daily = constraint({ recurrence: { type: 'daily' } });
+
+    expect(passes(daily, '2026-03-14T12:00:00Z')).toBe(true);
+    expect(passes(daily, '2026-03-14T08:59:00Z')).toBe(false);
+  });
+
+  it('wraps daily windows past midnight', () => {
+    const overnight = constraint({
+      startTime: new Date('2026-01-05T22:00:00Z'),
+      endTime: new Date('2026-01-06T02:00:00Z'),
+      recurrence: { type: 'daily' },
+    });
+
+    expect(passes(overnight, '2026-02-10T23:30:00Z')).toBe(true);
+    expect(passes(overnight, '2026-02-11T01:59:00Z')).toBe(true);
+    expect(passes(overnight, '2026-02-11T02:00:00Z')).toBe(false);
+    expect(passes(overnight, '2026-02-11T12:00:00Z')).toBe(false);
+  });
+
+  it('reads the time of day in the constraint timezone', () => {
+    // 09:00–17:00 in New York, which is UTC-5 in winter and UTC-4 in summer
+    const newYork = constraint({
+      startTime: new Date('2026-01-05T14:00:00Z'),
+      endTime: new Date('2026-01-05T22:00:00Z'),
+      timezone: 'America/New_York',
+      recurrence: { type: 'daily' },
+    });
+
+    expect(passes(newYork, '2026-01-20T14:00:00Z')).toBe(true);
+    expect(passes(newYork, '2026-01-20T13:59:00Z')).toBe(false);
+    expect(passes(newYork, '2026-07-20T13:00:00Z')).toBe(true);
+    expect(passes(newYork, '2026-07-20T21:00:00Z')).toBe(false);
+  });
+
+  it('only opens weekly windows on the start weekday', () => {
+    const weekly = constraint({ recurrence: { type: 'weekly' } });
+
+    expect(passes(weekly, '2026-01-12T10:00:00Z')).toBe(true); // Monday
+    expect(passes(weekly, '2026-01-13T10:00:00Z')).toBe(false); // Tuesday
+  });
+
+  it('opens monthly windows on the last day of shorter months', () => {
+    const monthly = constraint({
+      startTime: new Date('2026-01-31T09:00:00Z'),
+      endTime: new Date('2026-01-31T17:00:00Z'),
+      recurrence: { type: 'monthly' },
+    });
+
+    expect(passes(monthly, '2026-02-28T10:00:00Z')).toBe(true);
+    expect(passes(monthly, '2026-02-27T10:00:00Z')).toBe(false);
+  });
+
+  it('opens custom windows when the cron pattern fires and keeps them open for the window length', () => {
+    const weekdayMornings = constraint({
+      endTime: new Date('2026-01-05T10:00:00Z'),
+      recurrence: { type: 'custom', pattern: '0 9 * * mon-fri' },
+    });
+
+    expect(passes(weekdayMornings, '2026-01-09T09:30:00Z')).toBe(true); // Friday
+    expect(passes(weekdayMornings, '2026-01-09T10:00:00Z')).toBe(false);
+    expect(passes(weekdayMornings, '2026-01-10T09:30:00Z')).toBe(false); // Saturday
+  });
+
+  it('keeps recurring windows closed before the start and after the end date', () => {
+    const bounded = constraint({ recurrence: { type: 'daily', endDate: new Date('2026-02-01T00:00:00Z') } });
+
+    expect(evaluateTimeConstraint(bounded, new Date('2026-01-04T10:00:00Z')).message).toContain('recurrence has not started');
+    expect(evaluateTimeConstraint(bounded, new Date('2026-02-02T10:00:00Z')).message).toContain('recurrence has ended');
+  });
+
+  it('fails closed on an invalid timezone or pattern', () => {
+    expect(passes(constraint({ timezone: 'Mars/Olympus_Mons', recurrence: { type: 'daily' } }), '2026-01-05T10:00:00Z')).toBe(false);
+    expect(passes(constraint({ recurrence: { type: 'custom', pattern: 'every day' } }), '2026-01-05T10:00:00Z')).toBe(false);
+  });
+});
+
+describe('parseCronPattern', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const schedule = parseCronPattern('*/15 9-17 1,15 jan sun');
+
+    expect(schedule?.minutes).toEqual(new Set([0, 15, 30, 45]));
+    expect(schedule?.hours.size).toBe(9);
+    expect(schedule?.daysOfMonth).toEqual(new Set([1, 15]));
+    expect(schedule?.months).toEqual(new Set([1]));
+    expect(schedule?.daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it('rejects patterns without five valid fields', () => {
+    expect(parseCronPattern('0 9 * *')).toBeNull();
+    expect(parseCronPattern('61 9 * * *')).toBeNull();
+  });
+});
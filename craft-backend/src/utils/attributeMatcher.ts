@@ -0,0 +1,229 @@
+import { IPolicyAttribute } from '@/models/Policy';
+
+export type AttributeOperator = IPolicyAttribute['operator'];
+
+export interface DateConfig {
+  includeTime: boolean;
+  isRange: boolean;
+}
+
+export interface MatchResult {
+  passed: boolean;
+  message: string;
+}
+
+const isMissing = (value: any): boolean => value === undefined || value === null || value === '';
+
+const toArray = (value: any): any[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value.includes(',')) {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return [value];
+};
+
+const format = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.join(', ')}]`;
+  if (value && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Scalars are compared by their string form so that '10' matches 10 and 'false' matches false
+const sameValue = (actual: any, expected: any): boolean => {
+  if (actual === expected) return true;
+  if (actual === null || actual === undefined || expected === null || expected === undefined) return false;
+  if (typeof actual === 'object' || typeof expected === 'object') return false;
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+};
+
+const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Dates without includeTime are compared at day precision (UTC)
+const toTimestamp = (value: any, dateConfig?: DateConfig): number | null => {
+  if (isMissing(value)) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  const time = date.getTime();
+  if (Number.isNaN(time)) return null;
+  if (dateConfig && !dateConfig.includeTime) {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  }
+  return time;
+};
+
+const getRange = (expected: any): { start: any; end: any } | null => {
+  if (Array.isArray(expected) && expected.length === 2) {
+    return { start: expected[0], end: expected[1] };
+  }
+  if (expected && typeof expected === 'object' && 'start' in expected && 'end' in expected) {
+    return { start: expected.start, end: expected.end };
+  }
+  return null;
+};
+
+const compareNumbers = (
+  actual: any,
+  expected: any,
+  compare: (a: number, b: number) => boolean,
+  label: string
+): MatchResult => {
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  if (actualNumber === null || expectedNumber === null) {
+    return { passed: false, message: `Cannot compare '${format(actual)}' and '${format(expected)}' as numbers` };
+  }
+  return {
+    passed: compare(actualNumber, expectedNumber),
+    message: `Expected a value ${label} '${expectedNumber}', got '${actualNumber}'`,
+  };
+};
+
+const compareDates = (
+  actual: any,
+  expected: any,
+  compare: (a: number, b: number) => boolean,
+  label: string,
+  dateConfig?: DateConfig
+): MatchResult => {
+  const actualTime = toTimestamp(actual, dateConfig);
+  const expectedTime = toTimestamp(expected, dateConfig);
+  if (actualTime === null || expectedTime === null) {
+    return { passed: false, message: `Cannot compare '${format(actual)}' and '${format(expected)}' as dates` };
+  }
+  return {
+    passed: compare(actualTime, expectedTime),
+    message: `Expected a date ${label} '${format(expected)}', got '${format(actual)}'`,
+  };
+};
+
+/**
+ * Evaluates a single attribute constraint against an actual value.
+ * A missing actual value fails every constraint, including the negated operators, unless
+ * missingPasses is set: Deny policies use it so that leaving an attribute out cannot bypass them.
+ */
+export const matchAttribute = (
+  actual: any,
+  operator: string,
+  expected: any,
+  dateConfig?: DateConfig,
+  missingPasses: boolean = false
+): MatchResult => {
+  if (isMissing(actual)) {
+    return missingPasses
+      ? { passed: true, message: 'Attribute value is not present, so the Deny policy applies' }
+      : { passed: false, message: 'Attribute value is not present' };
+  }
+
+  switch (operator) {
+    case 'equals': {
+      if (dateConfig) {
+        return compareDates(actual, expected, (a, b) => a === b, 'equal to', dateConfig);
+      }
+      const passed = Array.isArray(actual)
+        ? actual.some(item => sameValue(item, expected))
+        : sameValue(actual, expected);
+      return { passed, message: `Expected '${format(expected)}', got '${format(actual)}'` };
+    }
+
+    case 'not_equals': {
+      const result = matchAttribute(actual, 'equals', expected, dateConfig);
+      return { passed: !result.passed, message: `Expected a value other than '${format(expected)}', got '${format(actual)}'` };
+    }
+
+    case 'contains': {
+      const passed = Array.isArray(actual)
+        ? actual.some(item => sameValue(item, expected))
+        : String(actual).toLowerCase().includes(String(expected).toLowerCase());
+      return { passed, message: `Expected a value containing '${format(expected)}', got '${format(actual)}'` };
+    }
+
+    case 'not_contains': {
+      const result = matchAttribute(actual, 'contains', expected, dateConfig);
+      return { passed: !result.passed, message: `Expected a value not containing '${format(expected)}', got '${format(actual)}'` };
+    }
+
+    case 'in': {
+      const allowed = toArray(expected);
+      const passed = toArray(actual).some(item => allowed.some(value => sameValue(item, value)));
+      return { passed, message: `Expected one of ${format(allowed)}, got '${format(actual)}'` };
+    }
+
+    case 'not_in': {
+      const result = matchAttribute(actual, 'in', expected, dateConfig);
+      return { passed: !result.passed, message: `Expected none of ${format(toArray(expected))}, got '${format(actual)}'` };
+    }
+
+    case 'includes': {
+      const required = toArray(expected);
+      const values = toArray(actual);
+      const passed = required.every(value => values.some(item => sameValue(item, value)));
+      return { passed, message: `Expected values including ${format(required)}, got '${format(actual)}'` };
+    }
+
+    case 'not_includes': {
+      const excluded = toArray(expected);
+      const values = toArray(actual);
+      const passed = !excluded.some(value => values.some(item => sameValue(item, value)));
+      return { passed, message: `Expected values excluding ${format(excluded)}, got '${format(actual)}'` };
+    }
+
+    case 'greater_than':
+      return compareNumbers(actual, expected, (a, b) => a > b, 'greater than');
+
+    case 'less_than':
+      return compareNumbers(actual, expected, (a, b) => a < b, 'less than');
+
+    case 'greater_than_or_equal':
+      return compareNumbers(actual, expected, (a, b) => a >= b, 'greater than or equal to');
+
+    case 'less_than_or_equal':
+      return compareNumbers(actual, expected, (a, b) => a <= b, 'less than or equal to');
+
+    case 'before':
+      return compareDates(actual, expected, (a, b) => a < b, 'before', dateConfig);
+
+    case 'after':
+      return compareDates(actual, expected, (a, b) => a > b, 'after', dateConfig);
+
+    case 'on_or_before':
+      return compareDates(actual, expected, (a, b) => a <= b, 'on or before', dateConfig);
+
+    case 'on_or_after':
+      return compareDates(actual, expected, (a, b) => a >= b, 'on or after', dateConfig);
+
+    case 'between': {
+      const range = getRange(expected);
+      if (!range) {
+        return { passed: false, message: `Invalid range format for 'between' operator` };
+      }
+      const actualNumber = toNumber(actual);
+      const startNumber = toNumber(range.start);
+      const endNumber = toNumber(range.end);
+      if (actualNumber !== null && startNumber !== null && endNumber !== null) {
+        return {
+          passed: actualNumber >= startNumber && actualNumber <= endNumber,
+          message: `Expected a value between '${startNumber}' and '${endNumber}', got '${actualNumber}'`,
+        };
+      }
+      const actualTime = toTimestamp(actual, dateConfig);
+      const startTime = toTimestamp(range.start, dateConfig);
+      const endTime = toTimestamp(range.end, dateConfig);
+      if (actualTime === null || startTime === null || endTime === null) {
+        return { passed: false, message: `Cannot compare '${format(actual)}' with range '${format(expected)}'` };
+      }
+      return {
+        passed: actualTime >= startTime && actualTime <= endTime,
+        message: `Expected a date between '${format(range.start)}' and '${format(range.end)}', got '${format(actual)}'`,
+      };
+    }
+
+    default:
+      return { passed: false, message: `Unknown operator: ${operator}` };
+  }
+};
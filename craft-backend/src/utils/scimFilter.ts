@@ -0,0 +1,205 @@
+import { BadRequestError } from '@/exceptions/AppError';
+
+export type ScimComparisonOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+export type ScimFilterValue = string | number | boolean | null;
+
+// A parsed SCIM filter (RFC 7644, section 3.4.2.2)
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; path: string }
+  | { op: ScimComparisonOperator; path: string; value: ScimFilterValue };
+
+// Where a SCIM attribute is stored, and how its filter values are converted
+export interface ScimFieldMapping {
+  field: string;
+  text?: boolean; // Compared case-insensitively, like SCIM strings that are not caseExact
+  transform?: (value: ScimFilterValue) => any;
+}
+
+const COMPARISON_OPERATORS: ScimComparisonOperator[] = ['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'];
+const TOKEN_PATTERN = /\s*("(?:[^"\\]|\\.)*"|\(|\)|[^\s()"]+)/g;
+
+const invalidFilter = (message: string): BadRequestError =>
+  new BadRequestError(message, { scimType: 'invalidFilter' });
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parses a filter such as `userName eq "jane@example.com" and active eq true`. Supports
+ * every comparison operator, pr, and, or, not and parentheses, but not complex attribute
+ * filters like `emails[type eq "work"]`.
+ */
+export const parseScimFilter = (expression: string): ScimFilter => {
+  const tokens = [...expression.matchAll(TOKEN_PATTERN)].map(match => match[1]!);
+  let position = 0;
+
+  const peek = (): string | undefined => tokens[position]?.toLowerCase();
+  const next = (): string => {
+    const token = tokens[position++];
+    if (token === undefined) throw invalidFilter(`Unexpected end of filter: ${expression}`);
+    return token;
+  };
+  const expect = (token: string): void => {
+    if (next() !== token) throw invalidFilter(`Expected "${token}" in filter: ${expression}`);
+  };
+
+  const parseValue = (token: string): ScimFilterValue => {
+    if (token.startsWith('"')) {
+      try {
+        return JSON.parse(token);
+      } catch {
+        throw invalidFilter(`Invalid filter value: ${token}`);
+      }
+    }
+    if (token === 'true' || token === 'false') return token === 'true';
+    if (token === 'null') return null;
+    if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+    throw invalidFilter(`Invalid filter value: ${token}`);
+  };
+
+  const parseUnary = (): ScimFilter => {
+    if (peek() === 'not') {
+      next();
+      expect('(');
+      const filter = parseOr();
+      expect(')');
+      return { op: 'not', filter };
+    }
+    if (peek() === '(') {
+      next();
+      const filter = parseOr();
+      expect(')');
+      return filter;
+    }
+
+    const path = next();
+    if (path.includes('[')) {
+      throw invalidFilter(`Complex attribute filters are not supported: ${expression}`);
+    }
+
+    const op = next().toLowerCase();
+    if (op === 'pr') return { op: 'pr', path };
+    if (!COMPARISON_OPERATORS.includes(op as ScimComparisonOperator)) {
+      throw invalidFilter(`Unknown filter operator: ${op}`);
+    }
+    return { op: op as ScimComparisonOperator, path, value: parseValue(next()) };
+  };
+
+  const parseAnd = (): ScimFilter => {
+    let left = parseUnary();
+    while (peek() === 'and') {
+      next();
+      left = { op: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): ScimFilter => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      next();
+      left = { op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const filter = parseOr();
+  if (position < tokens.length) {
+    throw invalidFilter(`Unexpected "${tokens[position]}" in filter: ${expression}`);
+  }
+  return filter;
+};
+
+/**
+ * Translates a filter into a MongoDB query. `resolveField` maps a SCIM attribute path to
+ * the field it is stored in; attributes it does not know make the filter invalid.
+ */
+export const scimFilterToQuery = (
+  filter: ScimFilter,
+  resolveField: (path: string) => ScimFieldMapping | undefined
+): Record<string, any> => {
+  switch (filter.op) {
+    case 'and':
+    case 'or':
+      return { [`$${filter.op}`]: [scimFilterToQuery(filter.left, resolveField), scimFilterToQuery(filter.right, resolveField)] };
+    case 'not':
+      return { $nor: [scimFilterToQuery(filter.filter, resolveField)] };
+  }
+
+  const mapping = resolveField(filter.path);
+  if (!mapping) {
+    throw invalidFilter(`Filtering on ${filter.path} is not supported`);
+  }
+  const { field, text, transform = (value: ScimFilterValue) => value } = mapping;
+
+  if (filter.op === 'pr') {
+    return { [field]: { $exists: true, $nin: [null, ''] } };
+  }
+
+  const value = transform(filter.value);
+  const pattern = (regex: string) => ({ $regex: regex, $options: 'i' });
+
+  if (text && typeof value === 'string') {
+    const escaped = escapeRegex(value);
+    switch (filter.op) {
+      case 'eq': return { [field]: pattern(`^${escaped}$`) };
+      case 'ne': return { [field]: { $not: new RegExp(`^${escaped}$`, 'i') } };
+      case 'co': return { [field]: pattern(escaped) };
+      case 'sw': return { [field]: pattern(`^${escaped}`) };
+      case 'ew': return { [field]: pattern(`${escaped}$`) };
+    }
+  }
+
+  switch (filter.op) {
+    case 'eq': return { [field]: value };
+    case 'ne': return { [field]: { $ne: value } };
+    case 'gt': return { [field]: { $gt: value } };
+    case 'ge': return { [field]: { $gte: value } };
+    case 'lt': return { [field]: { $lt: value } };
+    case 'le': return { [field]: { $lte: value } };
+    default:
+      throw invalidFilter(`Operator ${filter.op} is not supported for ${filter.path}`);
+  }
+};
+
+// Value of an attribute path in a SCIM object, ignoring case like SCIM attribute names
+export const getScimAttribute = (item: any, path: string): any =>
+  path.split('.').reduce((value, name) => {
+    if (value === null || typeof value !== 'object') return undefined;
+    const key = Object.keys(value).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : value[key];
+  }, item);
+
+/**
+ * Whether a SCIM object matches a filter, e.g. an element of `members` against the filter
+ * of the PATCH path `members[value eq "123"]`
+ */
+export const matchesScimFilter = (item: any, filter: ScimFilter): boolean => {
+  switch (filter.op) {
+    case 'and': return matchesScimFilter(item, filter.left) && matchesScimFilter(item, filter.right);
+    case 'or': return matchesScimFilter(item, filter.left) || matchesScimFilter(item, filter.right);
+    case 'not': return !matchesScimFilter(item, filter.filter);
+  }
+
+  const actual = getScimAttribute(item, filter.path);
+  if (filter.op === 'pr') {
+    return actual !== undefined && actual !== null && actual !== '';
+  }
+
+  const bothText = typeof actual === 'string' && typeof filter.value === 'string';
+  const left = bothText ? actual.toLowerCase() : actual;
+  const right = bothText ? (filter.value as string).toLowerCase() : filter.value;
+
+  switch (filter.op) {
+    case 'eq': return left === right;
+    case 'ne': return left !== right;
+    case 'co': return bothText && left.includes(right);
+    case 'sw': return bothText && left.startsWith(right);
+    case 'ew': return bothText && left.endsWith(right);
+    case 'gt': return right !== null && left > right;
+    case 'ge': return right !== null && left >= right;
+    case 'lt': return right !== null && left < right;
+    case 'le': return right !== null && left <= right;
+  }
+};
@@ -0,0 +1,262 @@
+import { ITimeConstraint } from '@/models/Policy';
+
+export interface TimeWindowResult {
+  passed: boolean;
+  window: string; // Human-readable description of the allowed window
+  localTime: string; // Evaluation time in the constraint's timezone
+  message: string;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MINUTES_PER_DAY = 24 * 60;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // Throws a RangeError for unknown timezones
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall-clock time of an instant in a timezone, expressed as a UTC timestamp at minute precision
+ * so that calendar arithmetic needs no further timezone lookups
+ */
+const toWallClock = (date: Date, timeZone: string): number => {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find(item => item.type === type)?.value);
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+};
+
+const minuteOfDay = (wallClock: number): number => Math.floor((wallClock % DAY) / MINUTE);
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatMinute = (minute: number): string => `${pad(Math.floor(minute / 60))}:${pad(minute % 60)}`;
+
+const weekdayLabel = (wallClock: number): string => {
+  const weekday = WEEKDAYS[new Date(wallClock).getUTCDay()]!;
+  return `${weekday.charAt(0).toUpperCase()}${weekday.slice(1)}`;
+};
+
+const formatWallClock = (wallClock: number): string => {
+  const date = new Date(wallClock);
+  return `${weekdayLabel(wallClock)} ${date.toISOString().slice(0, 10)} ${formatMinute(minuteOfDay(wallClock))}`;
+};
+
+const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+const daysInMonth = (wallClock: number): number => {
+  const date = new Date(wallClock);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+};
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const CRON_FIELDS: Array<{ min: number; max: number; names?: string[]; offset?: number }> = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: MONTHS, offset: 1 },
+  { min: 0, max: 7, names: WEEKDAYS, offset: 0 },
+];
+
+const parseCronValue = (value: string, field: typeof CRON_FIELDS[number]): number | null => {
+  const nameIndex = field.names ? field.names.indexOf(value.toLowerCase()) : -1;
+  if (nameIndex >= 0) return nameIndex + (field.offset || 0);
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return parsed >= field.min && parsed <= field.max ? parsed : null;
+};
+
+const parseCronField = (expression: string, field: typeof CRON_FIELDS[number]): Set<number> | null => {
+  const values = new Set<number>();
+
+  for (const item of expression.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!range || !Number.isInteger(step) || step < 1) return null;
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      const first = parseCronValue(from || '', field);
+      if (first === null) return null;
+      start = first;
+      // A single value with a step runs to the end of the field, as in "5/15"
+      end = to !== undefined ? parseCronValue(to, field) ?? -1 : stepText !== undefined ? field.max : first;
+      if (end < start) return null;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parses a five-field cron pattern (minute hour day-of-month month day-of-week).
+ * Supports lists, ranges, steps and three-letter month and weekday names; returns null when invalid.
+ */
+export const parseCronPattern = (pattern: string): CronSchedule | null => {
+  const expressions = pattern.trim().split(/\s+/);
+  if (expressions.length !== CRON_FIELDS.length) return null;
+
+  const fields = expressions.map((expression, position) => parseCronField(expression, CRON_FIELDS[position]!));
+  if (fields.some(field => field === null)) return null;
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields as Set<number>[];
+  // Sunday may be written as 0 or 7
+  if (daysOfWeek!.has(7)) daysOfWeek!.add(0);
+
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: daysOfWeek!,
+    dayOfMonthRestricted: expressions[2] !== '*',
+    dayOfWeekRestricted: expressions[4] !== '*',
+  };
+};
+
+const cronMatches = (schedule: CronSchedule, wallClock: number): boolean => {
+  const date = new Date(wallClock);
+  if (!schedule.minutes.has(date.getUTCMinutes()) || !schedule.hours.has(date.getUTCHours())) return false;
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+};
+
+const describeWindow = (constraint: ITimeConstraint, startWall: number, length: number): string => {
+  const { recurrence, timezone } = constraint;
+  const start = minuteOfDay(startWall);
+  const hours = `${formatMinute(start)}–${formatMinute((start + length) % MINUTES_PER_DAY)}`;
+  const until = recurrence?.endDate ? ` until ${new Date(recurrence.endDate).toISOString().slice(0, 10)}` : '';
+
+  switch (recurrence?.type) {
+    case 'daily':
+      return `daily ${hours} ${timezone}${until}`;
+    case 'weekly':
+      return `weekly on ${weekdayLabel(startWall)} ${hours} ${timezone}${until}`;
+    case 'monthly':
+      return `monthly on day ${new Date(startWall).getUTCDate()} ${hours} ${timezone}${until}`;
+    case 'custom':
+      return `"${recurrence.pattern || ''}" for ${formatDuration(length)} ${timezone}${until}`;
+    default:
+      return `${new Date(constraint.startTime).toISOString()} – ${new Date(constraint.endTime).toISOString()}`;
+  }
+};
+
+/**
+ * Checks whether an instant falls inside a time constraint's allowed window.
+ *
+ * Without recurrence the window is [startTime, endTime). With recurrence the window opens at
+ * startTime's time of day in the constraint's timezone and lasts until endTime's time of day,
+ * wrapping past midnight when the end is earlier (22:00–02:00). Daily windows open every day,
+ * weekly ones on startTime's weekday, monthly ones on its day of the month (the last day in
+ * shorter months) and custom ones whenever the cron pattern fires. Recurring windows never open
+ * before startTime and stop at recurrence.endDate.
+ */
+export const evaluateTimeConstraint = (constraint: ITimeConstraint, at: Date): TimeWindowResult => {
+  const timezone = constraint.timezone || 'UTC';
+  const startTime = new Date(constraint.startTime);
+  const endTime = new Date(constraint.endTime);
+
+  let nowWall: number;
+  let startWall: number;
+  let endWall: number;
+  try {
+    nowWall = toWallClock(at, timezone);
+    startWall = toWallClock(startTime, timezone);
+    endWall = toWallClock(endTime, timezone);
+  } catch {
+    return { passed: false, window: '', localTime: at.toISOString(), message: `Outside allowed window: invalid timezone '${timezone}'` };
+  }
+
+  const localTime = formatWallClock(nowWall);
+  const startMinute = minuteOfDay(startWall);
+  const length = ((minuteOfDay(endWall) - startMinute + MINUTES_PER_DAY) % MINUTES_PER_DAY) || MINUTES_PER_DAY;
+  const window = describeWindow(constraint, startWall, length);
+  const result = (passed: boolean, detail?: string): TimeWindowResult => ({
+    passed,
+    window,
+    localTime,
+    message: `${passed ? 'Within' : 'Outside'} allowed window (${window}), local time ${localTime}${detail ? `: ${detail}` : ''}`,
+  });
+
+  const { recurrence } = constraint;
+  if (!recurrence) {
+    return result(at >= startTime && at < endTime);
+  }
+
+  if (at < startTime) {
+    return result(false, 'recurrence has not started');
+  }
+  if (recurrence.endDate && at > new Date(recurrence.endDate)) {
+    return result(false, 'recurrence has ended');
+  }
+
+  const inWindow = (open: number) => open >= startWall && nowWall >= open && nowWall < open + length * MINUTE;
+
+  if (recurrence.type === 'custom') {
+    const schedule = recurrence.pattern ? parseCronPattern(recurrence.pattern) : null;
+    if (!schedule) {
+      return result(false, `invalid recurrence pattern '${recurrence.pattern || ''}'`);
+    }
+    // Look back over the window length for the minute the pattern last fired
+    for (let offset = 0; offset < length; offset++) {
+      const open = nowWall - offset * MINUTE;
+      if (open < startWall) break;
+      if (cronMatches(schedule, open)) return result(true);
+    }
+    return result(false);
+  }
+
+  // Windows last at most a day, so only today's and yesterday's openings can contain now
+  const today = nowWall - (nowWall % DAY);
+  const passed = [today, today - DAY].some(day => {
+    const date = new Date(day);
+    if (recurrence.type === 'weekly' && date.getUTCDay() !== new Date(startWall).getUTCDay()) return false;
+    if (recurrence.type === 'monthly' && date.getUTCDate() !== Math.min(new Date(startWall).getUTCDate(), daysInMonth(day))) return false;
+    return inWindow(day + startMinute * MINUTE);
+  });
+
+  return result(passed);
+};
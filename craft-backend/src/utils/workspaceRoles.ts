@@ -0,0 +1,30 @@
+import { IUser, WorkspaceRole } from '@/types';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+// Higher ranks include every capability of the lower ones
+const RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * Role of a user in a workspace. Super admins own every workspace; otherwise an explicit
+ * membership wins, and users without one keep the workspace role of their global role.
+ */
+export const resolveWorkspaceRole = (
+  user: Pick<IUser, 'role' | 'workspaceRoles'>,
+  workspaceId?: string
+): WorkspaceRole => {
+  if (user.role === 'super_admin') return 'owner';
+
+  const membership = workspaceId ? user.workspaceRoles?.[workspaceId] : undefined;
+  if (membership && RANK[membership.role] !== undefined) return membership.role;
+
+  return user.role === 'admin' ? 'admin' : 'viewer';
+};
+
+export const hasWorkspaceRole = (role: WorkspaceRole, minimumRole: WorkspaceRole): boolean =>
+  RANK[role] >= RANK[minimumRole];
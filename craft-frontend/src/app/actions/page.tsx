@@ -522,7 +522,7 @@ export default function ActionsPage() {
   const inactiveCount = actions.filter(action => action.active === false).length;
 
   // Check if user can create entities (requires workspace, application, and environment selection)
-  const canCreateEntity = currentWorkspace && currentApplication && currentEnvironment && canCreate(currentUser);
+  const canCreateEntity = currentWorkspace && currentApplication && currentEnvironment && canCreate(currentUser, currentWorkspace?._id);
 
   const getCategoryIcon = (category: string) => {
     switch (category) {
@@ -633,7 +633,7 @@ export default function ActionsPage() {
               >
                 {selectedActions.length} selected
               </Typography>
-              {canDelete(currentUser) && (
+              {canDelete(currentUser, currentWorkspace?._id) && (
                 <Tooltip title="Delete selected">
                   <IconButton color="error" onClick={handleBulkDeleteOpen}>
                     <BulkDeleteIcon />
@@ -886,7 +886,7 @@ export default function ActionsPage() {
                               <ViewIcon fontSize="small" />
                             </IconButton>
                           </Tooltip>
-                          {canEdit(currentUser) && (
+                          {canEdit(currentUser, currentWorkspace?._id) && (
                             <Tooltip title="Edit">
                               <IconButton
                                 size="small"
@@ -897,7 +897,7 @@ export default function ActionsPage() {
                               </IconButton>
                             </Tooltip>
                           )}
-                          {canDelete(currentUser) && (
+                          {canDelete(currentUser, currentWorkspace?._id) && (
                             <Tooltip title="Delete">
                               <IconButton
                                 size="small"
@@ -1299,7 +1299,7 @@ export default function ActionsPage() {
           >
             Close
           </Button>
-          {canEdit(currentUser) && (
+          {canEdit(currentUser, currentWorkspace?._id) && (
             <Button
               onClick={() => {
                 handleViewClose();
@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import { FactCheck as ApprovalsIcon } from '@mui/icons-material';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import ChangeRequestDialog from '@/components/policies/ChangeRequestDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { apiClient } from '@/lib/api';
+import { ChangeRequest, ChangeRequestStatus } from '@/types';
+import {
+  canReviewChangeRequest,
+  describeChangeRequest,
+  formatApprovalProgress,
+  getChangeStatusColor,
+} from '@/utils/changeRequests';
+
+const STATUS_OPTIONS: Array<ChangeRequestStatus | 'all'> = ['all', 'pending', 'applied', 'rejected', 'cancelled', 'failed'];
+
+/**
+ * Reviewer inbox for policy changes held for approval in the current workspace
+ */
+export default function ApprovalsPage() {
+  const { user } = useAuth();
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?._id;
+
+  const [tabValue, setTabValue] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<ChangeRequestStatus | 'all'>('pending');
+  const [requests, setRequests] = useState<ChangeRequest[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ChangeRequest | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const reviewInbox = tabValue === 0;
+
+  const fetchRequests = useCallback(async () => {
+    if (!workspaceId) return;
+
+    setLoading(true);
+    try {
+      const response = await apiClient.get<ChangeRequest[]>('/change-requests', {
+        workspaceId,
+        page: page + 1,
+        limit: rowsPerPage,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+        ...(reviewInbox ? { status: 'pending', reviewable: true } : statusFilter !== 'all' && { status: statusFilter }),
+      });
+      if (response.success) {
+        setRequests(response.data || []);
+        setTotal(response.pagination?.total || 0);
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to load change requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId, page, rowsPerPage, reviewInbox, statusFilter]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleTabChange = (_event: React.SyntheticEvent, value: number) => {
+    setTabValue(value);
+    setPage(0);
+  };
+
+  const handleReview = async (decision: 'approve' | 'reject', comment: string) => {
+    if (!selected) return;
+
+    setSubmitting(true);
+    try {
+      const response = await apiClient.post<ChangeRequest>(`/change-requests/${selected.id}/${decision}`, { comment });
+      if (response.success) {
+        setMessage(response.message || (decision === 'approve' ? 'Change request approved' : 'Change request rejected'));
+        setSelected(null);
+        await fetchRequests();
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || `Failed to ${decision} change request`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelRequest = async () => {
+    if (!selected) return;
+
+    setSubmitting(true);
+    try {
+      const response = await apiClient.post<ChangeRequest>(`/change-requests/${selected.id}/cancel`);
+      if (response.success) {
+        setMessage(response.message || 'Change request cancelled');
+        setSelected(null);
+        await fetchRequests();
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to cancel change request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <Paper elevation={1} sx={{ p: 3, mb: 4 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+            <ApprovalsIcon sx={{ mr: 2, color: 'primary.main' }} />
+            <Typography variant="h4" component="h1">
+              Approvals
+            </Typography>
+          </Box>
+          <Typography variant="body1" color="text.secondary">
+            Policy changes in protected environments of {currentWorkspace?.displayName || 'this workspace'} wait
+            here until their approvers sign off.
+          </Typography>
+        </Paper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {message}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+          <Tabs value={tabValue} onChange={handleTabChange} sx={{ flexGrow: 1 }}>
+            <Tab label="Awaiting My Review" />
+            <Tab label="All Requests" />
+          </Tabs>
+          {!reviewInbox && (
+            <FormControl size="small" sx={{ minWidth: 160, mb: 1 }}>
+              <InputLabel>Status</InputLabel>
+              <Select
+                value={statusFilter}
+                label="Status"
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as ChangeRequestStatus | 'all');
+                  setPage(0);
+                }}
+              >
+                {STATUS_OPTIONS.map(status => (
+                  <MenuItem key={status} value={status} sx={{ textTransform: 'capitalize' }}>{status}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+        </Box>
+
+        {!workspaceId ? (
+          <Alert severity="info">Select a workspace to see its change requests.</Alert>
+        ) : (
+          <Paper>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Change</TableCell>
+                    <TableCell>Requested By</TableCell>
+                    <TableCell>Requested</TableCell>
+                    <TableCell>Approvals</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center" sx={{ py: 6 }}>
+                        <CircularProgress />
+                      </TableCell>
+                    </TableRow>
+                  ) : requests.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center" sx={{ py: 6 }}>
+                        <Typography variant="body2" color="text.secondary">
+                          {reviewInbox ? 'No changes are waiting for your review.' : 'No change requests found.'}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : requests.map(request => (
+                    <TableRow key={request.id} hover sx={{ cursor: 'pointer' }} onClick={() => setSelected(request)}>
+                      <TableCell>
+                        <Typography variant="subtitle2">{describeChangeRequest(request)}</Typography>
+                        {request.comment && (
+                          <Typography variant="body2" color="text.secondary" noWrap sx={{ maxWidth: 360 }}>
+                            {request.comment}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{request.requestedBy.email}</TableCell>
+                      <TableCell>{new Date(request.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{formatApprovalProgress(request)}</TableCell>
+                      <TableCell>
+                        <Chip label={request.status} size="small" color={getChangeStatusColor(request.status)} />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Button size="small">
+                          {canReviewChangeRequest(request, user?._id) && reviewInbox ? 'Review' : 'View'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <TablePagination
+              component="div"
+              count={total}
+              page={page}
+              rowsPerPage={rowsPerPage}
+              rowsPerPageOptions={[10, 25, 50]}
+              onPageChange={(_event, value) => setPage(value)}
+              onRowsPerPageChange={(e) => {
+                setRowsPerPage(parseInt(e.target.value, 10));
+                setPage(0);
+              }}
+            />
+          </Paper>
+        )}
+
+        <ChangeRequestDialog
+          request={selected}
+          canReview={reviewInbox && !!selected && canReviewChangeRequest(selected, user?._id)}
+          canCancel={!!selected && selected.status === 'pending' && (
+            selected.requestedBy.id === user?._id || user?.role === 'super_admin'
+          )}
+          submitting={submitting}
+          onClose={() => setSelected(null)}
+          onReview={handleReview}
+          onCancelRequest={handleCancelRequest}
+        />
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
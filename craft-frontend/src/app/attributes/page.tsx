@@ -742,7 +742,7 @@ export default function AttributesPage() {
   const inactiveCount = attributes.filter(attr => attr.active === false).length;
 
   // Check if user can create entities (requires workspace, application, and environment selection)
-  const canCreateEntity = currentWorkspace && currentApplication && currentEnvironment && canCreate(currentUser);
+  const canCreateEntity = currentWorkspace && currentApplication && currentEnvironment && canCreate(currentUser, currentWorkspace?._id);
 
   const handleSubmit = async () => {
     if (!displayName || displayNameError) return;
@@ -1031,7 +1031,7 @@ export default function AttributesPage() {
               >
                 {selectedAttributes.length} selected
               </Typography>
-              {canDelete(currentUser) && (
+              {canDelete(currentUser, currentWorkspace?._id) && (
                 <Tooltip title="Delete selected">
                   <IconButton color="error" onClick={handleBulkDeleteOpen}>
                     <BulkDeleteIcon />
@@ -1404,7 +1404,7 @@ export default function AttributesPage() {
                               >
                                 <ViewIcon fontSize="small" />
                               </IconButton>
-                              {canEdit(currentUser) && (
+                              {canEdit(currentUser, currentWorkspace?._id) && (
                                 <IconButton
                                   size="small"
                                   color="primary"
@@ -1416,7 +1416,7 @@ export default function AttributesPage() {
                                   <EditIcon fontSize="small" />
                                 </IconButton>
                               )}
-                              {canDelete(currentUser) && (
+                              {canDelete(currentUser, currentWorkspace?._id) && (
                                 <IconButton
                                   size="small"
                                   color="error"
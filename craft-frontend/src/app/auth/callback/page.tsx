@@ -1,16 +1,48 @@
 'use client';
 
-import React, { useEffect, Suspense } from 'react';
+import React, { useEffect, useRef, useState, Suspense } from 'react';
 import { useRouter } from 'next/navigation';
-import { Box, CircularProgress, Typography } from '@mui/material';
+import { Alert, Box, Button, CircularProgress, Typography } from '@mui/material';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Only paths of this app, never another origin
+const safeReturnTo = (value: string | null): string =>
+  value && value.startsWith('/') && !value.startsWith('//') ? value : '/dashboard';
 
 function AuthCallbackContent() {
   const router = useRouter();
+  const { loginWithTokens, isAuthenticated, isLoading } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [returnTo, setReturnTo] = useState<string | null>(null);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    // The backend passes the outcome in the fragment so tokens never reach server logs
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const token = params.get('token');
+    if (params.get('error') || !token) {
+      setError(params.get('error') || 'Single sign-on did not return a session');
+      return;
+    }
+
+    setReturnTo(safeReturnTo(params.get('returnTo')));
+    loginWithTokens(token, params.get('refreshToken') || undefined);
+  }, [loginWithTokens]);
 
   useEffect(() => {
-    // Redirect to login since Azure AD is no longer supported
-    router.replace('/login');
-  }, [router]);
+    if (!returnTo || isLoading) return;
+
+    if (isAuthenticated) {
+      router.replace(returnTo);
+    } else {
+      setError('Your session could not be verified. Please sign in again.');
+    }
+  }, [returnTo, isAuthenticated, isLoading, router]);
 
   return (
     <Box
@@ -23,10 +55,23 @@ function AuthCallbackContent() {
         gap: 3,
       }}
     >
-      <CircularProgress size={60} />
-      <Typography variant="h6" color="text.secondary">
-        Redirecting to login...
-      </Typography>
+      {error ? (
+        <>
+          <Alert severity="error" sx={{ maxWidth: 480 }}>
+            {error}
+          </Alert>
+          <Button variant="contained" onClick={() => router.replace('/login')}>
+            Back to Sign In
+          </Button>
+        </>
+      ) : (
+        <>
+          <CircularProgress size={60} />
+          <Typography variant="h6" color="text.secondary">
+            Completing sign in...
+          </Typography>
+        </>
+      )}
     </Box>
   );
 }
@@ -53,4 +98,4 @@ export default function AuthCallbackPage() {
       <AuthCallbackContent />
     </Suspense>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import { Emergency as BreakGlassIcon } from '@mui/icons-material';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import BreakGlassRequestDialog from '@/components/access/BreakGlassRequestDialog';
+import BreakGlassGrantDialog from '@/components/access/BreakGlassGrantDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { apiClient } from '@/lib/api';
+import { BreakGlassGrant, BreakGlassReviewOutcome } from '@/types';
+import { canReviewGrant, describeGrant, formatRemaining, getGrantStatus } from '@/utils/breakGlass';
+
+const TABS = [
+  { label: 'Active', params: { status: 'active' } },
+  { label: 'Needs Review', params: { needsReview: true } },
+  { label: 'All Grants', params: {} },
+];
+
+/**
+ * Emergency access grants of the current workspace: requesting, revoking and reviewing them
+ */
+export default function BreakGlassPage() {
+  const { user } = useAuth();
+  const { currentWorkspace, currentApplication, currentEnvironment } = useWorkspace();
+  const workspaceId = currentWorkspace?._id;
+  const scope = useMemo(() => (
+    currentWorkspace && currentApplication && currentEnvironment
+      ? { workspaceId: currentWorkspace._id, applicationId: currentApplication._id, environmentId: currentEnvironment._id }
+      : null
+  ), [currentWorkspace, currentApplication, currentEnvironment]);
+
+  const [tabValue, setTabValue] = useState(0);
+  const [grants, setGrants] = useState<BreakGlassGrant[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [requestOpen, setRequestOpen] = useState(false);
+  const [selected, setSelected] = useState<BreakGlassGrant | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchGrants = useCallback(async () => {
+    if (!workspaceId) return;
+
+    setLoading(true);
+    try {
+      const response = await apiClient.get<BreakGlassGrant[]>('/break-glass', {
+        workspaceId,
+        page: page + 1,
+        limit: rowsPerPage,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+        ...TABS[tabValue]?.params,
+      });
+      if (response.success) {
+        setGrants(response.data || []);
+        setTotal(response.pagination?.total || 0);
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to load break-glass grants');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId, page, rowsPerPage, tabValue]);
+
+  useEffect(() => {
+    fetchGrants();
+  }, [fetchGrants]);
+
+  const handleGranted = async (grant: BreakGlassGrant, grantedMessage?: string) => {
+    setRequestOpen(false);
+    setMessage(grantedMessage || `Break-glass access granted: ${describeGrant(grant)}`);
+    await fetchGrants();
+  };
+
+  const updateSelected = async (path: string, body: Record<string, any>, fallback: string) => {
+    if (!selected) return;
+
+    setSubmitting(true);
+    try {
+      const response = await apiClient.post<BreakGlassGrant>(`/break-glass/${selected.id}/${path}`, body);
+      if (response.success) {
+        setMessage(response.message || null);
+        setSelected(null);
+        await fetchGrants();
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || fallback);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReview = (outcome: BreakGlassReviewOutcome, comment: string) =>
+    updateSelected('review', { outcome, ...(comment.trim() && { comment: comment.trim() }) }, 'Failed to review grant');
+
+  const isAdmin = user?.role === 'admin' || user?.role === 'super_admin';
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <Paper elevation={1} sx={{ p: 3, mb: 4 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              <BreakGlassIcon sx={{ mr: 2, color: 'error.main' }} />
+              <Typography variant="h4" component="h1">
+                Break-Glass Access
+              </Typography>
+            </Box>
+            <Button variant="contained" color="error" onClick={() => setRequestOpen(true)} disabled={!scope}>
+              Request Access
+            </Button>
+          </Box>
+          <Typography variant="body1" color="text.secondary">
+            Short-lived emergency access in {currentWorkspace?.displayName || 'this workspace'}. Grants expire
+            automatically and are reviewed by the workspace admins once they have ended.
+          </Typography>
+        </Paper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {message}
+          </Alert>
+        )}
+
+        <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+          <Tabs value={tabValue} onChange={(_event, value) => { setTabValue(value); setPage(0); }}>
+            {TABS.map(tab => <Tab key={tab.label} label={tab.label} />)}
+          </Tabs>
+        </Box>
+
+        {!workspaceId ? (
+          <Alert severity="info">Select a workspace to see its break-glass grants.</Alert>
+        ) : (
+          <Paper>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Access</TableCell>
+                    <TableCell>Requested By</TableCell>
+                    <TableCell>Requested</TableCell>
+                    <TableCell>Expiry</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right" />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center" sx={{ py: 6 }}>
+                        <CircularProgress />
+                      </TableCell>
+                    </TableRow>
+                  ) : grants.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center" sx={{ py: 6 }}>
+                        <Typography variant="body2" color="text.secondary">
+                          No break-glass grants found.
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : grants.map(grant => {
+                    const status = getGrantStatus(grant);
+                    return (
+                      <TableRow key={grant.id} hover sx={{ cursor: 'pointer' }} onClick={() => setSelected(grant)}>
+                        <TableCell>
+                          <Typography variant="subtitle2">{describeGrant(grant)}</Typography>
+                          <Typography variant="body2" color="text.secondary" noWrap sx={{ maxWidth: 360 }}>
+                            {grant.justification}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>{grant.requestedBy.email}</TableCell>
+                        <TableCell>{new Date(grant.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>
+                          {grant.status === 'active' ? formatRemaining(grant) : new Date(grant.endedAt || grant.expiresAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <Chip label={status.label} size="small" color={status.color} />
+                        </TableCell>
+                        <TableCell align="right">
+                          <Button size="small">{canReviewGrant(grant, user) ? 'Review' : 'View'}</Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <TablePagination
+              component="div"
+              count={total}
+              page={page}
+              rowsPerPage={rowsPerPage}
+              rowsPerPageOptions={[10, 25, 50]}
+              onPageChange={(_event, value) => setPage(value)}
+              onRowsPerPageChange={(e) => {
+                setRowsPerPage(parseInt(e.target.value, 10));
+                setPage(0);
+              }}
+            />
+          </Paper>
+        )}
+
+        <BreakGlassRequestDialog
+          open={requestOpen}
+          scope={scope}
+          onClose={() => setRequestOpen(false)}
+          onGranted={handleGranted}
+        />
+        <BreakGlassGrantDialog
+          grant={selected}
+          canRevoke={!!selected && selected.status === 'active' && (isAdmin || selected.requestedBy.id === user?._id)}
+          canReview={!!selected && canReviewGrant(selected, user)}
+          submitting={submitting}
+          onClose={() => setSelected(null)}
+          onRevoke={() => updateSelected('revoke', {}, 'Failed to revoke grant')}
+          onReview={handleReview}
+        />
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -39,6 +39,8 @@ import {
   Layers as LayersIcon,
   AccountTree as HierarchyIcon,
   Extension as AdditionalIcon,
+  EventAvailable as ActivateIcon,
+  EventBusy as ExpireIcon,
 } from '@mui/icons-material';
 import { useAuth } from '@/contexts/AuthContext';
 import { useWorkspace } from '@/contexts/WorkspaceContext';
@@ -47,6 +49,8 @@ import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import PolicyCreationGuide from '@/components/dashboard/PolicyCreationGuide';
 import { apiClient } from '@/lib/api';
 import { useApiSnackbar } from '@/contexts/SnackbarContext';
+import { ScheduledTransition } from '@/types';
+import { describeTransition } from '@/utils/policySchedule';
 
 interface DashboardStats {
   policies: {
@@ -90,6 +94,7 @@ export default function DashboardPage() {
   });
   const [loading, setLoading] = useState(true);
   const [recentActivities, setRecentActivities] = useState<RecentActivity[]>([]);
+  const [upcomingTransitions, setUpcomingTransitions] = useState<ScheduledTransition[]>([]);
 
   const loadDashboardData = async () => {
     try {
@@ -165,8 +170,24 @@ export default function DashboardPage() {
     }
   };
 
+  // Loaded on its own so that the statistics do not depend on the scheduler
+  const loadUpcomingTransitions = async () => {
+    try {
+      const response = await apiClient.get<ScheduledTransition[]>('/policies/schedule', {
+        days: 30,
+        limit: 5,
+        ...(currentWorkspace && { workspaceId: currentWorkspace._id }),
+      });
+      setUpcomingTransitions(response.success && response.data ? response.data : []);
+    } catch (error) {
+      console.error('Failed to load scheduled policy transitions:', error);
+      setUpcomingTransitions([]);
+    }
+  };
+
   useEffect(() => {
     loadDashboardData();
+    loadUpcomingTransitions();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentWorkspace, currentApplication]);
 
@@ -648,6 +669,46 @@ export default function DashboardPage() {
             </Card>
           </Box>
 
+          {/* Upcoming Transitions */}
+          <Box sx={{ flex: { xs: '1 1 100%', md: '1 1 calc(50% - 12px)' }, minWidth: 0 }}>
+            <Card sx={{ height: '100%' }}>
+              <CardContent>
+                <Typography variant="h6" fontWeight="600" gutterBottom>
+                  Upcoming Transitions
+                </Typography>
+                <Divider sx={{ mb: 2 }} />
+                {upcomingTransitions.length === 0 ? (
+                  <Alert severity="info">No policy activations or expiries scheduled in the next 30 days</Alert>
+                ) : (
+                  <Box sx={{ '& > *': { py: 2, borderBottom: '1px solid', borderColor: 'divider', '&:last-child': { borderBottom: 'none' } } }}>
+                    {upcomingTransitions.map((transition) => (
+                      <Box
+                        key={`${transition.policyId}-${transition.kind}`}
+                        sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, cursor: 'pointer' }}
+                        onClick={() => router.push(`/policies/${transition.policyId}`)}
+                      >
+                        <Avatar sx={{ bgcolor: transition.kind === 'activate' ? 'success.light' : 'warning.light', width: 36, height: 36 }}>
+                          {transition.kind === 'activate' ? <ActivateIcon fontSize="small" /> : <ExpireIcon fontSize="small" />}
+                        </Avatar>
+                        <Box sx={{ flex: 1 }}>
+                          <Typography variant="body2" fontWeight="500">
+                            {transition.policyName}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {describeTransition(transition)}
+                          </Typography>
+                        </Box>
+                        <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                          {new Date(transition.at).toLocaleString()}
+                        </Typography>
+                      </Box>
+                    ))}
+                  </Box>
+                )}
+              </CardContent>
+            </Card>
+          </Box>
+
           {/* Feature Highlights */}
           <Box sx={{ flex: { xs: '1 1 100%', md: '1 1 calc(50% - 12px)' }, minWidth: 0 }}>
             <Card sx={{ height: '100%' }}>
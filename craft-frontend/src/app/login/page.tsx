@@ -14,14 +14,16 @@ import {
   CircularProgress,
   Divider,
 } from '@mui/material';
-import { Login as LoginIcon } from '@mui/icons-material';
+import { Login as LoginIcon, VpnKey as SsoIcon } from '@mui/icons-material';
 import { useAuth } from '@/contexts/AuthContext';
 import { useApiSnackbar } from '@/contexts/SnackbarContext';
+import { apiClient } from '@/lib/api';
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isRedirecting, setIsRedirecting] = useState(false);
   const [mounted, setMounted] = useState(false);
   const { login, isAuthenticated, isLoading, clearError } = useAuth();
   const snackbar = useApiSnackbar();
@@ -66,6 +68,27 @@ export default function LoginPage() {
     }
   };
 
+  // Single sign-on: the email domain decides which workspace's identity provider to use
+  const handleSsoLogin = async () => {
+    if (!email) {
+      snackbar.showWarning('Please enter your work email to sign in with SSO');
+      return;
+    }
+
+    setIsRedirecting(true);
+
+    try {
+      const response = await apiClient.discoverSso(email);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Single sign-on is not available');
+      }
+      window.location.assign(apiClient.getSsoLoginUrl(response.data.workspace));
+    } catch (error: any) {
+      const errorMessage = error?.error || error?.message || 'Single sign-on is not configured for this email domain';
+      snackbar.showError(errorMessage);
+      setIsRedirecting(false);
+    }
+  };
 
   // Show loading while checking auth or during redirect
   if (!mounted || isLoading || (mounted && isAuthenticated)) {
@@ -157,6 +180,17 @@ export default function LoginPage() {
               {isSubmitting ? 'Signing In...' : 'Sign In'}
             </Button>
 
+            <Button
+              onClick={handleSsoLogin}
+              fullWidth
+              variant="outlined"
+              sx={{ py: 1.5 }}
+              disabled={isSubmitting || isRedirecting || !email}
+              startIcon={isRedirecting ? <CircularProgress size={20} /> : <SsoIcon />}
+            >
+              {isRedirecting ? 'Redirecting...' : 'Sign In with SSO'}
+            </Button>
+
             <Divider sx={{ my: 3 }} />
 
             <Box sx={{ textAlign: 'center' }}>
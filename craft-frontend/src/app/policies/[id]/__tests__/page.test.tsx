@@ -17,6 +17,10 @@ jest.mock('@/lib/api', () => ({
   },
 }));
 
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: { _id: 'user-1', role: 'admin' } }),
+}));
+
 jest.mock('@/components/layout/DashboardLayout', () => {
   return function MockDashboardLayout({ children }: { children: React.ReactNode }) {
     return <div data-testid="dashboard-layout">{children}</div>;
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Typography,
   Box,
@@ -40,6 +40,8 @@ import {
   ListItem,
   ListItemIcon,
   ListItemText,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   Security as SecurityIcon,
@@ -57,6 +59,8 @@ import {
   Delete as DeleteIcon,
   Settings as AttributeIcon,
   CheckCircle as CheckCircleIcon,
+  Code as CodeIcon,
+  ViewList as WizardIcon,
 } from '@mui/icons-material';
 import { useRouter, useParams } from 'next/navigation';
 import DashboardLayout from '@/components/layout/DashboardLayout';
@@ -69,6 +73,12 @@ import SubjectCreationDialog from '@/components/subjects/SubjectCreationDialog';
 import ActionCreationDialog from '@/components/actions/ActionCreationDialog';
 import ResourceCreationDialog from '@/components/resources/ResourceCreationDialog';
 import AdditionalResourceCreationDialog from '@/components/resources/AdditionalResourceCreationDialog';
+import RegressionCheckDialog from '@/components/policies/RegressionCheckDialog';
+import ImpactSimulationDialog from '@/components/policies/ImpactSimulationDialog';
+import { ImpactSimulation, PolicyRegressionCheck } from '@/types';
+import PolicyDslEditor from '@/components/policies/PolicyDslEditor';
+import { fromDateTimeLocalValue, getScheduleError, toDateTimeLocalValue } from '@/utils/policySchedule';
+import { formatPolicyDsl, parsePolicyDsl, toPolicyFields } from '@/utils/policyDsl';
 
 interface Policy {
   _id: string;
@@ -77,6 +87,8 @@ interface Policy {
   description?: string;
   effect: 'Allow' | 'Deny';
   status: 'Active' | 'Inactive' | 'Draft';
+  activateAt?: string | null;
+  expireAt?: string | null;
   rules: PolicyRule[];
   subjects: string[];
   resources: string[];
@@ -371,6 +383,12 @@ export default function EditPolicyPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [approvalMessage, setApprovalMessage] = useState<string | null>(null);
+  const [regressionCheck, setRegressionCheck] = useState<PolicyRegressionCheck | null>(null);
+  const [pendingPolicyData, setPendingPolicyData] = useState<any>(null);
+  const [impactPolicyData, setImpactPolicyData] = useState<any>(null);
+  const [impactSimulation, setImpactSimulation] = useState<ImpactSimulation | null>(null);
+  const [impactError, setImpactError] = useState<string | null>(null);
   const [isCurrentStepValid, setIsCurrentStepValid] = useState(false);
   const [loading, setLoading] = useState(true);
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
@@ -420,8 +438,14 @@ export default function EditPolicyPage() {
   const [displayName, setDisplayName] = useState('');
   const [displayNameError, setDisplayNameError] = useState('');
   const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState(0);
+  const [activateAt, setActivateAt] = useState('');
+  const [expireAt, setExpireAt] = useState('');
+  const scheduleError = getScheduleError(activateAt, expireAt);
   const [effect, setEffect] = useState<'Allow' | 'Deny'>('Allow');
   const [status, setStatus] = useState<'Active' | 'Inactive' | 'Draft'>('Draft');
+  const [editorMode, setEditorMode] = useState<'wizard' | 'text'>('wizard');
+  const [policyText, setPolicyText] = useState('');
 
   // Selection data
   const [selectedSubject, setSelectedSubject] = useState<string>('');
@@ -475,8 +499,18 @@ export default function EditPolicyPage() {
           // Populate form fields
           setDisplayName(policy.name);
           setDescription(policy.description || '');
+          setPriority(policy.priority ?? 0);
+          setActivateAt(toDateTimeLocalValue(policy.activateAt));
+          setExpireAt(toDateTimeLocalValue(policy.expireAt));
           setEffect(policy.effect);
           setStatus(policy.status);
+          setPolicyText(formatPolicyDsl({
+            effect: policy.effect,
+            rules: policy.rules || [],
+            additionalResources: (policy.additionalResources || []).map((resource: any) =>
+              typeof resource === 'string' ? { id: resource, attributes: [] } : resource
+            ),
+          }));
 
           // Populate selections (simplified - taking first rule's data)
           if (policy.rules.length > 0) {
@@ -765,12 +799,16 @@ export default function EditPolicyPage() {
     fetchDropdownData();
   }, [fetchDropdownData]); // Include fetchDropdownData dependency
 
+  const policyTextResult = useMemo(() => parsePolicyDsl(policyText, {
+    actionDisplayNames: Object.fromEntries(actions.map(action => [action.id, action.displayName])),
+  }), [policyText, actions]);
+
   // Form validation
   const isStepValid = useCallback((step: number) => {
     switch (step) {
       case 0:
         const isValid = displayName.trim() !== '' && displayName.length >= 3 && displayName.length <= 100;
-        return isValid;
+        return isValid && !scheduleError;
       case 1:
         return selectedSubject !== '';
       case 2:
@@ -784,7 +822,7 @@ export default function EditPolicyPage() {
       default:
         return false;
     }
-  }, [displayName, selectedSubject, selectedActions, selectedResources]);
+  }, [displayName, scheduleError, selectedSubject, selectedActions, selectedResources]);
 
   // Validation for display name
   useEffect(() => {
@@ -1785,6 +1823,9 @@ export default function EditPolicyPage() {
       const policyData = {
         name: displayName.trim(),
         description: description?.trim() || '',
+        priority,
+        activateAt: fromDateTimeLocalValue(activateAt),
+        expireAt: fromDateTimeLocalValue(expireAt),
         effect: effect,
         status: publishStatus || status,
         rules,
@@ -1845,16 +1886,107 @@ export default function EditPolicyPage() {
         conditions: []
       };
 
-      const response = await apiClient.put(`/policies/${originalPolicy.id}`, policyData);
+      await simulateImpact(policyData);
+    } catch (error: any) {
+      console.error('Failed to update policy:', error);
+      setError('Failed to update policy. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Submit the policy as written in the policy language, through the same impact simulation
+  const handleSubmitText = async (publishStatus: 'Draft' | 'Active') => {
+    if (!originalPolicy || !isStepValid(0) || !policyTextResult.document) {
+      setError('Please complete the basic information and fix the policy text');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await simulateImpact({
+        name: displayName.trim(),
+        description: description?.trim() || '',
+        priority,
+        activateAt: fromDateTimeLocalValue(activateAt),
+        expireAt: fromDateTimeLocalValue(expireAt),
+        status: publishStatus,
+        ...toPolicyFields(policyTextResult.document),
+        conditions: []
+      });
+    } catch (error: any) {
+      console.error('Failed to update policy:', error);
+      setError('Failed to update policy. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Shows the access grants the edit would add or remove before it is saved. A failed
+  // simulation is reported in the same dialog, so the user can still decide to save.
+  const simulateImpact = async (policyData: any) => {
+    setImpactSimulation(null);
+    setImpactError(null);
+    try {
+      const response = await apiClient.post<ImpactSimulation>(`/policies/${originalPolicy!.id}/impact`, { updates: policyData });
+      if (response.success && response.data) {
+        setImpactSimulation(response.data);
+      }
+    } catch (error: any) {
+      setImpactError(error?.error || error?.message || 'Simulation failed');
+    }
+    setImpactPolicyData(policyData);
+  };
+
+  const handleConfirmImpact = async () => {
+    setIsSubmitting(true);
+    try {
+      const policyData = impactPolicyData;
+      setImpactPolicyData(null);
+      await savePolicy(policyData, true);
+    } catch (error: any) {
+      console.error('Failed to update policy:', error);
+      setError('Failed to update policy. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Saves the policy. Blocked saves return the stored test cases the change would flip,
+  // which are shown for review before saving anyway.
+  const savePolicy = async (policyData: any, blockOnRegression: boolean) => {
+    try {
+      const response = await apiClient.put(`/policies/${originalPolicy!.id}`, { ...policyData, blockOnRegression });
 
       if (response.success) {
+        setRegressionCheck(null);
+        setPendingPolicyData(null);
+        // Protected environments hold the change until its approvers sign off
+        if (response.pendingApproval) {
+          setApprovalMessage(response.message || 'Change submitted for approval');
+        }
         setSuccess(true);
         setTimeout(() => {
-          router.push(`/policies/${originalPolicy.id}`);
+          router.push(`/policies/${originalPolicy!.id}`);
         }, 2000);
       }
+    } catch (error: any) {
+      if (error?.code === 'CONFLICT' && error.details?.changes) {
+        setRegressionCheck(error.details);
+        setPendingPolicyData(policyData);
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const handleSaveAnyway = async () => {
+    setIsSubmitting(true);
+    try {
+      await savePolicy(pendingPolicyData, false);
     } catch (error: any) {
       console.error('Failed to update policy:', error);
+      setRegressionCheck(null);
       setError('Failed to update policy. Please try again.');
     } finally {
       setIsSubmitting(false);
@@ -1917,6 +2049,40 @@ export default function EditPolicyPage() {
                   }}
                 />
               </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label="Priority"
+                  value={priority}
+                  onChange={(e) => setPriority(parseInt(e.target.value, 10) || 0)}
+                  inputProps={{ step: 1 }}
+                  helperText="Lower numbers are evaluated first (used by first-applicable)"
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <TextField
+                  fullWidth
+                  type="datetime-local"
+                  label="Activate At"
+                  value={activateAt}
+                  onChange={(e) => setActivateAt(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                  helperText="Optional: becomes Active at this time"
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <TextField
+                  fullWidth
+                  type="datetime-local"
+                  label="Expire At"
+                  value={expireAt}
+                  onChange={(e) => setExpireAt(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                  error={!!scheduleError}
+                  helperText={scheduleError || 'Optional: becomes Inactive at this time'}
+                />
+              </Grid>
             </Grid>
           </Card>
         );
@@ -4350,8 +4516,10 @@ export default function EditPolicyPage() {
               )}
 
               {success && (
-                <Alert severity="success" sx={{ mt: 2 }}>
-                  Policy updated successfully! Redirecting to policy view...
+                <Alert severity={approvalMessage ? 'info' : 'success'} sx={{ mt: 2 }}>
+                  {approvalMessage
+                    ? `${approvalMessage}. The policy changes once approved. Redirecting to policy view...`
+                    : 'Policy updated successfully! Redirecting to policy view...'}
                 </Alert>
               )}
             </Box>
@@ -4400,7 +4568,7 @@ export default function EditPolicyPage() {
 
   return (
     <ProtectedRoute>
-      <RoleProtection allowedRoles={['admin', 'super_admin']}>
+      <RoleProtection workspaceRole="member">
         <DashboardLayout>
           {/* Header */}
           <Paper elevation={0} sx={{ p: 3, mb: 3, border: '1px solid', borderColor: 'grey.200' }}>
@@ -4445,9 +4613,66 @@ export default function EditPolicyPage() {
                   </Typography>
                 </Box>
               </Box>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={editorMode}
+                onChange={(_event, mode) => mode && setEditorMode(mode)}
+              >
+                <ToggleButton value="wizard"><WizardIcon fontSize="small" sx={{ mr: 1 }} />Wizard</ToggleButton>
+                <ToggleButton value="text"><CodeIcon fontSize="small" sx={{ mr: 1 }} />Text</ToggleButton>
+              </ToggleButtonGroup>
             </Box>
           </Paper>
 
+          {editorMode === 'text' ? (
+            <>
+              <Box sx={{ mb: 3 }}>
+                {renderStepContent(0)}
+              </Box>
+              <Card sx={{ p: 4, mb: 3 }}>
+                <Typography variant="h5" fontWeight="600" gutterBottom>
+                  Policy Rules
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                  Edit the policy's rules in the policy language. Subjects, actions and resources are referenced by ID.
+                  Changes made here replace the rules selected in the wizard.
+                </Typography>
+                <PolicyDslEditor
+                  value={policyText}
+                  onChange={setPolicyText}
+                  error={policyTextResult.error}
+                  ruleCount={policyTextResult.document?.rules.length || 0}
+                  disabled={isSubmitting}
+                />
+              </Card>
+              <Paper sx={{ p: 3 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+                  <Button variant="outlined" onClick={handleCancelClick}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    onClick={() => handleSubmitText('Draft')}
+                    disabled={isSubmitting || !isStepValid(0) || !policyTextResult.document}
+                    startIcon={isSubmitting ? <CircularProgress size={20} /> : null}
+                  >
+                    {isSubmitting ? 'Saving Draft...' : 'Save as Draft'}
+                  </Button>
+                  <Button
+                    variant="contained"
+                    onClick={() => handleSubmitText('Active')}
+                    disabled={isSubmitting || !isStepValid(0) || !policyTextResult.document}
+                    startIcon={isSubmitting ? <CircularProgress size={20} /> : <CheckIcon />}
+                  >
+                    {isSubmitting ? 'Publishing...' : 'Publish Policy'}
+                  </Button>
+                </Box>
+              </Paper>
+            </>
+          ) : (
+          <>
+
           {/* Stepper */}
           <Paper sx={{ p: 3, mb: 3 }}>
             <Stepper activeStep={activeStep} alternativeLabel>
@@ -4537,6 +4762,25 @@ export default function EditPolicyPage() {
               </Box>
             </Box>
           </Paper>
+          </>
+          )}
+
+          <ImpactSimulationDialog
+            open={!!impactPolicyData}
+            simulation={impactSimulation}
+            error={impactError}
+            saving={isSubmitting}
+            onCancel={() => setImpactPolicyData(null)}
+            onSave={handleConfirmImpact}
+          />
+
+          <RegressionCheckDialog
+            open={!!regressionCheck}
+            check={regressionCheck}
+            saving={isSubmitting}
+            onCancel={() => setRegressionCheck(null)}
+            onSaveAnyway={handleSaveAnyway}
+          />
 
           {/* Cancel Confirmation Dialog */}
           <Dialog open={cancelDialogOpen} onClose={handleCancelCancel} maxWidth="sm" fullWidth>
@@ -30,6 +30,8 @@ import {
   DialogContent,
   DialogActions,
   Tooltip,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import {
   ArrowBack as ArrowBackIcon,
@@ -52,6 +54,9 @@ import { useRouter, useParams } from 'next/navigation';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { apiClient } from '@/lib/api';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import PolicyHistoryPanel from '@/components/policies/PolicyHistoryPanel';
+import { useAuth } from '@/contexts/AuthContext';
+import { canManage } from '@/utils/permissions';
 
 interface AdditionalResourceWithAttributes {
   id: string;
@@ -65,6 +70,7 @@ interface Policy {
   description?: string;
   effect: 'Allow' | 'Deny';
   status: 'Active' | 'Inactive' | 'Draft';
+  workspaceId?: string;
   rules: PolicyRule[];
   subjects: string[];
   resources: string[];
@@ -223,8 +229,10 @@ export default function PolicyViewPage() {
   const router = useRouter();
   const params = useParams();
   const policyId = params.id as string;
+  const { user } = useAuth();
 
   const [policy, setPolicy] = useState<Policy | null>(null);
+  const [tabValue, setTabValue] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -305,6 +313,17 @@ export default function PolicyViewPage() {
     fetchPolicy();
   }, [policyId]);
 
+  // Reloads the policy after a rollback without leaving the history tab
+  const handleRolledBack = async () => {
+    const response = await apiClient.get(`/policies/${policyId}`);
+    if (response.success && response.data) {
+      setPolicy({
+        ...response.data,
+        additionalResources: response.data.additionalResources || []
+      });
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Active': return 'success';
@@ -927,6 +946,7 @@ export default function PolicyViewPage() {
                 </Box>
                 <Typography variant="body2" color="text.secondary">
                   {policy.description || 'No description provided'}
+                  {policy.metadata?.version && ` · Version ${policy.metadata.version}`}
                 </Typography>
               </Box>
             </Box>
@@ -958,6 +978,26 @@ export default function PolicyViewPage() {
         </Box>
       </Paper>
 
+        <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 1 }}>
+          <Tabs value={tabValue} onChange={(_, value) => setTabValue(value)}>
+            <Tab label="Overview" />
+            <Tab label="History" />
+          </Tabs>
+        </Box>
+
+        {tabValue === 1 && (
+          <Card sx={{ mt: 3, p: 3, borderRadius: 2, boxShadow: '0 2px 8px rgba(0,0,0,0.08)' }}>
+            <PolicyHistoryPanel
+              policyId={policy.id}
+              currentVersion={policy.metadata?.version}
+              canRollback={canManage(user, policy.workspaceId)}
+              onRolledBack={handleRolledBack}
+            />
+          </Card>
+        )}
+
+        {tabValue === 0 && (
+        <>
         {/* Human-Readable Policy Statement */}
         {renderHumanReadablePolicy()}
 
@@ -1421,6 +1461,8 @@ export default function PolicyViewPage() {
             </Grid>
           </Box>
         </Card>
+        </>
+        )}
 
         {/* REGO Code Dialog */}
         <Dialog
@@ -0,0 +1,242 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  InputAdornment,
+  OutlinedInput,
+  Paper,
+  Switch,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Refresh as RefreshIcon,
+  Rule as AnalysisIcon,
+  Search as SearchIcon,
+} from '@mui/icons-material';
+import { useRouter } from 'next/navigation';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { apiClient } from '@/lib/api';
+import { AnalysisFindingType, PolicyAnalysisResult } from '@/types';
+import { getCombiningAlgorithmLabel } from '@/utils/combiningAlgorithms';
+import { describeReference, filterFindings, getFindingLabel, getFindingTypeLabel } from '@/utils/policyAnalysis';
+
+const FINDING_TYPES: AnalysisFindingType[] = ['contradiction', 'redundancy', 'unreachable'];
+
+/**
+ * Contradicting, redundant and unreachable rules among the current environment's policies
+ */
+export default function PolicyAnalysisPage() {
+  const router = useRouter();
+  const { currentWorkspace, currentApplication, currentEnvironment } = useWorkspace();
+
+  const [analysis, setAnalysis] = useState<PolicyAnalysisResult | null>(null);
+  const [includeDrafts, setIncludeDrafts] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<AnalysisFindingType | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalysis = useCallback(async () => {
+    if (!currentWorkspace || !currentApplication || !currentEnvironment) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await apiClient.get<PolicyAnalysisResult>('/policies/analysis', {
+        workspaceId: currentWorkspace._id,
+        applicationId: currentApplication._id,
+        environmentId: currentEnvironment._id,
+        includeDrafts,
+      });
+      if (response.success && response.data) {
+        setAnalysis(response.data);
+      }
+    } catch (err: any) {
+      setAnalysis(null);
+      setError(err?.error || err?.message || 'Failed to analyze policies');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentWorkspace, currentApplication, currentEnvironment, includeDrafts]);
+
+  useEffect(() => {
+    fetchAnalysis();
+  }, [fetchAnalysis]);
+
+  const findings = useMemo(
+    () => filterFindings(analysis?.findings || [], typeFilter, search),
+    [analysis, typeFilter, search]
+  );
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <Paper elevation={1} sx={{ p: 3, mb: 4 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              <AnalysisIcon sx={{ mr: 2, color: 'primary.main' }} />
+              <Typography variant="h4" component="h1">
+                Policy Analysis
+              </Typography>
+            </Box>
+            <Button variant="outlined" startIcon={<ArrowBackIcon />} onClick={() => router.push('/policies')}>
+              Back to Policies
+            </Button>
+          </Box>
+          <Typography variant="body1" color="text.secondary">
+            Rules of {currentEnvironment?.displayName || 'the current environment'} compared for opposite effects on
+            overlapping requests, redundant rules, and references to deleted or inactive entities.
+          </Typography>
+        </Paper>
+
+        {!currentEnvironment ? (
+          <Alert severity="info">Select an environment to analyze its policies.</Alert>
+        ) : (
+          <>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <Paper sx={{ p: 2, mb: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                {analysis && (
+                  <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+                    {analysis.analyzedRules} rules in {analysis.analyzedPolicies} policies,
+                    combined with {getCombiningAlgorithmLabel(analysis.combiningAlgorithm)}.
+                    Analyzed {new Date(analysis.analyzedAt).toLocaleString()}.
+                  </Typography>
+                )}
+                <FormControlLabel
+                  control={<Switch checked={includeDrafts} onChange={(e) => setIncludeDrafts(e.target.checked)} />}
+                  label="Include drafts"
+                />
+                <Button
+                  variant="outlined"
+                  startIcon={loading ? <CircularProgress size={16} color="inherit" /> : <RefreshIcon />}
+                  onClick={fetchAnalysis}
+                  disabled={loading}
+                >
+                  Re-run
+                </Button>
+              </Box>
+            </Paper>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', borderBottom: 1, borderColor: 'divider', mb: 2, gap: 2 }}>
+              <Tabs value={typeFilter} onChange={(_event, value) => setTypeFilter(value)} sx={{ flexGrow: 1 }}>
+                <Tab value="all" label={`All (${analysis?.findings.length || 0})`} />
+                {FINDING_TYPES.map(type => (
+                  <Tab key={type} value={type} label={`${getFindingTypeLabel(type)} (${analysis?.summary[type] || 0})`} />
+                ))}
+              </Tabs>
+              <OutlinedInput
+                size="small"
+                placeholder="Search policies..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                startAdornment={
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                }
+                sx={{ minWidth: 260, mb: 1 }}
+              />
+            </Box>
+
+            <Paper>
+              <TableContainer>
+                <Table>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Finding</TableCell>
+                      <TableCell>Details</TableCell>
+                      <TableCell>Policies</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow>
+                        <TableCell colSpan={3} align="center" sx={{ py: 6 }}>
+                          <CircularProgress />
+                        </TableCell>
+                      </TableRow>
+                    ) : findings.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={3} align="center" sx={{ py: 6 }}>
+                          <Typography variant="body2" color="text.secondary">
+                            {analysis && analysis.findings.length === 0
+                              ? 'No contradictions, redundant rules or unreachable policies found.'
+                              : 'No findings match the current filters.'}
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ) : findings.map((finding, index) => (
+                      <TableRow key={`${finding.type}-${finding.policyIds.join('-')}-${index}`}>
+                        <TableCell sx={{ whiteSpace: 'nowrap', verticalAlign: 'top' }}>
+                          <Chip label={getFindingLabel(finding)} size="small" color={finding.severity} />
+                          {finding.winner && (
+                            <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
+                              {finding.winner} wins
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell sx={{ verticalAlign: 'top' }}>
+                          <Typography variant="body2">{finding.message}</Typography>
+                          {(finding.references || []).map(reference => (
+                            <Typography
+                              key={`${reference.kind}-${reference.ref}-${reference.ruleId || ''}`}
+                              variant="caption"
+                              display="block"
+                              color="text.secondary"
+                            >
+                              {describeReference(reference)}
+                            </Typography>
+                          ))}
+                        </TableCell>
+                        <TableCell sx={{ verticalAlign: 'top' }}>
+                          <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                            {finding.policyIds.map(policyId => {
+                              const rule = finding.rules.find(item => item.policyId === policyId);
+                              return (
+                                <Chip
+                                  key={policyId}
+                                  label={rule ? `${rule.policyName} (${rule.effect})` : policyId}
+                                  size="small"
+                                  variant="outlined"
+                                  color={rule?.effect === 'Deny' ? 'error' : rule ? 'success' : 'default'}
+                                  onClick={() => router.push(`/policies/${policyId}`)}
+                                />
+                              );
+                            })}
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          </>
+        )}
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 // Professional modal design uniformity - matching Attributes page
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Typography,
   Box,
@@ -38,6 +38,8 @@ import {
   DialogActions,
   Checkbox,
   ListItemText,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   Security as SecurityIcon,
@@ -53,6 +55,8 @@ import {
   Check as CheckIcon,
   Delete as DeleteIcon,
   Settings as AttributeIcon,
+  Code as CodeIcon,
+  ViewList as WizardIcon,
 } from '@mui/icons-material';
 import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/DashboardLayout';
@@ -65,6 +69,9 @@ import ResourceCreationDialog from '@/components/resources/ResourceCreationDialo
 import AdditionalResourceCreationDialog from '@/components/resources/AdditionalResourceCreationDialog';
 import RoleProtection from '@/components/auth/RoleProtection';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import PolicyDslEditor from '@/components/policies/PolicyDslEditor';
+import { fromDateTimeLocalValue, getScheduleError } from '@/utils/policySchedule';
+import { formatPolicyDsl, parsePolicyDsl, toPolicyFields } from '@/utils/policyDsl';
 
 interface Subject {
   _id: string;
@@ -307,11 +314,17 @@ export default function CreatePolicyPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isCurrentStepValid, setIsCurrentStepValid] = useState(false);
   const [isAdvancedMode, setIsAdvancedMode] = useState(false);
+  const [editorMode, setEditorMode] = useState<'wizard' | 'text'>('wizard');
+  const [policyText, setPolicyText] = useState('');
 
   // Form data
   const [displayName, setDisplayName] = useState('');
   const [displayNameError, setDisplayNameError] = useState('');
   const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState(0);
+  const [activateAt, setActivateAt] = useState('');
+  const [expireAt, setExpireAt] = useState('');
+  const scheduleError = getScheduleError(activateAt, expireAt);
 
   // Selection data
   const [selectedSubjects, setSelectedSubjects] = useState<string[]>([]);
@@ -477,7 +490,7 @@ export default function CreatePolicyPage() {
     switch (step) {
       case 0:
         const isValid = displayName.trim() !== '' && displayName.length >= 3 && displayName.length <= 100;
-        return isValid;
+        return isValid && !scheduleError;
       case 1:
         return selectedSubjects.length > 0;
       case 2:
@@ -487,7 +500,11 @@ export default function CreatePolicyPage() {
       default:
         return true;
     }
-  }, [displayName, selectedSubjects, selectedActions, selectedResources]);
+  }, [displayName, scheduleError, selectedSubjects, selectedActions, selectedResources]);
+
+  const policyTextResult = useMemo(() => parsePolicyDsl(policyText, {
+    actionDisplayNames: Object.fromEntries(actions.map(action => [action.id, action.displayName])),
+  }), [policyText, actions]);
 
   // Validation for display name
   useEffect(() => {
@@ -1322,6 +1339,31 @@ export default function CreatePolicyPage() {
     }
   };
 
+  // Creates the policy; protected environments hold it until its approvers sign off
+  const createPolicy = async (policyData: Record<string, any>, status: 'Draft' | 'Active') => {
+    const response = await apiClient.post('/policies', policyData);
+
+    if (response.success && response.pendingApproval) {
+      snackbar.showInfo(`${response.message || 'Policy submitted for approval'}. It is created once approved.`);
+
+      setTimeout(() => {
+        router.push('/policies');
+      }, 1500);
+    } else if (response.success) {
+      const message = status === 'Active'
+        ? 'Policy created and published successfully! It is now active and enforced.'
+        : 'Policy created successfully as draft! You can publish it later from the policies list.';
+
+      snackbar.showSuccess(message);
+
+      setTimeout(() => {
+        router.push('/policies');
+      }, 1500);
+    } else {
+      snackbar.handleApiResponse(response, undefined, 'Failed to create policy');
+    }
+  };
+
   // Submit form (common logic)
   const submitPolicy = async (status: 'Draft' | 'Active') => {
     if (!isStepValid(0) || !isStepValid(1) || !isStepValid(2) || !isStepValid(3)) {
@@ -1457,6 +1499,9 @@ export default function CreatePolicyPage() {
       const policyData = {
         name: displayName.trim(),
         description: description?.trim() || '',
+        priority,
+        activateAt: fromDateTimeLocalValue(activateAt),
+        expireAt: fromDateTimeLocalValue(expireAt),
         effect: 'Allow' as const,
         status,
         rules,
@@ -1521,21 +1566,41 @@ export default function CreatePolicyPage() {
 
       console.log('Final policy data being sent to backend:', JSON.stringify(policyData, null, 2));
 
-      const response = await apiClient.post('/policies', policyData);
-
-      if (response.success) {
-        const message = status === 'Active'
-          ? 'Policy created and published successfully! It is now active and enforced.'
-          : 'Policy created successfully as draft! You can publish it later from the policies list.';
+      await createPolicy(policyData, status);
+    } catch (error: any) {
+      console.error('Failed to create policy:', error);
+      snackbar.handleApiError(error, 'Failed to create policy. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-        snackbar.showSuccess(message);
+  // Submit the policy written in the policy language
+  const submitPolicyText = async (status: 'Draft' | 'Active') => {
+    if (!isStepValid(0) || !policyTextResult.document) {
+      snackbar.showError('Please complete the basic information and fix the policy text');
+      return;
+    }
+    if (!currentWorkspace || !currentApplication || !currentEnvironment) {
+      snackbar.showError('Please select a workspace, application, and environment before creating a policy.');
+      return;
+    }
 
-        setTimeout(() => {
-          router.push('/policies');
-        }, 1500);
-      } else {
-        snackbar.handleApiResponse(response, undefined, 'Failed to create policy');
-      }
+    setIsSubmitting(true);
+    try {
+      await createPolicy({
+        name: displayName.trim(),
+        description: description?.trim() || '',
+        priority,
+        activateAt: fromDateTimeLocalValue(activateAt),
+        expireAt: fromDateTimeLocalValue(expireAt),
+        status,
+        ...toPolicyFields(policyTextResult.document),
+        conditions: [],
+        workspaceId: currentWorkspace._id,
+        applicationId: currentApplication._id,
+        environmentId: currentEnvironment._id
+      }, status);
     } catch (error: any) {
       console.error('Failed to create policy:', error);
       snackbar.handleApiError(error, 'Failed to create policy. Please try again.');
@@ -1547,13 +1612,38 @@ export default function CreatePolicyPage() {
   // Handle saving as draft
   const handleSaveDraft = () => {
     setSelectedAction('draft');
-    submitPolicy('Draft');
+    if (editorMode === 'text') {
+      submitPolicyText('Draft');
+    } else {
+      submitPolicy('Draft');
+    }
   };
 
   // Handle publishing immediately  
   const handlePublish = () => {
     setSelectedAction('publish');
-    submitPolicy('Active');
+    if (editorMode === 'text') {
+      submitPolicyText('Active');
+    } else {
+      submitPolicy('Active');
+    }
+  };
+
+  // The text editor starts from the subjects, actions and resources picked in the wizard
+  const handleEditorModeChange = (mode: 'wizard' | 'text' | null) => {
+    if (!mode) return;
+    if (mode === 'text' && !policyText.trim() && selectedActions.length > 0) {
+      setPolicyText(formatPolicyDsl({
+        effect: 'Allow',
+        rules: selectedActions.flatMap(actionId => (selectedResources.length > 0 ? selectedResources : ['*']).map(resourceId => ({
+          subject: { type: selectedSubjects[0] || '*', attributes: [] },
+          action: { name: actionId, displayName: actionId },
+          object: { type: resourceId, attributes: [] },
+        }))),
+        additionalResources: selectedAdditionalResources.map(id => ({ id, attributes: [] })),
+      }));
+    }
+    setEditorMode(mode);
   };
 
   const renderStepContent = (step: number) => {
@@ -1615,6 +1705,40 @@ export default function CreatePolicyPage() {
                   }}
                 />
               </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label="Priority"
+                  value={priority}
+                  onChange={(e) => setPriority(parseInt(e.target.value, 10) || 0)}
+                  inputProps={{ step: 1 }}
+                  helperText="Lower numbers are evaluated first (used by first-applicable)"
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <TextField
+                  fullWidth
+                  type="datetime-local"
+                  label="Activate At"
+                  value={activateAt}
+                  onChange={(e) => setActivateAt(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                  helperText="Optional: becomes Active at this time"
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <TextField
+                  fullWidth
+                  type="datetime-local"
+                  label="Expire At"
+                  value={expireAt}
+                  onChange={(e) => setExpireAt(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                  error={!!scheduleError}
+                  helperText={scheduleError || 'Optional: becomes Inactive at this time'}
+                />
+              </Grid>
             </Grid>
           </Card>
         );
@@ -4098,7 +4222,7 @@ export default function CreatePolicyPage() {
 
   return (
     <ProtectedRoute>
-      <RoleProtection allowedRoles={['admin', 'super_admin']}>
+      <RoleProtection workspaceRole="member">
         <DashboardLayout>
           {/* Header */}
           <Paper elevation={0} sx={{ p: 3, mb: 3, border: '1px solid', borderColor: 'grey.200' }}>
@@ -4121,6 +4245,15 @@ export default function CreatePolicyPage() {
                     </Typography>
                   </Box>
                 </Box>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={editorMode}
+                  onChange={(_event, mode) => handleEditorModeChange(mode)}
+                >
+                  <ToggleButton value="wizard"><WizardIcon fontSize="small" sx={{ mr: 1 }} />Wizard</ToggleButton>
+                  <ToggleButton value="text"><CodeIcon fontSize="small" sx={{ mr: 1 }} />Text</ToggleButton>
+                </ToggleButtonGroup>
               </Box>
               <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
                 Define access control rules for your organization
@@ -4128,6 +4261,52 @@ export default function CreatePolicyPage() {
             </Box>
           </Paper>
 
+          {editorMode === 'text' ? (
+            <>
+              <Box sx={{ mb: 3 }}>
+                {renderStepContent(0)}
+              </Box>
+              <Card sx={{ p: 4, mb: 3 }}>
+                <Typography variant="h5" fontWeight="600" gutterBottom>
+                  Policy Rules
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                  Write the policy's rules in the policy language. Subjects, actions and resources are referenced by ID.
+                </Typography>
+                <PolicyDslEditor
+                  value={policyText}
+                  onChange={setPolicyText}
+                  error={policyTextResult.error}
+                  ruleCount={policyTextResult.document?.rules.length || 0}
+                  disabled={isSubmitting}
+                />
+              </Card>
+              <Paper sx={{ p: 3 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+                  <Button variant="outlined" onClick={handleCancelClick}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    onClick={handleSaveDraft}
+                    disabled={isSubmitting || !isStepValid(0) || !policyTextResult.document}
+                    startIcon={isSubmitting && selectedAction === 'draft' ? <CircularProgress size={20} /> : null}
+                  >
+                    {isSubmitting && selectedAction === 'draft' ? 'Saving Draft...' : 'Save as Draft'}
+                  </Button>
+                  <Button
+                    variant="contained"
+                    onClick={handlePublish}
+                    disabled={isSubmitting || !isStepValid(0) || !policyTextResult.document}
+                    startIcon={isSubmitting && selectedAction === 'publish' ? <CircularProgress size={20} /> : <CheckIcon />}
+                  >
+                    {isSubmitting && selectedAction === 'publish' ? 'Publishing...' : 'Publish Policy'}
+                  </Button>
+                </Box>
+              </Paper>
+            </>
+          ) : (
+          <>
           {/* Stepper */}
           <Paper sx={{ p: 3, mb: 3 }}>
             <Stepper activeStep={activeStep} alternativeLabel>
@@ -4217,6 +4396,8 @@ export default function CreatePolicyPage() {
               </Box>
             </Box>
           </Paper>
+          </>
+          )}
 
           {/* Create Attribute Dialog (Original Modal) */}
           <Dialog
@@ -53,16 +53,22 @@ import {
   Clear as ClearIcon,
   ArrowUpward as ArrowUpIcon,
   ArrowDownward as ArrowDownIcon,
+  Publish as PromoteIcon,
+  Rule as AnalysisIcon,
+  ImportExport as BundleIcon,
 } from '@mui/icons-material';
 import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import DeleteConfirmationDialog from '@/components/common/DeleteConfirmationDialog';
+import PromotionDialog from '@/components/policies/PromotionDialog';
+import PolicyBundleDialog from '@/components/policies/PolicyBundleDialog';
 import { apiClient } from '@/lib/api';
-import { ApiResponse } from '@/types';
+import { ApiResponse, ChangeRequest } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useApiSnackbar } from '@/contexts/SnackbarContext';
 import { useWorkspace } from '@/contexts/WorkspaceContext';
-import { canManage, canEdit, canDelete, canCreate } from '@/utils/permissions';
+import { canManage, canDelete, canCreate } from '@/utils/permissions';
+import { getCombiningAlgorithmLabel, getCombiningAlgorithmDescription } from '@/utils/combiningAlgorithms';
 import RoleProtection from '@/components/auth/RoleProtection';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 
@@ -196,7 +202,7 @@ export default function PoliciesPage() {
   const router = useRouter();
   const { user: currentUser } = useAuth();
   const snackbar = useApiSnackbar();
-  const { currentWorkspace, currentApplication } = useWorkspace();
+  const { currentWorkspace, currentApplication, currentEnvironment } = useWorkspace();
   
   // State for policies
   const [policies, setPolicies] = useState<Policy[]>([]);
@@ -232,6 +238,8 @@ export default function PoliciesPage() {
   // Bulk operations
   const [bulkDeleteOpen, setBulkDeleteOpen] = useState(false);
   const [bulkDeleteLoading, setBulkDeleteLoading] = useState(false);
+  const [promoteOpen, setPromoteOpen] = useState(false);
+  const [bundleOpen, setBundleOpen] = useState(false);
   
   // Filter popover
   const [filterAnchorEl, setFilterAnchorEl] = useState<HTMLElement | null>(null);
@@ -515,7 +523,12 @@ export default function PoliciesPage() {
       setDeleteLoading(true);
       const response = await apiClient.delete(`/policies/${deletePolicy.id}`);
       
-      if (response.success) {
+      if (response.success && response.pendingApproval) {
+        // Protected environments keep the policy until its approvers sign off
+        setDeleteOpen(false);
+        setDeletePolicy(null);
+        snackbar.showInfo(`${response.message || 'Deletion submitted for approval'}. The policy is deleted once approved.`);
+      } else if (response.success) {
         setPolicies(policies?.filter(p => p.id !== deletePolicy.id) || []);
         setDeleteOpen(false);
         setDeletePolicy(null);
@@ -567,10 +580,12 @@ export default function PoliciesPage() {
       });
       
       if (response.success) {
-        setPolicies(policies?.filter(p => !selectedPolicies.includes(p.id)) || []);
+        // Policies in protected environments stay until their deletion is approved
+        const heldIds: string[] = (response.data?.changeRequests || []).map((request: ChangeRequest) => request.policyId);
+        setPolicies(policies?.filter(p => !selectedPolicies.includes(p.id) || heldIds.includes(p.id)) || []);
         setSelectedPolicies([]);
         setBulkDeleteOpen(false);
-        snackbar.showSuccess(`${selectedPolicies.length} policies deleted successfully`);
+        snackbar.showSuccess(response.message || `${selectedPolicies.length} policies deleted successfully`);
       } else {
         snackbar.handleApiResponse(response, undefined, 'Failed to delete selected policies');
       }
@@ -647,7 +662,7 @@ export default function PoliciesPage() {
   };
 
   // Check if workspace and application are selected
-  const canCreateEntity = currentWorkspace && currentApplication && canCreate(currentUser);
+  const canCreateEntity = currentWorkspace && currentApplication && canCreate(currentUser, currentWorkspace?._id);
 
   return (
     <ProtectedRoute>
@@ -699,18 +714,47 @@ export default function PoliciesPage() {
           </Box>
         </Box>
         <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2 }}>
-          <Typography variant="body2" color="text.secondary">
-            Manage and monitor your organization's access control policies
-          </Typography>
-          <Button
-            variant="contained"
-            startIcon={<AddIcon />}
-            onClick={() => router.push('/policies/create')}
-            disabled={!canCreateEntity}
-            sx={{ px: 3 }}
-          >
-            Create Policy
-          </Button>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+            <Typography variant="body2" color="text.secondary">
+              Manage and monitor your organization's access control policies
+            </Typography>
+            {currentEnvironment && (
+              <Tooltip title={getCombiningAlgorithmDescription(currentEnvironment.combiningAlgorithm)}>
+                <Chip
+                  label={`Combining: ${getCombiningAlgorithmLabel(currentEnvironment.combiningAlgorithm)}`}
+                  size="small"
+                  variant="outlined"
+                />
+              </Tooltip>
+            )}
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<AnalysisIcon />}
+              onClick={() => router.push('/policies/analysis')}
+              disabled={!currentEnvironment}
+            >
+              Analyze
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<BundleIcon />}
+              onClick={() => setBundleOpen(true)}
+              disabled={!currentEnvironment}
+            >
+              Import / Export
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => router.push('/policies/create')}
+              disabled={!canCreateEntity}
+              sx={{ px: 3 }}
+            >
+              Create Policy
+            </Button>
+          </Box>
         </Box>
       </Paper>
 
@@ -726,6 +770,13 @@ export default function PoliciesPage() {
                 >
                   {selectedPolicies.length} selected
                 </Typography>
+                {canManage(currentUser, currentWorkspace?._id) && (
+                  <Tooltip title="Promote selected to another environment">
+                    <IconButton color="primary" onClick={() => setPromoteOpen(true)}>
+                      <PromoteIcon />
+                    </IconButton>
+                  </Tooltip>
+                )}
                 <Tooltip title="Delete selected">
                   <IconButton color="error" onClick={handleBulkDeleteOpen}>
                     <BulkDeleteIcon />
@@ -803,12 +854,13 @@ export default function PoliciesPage() {
                       fontWeight: 600,
                       fontSize: '0.875rem',
                       color: 'text.primary',
-                      width: '40%'
+                      width: '30%'
                     }}
                   >
                     Name & Description
                   </TableCell>
                   <TableCell sx={{ fontWeight: 600, fontSize: '0.875rem', color: 'text.primary', width: '15%' }}>Effect</TableCell>
+                  <TableCell sx={{ fontWeight: 600, fontSize: '0.875rem', color: 'text.primary', width: '10%' }}>Priority</TableCell>
                   <TableCell sx={{ fontWeight: 600, fontSize: '0.875rem', color: 'text.primary', width: '15%' }}>Status</TableCell>
                   <TableCell sx={{ fontWeight: 600, fontSize: '0.875rem', color: 'text.primary', width: '15%' }}>Created By</TableCell>
                   <TableCell align="center" sx={{ fontWeight: 600, fontSize: '0.875rem', color: 'text.primary', width: '15%' }}>
@@ -819,13 +871,13 @@ export default function PoliciesPage() {
               <TableBody>
                 {loading ? (
                   <TableRow>
-                    <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                    <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
                       <CircularProgress />
                     </TableCell>
                   </TableRow>
                 ) : policies.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                    <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
                       <Typography variant="body2" color="text.secondary">
                         No policies found
                       </Typography>
@@ -842,7 +894,7 @@ export default function PoliciesPage() {
                           checkedIcon={<CheckBoxIcon />}
                         />
                       </TableCell>
-                      <TableCell sx={{ width: '40%', maxWidth: 0 }}>
+                      <TableCell sx={{ width: '30%', maxWidth: 0 }}>
                         <Box>
                           <Typography
                             variant="body2"
@@ -879,6 +931,11 @@ export default function PoliciesPage() {
                           variant="outlined"
                         />
                       </TableCell>
+                      <TableCell>
+                        <Typography variant="body2">
+                          {policy.priority ?? 0}
+                        </Typography>
+                      </TableCell>
                       <TableCell>
                         <Chip 
                           label={policy.status} 
@@ -1090,6 +1147,30 @@ export default function PoliciesPage() {
           additionalInfo="This will permanently remove the policy and may affect access control decisions."
         />
 
+        <PromotionDialog
+          open={promoteOpen}
+          policyIds={selectedPolicies}
+          onClose={() => setPromoteOpen(false)}
+          onPromoted={(message) => {
+            setPromoteOpen(false);
+            setSelectedPolicies([]);
+            snackbar.showSuccess(message);
+          }}
+        />
+
+        <PolicyBundleDialog
+          open={bundleOpen}
+          policyIds={selectedPolicies}
+          canImport={canManage(currentUser, currentWorkspace?._id)}
+          onClose={() => setBundleOpen(false)}
+          onImported={(message) => {
+            setBundleOpen(false);
+            setSelectedPolicies([]);
+            snackbar.showSuccess(message);
+            fetchPolicies();
+          }}
+        />
+
         {/* Bulk Delete Confirmation Dialog */}
         <DeleteConfirmationDialog
           open={bulkDeleteOpen}
@@ -80,6 +80,7 @@ import RoleProtection from '@/components/auth/RoleProtection';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import AdditionalResourcesTable from '@/components/resources/AdditionalResourcesTable';
 import ResourceCreationDialog from '@/components/resources/ResourceCreationDialog';
+import AccessReviewPanel from '@/components/access/AccessReviewPanel';
 
 interface ExtendedResourceObject extends ResourceObject {
   id?: string;
@@ -644,7 +645,7 @@ export default function ObjectsPage() {
   const headerContent = getHeaderContent();
 
   // Check if user can create entities (requires workspace, application, and environment selection)
-  const canCreateEntity = currentWorkspace && currentApplication && currentEnvironment && canCreate(currentUser);
+  const canCreateEntity = currentWorkspace && currentApplication && currentEnvironment && canCreate(currentUser, currentWorkspace?._id);
 
   return (
     <ProtectedRoute>
@@ -756,7 +757,7 @@ export default function ObjectsPage() {
               >
                 {selectedObjects.length} selected
               </Typography>
-              {canDelete(currentUser) && (
+              {canDelete(currentUser, currentWorkspace?._id) && (
                 <Tooltip title="Delete selected">
                   <IconButton color="error" onClick={handleBulkDeleteOpen}>
                     <BulkDeleteIcon />
@@ -1027,7 +1028,7 @@ export default function ObjectsPage() {
                               >
                                 <ViewIcon fontSize="small" />
                               </IconButton>
-                              {canEdit(currentUser) && (
+                              {canEdit(currentUser, currentWorkspace?._id) && (
                                 <IconButton
                                   size="small"
                                   color="primary"
@@ -1039,7 +1040,7 @@ export default function ObjectsPage() {
                                   <EditIcon fontSize="small" />
                                 </IconButton>
                               )}
-                              {canDelete(currentUser) && (
+                              {canDelete(currentUser, currentWorkspace?._id) && (
                                 <IconButton
                                   size="small"
                                   color="error"
@@ -1236,7 +1237,7 @@ export default function ObjectsPage() {
       <Dialog
         open={viewOpen}
         onClose={handleViewClose}
-        maxWidth="sm"
+        maxWidth="md"
         fullWidth
         PaperProps={{
           sx: {
@@ -1343,6 +1344,11 @@ export default function ObjectsPage() {
                   </Box>
                 </Box>
               </Box>
+
+              {/* Effective access */}
+              {viewObject.id && (
+                <AccessReviewPanel kind="resource" entityId={viewObject.id} />
+              )}
             </Box>
           )}
         </DialogContent>
@@ -1362,7 +1368,7 @@ export default function ObjectsPage() {
           >
             Close
           </Button>
-          {canEdit(currentUser) && (
+          {canEdit(currentUser, currentWorkspace?._id) && (
             <Button
               onClick={() => {
                 handleViewClose();
@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Devices as SessionsIcon } from '@mui/icons-material';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { apiClient } from '@/lib/api';
+import { UserSession } from '@/types';
+import { describeUserAgent, formatLastUsed } from '@/utils/sessions';
+
+/**
+ * Active sessions of the signed-in user, each of which can be revoked
+ */
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiClient.get<UserSession[]>('/auth/sessions');
+      if (response.success) {
+        setSessions(response.data || []);
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const revoke = async (path: string, key: string, fallback: string) => {
+    setRevoking(key);
+    try {
+      const response = await apiClient.delete(path);
+      if (response.success) {
+        setMessage(response.message || null);
+        await fetchSessions();
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || fallback);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const otherSessions = sessions.filter(session => !session.current).length;
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <Paper elevation={1} sx={{ p: 3, mb: 4 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              <SessionsIcon sx={{ mr: 2, color: 'primary.main' }} />
+              <Typography variant="h4" component="h1">
+                Active Sessions
+              </Typography>
+            </Box>
+            <Button
+              variant="outlined"
+              color="error"
+              onClick={() => revoke('/auth/sessions', 'others', 'Failed to sign out other sessions')}
+              disabled={otherSessions === 0 || !!revoking}
+            >
+              Sign Out Everywhere Else
+            </Button>
+          </Box>
+          <Typography variant="body1" color="text.secondary">
+            Devices signed in to your account. Revoking a session signs that device out immediately.
+          </Typography>
+        </Paper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {message}
+          </Alert>
+        )}
+
+        <Paper>
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Device</TableCell>
+                  <TableCell>IP Address</TableCell>
+                  <TableCell>Signed In</TableCell>
+                  <TableCell>Last Active</TableCell>
+                  <TableCell align="right" />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center" sx={{ py: 6 }}>
+                      <CircularProgress />
+                    </TableCell>
+                  </TableRow>
+                ) : sessions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No active sessions found.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ) : sessions.map(session => (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography variant="subtitle2">{describeUserAgent(session.userAgent)}</Typography>
+                        {session.current && <Chip label="This device" size="small" color="primary" />}
+                      </Box>
+                    </TableCell>
+                    <TableCell>{session.ipAddress || '-'}</TableCell>
+                    <TableCell>{new Date(session.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{formatLastUsed(session.lastUsedAt)}</TableCell>
+                    <TableCell align="right">
+                      {!session.current && (
+                        <Button
+                          size="small"
+                          color="error"
+                          onClick={() => revoke(`/auth/sessions/${session.id}`, session.id, 'Failed to revoke session')}
+                          disabled={!!revoking}
+                        >
+                          {revoking === session.id ? 'Revoking...' : 'Revoke'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
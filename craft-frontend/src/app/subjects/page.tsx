@@ -73,6 +73,7 @@ import DashboardLayout from '@/components/layout/DashboardLayout';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import DeleteConfirmationDialog from '@/components/common/DeleteConfirmationDialog';
 import SubjectCreationDialog from '@/components/subjects/SubjectCreationDialog';
+import AccessReviewPanel from '@/components/access/AccessReviewPanel';
 import { apiClient } from '@/lib/api';
 import { ApiResponse } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
@@ -484,7 +485,7 @@ export default function SubjectsPage() {
   };
 
   // Check if workspace and application are selected
-  const canCreateEntity = currentWorkspace && currentApplication && canCreate(currentUser);
+  const canCreateEntity = currentWorkspace && currentApplication && canCreate(currentUser, currentWorkspace?._id);
 
   return (
     <ProtectedRoute>
@@ -563,7 +564,7 @@ export default function SubjectsPage() {
               >
                 {selectedSubjects.length} selected
               </Typography>
-              {canDelete(currentUser) && (
+              {canDelete(currentUser, currentWorkspace?._id) && (
                 <Tooltip title="Delete selected">
                   <IconButton color="error" onClick={handleBulkDeleteOpen}>
                     <BulkDeleteIcon />
@@ -817,7 +818,7 @@ export default function SubjectsPage() {
                               >
                                 <ViewIcon fontSize="small" />
                               </IconButton>
-                              {canEdit(currentUser) && (
+                              {canEdit(currentUser, currentWorkspace?._id) && (
                                 <IconButton
                                   size="small"
                                   color="primary"
@@ -829,7 +830,7 @@ export default function SubjectsPage() {
                                   <EditIcon fontSize="small" />
                                 </IconButton>
                               )}
-                              {canDelete(currentUser) && (
+                              {canDelete(currentUser, currentWorkspace?._id) && (
                                 <IconButton
                                   size="small"
                                   color="error"
@@ -877,7 +878,7 @@ export default function SubjectsPage() {
       <Dialog
         open={viewOpen}
         onClose={handleViewClose}
-        maxWidth="sm"
+        maxWidth="md"
         fullWidth
         PaperProps={{
           sx: {
@@ -984,6 +985,11 @@ export default function SubjectsPage() {
                   </Box>
                 </Box>
               </Box>
+
+              {/* Effective access */}
+              {viewSubject.id && (
+                <AccessReviewPanel kind="subject" entityId={viewSubject.id} />
+              )}
             </Box>
           )}
         </DialogContent>
@@ -1003,7 +1009,7 @@ export default function SubjectsPage() {
           >
             Close
           </Button>
-          {canEdit(currentUser) && (
+          {canEdit(currentUser, currentWorkspace?._id) && (
             <Button
               onClick={() => {
                 handleViewClose();
@@ -30,6 +30,15 @@ jest.mock('@/contexts/AuthContext', () => ({
   useAuth: () => mockUseAuth(),
 }));
 
+// Mock WorkspaceContext
+jest.mock('@/contexts/WorkspaceContext', () => ({
+  useWorkspace: () => ({
+    currentWorkspace: { _id: 'workspace-1', name: 'workspace-1' },
+    currentApplication: { _id: 'application-1', name: 'application-1' },
+    currentEnvironment: { _id: 'environment-1', name: 'environment-1' },
+  }),
+}));
+
 // Mock DashboardLayout
 jest.mock('@/components/layout/DashboardLayout', () => {
   return function MockDashboardLayout({ children }: { children: React.ReactNode }) {
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Typography,
   Box,
@@ -14,7 +14,6 @@ import {
   InputLabel,
   Select,
   MenuItem,
-  Chip,
   Alert,
   Accordion,
   AccordionSummary,
@@ -27,12 +26,8 @@ import {
   CircularProgress,
   Tabs,
   Tab,
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
+  Tooltip,
+  Autocomplete,
 } from '@mui/material';
 import {
   BugReport as TesterIcon,
@@ -42,18 +37,29 @@ import {
   Error as ErrorIcon,
   Warning as WarningIcon,
   Info as InfoIcon,
-  History as HistoryIcon,
   Save as SaveIcon,
   Code as CodeIcon,
 } from '@mui/icons-material';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import RoleProtection from '@/components/auth/RoleProtection';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import DecisionTraceTree from '@/components/tester/DecisionTraceTree';
+import SaveTestCaseDialog, { SaveTestCaseInput } from '@/components/tester/SaveTestCaseDialog';
+import TestSuitesPanel from '@/components/tester/TestSuitesPanel';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { apiClient } from '@/lib/api';
+import { AccessLevel, CombiningAlgorithm, DecisionTrace, PolicyDecision, PolicyEvaluation, PolicyTestRun, PolicyTestSuite } from '@/types';
+import { summarizeTrace } from '@/utils/decisionTrace';
+import { getCombiningAlgorithmLabel, getCombiningAlgorithmDescription } from '@/utils/combiningAlgorithms';
+import { getPassRate } from '@/utils/testSuites';
 
 interface TestResult {
   id: string;
-  decision: 'Allow' | 'Deny';
+  decision: PolicyDecision;
+  combiningAlgorithm: CombiningAlgorithm;
+  accessLevel?: AccessLevel;
   policy: string;
+  reason: string;
   timestamp: string;
   executionTime: string;
   details: {
@@ -61,78 +67,187 @@ interface TestResult {
     matchedRules: string[];
     failedRules: string[];
   };
+  trace?: DecisionTrace;
 }
 
-interface TestHistory {
+interface EntityOption {
   id: string;
-  name: string;
-  subject: string;
-  action: string;
-  object: string;
-  result: 'Allow' | 'Deny';
-  timestamp: string;
+  label: string;
+  detail?: string;
 }
 
+const toOption = (entity: any, detailKey?: string): EntityOption => ({
+  id: entity.id,
+  label: entity.displayName || entity.name || entity.id,
+  detail: detailKey ? entity[detailKey] : undefined,
+});
+
 export default function PolicyTesterPage() {
+  const { currentWorkspace, currentApplication, currentEnvironment } = useWorkspace();
   const [tabValue, setTabValue] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [testResult, setTestResult] = useState<TestResult | null>(null);
-  const [subject, setSubject] = useState('john.doe@company.com');
-  const [action, setAction] = useState('read');
-  const [object, setObject] = useState('/documents/financial/report.pdf');
-  const [environment, setEnvironment] = useState('{"ip": "192.168.1.100", "time": "09:30"}');
-
-  const [testHistory] = useState<TestHistory[]>([
-    {
-      id: '1',
-      name: 'Admin Access Test',
-      subject: 'admin@company.com',
-      action: 'delete',
-      object: '/system/users',
-      result: 'Allow',
-      timestamp: '2024-01-21 10:30:00',
-    },
-    {
-      id: '2',
-      name: 'User Read Test',
-      subject: 'user@company.com',
-      action: 'read',
-      object: '/documents/public/readme.txt',
-      result: 'Allow',
-      timestamp: '2024-01-21 10:25:00',
-    },
-    {
-      id: '3',
-      name: 'Guest Restricted',
-      subject: 'guest@company.com',
-      action: 'write',
-      object: '/documents/sensitive/data.csv',
-      result: 'Deny',
-      timestamp: '2024-01-21 10:20:00',
-    },
-  ]);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [subject, setSubject] = useState<EntityOption | null>(null);
+  const [action, setAction] = useState('');
+  const [object, setObject] = useState<EntityOption | null>(null);
+  const [environment, setEnvironment] = useState('');
+
+  const [subjectOptions, setSubjectOptions] = useState<EntityOption[]>([]);
+  const [actionOptions, setActionOptions] = useState<EntityOption[]>([]);
+  const [resourceOptions, setResourceOptions] = useState<EntityOption[]>([]);
+  const [entitiesLoading, setEntitiesLoading] = useState(false);
+
+  const [suites, setSuites] = useState<PolicyTestSuite[]>([]);
+  const [suitesLoading, setSuitesLoading] = useState(false);
+  const [suiteError, setSuiteError] = useState<string | null>(null);
+  const [runningSuiteId, setRunningSuiteId] = useState<string | null>(null);
+  const [lastSuiteRun, setLastSuiteRun] = useState<{ suiteName: string; run: PolicyTestRun } | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [responseTimes, setResponseTimes] = useState<number[]>([]);
+
+  const workspaceId = currentWorkspace?._id;
+  const applicationId = currentApplication?._id;
+  const environmentId = currentEnvironment?._id;
+  const scope = useMemo(() => (
+    workspaceId && applicationId && environmentId ? { workspaceId, applicationId, environmentId } : null
+  ), [workspaceId, applicationId, environmentId]);
+
+  // Subjects, actions and resources of the current environment
+  useEffect(() => {
+    setSubject(null);
+    setAction('');
+    setObject(null);
+    setTestResult(null);
+    if (!scope) return;
+
+    const fetchEntities = async () => {
+      setEntitiesLoading(true);
+      try {
+        const params = { page: 1, limit: 100, environmentId: scope.environmentId, sortBy: 'name', sortOrder: 'asc' };
+        const [subjectsResponse, actionsResponse, resourcesResponse] = await Promise.all([
+          apiClient.get('/subjects', params),
+          apiClient.get('/actions', params),
+          apiClient.get('/resources', params),
+        ]);
+        setSubjectOptions((subjectsResponse.data || []).map((entity: any) => toOption(entity, 'email')));
+        setActionOptions((actionsResponse.data || []).map((entity: any) => toOption(entity, 'category')));
+        setResourceOptions((resourcesResponse.data || []).map((entity: any) => toOption(entity, 'uri')));
+      } catch (error: any) {
+        setTestError(error?.error || error?.message || 'Failed to load subjects, actions and resources');
+      } finally {
+        setEntitiesLoading(false);
+      }
+    };
+
+    fetchEntities();
+  }, [scope]);
+
+  const fetchSuites = useCallback(async () => {
+    if (!scope) {
+      setSuites([]);
+      return;
+    }
+
+    setSuitesLoading(true);
+    try {
+      const response = await apiClient.get<PolicyTestSuite[]>('/test-suites', {
+        ...scope,
+        page: 1,
+        limit: 100,
+        sortBy: 'name',
+        sortOrder: 'asc',
+      });
+      if (response.success) {
+        setSuites(response.data || []);
+      }
+    } catch (error: any) {
+      setSuiteError(error?.error || error?.message || 'Failed to load test suites');
+    } finally {
+      setSuitesLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    fetchSuites();
+  }, [fetchSuites]);
+
+  const labelFor = useCallback((kind: 'subject' | 'action' | 'resource', id: string) => {
+    const options = kind === 'subject' ? subjectOptions : kind === 'action' ? actionOptions : resourceOptions;
+    return options.find(option => option.id === id)?.label || id;
+  }, [subjectOptions, actionOptions, resourceOptions]);
+
+  const parseEnvironment = (): Record<string, any> | null => {
+    if (!environment.trim()) return {};
+    try {
+      return JSON.parse(environment);
+    } catch {
+      return null;
+    }
+  };
 
   const handleRunTest = async () => {
+    if (!scope) {
+      setTestError('Please select a workspace, application, and environment before running a test.');
+      return;
+    }
+    if (!subject || !action || !object) {
+      setTestError('Select a subject, an action and a resource to test.');
+      return;
+    }
+
+    const environmentAttributes = parseEnvironment();
+    if (!environmentAttributes) {
+      setTestError('Environment context must be valid JSON.');
+      return;
+    }
+
     setIsLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      const mockResult: TestResult = {
+    setTestError(null);
+
+    try {
+      const response = await apiClient.post<PolicyEvaluation>('/policies/evaluate', {
+        ...scope,
+        subject: subject.id,
+        action,
+        resource: object.id,
+        environment: environmentAttributes,
+        explain: true,
+      });
+
+      if (!response.success || !response.data) {
+        setTestError(response.error || 'Policy evaluation failed');
+        return;
+      }
+
+      const evaluation = response.data;
+      setResponseTimes(previous => [...previous, evaluation.evaluationTime]);
+      // The final combining step names the policies that decided, e.g. only the first under first-applicable
+      const decidingIds = evaluation.trace?.combining.find(step => step.final)?.policyIds || evaluation.matchedPolicies;
+      const decidingPolicies = (evaluation.trace?.policies || [])
+        .filter(policy => decidingIds.includes(policy.policyId))
+        .map(policy => policy.policyName);
+
+      setTestResult({
         id: Date.now().toString(),
-        decision: Math.random() > 0.5 ? 'Allow' : 'Deny',
-        policy: 'User Access Policy',
-        timestamp: new Date().toISOString(),
-        executionTime: `${Math.floor(Math.random() * 100) + 10}ms`,
+        decision: evaluation.decision,
+        combiningAlgorithm: evaluation.combiningAlgorithm,
+        accessLevel: evaluation.accessLevel,
+        policy: decidingPolicies.join(', ') || 'No matching policy',
+        reason: evaluation.reason,
+        timestamp: evaluation.timestamp,
+        executionTime: `${evaluation.evaluationTime}ms`,
         details: {
-          evaluatedPolicies: Math.floor(Math.random() * 5) + 1,
-          matchedRules: ['user.department == "IT"', 'action == "read"'],
-          failedRules: ['resource.classification != "confidential"'],
+          evaluatedPolicies: evaluation.evaluatedPolicies,
+          ...summarizeTrace(evaluation.trace),
         },
-      };
-      
-      setTestResult(mockResult);
+        trace: evaluation.trace,
+      });
+    } catch (error: any) {
+      setTestError(error?.error || error?.message || 'Policy evaluation failed');
+    } finally {
       setIsLoading(false);
-    }, 2000);
+    }
   };
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
@@ -140,14 +255,72 @@ export default function PolicyTesterPage() {
   };
 
   const getResultColor = (result: string) => {
+    if (result === 'NotApplicable') return 'warning';
     return result === 'Allow' ? 'success' : 'error';
   };
 
+  const handleSaveTestCase = async ({ suiteId, suiteName, testCase }: SaveTestCaseInput) => {
+    if (!scope) return;
+
+    const response = suiteId
+      ? await apiClient.post<PolicyTestSuite>(`/test-suites/${suiteId}/cases`, testCase)
+      : await apiClient.post<PolicyTestSuite>('/test-suites', { ...scope, name: suiteName, cases: [testCase] });
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to save test case');
+    }
+    await fetchSuites();
+  };
+
+  const handleRunSuite = async (suite: PolicyTestSuite) => {
+    setRunningSuiteId(suite.id);
+    setSuiteError(null);
+    try {
+      const response = await apiClient.post<PolicyTestRun>(`/test-suites/${suite.id}/run`);
+      if (response.success && response.data) {
+        setLastSuiteRun({ suiteName: suite.name, run: response.data });
+        await fetchSuites();
+      } else {
+        setSuiteError(response.error || 'Failed to run test suite');
+      }
+    } catch (error: any) {
+      setSuiteError(error?.error || error?.message || 'Failed to run test suite');
+    } finally {
+      setRunningSuiteId(null);
+    }
+  };
+
+  const handleDeleteSuite = async (suite: PolicyTestSuite) => {
+    if (!window.confirm(`Delete test suite "${suite.name}" and its ${suite.cases.length} test cases?`)) return;
+
+    try {
+      await apiClient.delete(`/test-suites/${suite.id}`);
+      if (lastSuiteRun?.suiteName === suite.name) setLastSuiteRun(null);
+      await fetchSuites();
+    } catch (error: any) {
+      setSuiteError(error?.error || error?.message || 'Failed to delete test suite');
+    }
+  };
+
+  const handleDeleteCase = async (suite: PolicyTestSuite, caseId: string) => {
+    try {
+      await apiClient.delete(`/test-suites/${suite.id}/cases/${caseId}`);
+      await fetchSuites();
+    } catch (error: any) {
+      setSuiteError(error?.error || error?.message || 'Failed to remove test case');
+    }
+  };
+
+  const passRate = getPassRate(suites);
+  const averageResponseTime = responseTimes.length > 0
+    ? Math.round(responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length)
+    : null;
+
   const stats = [
-    { label: 'Tests Run Today', value: '24', color: 'primary' },
-    { label: 'Success Rate', value: '87%', color: 'success' },
-    { label: 'Avg Response Time', value: '45ms', color: 'info' },
-    { label: 'Policies Tested', value: '12', color: 'warning' },
+    { label: 'Test Suites', value: String(suites.length), color: 'primary' },
+    { label: 'Test Cases', value: String(suites.reduce((sum, suite) => sum + suite.cases.length, 0)), color: 'warning' },
+    { label: 'Last Run Pass Rate', value: passRate === null ? '—' : `${passRate}%`, color: 'success' },
+    { label: 'Avg Response Time', value: averageResponseTime === null ? '—' : `${averageResponseTime}ms`, color: 'info' },
   ];
 
   return (
@@ -189,7 +362,7 @@ export default function PolicyTesterPage() {
       <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
         <Tabs value={tabValue} onChange={handleTabChange}>
           <Tab label="Test Runner" />
-          <Tab label="Test History" />
+          <Tab label={`Test Suites (${suites.length})`} />
         </Tabs>
       </Box>
 
@@ -205,33 +378,67 @@ export default function PolicyTesterPage() {
                 </Typography>
                 
                 <Box sx={{ '& > *': { mb: 3 } }}>
-                  <TextField
-                    fullWidth
-                    label="Subject"
+                  {!scope && (
+                    <Alert severity="info">
+                      Select a workspace, application and environment to test its policies.
+                    </Alert>
+                  )}
+
+                  <Autocomplete
+                    options={subjectOptions}
                     value={subject}
-                    onChange={(e) => setSubject(e.target.value)}
-                    placeholder="e.g., john.doe@company.com"
-                    helperText="User, group, or role identifier"
+                    onChange={(_, value) => setSubject(value)}
+                    getOptionLabel={(option) => option.label}
+                    isOptionEqualToValue={(option, value) => option.id === value.id}
+                    loading={entitiesLoading}
+                    disabled={!scope}
+                    renderOption={(props, option) => (
+                      <li {...props} key={option.id}>
+                        <Box>
+                          <Typography variant="body2">{option.label}</Typography>
+                          {option.detail && (
+                            <Typography variant="caption" color="text.secondary">{option.detail}</Typography>
+                          )}
+                        </Box>
+                      </li>
+                    )}
+                    renderInput={(params) => (
+                      <TextField {...params} label="Subject" helperText="User, group, or role of the current environment" />
+                    )}
                   />
                   
-                  <FormControl fullWidth>
+                  <FormControl fullWidth disabled={!scope}>
                     <InputLabel>Action</InputLabel>
                     <Select value={action} onChange={(e) => setAction(e.target.value)} label="Action">
-                      <MenuItem value="read">Read</MenuItem>
-                      <MenuItem value="write">Write</MenuItem>
-                      <MenuItem value="delete">Delete</MenuItem>
-                      <MenuItem value="execute">Execute</MenuItem>
-                      <MenuItem value="admin">Admin</MenuItem>
+                      {actionOptions.map(option => (
+                        <MenuItem key={option.id} value={option.id}>
+                          {option.label}
+                        </MenuItem>
+                      ))}
                     </Select>
                   </FormControl>
                   
-                  <TextField
-                    fullWidth
-                    label="Resource"
+                  <Autocomplete
+                    options={resourceOptions}
                     value={object}
-                    onChange={(e) => setObject(e.target.value)}
-                    placeholder="e.g., /documents/report.pdf"
-                    helperText="Resource path or identifier"
+                    onChange={(_, value) => setObject(value)}
+                    getOptionLabel={(option) => option.label}
+                    isOptionEqualToValue={(option, value) => option.id === value.id}
+                    loading={entitiesLoading}
+                    disabled={!scope}
+                    renderOption={(props, option) => (
+                      <li {...props} key={option.id}>
+                        <Box>
+                          <Typography variant="body2">{option.label}</Typography>
+                          {option.detail && (
+                            <Typography variant="caption" color="text.secondary" fontFamily="monospace">{option.detail}</Typography>
+                          )}
+                        </Box>
+                      </li>
+                    )}
+                    renderInput={(params) => (
+                      <TextField {...params} label="Resource" helperText="Resource of the current environment" />
+                    )}
                   />
                   
                   <TextField
@@ -253,13 +460,23 @@ export default function PolicyTesterPage() {
                     fullWidth
                     startIcon={isLoading ? <CircularProgress size={20} /> : <RunIcon />}
                     onClick={handleRunTest}
-                    disabled={isLoading}
+                    disabled={isLoading || !scope || !subject || !action || !object}
                   >
                     {isLoading ? 'Testing...' : 'Run Test'}
                   </Button>
-                  <Button variant="outlined" startIcon={<SaveIcon />}>
-                    Save
-                  </Button>
+                  <Tooltip title="Save this request as a test case">
+                    <span>
+                      <Button
+                        variant="outlined"
+                        startIcon={<SaveIcon />}
+                        onClick={() => setSaveDialogOpen(true)}
+                        disabled={!scope || !subject || !action || !object || parseEnvironment() === null}
+                        sx={{ height: '100%' }}
+                      >
+                        Save
+                      </Button>
+                    </span>
+                  </Tooltip>
                 </Box>
               </CardContent>
             </Card>
@@ -273,6 +490,12 @@ export default function PolicyTesterPage() {
                   Test Results
                 </Typography>
                 
+                {testError && (
+                  <Alert severity="error" sx={{ mb: 2 }} onClose={() => setTestError(null)}>
+                    {testError}
+                  </Alert>
+                )}
+
                 {!testResult && !isLoading && (
                   <Box 
                     sx={{ 
@@ -305,19 +528,24 @@ export default function PolicyTesterPage() {
                 {testResult && (
                   <Box>
                     <Alert 
-                      severity={testResult.decision === 'Allow' ? 'success' : 'error'}
+                      severity={getResultColor(testResult.decision) as any}
                       sx={{ mb: 3 }}
                     >
                       <Typography variant="h6">
                         {testResult.decision.toUpperCase()}
                       </Typography>
                       <Typography variant="body2">
-                        Policy decision: {testResult.decision}
+                        {testResult.reason}
                       </Typography>
+                      {testResult.accessLevel && (
+                        <Typography variant="caption">
+                          Access level: {testResult.accessLevel}
+                        </Typography>
+                      )}
                     </Alert>
 
                     <Grid container spacing={2} sx={{ mb: 3 }}>
-                      <Grid size={{ xs: 6 }}>
+                      <Grid size={{ xs: 4 }}>
                         <Paper variant="outlined" sx={{ p: 2, textAlign: 'center' }}>
                           <Typography variant="caption" color="text.secondary">
                             Execution Time
@@ -327,7 +555,7 @@ export default function PolicyTesterPage() {
                           </Typography>
                         </Paper>
                       </Grid>
-                      <Grid size={{ xs: 6 }}>
+                      <Grid size={{ xs: 4 }}>
                         <Paper variant="outlined" sx={{ p: 2, textAlign: 'center' }}>
                           <Typography variant="caption" color="text.secondary">
                             Policies Evaluated
@@ -337,11 +565,23 @@ export default function PolicyTesterPage() {
                           </Typography>
                         </Paper>
                       </Grid>
+                      <Grid size={{ xs: 4 }}>
+                        <Tooltip title={getCombiningAlgorithmDescription(testResult.combiningAlgorithm)}>
+                          <Paper variant="outlined" sx={{ p: 2, textAlign: 'center' }}>
+                            <Typography variant="caption" color="text.secondary">
+                              Combining Algorithm
+                            </Typography>
+                            <Typography variant="h6">
+                              {getCombiningAlgorithmLabel(testResult.combiningAlgorithm)}
+                            </Typography>
+                          </Paper>
+                        </Tooltip>
+                      </Grid>
                     </Grid>
 
                     <Accordion>
                       <AccordionSummary expandIcon={<ExpandMoreIcon />}>
-                        <Typography variant="subtitle1">Matched Rules</Typography>
+                        <Typography variant="subtitle1">Matched Rules ({testResult.details.matchedRules.length})</Typography>
                       </AccordionSummary>
                       <AccordionDetails>
                         <List dense>
@@ -388,6 +628,17 @@ export default function PolicyTesterPage() {
                         </AccordionDetails>
                       </Accordion>
                     )}
+
+                    {testResult.trace && (
+                      <Accordion>
+                        <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                          <Typography variant="subtitle1">Decision Trace</Typography>
+                        </AccordionSummary>
+                        <AccordionDetails>
+                          <DecisionTraceTree trace={testResult.trace} />
+                        </AccordionDetails>
+                      </Accordion>
+                    )}
                   </Box>
                 )}
               </CardContent>
@@ -396,72 +647,67 @@ export default function PolicyTesterPage() {
         </Grid>
       )}
 
-      {/* Test History Tab */}
+      {/* Test Suites Tab */}
       {tabValue === 1 && (
         <Card>
           <CardContent>
-            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
-              <Typography variant="h6">
-                Test History
-              </Typography>
-              <Button variant="outlined" startIcon={<HistoryIcon />}>
-                Clear History
-              </Button>
-            </Box>
-            
-            <TableContainer>
-              <Table>
-                <TableHead>
-                  <TableRow>
-                    <TableCell>Test Name</TableCell>
-                    <TableCell>Subject</TableCell>
-                    <TableCell>Action</TableCell>
-                    <TableCell>Resource</TableCell>
-                    <TableCell>Result</TableCell>
-                    <TableCell>Timestamp</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {testHistory.map((test) => (
-                    <TableRow key={test.id} hover>
-                      <TableCell>
-                        <Typography variant="subtitle2" fontWeight="medium">
-                          {test.name}
-                        </Typography>
-                      </TableCell>
-                      <TableCell>
-                        <Typography variant="body2" fontFamily="monospace">
-                          {test.subject}
-                        </Typography>
-                      </TableCell>
-                      <TableCell>
-                        <Chip label={test.action} size="small" variant="outlined" />
-                      </TableCell>
-                      <TableCell>
-                        <Typography variant="body2" fontFamily="monospace" color="text.secondary">
-                          {test.object}
-                        </Typography>
-                      </TableCell>
-                      <TableCell>
-                        <Chip
-                          label={test.result}
-                          size="small"
-                          color={getResultColor(test.result) as any}
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <Typography variant="body2" color="text.secondary">
-                          {test.timestamp}
-                        </Typography>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
+            <Typography variant="h6" gutterBottom>
+              Test Suites
+            </Typography>
+
+            {suiteError && (
+              <Alert severity="error" sx={{ mb: 2 }} onClose={() => setSuiteError(null)}>
+                {suiteError}
+              </Alert>
+            )}
+
+            {lastSuiteRun && (
+              <Alert
+                severity={lastSuiteRun.run.failed === 0 ? 'success' : 'error'}
+                sx={{ mb: 2 }}
+                onClose={() => setLastSuiteRun(null)}
+              >
+                <Typography variant="subtitle2">
+                  {lastSuiteRun.suiteName}: {lastSuiteRun.run.passed} passed, {lastSuiteRun.run.failed} failed
+                  {lastSuiteRun.run.evaluationTime !== undefined && ` in ${lastSuiteRun.run.evaluationTime}ms`}
+                </Typography>
+                {lastSuiteRun.run.results.filter(result => !result.passed).map(result => (
+                  <Typography key={result.caseId} variant="body2">
+                    {result.name}: expected {result.expectedDecision}, got {result.actualDecision}
+                  </Typography>
+                ))}
+              </Alert>
+            )}
+
+            <TestSuitesPanel
+              suites={suites}
+              loading={suitesLoading}
+              runningSuiteId={runningSuiteId}
+              labelFor={labelFor}
+              onRun={handleRunSuite}
+              onDeleteSuite={handleDeleteSuite}
+              onDeleteCase={handleDeleteCase}
+            />
           </CardContent>
         </Card>
       )}
+
+      {subject && object && action && (
+        <SaveTestCaseDialog
+          open={saveDialogOpen}
+          suites={suites}
+          request={{
+            subject: subject.id,
+            action,
+            resource: object.id,
+            environment: parseEnvironment() || {},
+          }}
+          defaultName={`${subject.label} ${labelFor('action', action)} ${object.label}`}
+          defaultDecision={testResult?.decision || 'Allow'}
+          onClose={() => setSaveDialogOpen(false)}
+          onSave={handleSaveTestCase}
+        />
+      )}
         </DashboardLayout>
       </RoleProtection>
     </ProtectedRoute>
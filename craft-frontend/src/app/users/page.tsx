@@ -73,6 +73,7 @@ import {
   ExpandMore as ExpandMoreIcon,
   Info as InfoIcon,
   Warning as WarningIcon,
+  Logout as SignOutIcon,
 } from '@mui/icons-material';
 import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/DashboardLayout';
@@ -88,12 +89,6 @@ import RoleProtection from '@/components/auth/RoleProtection';
 interface ExtendedUser extends User {
   id?: string;
   displayName?: string;
-  workspaceRoles?: Map<string, {
-    role: string;
-    permissions: string[];
-    joinedAt: Date;
-  }>;
-  assignedWorkspaces?: string[];
   assignedApplications?: string[];
 }
 
@@ -164,6 +159,8 @@ export default function UsersPage() {
   const [roleChangeOpen, setRoleChangeOpen] = useState(false);
   const [roleChangeUser, setRoleChangeUser] = useState<ExtendedUser | null>(null);
   const [newRole, setNewRole] = useState<'super_admin' | 'admin' | 'basic'>('basic');
+  const [signOutUser, setSignOutUser] = useState<ExtendedUser | null>(null);
+  const [signOutMessage, setSignOutMessage] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
@@ -441,6 +438,27 @@ export default function UsersPage() {
     }
   };
 
+  const handleSignOutEverywhere = async () => {
+    if (!signOutUser) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await apiClient.post(`/users/${signOutUser._id}/sign-out-everywhere`);
+
+      if (response.success) {
+        setSignOutMessage(response.message || `${signOutUser.name} has been signed out everywhere`);
+        setSignOutUser(null);
+      } else {
+        throw new Error(response.error || 'Failed to sign user out');
+      }
+    } catch (error: any) {
+      console.error('Failed to sign user out:', error);
+      setError(error.response?.data?.error || 'Failed to sign user out. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!deleteUser) return;
     
@@ -889,6 +907,12 @@ export default function UsersPage() {
       </Paper>
 
 
+      {signOutMessage && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSignOutMessage(null)}>
+          {signOutMessage}
+        </Alert>
+      )}
+
       {/* Toolbar */}
       <Paper sx={{ mb: 2 }}>
         <Toolbar sx={{ px: { sm: 2 }, minHeight: '64px !important' }}>
@@ -1273,6 +1297,17 @@ export default function UsersPage() {
                                 <AdminIcon fontSize="small" />
                               </IconButton>
                             )}
+                            {canManage(currentUser) && (
+                              <Tooltip title="Sign out everywhere">
+                                <IconButton
+                                  size="small"
+                                  color="secondary"
+                                  onClick={() => setSignOutUser(user)}
+                                >
+                                  <SignOutIcon fontSize="small" />
+                                </IconButton>
+                              </Tooltip>
+                            )}
                             {canDelete(currentUser) && (
                               <IconButton
                                 size="small"
@@ -1596,6 +1631,34 @@ export default function UsersPage() {
         </DialogActions>
       </Dialog>
 
+      {/* Sign Out Everywhere Dialog */}
+      <Dialog open={!!signOutUser} onClose={() => setSignOutUser(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          Sign Out Everywhere
+        </DialogTitle>
+        <DialogContent>
+          {signOutUser && (
+            <Typography variant="body1" sx={{ pt: 1 }}>
+              Sign <strong>{signOutUser.name}</strong> out of every session? Their access tokens stop working
+              immediately and they will need to sign in again.
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSignOutUser(null)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSignOutEverywhere}
+            variant="contained"
+            color="error"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? 'Signing Out...' : 'Sign Out Everywhere'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* View User Dialog */}
       <Dialog open={viewOpen} onClose={handleViewClose} maxWidth="sm" fullWidth>
         <DialogTitle>User Details</DialogTitle>
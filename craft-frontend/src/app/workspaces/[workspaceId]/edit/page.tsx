@@ -54,6 +54,8 @@ import { useWorkspace } from '@/contexts/WorkspaceContext';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { apiClient } from '@/lib/api';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { CombiningAlgorithm } from '@/types';
+import { COMBINING_ALGORITHMS, DEFAULT_COMBINING_ALGORITHM } from '@/utils/combiningAlgorithms';
 
 interface ApplicationFormData {
   id?: string;
@@ -70,6 +72,7 @@ interface EnvironmentFormData {
   displayName: string;
   description: string;
   type: 'development' | 'testing' | 'staging' | 'production' | 'preview' | 'hotfix';
+  combiningAlgorithm: CombiningAlgorithm;
   isDefault: boolean;
 }
 
@@ -207,6 +210,7 @@ export default function EditWorkspacePage() {
                 displayName: env.displayName,
                 description: env.description || '',
                 type: env.type,
+                combiningAlgorithm: env.combiningAlgorithm || DEFAULT_COMBINING_ALGORITHM,
                 isDefault: env.isDefault || false
               })) : [];
               
@@ -426,6 +430,7 @@ export default function EditWorkspacePage() {
           displayName: 'Development',
           description: 'Development environment',
           type: 'development',
+          combiningAlgorithm: DEFAULT_COMBINING_ALGORITHM,
           isDefault: true
         }
       ]
@@ -464,6 +469,7 @@ export default function EditWorkspacePage() {
       displayName: '',
       description: '',
       type: 'development',
+      combiningAlgorithm: DEFAULT_COMBINING_ALGORITHM,
       isDefault: false
     };
     setFormData(prev => ({
@@ -572,6 +578,7 @@ export default function EditWorkspacePage() {
             displayName: env.displayName,
             description: env.description || '',
             type: env.type,
+            combiningAlgorithm: env.combiningAlgorithm,
             isDefault: env.isDefault
           };
 
@@ -887,6 +894,20 @@ export default function EditWorkspacePage() {
                                       ))}
                                     </Select>
                                   </FormControl>
+                                  <FormControl size="small" sx={{ flex: 1, minWidth: 160 }}>
+                                    <InputLabel>Combining</InputLabel>
+                                    <Select
+                                      value={env.combiningAlgorithm}
+                                      onChange={(e) => updateEnvironment(appIndex, envIndex, 'combiningAlgorithm', e.target.value)}
+                                      label="Combining"
+                                    >
+                                      {COMBINING_ALGORITHMS.map(algorithm => (
+                                        <MenuItem key={algorithm.value} value={algorithm.value}>
+                                          {algorithm.label}
+                                        </MenuItem>
+                                      ))}
+                                    </Select>
+                                  </FormControl>
                                   <FormControlLabel
                                     control={
                                       <Switch
@@ -37,6 +37,12 @@ import { useSnackbar } from '@/contexts/SnackbarContext';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { apiClient } from '@/lib/api';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import WorkspaceMembersCard from '@/components/workspace/WorkspaceMembersCard';
+import WorkspaceSsoCard from '@/components/workspace/WorkspaceSsoCard';
+import WorkspaceScimCard from '@/components/workspace/WorkspaceScimCard';
+import { useAuth } from '@/contexts/AuthContext';
+import { canManage } from '@/utils/permissions';
+import { WorkspaceSsoConfiguration } from '@/types';
 
 interface IWorkspaceSettings {
   _id: string;
@@ -49,13 +55,20 @@ interface IWorkspaceSettings {
   };
   settings: {
     allowedDomains?: string[];
+    ssoConfiguration?: WorkspaceSsoConfiguration;
     [key: string]: any;
   };
+  applications?: Array<{
+    _id: string;
+    displayName: string;
+    environments?: Array<{ _id: string; displayName: string }>;
+  }>;
 }
 
 export default function WorkspaceSettingsPage() {
   const { workspaceId } = useParams();
   const router = useRouter();
+  const { user } = useAuth();
   const { showError, showSuccess } = useSnackbar();
   
   const [loading, setLoading] = useState(true);
@@ -262,7 +275,7 @@ export default function WorkspaceSettingsPage() {
               Allowed Domains
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-              Restrict access to this workspace to specific domains
+              Restrict access to this workspace to specific domains. With single sign-on enabled, users of these domains sign in through its provider.
             </Typography>
 
             {workspace.settings?.allowedDomains && workspace.settings.allowedDomains.length > 0 ? (
@@ -304,6 +317,27 @@ export default function WorkspaceSettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Single Sign-On */}
+        {canManage(user, workspace._id) && (
+          <WorkspaceSsoCard
+            workspaceId={workspace._id}
+            ssoConfiguration={workspace.settings?.ssoConfiguration}
+            allowedDomains={workspace.settings?.allowedDomains}
+            onSaved={(ssoConfiguration) => setWorkspace(prev => prev ? {
+              ...prev,
+              settings: { ...prev.settings, ssoConfiguration }
+            } : null)}
+          />
+        )}
+
+        {/* SCIM Provisioning */}
+        {canManage(user, workspace._id) && (
+          <WorkspaceScimCard workspaceId={workspace._id} applications={workspace.applications || []} />
+        )}
+
+        {/* Members */}
+        {canManage(user, workspace._id) && <WorkspaceMembersCard workspaceId={workspace._id} />}
+
         {/* Workspace Information */}
         <Card>
           <CardContent>
@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Download as ExportIcon } from '@mui/icons-material';
+import { apiClient } from '@/lib/api';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { AccessEntityRef, AccessEntry, AccessReviewSummary } from '@/types';
+
+interface AccessReviewPanelProps {
+  kind: 'subject' | 'resource';
+  entityId: string;
+}
+
+const entityLabel = (entity: AccessEntityRef) => entity.displayName || entity.name || entity.id;
+
+/**
+ * Effective access of a subject (what it can do) or a resource (who can access it),
+ * computed by the backend from the environment's Active policies
+ */
+const AccessReviewPanel: React.FC<AccessReviewPanelProps> = ({ kind, entityId }) => {
+  const { currentWorkspace, currentApplication, currentEnvironment } = useWorkspace();
+  const [entries, setEntries] = useState<AccessEntry[]>([]);
+  const [summary, setSummary] = useState<AccessReviewSummary | null>(null);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [decision, setDecision] = useState<'all' | 'Allow' | 'Deny'>('all');
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const basePath = `/policies/access/${kind === 'subject' ? 'subjects' : 'resources'}/${encodeURIComponent(entityId)}`;
+  const scopeParams = useMemo(() => (
+    currentWorkspace && currentApplication && currentEnvironment
+      ? {
+        workspaceId: currentWorkspace._id,
+        applicationId: currentApplication._id,
+        environmentId: currentEnvironment._id,
+        ...(decision !== 'all' && { decision }),
+      }
+      : null
+  ), [currentWorkspace, currentApplication, currentEnvironment, decision]);
+
+  const fetchAccess = useCallback(async () => {
+    if (!scopeParams) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await apiClient.get<AccessEntry[]>(basePath, {
+        ...scopeParams,
+        page: page + 1,
+        limit: rowsPerPage,
+        sortBy: kind === 'subject' ? 'resource' : 'subject',
+        sortOrder: 'asc',
+      });
+
+      if (response.success) {
+        setEntries(response.data || []);
+        setTotal(response.pagination?.total || 0);
+        setSummary((response as any).summary || null);
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to load access review');
+    } finally {
+      setLoading(false);
+    }
+  }, [basePath, scopeParams, page, rowsPerPage, kind]);
+
+  useEffect(() => {
+    fetchAccess();
+  }, [fetchAccess]);
+
+  const handleExport = async () => {
+    if (!scopeParams) return;
+
+    setExporting(true);
+    try {
+      const blob = await apiClient.request<any>({
+        method: 'GET',
+        url: `${basePath}/export`,
+        params: { ...scopeParams, format: 'csv' },
+        responseType: 'blob',
+      });
+      const url = window.URL.createObjectURL(blob as unknown as Blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${kind}_access_${entityId}.csv`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to export access review');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!scopeParams) {
+    return (
+      <Alert severity="info">Select an environment to review effective access.</Alert>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5, flexWrap: 'wrap' }}>
+        <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 500, flexGrow: 1 }}>
+          {kind === 'subject' ? 'Effective access' : 'Who can access this resource'}
+          {summary && ` — ${summary.allowed} allowed, ${summary.denied} denied`}
+        </Typography>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>Decision</InputLabel>
+          <Select
+            value={decision}
+            label="Decision"
+            onChange={(e) => {
+              setDecision(e.target.value as 'all' | 'Allow' | 'Deny');
+              setPage(0);
+            }}
+          >
+            <MenuItem value="all">All</MenuItem>
+            <MenuItem value="Allow">Allow</MenuItem>
+            <MenuItem value="Deny">Deny</MenuItem>
+          </Select>
+        </FormControl>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={exporting ? <CircularProgress size={16} /> : <ExportIcon />}
+          onClick={handleExport}
+          disabled={exporting || total === 0}
+          sx={{ textTransform: 'none' }}
+        >
+          Export CSV
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 1.5 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer sx={{ border: '1px solid', borderColor: 'grey.200', borderRadius: 1 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{kind === 'subject' ? 'Resource' : 'Subject'}</TableCell>
+              <TableCell>Action</TableCell>
+              <TableCell>Decision</TableCell>
+              <TableCell>Reason</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <CircularProgress size={20} />
+                </TableCell>
+              </TableRow>
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <Typography variant="body2" color="text.secondary">
+                    No policy grants or denies access
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map(entry => (
+                <TableRow key={`${entry.subject.id}-${entry.action.id}-${entry.resource.id}`}>
+                  <TableCell>{entityLabel(kind === 'subject' ? entry.resource : entry.subject)}</TableCell>
+                  <TableCell>{entityLabel(entry.action)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={entry.decision}
+                      size="small"
+                      color={entry.decision === 'Allow' ? 'success' : 'error'}
+                      variant="outlined"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="caption" color="text.secondary">
+                      {entry.reason}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        rowsPerPageOptions={[5, 10, 25]}
+        component="div"
+        count={total}
+        rowsPerPage={rowsPerPage}
+        page={page}
+        onPageChange={(_, newPage) => setPage(newPage)}
+        onRowsPerPageChange={(e) => {
+          setRowsPerPage(parseInt(e.target.value, 10));
+          setPage(0);
+        }}
+      />
+    </Box>
+  );
+};
+
+export default AccessReviewPanel;
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { BreakGlassGrant, BreakGlassReviewOutcome } from '@/types';
+import { describeGrant, formatRemaining, getGrantStatus } from '@/utils/breakGlass';
+
+interface BreakGlassGrantDialogProps {
+  grant: BreakGlassGrant | null;
+  canRevoke: boolean;
+  canReview: boolean;
+  submitting: boolean;
+  onClose: () => void;
+  onRevoke: () => void;
+  onReview: (outcome: BreakGlassReviewOutcome, comment: string) => void;
+}
+
+/**
+ * Details of a break-glass grant, with revocation while it is active and the review once it has ended
+ */
+const BreakGlassGrantDialog: React.FC<BreakGlassGrantDialogProps> = ({
+  grant,
+  canRevoke,
+  canReview,
+  submitting,
+  onClose,
+  onRevoke,
+  onReview,
+}) => {
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    setComment('');
+  }, [grant?.id]);
+
+  const status = grant ? getGrantStatus(grant) : null;
+
+  return (
+    <Dialog open={!!grant} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {grant && describeGrant(grant)}
+          {status && <Chip label={status.label} size="small" color={status.color} />}
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {grant && (
+          <>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Requested by {grant.requestedBy.email} on {new Date(grant.createdAt).toLocaleString()}
+              {grant.status === 'active'
+                ? ` · ${formatRemaining(grant)}`
+                : ` · ended ${new Date(grant.endedAt || grant.expiresAt).toLocaleString()}`}
+            </Typography>
+            <Typography variant="body1" sx={{ my: 2 }}>{grant.justification}</Typography>
+            {grant.ticket && (
+              <Typography variant="body2" gutterBottom>Ticket: {grant.ticket.name}</Typography>
+            )}
+            {grant.revokedBy && (
+              <Typography variant="body2" gutterBottom>Revoked by {grant.revokedBy.email}</Typography>
+            )}
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Notified: {grant.notifiedAdmins.length > 0 ? grant.notifiedAdmins.join(', ') : 'no workspace admins found'}
+            </Typography>
+            {grant.review && (
+              <Alert severity={grant.review.outcome === 'justified' ? 'success' : 'error'} sx={{ mt: 2 }}>
+                Reviewed as {grant.review.outcome} by {grant.review.reviewedBy.email} on{' '}
+                {new Date(grant.review.reviewedAt).toLocaleString()}
+                {grant.review.comment && `: ${grant.review.comment}`}
+              </Alert>
+            )}
+            {canReview && (
+              <TextField
+                fullWidth
+                multiline
+                rows={2}
+                label="Review comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                helperText="Required when the access was not justified"
+                sx={{ mt: 2 }}
+              />
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 3 }}>
+        <Button onClick={onClose} variant="outlined" disabled={submitting}>
+          Close
+        </Button>
+        {canRevoke && (
+          <Button onClick={onRevoke} variant="contained" color="error" disabled={submitting}
+            startIcon={submitting ? <CircularProgress size={16} color="inherit" /> : undefined}>
+            Revoke Now
+          </Button>
+        )}
+        {canReview && (
+          <>
+            <Button onClick={() => onReview('unjustified', comment)} variant="outlined" color="error"
+              disabled={submitting || !comment.trim()}>
+              Unjustified
+            </Button>
+            <Button onClick={() => onReview('justified', comment)} variant="contained" color="success"
+              disabled={submitting}>
+              Justified
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BreakGlassGrantDialog;
@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { apiClient } from '@/lib/api';
+import { BreakGlassGrant } from '@/types';
+
+interface EntityOption {
+  id: string;
+  label: string;
+}
+
+interface BreakGlassRequestDialogProps {
+  open: boolean;
+  scope: { workspaceId: string; applicationId: string; environmentId: string } | null;
+  onClose: () => void;
+  onGranted: (grant: BreakGlassGrant, message?: string) => void;
+}
+
+const DURATIONS = [15, 30, 60, 120, 240, 480];
+const MIN_JUSTIFICATION = 10;
+
+const toOption = (entity: any): EntityOption => ({
+  id: entity.id,
+  label: entity.displayName || entity.name || entity.id,
+});
+
+const formatDuration = (minutes: number): string =>
+  minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+
+/**
+ * Requests short-lived emergency access to one resource of the current environment
+ */
+const BreakGlassRequestDialog: React.FC<BreakGlassRequestDialogProps> = ({ open, scope, onClose, onGranted }) => {
+  const [subjects, setSubjects] = useState<EntityOption[]>([]);
+  const [actions, setActions] = useState<EntityOption[]>([]);
+  const [resources, setResources] = useState<EntityOption[]>([]);
+  const [tickets, setTickets] = useState<EntityOption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [subject, setSubject] = useState<EntityOption | null>(null);
+  const [action, setAction] = useState<EntityOption | null>(null);
+  const [resource, setResource] = useState<EntityOption | null>(null);
+  const [ticket, setTicket] = useState<EntityOption | null>(null);
+  const [justification, setJustification] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !scope) return;
+
+    setSubject(null);
+    setAction(null);
+    setResource(null);
+    setTicket(null);
+    setJustification('');
+    setDurationMinutes(60);
+    setError(null);
+
+    const fetchEntities = async () => {
+      setLoading(true);
+      try {
+        const params = { page: 1, limit: 100, environmentId: scope.environmentId, sortBy: 'name', sortOrder: 'asc' };
+        const [subjectsResponse, actionsResponse, resourcesResponse, ticketsResponse] = await Promise.all([
+          apiClient.get('/subjects', params),
+          apiClient.get('/actions', params),
+          apiClient.get('/resources', params),
+          apiClient.get('/additional-resources', { ...params, type: 'ticket' }),
+        ]);
+        setSubjects((subjectsResponse.data || []).map(toOption));
+        setActions((actionsResponse.data || []).map(toOption));
+        setResources((resourcesResponse.data || []).map(toOption));
+        setTickets((ticketsResponse.data || []).map(toOption));
+      } catch (err: any) {
+        setError(err?.error || err?.message || 'Failed to load subjects, actions and resources');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntities();
+  }, [open, scope]);
+
+  const canSubmit = !!scope && !!subject && !!action && !!resource && justification.trim().length >= MIN_JUSTIFICATION;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await apiClient.post<BreakGlassGrant>('/break-glass', {
+        ...scope,
+        subjectId: subject!.id,
+        actionId: action!.id,
+        resourceId: resource!.id,
+        justification: justification.trim(),
+        ...(ticket && { ticketId: ticket.id }),
+        durationMinutes,
+      });
+      if (response.success && response.data) {
+        onGranted(response.data, response.message);
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to grant break-glass access');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const entityField = (
+    label: string,
+    options: EntityOption[],
+    value: EntityOption | null,
+    onChange: (value: EntityOption | null) => void,
+    required = true
+  ) => (
+    <Autocomplete
+      options={options}
+      value={value}
+      onChange={(_, selected) => onChange(selected)}
+      getOptionLabel={(option) => option.label}
+      isOptionEqualToValue={(option, selected) => option.id === selected.id}
+      loading={loading}
+      renderInput={(params) => <TextField {...params} label={label} required={required} />}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={submitting ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Break-Glass Access</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Emergency access is granted immediately, bypasses change approval and is logged as a critical
+          event. The workspace admins are notified and review it once it has ended.
+        </Alert>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          {entityField('Subject', subjects, subject, setSubject)}
+          {entityField('Action', actions, action, setAction)}
+          {entityField('Resource', resources, resource, setResource)}
+          <TextField
+            label="Justification"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            required
+            multiline
+            rows={3}
+            helperText={`Why this access is needed now (at least ${MIN_JUSTIFICATION} characters)`}
+          />
+          {entityField('Ticket', tickets, ticket, setTicket, false)}
+          <TextField
+            select
+            label="Duration"
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(Number(e.target.value))}
+            helperText="The access expires automatically"
+          >
+            {DURATIONS.map(minutes => (
+              <MenuItem key={minutes} value={minutes}>{formatDuration(minutes)}</MenuItem>
+            ))}
+          </TextField>
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 3 }}>
+        <Button onClick={onClose} variant="outlined" disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          color="error"
+          disabled={!canSubmit || submitting}
+          startIcon={submitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          Grant Access
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BreakGlassRequestDialog;
@@ -5,23 +5,31 @@ import { Box, Alert, AlertTitle, Button } from '@mui/material';
 import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { WorkspaceRole } from '@/types';
+import { hasWorkspaceRole } from '@/utils/permissions';
 
 interface RoleProtectionProps {
-  allowedRoles: string[];
+  allowedRoles?: string[];
+  workspaceRole?: WorkspaceRole; // Minimum role in the current workspace; takes precedence over allowedRoles
   children: React.ReactNode;
   fallback?: React.ReactNode;
 }
 
 export default function RoleProtection({
-  allowedRoles,
+  allowedRoles = [],
+  workspaceRole,
   children,
   fallback
 }: RoleProtectionProps) {
   const { user } = useAuth();
+  const { currentWorkspace } = useWorkspace();
   const router = useRouter();
 
   // Check if user has required role
-  const hasAccess = user?.role && allowedRoles.includes(user.role);
+  const hasAccess = workspaceRole
+    ? hasWorkspaceRole(user, workspaceRole, currentWorkspace?._id)
+    : user?.role && allowedRoles.includes(user.role);
 
   if (!hasAccess) {
     if (fallback) {
@@ -35,6 +35,9 @@ import {
   Timeline as TimelineIcon,
   Build as SetupIcon,
   Business as WorkspaceIcon,
+  FactCheck as ApprovalsIcon,
+  Emergency as BreakGlassIcon,
+  Devices as SessionsIcon,
 } from '@mui/icons-material';
 import { useRouter, usePathname } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
@@ -52,6 +55,8 @@ const menuItems = [
   { text: 'Dashboard', icon: DashboardIcon, path: '/dashboard', roles: ['basic', 'admin', 'super_admin'] },
   { text: 'Workspaces', icon: WorkspaceIcon, path: '/workspaces', roles: ['basic', 'admin', 'super_admin'] },
   { text: 'Policies', icon: SecurityIcon, path: '/policies', roles: ['basic', 'admin', 'super_admin'] },
+  { text: 'Approvals', icon: ApprovalsIcon, path: '/approvals', roles: ['basic', 'admin', 'super_admin'] },
+  { text: 'Break-Glass', icon: BreakGlassIcon, path: '/break-glass', roles: ['basic', 'admin', 'super_admin'] },
   { text: 'Subjects', icon: PeopleIcon, path: '/subjects', roles: ['basic', 'admin', 'super_admin'] },
   { text: 'Resources', icon: FolderIcon, path: '/resources', roles: ['basic', 'admin', 'super_admin'] },
   { text: 'Actions', icon: ActionIcon, path: '/actions', roles: ['basic', 'admin', 'super_admin'] },
@@ -295,7 +300,13 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
               />
             </Box>
 
-            <MenuItem onClick={handleLogout} sx={{ mt: 1 }}>
+            <MenuItem onClick={() => { handleProfileMenuClose(); router.push('/sessions'); }} sx={{ mt: 1 }}>
+              <ListItemIcon>
+                <SessionsIcon fontSize="small" />
+              </ListItemIcon>
+              Active Sessions
+            </MenuItem>
+            <MenuItem onClick={handleLogout}>
               <ListItemIcon>
                 <LogoutIcon fontSize="small" />
               </ListItemIcon>
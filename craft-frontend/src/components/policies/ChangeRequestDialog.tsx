@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  CheckCircle as ApproveIcon,
+  Cancel as RejectIcon,
+} from '@mui/icons-material';
+import { ChangeRequest } from '@/types';
+import {
+  describeChangeRequest,
+  formatApprovalProgress,
+  getChangedFields,
+  getChangeStatusColor,
+} from '@/utils/changeRequests';
+
+interface ChangeRequestDialogProps {
+  request: ChangeRequest | null;
+  canReview: boolean;
+  canCancel: boolean;
+  submitting: boolean;
+  onClose: () => void;
+  onReview: (decision: 'approve' | 'reject', comment: string) => void;
+  onCancelRequest: () => void;
+}
+
+/**
+ * Details of a policy change request with its reviews, and the approve/reject actions for approvers
+ */
+const ChangeRequestDialog: React.FC<ChangeRequestDialogProps> = ({
+  request,
+  canReview,
+  canCancel,
+  submitting,
+  onClose,
+  onReview,
+  onCancelRequest,
+}) => {
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    setComment('');
+  }, [request?.id]);
+
+  const changedFields = request ? getChangedFields(request) : [];
+  const regressionCheck = request?.regressionCheck;
+
+  return (
+    <Dialog open={!!request} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {request && describeChangeRequest(request)}
+          {request && <Chip label={request.status} size="small" color={getChangeStatusColor(request.status)} />}
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {request && (
+          <>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Requested by {request.requestedBy.email} on {new Date(request.createdAt).toLocaleString()}
+              {request.baseVersion && ` against version ${request.baseVersion}`} · {formatApprovalProgress(request)}
+            </Typography>
+            {request.comment && (
+              <Typography variant="body1" sx={{ my: 2 }}>{request.comment}</Typography>
+            )}
+            {request.error && (
+              <Alert severity="error" sx={{ my: 2 }}>{request.error}</Alert>
+            )}
+            {regressionCheck && regressionCheck.changes.length > 0 && (
+              <Alert severity={regressionCheck.regressions > 0 ? 'error' : 'warning'} sx={{ my: 2 }}>
+                {regressionCheck.changes.length} of {regressionCheck.checkedCases} stored test cases would change
+                decision: {regressionCheck.changes.map(change => `${change.name} (${change.previousDecision} → ${change.proposedDecision})`).join(', ')}
+              </Alert>
+            )}
+
+            {changedFields.length > 0 && (
+              <Box sx={{ my: 2 }}>
+                <Typography variant="subtitle2" gutterBottom>Changed Fields</Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {changedFields.map(field => <Chip key={field} label={field} size="small" variant="outlined" />)}
+                </Box>
+              </Box>
+            )}
+            {request.operation !== 'delete' && (
+              <Box sx={{ my: 2 }}>
+                <Typography variant="subtitle2" gutterBottom>
+                  {request.operation === 'create' ? 'New Policy' : 'Requested Values'}
+                </Typography>
+                <Box
+                  component="pre"
+                  sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1, fontSize: 12, maxHeight: 240, overflow: 'auto', m: 0 }}
+                >
+                  {JSON.stringify(request.payload, null, 2)}
+                </Box>
+              </Box>
+            )}
+
+            <Typography variant="subtitle2" sx={{ mt: 2 }}>Reviews</Typography>
+            {request.reviews.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">No reviews yet.</Typography>
+            ) : (
+              <List dense>
+                {request.reviews.map(review => (
+                  <ListItem key={review.reviewerId} disableGutters>
+                    <ListItemText
+                      primary={`${review.decision === 'approve' ? 'Approved' : 'Rejected'} by ${review.reviewerEmail}`}
+                      secondary={[new Date(review.reviewedAt).toLocaleString(), review.comment].filter(Boolean).join(' — ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+
+            {canReview && (
+              <TextField
+                label="Comment"
+                placeholder="Required when rejecting"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                fullWidth
+                multiline
+                minRows={2}
+                sx={{ mt: 2 }}
+              />
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 3 }}>
+        {canCancel && (
+          <Button onClick={onCancelRequest} color="inherit" disabled={submitting} sx={{ mr: 'auto' }}>
+            Withdraw Request
+          </Button>
+        )}
+        <Button onClick={onClose} variant="outlined" disabled={submitting}>
+          Close
+        </Button>
+        {canReview && (
+          <>
+            <Button
+              onClick={() => onReview('reject', comment)}
+              variant="outlined"
+              color="error"
+              disabled={submitting || !comment.trim()}
+              startIcon={<RejectIcon />}
+            >
+              Reject
+            </Button>
+            <Button
+              onClick={() => onReview('approve', comment)}
+              variant="contained"
+              color="success"
+              disabled={submitting}
+              startIcon={submitting ? <CircularProgress size={16} color="inherit" /> : <ApproveIcon />}
+            >
+              Approve
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ChangeRequestDialog;
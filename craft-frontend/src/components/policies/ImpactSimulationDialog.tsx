@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { ArrowForward as ArrowIcon } from '@mui/icons-material';
+import { ImpactEntry, ImpactSimulation, PolicyDecision } from '@/types';
+import { describeImpact, formatImpactEntry, hasImpact } from '@/utils/impactSimulation';
+
+interface ImpactSimulationDialogProps {
+  open: boolean;
+  simulation: ImpactSimulation | null;
+  error: string | null;
+  saving: boolean;
+  onCancel: () => void;
+  onSave: () => void;
+}
+
+// Rows shown per tab; the counts always cover every change found
+const MAX_ROWS = 200;
+
+const decisionColor = (decision: PolicyDecision) => {
+  if (decision === 'NotApplicable') return 'warning';
+  return decision === 'Allow' ? 'success' : 'error';
+};
+
+/**
+ * Lists the access grants an edit would add or remove, before the user decides to save it
+ */
+const ImpactSimulationDialog: React.FC<ImpactSimulationDialogProps> = ({
+  open,
+  simulation,
+  error,
+  saving,
+  onCancel,
+  onSave,
+}) => {
+  const [tab, setTab] = useState<'added' | 'removed'>('added');
+
+  useEffect(() => {
+    if (open && simulation) {
+      setTab(simulation.added.length === 0 && simulation.removed.length > 0 ? 'removed' : 'added');
+    }
+  }, [open, simulation]);
+
+  const entries: ImpactEntry[] = simulation ? simulation[tab] : [];
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>Change Impact</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            The impact of this change could not be simulated: {error}
+          </Alert>
+        )}
+        {simulation && (
+          <>
+            <Alert severity={hasImpact(simulation) ? 'warning' : 'success'} sx={{ mb: 2 }}>
+              {describeImpact(simulation)}
+            </Alert>
+            {hasImpact(simulation) && (
+              <>
+                <Tabs value={tab} onChange={(_event, value) => setTab(value)} sx={{ mb: 1 }}>
+                  <Tab value="added" label={`Added (${simulation.added.length})`} />
+                  <Tab value="removed" label={`Removed (${simulation.removed.length})`} />
+                </Tabs>
+                <TableContainer sx={{ maxHeight: 400 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Subject → Action → Resource</TableCell>
+                        <TableCell>Decision</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {entries.slice(0, MAX_ROWS).map(entry => (
+                        <TableRow key={`${entry.subject.id}-${entry.action.id}-${entry.resource.id}`}>
+                          <TableCell>
+                            <Tooltip title={entry.reason}>
+                              <Typography variant="body2">{formatImpactEntry(entry)}</Typography>
+                            </Tooltip>
+                          </TableCell>
+                          <TableCell>
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                              <Chip label={entry.previousDecision} size="small" color={decisionColor(entry.previousDecision)} variant="outlined" />
+                              <ArrowIcon fontSize="small" color="action" />
+                              <Chip label={entry.proposedDecision} size="small" color={decisionColor(entry.proposedDecision)} />
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+                {entries.length > MAX_ROWS && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                    Showing the first {MAX_ROWS} of {entries.length} combinations.
+                  </Typography>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 3 }}>
+        <Button onClick={onCancel} variant="outlined" disabled={saving}>
+          Keep Editing
+        </Button>
+        <Button
+          onClick={onSave}
+          variant="contained"
+          color={simulation && !hasImpact(simulation) ? 'primary' : 'warning'}
+          disabled={saving}
+          startIcon={saving ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          Save Change
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImpactSimulationDialog;
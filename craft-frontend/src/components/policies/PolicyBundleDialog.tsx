@@ -0,0 +1,394 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import { Download as ExportIcon, Upload as ImportIcon } from '@mui/icons-material';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { apiClient } from '@/lib/api';
+import {
+  BundleImportMode,
+  BundleImportPlan,
+  BundlePolicyAction,
+  ConversionExport,
+  ConversionImportPlan,
+  PolicyFileFormat,
+} from '@/types';
+import {
+  getBundleActionColor,
+  getBundleFilename,
+  getFormatLabel,
+  getPolicyFileFormat,
+  getValidationIssues,
+  hasImportableChanges,
+  isConversionFormat,
+} from '@/utils/policyBundles';
+import { getKindLabel } from '@/utils/promotion';
+
+interface PolicyBundleDialogProps {
+  open: boolean;
+  policyIds: string[];
+  canImport: boolean;
+  onClose: () => void;
+  onImported: (message: string) => void;
+}
+
+interface PolicyFile {
+  name: string;
+  content: string;
+  format: PolicyFileFormat;
+}
+
+const ACTION_ORDER: BundlePolicyAction[] = ['create', 'update', 'delete', 'conflict', 'unchanged'];
+
+const EXPORT_FORMATS: PolicyFileFormat[] = ['yaml', 'json', 'xacml', 'iam'];
+
+const MODE_DESCRIPTIONS: Record<BundleImportMode, string> = {
+  merge: 'Adds the bundle\'s policies; policies whose name is already taken are skipped as conflicts.',
+  replace: 'Makes the environment match the bundle: same-named policies are updated and policies missing from the bundle are deleted.',
+};
+
+const CONVERSION_DESCRIPTION = 'Converted policies are imported as drafts; policies whose name is already taken are skipped as conflicts.';
+
+// Bundles go through the bundle importer, XACML and IAM documents through the converter
+const postImport = (environmentId: string, file: PolicyFile, mode: BundleImportMode, dryRun: boolean) => {
+  if (isConversionFormat(file.format)) {
+    return apiClient.post<ConversionImportPlan>('/policies/convert/import', {
+      environmentId,
+      format: file.format,
+      content: file.content,
+      dryRun,
+    });
+  }
+  return apiClient.post<BundleImportPlan>('/policies/bundle/import', {
+    environmentId,
+    content: file.content,
+    mode,
+    dryRun,
+  });
+};
+
+/**
+ * Exports the current environment's policies as a JSON or YAML bundle, a XACML 3.0 policy set or
+ * IAM-style policy documents, and imports any of them into it after a dry run showing what would
+ * be created, updated, deleted or conflict
+ */
+const PolicyBundleDialog: React.FC<PolicyBundleDialogProps> = ({ open, policyIds, canImport, onClose, onImported }) => {
+  const { currentEnvironment } = useWorkspace();
+  const environmentId = currentEnvironment?._id || '';
+
+  const [tab, setTab] = useState(0);
+  const [format, setFormat] = useState<PolicyFileFormat>('yaml');
+  const [exporting, setExporting] = useState(false);
+  const [file, setFile] = useState<PolicyFile | null>(null);
+  const [mode, setMode] = useState<BundleImportMode>('merge');
+  const [plan, setPlan] = useState<BundleImportPlan | ConversionImportPlan | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setTab(0);
+      setFile(null);
+      setMode('merge');
+      setError(null);
+      setIssues([]);
+      setWarnings([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setWarnings([]);
+    if (!open || !file || !environmentId) {
+      setPlan(null);
+      return;
+    }
+
+    const fetchPlan = async () => {
+      setLoading(true);
+      setError(null);
+      setIssues([]);
+      try {
+        const response = await postImport(environmentId, file, mode, true);
+        if (response.success && response.data) {
+          setPlan(response.data);
+          setWarnings((response.data as ConversionImportPlan).warnings || []);
+        }
+      } catch (err: any) {
+        setPlan(null);
+        setError(err?.error || err?.message || 'Failed to preview import');
+        setIssues(getValidationIssues(err?.details));
+        setWarnings(err?.details?.warnings || []);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlan();
+  }, [open, environmentId, file, mode]);
+
+  const download = (blob: Blob) => {
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getBundleFilename(currentEnvironment?.name || '', format);
+    link.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleExport = async () => {
+    if (!environmentId) return;
+
+    setExporting(true);
+    setError(null);
+    setWarnings([]);
+    try {
+      if (isConversionFormat(format)) {
+        const response = await apiClient.get<ConversionExport>('/policies/convert/export', {
+          environmentId,
+          format,
+          ...(policyIds.length > 0 && { policyIds: policyIds.join(',') }),
+        });
+        if (response.success && response.data) {
+          download(new Blob([response.data.content], { type: format === 'xacml' ? 'application/xml' : 'application/json' }));
+          setWarnings(response.data.warnings);
+        }
+        return;
+      }
+
+      const blob = await apiClient.request<any>({
+        method: 'GET',
+        url: '/policies/bundle/export',
+        params: { environmentId, format, ...(policyIds.length > 0 && { policyIds: policyIds.join(',') }) },
+        responseType: 'blob',
+      });
+      download(blob as unknown as Blob);
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to export policies');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    const content = await selected.text();
+    setFile({ name: selected.name, content, format: getPolicyFileFormat(selected.name, content) });
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const response = await postImport(environmentId, file, mode, false);
+      if (response.success) {
+        onImported(response.message || 'Policies imported');
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to import policies');
+      setIssues(getValidationIssues(err?.details));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const sortByAction = <T extends { action: BundlePolicyAction }>(items: T[]): T[] =>
+    [...items].sort((a, b) => ACTION_ORDER.indexOf(a.action) - ACTION_ORDER.indexOf(b.action));
+
+  const busy = exporting || importing;
+  const converting = !!file && isConversionFormat(file.format);
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Policy Bundles</DialogTitle>
+      <DialogContent>
+        <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}>
+          <Tabs value={tab} onChange={(_event, value) => { setTab(value); setError(null); setWarnings([]); }}>
+            <Tab label="Export" />
+            <Tab label="Import" disabled={!canImport} />
+          </Tabs>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => { setError(null); setIssues([]); }}>
+            {error}
+            {issues.length > 0 && (
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {issues.map(issue => <li key={issue}>{issue}</li>)}
+              </Box>
+            )}
+          </Alert>
+        )}
+        {warnings.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {tab === 0 ? 'Some parts of the policies cannot be expressed in this format:' : 'Some parts of the file cannot be expressed in CRAFT:'}
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </Box>
+          </Alert>
+        )}
+
+        {tab === 0 && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Downloads {policyIds.length > 0 ? `the ${policyIds.length} selected` : 'all'} policies of{' '}
+              {currentEnvironment?.displayName || 'the current environment'} with the subjects, actions, resources,
+              additional resources and attributes they reference, ready to be kept in version control. XACML 3.0
+              and IAM JSON exports contain the policies only, for systems that speak those formats.
+            </Typography>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel>Format</InputLabel>
+              <Select value={format} label="Format" onChange={(e) => { setFormat(e.target.value as PolicyFileFormat); setWarnings([]); }}>
+                {EXPORT_FORMATS.map(option => (
+                  <MenuItem key={option} value={option}>{getFormatLabel(option)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </>
+        )}
+
+        {tab === 1 && (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1, flexWrap: 'wrap' }}>
+              <Button component="label" variant="outlined" startIcon={<ImportIcon />} disabled={busy}>
+                {file ? 'Choose Another File' : 'Choose Bundle File'}
+                <input type="file" hidden accept=".json,.yaml,.yml,.xml" onChange={handleFileChange} />
+              </Button>
+              {file && (
+                <Chip label={`${file.name} (${getFormatLabel(file.format)})`} onDelete={() => setFile(null)} />
+              )}
+              {!converting && (
+                <FormControl size="small" sx={{ minWidth: 160, ml: 'auto' }}>
+                  <InputLabel>Mode</InputLabel>
+                  <Select value={mode} label="Mode" onChange={(e) => setMode(e.target.value as BundleImportMode)}>
+                    <MenuItem value="merge">Merge</MenuItem>
+                    <MenuItem value="replace">Replace</MenuItem>
+                  </Select>
+                </FormControl>
+              )}
+            </Box>
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 2 }}>
+              {converting ? CONVERSION_DESCRIPTION : MODE_DESCRIPTIONS[mode]}
+            </Typography>
+
+            {loading && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                <CircularProgress />
+              </Box>
+            )}
+
+            {!loading && plan && (
+              <>
+                <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+                  {ACTION_ORDER.map(action => (
+                    <Chip
+                      key={action}
+                      label={`${plan.summary[action]} ${action === 'conflict' ? 'conflicting' : action === 'unchanged' ? 'unchanged' : `to ${action}`}`}
+                      color={getBundleActionColor(action)}
+                      variant="outlined"
+                      size="small"
+                    />
+                  ))}
+                </Box>
+                {plan.unresolved.length > 0 && (
+                  <Alert severity="warning" sx={{ mb: 2 }}>
+                    These references match no {converting ? 'subject, action or resource of the environment' : 'entity in the bundle'} and
+                    are imported as they are:{' '}
+                    {plan.unresolved.map(item => `${getKindLabel(item.kind)} ${item.ref}`).join(', ')}
+                  </Alert>
+                )}
+
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Policy</TableCell>
+                      <TableCell>Plan</TableCell>
+                      <TableCell>Details</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {sortByAction(plan.policies).map(policy => (
+                      <TableRow key={`${policy.action}-${policy.name}`}>
+                        <TableCell>{policy.name}</TableCell>
+                        <TableCell>
+                          <Chip label={policy.action} size="small" color={getBundleActionColor(policy.action)} />
+                        </TableCell>
+                        <TableCell>
+                          <Typography variant="body2" color={policy.action === 'conflict' ? 'error' : 'text.secondary'}>
+                            {policy.reason || policy.summary}
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {plan.entities.length > 0 && (
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                    Referenced entities: {plan.entities.filter(entity => entity.action === 'create').length} to create,{' '}
+                    {plan.entities.filter(entity => entity.action === 'update').length} to update,{' '}
+                    {plan.entities.filter(entity => entity.action === 'conflict').length} conflicting.
+                  </Typography>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 3 }}>
+        <Button onClick={onClose} variant="outlined" disabled={busy}>
+          Cancel
+        </Button>
+        {tab === 0 ? (
+          <Button
+            onClick={handleExport}
+            variant="contained"
+            disabled={exporting || !environmentId}
+            startIcon={exporting ? <CircularProgress size={16} color="inherit" /> : <ExportIcon />}
+          >
+            Export
+          </Button>
+        ) : (
+          <Button
+            onClick={handleImport}
+            variant="contained"
+            color={mode === 'replace' && !converting ? 'warning' : 'primary'}
+            disabled={importing || loading || !plan || !hasImportableChanges(plan)}
+            startIcon={importing ? <CircularProgress size={16} color="inherit" /> : <ImportIcon />}
+          >
+            {mode === 'replace' && !converting ? 'Replace Policies' : 'Import'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PolicyBundleDialog;
@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { Alert, Box, Button, TextField, Typography } from '@mui/material';
+import { PolicyDslError } from '@/utils/policyDsl';
+
+interface PolicyDslEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  error: PolicyDslError | null;
+  ruleCount: number;
+  disabled?: boolean;
+}
+
+const SYNTAX_HELP = [
+  'allow|deny [subject "id" [where attr op value and ...]] action "id" on resource ["id"] [where ...] [when field op value and ...]',
+  'require "additional-resource-id" [where attr op value and ...]',
+  'Operators: == != > < >= <= contains, in, includes (each with not), before, after, on_or_before, on_or_after, between a and b',
+];
+
+/**
+ * Text editor for policies in the policy language, pointing at the exact location of parse errors
+ */
+const PolicyDslEditor: React.FC<PolicyDslEditorProps> = ({ value, onChange, error, ruleCount, disabled }) => {
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const errorLine = error ? value.split('\n')[error.line - 1] ?? '' : '';
+
+  const showError = () => {
+    if (!error || !inputRef.current) return;
+    inputRef.current.focus();
+    inputRef.current.setSelectionRange(error.offset, error.offset + Math.max(error.length, 1));
+  };
+
+  return (
+    <Box>
+      <TextField
+        fullWidth
+        multiline
+        minRows={8}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        inputRef={inputRef}
+        disabled={disabled}
+        error={!!error}
+        placeholder={'allow action "read" on resource where classification in [internal]\n  when subject.department == "Finance"'}
+        inputProps={{ spellCheck: false, style: { fontFamily: 'monospace', fontSize: 14 } }}
+      />
+
+      {error ? (
+        <Alert
+          severity="error"
+          sx={{ mt: 1 }}
+          action={<Button color="inherit" size="small" onClick={showError}>Show</Button>}
+        >
+          Line {error.line}, column {error.column}: {error.message}
+          {errorLine.trim() && (
+            <Box component="pre" sx={{ m: 0, mt: 1, fontFamily: 'monospace', fontSize: 13, whiteSpace: 'pre', overflowX: 'auto' }}>
+              {`${errorLine}\n${' '.repeat(error.column - 1)}${'^'.repeat(Math.max(error.length, 1))}`}
+            </Box>
+          )}
+        </Alert>
+      ) : (
+        <Typography variant="caption" color="success.main" display="block" sx={{ mt: 1 }}>
+          Valid policy with {ruleCount} rule{ruleCount === 1 ? '' : 's'}
+        </Typography>
+      )}
+
+      <Box sx={{ mt: 2, p: 1.5, bgcolor: 'grey.50', borderRadius: 1 }}>
+        {SYNTAX_HELP.map(line => (
+          <Typography key={line} variant="caption" component="div" sx={{ fontFamily: 'monospace' }}>
+            {line}
+          </Typography>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default PolicyDslEditor;
@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddedIcon,
+  Remove as RemovedIcon,
+  Edit as ModifiedIcon,
+  History as RollbackIcon,
+  ArrowForward as ArrowIcon,
+} from '@mui/icons-material';
+import { apiClient } from '@/lib/api';
+import { PolicyRevision, PolicyRevisionDiff, PolicyRuleChange } from '@/types';
+import {
+  describeRuleChange,
+  formatDiffValue,
+  getBumpColor,
+  getFieldLabel,
+  sortRevisions,
+} from '@/utils/policyRevisions';
+
+interface PolicyHistoryPanelProps {
+  policyId: string;
+  currentVersion: string;
+  canRollback: boolean;
+  onRolledBack: () => void;
+}
+
+const RULE_CHANGE_ICONS: Record<PolicyRuleChange['change'], React.ReactNode> = {
+  added: <AddedIcon color="success" fontSize="small" />,
+  removed: <RemovedIcon color="error" fontSize="small" />,
+  modified: <ModifiedIcon color="warning" fontSize="small" />,
+};
+
+/**
+ * Revision history of a policy with a rule-level diff between any two revisions and rollback
+ */
+const PolicyHistoryPanel: React.FC<PolicyHistoryPanelProps> = ({
+  policyId,
+  currentVersion,
+  canRollback,
+  onRolledBack,
+}) => {
+  const [revisions, setRevisions] = useState<PolicyRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromVersion, setFromVersion] = useState('');
+  const [toVersion, setToVersion] = useState('');
+  const [diff, setDiff] = useState<PolicyRevisionDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [rollbackTarget, setRollbackTarget] = useState<PolicyRevision | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [rollbackMessage, setRollbackMessage] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiClient.get<PolicyRevision[]>(`/policies/${policyId}/revisions`, { page: 1, limit: 100 });
+      if (response.success) {
+        const sorted = sortRevisions(response.data || []);
+        setRevisions(sorted);
+        // Compare the latest revision with the one before it by default
+        setToVersion(sorted[0]?.version || '');
+        setFromVersion(sorted[1]?.version || sorted[0]?.version || '');
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to load revision history');
+    } finally {
+      setLoading(false);
+    }
+  }, [policyId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  useEffect(() => {
+    if (!fromVersion || !toVersion || fromVersion === toVersion) {
+      setDiff(null);
+      return;
+    }
+
+    const fetchDiff = async () => {
+      setDiffLoading(true);
+      try {
+        const response = await apiClient.get<PolicyRevisionDiff>(`/policies/${policyId}/revisions/diff`, {
+          from: fromVersion,
+          to: toVersion,
+        });
+        if (response.success && response.data) {
+          setDiff(response.data);
+        }
+      } catch (err: any) {
+        setError(err?.error || err?.message || 'Failed to compare revisions');
+      } finally {
+        setDiffLoading(false);
+      }
+    };
+
+    fetchDiff();
+  }, [policyId, fromVersion, toVersion]);
+
+  const handleRollback = async () => {
+    if (!rollbackTarget) return;
+
+    setRollingBack(true);
+    try {
+      const response = await apiClient.post(`/policies/${policyId}/revisions/${rollbackTarget.version}/rollback`);
+      if (response.success) {
+        setRollbackMessage(response.message || `Rolled back to ${rollbackTarget.version}`);
+        setRollbackTarget(null);
+        await fetchRevisions();
+        onRolledBack();
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to roll back policy');
+      setRollbackTarget(null);
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {rollbackMessage && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setRollbackMessage(null)}>
+          {rollbackMessage}
+        </Alert>
+      )}
+
+      {revisions.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+          No revisions recorded yet. A revision is stored the next time this policy is saved.
+        </Typography>
+      ) : (
+        <TableContainer sx={{ mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Version</TableCell>
+                <TableCell>Change</TableCell>
+                <TableCell>Author</TableCell>
+                <TableCell>Saved</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {revisions.map(revision => (
+                <TableRow key={revision.version} hover>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography variant="subtitle2" fontFamily="monospace">
+                        {revision.version}
+                      </Typography>
+                      <Chip label={revision.bump} size="small" color={getBumpColor(revision.bump)} variant="outlined" />
+                      {revision.version === currentVersion && <Chip label="Current" size="small" color="primary" />}
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{revision.summary}</Typography>
+                  </TableCell>
+                  <TableCell>{revision.author}</TableCell>
+                  <TableCell>{new Date(revision.createdAt).toLocaleString()}</TableCell>
+                  <TableCell align="right">
+                    {canRollback && revision.version !== currentVersion && (
+                      <Tooltip title={`Restore ${revision.version} as a new version`}>
+                        <Button size="small" startIcon={<RollbackIcon />} onClick={() => setRollbackTarget(revision)}>
+                          Roll Back
+                        </Button>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {revisions.length > 1 && (
+        <Paper variant="outlined" sx={{ p: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+            <Typography variant="subtitle1" fontWeight="medium" sx={{ flexGrow: 1 }}>
+              Compare Revisions
+            </Typography>
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel>From</InputLabel>
+              <Select value={fromVersion} label="From" onChange={(e) => setFromVersion(e.target.value)}>
+                {revisions.map(revision => (
+                  <MenuItem key={revision.version} value={revision.version}>{revision.version}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ArrowIcon color="action" />
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <InputLabel>To</InputLabel>
+              <Select value={toVersion} label="To" onChange={(e) => setToVersion(e.target.value)}>
+                {revisions.map(revision => (
+                  <MenuItem key={revision.version} value={revision.version}>{revision.version}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          {diffLoading && <CircularProgress size={24} />}
+          {!diffLoading && fromVersion === toVersion && (
+            <Typography variant="body2" color="text.secondary">Select two different revisions to compare.</Typography>
+          )}
+          {!diffLoading && diff && diff.fields.length === 0 && diff.rules.length === 0 && (
+            <Typography variant="body2" color="text.secondary">The revisions have the same content.</Typography>
+          )}
+          {!diffLoading && diff && diff.fields.length > 0 && (
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>{diff.from}</TableCell>
+                  <TableCell>{diff.to}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {diff.fields.map(change => (
+                  <TableRow key={change.field}>
+                    <TableCell>{getFieldLabel(change.field)}</TableCell>
+                    <TableCell sx={{ color: 'error.main', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                      {formatDiffValue(change.from)}
+                    </TableCell>
+                    <TableCell sx={{ color: 'success.main', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                      {formatDiffValue(change.to)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {!diffLoading && diff && diff.rules.length > 0 && (
+            <List dense>
+              {diff.rules.map(change => (
+                <ListItem key={`${change.kind}-${change.key}`} alignItems="flex-start">
+                  <ListItemIcon sx={{ minWidth: 32, mt: 0.5 }}>{RULE_CHANGE_ICONS[change.change]}</ListItemIcon>
+                  <ListItemText
+                    primary={describeRuleChange(change)}
+                    secondary={change.change === 'modified' ? change.fields.map(field => (
+                      <Box component="span" key={field} sx={{ display: 'block', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                        {field}: {formatDiffValue(change.before?.[field])} → {formatDiffValue(change.after?.[field])}
+                      </Box>
+                    )) : undefined}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </Paper>
+      )}
+
+      <Dialog open={!!rollbackTarget} onClose={() => setRollbackTarget(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Roll Back Policy</DialogTitle>
+        <DialogContent>
+          <Typography variant="body1" color="text.secondary">
+            Restore the content of version {rollbackTarget?.version}? The policy keeps its history and the
+            restored content is saved as a new version.
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 3 }}>
+          <Button onClick={() => setRollbackTarget(null)} variant="outlined" disabled={rollingBack}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRollback}
+            variant="contained"
+            disabled={rollingBack}
+            startIcon={rollingBack ? <CircularProgress size={16} color="inherit" /> : <RollbackIcon />}
+          >
+            Roll Back
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PolicyHistoryPanel;
@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Publish as PromoteIcon } from '@mui/icons-material';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { apiClient } from '@/lib/api';
+import { PromotionAction, PromotionPlan } from '@/types';
+import {
+  getKindLabel,
+  getPromotionActionColor,
+  getPromotionTargets,
+  hasPromotableChanges,
+} from '@/utils/promotion';
+
+interface PromotionDialogProps {
+  open: boolean;
+  policyIds: string[];
+  onClose: () => void;
+  onPromoted: (message: string) => void;
+}
+
+const ACTION_ORDER: PromotionAction[] = ['create', 'update', 'conflict', 'unchanged'];
+
+/**
+ * Promotes selected policies and the entities they reference to another environment, after a
+ * dry run showing what would be created, updated or conflict
+ */
+const PromotionDialog: React.FC<PromotionDialogProps> = ({ open, policyIds, onClose, onPromoted }) => {
+  const { currentEnvironment, environments } = useWorkspace();
+  const sourceId = currentEnvironment?._id || '';
+  const targets = useMemo(() => getPromotionTargets(environments, sourceId), [environments, sourceId]);
+
+  const [targetId, setTargetId] = useState('');
+  const [overwrite, setOverwrite] = useState(false);
+  const [plan, setPlan] = useState<PromotionPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [promoting, setPromoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setTargetId(targets[0]?._id || '');
+      setOverwrite(false);
+      setError(null);
+    }
+  }, [open, targets]);
+
+  useEffect(() => {
+    if (!open || !targetId || policyIds.length === 0) {
+      setPlan(null);
+      return;
+    }
+
+    const fetchPlan = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await apiClient.post<PromotionPlan>('/policies/promote', {
+          sourceEnvironmentId: sourceId,
+          targetEnvironmentId: targetId,
+          policyIds,
+          overwrite,
+          dryRun: true,
+        });
+        if (response.success && response.data) {
+          setPlan(response.data);
+        }
+      } catch (err: any) {
+        setPlan(null);
+        setError(err?.error || err?.message || 'Failed to preview promotion');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlan();
+  }, [open, sourceId, targetId, policyIds, overwrite]);
+
+  const handlePromote = async () => {
+    setPromoting(true);
+    try {
+      const response = await apiClient.post<PromotionPlan>('/policies/promote', {
+        sourceEnvironmentId: sourceId,
+        targetEnvironmentId: targetId,
+        policyIds,
+        overwrite,
+        dryRun: false,
+      });
+      if (response.success) {
+        onPromoted(response.message || 'Policies promoted');
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to promote policies');
+    } finally {
+      setPromoting(false);
+    }
+  };
+
+  const sortByAction = <T extends { action: PromotionAction }>(items: T[]): T[] =>
+    [...items].sort((a, b) => ACTION_ORDER.indexOf(a.action) - ACTION_ORDER.indexOf(b.action));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Promote {policyIds.length} {policyIds.length === 1 ? 'Policy' : 'Policies'}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1, mb: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            From {currentEnvironment?.displayName || 'the current environment'} to
+          </Typography>
+          <FormControl size="small" sx={{ minWidth: 200 }} disabled={targets.length === 0}>
+            <InputLabel>Target Environment</InputLabel>
+            <Select value={targetId} label="Target Environment" onChange={(e) => setTargetId(e.target.value)}>
+              {targets.map(environment => (
+                <MenuItem key={environment._id} value={environment._id}>{environment.displayName}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControlLabel
+            control={<Checkbox checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} />}
+            label="Overwrite conflicts"
+          />
+        </Box>
+
+        {targets.length === 0 && (
+          <Alert severity="info">No environment of this application accepts promotions from this one.</Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>
+        )}
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {!loading && plan && (
+          <>
+            <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+              {ACTION_ORDER.map(action => (
+                <Chip
+                  key={action}
+                  label={`${plan.summary[action]} ${action === 'conflict' ? 'conflicting' : action === 'unchanged' ? 'unchanged' : `to ${action}`}`}
+                  color={getPromotionActionColor(action)}
+                  variant="outlined"
+                  size="small"
+                />
+              ))}
+            </Box>
+            {plan.unresolved.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                These references match nothing in the source environment and are copied as they are:{' '}
+                {plan.unresolved.map(item => `${getKindLabel(item.kind)} ${item.ref}`).join(', ')}
+              </Alert>
+            )}
+
+            <Typography variant="subtitle2" gutterBottom>Policies</Typography>
+            <Table size="small" sx={{ mb: 3 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Policy</TableCell>
+                  <TableCell>Plan</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {sortByAction(plan.policies).map(policy => (
+                  <TableRow key={policy.sourceId}>
+                    <TableCell>{policy.name}</TableCell>
+                    <TableCell>
+                      <Chip label={policy.action} size="small" color={getPromotionActionColor(policy.action)} />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color={policy.action === 'conflict' ? 'error' : 'text.secondary'}>
+                        {policy.reason || policy.summary}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {plan.entities.length > 0 && (
+              <>
+                <Typography variant="subtitle2" gutterBottom>Referenced Entities</Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Entity</TableCell>
+                      <TableCell>Plan</TableCell>
+                      <TableCell>Target ID</TableCell>
+                      <TableCell>Details</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {sortByAction(plan.entities).map(entity => (
+                      <TableRow key={`${entity.kind}-${entity.sourceId}`}>
+                        <TableCell>
+                          <Typography variant="body2">{entity.name}</Typography>
+                          <Typography variant="caption" color="text.secondary">{getKindLabel(entity.kind)}</Typography>
+                        </TableCell>
+                        <TableCell>
+                          <Chip label={entity.action} size="small" color={getPromotionActionColor(entity.action)} />
+                        </TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace', fontSize: 12 }}>
+                          {entity.targetId}
+                          {entity.targetId !== entity.sourceId && (
+                            <Typography variant="caption" display="block" color="text.secondary">
+                              remapped from {entity.sourceId}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Typography variant="body2" color={entity.action === 'conflict' ? 'error' : 'text.secondary'}>
+                            {entity.reason || (entity.fields.length > 0 ? `Changes ${entity.fields.join(', ')}` : '')}
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 3 }}>
+        <Button onClick={onClose} variant="outlined" disabled={promoting}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handlePromote}
+          variant="contained"
+          disabled={promoting || loading || !plan || !hasPromotableChanges(plan)}
+          startIcon={promoting ? <CircularProgress size={16} color="inherit" /> : <PromoteIcon />}
+        >
+          Promote
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PromotionDialog;
@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { ArrowForward as ArrowIcon } from '@mui/icons-material';
+import { PolicyDecision, PolicyRegressionCheck } from '@/types';
+
+interface RegressionCheckDialogProps {
+  open: boolean;
+  check: PolicyRegressionCheck | null;
+  saving: boolean;
+  onCancel: () => void;
+  onSaveAnyway: () => void;
+}
+
+const decisionColor = (decision: PolicyDecision) => {
+  if (decision === 'NotApplicable') return 'warning';
+  return decision === 'Allow' ? 'success' : 'error';
+};
+
+/**
+ * Lists the stored test cases a policy change would flip, before the user decides to save anyway
+ */
+const RegressionCheckDialog: React.FC<RegressionCheckDialogProps> = ({
+  open,
+  check,
+  saving,
+  onCancel,
+  onSaveAnyway,
+}) => (
+  <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+    <DialogTitle>Test Cases Would Change Decision</DialogTitle>
+    <DialogContent>
+      {check && (
+        <>
+          <Alert severity={check.regressions > 0 ? 'error' : 'warning'} sx={{ mb: 2 }}>
+            {check.changes.length} of {check.checkedCases} stored test cases would change decision
+            {check.regressions > 0 && `, ${check.regressions} of them no longer matching the expected decision`}.
+          </Alert>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Test Case</TableCell>
+                  <TableCell>Suite</TableCell>
+                  <TableCell>Decision</TableCell>
+                  <TableCell>Expected</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {check.changes.map(change => (
+                  <TableRow key={`${change.suiteId}-${change.caseId}`}>
+                    <TableCell>
+                      <Tooltip title={change.reason}>
+                        <Typography variant="subtitle2">{change.name}</Typography>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>{change.suiteName}</TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Chip label={change.previousDecision} size="small" color={decisionColor(change.previousDecision)} variant="outlined" />
+                        <ArrowIcon fontSize="small" color="action" />
+                        <Chip label={change.proposedDecision} size="small" color={decisionColor(change.proposedDecision)} />
+                      </Box>
+                    </TableCell>
+                    <TableCell>{change.expectedDecision}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </DialogContent>
+    <DialogActions sx={{ px: 3, pb: 3 }}>
+      <Button onClick={onCancel} variant="outlined" disabled={saving}>
+        Keep Editing
+      </Button>
+      <Button
+        onClick={onSaveAnyway}
+        variant="contained"
+        color="warning"
+        disabled={saving}
+        startIcon={saving ? <CircularProgress size={16} color="inherit" /> : undefined}
+      >
+        Save Anyway
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default RegressionCheckDialog;
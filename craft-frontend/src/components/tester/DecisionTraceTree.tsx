@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Chip,
+  Collapse,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import {
+  ExpandLess as ExpandLessIcon,
+  ExpandMore as ExpandMoreIcon,
+  CheckCircle as PassIcon,
+  Cancel as FailIcon,
+  RadioButtonUnchecked as SkippedIcon,
+  Flag as FinalIcon,
+} from '@mui/icons-material';
+import { AttributeTrace, DecisionTrace, DependencyTrace, PolicyTrace, RuleTrace } from '@/types';
+import { formatAttributeTrace, formatTraceValue, isOutsideWindow, isResourceBlocked } from '@/utils/decisionTrace';
+
+interface DecisionTraceTreeProps {
+  trace: DecisionTrace;
+}
+
+const StatusIcon: React.FC<{ passed: boolean; skipped?: boolean }> = ({ passed, skipped }) => {
+  if (skipped) return <SkippedIcon fontSize="small" color="disabled" />;
+  return passed ? <PassIcon fontSize="small" color="success" /> : <FailIcon fontSize="small" color="error" />;
+};
+
+const AttributeRow: React.FC<{ attribute: AttributeTrace; depth: number }> = ({ attribute, depth }) => (
+  <ListItemButton sx={{ pl: depth * 2 }} disableRipple>
+    <ListItemIcon sx={{ minWidth: 32 }}>
+      <StatusIcon passed={attribute.passed} />
+    </ListItemIcon>
+    <ListItemText
+      primary={
+        <Typography variant="body2" fontFamily="monospace">
+          {formatAttributeTrace(attribute)}
+        </Typography>
+      }
+      secondary={`actual ${formatTraceValue(attribute.actual)} — ${attribute.message}`}
+    />
+  </ListItemButton>
+);
+
+const describeDependency = (dependency: DependencyTrace): string => {
+  if (!dependency.triggered) return `Not triggered by ${dependency.triggerResource}`;
+  const changes = [
+    ...(dependency.enabledResources.length > 0 ? [`enabled ${dependency.enabledResources.join(', ')}`] : []),
+    ...(dependency.disabledResources.length > 0 ? [`disabled ${dependency.disabledResources.join(', ')}`] : []),
+  ];
+  return `Triggered by ${dependency.triggerResource}${changes.length > 0 ? ` — ${changes.join('; ')}` : ''}`;
+};
+
+const DependencyRow: React.FC<{ dependency: DependencyTrace }> = ({ dependency }) => (
+  <>
+    <ListItemButton sx={{ pl: 6 }} disableRipple>
+      <ListItemIcon sx={{ minWidth: 32 }}>
+        <StatusIcon passed={dependency.triggered} skipped={!dependency.triggered} />
+      </ListItemIcon>
+      <ListItemText
+        primary={`Dependency rule ${dependency.ruleName} (priority ${dependency.priority})`}
+        secondary={describeDependency(dependency)}
+      />
+    </ListItemButton>
+    {dependency.conditions.map((condition, index) => (
+      <AttributeRow key={`${dependency.ruleId}-${index}`} attribute={condition} depth={4} />
+    ))}
+  </>
+);
+
+const describeRuleStatus = (rule: RuleTrace, targeted: boolean): string => {
+  if (!targeted) return 'Not targeted by this request';
+  if (rule.matched) return 'Matched';
+  if (isResourceBlocked(rule)) return rule.resourceAccess!.message;
+  if (isOutsideWindow(rule)) return 'Outside allowed window';
+  return 'Attribute checks failed';
+};
+
+const RuleNode: React.FC<{ rule: RuleTrace }> = ({ rule }) => {
+  const [open, setOpen] = useState(rule.matched);
+  const targets = (['subject', 'action', 'resource'] as const).map(name => ({ name, ...rule.targets[name] }));
+  const targeted = targets.every(target => target.matched);
+
+  return (
+    <>
+      <ListItemButton sx={{ pl: 4 }} onClick={() => setOpen(!open)}>
+        <ListItemIcon sx={{ minWidth: 32 }}>
+          <StatusIcon passed={rule.matched} skipped={!targeted} />
+        </ListItemIcon>
+        <ListItemText
+          primary={`Rule ${rule.ruleId}`}
+          secondary={describeRuleStatus(rule, targeted)}
+        />
+        {open ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+      </ListItemButton>
+      <Collapse in={open} timeout="auto" unmountOnExit>
+        <List dense disablePadding>
+          {targets.map(target => (
+            <ListItemButton key={target.name} sx={{ pl: 6 }} disableRipple>
+              <ListItemIcon sx={{ minWidth: 32 }}>
+                <StatusIcon passed={target.matched} />
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Typography variant="body2" fontFamily="monospace">
+                    {target.name} target {formatTraceValue(target.expected)}
+                  </Typography>
+                }
+                secondary={`actual ${formatTraceValue(target.actual)}`}
+              />
+            </ListItemButton>
+          ))}
+          {rule.attributes.map((attribute, index) => (
+            <AttributeRow key={`${attribute.source}-${attribute.attribute}-${index}`} attribute={attribute} depth={3} />
+          ))}
+          {(rule.timeConstraints || []).map((constraint, index) => (
+            <ListItemButton key={`window-${index}`} sx={{ pl: 6 }} disableRipple>
+              <ListItemIcon sx={{ minWidth: 32 }}>
+                <StatusIcon passed={constraint.passed} />
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Typography variant="body2" fontFamily="monospace">
+                    window {constraint.window}
+                  </Typography>
+                }
+                secondary={`local time ${constraint.localTime}`}
+              />
+            </ListItemButton>
+          ))}
+          {(rule.dependencies || []).map(dependency => (
+            <DependencyRow key={dependency.ruleId} dependency={dependency} />
+          ))}
+          {rule.resourceAccess && (
+            <ListItemButton sx={{ pl: 6 }} disableRipple>
+              <ListItemIcon sx={{ minWidth: 32 }}>
+                <StatusIcon passed={rule.resourceAccess.available} />
+              </ListItemIcon>
+              <ListItemText
+                primary={`resource ${rule.resourceAccess.resourceId}${rule.resourceAccess.accessLevel ? ` (${rule.resourceAccess.accessLevel} access)` : ''}`}
+                secondary={rule.resourceAccess.reasons.join(' · ')}
+              />
+            </ListItemButton>
+          )}
+        </List>
+      </Collapse>
+    </>
+  );
+};
+
+const PolicyNode: React.FC<{ policy: PolicyTrace }> = ({ policy }) => {
+  const [open, setOpen] = useState(policy.applicable);
+
+  return (
+    <>
+      <ListItemButton onClick={() => setOpen(!open)}>
+        <ListItemIcon sx={{ minWidth: 32 }}>
+          <StatusIcon passed={policy.applicable} />
+        </ListItemIcon>
+        <ListItemText
+          primary={
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="subtitle2">{policy.policyName}</Typography>
+              <Chip label={policy.effect} size="small" color={policy.effect === 'Allow' ? 'success' : 'error'} variant="outlined" />
+            </Box>
+          }
+          secondary={policy.applicable
+            ? `Applicable — matched ${policy.matchedRules.length} of ${policy.rules.length} rules`
+            : 'Not applicable'}
+        />
+        {open ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+      </ListItemButton>
+      <Collapse in={open} timeout="auto" unmountOnExit>
+        <List dense disablePadding>
+          {policy.rules.map(rule => (
+            <RuleNode key={rule.ruleId} rule={rule} />
+          ))}
+          {policy.conditions.length > 0 && (
+            <>
+              <ListItemText sx={{ pl: 4, pt: 1 }} secondary="Policy conditions" />
+              {policy.conditions.map((condition, index) => (
+                <AttributeRow key={`condition-${index}`} attribute={condition} depth={2} />
+              ))}
+            </>
+          )}
+        </List>
+      </Collapse>
+    </>
+  );
+};
+
+const DecisionTraceTree: React.FC<DecisionTraceTreeProps> = ({ trace }) => {
+  return (
+    <Box>
+      <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+        Combining steps
+      </Typography>
+      <List dense disablePadding sx={{ mb: 2 }}>
+        {trace.combining.map(step => (
+          <ListItemButton key={step.step} disableRipple>
+            <ListItemIcon sx={{ minWidth: 32 }}>
+              {step.final ? <FinalIcon fontSize="small" color="primary" /> : <Typography variant="caption">{step.step}</Typography>}
+            </ListItemIcon>
+            <ListItemText
+              primary={step.description}
+              secondary={step.final ? `Final effect: ${step.effect}` : undefined}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+
+      <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+        Policies ({trace.policies.length})
+      </Typography>
+      {trace.policies.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No policies were evaluated
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {trace.policies.map(policy => (
+            <PolicyNode key={policy.policyId} policy={policy} />
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default DecisionTraceTree;
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PolicyDecision, PolicyTestCase, PolicyTestSuite } from '@/types';
+
+const NEW_SUITE = '__new__';
+
+export interface SaveTestCaseInput {
+  suiteId: string | null; // null creates a new suite named suiteName
+  suiteName: string;
+  testCase: Omit<PolicyTestCase, 'id'>;
+}
+
+interface SaveTestCaseDialogProps {
+  open: boolean;
+  suites: PolicyTestSuite[];
+  request: Pick<PolicyTestCase, 'subject' | 'action' | 'resource' | 'environment'>;
+  defaultName: string;
+  defaultDecision: PolicyDecision;
+  onClose: () => void;
+  onSave: (input: SaveTestCaseInput) => Promise<void>;
+}
+
+/**
+ * Saves the tester's current request as a named test case with an expected decision,
+ * into an existing suite or a new one
+ */
+const SaveTestCaseDialog: React.FC<SaveTestCaseDialogProps> = ({
+  open,
+  suites,
+  request,
+  defaultName,
+  defaultDecision,
+  onClose,
+  onSave,
+}) => {
+  const [name, setName] = useState(defaultName);
+  const [expectedDecision, setExpectedDecision] = useState<PolicyDecision>(defaultDecision);
+  const [suiteId, setSuiteId] = useState<string>(NEW_SUITE);
+  const [suiteName, setSuiteName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setExpectedDecision(defaultDecision);
+      setSuiteId(suites[0]?.id || NEW_SUITE);
+      setSuiteName('');
+      setError(null);
+    }
+  }, [open, defaultName, defaultDecision, suites]);
+
+  const isNewSuite = suiteId === NEW_SUITE;
+  const canSave = name.trim() !== '' && (!isNewSuite || suiteName.trim() !== '');
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        suiteId: isNewSuite ? null : suiteId,
+        suiteName: suiteName.trim(),
+        testCase: { ...request, name: name.trim(), expectedDecision },
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to save test case');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Save Test Case</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2, fontFamily: 'monospace' }}>
+          {request.subject} → {request.action} → {request.resource}
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <TextField
+            fullWidth
+            label="Test Case Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+          <FormControl fullWidth>
+            <InputLabel>Expected Decision</InputLabel>
+            <Select
+              value={expectedDecision}
+              label="Expected Decision"
+              onChange={(e) => setExpectedDecision(e.target.value as PolicyDecision)}
+            >
+              <MenuItem value="Allow">Allow</MenuItem>
+              <MenuItem value="Deny">Deny</MenuItem>
+              <MenuItem value="NotApplicable">Not Applicable</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl fullWidth>
+            <InputLabel>Test Suite</InputLabel>
+            <Select value={suiteId} label="Test Suite" onChange={(e) => setSuiteId(e.target.value)}>
+              {suites.map(suite => (
+                <MenuItem key={suite.id} value={suite.id}>
+                  {suite.name} ({suite.cases.length} cases)
+                </MenuItem>
+              ))}
+              <MenuItem value={NEW_SUITE}>New suite…</MenuItem>
+            </Select>
+          </FormControl>
+          {isNewSuite && (
+            <TextField
+              fullWidth
+              label="Suite Name"
+              value={suiteName}
+              onChange={(e) => setSuiteName(e.target.value)}
+              required
+            />
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!canSave || saving}
+          startIcon={saving ? <CircularProgress size={16} /> : undefined}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SaveTestCaseDialog;
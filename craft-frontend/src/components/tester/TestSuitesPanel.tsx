@@ -0,0 +1,189 @@
+'use client';
+
+import React from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  ExpandMore as ExpandMoreIcon,
+  PlayArrow as RunIcon,
+  Delete as DeleteIcon,
+  CheckCircle as PassIcon,
+  Cancel as FailIcon,
+} from '@mui/icons-material';
+import { PolicyDecision, PolicyTestSuite } from '@/types';
+import { formatRunSummary, getCaseResult, getRunColor } from '@/utils/testSuites';
+
+type EntityKind = 'subject' | 'action' | 'resource';
+
+interface TestSuitesPanelProps {
+  suites: PolicyTestSuite[];
+  loading: boolean;
+  runningSuiteId: string | null;
+  labelFor: (kind: EntityKind, id: string) => string;
+  onRun: (suite: PolicyTestSuite) => void;
+  onDeleteSuite: (suite: PolicyTestSuite) => void;
+  onDeleteCase: (suite: PolicyTestSuite, caseId: string) => void;
+}
+
+const decisionColor = (decision: PolicyDecision) => {
+  if (decision === 'NotApplicable') return 'warning';
+  return decision === 'Allow' ? 'success' : 'error';
+};
+
+/**
+ * Saved test suites of the current environment with their cases and last run report
+ */
+const TestSuitesPanel: React.FC<TestSuitesPanelProps> = ({
+  suites,
+  loading,
+  runningSuiteId,
+  labelFor,
+  onRun,
+  onDeleteSuite,
+  onDeleteCase,
+}) => {
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (suites.length === 0) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 6, color: 'text.secondary' }}>
+        <Typography variant="body2">
+          No test suites yet. Run a test and save it as a test case to start a suite.
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {suites.map(suite => {
+        const running = runningSuiteId === suite.id;
+
+        return (
+          <Accordion key={suite.id} disableGutters>
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexGrow: 1, mr: 2 }}>
+                <Box sx={{ flexGrow: 1 }}>
+                  <Typography variant="subtitle1" fontWeight="medium">
+                    {suite.name}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {suite.cases.length} {suite.cases.length === 1 ? 'case' : 'cases'}
+                    {suite.lastRun && ` · last run ${new Date(suite.lastRun.runAt).toLocaleString()} by ${suite.lastRun.runBy}`}
+                  </Typography>
+                </Box>
+                <Chip label={formatRunSummary(suite.lastRun)} size="small" color={getRunColor(suite.lastRun)} />
+                <Button
+                  size="small"
+                  variant="contained"
+                  startIcon={running ? <CircularProgress size={16} color="inherit" /> : <RunIcon />}
+                  disabled={running || suite.cases.length === 0}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRun(suite);
+                  }}
+                >
+                  Run Suite
+                </Button>
+                <Tooltip title="Delete suite">
+                  <IconButton
+                    size="small"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeleteSuite(suite);
+                    }}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </AccordionSummary>
+            <AccordionDetails>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Test Case</TableCell>
+                      <TableCell>Subject</TableCell>
+                      <TableCell>Action</TableCell>
+                      <TableCell>Resource</TableCell>
+                      <TableCell>Expected</TableCell>
+                      <TableCell>Last Result</TableCell>
+                      <TableCell align="right" />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {suite.cases.map(testCase => {
+                      const result = getCaseResult(suite, testCase.id);
+
+                      return (
+                        <TableRow key={testCase.id} hover>
+                          <TableCell>
+                            <Typography variant="subtitle2">{testCase.name}</Typography>
+                          </TableCell>
+                          <TableCell>{labelFor('subject', testCase.subject)}</TableCell>
+                          <TableCell>
+                            <Chip label={labelFor('action', testCase.action)} size="small" variant="outlined" />
+                          </TableCell>
+                          <TableCell>{labelFor('resource', testCase.resource)}</TableCell>
+                          <TableCell>
+                            <Chip label={testCase.expectedDecision} size="small" color={decisionColor(testCase.expectedDecision)} variant="outlined" />
+                          </TableCell>
+                          <TableCell>
+                            {result ? (
+                              <Tooltip title={result.reason}>
+                                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                                  {result.passed ? <PassIcon fontSize="small" color="success" /> : <FailIcon fontSize="small" color="error" />}
+                                  <Typography variant="body2">
+                                    {result.passed ? 'Pass' : `Fail (got ${result.actualDecision})`}
+                                  </Typography>
+                                </Box>
+                              </Tooltip>
+                            ) : (
+                              <Typography variant="body2" color="text.secondary">—</Typography>
+                            )}
+                          </TableCell>
+                          <TableCell align="right">
+                            <Tooltip title="Remove test case">
+                              <IconButton size="small" onClick={() => onDeleteCase(suite, testCase.id)}>
+                                <DeleteIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </AccordionDetails>
+          </Accordion>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default TestSuitesPanel;
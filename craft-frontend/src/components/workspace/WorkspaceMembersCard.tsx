@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Delete as DeleteIcon, Group as MembersIcon, PersonAdd as PersonAddIcon } from '@mui/icons-material';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSnackbar } from '@/contexts/SnackbarContext';
+import { apiClient } from '@/lib/api';
+import { User, WorkspaceMember, WorkspaceRole } from '@/types';
+import { getWorkspaceRole } from '@/utils/permissions';
+
+const ROLE_OPTIONS: Array<{ value: WorkspaceRole; label: string; description: string }> = [
+  { value: 'owner', label: 'Owner', description: 'Everything, including managing other owners' },
+  { value: 'admin', label: 'Admin', description: 'Delete, import, promote and manage members' },
+  { value: 'member', label: 'Member', description: 'Create and edit policies and entities' },
+  { value: 'viewer', label: 'Viewer', description: 'Read only' },
+];
+
+interface WorkspaceMembersCardProps {
+  workspaceId: string;
+}
+
+/**
+ * Members of a workspace and the role each holds in it
+ */
+export default function WorkspaceMembersCard({ workspaceId }: WorkspaceMembersCardProps) {
+  const { user } = useAuth();
+  const { showError, showSuccess } = useSnackbar();
+
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [addOpen, setAddOpen] = useState(false);
+  const [userOptions, setUserOptions] = useState<User[]>([]);
+  const [search, setSearch] = useState('');
+  const [newMember, setNewMember] = useState<User | null>(null);
+  const [newRole, setNewRole] = useState<WorkspaceRole>('member');
+
+  const isOwner = getWorkspaceRole(user, workspaceId) === 'owner';
+
+  const fetchMembers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiClient.get<WorkspaceMember[]>(`/workspaces/${workspaceId}/members`);
+      if (response.success) {
+        setMembers(response.data || []);
+        setError(null);
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to load workspace members');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  useEffect(() => {
+    if (!addOpen) return undefined;
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await apiClient.get<User[]>('/users', { search: search || undefined, limit: 20, active: true });
+        if (response.success) {
+          setUserOptions(response.data || []);
+        }
+      } catch {
+        setUserOptions([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [addOpen, search]);
+
+  const saveMember = async (memberId: string, role: WorkspaceRole) => {
+    setSaving(true);
+    try {
+      const response = await apiClient.put(`/workspaces/${workspaceId}/members/${memberId}`, { role });
+      if (response.success) {
+        showSuccess(response.message || 'Member updated');
+        await fetchMembers();
+        return true;
+      }
+    } catch (err: any) {
+      showError(err?.error || err?.message || 'Failed to update member');
+    } finally {
+      setSaving(false);
+    }
+    return false;
+  };
+
+  const removeMember = async (member: WorkspaceMember) => {
+    if (!window.confirm(`Remove ${member.name} from this workspace?`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await apiClient.delete(`/workspaces/${workspaceId}/members/${member._id}`);
+      if (response.success) {
+        showSuccess(response.message || 'Member removed');
+        await fetchMembers();
+      }
+    } catch (err: any) {
+      showError(err?.error || err?.message || 'Failed to remove member');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newMember?._id) return;
+
+    if (await saveMember(newMember._id, newRole)) {
+      setAddOpen(false);
+      setNewMember(null);
+      setNewRole('member');
+    }
+  };
+
+  // Only owners may grant ownership or change an owner
+  const roleOptionsFor = (current?: WorkspaceRole) =>
+    ROLE_OPTIONS.filter(option => isOwner || (option.value !== 'owner' && current !== 'owner'));
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
+            <MembersIcon sx={{ mr: 1 }} />
+            Members
+          </Typography>
+          <Button startIcon={<PersonAddIcon />} variant="outlined" onClick={() => setAddOpen(true)} disabled={saving}>
+            Add Member
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Roles apply to this workspace only. Users without a membership keep the access of their global role.
+        </Typography>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : members.length === 0 ? (
+          <Alert severity="info">No members yet. Access follows each user's global role.</Alert>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>User</TableCell>
+                <TableCell>Workspace Role</TableCell>
+                <TableCell>Joined</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {members.map(member => {
+                const locked = member.workspaceRole === 'owner' && !isOwner;
+                return (
+                  <TableRow key={member._id}>
+                    <TableCell>
+                      <Typography variant="subtitle2">{member.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{member.email}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        value={member.workspaceRole}
+                        onChange={(e) => saveMember(member._id, e.target.value as WorkspaceRole)}
+                        disabled={saving || locked}
+                        sx={{ minWidth: 130 }}
+                      >
+                        {ROLE_OPTIONS.map(option => (
+                          <MenuItem
+                            key={option.value}
+                            value={option.value}
+                            disabled={!roleOptionsFor(member.workspaceRole).includes(option)}
+                          >
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>{member.joinedAt ? new Date(member.joinedAt).toLocaleDateString() : '-'}</TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Remove from workspace">
+                        <span>
+                          <IconButton size="small" color="error" onClick={() => removeMember(member)} disabled={saving || locked}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={addOpen} onClose={() => setAddOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Add Member</DialogTitle>
+        <DialogContent>
+          <Autocomplete
+            options={userOptions}
+            value={newMember}
+            onChange={(_event, value) => setNewMember(value)}
+            onInputChange={(_event, value) => setSearch(value)}
+            getOptionLabel={(option) => `${option.name} (${option.email})`}
+            isOptionEqualToValue={(option, value) => option._id === value._id}
+            filterOptions={(options) => options}
+            renderInput={(params) => <TextField {...params} label="User" margin="normal" />}
+          />
+          <FormControl fullWidth margin="normal">
+            <InputLabel>Workspace Role</InputLabel>
+            <Select
+              value={newRole}
+              label="Workspace Role"
+              onChange={(e) => setNewRole(e.target.value as WorkspaceRole)}
+            >
+              {roleOptionsFor().map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label} - {option.description}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAddOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleAdd} disabled={saving || !newMember}>
+            {saving ? <CircularProgress size={20} /> : 'Add Member'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  ListSubheader,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ContentCopy as CopyIcon,
+  Delete as DeleteIcon,
+  SyncAlt as ScimIcon,
+} from '@mui/icons-material';
+import { useSnackbar } from '@/contexts/SnackbarContext';
+import { apiClient } from '@/lib/api';
+import { ScimToken } from '@/types';
+
+interface WorkspaceApplication {
+  _id: string;
+  displayName: string;
+  environments?: Array<{ _id: string; displayName: string }>;
+}
+
+interface WorkspaceScimCardProps {
+  workspaceId: string;
+  applications: WorkspaceApplication[];
+}
+
+const formatDate = (value?: string): string => (value ? new Date(value).toLocaleString() : 'Never');
+
+/**
+ * Tokens identity providers use to provision users and groups into an environment over SCIM
+ */
+export default function WorkspaceScimCard({ workspaceId, applications }: WorkspaceScimCardProps) {
+  const { showError, showSuccess } = useSnackbar();
+
+  const [tokens, setTokens] = useState<ScimToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [environmentId, setEnvironmentId] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const scimBaseUrl = apiClient.getScimBaseUrl();
+
+  // "Application / Environment" labels for the token list
+  const environmentNames = useMemo(() => {
+    const names = new Map<string, string>();
+    applications.forEach(application => (application.environments || []).forEach(environment => {
+      names.set(environment._id, `${application.displayName} / ${environment.displayName}`);
+    }));
+    return names;
+  }, [applications]);
+
+  const fetchTokens = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiClient.get<ScimToken[]>(`/workspaces/${workspaceId}/scim-tokens`);
+      if (response.success) {
+        setTokens(response.data || []);
+        setError(null);
+      }
+    } catch (err: any) {
+      setError(err?.error || err?.message || 'Failed to load SCIM tokens');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      showSuccess('Copied to clipboard');
+    } catch {
+      showError('Could not copy to clipboard');
+    }
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const response = await apiClient.post<ScimToken>(`/workspaces/${workspaceId}/scim-tokens`, {
+        name: name.trim(),
+        environmentId,
+        ...(expiresInDays && { expiresInDays: Number(expiresInDays) }),
+      });
+
+      if (response.success && response.data) {
+        setCreatedToken(response.data.token || null);
+        setCreateOpen(false);
+        setName('');
+        setEnvironmentId('');
+        setExpiresInDays('');
+        fetchTokens();
+      } else {
+        throw new Error(response.error || 'Failed to create SCIM token');
+      }
+    } catch (err: any) {
+      showError(err?.error || err?.message || 'Failed to create SCIM token');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: ScimToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? The identity provider will no longer be able to provision users.`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await apiClient.delete(`/workspaces/${workspaceId}/scim-tokens/${token._id}`);
+      setTokens(prev => prev.filter(item => item._id !== token._id));
+      showSuccess('SCIM token revoked');
+    } catch (err: any) {
+      showError(err?.error || err?.message || 'Failed to revoke SCIM token');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
+            <ScimIcon sx={{ mr: 1 }} />
+            SCIM Provisioning
+          </Typography>
+          <Button startIcon={<AddIcon />} variant="outlined" onClick={() => setCreateOpen(true)} disabled={saving}>
+            Create Token
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Identity providers create, update and remove users and groups in an environment over SCIM 2.0.
+          Users become workspace members and subjects; groups become group subjects.
+        </Typography>
+
+        <TextField
+          label="SCIM Base URL"
+          value={scimBaseUrl}
+          size="small"
+          fullWidth
+          sx={{ mb: 2 }}
+          InputProps={{
+            readOnly: true,
+            endAdornment: (
+              <InputAdornment position="end">
+                <IconButton size="small" onClick={() => copy(scimBaseUrl)}>
+                  <CopyIcon fontSize="small" />
+                </IconButton>
+              </InputAdornment>
+            ),
+          }}
+        />
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : tokens.length === 0 ? (
+          <Alert severity="info">No SCIM tokens. Create one to connect an identity provider.</Alert>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Environment</TableCell>
+                <TableCell>Token</TableCell>
+                <TableCell>Last Used</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {tokens.map(token => (
+                <TableRow key={token._id}>
+                  <TableCell>{token.name}</TableCell>
+                  <TableCell>{environmentNames.get(token.environmentId) || token.environmentId}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{token.tokenPrefix}…</TableCell>
+                  <TableCell>{formatDate(token.lastUsedAt)}</TableCell>
+                  <TableCell>{formatDate(token.expiresAt)}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Revoke token">
+                      <span>
+                        <IconButton size="small" color="error" onClick={() => handleRevoke(token)} disabled={saving}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Create Token Dialog */}
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Create SCIM Token</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Okta production"
+            fullWidth
+          />
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Environment</InputLabel>
+            <Select
+              value={environmentId}
+              label="Environment"
+              onChange={(e) => setEnvironmentId(e.target.value)}
+            >
+              {applications.flatMap(application => [
+                <ListSubheader key={application._id}>{application.displayName}</ListSubheader>,
+                ...(application.environments || []).map(environment => (
+                  <MenuItem key={environment._id} value={environment._id}>
+                    {environment.displayName}
+                  </MenuItem>
+                )),
+              ])}
+            </Select>
+          </FormControl>
+          <TextField
+            margin="dense"
+            label="Expires in (days)"
+            type="number"
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            helperText="Leave empty for a token that does not expire"
+            fullWidth
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button
+            onClick={handleCreate}
+            variant="contained"
+            disabled={saving || !name.trim() || !environmentId}
+          >
+            {saving ? <CircularProgress size={20} /> : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* New Token Dialog */}
+      <Dialog open={!!createdToken} onClose={() => setCreatedToken(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>SCIM Token Created</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Copy this token into your identity provider now. It will not be shown again.
+          </Alert>
+          <TextField
+            value={createdToken || ''}
+            fullWidth
+            multiline
+            InputProps={{
+              readOnly: true,
+              sx: { fontFamily: 'monospace' },
+              endAdornment: (
+                <InputAdornment position="end">
+                  <IconButton size="small" onClick={() => copy(createdToken || '')}>
+                    <CopyIcon fontSize="small" />
+                  </IconButton>
+                </InputAdornment>
+              ),
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreatedToken(null)} variant="contained">
+            Done
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { VpnKey as SsoIcon } from '@mui/icons-material';
+import { useSnackbar } from '@/contexts/SnackbarContext';
+import { apiClient } from '@/lib/api';
+import { WorkspaceRole, WorkspaceSsoConfiguration } from '@/types';
+
+const DEFAULT_SCOPES = 'openid email profile';
+
+interface WorkspaceSsoCardProps {
+  workspaceId: string;
+  ssoConfiguration?: WorkspaceSsoConfiguration;
+  allowedDomains?: string[];
+  onSaved: (ssoConfiguration: WorkspaceSsoConfiguration) => void;
+}
+
+// One "attribute = claim" pair per line
+const formatMappings = (mappings?: Record<string, string>): string =>
+  Object.entries(mappings || {}).map(([attribute, claim]) => `${attribute} = ${claim}`).join('\n');
+
+const parseMappings = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.split('=').map(part => part.trim()))
+      .filter(([attribute, claim]) => attribute && claim)
+      .map(([attribute, claim]) => [attribute, claim])
+  );
+
+/**
+ * OpenID Connect provider used to sign users into a workspace
+ */
+export default function WorkspaceSsoCard({ workspaceId, ssoConfiguration, allowedDomains, onSaved }: WorkspaceSsoCardProps) {
+  const { showError, showSuccess } = useSnackbar();
+
+  const [enabled, setEnabled] = useState(false);
+  const [issuer, setIssuer] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [scopes, setScopes] = useState(DEFAULT_SCOPES);
+  const [defaultRole, setDefaultRole] = useState<WorkspaceRole>('viewer');
+  const [mappings, setMappings] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEnabled(!!ssoConfiguration?.enabled);
+    setIssuer(ssoConfiguration?.issuer || '');
+    setClientId(ssoConfiguration?.clientId || '');
+    setClientSecret('');
+    setScopes(ssoConfiguration?.scopes?.length ? ssoConfiguration.scopes.join(' ') : DEFAULT_SCOPES);
+    setDefaultRole(ssoConfiguration?.defaultRole || 'viewer');
+    setMappings(formatMappings(ssoConfiguration?.claimMappings));
+  }, [ssoConfiguration]);
+
+  const handleSave = async () => {
+    if (enabled && (!issuer.trim() || !clientId.trim())) {
+      showError('Issuer and client ID are required to enable single sign-on');
+      return;
+    }
+
+    const updated: WorkspaceSsoConfiguration = {
+      enabled,
+      issuer: issuer.trim().replace(/\/+$/, ''),
+      clientId: clientId.trim(),
+      scopes: scopes.split(/[\s,]+/).filter(Boolean),
+      claimMappings: parseMappings(mappings),
+      defaultRole,
+      // An empty secret keeps the stored one
+      ...(clientSecret ? { clientSecret } : { hasClientSecret: !!ssoConfiguration?.hasClientSecret }),
+    };
+
+    setSaving(true);
+    try {
+      const response = await apiClient.put(`/workspaces/${workspaceId}`, {
+        settings: { ssoConfiguration: updated },
+      });
+
+      if (response.success) {
+        onSaved(response.data?.settings?.ssoConfiguration || updated);
+        setClientSecret('');
+        showSuccess('Single sign-on settings saved');
+      } else {
+        throw new Error(response.error || 'Failed to save single sign-on settings');
+      }
+    } catch (err: any) {
+      showError(err?.error || err?.message || 'Failed to save single sign-on settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
+          <SsoIcon sx={{ mr: 1 }} />
+          Single Sign-On
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Sign users in with any OpenID Connect provider. Users whose email domain is an allowed domain are
+          sent to this provider and created on their first login.
+        </Typography>
+
+        {enabled && !allowedDomains?.length && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Add an allowed domain. Single sign-on is refused until the workspace lists the email domains that may sign in.
+          </Alert>
+        )}
+
+        <FormControlLabel
+          control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} disabled={saving} />}
+          label="Enable single sign-on"
+        />
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2, mt: 2 }}>
+          <TextField
+            label="Issuer URL"
+            value={issuer}
+            onChange={(e) => setIssuer(e.target.value)}
+            placeholder="https://login.example.com"
+            helperText="Discovery is read from {issuer}/.well-known/openid-configuration"
+            disabled={saving}
+            required={enabled}
+            fullWidth
+          />
+          <TextField
+            label="Client ID"
+            value={clientId}
+            onChange={(e) => setClientId(e.target.value)}
+            disabled={saving}
+            required={enabled}
+            fullWidth
+          />
+          <TextField
+            label="Client Secret"
+            type="password"
+            value={clientSecret}
+            onChange={(e) => setClientSecret(e.target.value)}
+            placeholder={ssoConfiguration?.hasClientSecret ? '•••••••• (unchanged)' : ''}
+            helperText="Leave empty for public clients, or to keep the stored secret"
+            autoComplete="new-password"
+            disabled={saving}
+            fullWidth
+          />
+          <TextField
+            label="Scopes"
+            value={scopes}
+            onChange={(e) => setScopes(e.target.value)}
+            helperText="Space separated"
+            disabled={saving}
+            fullWidth
+          />
+          <FormControl fullWidth disabled={saving}>
+            <InputLabel>Role of New Users</InputLabel>
+            <Select
+              value={defaultRole}
+              label="Role of New Users"
+              onChange={(e) => setDefaultRole(e.target.value as WorkspaceRole)}
+            >
+              <MenuItem value="viewer">Viewer</MenuItem>
+              <MenuItem value="member">Member</MenuItem>
+              <MenuItem value="admin">Admin</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+
+        <TextField
+          label="Claim Mappings"
+          value={mappings}
+          onChange={(e) => setMappings(e.target.value)}
+          placeholder={'department = department\nemployeeId = ext.employee_id'}
+          helperText="One 'attribute = claim' per line. Claims come from the ID token or userinfo; dot paths reach nested claims."
+          disabled={saving}
+          multiline
+          minRows={3}
+          fullWidth
+          sx={{ mt: 2, '& textarea': { fontFamily: 'monospace' } }}
+        />
+
+        <Box sx={{ mt: 2 }}>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving}
+            startIcon={saving ? <CircularProgress size={20} /> : undefined}
+          >
+            Save SSO Settings
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { User, AuthState, LoginCredentials, RegisterData } from '@/types';
 
 interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<void>;
+  loginWithTokens: (token: string, refreshToken?: string) => Promise<void>;
   register: (userData: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
@@ -194,6 +195,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Sign in with tokens issued by a single sign-on login
+  const loginWithTokens = async (token: string, refreshToken?: string): Promise<void> => {
+    dispatch({ type: 'AUTH_START' });
+    apiClient.setSessionTokens(token, refreshToken);
+    await checkAuth();
+  };
+
   const register = async (userData: RegisterData): Promise<void> => {
     try {
       dispatch({ type: 'AUTH_START' });
@@ -231,6 +239,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const value: AuthContextType = {
     ...state,
     login,
+    loginWithTokens,
     register,
     logout,
     checkAuth,
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
 import { apiClient } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
+import { CombiningAlgorithm } from '@/types';
 
 export interface IWorkspace {
   _id: string;
@@ -81,6 +82,7 @@ export interface IEnvironment {
   displayName: string;
   description?: string;
   type: 'development' | 'testing' | 'staging' | 'production' | 'preview' | 'hotfix';
+  combiningAlgorithm?: CombiningAlgorithm;
   configuration: {
     variables: Record<string, string>;
     endpoints: Record<string, string>;
@@ -92,6 +94,12 @@ export interface IEnvironment {
     lastModifiedBy: string;
     tags: string[];
     isDefault: boolean;
+    promotionRules?: {
+      autoPromoteFrom?: string | null; // Only environment policies may be promoted from
+      requireApproval: boolean;
+      approvers: string[];
+      requiredApprovals?: number;
+    };
   };
   active: boolean;
   createdAt: string;
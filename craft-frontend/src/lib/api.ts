@@ -322,6 +322,30 @@ class ApiClient {
     });
   }
 
+  // Single sign-on: find the workspace whose identity provider signs in this email
+  async discoverSso(email: string): Promise<ApiResponse<{ workspace: string; displayName: string }>> {
+    return this.get('/auth/oidc/discover', { email });
+  }
+
+  // The browser navigates here (not via XHR) so the backend can redirect it to the provider
+  getSsoLoginUrl(workspace: string, returnTo?: string): string {
+    const query = returnTo ? `?returnTo=${encodeURIComponent(returnTo)}` : '';
+    return `${this.baseURL}/auth/oidc/${encodeURIComponent(workspace)}/login${query}`;
+  }
+
+  // Base URL identity providers are given for SCIM provisioning
+  getScimBaseUrl(): string {
+    return `${this.baseURL}/scim/v2`;
+  }
+
+  // Store the tokens handed back by a single sign-on login
+  setSessionTokens(token: string, refreshToken?: string): void {
+    this.setToken(token);
+    if (refreshToken && typeof window !== 'undefined') {
+      localStorage.setItem('refreshToken', refreshToken);
+    }
+  }
+
   // Generic CRUD methods with deduplication for GET requests
   async get<T = any>(url: string, params?: Record<string, any>): Promise<ApiResponse<T>> {
     const requestKey = this.getRequestKey(url, 'GET', params);
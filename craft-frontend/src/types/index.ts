@@ -9,10 +9,58 @@ export interface User {
   active: boolean;
   managerId?: string;
   department?: string;
+  assignedWorkspaces?: string[];
+  workspaceRoles?: Record<string, WorkspaceMembership>; // Keyed by workspace ID
   createdAt?: string;
   updatedAt?: string;
 }
 
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export interface WorkspaceMembership {
+  role: WorkspaceRole;
+  permissions: string[];
+  joinedAt: string;
+}
+
+export interface WorkspaceMember {
+  _id: string;
+  name: string;
+  email: string;
+  role: User['role'];
+  department?: string;
+  workspaceRole: WorkspaceRole;
+  permissions: string[];
+  joinedAt?: string;
+}
+
+// OpenID Connect provider that signs users into a workspace
+export interface WorkspaceSsoConfiguration {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Write only; the API returns hasClientSecret instead
+  hasClientSecret?: boolean;
+  scopes?: string[];
+  claimMappings?: Record<string, string>; // User attribute -> claim
+  defaultRole?: WorkspaceRole;
+}
+
+// Bearer token an identity provider provisions users and groups with over SCIM
+export interface ScimToken {
+  _id: string;
+  name: string;
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+  tokenPrefix: string;
+  token?: string; // Only returned when the token is created
+  createdBy: string;
+  lastUsedAt?: string;
+  expiresAt?: string;
+  createdAt: string;
+}
+
 export interface AuthState {
   user: User | null;
   token: string | null;
@@ -41,6 +89,7 @@ export interface ApiResponse<T = any> {
   error?: string;
   code?: string;
   details?: any;
+  pendingApproval?: boolean; // The change is held as a change request until approved
   pagination?: {
     page: number;
     limit: number;
@@ -249,17 +298,492 @@ export interface Policy {
   updatedAt?: string;
 }
 
+export type PolicyDecision = 'Allow' | 'Deny' | 'NotApplicable';
+
+export type CombiningAlgorithm = 'deny-overrides' | 'permit-overrides' | 'first-applicable' | 'deny-unless-permit';
+
+export interface AttributeTrace {
+  source: 'subject' | 'resource' | 'additionalResource' | 'condition' | 'dependency';
+  attribute: string;
+  operator: string;
+  expected: any;
+  actual: any;
+  passed: boolean;
+  message: string;
+}
+
+export interface TargetTrace {
+  expected: string;
+  actual: string;
+  matched: boolean;
+}
+
+export interface TimeConstraintTrace {
+  window: string;
+  timezone: string;
+  localTime: string;
+  passed: boolean;
+  message: string;
+}
+
+export type AccessLevel = 'read' | 'write' | 'execute' | 'admin' | 'custom';
+
+export interface DependencyTrace {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  triggerResource: string;
+  triggered: boolean;
+  conditions: AttributeTrace[];
+  enabledResources: string[];
+  disabledResources: string[];
+}
+
+export interface ResourceAccessTrace {
+  resourceId: string;
+  available: boolean;
+  accessLevel?: AccessLevel;
+  message: string;
+  reasons: string[];
+}
+
+export interface RuleTrace {
+  ruleId: string;
+  matched: boolean;
+  targets: {
+    subject: TargetTrace;
+    action: TargetTrace;
+    resource: TargetTrace;
+  };
+  attributes: AttributeTrace[];
+  timeConstraints?: TimeConstraintTrace[];
+  dependencies?: DependencyTrace[];
+  resourceAccess?: ResourceAccessTrace;
+}
+
+export interface PolicyTrace {
+  policyId: string;
+  policyName: string;
+  effect: 'Allow' | 'Deny';
+  applicable: boolean;
+  matchedRules: string[];
+  rules: RuleTrace[];
+  conditions: AttributeTrace[];
+}
+
+export interface CombiningStep {
+  step: number;
+  description: string;
+  effect: PolicyDecision;
+  policyIds: string[];
+  final: boolean;
+}
+
+export interface DecisionTrace {
+  policies: PolicyTrace[];
+  combining: CombiningStep[];
+}
+
 export interface PolicyEvaluation {
-  decision: 'allow' | 'deny' | 'not_applicable';
-  matchedPolicies: Policy[];
+  decision: PolicyDecision;
   reason: string;
+  matchedPolicies: string[];
+  evaluatedPolicies: number;
+  combiningAlgorithm: CombiningAlgorithm;
+  accessLevel?: AccessLevel;
+  subject: string;
+  action: string;
+  resource: string;
+  environment: Record<string, any>;
+  timestamp: string;
+  evaluationTime: number;
+  trace?: DecisionTrace;
 }
 
 export interface PolicyEvaluationRequest {
-  subject: Subject | { name: string; [key: string]: any };
-  object: ResourceObject | { name: string; [key: string]: any };
+  workspaceId?: string;
+  applicationId?: string;
+  environmentId?: string;
+  policyId?: string;
+  subject: string | { id?: string; attributes?: Record<string, any> };
+  action: string;
+  resource: string | { id?: string; attributes?: Record<string, any> };
+  environment?: Record<string, any>;
+  explain?: boolean;
+}
+
+export interface AccessEntityRef {
+  id: string;
+  name: string;
+  displayName?: string;
+}
+
+export interface AccessEntry {
+  subject: AccessEntityRef;
+  action: AccessEntityRef;
+  resource: AccessEntityRef;
+  decision: Exclude<PolicyDecision, 'NotApplicable'>;
+  reason: string;
+  matchedPolicies: string[];
+}
+
+export interface AccessReviewSummary {
+  entity: AccessEntityRef;
+  allowed: number;
+  denied: number;
+  evaluatedPolicies: number;
+  evaluatedCombinations: number;
+  combiningAlgorithm: CombiningAlgorithm;
+  snapshotAt: string;
+}
+
+// Policy test suite types
+export interface PolicyTestCase {
+  id: string;
+  name: string;
+  subject: string;
   action: string;
-  context?: Record<string, any>;
+  resource: string;
+  environment?: Record<string, any>;
+  expectedDecision: PolicyDecision;
+}
+
+export interface PolicyTestCaseResult {
+  caseId: string;
+  name: string;
+  expectedDecision: PolicyDecision;
+  actualDecision: PolicyDecision;
+  passed: boolean;
+  reason: string;
+  matchedPolicies: string[];
+}
+
+export interface PolicyTestRun {
+  runAt: string;
+  runBy: string;
+  total: number;
+  passed: number;
+  failed: number;
+  results: PolicyTestCaseResult[];
+  evaluationTime?: number;
+}
+
+export interface PolicyTestSuite {
+  _id: string;
+  id: string;
+  name: string;
+  description?: string;
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+  cases: PolicyTestCase[];
+  lastRun?: PolicyTestRun;
+  metadata: {
+    createdBy: string;
+    lastModifiedBy: string;
+    tags: string[];
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A stored test case whose decision a policy change would flip
+export interface PolicyDecisionChange {
+  suiteId: string;
+  suiteName: string;
+  caseId: string;
+  name: string;
+  expectedDecision: PolicyDecision;
+  previousDecision: PolicyDecision;
+  proposedDecision: PolicyDecision;
+  reason: string;
+}
+
+export interface PolicyRegressionCheck {
+  checkedSuites: number;
+  checkedCases: number;
+  changes: PolicyDecisionChange[];
+  regressions: number; // Changes that make a passing case fail
+}
+
+// Access grants an unsaved policy edit would add or remove
+export interface ImpactEntry {
+  subject: AccessEntityRef;
+  action: AccessEntityRef;
+  resource: AccessEntityRef;
+  previousDecision: PolicyDecision;
+  proposedDecision: PolicyDecision;
+  reason: string;
+}
+
+export interface ImpactSimulation {
+  policyId: string;
+  combiningAlgorithm: CombiningAlgorithm;
+  totalCombinations: number;
+  targetedCombinations: number;
+  evaluatedCombinations: number;
+  sampled: boolean;
+  added: ImpactEntry[];
+  removed: ImpactEntry[];
+  snapshotAt: string;
+}
+
+// Scheduled policy activation and expiry
+export type ScheduledTransitionKind = 'activate' | 'expire';
+
+export interface ScheduledTransition {
+  policyId: string;
+  policyName: string;
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+  kind: ScheduledTransitionKind;
+  at: string;
+  status: 'Active' | 'Inactive' | 'Draft';
+}
+
+// Policy revision history
+export type PolicyVersionBump = 'initial' | 'major' | 'minor' | 'patch';
+
+export interface PolicyRevision {
+  _id: string;
+  policyId: string;
+  version: string;
+  bump: PolicyVersionBump;
+  author: string;
+  summary: string;
+  rolledBackFrom?: string;
+  content?: Record<string, any>; // Only when a single revision is fetched
+  createdAt: string;
+}
+
+export interface PolicyFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface PolicyRuleChange {
+  key: string; // Rule target, e.g. "admin → delete → documents"
+  kind: 'rule' | 'complexRule';
+  change: 'added' | 'removed' | 'modified';
+  fields: string[];
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+}
+
+export interface PolicyRevisionDiff {
+  from: string;
+  to: string;
+  fields: PolicyFieldChange[];
+  rules: PolicyRuleChange[];
+}
+
+// Approval workflow for policy changes in protected environments
+export type ChangeOperation = 'create' | 'update' | 'delete';
+export type ChangeRequestStatus = 'pending' | 'applied' | 'rejected' | 'cancelled' | 'failed';
+
+export interface ChangeReview {
+  reviewerId: string;
+  reviewerEmail: string;
+  decision: 'approve' | 'reject';
+  comment?: string;
+  reviewedAt: string;
+}
+
+export interface ChangeRequest {
+  _id: string;
+  id: string;
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+  operation: ChangeOperation;
+  policyId?: string;
+  policyName: string;
+  payload: Record<string, any>;
+  baseVersion?: string;
+  regressionCheck?: PolicyRegressionCheck;
+  status: ChangeRequestStatus;
+  requiredApprovals: number;
+  reviews: ChangeReview[];
+  requestedBy: {
+    id: string;
+    email: string;
+  };
+  comment?: string;
+  resolvedAt?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Break-glass emergency access
+export type BreakGlassStatus = 'active' | 'expired' | 'revoked';
+export type BreakGlassReviewOutcome = 'justified' | 'unjustified';
+
+export interface BreakGlassActor {
+  id: string;
+  email: string;
+}
+
+export interface BreakGlassEntityRef {
+  id: string;
+  name: string;
+}
+
+export interface BreakGlassGrant {
+  _id: string;
+  id: string;
+  workspaceId: string;
+  applicationId: string;
+  environmentId: string;
+  subject: BreakGlassEntityRef;
+  action: BreakGlassEntityRef;
+  resource: BreakGlassEntityRef;
+  policyId: string;
+  justification: string;
+  ticket?: BreakGlassEntityRef;
+  status: BreakGlassStatus;
+  expiresAt: string;
+  requestedBy: BreakGlassActor;
+  notifiedAdmins: string[];
+  revokedBy?: BreakGlassActor;
+  revokedAt?: string;
+  endedAt?: string;
+  review?: {
+    reviewedBy: BreakGlassActor;
+    outcome: BreakGlassReviewOutcome;
+    comment?: string;
+    reviewedAt: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Environment promotion of policies and the entities they reference
+export type PromotionKind = 'subject' | 'action' | 'resource' | 'additionalResource' | 'attribute';
+export type PromotionAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+export interface EntityPromotion {
+  kind: PromotionKind;
+  sourceId: string;
+  name: string;
+  action: PromotionAction;
+  targetId: string;
+  fields: string[];
+  reason?: string;
+}
+
+export interface PolicyPromotion {
+  sourceId: string;
+  name: string;
+  action: PromotionAction;
+  targetId?: string;
+  fields: string[];
+  rules: number;
+  summary: string;
+  reason?: string;
+  changeRequestId?: string;
+}
+
+export interface PromotionPlan {
+  source: { id: string; name: string };
+  target: { id: string; name: string };
+  dryRun: boolean;
+  overwrite: boolean;
+  entities: EntityPromotion[];
+  policies: PolicyPromotion[];
+  idMap: Record<PromotionKind, Record<string, string>>;
+  unresolved: Array<{ kind: PromotionKind; ref: string }>;
+  summary: Record<PromotionAction, number>;
+}
+
+// Versioned JSON/YAML bundles of an environment's policies and the entities they reference
+export type BundleFormat = 'json' | 'yaml';
+export type BundleImportMode = 'merge' | 'replace';
+export type BundlePolicyAction = PromotionAction | 'delete';
+
+export interface BundleValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface BundlePolicyImport {
+  name: string;
+  action: BundlePolicyAction;
+  targetId?: string;
+  fields: string[];
+  rules: number;
+  summary: string;
+  reason?: string;
+  changeRequestId?: string;
+}
+
+export interface BundleImportPlan {
+  target: { id: string; name: string };
+  mode: BundleImportMode;
+  dryRun: boolean;
+  entities: EntityPromotion[];
+  policies: BundlePolicyImport[];
+  unresolved: Array<{ kind: PromotionKind; ref: string }>;
+  summary: Record<BundlePolicyAction, number>;
+}
+
+// XACML 3.0 and AWS-IAM-style conversions of an environment's policies
+export type ConversionFormat = 'xacml' | 'iam';
+export type PolicyFileFormat = BundleFormat | ConversionFormat;
+
+export interface ConversionExport {
+  format: ConversionFormat;
+  content: string;
+  warnings: string[];
+}
+
+export interface ConversionImportPlan extends BundleImportPlan {
+  format: ConversionFormat;
+  warnings: string[];
+}
+
+// Static conflict and redundancy analysis of an environment's policy rules
+export type AnalysisFindingType = 'contradiction' | 'redundancy' | 'unreachable';
+export type AnalysisSeverity = 'error' | 'warning' | 'info';
+export type AnalysisRelation = 'overlap' | 'shadowed' | 'duplicate' | 'subsumed';
+
+export interface AnalyzedRule {
+  policyId: string;
+  policyName: string;
+  effect: 'Allow' | 'Deny';
+  status: string;
+  priority: number;
+  ruleId: string;
+}
+
+export interface DanglingReference {
+  kind: 'subject' | 'action' | 'resource' | 'additionalResource';
+  ref: string;
+  reason: 'missing' | 'inactive';
+  ruleId?: string;
+}
+
+export interface AnalysisFinding {
+  type: AnalysisFindingType;
+  severity: AnalysisSeverity;
+  relation?: AnalysisRelation;
+  message: string;
+  policyIds: string[];
+  rules: AnalyzedRule[];
+  winner?: 'Allow' | 'Deny';
+  references?: DanglingReference[];
+}
+
+export interface PolicyAnalysisResult {
+  environmentId: string;
+  combiningAlgorithm: CombiningAlgorithm;
+  analyzedPolicies: number;
+  analyzedRules: number;
+  findings: AnalysisFinding[];
+  summary: Record<AnalysisFindingType, number>;
+  analyzedAt: string;
 }
 
 // UI Component Props Types
@@ -458,4 +982,14 @@ export interface ActivityFilter {
   };
   search?: string;
   tags?: string[];
-}
\ No newline at end of file
+}
+// Session Types
+export interface UserSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
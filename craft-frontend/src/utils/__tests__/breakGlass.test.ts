@@ -0,0 +1,55 @@
+import { BreakGlassGrant } from '@/types';
+import { canReviewGrant, describeGrant, formatRemaining, getGrantStatus, needsReview } from '../breakGlass';
+
+describe('breakGlass utilities', () => {
+  const grant = (overrides: Partial<BreakGlassGrant> = {}): BreakGlassGrant => ({
+    _id: '1',
+    id: 'bg-1',
+    workspaceId: 'ws-1',
+    applicationId: 'app-1',
+    environmentId: 'env-1',
+    subject: { id: 'alice', name: 'Alice' },
+    action: { id: 'restart', name: 'Restart' },
+    resource: { id: 'payments-db', name: 'Payments DB' },
+    policyId: 'pol-1',
+    justification: 'Payments outage, database restart needed',
+    status: 'active',
+    expiresAt: '2025-03-01T01:10:00.000Z',
+    requestedBy: { id: 'user-1', email: 'oncall@example.com' },
+    notifiedAdmins: ['admin@example.com'],
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  it('describes the access granted and the time left', () => {
+    expect(describeGrant(grant())).toBe('Alice → Restart → Payments DB');
+    expect(formatRemaining(grant(), new Date('2025-03-01T00:00:00.000Z'))).toBe('1 h 10 min left');
+    expect(formatRemaining(grant(), new Date('2025-03-01T00:45:00.000Z'))).toBe('25 min left');
+    expect(formatRemaining(grant(), new Date('2025-03-01T02:00:00.000Z'))).toBe('Expiring');
+  });
+
+  it('asks admins other than the requester to review ended grants', () => {
+    const expired = grant({ status: 'expired' });
+    const admin = { _id: 'user-2', role: 'admin' };
+
+    expect(needsReview(grant())).toBe(false);
+    expect(needsReview(expired)).toBe(true);
+    expect(canReviewGrant(expired, admin)).toBe(true);
+    expect(canReviewGrant(expired, { _id: 'user-1', role: 'admin' })).toBe(false);
+    expect(canReviewGrant(expired, { _id: 'user-3', role: 'basic' })).toBe(false);
+    expect(canReviewGrant(grant(), admin)).toBe(false);
+  });
+
+  it('labels grants by status and review outcome', () => {
+    const reviewed = (outcome: 'justified' | 'unjustified') => grant({
+      status: 'expired',
+      review: { reviewedBy: { id: 'user-2', email: 'admin@example.com' }, outcome, reviewedAt: '2025-03-01T02:00:00.000Z' },
+    });
+
+    expect(getGrantStatus(grant()).label).toBe('Active');
+    expect(getGrantStatus(grant({ status: 'revoked' })).label).toBe('Needs review');
+    expect(getGrantStatus(reviewed('justified'))).toEqual({ label: 'Justified', color: 'success' });
+    expect(getGrantStatus(reviewed('unjustified'))).toEqual({ label: 'Unjustified', color: 'error' });
+  });
+});
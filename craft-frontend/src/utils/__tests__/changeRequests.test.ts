@@ -0,0 +1,77 @@
+import { ChangeRequest } from '@/types';
+import {
+  canReviewChangeRequest,
+  countApprovals,
+  describeChangeRequest,
+  formatApprovalProgress,
+  getChangedFields,
+  getChangeStatusColor,
+} from '../changeRequests';
+
+describe('changeRequests utilities', () => {
+  const request = (overrides: Partial<ChangeRequest> = {}): ChangeRequest => ({
+    _id: 'cr-1',
+    id: 'cr-1',
+    workspaceId: 'ws-1',
+    applicationId: 'app-1',
+    environmentId: 'env-1',
+    operation: 'update',
+    policyId: 'policy-1',
+    policyName: 'Admin Access',
+    payload: { effect: 'Deny', metadata: { tags: ['sensitive'] } },
+    baseVersion: '1.0.0',
+    status: 'pending',
+    requiredApprovals: 2,
+    reviews: [],
+    requestedBy: { id: 'user-1', email: 'author@example.com' },
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  const approval = (reviewerId: string) => ({
+    reviewerId,
+    reviewerEmail: `${reviewerId}@example.com`,
+    decision: 'approve' as const,
+    reviewedAt: '2025-03-02T00:00:00.000Z',
+  });
+
+  describe('countApprovals and formatApprovalProgress', () => {
+    it('counts approvals against the required number', () => {
+      const pending = request({ reviews: [approval('user-2')] });
+      expect(countApprovals(pending)).toBe(1);
+      expect(formatApprovalProgress(pending)).toBe('1 of 2 approvals');
+      expect(formatApprovalProgress(request({ requiredApprovals: 1 }))).toBe('0 of 1 approval');
+    });
+  });
+
+  describe('getChangeStatusColor', () => {
+    it('maps statuses to chip colors', () => {
+      expect(getChangeStatusColor('pending')).toBe('warning');
+      expect(getChangeStatusColor('applied')).toBe('success');
+      expect(getChangeStatusColor('rejected')).toBe('error');
+      expect(getChangeStatusColor('failed')).toBe('error');
+      expect(getChangeStatusColor('cancelled')).toBe('default');
+    });
+  });
+
+  describe('describeChangeRequest and getChangedFields', () => {
+    it('describes the operation and the changed fields of updates', () => {
+      expect(describeChangeRequest(request())).toBe('Update Admin Access');
+      expect(describeChangeRequest(request({ operation: 'delete' }))).toBe('Delete Admin Access');
+      expect(getChangedFields(request())).toEqual(['Effect', 'Tags']);
+      expect(getChangedFields(request({ operation: 'create', payload: { name: 'New' } }))).toEqual([]);
+    });
+  });
+
+  describe('canReviewChangeRequest', () => {
+    it('excludes the requester, previous reviewers and resolved requests', () => {
+      const pending = request({ reviews: [approval('user-2')] });
+      expect(canReviewChangeRequest(pending, 'user-3')).toBe(true);
+      expect(canReviewChangeRequest(pending, 'user-1')).toBe(false);
+      expect(canReviewChangeRequest(pending, 'user-2')).toBe(false);
+      expect(canReviewChangeRequest(request({ status: 'applied' }), 'user-3')).toBe(false);
+      expect(canReviewChangeRequest(pending, undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import {
+  COMBINING_ALGORITHMS,
+  getCombiningAlgorithmLabel,
+  getCombiningAlgorithmDescription,
+} from '../combiningAlgorithms';
+
+describe('combiningAlgorithms utilities', () => {
+  it('lists every algorithm the backend accepts', () => {
+    expect(COMBINING_ALGORITHMS.map(option => option.value)).toEqual([
+      'deny-overrides',
+      'permit-overrides',
+      'first-applicable',
+      'deny-unless-permit',
+    ]);
+  });
+
+  it('labels known algorithms', () => {
+    expect(getCombiningAlgorithmLabel('first-applicable')).toBe('First applicable');
+  });
+
+  it('falls back to the default algorithm when none is set', () => {
+    expect(getCombiningAlgorithmLabel(undefined)).toBe('Deny overrides');
+  });
+
+  it('returns unknown values unchanged', () => {
+    expect(getCombiningAlgorithmLabel('only-one-applicable')).toBe('only-one-applicable');
+    expect(getCombiningAlgorithmDescription('only-one-applicable')).toBe('');
+  });
+
+  it('describes how an algorithm decides', () => {
+    expect(getCombiningAlgorithmDescription('deny-unless-permit')).toBe('Allow only when an Allow policy applies, otherwise Deny');
+  });
+});
@@ -0,0 +1,202 @@
+import { DecisionTrace, RuleTrace } from '@/types';
+import {
+  formatTraceValue,
+  formatAttributeTrace,
+  describeRuleFailure,
+  isOutsideWindow,
+  isResourceBlocked,
+  summarizeTrace,
+} from '../decisionTrace';
+
+describe('decisionTrace utilities', () => {
+  const matchedTargets = {
+    subject: { expected: 'alice', actual: 'alice', matched: true },
+    action: { expected: 'read', actual: 'read', matched: true },
+    resource: { expected: '*', actual: 'doc-1', matched: true },
+  };
+
+  const matchedRule: RuleTrace = {
+    ruleId: 'rule-1',
+    matched: true,
+    targets: matchedTargets,
+    attributes: [
+      {
+        source: 'subject',
+        attribute: 'department',
+        operator: 'equals',
+        expected: 'IT',
+        actual: 'IT',
+        passed: true,
+        message: "Expected 'IT', got 'IT'",
+      },
+    ],
+  };
+
+  const failedRule: RuleTrace = {
+    ruleId: 'rule-2',
+    matched: false,
+    targets: matchedTargets,
+    attributes: [
+      {
+        source: 'resource',
+        attribute: 'classification',
+        operator: 'in',
+        expected: ['public', 'internal'],
+        actual: 'confidential',
+        passed: false,
+        message: "Expected one of [public, internal], got 'confidential'",
+      },
+    ],
+  };
+
+  const untargetedRule: RuleTrace = {
+    ruleId: 'rule-3',
+    matched: false,
+    targets: {
+      ...matchedTargets,
+      action: { expected: 'delete', actual: 'read', matched: false },
+    },
+    attributes: [],
+  };
+
+  const windowedRule: RuleTrace = {
+    ruleId: 'rule-4',
+    matched: false,
+    targets: matchedTargets,
+    attributes: [],
+    timeConstraints: [
+      {
+        window: 'weekly on Tue 22:00–02:00 Europe/Berlin',
+        timezone: 'Europe/Berlin',
+        localTime: 'Wed 2025-03-05 10:15',
+        passed: false,
+        message: 'Outside allowed window (weekly on Tue 22:00–02:00 Europe/Berlin), local time Wed 2025-03-05 10:15',
+      },
+    ],
+  };
+
+  const blockedRule: RuleTrace = {
+    ruleId: 'rule-5',
+    matched: false,
+    targets: matchedTargets,
+    attributes: [],
+    resourceAccess: {
+      resourceId: 'doc-1',
+      available: false,
+      accessLevel: 'read',
+      message: "Blocked by dependency rule 'Change freeze'",
+      reasons: ["Blocked by dependency rule 'Change freeze'"],
+    },
+  };
+
+  const trace: DecisionTrace = {
+    policies: [
+      {
+        policyId: 'policy-1',
+        policyName: 'IT Read Access',
+        effect: 'Allow',
+        applicable: true,
+        matchedRules: ['rule-1'],
+        rules: [matchedRule, failedRule, untargetedRule],
+        conditions: [],
+      },
+      {
+        policyId: 'policy-2',
+        policyName: 'Office Hours Only',
+        effect: 'Deny',
+        applicable: false,
+        matchedRules: [],
+        rules: [],
+        conditions: [
+          {
+            source: 'condition',
+            attribute: 'environment.location',
+            operator: 'equals',
+            expected: 'office',
+            actual: undefined,
+            passed: false,
+            message: 'Attribute value is not present',
+          },
+        ],
+      },
+    ],
+    combining: [
+      { step: 1, description: '1 of 2 policies applicable', effect: 'NotApplicable', policyIds: ['policy-1'], final: false },
+      { step: 2, description: 'Deny-overrides', effect: 'Allow', policyIds: ['policy-1'], final: true },
+    ],
+  };
+
+  describe('formatTraceValue', () => {
+    it('quotes strings and formats lists and ranges', () => {
+      expect(formatTraceValue('IT')).toBe('"IT"');
+      expect(formatTraceValue(5)).toBe('5');
+      expect(formatTraceValue(['a', 'b'])).toBe('["a", "b"]');
+      expect(formatTraceValue({ start: '2024-01-01', end: '2024-12-31' })).toBe('"2024-01-01".."2024-12-31"');
+    });
+
+    it('marks missing values', () => {
+      expect(formatTraceValue(undefined)).toBe('(missing)');
+      expect(formatTraceValue('')).toBe('(missing)');
+    });
+  });
+
+  describe('formatAttributeTrace', () => {
+    it('uses symbols for comparison operators and prefixes the source', () => {
+      expect(formatAttributeTrace(matchedRule.attributes[0])).toBe('subject.department == "IT"');
+    });
+
+    it('keeps named operators and does not prefix conditions', () => {
+      expect(formatAttributeTrace(failedRule.attributes[0])).toBe('resource.classification in ["public", "internal"]');
+      expect(formatAttributeTrace(trace.policies[1].conditions[0])).toBe('environment.location == "office"');
+    });
+  });
+
+  describe('describeRuleFailure', () => {
+    it('reports the first missed target', () => {
+      expect(describeRuleFailure(untargetedRule)).toBe('action is not "delete"');
+    });
+
+    it('reports the first failed attribute with its actual value', () => {
+      expect(describeRuleFailure(failedRule)).toBe('resource.classification in ["public", "internal"] (actual "confidential")');
+    });
+
+    it('reports a closed time window with the local time', () => {
+      expect(describeRuleFailure(windowedRule)).toBe(
+        'outside allowed window (weekly on Tue 22:00–02:00 Europe/Berlin, local time Wed 2025-03-05 10:15)'
+      );
+    });
+  });
+
+  describe('isResourceBlocked', () => {
+    it('reports the rule that blocked the resource', () => {
+      expect(isResourceBlocked(blockedRule)).toBe(true);
+      expect(isResourceBlocked(windowedRule)).toBe(false);
+      expect(describeRuleFailure(blockedRule)).toBe("Blocked by dependency rule 'Change freeze'");
+    });
+  });
+
+  describe('isOutsideWindow', () => {
+    it('is true only when time windows are all that failed', () => {
+      expect(isOutsideWindow(windowedRule)).toBe(true);
+      expect(isOutsideWindow(failedRule)).toBe(false);
+      expect(isOutsideWindow({ ...windowedRule, targets: untargetedRule.targets })).toBe(false);
+      expect(isOutsideWindow({ ...windowedRule, matched: true })).toBe(false);
+    });
+  });
+
+  describe('summarizeTrace', () => {
+    it('returns empty lists without a trace', () => {
+      expect(summarizeTrace(undefined)).toEqual({ matchedRules: [], failedRules: [] });
+    });
+
+    it('lists matched rules, failed targeted rules and failed policy conditions', () => {
+      const summary = summarizeTrace(trace);
+
+      expect(summary.matchedRules).toEqual(['IT Read Access: subject.department == "IT"']);
+      expect(summary.failedRules).toEqual([
+        'IT Read Access: resource.classification in ["public", "internal"] (actual "confidential")',
+        'Office Hours Only: environment.location == "office" (actual (missing))',
+      ]);
+    });
+  });
+});
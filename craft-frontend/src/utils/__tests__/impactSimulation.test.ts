@@ -0,0 +1,41 @@
+import { ImpactEntry, ImpactSimulation } from '@/types';
+import { describeImpact, formatImpactEntry, hasImpact } from '../impactSimulation';
+
+describe('impactSimulation utilities', () => {
+  const entry: ImpactEntry = {
+    subject: { id: 'sub-1', name: 'alice', displayName: 'Alice' },
+    action: { id: 'read', name: 'read' },
+    resource: { id: 'res-1', name: 'quarterly-report', displayName: 'Quarterly Report' },
+    previousDecision: 'NotApplicable',
+    proposedDecision: 'Allow',
+    reason: "Allowed by policy 'Finance Read'",
+  };
+
+  const simulation = (overrides: Partial<ImpactSimulation> = {}): ImpactSimulation => ({
+    policyId: 'policy-1',
+    combiningAlgorithm: 'deny-overrides',
+    totalCombinations: 5000,
+    targetedCombinations: 1200,
+    evaluatedCombinations: 1200,
+    sampled: false,
+    added: [],
+    removed: [],
+    snapshotAt: '2025-03-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  it('formats combinations by display name', () => {
+    expect(formatImpactEntry(entry)).toBe('Alice → read → Quarterly Report');
+  });
+
+  it('describes the impact and whether it was sampled', () => {
+    expect(hasImpact(simulation())).toBe(false);
+    expect(describeImpact(simulation())).toBe('No access grants change, evaluated over all 1,200 combinations this policy targets.');
+
+    const sampled = simulation({ sampled: true, targetedCombinations: 40000, evaluatedCombinations: 20000, added: [entry] });
+    expect(hasImpact(sampled)).toBe(true);
+    expect(describeImpact(sampled)).toBe(
+      '1 grant(s) added and 0 removed, evaluated over a sample of 20,000 of the 40,000 combinations this policy targets.'
+    );
+  });
+});
@@ -4,6 +4,8 @@ import {
   canDelete,
   canCreate,
   canManage,
+  canView,
+  getWorkspaceRole,
   isAdmin,
   isSuperAdmin,
   isBasic,
@@ -107,6 +109,49 @@ describe('permissions utilities', () => {
     });
   });
 
+  describe('workspace roles', () => {
+    const memberships = (roles: Record<string, 'owner' | 'admin' | 'member' | 'viewer'>) =>
+      Object.fromEntries(Object.entries(roles).map(([workspaceId, role]) => [
+        workspaceId,
+        { role, permissions: [], joinedAt: '2025-01-01T00:00:00.000Z' },
+      ]));
+
+    it('resolves the role held in each workspace', () => {
+      const user: User = { ...basicUser, workspaceRoles: memberships({ 'ws-a': 'admin', 'ws-b': 'viewer' }) };
+
+      expect(getWorkspaceRole(user, 'ws-a')).toBe('admin');
+      expect(getWorkspaceRole(user, 'ws-b')).toBe('viewer');
+      expect(canDelete(user, 'ws-a')).toBe(true);
+      expect(canEdit(user, 'ws-b')).toBe(false);
+      expect(canView(user, 'ws-b')).toBe(true);
+    });
+
+    it('lets members create and edit but not delete or manage', () => {
+      const user: User = { ...basicUser, workspaceRoles: memberships({ 'ws-a': 'member' }) };
+
+      expect(canCreate(user, 'ws-a')).toBe(true);
+      expect(canEdit(user, 'ws-a')).toBe(true);
+      expect(canDelete(user, 'ws-a')).toBe(false);
+      expect(canManage(user, 'ws-a')).toBe(false);
+    });
+
+    it('falls back to the global role without a membership', () => {
+      const admin: User = { ...adminUser, workspaceRoles: memberships({ 'ws-a': 'viewer' }) };
+
+      expect(getWorkspaceRole(admin, 'ws-a')).toBe('viewer');
+      expect(getWorkspaceRole(admin, 'ws-b')).toBe('admin');
+      expect(getWorkspaceRole(basicUser, 'ws-b')).toBe('viewer');
+      expect(getWorkspaceRole(null, 'ws-b')).toBeNull();
+    });
+
+    it('makes super admins owners of every workspace', () => {
+      const superAdmin: User = { ...superAdminUser, workspaceRoles: memberships({ 'ws-a': 'viewer' }) };
+
+      expect(getWorkspaceRole(superAdmin, 'ws-a')).toBe('owner');
+      expect(canManage(superAdmin, 'ws-a')).toBe(true);
+    });
+  });
+
   describe('isAdmin', () => {
     it('returns false for null user', () => {
       expect(isAdmin(null)).toBe(false);
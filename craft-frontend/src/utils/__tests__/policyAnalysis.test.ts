@@ -0,0 +1,61 @@
+import { AnalysisFinding } from '@/types';
+import {
+  describeReference,
+  filterFindings,
+  getFindingLabel,
+  getFindingTypeLabel,
+} from '../policyAnalysis';
+
+describe('policyAnalysis utilities', () => {
+  const rule = (policyId: string, policyName: string, effect: 'Allow' | 'Deny') => ({
+    policyId,
+    policyName,
+    effect,
+    status: 'Active',
+    priority: 100,
+    ruleId: `${policyId}-rule`,
+  });
+
+  const findings: AnalysisFinding[] = [
+    {
+      type: 'contradiction',
+      severity: 'error',
+      relation: 'shadowed',
+      message: "'Read Docs' (Allow, rule r1) never takes effect",
+      policyIds: ['policy-1', 'policy-2'],
+      rules: [rule('policy-1', 'Read Docs', 'Allow'), rule('policy-2', 'Deny Contractors', 'Deny')],
+      winner: 'Deny',
+    },
+    {
+      type: 'unreachable',
+      severity: 'warning',
+      message: "'Legacy Export' references 1 deleted or inactive entity",
+      policyIds: ['policy-3'],
+      rules: [],
+      references: [{ kind: 'subject', ref: 'bob', reason: 'inactive', ruleId: 'rule-2' }],
+    },
+  ];
+
+  describe('labels', () => {
+    it('labels findings by relation when known', () => {
+      expect(getFindingTypeLabel('redundancy')).toBe('Redundancy');
+      expect(getFindingLabel(findings[0])).toBe('Shadowed contradiction');
+      expect(getFindingLabel(findings[1])).toBe('Unreachable');
+    });
+
+    it('describes dangling references', () => {
+      expect(describeReference({ kind: 'additionalResource', ref: 'vpn', reason: 'missing' }))
+        .toBe('Additional resource vpn (missing)');
+      expect(describeReference(findings[1].references![0])).toBe('Subject bob (inactive, rule rule-2)');
+    });
+  });
+
+  describe('filterFindings', () => {
+    it('filters by type and by policy name or ID', () => {
+      expect(filterFindings(findings, 'all', '')).toHaveLength(2);
+      expect(filterFindings(findings, 'unreachable', '')).toEqual([findings[1]]);
+      expect(filterFindings(findings, 'all', 'contractors')).toEqual([findings[0]]);
+      expect(filterFindings(findings, 'contradiction', 'policy-3')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { BundleImportPlan } from '@/types';
+import {
+  getBundleActionColor,
+  getBundleFilename,
+  getBundleFormat,
+  getPolicyFileFormat,
+  getValidationIssues,
+  hasImportableChanges,
+} from '../policyBundles';
+
+describe('policy bundle utilities', () => {
+  const plan = (summary: Partial<BundleImportPlan['summary']>, entities: BundleImportPlan['entities'] = []): BundleImportPlan => ({
+    target: { id: 'env-1', name: 'Staging' },
+    mode: 'merge',
+    dryRun: true,
+    entities,
+    policies: [],
+    unresolved: [],
+    summary: { create: 0, update: 0, unchanged: 0, conflict: 0, delete: 0, ...summary },
+  });
+
+  it('names and recognizes bundle files by format', () => {
+    expect(getBundleFilename('Production EU', 'yaml')).toBe('policies-production-eu.yaml');
+    expect(getBundleFilename('  ', 'json')).toBe('policies-environment.json');
+    expect(getBundleFormat('policies.YML')).toBe('yaml');
+    expect(getBundleFormat('policies.yaml')).toBe('yaml');
+    expect(getBundleFormat('policies.json')).toBe('json');
+    expect(getBundleFilename('Production EU', 'xacml')).toBe('policies-production-eu.xml');
+    expect(getBundleFilename('Production EU', 'iam')).toBe('policies-production-eu.iam.json');
+  });
+
+  it('recognizes XACML and IAM documents among uploaded files', () => {
+    expect(getPolicyFileFormat('policies.xml', '')).toBe('xacml');
+    expect(getPolicyFileFormat('export', '  <?xml version="1.0"?><PolicySet/>')).toBe('xacml');
+    expect(getPolicyFileFormat('policy.json', '{"Version":"2012-10-17","Statement":[]}')).toBe('iam');
+    expect(getPolicyFileFormat('policies.json', '[{"Id":"a","Statement":[]}]')).toBe('iam');
+    expect(getPolicyFileFormat('policies.json', '{"kind":"craft-policy-bundle"}')).toBe('json');
+    expect(getPolicyFileFormat('policies.yaml', 'kind: craft-policy-bundle')).toBe('yaml');
+  });
+
+  it('detects plans that change the target', () => {
+    expect(hasImportableChanges(plan({ unchanged: 2, conflict: 1 }))).toBe(false);
+    expect(hasImportableChanges(plan({ delete: 1 }))).toBe(true);
+    expect(hasImportableChanges(plan({}, [
+      { kind: 'subject', sourceId: 's-1', name: 'alice', action: 'create', targetId: 's-1', fields: [] },
+    ]))).toBe(true);
+    expect(getBundleActionColor('delete')).toBe('warning');
+    expect(getBundleActionColor('conflict')).toBe('error');
+  });
+
+  it('formats validation problems of a rejected bundle', () => {
+    expect(getValidationIssues({
+      errors: [{ path: 'policies[1].effect', message: 'Effect must be either Allow or Deny' }],
+    })).toEqual(['policies[1].effect: Effect must be either Allow or Deny']);
+    expect(getValidationIssues(undefined)).toEqual([]);
+  });
+});
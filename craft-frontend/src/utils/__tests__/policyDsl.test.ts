@@ -0,0 +1,99 @@
+import { formatPolicyDsl, parsePolicyDsl, PolicyDslDocument, toPolicyFields } from '../policyDsl';
+
+describe('policy DSL', () => {
+  const parse = (text: string): PolicyDslDocument => {
+    const result = parsePolicyDsl(text, { actionDisplayNames: { read: 'Read' } });
+    if (!result.document) throw new Error(`${result.error.line}:${result.error.column} ${result.error.message}`);
+    return result.document;
+  };
+  const withoutIds = (document: PolicyDslDocument) => ({
+    ...document,
+    rules: document.rules.map(rule => ({ ...rule, id: '' })),
+  });
+
+  it('parses rules, attributes, conditions and requirements', () => {
+    const document = parse(`
+      # Finance reads internal reports during office hours
+      allow action "read" on resource where classification in [internal, public]
+        when subject.department == "Finance" and environment.time between "09:00" and "17:00"
+      require "ticket-system" where status == approved and priority >= 2
+    `);
+
+    expect(document.effect).toBe('Allow');
+    expect(document.rules).toHaveLength(1);
+    expect(document.rules[0]).toMatchObject({
+      subject: { type: '*', attributes: [] },
+      action: { name: 'read', displayName: 'Read' },
+      object: { type: '*', attributes: [{ name: 'classification', operator: 'in', value: ['internal', 'public'] }] },
+      conditions: [
+        { field: 'subject.department', operator: 'equals', value: 'Finance' },
+        {
+          field: 'environment.time',
+          operator: 'between',
+          value: { start: '09:00', end: '17:00' },
+          dateConfig: { includeTime: true, isRange: true },
+        },
+      ],
+    });
+    expect(document.additionalResources).toEqual([{
+      id: 'ticket-system',
+      attributes: [
+        { name: 'status', operator: 'equals', value: 'approved' },
+        { name: 'priority', operator: 'greater_than_or_equal', value: 2 },
+      ],
+    }]);
+    expect(toPolicyFields(document)).toMatchObject({ subjects: [], actions: ['read'], resources: [] });
+  });
+
+  it('round-trips formatted policies', () => {
+    const text = [
+      'deny subject "contractors" where clearance not in [secret, "top secret"] action "delete" on resource',
+      'deny subject where active == false action * on resource "db" where region != eu-west',
+      'deny action "export"',
+      '  on resource "reports" where owner not contains "and"',
+      '  when created on_or_after 2025-01-01 and request.count > -1.5',
+      'require "approvals" where count == "3"',
+    ].join('\n');
+
+    const document = parse(text);
+    expect(formatPolicyDsl(document)).toBe(text);
+    expect(withoutIds(parse(formatPolicyDsl(document)))).toEqual(withoutIds(document));
+  });
+
+  it('wraps long rules one clause per line', () => {
+    const text = 'allow subject "finance-team" where department == Finance and level >= 3'
+      + ' action "read" on resource "quarterly-reports" where classification in [internal, confidential]';
+    expect(formatPolicyDsl(parse(text))).toBe([
+      'allow subject "finance-team" where department == Finance and level >= 3',
+      '  action "read"',
+      '  on resource "quarterly-reports" where classification in [internal, confidential]',
+    ].join('\n'));
+  });
+
+  it('reports errors with their line and column', () => {
+    expect(parsePolicyDsl('allow action "read"\n  resource "docs"')).toEqual({
+      document: null,
+      error: { message: "Expected 'on' but found 'resource'", line: 2, column: 3, offset: 22, length: 8 },
+    });
+    expect(parsePolicyDsl('allow action "read" on resource "docs" where level ~ 3')).toMatchObject({
+      document: null,
+      error: { message: "Unexpected character '~'", line: 1, column: 52 },
+    });
+    expect(parsePolicyDsl('allow action "read" on resource\ndeny action "write" on resource')).toMatchObject({
+      document: null,
+      error: { line: 2, column: 1, message: expect.stringContaining('share one effect') },
+    });
+    expect(parsePolicyDsl('allow action "read" on resource when owner != me')).toMatchObject({
+      document: null,
+      error: { message: 'Operator != is not supported in conditions', line: 1, column: 44 },
+    });
+    expect(parsePolicyDsl('allow action "read on resource')).toMatchObject({
+      document: null,
+      error: { message: 'Unterminated string', line: 1, column: 14 },
+    });
+    expect(parsePolicyDsl('# nothing yet')).toMatchObject({
+      document: null,
+      error: { message: 'A policy needs at least one allow or deny rule' },
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { PolicyRevision } from '@/types';
+import {
+  compareVersions,
+  describeRuleChange,
+  formatDiffValue,
+  getBumpColor,
+  sortRevisions,
+} from '../policyRevisions';
+
+describe('policyRevisions utilities', () => {
+  const revision = (version: string): PolicyRevision => ({
+    _id: version,
+    policyId: 'policy-1',
+    version,
+    bump: 'minor',
+    author: 'admin@example.com',
+    summary: '',
+    createdAt: '2025-03-01T00:00:00.000Z',
+  });
+
+  describe('compareVersions and sortRevisions', () => {
+    it('orders versions numerically per part', () => {
+      expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+      expect(compareVersions('2.0.0', '10.0.0')).toBeLessThan(0);
+      expect(compareVersions('1.2.3', '1.2.3')).toBe(0);
+    });
+
+    it('lists the newest version first', () => {
+      const sorted = sortRevisions([revision('1.0.0'), revision('2.0.0'), revision('1.10.0'), revision('1.9.0')]);
+      expect(sorted.map(item => item.version)).toEqual(['2.0.0', '1.10.0', '1.9.0', '1.0.0']);
+    });
+  });
+
+  describe('getBumpColor', () => {
+    it('grades bumps by impact', () => {
+      expect(getBumpColor('major')).toBe('error');
+      expect(getBumpColor('minor')).toBe('warning');
+      expect(getBumpColor('patch')).toBe('info');
+      expect(getBumpColor('initial')).toBe('default');
+    });
+  });
+
+  describe('formatDiffValue', () => {
+    it('formats lists, objects and empty values', () => {
+      expect(formatDiffValue(['read', 'write'])).toBe('read, write');
+      expect(formatDiffValue([{ name: 'department' }])).toBe('[{"name":"department"}]');
+      expect(formatDiffValue({ a: 1 })).toBe('{"a":1}');
+      expect(formatDiffValue([])).toBe('—');
+      expect(formatDiffValue('')).toBe('—');
+      expect(formatDiffValue(3)).toBe('3');
+    });
+  });
+
+  describe('describeRuleChange', () => {
+    it('describes added, removed and modified rules', () => {
+      expect(describeRuleChange({ key: 'admin → read → docs', kind: 'rule', change: 'added', fields: [] }))
+        .toBe('Added rule admin → read → docs');
+      expect(describeRuleChange({ key: 'admin → read → docs', kind: 'complexRule', change: 'removed', fields: [] }))
+        .toBe('Removed complex rule admin → read → docs');
+      expect(describeRuleChange({ key: 'admin → read → docs', kind: 'rule', change: 'modified', fields: ['object', 'conditions'] }))
+        .toBe('Modified rule admin → read → docs (object, conditions)');
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { ScheduledTransition } from '@/types';
+import {
+  describeTransition,
+  fromDateTimeLocalValue,
+  getScheduleError,
+  toDateTimeLocalValue,
+} from '../policySchedule';
+
+describe('policySchedule utilities', () => {
+  it('converts between stored dates and datetime-local values', () => {
+    const local = new Date(2025, 2, 1, 9, 5);
+
+    expect(toDateTimeLocalValue(local.toISOString())).toBe('2025-03-01T09:05');
+    expect(fromDateTimeLocalValue('2025-03-01T09:05')).toBe(local.toISOString());
+    expect(toDateTimeLocalValue(null)).toBe('');
+    expect(fromDateTimeLocalValue('')).toBeNull();
+  });
+
+  it('requires expiry to be later than activation', () => {
+    expect(getScheduleError('2025-03-01T09:00', '2025-03-02T09:00')).toBeNull();
+    expect(getScheduleError('2025-03-01T09:00', '')).toBeNull();
+    expect(getScheduleError('2025-03-02T09:00', '2025-03-01T09:00')).toBe('Expiry must be later than activation');
+  });
+
+  it('describes how soon a transition happens', () => {
+    const now = new Date('2025-03-01T00:00:00.000Z');
+    const transition = (kind: ScheduledTransition['kind'], at: string): ScheduledTransition => ({
+      policyId: 'policy-1',
+      policyName: 'Finance Read',
+      workspaceId: 'ws-1',
+      applicationId: 'app-1',
+      environmentId: 'env-1',
+      kind,
+      at,
+      status: 'Draft',
+    });
+
+    expect(describeTransition(transition('activate', '2025-03-01T00:30:00.000Z'), now)).toBe('Activates in 30 minute(s)');
+    expect(describeTransition(transition('expire', '2025-03-01T05:00:00.000Z'), now)).toBe('Expires in 5 hour(s)');
+    expect(describeTransition(transition('expire', '2025-03-04T00:00:00.000Z'), now)).toBe('Expires in 3 day(s)');
+    expect(describeTransition(transition('activate', '2025-02-28T23:59:00.000Z'), now)).toBe('Activates now');
+  });
+});
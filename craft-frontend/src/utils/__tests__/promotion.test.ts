@@ -0,0 +1,65 @@
+import { IEnvironment } from '@/contexts/WorkspaceContext';
+import { PromotionPlan } from '@/types';
+import {
+  getKindLabel,
+  getPromotionActionColor,
+  getPromotionTargets,
+  hasPromotableChanges,
+} from '../promotion';
+
+describe('promotion utilities', () => {
+  const environment = (id: string, autoPromoteFrom?: string): IEnvironment => ({
+    _id: id,
+    workspaceId: 'ws-1',
+    applicationId: 'app-1',
+    name: id,
+    displayName: id,
+    type: 'development',
+    configuration: { variables: {}, endpoints: {}, features: {} },
+    metadata: {
+      owner: 'user-1',
+      createdBy: 'user-1',
+      lastModifiedBy: 'user-1',
+      tags: [],
+      isDefault: false,
+      ...(autoPromoteFrom && {
+        promotionRules: { autoPromoteFrom, requireApproval: false, approvers: [] },
+      }),
+    },
+    active: true,
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+  });
+
+  describe('getPromotionTargets', () => {
+    it('respects configured sources and lists them first', () => {
+      const environments = [
+        environment('dev'),
+        environment('preview'),
+        environment('staging', 'dev'),
+        environment('production', 'staging'),
+      ];
+
+      expect(getPromotionTargets(environments, 'dev').map(target => target._id)).toEqual(['staging', 'preview']);
+      expect(getPromotionTargets(environments, 'staging').map(target => target._id)).toEqual(['production', 'dev', 'preview']);
+    });
+  });
+
+  describe('labels and colors', () => {
+    it('labels kinds and colors actions', () => {
+      expect(getKindLabel('additionalResource')).toBe('Additional resource');
+      expect(getPromotionActionColor('create')).toBe('success');
+      expect(getPromotionActionColor('update')).toBe('info');
+      expect(getPromotionActionColor('conflict')).toBe('error');
+      expect(getPromotionActionColor('unchanged')).toBe('default');
+    });
+  });
+
+  describe('hasPromotableChanges', () => {
+    it('is false when everything is unchanged or conflicting', () => {
+      const plan = (summary: PromotionPlan['summary']) => ({ summary } as PromotionPlan);
+      expect(hasPromotableChanges(plan({ create: 0, update: 0, unchanged: 3, conflict: 1 }))).toBe(false);
+      expect(hasPromotableChanges(plan({ create: 1, update: 0, unchanged: 0, conflict: 0 }))).toBe(true);
+    });
+  });
+});
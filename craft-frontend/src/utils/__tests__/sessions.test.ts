@@ -0,0 +1,27 @@
+import { describeUserAgent, formatLastUsed } from '../sessions';
+
+describe('sessions utilities', () => {
+  it('describes the browser and platform of a user agent', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+    )).toBe('Chrome on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15'
+    )).toBe('Safari on macOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0'
+    )).toBe('Edge on Windows');
+    expect(describeUserAgent('curl/8.4.0')).toBe('curl/8.4.0');
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+  });
+
+  it('formats the time since a session was last used', () => {
+    const now = new Date('2025-03-04T12:00:00.000Z');
+
+    expect(formatLastUsed('2025-03-04T11:59:30.000Z', now)).toBe('Just now');
+    expect(formatLastUsed('2025-03-04T11:55:00.000Z', now)).toBe('5 min ago');
+    expect(formatLastUsed('2025-03-04T09:00:00.000Z', now)).toBe('3 h ago');
+    expect(formatLastUsed('2025-03-03T12:00:00.000Z', now)).toBe('1 day ago');
+    expect(formatLastUsed('2025-03-01T12:00:00.000Z', now)).toBe('3 days ago');
+  });
+});
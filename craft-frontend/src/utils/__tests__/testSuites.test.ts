@@ -0,0 +1,69 @@
+import { PolicyTestRun, PolicyTestSuite } from '@/types';
+import { formatRunSummary, getCaseResult, getPassRate, getRunColor } from '../testSuites';
+
+describe('testSuites utilities', () => {
+  const failingRun: PolicyTestRun = {
+    runAt: '2025-03-04T10:00:00.000Z',
+    runBy: 'admin@example.com',
+    total: 4,
+    passed: 3,
+    failed: 1,
+    results: [
+      {
+        caseId: 'case-1',
+        name: 'Admin can delete',
+        expectedDecision: 'Allow',
+        actualDecision: 'Deny',
+        passed: false,
+        reason: "Denied by policy 'Freeze'",
+        matchedPolicies: ['policy-2'],
+      },
+    ],
+  };
+
+  const passingRun: PolicyTestRun = { ...failingRun, total: 6, passed: 6, failed: 0, results: [] };
+
+  const suite = (lastRun?: PolicyTestRun): PolicyTestSuite => ({
+    _id: 'suite',
+    id: 'suite-1',
+    name: 'Regression',
+    workspaceId: 'ws',
+    applicationId: 'app',
+    environmentId: 'env',
+    cases: [],
+    lastRun,
+    metadata: { createdBy: 'admin', lastModifiedBy: 'admin', tags: [] },
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+  });
+
+  describe('getCaseResult', () => {
+    it('finds the case in the last run', () => {
+      expect(getCaseResult(suite(failingRun), 'case-1')?.actualDecision).toBe('Deny');
+      expect(getCaseResult(suite(failingRun), 'case-9')).toBeUndefined();
+      expect(getCaseResult(suite(), 'case-1')).toBeUndefined();
+    });
+  });
+
+  describe('getPassRate', () => {
+    it('aggregates the last runs of all suites', () => {
+      expect(getPassRate([suite(failingRun), suite(passingRun), suite()])).toBe(90);
+    });
+
+    it('returns null when no suite has been run', () => {
+      expect(getPassRate([suite()])).toBeNull();
+      expect(getPassRate([])).toBeNull();
+    });
+  });
+
+  describe('formatRunSummary and getRunColor', () => {
+    it('describe passing, failing and missing runs', () => {
+      expect(formatRunSummary(failingRun)).toBe('3 of 4 passed');
+      expect(formatRunSummary(passingRun)).toBe('All 6 passed');
+      expect(formatRunSummary(undefined)).toBe('Not run yet');
+      expect(getRunColor(failingRun)).toBe('error');
+      expect(getRunColor(passingRun)).toBe('success');
+      expect(getRunColor(undefined)).toBe('default');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Utility functions for break-glass emergency access grants
+ */
+
+import { BreakGlassGrant } from '@/types';
+
+/**
+ * One line naming the access granted, e.g. "Alice → Restart → Payments DB"
+ */
+export function describeGrant(grant: BreakGlassGrant): string {
+  return [grant.subject, grant.action, grant.resource].map(entity => entity.name).join(' → ');
+}
+
+/**
+ * Whether a grant has ended and still awaits its review
+ */
+export function needsReview(grant: BreakGlassGrant): boolean {
+  return grant.status !== 'active' && !grant.review;
+}
+
+/**
+ * Whether a user can review a grant: an admin other than its requester, once it has ended
+ */
+export function canReviewGrant(grant: BreakGlassGrant, user?: { _id?: string; role?: string } | null): boolean {
+  if (!user?._id || !needsReview(grant)) return false;
+  if (user.role !== 'admin' && user.role !== 'super_admin') return false;
+  return grant.requestedBy.id !== user._id;
+}
+
+/**
+ * Chip label and color for a grant, distinguishing ended grants by their review
+ */
+export function getGrantStatus(grant: BreakGlassGrant): { label: string; color: 'error' | 'warning' | 'success' | 'default' } {
+  if (grant.status === 'active') return { label: 'Active', color: 'error' };
+  if (!grant.review) return { label: 'Needs review', color: 'warning' };
+  return grant.review.outcome === 'justified'
+    ? { label: 'Justified', color: 'success' }
+    : { label: 'Unjustified', color: 'error' };
+}
+
+/**
+ * Time left on an active grant, e.g. "25 min left" or "1 h 10 min left"
+ */
+export function formatRemaining(grant: BreakGlassGrant, now: Date = new Date()): string {
+  const minutes = Math.ceil((new Date(grant.expiresAt).getTime() - now.getTime()) / 60000);
+  if (minutes <= 0) return 'Expiring';
+  if (minutes < 60) return `${minutes} min left`;
+
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} h left` : `${hours} h ${minutes % 60} min left`;
+}
@@ -0,0 +1,61 @@
+/**
+ * Utility functions for policy change requests awaiting approval
+ */
+
+import { ChangeRequest, ChangeRequestStatus } from '@/types';
+import { getFieldLabel } from '@/utils/policyRevisions';
+
+const OPERATION_LABELS: Record<ChangeRequest['operation'], string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+export function countApprovals(request: ChangeRequest): number {
+  return request.reviews.filter(review => review.decision === 'approve').length;
+}
+
+/**
+ * Progress towards the required approvals, e.g. "1 of 2 approvals"
+ */
+export function formatApprovalProgress(request: ChangeRequest): string {
+  return `${countApprovals(request)} of ${request.requiredApprovals} approval${request.requiredApprovals === 1 ? '' : 's'}`;
+}
+
+/**
+ * Chip color for a change request status
+ */
+export function getChangeStatusColor(status: ChangeRequestStatus): 'warning' | 'success' | 'error' | 'default' {
+  if (status === 'pending') return 'warning';
+  if (status === 'applied') return 'success';
+  if (status === 'rejected' || status === 'failed') return 'error';
+  return 'default';
+}
+
+/**
+ * One line describing the requested change, e.g. "Update Admin Access"
+ */
+export function describeChangeRequest(request: ChangeRequest): string {
+  return `${OPERATION_LABELS[request.operation]} ${request.policyName}`;
+}
+
+/**
+ * Labels of the policy fields an update request changes
+ */
+export function getChangedFields(request: ChangeRequest): string[] {
+  if (request.operation !== 'update') return [];
+
+  return Object.keys(request.payload)
+    .flatMap(field => field === 'metadata' ? Object.keys(request.payload.metadata || {}) : [field])
+    .map(getFieldLabel);
+}
+
+/**
+ * Whether a user can review a request: it must be pending, requested by someone else and not
+ * reviewed by them yet. Being a listed approver is checked by the server.
+ */
+export function canReviewChangeRequest(request: ChangeRequest, userId?: string): boolean {
+  if (!userId || request.status !== 'pending') return false;
+  if (request.requestedBy.id === userId) return false;
+  return !request.reviews.some(review => review.reviewerId === userId);
+}
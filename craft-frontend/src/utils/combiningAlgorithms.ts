@@ -0,0 +1,47 @@
+/**
+ * Labels and descriptions for the policy combining algorithms an environment can use
+ */
+
+import { CombiningAlgorithm } from '@/types';
+
+export const DEFAULT_COMBINING_ALGORITHM: CombiningAlgorithm = 'deny-overrides';
+
+export const COMBINING_ALGORITHMS: Array<{ value: CombiningAlgorithm; label: string; description: string }> = [
+  {
+    value: 'deny-overrides',
+    label: 'Deny overrides',
+    description: 'Any applicable Deny wins over every Allow',
+  },
+  {
+    value: 'permit-overrides',
+    label: 'Permit overrides',
+    description: 'Any applicable Allow wins over every Deny',
+  },
+  {
+    value: 'first-applicable',
+    label: 'First applicable',
+    description: 'The applicable policy with the lowest priority number decides',
+  },
+  {
+    value: 'deny-unless-permit',
+    label: 'Deny unless permit',
+    description: 'Allow only when an Allow policy applies, otherwise Deny',
+  },
+];
+
+const findAlgorithm = (algorithm?: CombiningAlgorithm | string | null) =>
+  COMBINING_ALGORITHMS.find(item => item.value === (algorithm || DEFAULT_COMBINING_ALGORITHM));
+
+/**
+ * Display label for a combining algorithm, falling back to the environment default
+ */
+export function getCombiningAlgorithmLabel(algorithm?: CombiningAlgorithm | string | null): string {
+  return findAlgorithm(algorithm)?.label || String(algorithm);
+}
+
+/**
+ * One-line explanation of how a combining algorithm decides
+ */
+export function getCombiningAlgorithmDescription(algorithm?: CombiningAlgorithm | string | null): string {
+  return findAlgorithm(algorithm)?.description || '';
+}
@@ -0,0 +1,109 @@
+/**
+ * Utility functions for turning policy decision traces into displayable text
+ */
+
+import { AttributeTrace, DecisionTrace, PolicyTrace, RuleTrace } from '@/types';
+
+const OPERATOR_SYMBOLS: Record<string, string> = {
+  equals: '==',
+  not_equals: '!=',
+  greater_than: '>',
+  less_than: '<',
+  greater_than_or_equal: '>=',
+  less_than_or_equal: '<=',
+};
+
+/**
+ * Format a single value for display, quoting strings and expanding ranges and lists
+ */
+export function formatTraceValue(value: any): string {
+  if (value === undefined || value === null || value === '') return '(missing)';
+  if (Array.isArray(value)) return `[${value.map(formatTraceValue).join(', ')}]`;
+  if (typeof value === 'object' && 'start' in value && 'end' in value) {
+    return `${formatTraceValue(value.start)}..${formatTraceValue(value.end)}`;
+  }
+  if (typeof value === 'string') return `"${value}"`;
+  return String(value);
+}
+
+/**
+ * Format an attribute check as an expression, e.g. subject.department == "IT"
+ */
+export function formatAttributeTrace(attribute: AttributeTrace): string {
+  // Dependency trigger conditions already name their trigger resource
+  const prefix = attribute.source === 'condition' || attribute.source === 'dependency' ? '' : `${attribute.source}.`;
+  const operator = OPERATOR_SYMBOLS[attribute.operator] || attribute.operator;
+  return `${prefix}${attribute.attribute} ${operator} ${formatTraceValue(attribute.expected)}`;
+}
+
+const isTargeted = (rule: RuleTrace): boolean =>
+  rule.targets.subject.matched && rule.targets.action.matched && rule.targets.resource.matched;
+
+/**
+ * Whether a rule matched its attributes but all of its time windows were closed
+ */
+export function isOutsideWindow(rule: RuleTrace): boolean {
+  const windows = rule.timeConstraints || [];
+  return !rule.matched && isTargeted(rule)
+    && rule.attributes.every(attribute => attribute.passed)
+    && windows.length > 0 && windows.every(window => !window.passed);
+}
+
+/**
+ * Whether a rule's dependency rules or conditional resource withheld the requested resource
+ */
+export function isResourceBlocked(rule: RuleTrace): boolean {
+  return !rule.matched && isTargeted(rule) && rule.resourceAccess?.available === false;
+}
+
+/**
+ * Describe why a rule did not match: the first failing target, attribute check or time window
+ */
+export function describeRuleFailure(rule: RuleTrace): string {
+  const targetNames = ['subject', 'action', 'resource'] as const;
+  const missedTarget = targetNames.find(name => !rule.targets[name].matched);
+  if (missedTarget) {
+    const target = rule.targets[missedTarget];
+    return `${missedTarget} is not ${formatTraceValue(target.expected)}`;
+  }
+
+  const failed = rule.attributes.find(attribute => !attribute.passed);
+  if (failed) return `${formatAttributeTrace(failed)} (actual ${formatTraceValue(failed.actual)})`;
+
+  if (isResourceBlocked(rule)) return rule.resourceAccess!.message;
+
+  const window = (rule.timeConstraints || [])[0];
+  return window && isOutsideWindow(rule)
+    ? `outside allowed window (${window.window}, local time ${window.localTime})`
+    : 'rule did not match';
+}
+
+/**
+ * Flatten a trace into the matched and failed rule lists shown in the tester summary
+ */
+export function summarizeTrace(trace: DecisionTrace | undefined): { matchedRules: string[]; failedRules: string[] } {
+  const matchedRules: string[] = [];
+  const failedRules: string[] = [];
+
+  (trace?.policies || []).forEach((policy: PolicyTrace) => {
+    policy.rules.forEach(rule => {
+      // Rules outside the request's subject/action/resource are noise, not failures
+      const targeted = isTargeted(rule);
+
+      if (rule.matched) {
+        const checks = rule.attributes.map(formatAttributeTrace);
+        matchedRules.push(`${policy.policyName}: ${checks.length > 0 ? checks.join(' && ') : 'target matched'}`);
+      } else if (targeted) {
+        failedRules.push(`${policy.policyName}: ${describeRuleFailure(rule)}`);
+      }
+    });
+
+    policy.conditions
+      .filter(condition => !condition.passed)
+      .forEach(condition => {
+        failedRules.push(`${policy.policyName}: ${formatAttributeTrace(condition)} (actual ${formatTraceValue(condition.actual)})`);
+      });
+  });
+
+  return { matchedRules, failedRules };
+}
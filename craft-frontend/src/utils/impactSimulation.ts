@@ -0,0 +1,32 @@
+/**
+ * Utility functions for presenting the access impact of an unsaved policy edit
+ */
+
+import { AccessEntityRef, ImpactEntry, ImpactSimulation } from '@/types';
+
+const nameOf = (entity: AccessEntityRef): string => entity.displayName || entity.name || entity.id;
+
+/**
+ * One line per combination, e.g. "Alice → Read → Quarterly Report"
+ */
+export function formatImpactEntry(entry: ImpactEntry): string {
+  return [entry.subject, entry.action, entry.resource].map(nameOf).join(' → ');
+}
+
+export function hasImpact(simulation: ImpactSimulation): boolean {
+  return simulation.added.length + simulation.removed.length > 0;
+}
+
+/**
+ * Summary of the simulation, noting when only a sample of the combinations was evaluated
+ */
+export function describeImpact(simulation: ImpactSimulation): string {
+  const grants = hasImpact(simulation)
+    ? `${simulation.added.length} grant(s) added and ${simulation.removed.length} removed`
+    : 'No access grants change';
+  const coverage = simulation.sampled
+    ? `a sample of ${simulation.evaluatedCombinations.toLocaleString()} of the ${simulation.targetedCombinations.toLocaleString()} combinations this policy targets`
+    : `all ${simulation.evaluatedCombinations.toLocaleString()} combinations this policy targets`;
+
+  return `${grants}, evaluated over ${coverage}.`;
+}
@@ -1,28 +1,51 @@
-import { User } from '@/types';
+import { User, WorkspaceRole } from '@/types';
 
-export const canView = (user: User | null): boolean => {
-  if (!user) return false;
-  return user.role === 'basic' || user.role === 'admin' || user.role === 'super_admin';
+// Higher ranks include every capability of the lower ones
+const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
 };
 
-export const canEdit = (user: User | null): boolean => {
-  if (!user) return false;
-  return user.role === 'admin' || user.role === 'super_admin';
+/**
+ * Role of a user in a workspace, resolved like the backend does: super admins own every
+ * workspace, an explicit membership wins, and otherwise the global role decides.
+ * Without a workspace, the global role decides.
+ */
+export const getWorkspaceRole = (user: User | null, workspaceId?: string): WorkspaceRole | null => {
+  if (!user) return null;
+  if (user.role === 'super_admin') return 'owner';
+
+  const membership = workspaceId ? user.workspaceRoles?.[workspaceId] : undefined;
+  if (membership && WORKSPACE_ROLE_RANK[membership.role] !== undefined) return membership.role;
+
+  return user.role === 'admin' ? 'admin' : 'viewer';
 };
 
-export const canDelete = (user: User | null): boolean => {
-  if (!user) return false;
-  return user.role === 'admin' || user.role === 'super_admin';
+export const hasWorkspaceRole = (user: User | null, minimumRole: WorkspaceRole, workspaceId?: string): boolean => {
+  const role = getWorkspaceRole(user, workspaceId);
+  return role !== null && WORKSPACE_ROLE_RANK[role] >= WORKSPACE_ROLE_RANK[minimumRole];
 };
 
-export const canCreate = (user: User | null): boolean => {
-  if (!user) return false;
-  return user.role === 'admin' || user.role === 'super_admin';
+export const canView = (user: User | null, workspaceId?: string): boolean => {
+  return hasWorkspaceRole(user, 'viewer', workspaceId);
 };
 
-export const canManage = (user: User | null): boolean => {
-  if (!user) return false;
-  return user.role === 'admin' || user.role === 'super_admin';
+export const canEdit = (user: User | null, workspaceId?: string): boolean => {
+  return hasWorkspaceRole(user, 'member', workspaceId);
+};
+
+export const canDelete = (user: User | null, workspaceId?: string): boolean => {
+  return hasWorkspaceRole(user, 'admin', workspaceId);
+};
+
+export const canCreate = (user: User | null, workspaceId?: string): boolean => {
+  return hasWorkspaceRole(user, 'member', workspaceId);
+};
+
+export const canManage = (user: User | null, workspaceId?: string): boolean => {
+  return hasWorkspaceRole(user, 'admin', workspaceId);
 };
 
 export const isAdmin = (user: User | null): boolean => {
@@ -38,4 +61,4 @@ export const isSuperAdmin = (user: User | null): boolean => {
 export const isBasic = (user: User | null): boolean => {
   if (!user) return false;
   return user.role === 'basic';
-};
\ No newline at end of file
+};
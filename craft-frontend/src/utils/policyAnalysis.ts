@@ -0,0 +1,62 @@
+/**
+ * Utility functions for presenting the static conflict and redundancy analysis of policies
+ */
+
+import { AnalysisFinding, AnalysisFindingType, AnalysisRelation, DanglingReference } from '@/types';
+
+const TYPE_LABELS: Record<AnalysisFindingType, string> = {
+  contradiction: 'Contradiction',
+  redundancy: 'Redundancy',
+  unreachable: 'Unreachable',
+};
+
+const RELATION_LABELS: Record<AnalysisRelation, string> = {
+  overlap: 'Overlapping',
+  shadowed: 'Shadowed',
+  duplicate: 'Duplicate',
+  subsumed: 'Subsumed',
+};
+
+const REFERENCE_LABELS: Record<DanglingReference['kind'], string> = {
+  subject: 'Subject',
+  action: 'Action',
+  resource: 'Resource',
+  additionalResource: 'Additional resource',
+};
+
+export function getFindingTypeLabel(type: AnalysisFindingType): string {
+  return TYPE_LABELS[type] || type;
+}
+
+/**
+ * Short label for a finding, naming how the rules relate when known
+ */
+export function getFindingLabel(finding: AnalysisFinding): string {
+  return finding.relation ? `${RELATION_LABELS[finding.relation]} ${finding.type}` : getFindingTypeLabel(finding.type);
+}
+
+/**
+ * One line per dangling reference, e.g. "Subject bob (inactive, rule rule-2)"
+ */
+export function describeReference(reference: DanglingReference): string {
+  const location = reference.ruleId ? `, rule ${reference.ruleId}` : '';
+  return `${REFERENCE_LABELS[reference.kind] || reference.kind} ${reference.ref} (${reference.reason}${location})`;
+}
+
+/**
+ * Findings of the given type that involve the policy matched by the search term
+ */
+export function filterFindings(
+  findings: AnalysisFinding[],
+  type: AnalysisFindingType | 'all',
+  search: string
+): AnalysisFinding[] {
+  const term = search.trim().toLowerCase();
+
+  return findings
+    .filter(finding => type === 'all' || finding.type === type)
+    .filter(finding => !term
+      || finding.message.toLowerCase().includes(term)
+      || finding.policyIds.some(policyId => policyId.toLowerCase().includes(term))
+      || finding.rules.some(rule => rule.policyName.toLowerCase().includes(term)));
+}
@@ -0,0 +1,90 @@
+/**
+ * Utility functions for exporting and importing policy bundles
+ */
+
+import {
+  BundleFormat,
+  BundleImportPlan,
+  BundlePolicyAction,
+  BundleValidationIssue,
+  ConversionFormat,
+  PolicyFileFormat,
+} from '@/types';
+import { getPromotionActionColor } from '@/utils/promotion';
+
+const FILE_EXTENSIONS: Record<PolicyFileFormat, string> = {
+  yaml: 'yaml',
+  json: 'json',
+  xacml: 'xml',
+  iam: 'iam.json',
+};
+
+const FORMAT_LABELS: Record<PolicyFileFormat, string> = {
+  yaml: 'YAML bundle',
+  json: 'JSON bundle',
+  xacml: 'XACML 3.0',
+  iam: 'IAM JSON',
+};
+
+/**
+ * Bundle format of an uploaded file, by its extension; JSON unless it is a YAML file
+ */
+export function getBundleFormat(filename: string): BundleFormat {
+  return /\.ya?ml$/i.test(filename) ? 'yaml' : 'json';
+}
+
+/**
+ * Format of an uploaded policy file: XACML for XML, IAM for JSON policy documents with
+ * statements, otherwise a bundle
+ */
+export function getPolicyFileFormat(filename: string, content: string): PolicyFileFormat {
+  if (/\.xml$/i.test(filename) || content.trimStart().startsWith('<')) return 'xacml';
+
+  try {
+    const parsed = JSON.parse(content);
+    const documents = Array.isArray(parsed) ? parsed : [parsed];
+    if (documents.length > 0 && documents.every(document => document && typeof document === 'object' && 'Statement' in document)) {
+      return 'iam';
+    }
+  } catch {
+    // Not JSON, so a YAML bundle
+  }
+  return getBundleFormat(filename);
+}
+
+export function isConversionFormat(format: PolicyFileFormat): format is ConversionFormat {
+  return format === 'xacml' || format === 'iam';
+}
+
+export function getFormatLabel(format: PolicyFileFormat): string {
+  return FORMAT_LABELS[format];
+}
+
+export function getBundleFilename(environmentName: string, format: PolicyFileFormat): string {
+  const slug = environmentName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'environment';
+  return `policies-${slug}.${FILE_EXTENSIONS[format]}`;
+}
+
+/**
+ * Chip color for a planned import action; deletions only happen in replace mode
+ */
+export function getBundleActionColor(action: BundlePolicyAction): 'success' | 'info' | 'default' | 'error' | 'warning' {
+  return action === 'delete' ? 'warning' : getPromotionActionColor(action);
+}
+
+/**
+ * Whether applying the plan would change anything in the target
+ */
+export function hasImportableChanges(plan: BundleImportPlan): boolean {
+  return plan.summary.create + plan.summary.update + plan.summary.delete > 0
+    || plan.entities.some(entity => entity.action === 'create' || entity.action === 'update');
+}
+
+/**
+ * Readable lines for the validation problems of a rejected bundle, from an API error's details
+ */
+export function getValidationIssues(details: unknown): string[] {
+  const errors = (details as { errors?: BundleValidationIssue[] } | undefined)?.errors;
+  if (!Array.isArray(errors)) return [];
+  return errors.map(issue => `${issue.path}: ${issue.message}`);
+}
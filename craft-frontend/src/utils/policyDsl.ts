@@ -0,0 +1,527 @@
+/**
+ * A textual policy language, parsed into and formatted from the policy rule structures.
+ *
+ *   allow subject "finance-team" where department == Finance
+ *     action "read"
+ *     on resource "reports" where classification in [internal, public]
+ *     when environment.time after "09:00"
+ *   require "ticket-system" where status == approved
+ *
+ * Every statement starts with allow, deny or require, so statements may span lines. Omitted or
+ * `*` subjects and resources match any. `#` starts a comment.
+ */
+
+export type PolicyDslEffect = 'Allow' | 'Deny';
+
+export type PolicyDslOperator =
+  | 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'in' | 'not_in' | 'includes' | 'not_includes'
+  | 'greater_than' | 'less_than' | 'greater_than_or_equal' | 'less_than_or_equal'
+  | 'before' | 'after' | 'between' | 'on_or_before' | 'on_or_after';
+
+export type PolicyDslValue = string | number | boolean | Array<string | number | boolean> | { start: string; end: string };
+
+export interface PolicyDslAttribute {
+  name: string;
+  operator: PolicyDslOperator;
+  value: PolicyDslValue;
+  dateConfig?: { includeTime: boolean; isRange: boolean };
+}
+
+export interface PolicyDslCondition {
+  field: string;
+  operator: PolicyDslOperator;
+  value: PolicyDslValue;
+  dateConfig?: { includeTime: boolean; isRange: boolean };
+}
+
+export interface PolicyDslRule {
+  id: string;
+  subject: { type: string; attributes: PolicyDslAttribute[] };
+  action: { name: string; displayName: string };
+  object: { type: string; attributes: PolicyDslAttribute[] };
+  conditions: PolicyDslCondition[];
+}
+
+export interface PolicyDslAdditionalResource {
+  id: string;
+  attributes: PolicyDslAttribute[];
+}
+
+export interface PolicyDslDocument {
+  effect: PolicyDslEffect;
+  rules: PolicyDslRule[];
+  additionalResources: PolicyDslAdditionalResource[];
+}
+
+export interface PolicyDslError {
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number;
+  length: number;
+}
+
+// Either the parsed document or the first syntax error
+export interface PolicyDslParseResult {
+  document: PolicyDslDocument | null;
+  error: PolicyDslError | null;
+}
+
+export interface PolicyDslParseOptions {
+  actionDisplayNames?: Record<string, string>; // Action ID → display name for the parsed rules
+}
+
+const WILDCARD = '*';
+
+const KEYWORDS = new Set([
+  'allow', 'deny', 'require', 'subject', 'action', 'on', 'resource', 'where', 'when', 'and', 'not',
+  'in', 'contains', 'includes', 'before', 'after', 'between', 'on_or_before', 'on_or_after', 'true', 'false',
+]);
+
+const SYMBOL_OPERATORS: Record<string, PolicyDslOperator> = {
+  '==': 'equals',
+  '!=': 'not_equals',
+  '>': 'greater_than',
+  '<': 'less_than',
+  '>=': 'greater_than_or_equal',
+  '<=': 'less_than_or_equal',
+};
+
+const WORD_OPERATORS: Record<string, PolicyDslOperator> = {
+  contains: 'contains',
+  in: 'in',
+  includes: 'includes',
+  before: 'before',
+  after: 'after',
+  between: 'between',
+  on_or_before: 'on_or_before',
+  on_or_after: 'on_or_after',
+};
+
+const NEGATED_OPERATORS: Record<string, PolicyDslOperator> = {
+  contains: 'not_contains',
+  in: 'not_in',
+  includes: 'not_includes',
+};
+
+const OPERATOR_TEXT: Record<PolicyDslOperator, string> = {
+  equals: '==',
+  not_equals: '!=',
+  greater_than: '>',
+  less_than: '<',
+  greater_than_or_equal: '>=',
+  less_than_or_equal: '<=',
+  contains: 'contains',
+  not_contains: 'not contains',
+  in: 'in',
+  not_in: 'not in',
+  includes: 'includes',
+  not_includes: 'not includes',
+  before: 'before',
+  after: 'after',
+  between: 'between',
+  on_or_before: 'on_or_before',
+  on_or_after: 'on_or_after',
+};
+
+const DATE_OPERATORS: PolicyDslOperator[] = ['before', 'after', 'between', 'on_or_before', 'on_or_after'];
+
+// Conditions only support the operators of the policy model's condition schema
+const CONDITION_OPERATORS: PolicyDslOperator[] = [
+  'equals', 'contains', 'greater_than', 'less_than', 'greater_than_or_equal', 'less_than_or_equal',
+  'in', 'not_in', 'includes', 'not_includes', ...DATE_OPERATORS,
+];
+
+const WORD_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.:-]*$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+type TokenType = 'word' | 'string' | 'number' | 'symbol' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+  offset: number;
+  length: number;
+}
+
+class PolicyDslSyntaxError extends Error {
+  constructor(message: string, readonly token: Pick<Token, 'line' | 'column' | 'offset' | 'length'>) {
+    super(message);
+  }
+}
+
+const describeToken = (token: Token): string =>
+  token.type === 'end' ? 'the end of the policy' : token.type === 'string' ? `"${token.value}"` : `'${token.value}'`;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const at = (start: number, length: number) => ({ line, column: start - lineStart + 1, offset: start, length });
+
+  while (offset < text.length) {
+    const char = text[offset]!;
+
+    if (char === '\n') {
+      offset++;
+      line++;
+      lineStart = offset;
+    } else if (/\s/.test(char)) {
+      offset++;
+    } else if (char === '#') {
+      while (offset < text.length && text[offset] !== '\n') offset++;
+    } else if (char === '"') {
+      const start = offset;
+      let value = '';
+      offset++;
+      while (offset < text.length && text[offset] !== '"' && text[offset] !== '\n') {
+        if (text[offset] === '\\' && offset + 1 < text.length) {
+          const escaped = text[offset + 1]!;
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          offset += 2;
+        } else {
+          value += text[offset];
+          offset++;
+        }
+      }
+      if (text[offset] !== '"') {
+        throw new PolicyDslSyntaxError('Unterminated string', at(start, offset - start));
+      }
+      offset++;
+      tokens.push({ type: 'string', value, ...at(start, offset - start) });
+    } else if (/[A-Za-z0-9_-]/.test(char)) {
+      const start = offset;
+      offset++;
+      while (offset < text.length && /[A-Za-z0-9_.:-]/.test(text[offset]!)) offset++;
+      const value = text.slice(start, offset);
+      if (char === '-' && !NUMBER_PATTERN.test(value)) {
+        throw new PolicyDslSyntaxError(`Unexpected '${value}'`, at(start, offset - start));
+      }
+      tokens.push({ type: NUMBER_PATTERN.test(value) ? 'number' : 'word', value, ...at(start, offset - start) });
+    } else {
+      const symbol = ['==', '!=', '>=', '<='].find(candidate => text.startsWith(candidate, offset))
+        || ('<>[],*'.includes(char) ? char : null);
+      if (!symbol) {
+        throw new PolicyDslSyntaxError(`Unexpected character '${char}'`, at(offset, 1));
+      }
+      tokens.push({ type: 'symbol', value: symbol, ...at(offset, symbol.length) });
+      offset += symbol.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', ...at(offset, 0) });
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+  private ruleCount = 0;
+
+  constructor(private readonly tokens: Token[], private readonly options: PolicyDslParseOptions) {}
+
+  parse(): PolicyDslDocument {
+    const document: PolicyDslDocument = { effect: 'Allow', rules: [], additionalResources: [] };
+    let effectToken: Token | null = null;
+
+    while (this.peek().type !== 'end') {
+      const token = this.peek();
+      if (this.isKeyword(token, 'allow') || this.isKeyword(token, 'deny')) {
+        const effect: PolicyDslEffect = token.value === 'allow' ? 'Allow' : 'Deny';
+        if (effectToken && effect !== document.effect) {
+          throw new PolicyDslSyntaxError(
+            `All rules of a policy share one effect; line ${effectToken.line} already uses ${effectToken.value}`,
+            token
+          );
+        }
+        effectToken = effectToken || token;
+        document.effect = effect;
+        this.next();
+        document.rules.push(this.rule());
+      } else if (this.isKeyword(token, 'require')) {
+        this.next();
+        document.additionalResources.push({ id: this.reference('an additional resource'), attributes: this.optionalAttributes() });
+      } else {
+        throw new PolicyDslSyntaxError(`Expected a statement starting with allow, deny or require but found ${describeToken(token)}`, token);
+      }
+    }
+
+    if (document.rules.length === 0) {
+      throw new PolicyDslSyntaxError('A policy needs at least one allow or deny rule', this.peek());
+    }
+    return document;
+  }
+
+  private rule(): PolicyDslRule {
+    let subject: PolicyDslRule['subject'] = { type: WILDCARD, attributes: [] };
+    if (this.acceptKeyword('subject')) {
+      const type = this.isKeyword(this.peek(), 'where') ? WILDCARD : this.reference('a subject');
+      subject = { type, attributes: this.optionalAttributes() };
+    }
+
+    this.expectKeyword('action');
+    const actionName = this.reference('an action');
+
+    this.expectKeyword('on');
+    this.expectKeyword('resource');
+    const startsClause = ['where', 'when', 'allow', 'deny', 'require'].some(keyword => this.isKeyword(this.peek(), keyword));
+    const objectType = this.peek().type === 'end' || startsClause ? WILDCARD : this.reference('a resource');
+    const object = { type: objectType, attributes: this.optionalAttributes() };
+
+    const conditions: PolicyDslCondition[] = [];
+    if (this.acceptKeyword('when')) {
+      do {
+        const field = this.name('a condition field');
+        const operatorToken = this.peek();
+        const { operator, value } = this.comparison();
+        if (!CONDITION_OPERATORS.includes(operator)) {
+          throw new PolicyDslSyntaxError(`Operator ${OPERATOR_TEXT[operator]} is not supported in conditions`, operatorToken);
+        }
+        conditions.push({ field, operator, value, ...dateConfigOf(operator, value) });
+      } while (this.acceptKeyword('and'));
+    }
+
+    return {
+      id: `rule-${Date.now()}-${this.ruleCount++}`,
+      subject,
+      action: { name: actionName, displayName: this.options.actionDisplayNames?.[actionName] || actionName },
+      object,
+      conditions,
+    };
+  }
+
+  private optionalAttributes(): PolicyDslAttribute[] {
+    const attributes: PolicyDslAttribute[] = [];
+    if (!this.acceptKeyword('where')) return attributes;
+
+    do {
+      const name = this.name('an attribute name');
+      const { operator, value } = this.comparison();
+      attributes.push({ name, operator, value, ...dateConfigOf(operator, value) });
+    } while (this.acceptKeyword('and'));
+
+    return attributes;
+  }
+
+  private comparison(): { operator: PolicyDslOperator; value: PolicyDslValue } {
+    const token = this.next();
+    let operator: PolicyDslOperator | undefined;
+
+    if (token.type === 'symbol') {
+      operator = SYMBOL_OPERATORS[token.value];
+    } else if (this.isKeyword(token, 'not')) {
+      const negated = this.next();
+      operator = negated.type === 'word' ? NEGATED_OPERATORS[negated.value] : undefined;
+      if (!operator) {
+        throw new PolicyDslSyntaxError(`Expected contains, in or includes after 'not' but found ${describeToken(negated)}`, negated);
+      }
+    } else if (token.type === 'word') {
+      operator = WORD_OPERATORS[token.value];
+    }
+
+    if (!operator) {
+      throw new PolicyDslSyntaxError(`Expected an operator (==, !=, >, <, >=, <=, contains, in, includes, before, after, between) but found ${describeToken(token)}`, token);
+    }
+
+    if (operator === 'between') {
+      const start = this.scalar();
+      this.expectKeyword('and');
+      const end = this.scalar();
+      return { operator, value: { start: String(start), end: String(end) } };
+    }
+    return { operator, value: this.value() };
+  }
+
+  private value(): PolicyDslValue {
+    if (this.peek().type === 'symbol' && this.peek().value === '[') {
+      this.next();
+      const values: Array<string | number | boolean> = [];
+      if (!this.acceptSymbol(']')) {
+        do {
+          values.push(this.scalar());
+        } while (this.acceptSymbol(','));
+        this.expectSymbol(']');
+      }
+      return values;
+    }
+    return this.scalar();
+  }
+
+  private scalar(): string | number | boolean {
+    const token = this.next();
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return Number(token.value);
+    if (this.isKeyword(token, 'true')) return true;
+    if (this.isKeyword(token, 'false')) return false;
+    if (token.type === 'word' && !KEYWORDS.has(token.value)) return token.value;
+    throw new PolicyDslSyntaxError(`Expected a value but found ${describeToken(token)}`, token);
+  }
+
+  private reference(expected: string): string {
+    const token = this.next();
+    if (token.type === 'string' && token.value) return token.value;
+    if (token.type === 'symbol' && token.value === WILDCARD) return WILDCARD;
+    if ((token.type === 'word' || token.type === 'number') && !KEYWORDS.has(token.value)) return token.value;
+    throw new PolicyDslSyntaxError(`Expected ${expected} but found ${describeToken(token)}`, token);
+  }
+
+  private name(expected: string): string {
+    const token = this.next();
+    if (token.type === 'string' && token.value) return token.value;
+    if (token.type === 'word' && !KEYWORDS.has(token.value)) return token.value;
+    throw new PolicyDslSyntaxError(`Expected ${expected} but found ${describeToken(token)}`, token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position]!;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') this.position++;
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'word' && token.value === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(this.peek(), keyword)) return false;
+    this.next();
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.peek();
+    if (!this.acceptKeyword(keyword)) {
+      throw new PolicyDslSyntaxError(`Expected '${keyword}' but found ${describeToken(token)}`, token);
+    }
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'symbol' || token.value !== symbol) return false;
+    this.next();
+    return true;
+  }
+
+  private expectSymbol(symbol: string): void {
+    const token = this.peek();
+    if (!this.acceptSymbol(symbol)) {
+      throw new PolicyDslSyntaxError(`Expected '${symbol}' but found ${describeToken(token)}`, token);
+    }
+  }
+}
+
+// Date comparisons carry the date configuration the policy editors set for date attributes
+function dateConfigOf(operator: PolicyDslOperator, value: PolicyDslValue): { dateConfig?: PolicyDslAttribute['dateConfig'] } {
+  if (!DATE_OPERATORS.includes(operator)) return {};
+  const text = isRange(value) ? `${value.start} ${value.end}` : String(value);
+  return { dateConfig: { includeTime: /T\d|\d:\d/.test(text), isRange: operator === 'between' } };
+}
+
+/**
+ * Parses policy text into rules and additional resources. Errors carry the line and column of
+ * the offending token.
+ */
+export function parsePolicyDsl(text: string, options: PolicyDslParseOptions = {}): PolicyDslParseResult {
+  try {
+    return { document: new Parser(tokenize(text), options).parse(), error: null };
+  } catch (error) {
+    if (error instanceof PolicyDslSyntaxError) {
+      const { line, column, offset, length } = error.token;
+      return { document: null, error: { message: error.message, line, column, offset, length } };
+    }
+    throw error;
+  }
+}
+
+const quote = (value: string): string => JSON.stringify(value);
+
+const formatScalar = (value: string | number | boolean): string => {
+  if (typeof value !== 'string') return String(value);
+  return WORD_PATTERN.test(value) && !KEYWORDS.has(value) && !NUMBER_PATTERN.test(value) ? value : quote(value);
+};
+
+const formatName = (name: string): string =>
+  WORD_PATTERN.test(name) && !KEYWORDS.has(name) && !NUMBER_PATTERN.test(name) ? name : quote(name);
+
+const formatReference = (reference: string): string => (reference === WILDCARD ? WILDCARD : quote(reference));
+
+const isRange = (value: PolicyDslValue): value is { start: string; end: string } =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function formatComparison(operator: PolicyDslOperator, value: PolicyDslValue): string {
+  if (isRange(value)) {
+    return `${OPERATOR_TEXT[operator]} ${formatScalar(value.start)} and ${formatScalar(value.end)}`;
+  }
+  const text = Array.isArray(value) ? `[${value.map(formatScalar).join(', ')}]` : formatScalar(value as string | number | boolean);
+  return `${OPERATOR_TEXT[operator]} ${text}`;
+}
+
+const formatAttributes = (attributes: PolicyDslAttribute[]): string =>
+  attributes.length === 0
+    ? ''
+    : ` where ${attributes.map(attribute => `${formatName(attribute.name)} ${formatComparison(attribute.operator, attribute.value)}`).join(' and ')}`;
+
+const isWildcard = (reference: string | undefined): boolean => !reference || reference === WILDCARD;
+
+const MAX_LINE_LENGTH = 100;
+
+/**
+ * Formats rules and additional resources as policy text that parses back into the same
+ * structures. Long rules are split into one clause per line.
+ */
+export function formatPolicyDsl(policy: {
+  effect: PolicyDslEffect;
+  rules: Array<Pick<PolicyDslRule, 'subject' | 'action' | 'object'> & { conditions?: PolicyDslCondition[] }>;
+  additionalResources?: PolicyDslAdditionalResource[];
+}): string {
+  const effect = policy.effect === 'Deny' ? 'deny' : 'allow';
+
+  const rules = policy.rules.map(rule => {
+    const subjectAttributes = rule.subject?.attributes || [];
+    const action = `action ${isWildcard(rule.action?.name) ? WILDCARD : formatReference(rule.action.name)}`;
+    const clauses = [
+      ...(isWildcard(rule.subject?.type) && subjectAttributes.length === 0
+        ? [`${effect} ${action}`]
+        : [
+          `${effect} subject${isWildcard(rule.subject?.type) ? '' : ` ${formatReference(rule.subject.type)}`}${formatAttributes(subjectAttributes)}`,
+          action,
+        ]),
+      `on resource${isWildcard(rule.object?.type) ? '' : ` ${formatReference(rule.object.type)}`}${formatAttributes(rule.object?.attributes || [])}`,
+      ...((rule.conditions || []).length > 0
+        ? [`when ${rule.conditions!.map(condition => `${formatName(condition.field)} ${formatComparison(condition.operator, condition.value)}`).join(' and ')}`]
+        : []),
+    ];
+    const line = clauses.join(' ');
+    return line.length <= MAX_LINE_LENGTH ? line : clauses.join('\n  ');
+  });
+
+  const requirements = (policy.additionalResources || []).map(resource =>
+    `require ${formatReference(resource.id)}${formatAttributes(resource.attributes || [])}`
+  );
+
+  return [...rules, ...requirements].join('\n');
+}
+
+/**
+ * The policy fields a parsed document sets: its rules with the subjects, actions and resources
+ * they target
+ */
+export function toPolicyFields(document: PolicyDslDocument) {
+  const targets = (values: string[]) => [...new Set(values.filter(value => !isWildcard(value)))];
+
+  return {
+    effect: document.effect,
+    rules: document.rules,
+    subjects: targets(document.rules.map(rule => rule.subject.type)),
+    actions: targets(document.rules.map(rule => rule.action.name)),
+    resources: targets(document.rules.map(rule => rule.object.type)),
+    additionalResources: document.additionalResources,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Utility functions for policy revision history and revision diffs
+ */
+
+import { PolicyRevision, PolicyRuleChange, PolicyVersionBump } from '@/types';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  effect: 'Effect',
+  status: 'Status',
+  priority: 'Priority',
+  policyType: 'Policy type',
+  subjects: 'Subjects',
+  resources: 'Resources',
+  actions: 'Actions',
+  additionalResources: 'Additional resources',
+  conditions: 'Conditions',
+  tags: 'Tags',
+};
+
+/**
+ * Orders semantic versions, e.g. "1.10.0" after "1.9.3"
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+
+  for (let index = 0; index < 3; index++) {
+    const difference = (left[index] || 0) - (right[index] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Revisions from newest to oldest version
+ */
+export function sortRevisions(revisions: PolicyRevision[]): PolicyRevision[] {
+  return [...revisions].sort((a, b) => compareVersions(b.version, a.version));
+}
+
+/**
+ * Chip color for a version bump
+ */
+export function getBumpColor(bump: PolicyVersionBump): 'error' | 'warning' | 'info' | 'default' {
+  if (bump === 'major') return 'error';
+  if (bump === 'minor') return 'warning';
+  if (bump === 'patch') return 'info';
+  return 'default';
+}
+
+export function getFieldLabel(field: string): string {
+  return FIELD_LABELS[field] || field;
+}
+
+/**
+ * Compact text for a changed value: lists are comma-separated, objects shown as JSON
+ */
+export function formatDiffValue(value: any): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return value.every(item => typeof item !== 'object') ? value.join(', ') : JSON.stringify(value);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * One line describing a rule change, e.g. "Modified rule admin → read → documents (object, conditions)"
+ */
+export function describeRuleChange(change: PolicyRuleChange): string {
+  const rule = change.kind === 'complexRule' ? 'complex rule' : 'rule';
+
+  if (change.change === 'added') return `Added ${rule} ${change.key}`;
+  if (change.change === 'removed') return `Removed ${rule} ${change.key}`;
+  return `Modified ${rule} ${change.key} (${change.fields.join(', ')})`;
+}
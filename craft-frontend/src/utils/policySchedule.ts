@@ -0,0 +1,52 @@
+/**
+ * Utility functions for scheduling policy activation and expiry
+ */
+
+import { ScheduledTransition } from '@/types';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Value of a datetime-local input for a stored date, in the browser's time zone
+ */
+export function toDateTimeLocalValue(date?: string | null): string {
+  if (!date) return '';
+
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return '';
+
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}T${pad(parsed.getHours())}:${pad(parsed.getMinutes())}`;
+}
+
+/**
+ * ISO date for a datetime-local input value, or null when the input is empty
+ */
+export function fromDateTimeLocalValue(value: string): string | null {
+  if (!value) return null;
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+/**
+ * Validation message for a schedule, or null when it is valid
+ */
+export function getScheduleError(activateAt: string, expireAt: string): string | null {
+  if (activateAt && expireAt && new Date(expireAt).getTime() <= new Date(activateAt).getTime()) {
+    return 'Expiry must be later than activation';
+  }
+  return null;
+}
+
+/**
+ * Relative description of a transition, e.g. "Activates in 3 days"
+ */
+export function describeTransition(transition: ScheduledTransition, now: Date = new Date()): string {
+  const verb = transition.kind === 'activate' ? 'Activates' : 'Expires';
+  const minutes = Math.round((new Date(transition.at).getTime() - now.getTime()) / 60000);
+
+  if (minutes <= 0) return `${verb} now`;
+  if (minutes < 60) return `${verb} in ${minutes} minute(s)`;
+  if (minutes < 24 * 60) return `${verb} in ${Math.round(minutes / 60)} hour(s)`;
+  return `${verb} in ${Math.round(minutes / (24 * 60))} day(s)`;
+}
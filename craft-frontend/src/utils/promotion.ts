@@ -0,0 +1,48 @@
+/**
+ * Utility functions for promoting policies between environments
+ */
+
+import { IEnvironment } from '@/contexts/WorkspaceContext';
+import { PromotionAction, PromotionKind, PromotionPlan } from '@/types';
+
+const KIND_LABELS: Record<PromotionKind, string> = {
+  subject: 'Subject',
+  action: 'Action',
+  resource: 'Resource',
+  additionalResource: 'Additional resource',
+  attribute: 'Attribute',
+};
+
+/**
+ * Environments the source can promote to: those without a configured source, or configured to
+ * promote from it. Environments configured for this source are listed first.
+ */
+export function getPromotionTargets(environments: IEnvironment[], sourceId: string): IEnvironment[] {
+  const configuredSource = (environment: IEnvironment) => environment.metadata?.promotionRules?.autoPromoteFrom;
+
+  return environments
+    .filter(environment => environment._id !== sourceId)
+    .filter(environment => !configuredSource(environment) || configuredSource(environment) === sourceId)
+    .sort((a, b) => Number(configuredSource(b) === sourceId) - Number(configuredSource(a) === sourceId));
+}
+
+export function getKindLabel(kind: PromotionKind): string {
+  return KIND_LABELS[kind] || kind;
+}
+
+/**
+ * Chip color for a planned promotion action
+ */
+export function getPromotionActionColor(action: PromotionAction): 'success' | 'info' | 'default' | 'error' {
+  if (action === 'create') return 'success';
+  if (action === 'update') return 'info';
+  if (action === 'conflict') return 'error';
+  return 'default';
+}
+
+/**
+ * Whether applying the plan would change anything in the target
+ */
+export function hasPromotableChanges(plan: PromotionPlan): boolean {
+  return plan.summary.create + plan.summary.update > 0;
+}
@@ -0,0 +1,48 @@
+/**
+ * Utility functions for the active sessions of the signed-in user
+ */
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short device description from a user agent, e.g. "Chrome on Windows"
+ */
+export function describeUserAgent(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || userAgent.split(' ')[0] || 'Unknown device';
+}
+
+/**
+ * Time since a session was last used, e.g. "Just now", "5 min ago" or "3 days ago"
+ */
+export function formatLastUsed(lastUsedAt: string, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - new Date(lastUsedAt).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+}
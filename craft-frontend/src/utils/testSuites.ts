@@ -0,0 +1,41 @@
+/**
+ * Utility functions for policy test suites and their run reports
+ */
+
+import { PolicyTestCaseResult, PolicyTestRun, PolicyTestSuite } from '@/types';
+
+/**
+ * Result of a case in the suite's last run, if the case existed at that time
+ */
+export function getCaseResult(suite: PolicyTestSuite, caseId: string): PolicyTestCaseResult | undefined {
+  return suite.lastRun?.results.find(result => result.caseId === caseId);
+}
+
+/**
+ * Percentage of passed cases over the last run of every suite that has been run, or null when none has
+ */
+export function getPassRate(suites: PolicyTestSuite[]): number | null {
+  const runs = suites.map(suite => suite.lastRun).filter((run): run is PolicyTestRun => !!run && run.total > 0);
+  const total = runs.reduce((sum, run) => sum + run.total, 0);
+  if (total === 0) return null;
+
+  const passed = runs.reduce((sum, run) => sum + run.passed, 0);
+  return Math.round((passed / total) * 100);
+}
+
+/**
+ * Short summary of a run, e.g. "3 of 4 passed"
+ */
+export function formatRunSummary(run: PolicyTestRun | undefined): string {
+  if (!run) return 'Not run yet';
+  if (run.total === 0) return 'No test cases';
+  return run.failed === 0 ? `All ${run.total} passed` : `${run.passed} of ${run.total} passed`;
+}
+
+/**
+ * Chip color for a run: success when every case passed, error when any failed
+ */
+export function getRunColor(run: PolicyTestRun | undefined): 'default' | 'success' | 'error' {
+  if (!run || run.total === 0) return 'default';
+  return run.failed === 0 ? 'success' : 'error';
+}